@@ -0,0 +1,229 @@
+/**
+ * Script to create the Email Suppressions table in Airtable and the delivery
+ * tracking fields on EMAIL_LOGS, then auto-patch the codebase with the real
+ * table and field IDs.
+ *
+ * Run with: npx tsx scripts/create-email-suppressions-table.ts
+ *
+ * Both are written by the Resend webhook (/api/webhooks/resend). The
+ * recipient lookups in emailAutomationService skip suppressed addresses.
+ *
+ * After creation, prints IDs and patches email-automation.ts.
+ */
+
+import { config } from 'dotenv';
+import { readFileSync, writeFileSync } from 'fs';
+import { resolve } from 'path';
+
+config({ path: '.env.local' });
+
+const AIRTABLE_API_KEY = process.env.AIRTABLE_API_KEY;
+const AIRTABLE_BASE_ID = process.env.AIRTABLE_BASE_ID;
+const PATCH_FILE = 'src/lib/types/email-automation.ts';
+const EMAIL_LOGS_TABLE_ID = 'tblxLemlKY8p8cIwS';
+
+if (!AIRTABLE_API_KEY || !AIRTABLE_BASE_ID) {
+  console.error('Missing AIRTABLE_API_KEY or AIRTABLE_BASE_ID in .env.local');
+  process.exit(1);
+}
+
+const DATE_TIME_OPTIONS = {
+  dateFormat: { name: 'iso' },
+  timeFormat: { name: '24hour' },
+  timeZone: 'Europe/Berlin',
+};
+
+interface FieldDef {
+  name: string;
+  type: string;
+  description: string;
+  placeholder: string;
+  options?: Record<string, unknown>;
+}
+
+interface TableDef {
+  name: string;
+  description: string;
+  placeholder: string;
+  fields: FieldDef[];
+}
+
+const SUPPRESSIONS_TABLE: TableDef = {
+  name: 'Email Suppressions',
+  description: 'Addresses we no longer send to - hard bounces, spam complaints and manual blocks',
+  placeholder: 'tblEMAILSUPPRESSION',
+  fields: [
+    { name: 'email', type: 'email', description: 'Suppressed address (lowercase)', placeholder: 'fldESEMAIL000000000' },
+    {
+      name: 'reason',
+      type: 'singleSelect',
+      description: 'Why the address is suppressed',
+      placeholder: 'fldESREASON00000000',
+      options: {
+        choices: [
+          { name: 'bounce', color: 'redBright' },
+          { name: 'complaint', color: 'orangeBright' },
+          { name: 'manual', color: 'grayBright' },
+        ],
+      },
+    },
+    { name: 'detail', type: 'multilineText', description: 'Bounce message or admin note', placeholder: 'fldESDETAIL00000000' },
+    { name: 'resend_message_id', type: 'singleLineText', description: 'Resend message that caused the suppression', placeholder: 'fldESMESSAGEID00000' },
+    { name: 'created_at', type: 'dateTime', description: 'When the address was suppressed', placeholder: 'fldESCREATEDAT00000', options: DATE_TIME_OPTIONS },
+  ],
+};
+
+const EMAIL_LOG_FIELDS: FieldDef[] = [
+  {
+    name: 'delivery_status',
+    type: 'singleSelect',
+    description: 'Last delivery event reported by Resend',
+    placeholder: 'fldELDELIVERYSTATUS',
+    options: {
+      choices: [
+        { name: 'delivered', color: 'greenBright' },
+        { name: 'delayed', color: 'yellowBright' },
+        { name: 'bounced', color: 'redBright' },
+        { name: 'complained', color: 'orangeBright' },
+      ],
+    },
+  },
+  { name: 'delivery_updated_at', type: 'dateTime', description: 'When the last delivery event happened', placeholder: 'fldELDELIVERYUPDATE', options: DATE_TIME_OPTIONS },
+  { name: 'opened_at', type: 'dateTime', description: 'First open reported by Resend', placeholder: 'fldELOPENEDAT000000', options: DATE_TIME_OPTIONS },
+  { name: 'delivery_detail', type: 'multilineText', description: 'Bounce message', placeholder: 'fldELDELIVERYDETAIL' },
+];
+
+interface AirtableTableResponse {
+  id: string;
+  name: string;
+  fields: Array<{ id: string; name: string }>;
+}
+
+async function createTable(tableDef: TableDef): Promise<AirtableTableResponse> {
+  const url = `https://api.airtable.com/v0/meta/bases/${AIRTABLE_BASE_ID}/tables`;
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${AIRTABLE_API_KEY}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      name: tableDef.name,
+      description: tableDef.description,
+      fields: tableDef.fields.map(({ name, type, description, options }) => ({
+        name,
+        type,
+        description,
+        ...(options && { options }),
+      })),
+    }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Failed to create table "${tableDef.name}": ${response.status} ${errorText}`);
+  }
+
+  return response.json() as Promise<AirtableTableResponse>;
+}
+
+async function createField(tableId: string, fieldDef: FieldDef): Promise<{ id: string; name: string }> {
+  const url = `https://api.airtable.com/v0/meta/bases/${AIRTABLE_BASE_ID}/tables/${tableId}/fields`;
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${AIRTABLE_API_KEY}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      name: fieldDef.name,
+      type: fieldDef.type,
+      description: fieldDef.description,
+      ...(fieldDef.options && { options: fieldDef.options }),
+    }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Failed to create field "${fieldDef.name}": ${response.status} ${errorText}`);
+  }
+
+  return response.json() as Promise<{ id: string; name: string }>;
+}
+
+async function main() {
+  console.log('='.repeat(60));
+  console.log('Creating email suppressions table');
+  console.log('='.repeat(60));
+  console.log();
+
+  const replacements: Array<{ placeholder: string; id: string; label: string }> = [];
+
+  const collect = (tableDef: TableDef, created: AirtableTableResponse) => {
+    replacements.push({ placeholder: tableDef.placeholder, id: created.id, label: tableDef.name });
+    for (const field of tableDef.fields) {
+      const createdField = created.fields.find((f) => f.name === field.name);
+      if (!createdField) {
+        console.error(`  -> Field "${field.name}" missing in response for ${tableDef.name}`);
+        process.exit(1);
+      }
+      replacements.push({ placeholder: field.placeholder, id: createdField.id, label: `${tableDef.name}.${field.name}` });
+    }
+  };
+
+  console.log(`Creating table: ${SUPPRESSIONS_TABLE.name}...`);
+  const suppressions = await createTable(SUPPRESSIONS_TABLE);
+  console.log(`  -> Created with ID: ${suppressions.id}`);
+  collect(SUPPRESSIONS_TABLE, suppressions);
+
+  for (const field of EMAIL_LOG_FIELDS) {
+    console.log(`Creating field: EMAIL_LOGS.${field.name}...`);
+    const created = await createField(EMAIL_LOGS_TABLE_ID, field);
+    console.log(`  -> Created with ID: ${created.id}`);
+    replacements.push({ placeholder: field.placeholder, id: created.id, label: `EMAIL_LOGS.${field.name}` });
+  }
+
+  console.log();
+  console.log('IDs:');
+  for (const r of replacements) {
+    console.log(`  ${r.label}: '${r.id}'`);
+  }
+
+  // Auto-patch source file
+  console.log();
+  console.log('Patching source files...');
+
+  const absPath = resolve(__dirname, '..', PATCH_FILE);
+  let content = readFileSync(absPath, 'utf-8');
+  let totalPatched = 0;
+
+  for (const r of replacements) {
+    const escapedPlaceholder = r.placeholder.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const regex = new RegExp(escapedPlaceholder, 'g');
+    const matches = content.match(regex);
+    if (matches && matches.length > 0) {
+      content = content.replace(regex, r.id);
+      totalPatched += matches.length;
+      console.log(`  ${PATCH_FILE}: ${r.placeholder} -> ${r.id}`);
+    }
+  }
+
+  if (totalPatched > 0) {
+    writeFileSync(absPath, content, 'utf-8');
+    console.log(`Patched ${totalPatched} placeholder(s).`);
+  } else {
+    console.log('No placeholders to patch (already up to date or file structure changed).');
+  }
+
+  console.log();
+  console.log('Done! Table and fields created and source files updated.');
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((err) => {
+    console.error('Fatal error:', err);
+    process.exit(1);
+  });
@@ -0,0 +1,232 @@
+/**
+ * Script to create the Invoices (Rechnungen) table in Airtable, then
+ * auto-patch the codebase with the real table and field IDs.
+ *
+ * Run with: npx tsx scripts/create-invoices-table.ts
+ *
+ * One row per invoice or cancellation invoice (invoiceService). The
+ * `cancels` self-link can only be added once the table exists, so it is
+ * created in a second step.
+ *
+ * After creation, prints IDs and patches airtable.ts.
+ */
+
+import { config } from 'dotenv';
+import { readFileSync, writeFileSync } from 'fs';
+import { resolve } from 'path';
+
+config({ path: '.env.local' });
+
+const AIRTABLE_API_KEY = process.env.AIRTABLE_API_KEY;
+const AIRTABLE_BASE_ID = process.env.AIRTABLE_BASE_ID;
+const PATCH_FILE = 'src/lib/types/airtable.ts';
+const EVENTS_TABLE_ID = 'tblVWx1RrsGRjsNn5';
+
+if (!AIRTABLE_API_KEY || !AIRTABLE_BASE_ID) {
+  console.error('Missing AIRTABLE_API_KEY or AIRTABLE_BASE_ID in .env.local');
+  process.exit(1);
+}
+
+const DATE_TIME_OPTIONS = {
+  dateFormat: { name: 'iso' },
+  timeFormat: { name: '24hour' },
+  timeZone: 'Europe/Berlin',
+};
+
+interface FieldDef {
+  name: string;
+  type: string;
+  description: string;
+  placeholder: string;
+  options?: Record<string, unknown>;
+}
+
+interface TableDef {
+  name: string;
+  description: string;
+  placeholder: string;
+  fields: FieldDef[];
+}
+
+const DATE_OPTIONS = { dateFormat: { name: 'iso' } };
+const CURRENCY_OPTIONS = { precision: 2, symbol: '€' };
+
+const INVOICES_TABLE: TableDef = {
+  name: 'Invoices',
+  description: 'School fee invoices (Rechnungen) and cancellation invoices (Storno)',
+  placeholder: 'tblINVOICES0000000',
+  fields: [
+    { name: 'invoice_number', type: 'singleLineText', description: 'e.g. RE-2026-0007, empty while draft', placeholder: 'fldINVNUMBER000000' },
+    { name: 'event', type: 'multipleRecordLinks', description: 'Event the invoice is for', placeholder: 'fldINVEVENT0000000', options: { linkedTableId: EVENTS_TABLE_ID } },
+    { name: 'event_id', type: 'singleLineText', description: 'Event ID, for filtering and analytics', placeholder: 'fldINVEVENTID00000' },
+    {
+      name: 'invoice_type',
+      type: 'singleSelect',
+      description: 'Invoice or cancellation invoice',
+      placeholder: 'fldINVTYPE00000000',
+      options: { choices: [{ name: 'invoice' }, { name: 'storno' }] },
+    },
+    {
+      name: 'status',
+      type: 'singleSelect',
+      description: 'Invoice lifecycle',
+      placeholder: 'fldINVSTATUS000000',
+      options: { choices: [{ name: 'draft' }, { name: 'sent' }, { name: 'paid' }, { name: 'overdue' }, { name: 'cancelled' }] },
+    },
+    { name: 'recipient', type: 'multilineText', description: 'JSON recipient address at the time of issue', placeholder: 'fldINVRECIPIENT000' },
+    { name: 'line_items', type: 'multilineText', description: 'JSON line items', placeholder: 'fldINVITEMS0000000' },
+    { name: 'vat_rate', type: 'number', description: 'VAT rate in percent', placeholder: 'fldINVVATRATE00000', options: { precision: 0 } },
+    { name: 'net_amount', type: 'currency', description: 'Net amount', placeholder: 'fldINVNET000000000', options: CURRENCY_OPTIONS },
+    { name: 'vat_amount', type: 'currency', description: 'VAT amount', placeholder: 'fldINVVAT000000000', options: CURRENCY_OPTIONS },
+    { name: 'gross_amount', type: 'currency', description: 'Gross amount due', placeholder: 'fldINVGROSS0000000', options: CURRENCY_OPTIONS },
+    { name: 'service_date', type: 'date', description: 'Leistungsdatum (event date)', placeholder: 'fldINVSERVICEDATE0', options: DATE_OPTIONS },
+    { name: 'issue_date', type: 'date', description: 'Rechnungsdatum', placeholder: 'fldINVISSUEDATE000', options: DATE_OPTIONS },
+    { name: 'due_date', type: 'date', description: 'Payment due date', placeholder: 'fldINVDUEDATE00000', options: DATE_OPTIONS },
+    { name: 'r2_key', type: 'singleLineText', description: 'PDF location in R2', placeholder: 'fldINVR2KEY0000000' },
+    { name: 'sent_at', type: 'dateTime', description: 'Last time the PDF was emailed', placeholder: 'fldINVSENTAT000000', options: DATE_TIME_OPTIONS },
+    { name: 'sent_to', type: 'email', description: 'Recipient of the last email', placeholder: 'fldINVSENTTO000000' },
+    { name: 'paid_at', type: 'date', description: 'Payment received', placeholder: 'fldINVPAIDAT000000', options: DATE_OPTIONS },
+    { name: 'cancellation_reason', type: 'multilineText', description: 'Why the invoice was cancelled', placeholder: 'fldINVCANCELREASON' },
+    { name: 'dunning_level', type: 'number', description: 'Reminders sent (0-2)', placeholder: 'fldINVDUNNINGLEVEL', options: { precision: 0 } },
+    { name: 'last_dunning_at', type: 'dateTime', description: 'Last reminder sent', placeholder: 'fldINVLASTDUNNING0', options: DATE_TIME_OPTIONS },
+    { name: 'created_by', type: 'email', description: 'Admin who created the invoice', placeholder: 'fldINVCREATEDBY000' },
+    { name: 'issue_token', type: 'singleLineText', description: 'Holder of the issue lock while a draft is issued or an invoice cancelled', placeholder: 'fldINVISSUETOKEN00' },
+    { name: 'issue_locked_until', type: 'dateTime', description: 'Issue lock expiry', placeholder: 'fldINVISSUEUNTIL00', options: DATE_TIME_OPTIONS },
+  ],
+};
+
+// Added after the table exists (links back to the same table)
+const CANCELS_FIELD: FieldDef = {
+  name: 'cancels',
+  type: 'multipleRecordLinks',
+  description: 'Storno only: the invoice it cancels',
+  placeholder: 'fldINVCANCELS00000',
+};
+
+interface AirtableTableResponse {
+  id: string;
+  name: string;
+  fields: Array<{ id: string; name: string }>;
+}
+
+async function createTable(tableDef: TableDef): Promise<AirtableTableResponse> {
+  const url = `https://api.airtable.com/v0/meta/bases/${AIRTABLE_BASE_ID}/tables`;
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${AIRTABLE_API_KEY}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      name: tableDef.name,
+      description: tableDef.description,
+      fields: tableDef.fields.map(({ name, type, description, options }) => ({
+        name,
+        type,
+        description,
+        ...(options && { options }),
+      })),
+    }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Failed to create table "${tableDef.name}": ${response.status} ${errorText}`);
+  }
+
+  return response.json() as Promise<AirtableTableResponse>;
+}
+
+async function createField(tableId: string, fieldDef: FieldDef): Promise<{ id: string; name: string }> {
+  const url = `https://api.airtable.com/v0/meta/bases/${AIRTABLE_BASE_ID}/tables/${tableId}/fields`;
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${AIRTABLE_API_KEY}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      name: fieldDef.name,
+      type: fieldDef.type,
+      description: fieldDef.description,
+      ...(fieldDef.options && { options: fieldDef.options }),
+    }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Failed to create field "${fieldDef.name}": ${response.status} ${errorText}`);
+  }
+
+  return response.json() as Promise<{ id: string; name: string }>;
+}
+
+async function main() {
+  console.log('='.repeat(60));
+  console.log('Creating invoices table');
+  console.log('='.repeat(60));
+  console.log();
+
+  const replacements: Array<{ placeholder: string; id: string; label: string }> = [];
+
+  console.log(`Creating table: ${INVOICES_TABLE.name}...`);
+  const invoices = await createTable(INVOICES_TABLE);
+  console.log(`  -> Created with ID: ${invoices.id}`);
+  replacements.push({ placeholder: INVOICES_TABLE.placeholder, id: invoices.id, label: INVOICES_TABLE.name });
+  for (const field of INVOICES_TABLE.fields) {
+    const createdField = invoices.fields.find((f) => f.name === field.name);
+    if (!createdField) {
+      console.error(`  -> Field "${field.name}" missing in response for ${INVOICES_TABLE.name}`);
+      process.exit(1);
+    }
+    replacements.push({ placeholder: field.placeholder, id: createdField.id, label: `${INVOICES_TABLE.name}.${field.name}` });
+  }
+
+  console.log(`Adding self-link: ${CANCELS_FIELD.name}...`);
+  const cancels = await createField(invoices.id, { ...CANCELS_FIELD, options: { linkedTableId: invoices.id } });
+  replacements.push({ placeholder: CANCELS_FIELD.placeholder, id: cancels.id, label: `${INVOICES_TABLE.name}.${CANCELS_FIELD.name}` });
+
+  console.log();
+  console.log('IDs:');
+  for (const r of replacements) {
+    console.log(`  ${r.label}: '${r.id}'`);
+  }
+
+  // Auto-patch source file
+  console.log();
+  console.log('Patching source files...');
+
+  const absPath = resolve(__dirname, '..', PATCH_FILE);
+  let content = readFileSync(absPath, 'utf-8');
+  let totalPatched = 0;
+
+  for (const r of replacements) {
+    const escapedPlaceholder = r.placeholder.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const regex = new RegExp(escapedPlaceholder, 'g');
+    const matches = content.match(regex);
+    if (matches && matches.length > 0) {
+      content = content.replace(regex, r.id);
+      totalPatched += matches.length;
+      console.log(`  ${PATCH_FILE}: ${r.placeholder} -> ${r.id}`);
+    }
+  }
+
+  if (totalPatched > 0) {
+    writeFileSync(absPath, content, 'utf-8');
+    console.log(`Patched ${totalPatched} placeholder(s).`);
+  } else {
+    console.log('No placeholders to patch (already up to date or file structure changed).');
+  }
+
+  console.log();
+  console.log('Done! Table created and source files updated.');
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((err) => {
+    console.error('Fatal error:', err);
+    process.exit(1);
+  });
@@ -0,0 +1,205 @@
+/**
+ * Script to create the Jobs table in Airtable,
+ * then auto-patch the codebase with the real table and field IDs.
+ *
+ * Run with: npx tsx scripts/create-jobs-table.ts
+ *
+ * One row per background job. Written by jobService, worked off by the
+ * /api/cron/jobs runner and listed under /admin/jobs.
+ *
+ * After creation, prints IDs and patches airtable.ts.
+ */
+
+import { config } from 'dotenv';
+import { readFileSync, writeFileSync } from 'fs';
+import { resolve } from 'path';
+
+config({ path: '.env.local' });
+
+const AIRTABLE_API_KEY = process.env.AIRTABLE_API_KEY;
+const AIRTABLE_BASE_ID = process.env.AIRTABLE_BASE_ID;
+const PATCH_FILE = 'src/lib/types/airtable.ts';
+
+if (!AIRTABLE_API_KEY || !AIRTABLE_BASE_ID) {
+  console.error('Missing AIRTABLE_API_KEY or AIRTABLE_BASE_ID in .env.local');
+  process.exit(1);
+}
+
+const DATE_TIME_OPTIONS = {
+  dateFormat: { name: 'iso' },
+  timeFormat: { name: '24hour' },
+  timeZone: 'Europe/Berlin',
+};
+
+interface FieldDef {
+  name: string;
+  type: string;
+  description: string;
+  placeholder: string;
+  options?: Record<string, unknown>;
+}
+
+interface TableDef {
+  name: string;
+  description: string;
+  placeholder: string;
+  fields: FieldDef[];
+}
+
+const JOBS_TABLE: TableDef = {
+  name: 'Jobs',
+  description: 'Background job queue - printables, audio processing, fulfillment and Shopify resyncs',
+  placeholder: 'tblJOBS000000000000',
+  fields: [
+    { name: 'label', type: 'singleLineText', description: 'What the job does, e.g. "Printables – Grundschule Musterstadt"', placeholder: 'fldJOBLABEL00000000' },
+    {
+      name: 'type',
+      type: 'singleSelect',
+      description: 'Job handler (see src/lib/services/jobHandlers.ts)',
+      placeholder: 'fldJOBTYPE000000000',
+      options: {
+        choices: [
+          { name: 'printables.generate', color: 'purpleBright' },
+          { name: 'audio.process', color: 'cyanBright' },
+          { name: 'audio.analyze', color: 'greenBright' },
+          { name: 'audio.tag', color: 'greenLight2' },
+          { name: 'fulfillment.welle', color: 'tealBright' },
+          { name: 'orders.shopify_backfill', color: 'blueBright' },
+          { name: 'cd.image', color: 'yellowBright' },
+        ],
+      },
+    },
+    {
+      name: 'status',
+      type: 'singleSelect',
+      description: 'Queue state',
+      placeholder: 'fldJOBSTATUS0000000',
+      options: {
+        choices: [
+          { name: 'queued', color: 'grayBright' },
+          { name: 'running', color: 'yellowBright' },
+          { name: 'succeeded', color: 'greenBright' },
+          { name: 'failed', color: 'redBright' },
+        ],
+      },
+    },
+    { name: 'payload', type: 'multilineText', description: 'Job input (JSON)', placeholder: 'fldJOBPAYLOAD000000' },
+    { name: 'steps', type: 'multilineText', description: 'Planned steps with status and result (JSON)', placeholder: 'fldJOBSTEPS00000000' },
+    { name: 'result', type: 'multilineText', description: 'Job result once finished (JSON)', placeholder: 'fldJOBRESULT0000000' },
+    { name: 'attempts', type: 'number', description: 'Failed runs so far', placeholder: 'fldJOBATTEMPTS00000', options: { precision: 0 } },
+    { name: 'max_attempts', type: 'number', description: 'Runs before the job is marked failed', placeholder: 'fldJOBMAXATTEMPTS00', options: { precision: 0 } },
+    { name: 'run_after', type: 'dateTime', description: 'Not picked up by the runner before this', placeholder: 'fldJOBRUNAFTER00000', options: DATE_TIME_OPTIONS },
+    { name: 'locked_until', type: 'dateTime', description: 'Runner lock expiry', placeholder: 'fldJOBLOCKEDUNTIL00', options: DATE_TIME_OPTIONS },
+    { name: 'lock_token', type: 'singleLineText', description: 'Token of the runner holding the lock', placeholder: 'fldJOBLOCKTOKEN0000' },
+    { name: 'last_error', type: 'multilineText', description: 'Error of the last failed run', placeholder: 'fldJOBLASTERROR0000' },
+    { name: 'logs', type: 'multilineText', description: 'Timestamped log lines (last 200)', placeholder: 'fldJOBLOGS000000000' },
+    { name: 'created_by', type: 'singleLineText', description: 'Staff email that queued the job', placeholder: 'fldJOBCREATEDBY0000' },
+    { name: 'created_at', type: 'dateTime', description: 'When the job was queued', placeholder: 'fldJOBCREATEDAT0000', options: DATE_TIME_OPTIONS },
+    { name: 'started_at', type: 'dateTime', description: 'First run start', placeholder: 'fldJOBSTARTEDAT0000', options: DATE_TIME_OPTIONS },
+    { name: 'finished_at', type: 'dateTime', description: 'When the job succeeded or failed', placeholder: 'fldJOBFINISHEDAT000', options: DATE_TIME_OPTIONS },
+    { name: 'dedup_key', type: 'singleLineText', description: 'Jobs with the same key are not queued twice while one is active', placeholder: 'fldJOBDEDUPKEY00000' },
+  ],
+};
+
+interface AirtableTableResponse {
+  id: string;
+  name: string;
+  fields: Array<{ id: string; name: string }>;
+}
+
+async function createTable(tableDef: TableDef): Promise<AirtableTableResponse> {
+  const url = `https://api.airtable.com/v0/meta/bases/${AIRTABLE_BASE_ID}/tables`;
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${AIRTABLE_API_KEY}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      name: tableDef.name,
+      description: tableDef.description,
+      fields: tableDef.fields.map(({ name, type, description, options }) => ({
+        name,
+        type,
+        description,
+        ...(options && { options }),
+      })),
+    }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Failed to create table "${tableDef.name}": ${response.status} ${errorText}`);
+  }
+
+  return response.json() as Promise<AirtableTableResponse>;
+}
+
+async function main() {
+  console.log('='.repeat(60));
+  console.log('Creating jobs table');
+  console.log('='.repeat(60));
+  console.log();
+
+  const replacements: Array<{ placeholder: string; id: string; label: string }> = [];
+
+  const collect = (tableDef: TableDef, created: AirtableTableResponse) => {
+    replacements.push({ placeholder: tableDef.placeholder, id: created.id, label: tableDef.name });
+    for (const field of tableDef.fields) {
+      const createdField = created.fields.find((f) => f.name === field.name);
+      if (!createdField) {
+        console.error(`  -> Field "${field.name}" missing in response for ${tableDef.name}`);
+        process.exit(1);
+      }
+      replacements.push({ placeholder: field.placeholder, id: createdField.id, label: `${tableDef.name}.${field.name}` });
+    }
+  };
+
+  console.log(`Creating table: ${JOBS_TABLE.name}...`);
+  const jobs = await createTable(JOBS_TABLE);
+  console.log(`  -> Created with ID: ${jobs.id}`);
+  collect(JOBS_TABLE, jobs);
+
+  console.log();
+  console.log('IDs:');
+  for (const r of replacements) {
+    console.log(`  ${r.label}: '${r.id}'`);
+  }
+
+  // Auto-patch source file
+  console.log();
+  console.log('Patching source files...');
+
+  const absPath = resolve(__dirname, '..', PATCH_FILE);
+  let content = readFileSync(absPath, 'utf-8');
+  let totalPatched = 0;
+
+  for (const r of replacements) {
+    const escapedPlaceholder = r.placeholder.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const regex = new RegExp(escapedPlaceholder, 'g');
+    const matches = content.match(regex);
+    if (matches && matches.length > 0) {
+      content = content.replace(regex, r.id);
+      totalPatched += matches.length;
+      console.log(`  ${PATCH_FILE}: ${r.placeholder} -> ${r.id}`);
+    }
+  }
+
+  if (totalPatched > 0) {
+    writeFileSync(absPath, content, 'utf-8');
+    console.log(`Patched ${totalPatched} placeholder(s).`);
+  } else {
+    console.log('No placeholders to patch (already up to date or file structure changed).');
+  }
+
+  console.log();
+  console.log('Done! Table created and source files updated.');
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((err) => {
+    console.error('Fatal error:', err);
+    process.exit(1);
+  });
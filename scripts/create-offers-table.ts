@@ -0,0 +1,167 @@
+/**
+ * Script to create the Offers (Angebote) table in Airtable, then auto-patch
+ * the codebase with the real table and field IDs.
+ *
+ * Run with: npx tsx scripts/create-offers-table.ts
+ *
+ * One row per generated offer PDF (offerService). Offers link to a lead or
+ * to an event; each regeneration adds a new version.
+ *
+ * After creation, prints IDs and patches airtable.ts.
+ */
+
+import { config } from 'dotenv';
+import { readFileSync, writeFileSync } from 'fs';
+import { resolve } from 'path';
+
+config({ path: '.env.local' });
+
+const AIRTABLE_API_KEY = process.env.AIRTABLE_API_KEY;
+const AIRTABLE_BASE_ID = process.env.AIRTABLE_BASE_ID;
+const PATCH_FILE = 'src/lib/types/airtable.ts';
+const LEADS_TABLE_ID = 'tblPZ6REJCFYwldBh';
+const EVENTS_TABLE_ID = 'tblVWx1RrsGRjsNn5';
+
+if (!AIRTABLE_API_KEY || !AIRTABLE_BASE_ID) {
+  console.error('Missing AIRTABLE_API_KEY or AIRTABLE_BASE_ID in .env.local');
+  process.exit(1);
+}
+
+const DATE_TIME_OPTIONS = {
+  dateFormat: { name: 'iso' },
+  timeFormat: { name: '24hour' },
+  timeZone: 'Europe/Berlin',
+};
+
+interface FieldDef {
+  name: string;
+  type: string;
+  description: string;
+  placeholder: string;
+  options?: Record<string, unknown>;
+}
+
+interface TableDef {
+  name: string;
+  description: string;
+  placeholder: string;
+  fields: FieldDef[];
+}
+
+const OFFERS_TABLE: TableDef = {
+  name: 'Offers',
+  description: 'Generated offer PDFs (Angebote) - one row per version',
+  placeholder: 'tblOFFERS000000000',
+  fields: [
+    { name: 'offer_number', type: 'singleLineText', description: 'e.g. ANG-2026-4F2KQ-2', placeholder: 'fldOFFERNUMBER0000' },
+    { name: 'lead', type: 'multipleRecordLinks', description: 'Lead the offer was made for', placeholder: 'fldOFFERLEAD000000', options: { linkedTableId: LEADS_TABLE_ID } },
+    { name: 'event', type: 'multipleRecordLinks', description: 'Event the offer was made for', placeholder: 'fldOFFEREVENT00000', options: { linkedTableId: EVENTS_TABLE_ID } },
+    { name: 'version', type: 'number', description: 'Version per lead/event', placeholder: 'fldOFFERVERSION000', options: { precision: 0 } },
+    { name: 'line_items', type: 'multilineText', description: 'JSON fee breakdown the PDF was rendered from', placeholder: 'fldOFFERITEMS00000' },
+    { name: 'total', type: 'currency', description: 'Offer total', placeholder: 'fldOFFERTOTAL00000', options: { precision: 2, symbol: '€' } },
+    { name: 'valid_until', type: 'date', description: 'Offer validity date', placeholder: 'fldOFFERVALID00000', options: { dateFormat: { name: 'iso' } } },
+    { name: 'r2_key', type: 'singleLineText', description: 'PDF location in R2', placeholder: 'fldOFFERR2KEY00000' },
+    { name: 'created_by', type: 'email', description: 'Admin who generated the offer', placeholder: 'fldOFFERCREATEDBY0' },
+    { name: 'sent_at', type: 'dateTime', description: 'Last time the PDF was emailed', placeholder: 'fldOFFERSENTAT0000', options: DATE_TIME_OPTIONS },
+    { name: 'sent_to', type: 'email', description: 'Recipient of the last email', placeholder: 'fldOFFERSENTTO0000' },
+  ],
+};
+
+interface AirtableTableResponse {
+  id: string;
+  name: string;
+  fields: Array<{ id: string; name: string }>;
+}
+
+async function createTable(tableDef: TableDef): Promise<AirtableTableResponse> {
+  const url = `https://api.airtable.com/v0/meta/bases/${AIRTABLE_BASE_ID}/tables`;
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${AIRTABLE_API_KEY}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      name: tableDef.name,
+      description: tableDef.description,
+      fields: tableDef.fields.map(({ name, type, description, options }) => ({
+        name,
+        type,
+        description,
+        ...(options && { options }),
+      })),
+    }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Failed to create table "${tableDef.name}": ${response.status} ${errorText}`);
+  }
+
+  return response.json() as Promise<AirtableTableResponse>;
+}
+
+async function main() {
+  console.log('='.repeat(60));
+  console.log('Creating offers table');
+  console.log('='.repeat(60));
+  console.log();
+
+  const replacements: Array<{ placeholder: string; id: string; label: string }> = [];
+
+  console.log(`Creating table: ${OFFERS_TABLE.name}...`);
+  const offers = await createTable(OFFERS_TABLE);
+  console.log(`  -> Created with ID: ${offers.id}`);
+  replacements.push({ placeholder: OFFERS_TABLE.placeholder, id: offers.id, label: OFFERS_TABLE.name });
+  for (const field of OFFERS_TABLE.fields) {
+    const createdField = offers.fields.find((f) => f.name === field.name);
+    if (!createdField) {
+      console.error(`  -> Field "${field.name}" missing in response for ${OFFERS_TABLE.name}`);
+      process.exit(1);
+    }
+    replacements.push({ placeholder: field.placeholder, id: createdField.id, label: `${OFFERS_TABLE.name}.${field.name}` });
+  }
+
+  console.log();
+  console.log('IDs:');
+  for (const r of replacements) {
+    console.log(`  ${r.label}: '${r.id}'`);
+  }
+
+  // Auto-patch source file
+  console.log();
+  console.log('Patching source files...');
+
+  const absPath = resolve(__dirname, '..', PATCH_FILE);
+  let content = readFileSync(absPath, 'utf-8');
+  let totalPatched = 0;
+
+  for (const r of replacements) {
+    const escapedPlaceholder = r.placeholder.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const regex = new RegExp(escapedPlaceholder, 'g');
+    const matches = content.match(regex);
+    if (matches && matches.length > 0) {
+      content = content.replace(regex, r.id);
+      totalPatched += matches.length;
+      console.log(`  ${PATCH_FILE}: ${r.placeholder} -> ${r.id}`);
+    }
+  }
+
+  if (totalPatched > 0) {
+    writeFileSync(absPath, content, 'utf-8');
+    console.log(`Patched ${totalPatched} placeholder(s).`);
+  } else {
+    console.log('No placeholders to patch (already up to date or file structure changed).');
+  }
+
+  console.log();
+  console.log('Done! Table created and source files updated.');
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((err) => {
+    console.error('Fatal error:', err);
+    process.exit(1);
+  });
@@ -0,0 +1,210 @@
+/**
+ * Script to create the Repertoire table (GEMA catalogue of known works) in
+ * Airtable, add the Songs.repertoire_work link, then auto-patch the codebase
+ * with the real table and field IDs.
+ *
+ * Run with: npx tsx scripts/create-repertoire-table.ts
+ *
+ * One row per known work with its composer, lyricist, publisher and
+ * licensing status (repertoireService). Teacher-entered Song titles are
+ * fuzzy-matched against it; confirmed matches are stored on the song.
+ *
+ * After creation, prints IDs and patches airtable.ts.
+ */
+
+import { config } from 'dotenv';
+import { readFileSync, writeFileSync } from 'fs';
+import { resolve } from 'path';
+
+config({ path: '.env.local' });
+
+const AIRTABLE_API_KEY = process.env.AIRTABLE_API_KEY;
+const AIRTABLE_BASE_ID = process.env.AIRTABLE_BASE_ID;
+const PATCH_FILE = 'src/lib/types/airtable.ts';
+const SONGS_TABLE_ID = 'tblPjGWQlHuG8jp5X';
+
+if (!AIRTABLE_API_KEY || !AIRTABLE_BASE_ID) {
+  console.error('Missing AIRTABLE_API_KEY or AIRTABLE_BASE_ID in .env.local');
+  process.exit(1);
+}
+
+interface FieldDef {
+  name: string;
+  type: string;
+  description: string;
+  placeholder: string;
+  options?: Record<string, unknown>;
+}
+
+interface TableDef {
+  name: string;
+  description: string;
+  placeholder: string;
+  fields: FieldDef[];
+}
+
+const REPERTOIRE_TABLE: TableDef = {
+  name: 'Repertoire',
+  description: 'Known works (GEMA catalogue) that teacher-entered song titles are matched against',
+  placeholder: 'tblREPERTOIRE00000',
+  fields: [
+    { name: 'title', type: 'singleLineText', description: 'Work title as registered', placeholder: 'fldREPTITLE0000000' },
+    { name: 'alternative_titles', type: 'multilineText', description: 'Other spellings teachers use, one per line', placeholder: 'fldREPALTTITLES000' },
+    { name: 'composer', type: 'singleLineText', description: 'Komponist', placeholder: 'fldREPCOMPOSER0000' },
+    { name: 'lyricist', type: 'singleLineText', description: 'Texter', placeholder: 'fldREPLYRICIST0000' },
+    { name: 'publisher', type: 'singleLineText', description: 'Verlag', placeholder: 'fldREPPUBLISHER000' },
+    { name: 'gema_work_number', type: 'singleLineText', description: 'GEMA Werknummer', placeholder: 'fldREPGEMANUMBER00' },
+    {
+      name: 'licensing_status',
+      type: 'singleSelect',
+      description: 'How the work is licensed',
+      placeholder: 'fldREPSTATUS000000',
+      options: {
+        choices: [
+          { name: 'gema' },
+          { name: 'public_domain' },
+          { name: 'own_work' },
+          { name: 'direct_license' },
+          { name: 'unclear' },
+        ],
+      },
+    },
+    { name: 'notes', type: 'multilineText', description: 'Internal notes', placeholder: 'fldREPNOTES0000000' },
+  ],
+};
+
+// Added to the Songs table once the Repertoire table exists
+const SONG_WORK_FIELD: FieldDef = {
+  name: 'repertoire_work',
+  type: 'multipleRecordLinks',
+  description: 'Confirmed Repertoire match for the song title',
+  placeholder: 'fldSONGREPWORK0000',
+};
+
+interface AirtableTableResponse {
+  id: string;
+  name: string;
+  fields: Array<{ id: string; name: string }>;
+}
+
+async function createTable(tableDef: TableDef): Promise<AirtableTableResponse> {
+  const url = `https://api.airtable.com/v0/meta/bases/${AIRTABLE_BASE_ID}/tables`;
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${AIRTABLE_API_KEY}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      name: tableDef.name,
+      description: tableDef.description,
+      fields: tableDef.fields.map(({ name, type, description, options }) => ({
+        name,
+        type,
+        description,
+        ...(options && { options }),
+      })),
+    }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Failed to create table "${tableDef.name}": ${response.status} ${errorText}`);
+  }
+
+  return response.json() as Promise<AirtableTableResponse>;
+}
+
+async function createField(tableId: string, fieldDef: FieldDef): Promise<{ id: string; name: string }> {
+  const url = `https://api.airtable.com/v0/meta/bases/${AIRTABLE_BASE_ID}/tables/${tableId}/fields`;
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${AIRTABLE_API_KEY}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      name: fieldDef.name,
+      type: fieldDef.type,
+      description: fieldDef.description,
+      ...(fieldDef.options && { options: fieldDef.options }),
+    }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Failed to create field "${fieldDef.name}": ${response.status} ${errorText}`);
+  }
+
+  return response.json() as Promise<{ id: string; name: string }>;
+}
+
+async function main() {
+  console.log('='.repeat(60));
+  console.log('Creating repertoire table');
+  console.log('='.repeat(60));
+  console.log();
+
+  const replacements: Array<{ placeholder: string; id: string; label: string }> = [];
+
+  console.log(`Creating table: ${REPERTOIRE_TABLE.name}...`);
+  const repertoire = await createTable(REPERTOIRE_TABLE);
+  console.log(`  -> Created with ID: ${repertoire.id}`);
+  replacements.push({ placeholder: REPERTOIRE_TABLE.placeholder, id: repertoire.id, label: REPERTOIRE_TABLE.name });
+  for (const field of REPERTOIRE_TABLE.fields) {
+    const createdField = repertoire.fields.find((f) => f.name === field.name);
+    if (!createdField) {
+      console.error(`  -> Field "${field.name}" missing in response for ${REPERTOIRE_TABLE.name}`);
+      process.exit(1);
+    }
+    replacements.push({ placeholder: field.placeholder, id: createdField.id, label: `${REPERTOIRE_TABLE.name}.${field.name}` });
+  }
+
+  console.log(`Adding Songs.${SONG_WORK_FIELD.name}...`);
+  const songWork = await createField(SONGS_TABLE_ID, { ...SONG_WORK_FIELD, options: { linkedTableId: repertoire.id } });
+  replacements.push({ placeholder: SONG_WORK_FIELD.placeholder, id: songWork.id, label: `Songs.${SONG_WORK_FIELD.name}` });
+
+  console.log();
+  console.log('IDs:');
+  for (const r of replacements) {
+    console.log(`  ${r.label}: '${r.id}'`);
+  }
+
+  // Auto-patch source file
+  console.log();
+  console.log('Patching source files...');
+
+  const absPath = resolve(__dirname, '..', PATCH_FILE);
+  let content = readFileSync(absPath, 'utf-8');
+  let totalPatched = 0;
+
+  for (const r of replacements) {
+    const escapedPlaceholder = r.placeholder.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const regex = new RegExp(escapedPlaceholder, 'g');
+    const matches = content.match(regex);
+    if (matches && matches.length > 0) {
+      content = content.replace(regex, r.id);
+      totalPatched += matches.length;
+      console.log(`  ${PATCH_FILE}: ${r.placeholder} -> ${r.id}`);
+    }
+  }
+
+  if (totalPatched > 0) {
+    writeFileSync(absPath, content, 'utf-8');
+    console.log(`Patched ${totalPatched} placeholder(s).`);
+  } else {
+    console.log('No placeholders to patch (already up to date or file structure changed).');
+  }
+
+  console.log();
+  console.log('Done! Table created and source files updated.');
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((err) => {
+    console.error('Fatal error:', err);
+    process.exit(1);
+  });
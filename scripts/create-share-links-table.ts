@@ -0,0 +1,186 @@
+/**
+ * Script to create the ShareLinks table in Airtable, then auto-patch the
+ * codebase with the real table and field IDs.
+ *
+ * Run with: npx tsx scripts/create-share-links-table.ts
+ *
+ * One row per family share link (shareLinkService): the parent who created
+ * it, the event it is scoped to, its expiry and play limit, and the plays
+ * and downloads counted through it. The token itself is not stored - it is
+ * an HMAC over the row ID, event and expiry (utils/shareLinks.ts).
+ *
+ * After creation, prints IDs and patches airtable.ts.
+ */
+
+import { config } from 'dotenv';
+import { readFileSync, writeFileSync } from 'fs';
+import { resolve } from 'path';
+
+config({ path: '.env.local' });
+
+const AIRTABLE_API_KEY = process.env.AIRTABLE_API_KEY;
+const AIRTABLE_BASE_ID = process.env.AIRTABLE_BASE_ID;
+const PATCH_FILE = 'src/lib/types/airtable.ts';
+const PARENTS_TABLE_ID = 'tblaMYOUj93yp7jHE';
+
+if (!AIRTABLE_API_KEY || !AIRTABLE_BASE_ID) {
+  console.error('Missing AIRTABLE_API_KEY or AIRTABLE_BASE_ID in .env.local');
+  process.exit(1);
+}
+
+interface FieldDef {
+  name: string;
+  type: string;
+  description: string;
+  placeholder: string;
+  options?: Record<string, unknown>;
+}
+
+interface TableDef {
+  name: string;
+  description: string;
+  placeholder: string;
+  fields: FieldDef[];
+}
+
+const DATE_TIME_OPTIONS = {
+  dateFormat: { name: 'iso' },
+  timeFormat: { name: '24hour' },
+  timeZone: 'Europe/Berlin',
+};
+
+const SHARE_LINKS_TABLE: TableDef = {
+  name: 'ShareLinks',
+  description: 'Time-limited links parents share so relatives can listen to released recordings',
+  placeholder: 'tblSHARELINKS00000',
+  fields: [
+    { name: 'label', type: 'singleLineText', description: 'Who the link is for, e.g. "Oma & Opa"', placeholder: 'fldSHLLABEL0000000' },
+    {
+      name: 'parent',
+      type: 'multipleRecordLinks',
+      description: 'Parent who created the link',
+      placeholder: 'fldSHLPARENT000000',
+      options: { linkedTableId: PARENTS_TABLE_ID },
+    },
+    { name: 'event_id', type: 'singleLineText', description: 'Canonical event_id the link is scoped to', placeholder: 'fldSHLEVENTID00000' },
+    { name: 'class_id', type: 'singleLineText', description: "Creator's class, listed first", placeholder: 'fldSHLCLASSID00000' },
+    { name: 'expires_at', type: 'dateTime', description: 'Link stops working after this', placeholder: 'fldSHLEXPIRESAT000', options: DATE_TIME_OPTIONS },
+    {
+      name: 'max_plays',
+      type: 'number',
+      description: 'Limit on plays and downloads together',
+      placeholder: 'fldSHLMAXPLAYS0000',
+      options: { precision: 0 },
+    },
+    { name: 'play_count', type: 'number', description: 'Plays through the link', placeholder: 'fldSHLPLAYCOUNT000', options: { precision: 0 } },
+    {
+      name: 'download_count',
+      type: 'number',
+      description: 'Downloads through the link',
+      placeholder: 'fldSHLDOWNLOADS000',
+      options: { precision: 0 },
+    },
+    { name: 'last_played_at', type: 'dateTime', description: 'Last play or download', placeholder: 'fldSHLLASTPLAYED00', options: DATE_TIME_OPTIONS },
+    { name: 'revoked_at', type: 'dateTime', description: 'Set when the parent revokes the link', placeholder: 'fldSHLREVOKEDAT000', options: DATE_TIME_OPTIONS },
+    { name: 'created_at', type: 'dateTime', description: 'When the link was created', placeholder: 'fldSHLCREATEDAT000', options: DATE_TIME_OPTIONS },
+  ],
+};
+
+interface AirtableTableResponse {
+  id: string;
+  name: string;
+  fields: Array<{ id: string; name: string }>;
+}
+
+async function createTable(tableDef: TableDef): Promise<AirtableTableResponse> {
+  const url = `https://api.airtable.com/v0/meta/bases/${AIRTABLE_BASE_ID}/tables`;
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${AIRTABLE_API_KEY}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      name: tableDef.name,
+      description: tableDef.description,
+      fields: tableDef.fields.map(({ name, type, description, options }) => ({
+        name,
+        type,
+        description,
+        ...(options && { options }),
+      })),
+    }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Failed to create table "${tableDef.name}": ${response.status} ${errorText}`);
+  }
+
+  return response.json() as Promise<AirtableTableResponse>;
+}
+
+async function main() {
+  console.log('='.repeat(60));
+  console.log('Creating share links table');
+  console.log('='.repeat(60));
+  console.log();
+
+  const replacements: Array<{ placeholder: string; id: string; label: string }> = [];
+
+  console.log(`Creating table: ${SHARE_LINKS_TABLE.name}...`);
+  const shareLinks = await createTable(SHARE_LINKS_TABLE);
+  console.log(`  -> Created with ID: ${shareLinks.id}`);
+  replacements.push({ placeholder: SHARE_LINKS_TABLE.placeholder, id: shareLinks.id, label: SHARE_LINKS_TABLE.name });
+  for (const field of SHARE_LINKS_TABLE.fields) {
+    const createdField = shareLinks.fields.find((f) => f.name === field.name);
+    if (!createdField) {
+      console.error(`  -> Field "${field.name}" missing in response for ${SHARE_LINKS_TABLE.name}`);
+      process.exit(1);
+    }
+    replacements.push({ placeholder: field.placeholder, id: createdField.id, label: `${SHARE_LINKS_TABLE.name}.${field.name}` });
+  }
+
+  console.log();
+  console.log('IDs:');
+  for (const r of replacements) {
+    console.log(`  ${r.label}: '${r.id}'`);
+  }
+
+  // Auto-patch source file
+  console.log();
+  console.log('Patching source files...');
+
+  const absPath = resolve(__dirname, '..', PATCH_FILE);
+  let content = readFileSync(absPath, 'utf-8');
+  let totalPatched = 0;
+
+  for (const r of replacements) {
+    const escapedPlaceholder = r.placeholder.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const regex = new RegExp(escapedPlaceholder, 'g');
+    const matches = content.match(regex);
+    if (matches && matches.length > 0) {
+      content = content.replace(regex, r.id);
+      totalPatched += matches.length;
+      console.log(`  ${PATCH_FILE}: ${r.placeholder} -> ${r.id}`);
+    }
+  }
+
+  if (totalPatched > 0) {
+    writeFileSync(absPath, content, 'utf-8');
+    console.log(`Patched ${totalPatched} placeholder(s).`);
+  } else {
+    console.log('No placeholders to patch (already up to date or file structure changed).');
+  }
+
+  console.log();
+  console.log('Done! Table created and source files updated.');
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((err) => {
+    console.error('Fatal error:', err);
+    process.exit(1);
+  });
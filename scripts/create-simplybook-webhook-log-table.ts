@@ -0,0 +1,194 @@
+/**
+ * Script to create the SimplyBook Webhook Log table in Airtable,
+ * then auto-patch the codebase with the real table and field IDs.
+ *
+ * Run with: npx tsx scripts/create-simplybook-webhook-log-table.ts
+ *
+ * One row per received SimplyBook notification. /api/simplybook/webhook reads
+ * the rows of a booking to apply create/change/cancel exactly once and in order.
+ *
+ * After creation, prints IDs and patches airtable.ts.
+ */
+
+import { config } from 'dotenv';
+import { readFileSync, writeFileSync } from 'fs';
+import { resolve } from 'path';
+
+config({ path: '.env.local' });
+
+const AIRTABLE_API_KEY = process.env.AIRTABLE_API_KEY;
+const AIRTABLE_BASE_ID = process.env.AIRTABLE_BASE_ID;
+const PATCH_FILE = 'src/lib/types/airtable.ts';
+
+if (!AIRTABLE_API_KEY || !AIRTABLE_BASE_ID) {
+  console.error('Missing AIRTABLE_API_KEY or AIRTABLE_BASE_ID in .env.local');
+  process.exit(1);
+}
+
+const DATE_TIME_OPTIONS = {
+  dateFormat: { name: 'iso' },
+  timeFormat: { name: '24hour' },
+  timeZone: 'Europe/Berlin',
+};
+
+interface FieldDef {
+  name: string;
+  type: string;
+  description: string;
+  placeholder: string;
+  options?: Record<string, unknown>;
+}
+
+interface TableDef {
+  name: string;
+  description: string;
+  placeholder: string;
+  fields: FieldDef[];
+}
+
+const WEBHOOK_LOG_TABLE: TableDef = {
+  name: 'SimplyBook Webhook Log',
+  description: 'Received SimplyBook notifications - used to apply each one exactly once',
+  placeholder: 'tblSBWEBHOOKLOG0000',
+  fields: [
+    { name: 'delivery_key', type: 'singleLineText', description: '"<booking_id>:<notification_type>"', placeholder: 'fldSBWHKEY000000000' },
+    { name: 'booking_id', type: 'singleLineText', description: 'SimplyBook booking ID', placeholder: 'fldSBWHBOOKINGID000' },
+    {
+      name: 'notification_type',
+      type: 'singleSelect',
+      description: 'SimplyBook notification type',
+      placeholder: 'fldSBWHTYPE00000000',
+      options: {
+        choices: [
+          { name: 'create', color: 'greenBright' },
+          { name: 'change', color: 'blueBright' },
+          { name: 'cancel', color: 'redBright' },
+        ],
+      },
+    },
+    { name: 'company', type: 'singleLineText', description: 'Company login from the payload', placeholder: 'fldSBWHCOMPANY00000' },
+    {
+      name: 'status',
+      type: 'singleSelect',
+      description: 'Outcome of the notification',
+      placeholder: 'fldSBWHSTATUS000000',
+      options: {
+        choices: [
+          { name: 'processing', color: 'yellowBright' },
+          { name: 'applied', color: 'greenBright' },
+          { name: 'skipped', color: 'grayBright' },
+          { name: 'duplicate', color: 'grayBright' },
+          { name: 'superseded', color: 'orangeBright' },
+          { name: 'deferred', color: 'purpleBright' },
+          { name: 'failed', color: 'redBright' },
+        ],
+      },
+    },
+    { name: 'detail', type: 'multilineText', description: 'Skip reason or error message', placeholder: 'fldSBWHDETAIL000000' },
+    { name: 'received_at', type: 'dateTime', description: 'When the notification arrived', placeholder: 'fldSBWHRECEIVEDAT00', options: DATE_TIME_OPTIONS },
+    { name: 'processed_at', type: 'dateTime', description: 'When the outcome was recorded', placeholder: 'fldSBWHPROCESSEDAT0', options: DATE_TIME_OPTIONS },
+  ],
+};
+
+interface AirtableTableResponse {
+  id: string;
+  name: string;
+  fields: Array<{ id: string; name: string }>;
+}
+
+async function createTable(tableDef: TableDef): Promise<AirtableTableResponse> {
+  const url = `https://api.airtable.com/v0/meta/bases/${AIRTABLE_BASE_ID}/tables`;
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${AIRTABLE_API_KEY}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      name: tableDef.name,
+      description: tableDef.description,
+      fields: tableDef.fields.map(({ name, type, description, options }) => ({
+        name,
+        type,
+        description,
+        ...(options && { options }),
+      })),
+    }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Failed to create table "${tableDef.name}": ${response.status} ${errorText}`);
+  }
+
+  return response.json() as Promise<AirtableTableResponse>;
+}
+
+async function main() {
+  console.log('='.repeat(60));
+  console.log('Creating SimplyBook webhook log table');
+  console.log('='.repeat(60));
+  console.log();
+
+  const replacements: Array<{ placeholder: string; id: string; label: string }> = [];
+
+  const collect = (tableDef: TableDef, created: AirtableTableResponse) => {
+    replacements.push({ placeholder: tableDef.placeholder, id: created.id, label: tableDef.name });
+    for (const field of tableDef.fields) {
+      const createdField = created.fields.find((f) => f.name === field.name);
+      if (!createdField) {
+        console.error(`  -> Field "${field.name}" missing in response for ${tableDef.name}`);
+        process.exit(1);
+      }
+      replacements.push({ placeholder: field.placeholder, id: createdField.id, label: `${tableDef.name}.${field.name}` });
+    }
+  };
+
+  console.log(`Creating table: ${WEBHOOK_LOG_TABLE.name}...`);
+  const webhookLog = await createTable(WEBHOOK_LOG_TABLE);
+  console.log(`  -> Created with ID: ${webhookLog.id}`);
+  collect(WEBHOOK_LOG_TABLE, webhookLog);
+
+  console.log();
+  console.log('IDs:');
+  for (const r of replacements) {
+    console.log(`  ${r.label}: '${r.id}'`);
+  }
+
+  // Auto-patch source file
+  console.log();
+  console.log('Patching source files...');
+
+  const absPath = resolve(__dirname, '..', PATCH_FILE);
+  let content = readFileSync(absPath, 'utf-8');
+  let totalPatched = 0;
+
+  for (const r of replacements) {
+    const escapedPlaceholder = r.placeholder.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const regex = new RegExp(escapedPlaceholder, 'g');
+    const matches = content.match(regex);
+    if (matches && matches.length > 0) {
+      content = content.replace(regex, r.id);
+      totalPatched += matches.length;
+      console.log(`  ${PATCH_FILE}: ${r.placeholder} -> ${r.id}`);
+    }
+  }
+
+  if (totalPatched > 0) {
+    writeFileSync(absPath, content, 'utf-8');
+    console.log(`Patched ${totalPatched} placeholder(s).`);
+  } else {
+    console.log('No placeholders to patch (already up to date or file structure changed).');
+  }
+
+  console.log();
+  console.log('Done! Table created and source files updated.');
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((err) => {
+    console.error('Fatal error:', err);
+    process.exit(1);
+  });
@@ -0,0 +1,222 @@
+/**
+ * Script to create the Stock Items and Stock Movements tables in Airtable,
+ * then auto-patch the codebase with the real table and field IDs.
+ *
+ * Run with: npx tsx scripts/create-stock-tables.ts
+ *
+ * Stock Items:     one row per STOCK_ITEMS entry and size, holds on-hand + cost
+ * Stock Movements: audit trail of every on-hand change (arrival, fulfillment, correction)
+ *
+ * Rows in Stock Items are created from the admin Stock page
+ * ("Create missing rows", POST /api/admin/stock/inventory).
+ *
+ * After creation, prints IDs and patches airtable.ts.
+ */
+
+import { config } from 'dotenv';
+import { readFileSync, writeFileSync } from 'fs';
+import { resolve } from 'path';
+
+config({ path: '.env.local' });
+
+const AIRTABLE_API_KEY = process.env.AIRTABLE_API_KEY;
+const AIRTABLE_BASE_ID = process.env.AIRTABLE_BASE_ID;
+const PATCH_FILE = 'src/lib/types/airtable.ts';
+
+if (!AIRTABLE_API_KEY || !AIRTABLE_BASE_ID) {
+  console.error('Missing AIRTABLE_API_KEY or AIRTABLE_BASE_ID in .env.local');
+  process.exit(1);
+}
+
+const DATE_TIME_OPTIONS = {
+  dateFormat: { name: 'iso' },
+  timeFormat: { name: '24hour' },
+  timeZone: 'Europe/Berlin',
+};
+
+const CURRENCY_OPTIONS = { precision: 2, symbol: '€' };
+
+interface FieldDef {
+  name: string;
+  type: string;
+  description: string;
+  placeholder: string;
+  options?: Record<string, unknown>;
+}
+
+interface TableDef {
+  name: string;
+  description: string;
+  placeholder: string;
+  fields: FieldDef[];
+}
+
+const STOCK_ITEMS_TABLE: TableDef = {
+  name: 'Stock Items',
+  description: 'Warehouse inventory - one row per stock item and size',
+  placeholder: 'tblSTOCKITEMS000000',
+  fields: [
+    { name: 'stock_key', type: 'singleLineText', description: 'Item|size key, e.g. "T-Shirt|98/104" or "CD"', placeholder: 'fldSTOCKKEY00000000' },
+    {
+      name: 'item',
+      type: 'singleSelect',
+      description: 'Stock item type',
+      placeholder: 'fldSTOCKITEM0000000',
+      options: {
+        choices: ['T-Shirt', 'Hoodie', 'Mug', 'Sport Bag', 'CD', 'Minicard'].map((name) => ({ name })),
+      },
+    },
+    { name: 'size', type: 'singleLineText', description: 'Size (T-Shirt / Hoodie only)', placeholder: 'fldSTOCKSIZE0000000' },
+    { name: 'on_hand', type: 'number', description: 'Units physically in stock (updated with every movement)', placeholder: 'fldSTOCKONHAND00000', options: { precision: 0 } },
+    { name: 'base_cost', type: 'currency', description: 'Default unit cost', placeholder: 'fldSTOCKBASECOST000', options: CURRENCY_OPTIONS },
+    { name: 'cost_override', type: 'currency', description: 'Admin override of the unit cost (empty = base cost)', placeholder: 'fldSTOCKCOSTOVERRID', options: CURRENCY_OPTIONS },
+    { name: 'last_updated', type: 'dateTime', description: 'Last on-hand or cost change', placeholder: 'fldSTOCKLASTUPDATED', options: DATE_TIME_OPTIONS },
+    { name: 'lock_token', type: 'singleLineText', description: 'Holder of the on-hand lock while an adjustment is written', placeholder: 'fldSTOCKLOCKTOKEN00' },
+    { name: 'locked_until', type: 'dateTime', description: 'Expiry of the on-hand lock', placeholder: 'fldSTOCKLOCKEDUNTIL', options: DATE_TIME_OPTIONS },
+  ],
+};
+
+function buildStockMovementsTable(stockItemsTableId: string): TableDef {
+  return {
+    name: 'Stock Movements',
+    description: 'Audit trail of every stock on-hand change',
+    placeholder: 'tblSTOCKMOVEMENTS00',
+    fields: [
+      { name: 'movement_id', type: 'singleLineText', description: 'Readable summary, e.g. "-2 T-Shirt|98/104"', placeholder: 'fldSTOCKMOVEID00000' },
+      {
+        name: 'stock_item',
+        type: 'multipleRecordLinks',
+        description: 'Link to Stock Items',
+        placeholder: 'fldSTOCKMOVEITEM000',
+        options: { linkedTableId: stockItemsTableId },
+      },
+      { name: 'quantity', type: 'number', description: 'Signed change (+ arrival, - fulfillment)', placeholder: 'fldSTOCKMOVEQTY0000', options: { precision: 0 } },
+      {
+        name: 'reason',
+        type: 'singleSelect',
+        description: 'Why on-hand changed',
+        placeholder: 'fldSTOCKMOVEREASON0',
+        options: {
+          choices: [
+            { name: 'supplier_arrival', color: 'greenBright' },
+            { name: 'fulfillment', color: 'blueBright' },
+            { name: 'manual_correction', color: 'orangeBright' },
+          ],
+        },
+      },
+      { name: 'reference', type: 'singleLineText', description: 'GO-ID or Shopify order number + Welle', placeholder: 'fldSTOCKMOVEREF0000' },
+      { name: 'note', type: 'multilineText', description: 'Reason for manual corrections', placeholder: 'fldSTOCKMOVENOTE000' },
+      { name: 'created_by', type: 'singleLineText', description: 'Admin email or "system"', placeholder: 'fldSTOCKMOVEBY00000' },
+      { name: 'created_at', type: 'dateTime', description: 'When the movement was recorded', placeholder: 'fldSTOCKMOVEAT00000', options: DATE_TIME_OPTIONS },
+    ],
+  };
+}
+
+interface AirtableTableResponse {
+  id: string;
+  name: string;
+  fields: Array<{ id: string; name: string }>;
+}
+
+async function createTable(tableDef: TableDef): Promise<AirtableTableResponse> {
+  const url = `https://api.airtable.com/v0/meta/bases/${AIRTABLE_BASE_ID}/tables`;
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${AIRTABLE_API_KEY}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      name: tableDef.name,
+      description: tableDef.description,
+      fields: tableDef.fields.map(({ name, type, description, options }) => ({
+        name,
+        type,
+        description,
+        ...(options && { options }),
+      })),
+    }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Failed to create table "${tableDef.name}": ${response.status} ${errorText}`);
+  }
+
+  return response.json() as Promise<AirtableTableResponse>;
+}
+
+async function main() {
+  console.log('='.repeat(60));
+  console.log('Creating stock tables');
+  console.log('='.repeat(60));
+  console.log();
+
+  const replacements: Array<{ placeholder: string; id: string; label: string }> = [];
+
+  const collect = (tableDef: TableDef, created: AirtableTableResponse) => {
+    replacements.push({ placeholder: tableDef.placeholder, id: created.id, label: tableDef.name });
+    for (const field of tableDef.fields) {
+      const createdField = created.fields.find((f) => f.name === field.name);
+      if (!createdField) {
+        console.error(`  -> Field "${field.name}" missing in response for ${tableDef.name}`);
+        process.exit(1);
+      }
+      replacements.push({ placeholder: field.placeholder, id: createdField.id, label: `${tableDef.name}.${field.name}` });
+    }
+  };
+
+  console.log(`Creating table: ${STOCK_ITEMS_TABLE.name}...`);
+  const stockItems = await createTable(STOCK_ITEMS_TABLE);
+  console.log(`  -> Created with ID: ${stockItems.id}`);
+  collect(STOCK_ITEMS_TABLE, stockItems);
+
+  const movementsDef = buildStockMovementsTable(stockItems.id);
+  console.log(`Creating table: ${movementsDef.name}...`);
+  const movements = await createTable(movementsDef);
+  console.log(`  -> Created with ID: ${movements.id}`);
+  collect(movementsDef, movements);
+
+  console.log();
+  console.log('IDs:');
+  for (const r of replacements) {
+    console.log(`  ${r.label}: '${r.id}'`);
+  }
+
+  // Auto-patch source file
+  console.log();
+  console.log('Patching source files...');
+
+  const absPath = resolve(__dirname, '..', PATCH_FILE);
+  let content = readFileSync(absPath, 'utf-8');
+  let totalPatched = 0;
+
+  for (const r of replacements) {
+    const escapedPlaceholder = r.placeholder.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const regex = new RegExp(escapedPlaceholder, 'g');
+    const matches = content.match(regex);
+    if (matches && matches.length > 0) {
+      content = content.replace(regex, r.id);
+      totalPatched += matches.length;
+      console.log(`  ${PATCH_FILE}: ${r.placeholder} -> ${r.id}`);
+    }
+  }
+
+  if (totalPatched > 0) {
+    writeFileSync(absPath, content, 'utf-8');
+    console.log(`Patched ${totalPatched} placeholder(s).`);
+  } else {
+    console.log('No placeholders to patch (already up to date or file structure changed).');
+  }
+
+  console.log();
+  console.log('Done! Tables created and source files updated.');
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((err) => {
+    console.error('Fatal error:', err);
+    process.exit(1);
+  });
@@ -0,0 +1,223 @@
+/**
+ * Script to create the Task Timeline Templates table in Airtable and the
+ * Events.timeline_template field, then auto-patch the codebase with the real
+ * table and field IDs.
+ *
+ * Run with: npx tsx scripts/create-task-timeline-templates-table.ts
+ *
+ * One row per template version. Written by taskTimelineService, edited under
+ * /admin/tasks/timelines. Events.timeline_template pins an event to the
+ * version its tasks were generated from.
+ *
+ * After creation, prints IDs and patches airtable.ts.
+ */
+
+import { config } from 'dotenv';
+import { readFileSync, writeFileSync } from 'fs';
+import { resolve } from 'path';
+
+config({ path: '.env.local' });
+
+const AIRTABLE_API_KEY = process.env.AIRTABLE_API_KEY;
+const AIRTABLE_BASE_ID = process.env.AIRTABLE_BASE_ID;
+const PATCH_FILE = 'src/lib/types/airtable.ts';
+const EVENTS_TABLE_ID = 'tblVWx1RrsGRjsNn5';
+
+if (!AIRTABLE_API_KEY || !AIRTABLE_BASE_ID) {
+  console.error('Missing AIRTABLE_API_KEY or AIRTABLE_BASE_ID in .env.local');
+  process.exit(1);
+}
+
+const DATE_TIME_OPTIONS = {
+  dateFormat: { name: 'iso' },
+  timeFormat: { name: '24hour' },
+  timeZone: 'Europe/Berlin',
+};
+
+interface FieldDef {
+  name: string;
+  type: string;
+  description: string;
+  placeholder: string;
+  options?: Record<string, unknown>;
+}
+
+interface TableDef {
+  name: string;
+  description: string;
+  placeholder: string;
+  fields: FieldDef[];
+}
+
+const TEMPLATES_TABLE: TableDef = {
+  name: 'Task Timeline Templates',
+  description: 'Versioned task timelines - which tasks are generated for an event and their day offsets',
+  placeholder: 'tblTIMELINETPL00000',
+  fields: [
+    { name: 'name', type: 'singleLineText', description: 'Template name, e.g. "Schulsong only"', placeholder: 'fldTLTNAME000000000' },
+    { name: 'template_key', type: 'singleLineText', description: 'Stable key shared by all versions of a template', placeholder: 'fldTLTKEY0000000000' },
+    { name: 'version', type: 'number', description: 'Version number, starting at 1', placeholder: 'fldTLTVERSION000000', options: { precision: 0 } },
+    {
+      name: 'status',
+      type: 'singleSelect',
+      description: 'Only current versions are matched to new events',
+      placeholder: 'fldTLTSTATUS0000000',
+      options: {
+        choices: [
+          { name: 'current', color: 'greenBright' },
+          { name: 'superseded', color: 'grayBright' },
+          { name: 'archived', color: 'redBright' },
+        ],
+      },
+    },
+    { name: 'priority', type: 'number', description: 'Highest priority wins when several templates match', placeholder: 'fldTLTPRIORITY00000', options: { precision: 0 } },
+    { name: 'conditions', type: 'multilineText', description: 'Tiers, Schulsong/SCS flags and child count range (JSON)', placeholder: 'fldTLTCONDITIONS000' },
+    { name: 'tasks', type: 'multilineText', description: 'Task IDs with day offsets (JSON)', placeholder: 'fldTLTTASKS00000000' },
+    { name: 'created_by', type: 'singleLineText', description: 'Staff email that saved the version', placeholder: 'fldTLTCREATEDBY0000' },
+    { name: 'created_at', type: 'dateTime', description: 'When the version was saved', placeholder: 'fldTLTCREATEDAT0000', options: DATE_TIME_OPTIONS },
+  ],
+};
+
+const EVENT_TIMELINE_FIELD: FieldDef = {
+  name: 'timeline_template',
+  type: 'singleLineText',
+  description: 'Task Timeline Templates record ID (or "builtin") the event tasks were generated from',
+  placeholder: 'fldEVTIMELINETPL000',
+};
+
+interface AirtableTableResponse {
+  id: string;
+  name: string;
+  fields: Array<{ id: string; name: string }>;
+}
+
+async function createTable(tableDef: TableDef): Promise<AirtableTableResponse> {
+  const url = `https://api.airtable.com/v0/meta/bases/${AIRTABLE_BASE_ID}/tables`;
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${AIRTABLE_API_KEY}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      name: tableDef.name,
+      description: tableDef.description,
+      fields: tableDef.fields.map(({ name, type, description, options }) => ({
+        name,
+        type,
+        description,
+        ...(options && { options }),
+      })),
+    }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Failed to create table "${tableDef.name}": ${response.status} ${errorText}`);
+  }
+
+  return response.json() as Promise<AirtableTableResponse>;
+}
+
+async function createField(tableId: string, fieldDef: FieldDef): Promise<{ id: string; name: string }> {
+  const url = `https://api.airtable.com/v0/meta/bases/${AIRTABLE_BASE_ID}/tables/${tableId}/fields`;
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${AIRTABLE_API_KEY}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      name: fieldDef.name,
+      type: fieldDef.type,
+      description: fieldDef.description,
+      ...(fieldDef.options && { options: fieldDef.options }),
+    }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Failed to create field "${fieldDef.name}": ${response.status} ${errorText}`);
+  }
+
+  return response.json() as Promise<{ id: string; name: string }>;
+}
+
+async function main() {
+  console.log('='.repeat(60));
+  console.log('Creating task timeline templates table');
+  console.log('='.repeat(60));
+  console.log();
+
+  const replacements: Array<{ placeholder: string; id: string; label: string }> = [];
+
+  const collect = (tableDef: TableDef, created: AirtableTableResponse) => {
+    replacements.push({ placeholder: tableDef.placeholder, id: created.id, label: tableDef.name });
+    for (const field of tableDef.fields) {
+      const createdField = created.fields.find((f) => f.name === field.name);
+      if (!createdField) {
+        console.error(`  -> Field "${field.name}" missing in response for ${tableDef.name}`);
+        process.exit(1);
+      }
+      replacements.push({ placeholder: field.placeholder, id: createdField.id, label: `${tableDef.name}.${field.name}` });
+    }
+  };
+
+  console.log(`Creating table: ${TEMPLATES_TABLE.name}...`);
+  const templates = await createTable(TEMPLATES_TABLE);
+  console.log(`  -> Created with ID: ${templates.id}`);
+  collect(TEMPLATES_TABLE, templates);
+
+  console.log(`Creating field: Events.${EVENT_TIMELINE_FIELD.name}...`);
+  const eventField = await createField(EVENTS_TABLE_ID, EVENT_TIMELINE_FIELD);
+  console.log(`  -> Created with ID: ${eventField.id}`);
+  replacements.push({
+    placeholder: EVENT_TIMELINE_FIELD.placeholder,
+    id: eventField.id,
+    label: `Events.${EVENT_TIMELINE_FIELD.name}`,
+  });
+
+  console.log();
+  console.log('IDs:');
+  for (const r of replacements) {
+    console.log(`  ${r.label}: '${r.id}'`);
+  }
+
+  // Auto-patch source file
+  console.log();
+  console.log('Patching source files...');
+
+  const absPath = resolve(__dirname, '..', PATCH_FILE);
+  let content = readFileSync(absPath, 'utf-8');
+  let totalPatched = 0;
+
+  for (const r of replacements) {
+    const escapedPlaceholder = r.placeholder.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const regex = new RegExp(escapedPlaceholder, 'g');
+    const matches = content.match(regex);
+    if (matches && matches.length > 0) {
+      content = content.replace(regex, r.id);
+      totalPatched += matches.length;
+      console.log(`  ${PATCH_FILE}: ${r.placeholder} -> ${r.id}`);
+    }
+  }
+
+  if (totalPatched > 0) {
+    writeFileSync(absPath, content, 'utf-8');
+    console.log(`Patched ${totalPatched} placeholder(s).`);
+  } else {
+    console.log('No placeholders to patch (already up to date or file structure changed).');
+  }
+
+  console.log();
+  console.log('Done! Table and field created and source files updated.');
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((err) => {
+    console.error('Fatal error:', err);
+    process.exit(1);
+  });
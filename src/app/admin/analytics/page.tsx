@@ -6,7 +6,9 @@ import EventAnalyticsTable from '@/components/admin/analytics/EventAnalyticsTabl
 import ExportButtons from '@/components/admin/analytics/ExportButtons';
 import {
   EventAnalyticsRow,
+  EventRefundSummary,
   EventRevenue,
+  SchoolFeeRevenue,
   VariableCost,
   DEFAULT_FIXED_COSTS,
   calculateFixedTotal,
@@ -14,17 +16,37 @@ import {
   determineEventStatus,
 } from '@/lib/types/analytics';
 import { SchoolEventSummary } from '@/lib/types/airtable';
+import type { SchoolFeeSummary } from '@/lib/utils/invoiceDocument';
 
 // Transform API event data to analytics row format
-function transformToAnalyticsRow(event: SchoolEventSummary): EventAnalyticsRow {
+function transformToAnalyticsRow(
+  event: SchoolEventSummary,
+  fees?: SchoolFeeSummary,
+  refunds?: EventRefundSummary
+): EventAnalyticsRow {
   // Empty data - will be populated from Shopify/Stock DB when integrated
   const variableCosts: VariableCost[] = [];
-  const revenueBreakdown: EventRevenue = { products: [], totalRevenue: 0 };
+  const productRevenue = 0;
+  const refundTotal = refunds?.total || 0;
+  const revenueBreakdown: EventRevenue = {
+    products: [],
+    refunds: refunds?.products || [],
+    refundTotal,
+    totalRevenue: productRevenue - refundTotal,
+  };
   const fixedTotal = calculateFixedTotal(DEFAULT_FIXED_COSTS);
   const variableTotal = calculateVariableTotal(variableCosts);
   const manualTotal = 0; // Manual costs will be fetched when row expands
   const totalCost = fixedTotal + variableTotal + manualTotal;
 
+  // School fees from issued invoices, counted net of VAT
+  const schoolFees: SchoolFeeRevenue = {
+    net: fees?.netRevenue || 0,
+    open: fees?.grossOpen || 0,
+    openInvoiceCount: fees?.openInvoiceCount || 0,
+  };
+  const totalRevenue = revenueBreakdown.totalRevenue + schoolFees.net;
+
   // Calculate registration percentage
   const registeredChildren = event.totalParents; // Using parents as proxy for registered children
   const totalChildren = event.totalChildren || registeredChildren || 1; // Avoid division by zero
@@ -33,7 +55,7 @@ function transformToAnalyticsRow(event: SchoolEventSummary): EventAnalyticsRow {
   // Determine status based on weeks from event date
   const status = determineEventStatus(event.eventDate);
 
-  // Calculate AOV (Average Order Value)
+  // Calculate AOV (Average Order Value) from shop revenue only
   const aov = registeredChildren > 0 ? revenueBreakdown.totalRevenue / registeredChildren : 0;
 
   return {
@@ -41,15 +63,16 @@ function transformToAnalyticsRow(event: SchoolEventSummary): EventAnalyticsRow {
     eventName: `${event.schoolName} - ${event.eventDate}`,
     schoolName: event.schoolName,
     eventDate: event.eventDate,
-    totalRevenue: revenueBreakdown.totalRevenue,
+    totalRevenue,
     aov,
     incurredCost: totalCost,
-    profit: revenueBreakdown.totalRevenue - totalCost,
+    profit: totalRevenue - totalCost,
     status,
     registrationPercent,
     totalChildren,
     registeredChildren,
     revenue: revenueBreakdown,
+    schoolFees,
     costs: {
       fixed: { ...DEFAULT_FIXED_COSTS },
       variable: variableCosts,
@@ -64,6 +87,8 @@ function transformToAnalyticsRow(event: SchoolEventSummary): EventAnalyticsRow {
 
 export default function AdminAnalytics() {
   const [events, setEvents] = useState<SchoolEventSummary[]>([]);
+  const [schoolFees, setSchoolFees] = useState<Record<string, SchoolFeeSummary>>({});
+  const [refunds, setRefunds] = useState<Record<string, EventRefundSummary>>({});
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [refreshKey, setRefreshKey] = useState(0);
@@ -86,6 +111,7 @@ export default function AdminAnalytics() {
       }
       const data = await response.json();
       setEvents(data.events || []);
+      await Promise.all([fetchSchoolFees(), fetchRefunds()]);
     } catch (err) {
       console.error('Error fetching events:', err);
       setError(err instanceof Error ? err.message : 'Failed to load events');
@@ -94,17 +120,47 @@ export default function AdminAnalytics() {
     }
   };
 
+  // School fees are optional: without them the page shows shop revenue only
+  const fetchSchoolFees = async () => {
+    try {
+      const response = await fetch('/api/admin/analytics/school-fees');
+      const result = await response.json();
+      if (result.success) {
+        setSchoolFees(result.data);
+      }
+    } catch (err) {
+      console.error('Error fetching school fees:', err);
+    }
+  };
+
+  // Refunded items come from the Shopify refunds stored on each order
+  const fetchRefunds = async () => {
+    try {
+      const response = await fetch('/api/admin/analytics/refunds');
+      const result = await response.json();
+      if (result.success) {
+        setRefunds(result.data);
+      }
+    } catch (err) {
+      console.error('Error fetching refunds:', err);
+    }
+  };
+
   // Transform events to analytics rows (memoized to keep filler data stable)
   // eslint-disable-next-line react-hooks/exhaustive-deps
   const analyticsData = useMemo(() => {
-    return events.map(transformToAnalyticsRow);
-  }, [events, refreshKey]);
+    return events.map((event) =>
+      transformToAnalyticsRow(event, schoolFees[event.eventId], refunds[event.eventId])
+    );
+  }, [events, schoolFees, refunds, refreshKey]);
 
   // Calculate summary statistics
   const summaryStats = useMemo(() => {
     if (analyticsData.length === 0) {
       return {
         totalRevenue: 0,
+        schoolFees: 0,
+        openSchoolFees: 0,
         totalCost: 0,
         totalProfit: 0,
         avgRegistration: 0,
@@ -114,14 +170,18 @@ export default function AdminAnalytics() {
     }
 
     const totalRevenue = analyticsData.reduce((sum, e) => sum + e.totalRevenue, 0);
+    const schoolFeeTotal = analyticsData.reduce((sum, e) => sum + e.schoolFees.net, 0);
+    const openSchoolFees = analyticsData.reduce((sum, e) => sum + e.schoolFees.open, 0);
     const totalCost = analyticsData.reduce((sum, e) => sum + e.incurredCost, 0);
     const totalOrders = analyticsData.reduce((sum, e) => sum + e.registeredChildren, 0);
     const avgRegistration =
       analyticsData.reduce((sum, e) => sum + e.registrationPercent, 0) / analyticsData.length;
-    const avgOrderValue = totalOrders > 0 ? totalRevenue / totalOrders : 0;
+    const avgOrderValue = totalOrders > 0 ? (totalRevenue - schoolFeeTotal) / totalOrders : 0;
 
     return {
       totalRevenue,
+      schoolFees: schoolFeeTotal,
+      openSchoolFees,
       totalCost,
       totalProfit: totalRevenue - totalCost,
       avgRegistration,
@@ -160,13 +220,22 @@ export default function AdminAnalytics() {
       </div>
 
       {/* Summary Cards */}
-      <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-5 gap-4 mb-6">
+      <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4 mb-6">
         <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
           <p className="text-sm font-medium text-gray-500">Total Revenue</p>
           <p className="text-2xl font-bold text-gray-900 mt-1">
             €{summaryStats.totalRevenue.toLocaleString('en-GB', { minimumFractionDigits: 2 })}
           </p>
-          <p className="text-xs text-gray-400 mt-1">From Shopify</p>
+          <p className="text-xs text-gray-400 mt-1">Shopify + school fees</p>
+        </div>
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+          <p className="text-sm font-medium text-gray-500">School Fees</p>
+          <p className="text-2xl font-bold text-gray-900 mt-1">
+            €{summaryStats.schoolFees.toLocaleString('en-GB', { minimumFractionDigits: 2 })}
+          </p>
+          <p className="text-xs text-gray-400 mt-1">
+            Net invoiced · €{summaryStats.openSchoolFees.toLocaleString('en-GB', { minimumFractionDigits: 2 })} open
+          </p>
         </div>
         <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
           <p className="text-sm font-medium text-gray-500">Avg Order Value</p>
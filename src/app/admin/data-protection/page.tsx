@@ -0,0 +1,256 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { toast } from 'sonner';
+import LoadingSpinner from '@/components/shared/LoadingSpinner';
+import PrivacyReportList from '@/components/admin/dataProtection/PrivacyReportList';
+import type { Job } from '@/lib/types/jobs';
+
+interface RetentionPolicy {
+  months: number;
+  cutoffDate: string;
+}
+
+export default function AdminDataProtection() {
+  const [jobs, setJobs] = useState<Job[]>([]);
+  const [retention, setRetention] = useState<RetentionPolicy | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [exportEmail, setExportEmail] = useState('');
+  const [isExporting, setIsExporting] = useState(false);
+  const [erasureEmail, setErasureEmail] = useState('');
+  const [erasureConfirm, setErasureConfirm] = useState('');
+  const [isErasing, setIsErasing] = useState(false);
+  const [queuingRetention, setQueuingRetention] = useState(false);
+
+  const fetchReports = useCallback(async () => {
+    try {
+      const response = await fetch('/api/admin/data-protection/reports', { credentials: 'include' });
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to load reports');
+      }
+      setJobs(result.data.jobs || []);
+      setRetention(result.data.retention);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load reports');
+      console.error('Error fetching data protection reports:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchReports();
+  }, [fetchReports]);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const response = await fetch('/api/admin/data-protection/export', {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email: exportEmail }),
+      });
+      if (!response.ok) {
+        const result = await response.json().catch(() => ({}));
+        throw new Error(result.error || 'Export failed');
+      }
+
+      const blob = await response.blob();
+      const filename =
+        response.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1] || 'datenauskunft.zip';
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+      toast.success('Export downloaded');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Export failed');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleErasure = async () => {
+    if (!confirm(`Anonymise all data of ${erasureEmail}? This cannot be undone.`)) return;
+
+    setIsErasing(true);
+    try {
+      const response = await fetch('/api/admin/data-protection/erasure', {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email: erasureEmail, confirmEmail: erasureConfirm }),
+      });
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Erasure failed');
+      }
+      if (result.data.status === 'succeeded') {
+        toast.success('Data anonymised');
+      } else {
+        toast.warning('Erasure not finished yet - it is retried automatically, see the report below');
+      }
+      setErasureEmail('');
+      setErasureConfirm('');
+      fetchReports();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Erasure failed');
+    } finally {
+      setIsErasing(false);
+    }
+  };
+
+  const handleRetentionRun = async (dryRun: boolean) => {
+    if (!dryRun && !confirm('Purge child names and raw recordings of all events due now?')) return;
+
+    setQueuingRetention(true);
+    try {
+      const response = await fetch('/api/admin/data-protection/retention', {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ dryRun }),
+      });
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to queue retention run');
+      }
+      toast.success(dryRun ? 'Dry run queued' : 'Retention run queued');
+      fetchReports();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to queue retention run');
+    } finally {
+      setQueuingRetention(false);
+    }
+  };
+
+  const erasureReady =
+    erasureEmail.trim() !== '' && erasureEmail.trim().toLowerCase() === erasureConfirm.trim().toLowerCase();
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Datenschutz</h1>
+          <p className="mt-1 text-sm text-gray-500">
+            Data subject requests (DSGVO Art. 15 and 17) and the retention policy for child names and raw recordings.
+          </p>
+        </div>
+        <button onClick={fetchReports} className="text-sm text-[#5a8a82] hover:underline">
+          Refresh
+        </button>
+      </div>
+
+      <div className="grid gap-6 md:grid-cols-2">
+        <section className="rounded-lg border border-gray-200 bg-white p-5">
+          <h2 className="text-lg font-semibold">Export</h2>
+          <p className="mt-1 text-sm text-gray-500">
+            ZIP with everything stored about an email address: parent, children, orders, email logs and legacy rows.
+          </p>
+          <div className="mt-4 flex gap-2">
+            <input
+              type="email"
+              value={exportEmail}
+              onChange={(e) => setExportEmail(e.target.value)}
+              placeholder="parent@example.com"
+              className="flex-1 rounded-lg border border-gray-200 px-3 py-2 text-sm"
+            />
+            <button
+              onClick={handleExport}
+              disabled={isExporting || !exportEmail.trim()}
+              className="rounded-lg bg-[#94B8B3] px-4 py-2 text-sm font-medium text-white hover:bg-[#5a8a82] disabled:opacity-50"
+            >
+              {isExporting ? 'Exporting...' : 'Download'}
+            </button>
+          </div>
+        </section>
+
+        <section className="rounded-lg border border-gray-200 bg-white p-5">
+          <h2 className="text-lg font-semibold">Erasure</h2>
+          <p className="mt-1 text-sm text-gray-500">
+            Anonymises parent and child names, contact details and email logs. Orders keep their amounts.
+          </p>
+          <div className="mt-4 space-y-2">
+            <input
+              type="email"
+              value={erasureEmail}
+              onChange={(e) => setErasureEmail(e.target.value)}
+              placeholder="parent@example.com"
+              className="w-full rounded-lg border border-gray-200 px-3 py-2 text-sm"
+            />
+            <div className="flex gap-2">
+              <input
+                type="email"
+                value={erasureConfirm}
+                onChange={(e) => setErasureConfirm(e.target.value)}
+                placeholder="Repeat the email address"
+                className="flex-1 rounded-lg border border-gray-200 px-3 py-2 text-sm"
+              />
+              <button
+                onClick={handleErasure}
+                disabled={isErasing || !erasureReady}
+                className="rounded-lg bg-red-600 px-4 py-2 text-sm font-medium text-white hover:bg-red-700 disabled:opacity-50"
+              >
+                {isErasing ? 'Erasing...' : 'Erase'}
+              </button>
+            </div>
+          </div>
+        </section>
+      </div>
+
+      <section className="rounded-lg border border-gray-200 bg-white p-5">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <h2 className="text-lg font-semibold">Retention</h2>
+            <p className="mt-1 text-sm text-gray-500">
+              {retention
+                ? `Child names and raw recordings are purged ${retention.months} months after the event — currently events before ${new Date(retention.cutoffDate).toLocaleDateString('de-DE')}. Runs daily.`
+                : 'Child names and raw recordings are purged a fixed number of months after the event. Runs daily.'}
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={() => handleRetentionRun(true)}
+              disabled={queuingRetention}
+              className="rounded-lg border border-gray-200 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+            >
+              Dry run
+            </button>
+            <button
+              onClick={() => handleRetentionRun(false)}
+              disabled={queuingRetention}
+              className="rounded-lg bg-[#94B8B3] px-4 py-2 text-sm font-medium text-white hover:bg-[#5a8a82] disabled:opacity-50"
+            >
+              Run now
+            </button>
+          </div>
+        </div>
+      </section>
+
+      <section>
+        <h2 className="mb-3 text-xl font-semibold">Reports</h2>
+        {isLoading ? (
+          <div className="flex justify-center items-center h-32">
+            <LoadingSpinner size="lg" />
+          </div>
+        ) : error ? (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+            <p className="text-red-600">Error: {error}</p>
+            <button onClick={fetchReports} className="mt-2 text-sm text-red-700 underline">
+              Try again
+            </button>
+          </div>
+        ) : (
+          <PrivacyReportList jobs={jobs} />
+        )}
+      </section>
+    </div>
+  );
+}
@@ -4,7 +4,20 @@ import { useState, useEffect, useCallback } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
 import LoadingSpinner from '@/components/shared/LoadingSpinner';
-import { EmailTemplate, TemplateData, AudienceValue, EventTier } from '@/lib/types/email-automation';
+import EmailTemplateVariantsEditor from '@/components/admin/emails/EmailTemplateVariantsEditor';
+import EmailBlockBuilder from '@/components/admin/emails/EmailBlockBuilder';
+import EmailBodyModeSwitch from '@/components/admin/emails/EmailBodyModeSwitch';
+import EmailLivePreview from '@/components/admin/emails/EmailLivePreview';
+import { createEmailBlock, renderEmailBlocks } from '@/lib/utils/emailBlocks';
+import { PARENT_EMAIL_CATEGORIES, PARENT_EMAIL_CATEGORY_LABELS } from '@/lib/utils/emailPreferences';
+import {
+  EmailTemplate,
+  EmailBlock,
+  TemplateData,
+  AudienceValue,
+  EventTier,
+  TEMPLATE_DATA_VARIABLES,
+} from '@/lib/types/email-automation';
 
 interface PageProps {
   params: { id: string };
@@ -35,6 +48,8 @@ export default function EmailTemplateEdit({ params }: PageProps) {
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
   const [testEmail, setTestEmail] = useState('');
   const [selectedEventId, setSelectedEventId] = useState('');
+  const [selectedVariant, setSelectedVariant] = useState('A');
+  const [isBlockMode, setIsBlockMode] = useState(isNewTemplate);
   const [events, setEvents] = useState<{ eventId: string; schoolName: string; eventDate: string; eventType: string }[]>([]);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [previewData, setPreviewData] = useState<{
@@ -62,6 +77,7 @@ export default function EmailTemplateEdit({ params }: PageProps) {
       const data = await response.json();
       if (data.success) {
         setTemplate(data.data);
+        setIsBlockMode(!!data.data.bodyBlocks?.length);
       } else {
         throw new Error(data.error || 'Failed to load template');
       }
@@ -102,7 +118,8 @@ export default function EmailTemplateEdit({ params }: PageProps) {
         method,
         headers: { 'Content-Type': 'application/json' },
         credentials: 'include',
-        body: JSON.stringify(template),
+        // Switching to HTML drops the blocks
+        body: JSON.stringify({ ...template, bodyBlocks: isBlockMode ? template.bodyBlocks ?? [] : [] }),
       });
 
       const data = await response.json();
@@ -172,7 +189,11 @@ export default function EmailTemplateEdit({ params }: PageProps) {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         credentials: 'include',
-        body: JSON.stringify({ email: testEmail, eventId: selectedEventId || undefined }),
+        body: JSON.stringify({
+          email: testEmail,
+          eventId: selectedEventId || undefined,
+          variant: selectedVariant,
+        }),
       });
 
       const data = await response.json();
@@ -198,9 +219,10 @@ export default function EmailTemplateEdit({ params }: PageProps) {
     }
 
     try {
-      const response = await fetch(`/api/admin/email-templates/${id}/test`, {
-        credentials: 'include',
-      });
+      const response = await fetch(
+        `/api/admin/email-templates/${id}/test?variant=${encodeURIComponent(selectedVariant)}`,
+        { credentials: 'include' }
+      );
 
       const data = await response.json();
 
@@ -220,6 +242,15 @@ export default function EmailTemplateEdit({ params }: PageProps) {
     }
   };
 
+  const handleBlocksChange = (bodyBlocks: EmailBlock[]) => {
+    setTemplate({ ...template, bodyBlocks, bodyHtml: renderEmailBlocks(bodyBlocks) });
+  };
+
+  const handleBodyModeSwitch = (toBlocks: boolean) => {
+    if (toBlocks) handleBlocksChange([createEmailBlock('text')]);
+    setIsBlockMode(toBlocks);
+  };
+
   const formatTriggerDays = (days: number): string => {
     if (days === 0) return 'Am Veranstaltungstag';
     if (days < 0) return `${Math.abs(days)} Tage vor der Veranstaltung`;
@@ -409,6 +440,32 @@ export default function EmailTemplateEdit({ params }: PageProps) {
           </p>
         </div>
 
+        {/* Email Category */}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            E-Mail-Kategorie (Eltern)
+          </label>
+          <select
+            value={template.emailCategory ?? 'event_reminders'}
+            onChange={(e) =>
+              setTemplate({
+                ...template,
+                emailCategory: e.target.value as EmailTemplate['emailCategory'],
+              })
+            }
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent"
+          >
+            {PARENT_EMAIL_CATEGORIES.map((category) => (
+              <option key={category} value={category}>
+                {PARENT_EMAIL_CATEGORY_LABELS[category].label}
+              </option>
+            ))}
+          </select>
+          <p className="mt-1 text-xs text-gray-500">
+            Eltern, die diese Kategorie abbestellt haben, erhalten die E-Mail nicht. Werbe-Mails (z.B. Frühbucher) gehören zu &quot;Angebote aus dem Shop&quot;. Non-Buyer-Mails zählen immer als Shop-Angebote.
+          </p>
+        </div>
+
         {/* Trigger Days */}
         <div>
           <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -482,20 +539,35 @@ export default function EmailTemplateEdit({ params }: PageProps) {
           </p>
         </div>
 
-        {/* Body HTML */}
+        {/* Body */}
         <div>
-          <label className="block text-sm font-medium text-gray-700 mb-1">
-            E-Mail Inhalt (HTML)
-          </label>
-          <textarea
-            value={template.bodyHtml || ''}
-            onChange={(e) =>
-              setTemplate({ ...template, bodyHtml: e.target.value })
-            }
-            rows={15}
-            placeholder="HTML-Inhalt der E-Mail..."
-            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent font-mono text-sm"
-          />
+          <div className="flex items-center justify-between mb-1">
+            <label className="block text-sm font-medium text-gray-700">
+              E-Mail Inhalt {isBlockMode ? '(Blöcke)' : '(HTML)'}
+            </label>
+            <EmailBodyModeSwitch
+              isBlockMode={isBlockMode}
+              hasHtml={!!template.bodyHtml?.trim()}
+              onSwitch={handleBodyModeSwitch}
+            />
+          </div>
+          {isBlockMode ? (
+            <EmailBlockBuilder
+              blocks={template.bodyBlocks ?? []}
+              onChange={handleBlocksChange}
+              variables={[...TEMPLATE_DATA_VARIABLES]}
+            />
+          ) : (
+            <textarea
+              value={template.bodyHtml || ''}
+              onChange={(e) =>
+                setTemplate({ ...template, bodyHtml: e.target.value })
+              }
+              rows={15}
+              placeholder="HTML-Inhalt der E-Mail..."
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent font-mono text-sm"
+            />
+          )}
           {/* Variable Reference */}
           <div className="mt-4 p-3 bg-gray-50 rounded-lg">
             <p className="text-sm font-medium text-gray-700 mb-2">Variablen-Referenz</p>
@@ -515,6 +587,19 @@ export default function EmailTemplateEdit({ params }: PageProps) {
           </div>
         </div>
 
+        {/* Live Preview */}
+        <EmailLivePreview
+          endpoint="/api/admin/email-templates/preview"
+          subject={template.subject || ''}
+          bodyHtml={template.bodyHtml || ''}
+        />
+
+        {/* A/B Variants */}
+        <EmailTemplateVariantsEditor
+          variants={template.variants ?? []}
+          onChange={(variants) => setTemplate({ ...template, variants })}
+        />
+
         {/* Active Toggle */}
         <div className="flex items-center">
           <input
@@ -543,6 +628,20 @@ export default function EmailTemplateEdit({ params }: PageProps) {
 
           {!isNewTemplate && (
             <>
+              {(template.variants?.length ?? 0) > 0 && (
+                <select
+                  value={selectedVariant}
+                  onChange={(e) => setSelectedVariant(e.target.value)}
+                  className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent text-sm"
+                  title="Variante für Vorschau und Test-E-Mail"
+                >
+                  {['A', ...(template.variants ?? []).map((v) => v.key)].map((key) => (
+                    <option key={key} value={key}>
+                      Variante {key}
+                    </option>
+                  ))}
+                </select>
+              )}
               <button
                 onClick={handlePreview}
                 className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
@@ -54,6 +54,8 @@ import AdminLehrerStatusCard from '@/components/admin/AdminLehrerStatusCard';
 import DateChangeModal from '@/components/admin/events/DateChangeModal';
 import AddTeacherModal from '@/components/admin/AddTeacherModal';
 import DealBuilder from '@/components/admin/DealBuilder';
+import OffersPanel from '@/components/admin/OffersPanel';
+import InvoicesPanel from '@/components/admin/InvoicesPanel';
 import SchulClothingOrder from '@/components/shared/SchulClothingOrder';
 import type { DealConfig } from '@/lib/types/airtable';
 
@@ -1496,6 +1498,15 @@ export default function EventDetailPage() {
             onSave={handleDealSave}
             isUpdating={isUpdatingDeal}
           />
+          <div className="mt-6 pt-4 border-t border-gray-100">
+            <OffersPanel
+              offersUrl={`/api/admin/events/${encodeURIComponent(eventId)}/offers`}
+              contactEmail={event.bookingInfo?.contactEmail}
+            />
+          </div>
+          <div className="mt-6 pt-4 border-t border-gray-100">
+            <InvoicesPanel eventId={eventId} contactEmail={event.bookingInfo?.contactEmail} />
+          </div>
         </div>
 
         {/* Admin Notes */}
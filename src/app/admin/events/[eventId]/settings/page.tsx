@@ -602,8 +602,8 @@ export default function EventSettingsPage() {
           </SettingsSection>
         )}
 
-        {/* Section 4: Task Timeline (Read-only, Phase 2) */}
-        <SettingsSection title="Aufgaben-Zeitplan" description="Zeitliche Planung der Event-Aufgaben (Phase 2 - bald konfigurierbar)" locked>
+        {/* Section 4: Task Timeline (Read-only, edited as templates under /admin/tasks/timelines) */}
+        <SettingsSection title="Aufgaben-Zeitplan" description="Standard-Zeitplan der Event-Aufgaben (Vorlagen je Tarif unter Tasks → Timeline templates)" locked>
           {TASK_TIMELINE.map((entry) => (
             <ReadOnlyField
               key={entry.id}
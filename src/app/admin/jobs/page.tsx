@@ -0,0 +1,120 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { toast } from 'sonner';
+import LoadingSpinner from '@/components/shared/LoadingSpinner';
+import JobList from '@/components/admin/jobs/JobList';
+import type { Job } from '@/lib/types/jobs';
+
+// Refresh interval while jobs are queued or running
+const POLL_INTERVAL_MS = 5000;
+
+export default function AdminJobs() {
+  const [jobs, setJobs] = useState<Job[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showAll, setShowAll] = useState(false);
+  const [rerunningId, setRerunningId] = useState<string | null>(null);
+
+  const fetchJobs = useCallback(async () => {
+    try {
+      const status = showAll ? '' : 'queued,running,failed';
+      const response = await fetch(`/api/admin/jobs?status=${status}`, { credentials: 'include' });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to fetch jobs');
+      }
+
+      const data = await response.json();
+      if (data.success) {
+        setJobs(data.data.jobs || []);
+        setError(null);
+      } else {
+        throw new Error(data.error || 'Failed to load jobs');
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to load jobs';
+      setError(message);
+      console.error('Error fetching jobs:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [showAll]);
+
+  useEffect(() => {
+    setIsLoading(true);
+    fetchJobs();
+  }, [fetchJobs]);
+
+  // Keep polling while anything is still in flight
+  const hasActiveJobs = jobs.some((j) => j.status === 'queued' || j.status === 'running');
+  useEffect(() => {
+    if (!hasActiveJobs) return;
+    const interval = setInterval(fetchJobs, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [hasActiveJobs, fetchJobs]);
+
+  const handleRerun = useCallback(async (jobId: string) => {
+    setRerunningId(jobId);
+    try {
+      const response = await fetch(`/api/admin/jobs/${jobId}/rerun`, {
+        method: 'POST',
+        credentials: 'include',
+      });
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to re-run job');
+      }
+      setJobs((prev) => prev.map((j) => (j.id === jobId ? result.data.job : j)));
+      toast.success('Job queued');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to re-run job');
+    } finally {
+      setRerunningId(null);
+    }
+  }, []);
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+        <p className="text-red-600">Error: {error}</p>
+        <button onClick={fetchJobs} className="mt-2 text-sm text-red-700 underline">
+          Try again
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h1 className="text-3xl font-bold">Jobs</h1>
+          <p className="mt-1 text-sm text-gray-500">
+            Background runs for printables, audio processing, fulfillment and Shopify resyncs.
+          </p>
+        </div>
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={showAll}
+            onChange={(e) => setShowAll(e.target.checked)}
+            className="rounded border-gray-300"
+          />
+          Include succeeded jobs
+        </label>
+      </div>
+
+      <JobList jobs={jobs} rerunningId={rerunningId} onRerun={handleRerun} />
+    </div>
+  );
+}
@@ -18,6 +18,10 @@ const navigation = [
   { name: 'Analytics', href: '/admin/analytics', icon: '📈' },
   { name: 'Stock', href: '/admin/stock', icon: '📦' },
   { name: 'Schulsong', href: '/admin/schulsong', icon: '🎵' },
+  { name: 'GEMA', href: '/admin/licensing', icon: '🎼' },
+  { name: 'Datenschutz', href: '/admin/data-protection', icon: '🔒' },
+  { name: 'Jobs', href: '/admin/jobs', icon: '⚙️' },
+  { name: 'Outbox', href: '/admin/outbox', icon: '📬' },
 ];
 
 export default function AdminLayout({
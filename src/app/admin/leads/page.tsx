@@ -8,6 +8,8 @@ import CreateBookingModal from '@/components/admin/bookings/CreateBookingModal';
 import LeadStageBadge from '@/components/admin/leads/LeadStageBadge';
 import LeadDetailsBreakdown from '@/components/admin/leads/LeadDetailsBreakdown';
 import MasterCalendar from '@/components/admin/leads/MasterCalendar';
+import LeadFunnelReport from '@/components/admin/leads/LeadFunnelReport';
+import { appendStageChange, type LeadFunnelReport as LeadFunnelReportData } from '@/lib/utils/leadPipeline';
 import type { LeadStage } from '@/lib/types/airtable';
 import type { LeadWithStaffName, StaffOption, RegionOption } from '@/app/api/admin/leads/route';
 
@@ -33,6 +35,7 @@ export default function AdminLeads() {
   const [leads, setLeads] = useState<LeadWithStaffName[]>([]);
   const [staffList, setStaffList] = useState<StaffOption[]>([]);
   const [regionList, setRegionList] = useState<RegionOption[]>([]);
+  const [funnel, setFunnel] = useState<LeadFunnelReportData | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -70,6 +73,7 @@ export default function AdminLeads() {
         setLeads(data.data.leads || []);
         setStaffList(data.data.staffList || []);
         setRegionList(data.data.regionList || []);
+        setFunnel(data.data.funnel || null);
       } else {
         throw new Error(data.error || 'Failed to load leads');
       }
@@ -116,7 +120,10 @@ export default function AdminLeads() {
         if (data.address !== undefined) updated.address = data.address as string;
         if (data.postalCode !== undefined) updated.postalCode = data.postalCode as string;
         if (data.city !== undefined) updated.city = data.city as string;
-        if (data.stage !== undefined) updated.stage = data.stage as LeadStage;
+        if (data.stage !== undefined) {
+          updated.stage = data.stage as LeadStage;
+          updated.stageHistory = appendStageChange(lead.stageHistory, updated.stage);
+        }
         if (data.lostReason !== undefined) updated.lostReason = data.lostReason as string;
         if (data.callNotes !== undefined) updated.callNotes = data.callNotes as typeof lead.callNotes;
         if (data.nextFollowUp !== undefined) updated.nextFollowUp = data.nextFollowUp as string;
@@ -134,6 +141,7 @@ export default function AdminLeads() {
         if (data.leadSource !== undefined) updated.leadSource = data.leadSource as typeof lead.leadSource;
         if (data.regionId !== undefined) updated.regionId = (data.regionId as string) || undefined;
         if (data.estimatedChildren !== undefined) updated.estimatedChildren = data.estimatedChildren as number;
+        if (data.nurturePaused !== undefined) updated.nurturePaused = data.nurturePaused as boolean;
         return updated;
       }));
 
@@ -336,6 +344,9 @@ export default function AdminLeads() {
       {/* Master Calendar */}
       <MasterCalendar regions={regionList} refreshTrigger={calendarRefreshTrigger} />
 
+      {/* Funnel Report */}
+      {funnel && <LeadFunnelReport report={funnel} />}
+
       {/* Filter Panel */}
       <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 mb-6 space-y-4">
         {/* Stage Toggles */}
@@ -0,0 +1,187 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import LoadingSpinner from '@/components/shared/LoadingSpinner';
+import RepertoireCatalogue from '@/components/admin/licensing/RepertoireCatalogue';
+import LicensingReviewList from '@/components/admin/licensing/LicensingReviewList';
+import { LICENSING_STATUS_LABELS, type RepertoireWork } from '@/lib/types/airtable';
+import { getPreviousQuarter } from '@/lib/utils/licensingReport';
+import type { LicensingReport } from '@/lib/services/repertoireService';
+
+// Quarters offered in the picker, most recent first
+const QUARTER_OPTIONS = 8;
+
+function getQuarterOptions(): string[] {
+  const options: string[] = [];
+  const date = new Date();
+  date.setUTCDate(1);
+  for (let i = 0; i < QUARTER_OPTIONS; i++) {
+    const quarter = getPreviousQuarter(date);
+    options.push(quarter);
+    date.setUTCMonth(date.getUTCMonth() - 3);
+  }
+  return options;
+}
+
+export default function AdminLicensing() {
+  const quarterOptions = getQuarterOptions();
+  const [quarter, setQuarter] = useState(quarterOptions[0]);
+  const [report, setReport] = useState<LicensingReport | null>(null);
+  const [works, setWorks] = useState<RepertoireWork[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchData = useCallback(async () => {
+    try {
+      const [reportResponse, worksResponse] = await Promise.all([
+        fetch(`/api/admin/licensing-report?quarter=${quarter}`, { credentials: 'include' }),
+        fetch('/api/admin/repertoire', { credentials: 'include' }),
+      ]);
+      const [reportResult, worksResult] = await Promise.all([reportResponse.json(), worksResponse.json()]);
+      if (!reportResult.success) throw new Error(reportResult.error || 'Failed to load report');
+      if (!worksResult.success) throw new Error(worksResult.error || 'Failed to load repertoire');
+      setReport(reportResult.data);
+      setWorks(worksResult.data.works);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load licensing report');
+      console.error('Error fetching licensing report:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [quarter]);
+
+  useEffect(() => {
+    setIsLoading(true);
+    fetchData();
+  }, [fetchData]);
+
+  const handleWorkSaved = (work: RepertoireWork) => {
+    setWorks((prev) => [...prev.filter((w) => w.id !== work.id), work].sort((a, b) => a.title.localeCompare(b.title, 'de')));
+    // Matches depend on the catalogue
+    fetchData();
+  };
+
+  const openCount = report?.rows.filter((row) => row.match === 'review' || row.match === 'unmatched').length ?? 0;
+  const totals = report?.works.reduce(
+    (sum, work) => ({ cds: sum.cds + work.cdQuantity, downloads: sum.downloads + work.downloadQuantity }),
+    { cds: 0, downloads: 0 }
+  );
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">GEMA</h1>
+          <p className="mt-1 text-sm text-gray-500">
+            Works pressed on CD or downloaded per quarter, matched against the repertoire catalogue.
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <select
+            value={quarter}
+            onChange={(e) => setQuarter(e.target.value)}
+            className="rounded-lg border border-gray-200 bg-white px-3 py-2 text-sm"
+          >
+            {quarterOptions.map((option) => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </select>
+          <a
+            href={`/api/admin/licensing-report?quarter=${quarter}&format=csv`}
+            className="rounded-lg bg-[#94B8B3] px-4 py-2 text-sm font-medium text-white hover:bg-[#7da39e]"
+          >
+            Export CSV
+          </a>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center items-center h-64">
+          <LoadingSpinner size="lg" />
+        </div>
+      ) : error ? (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+          <p className="text-red-600">Error: {error}</p>
+          <button onClick={fetchData} className="mt-2 text-sm text-red-700 underline">
+            Try again
+          </button>
+        </div>
+      ) : (
+        report && (
+          <>
+            <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+              {[
+                { label: 'Events', value: report.events },
+                { label: 'CDs', value: totals?.cds ?? 0 },
+                { label: 'Downloads', value: totals?.downloads ?? 0 },
+                { label: 'Songs to review', value: openCount },
+              ].map((card) => (
+                <div key={card.label} className="rounded-lg border border-gray-200 bg-white p-4">
+                  <div className="text-sm text-gray-500">{card.label}</div>
+                  <div className="mt-1 text-2xl font-semibold">{card.value}</div>
+                </div>
+              ))}
+            </div>
+
+            <section>
+              <h2 className="mb-3 text-xl font-semibold">Works {report.quarter}</h2>
+              <div className="overflow-x-auto rounded-lg border border-gray-200 bg-white">
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead className="bg-gray-50 text-left text-xs uppercase text-gray-500">
+                    <tr>
+                      <th className="px-3 py-2">Work</th>
+                      <th className="px-3 py-2">Composer / Lyricist</th>
+                      <th className="px-3 py-2">GEMA No.</th>
+                      <th className="px-3 py-2">Status</th>
+                      <th className="px-3 py-2 text-right">Events</th>
+                      <th className="px-3 py-2 text-right">CDs</th>
+                      <th className="px-3 py-2 text-right">Downloads</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {report.works.map((work) => (
+                      <tr key={work.workId || `${work.match}-${work.title}`} className={work.workId ? '' : 'text-gray-500'}>
+                        <td className="px-3 py-2">
+                          {work.title}
+                          {!work.workId && work.match !== 'schulsong' && (
+                            <span className="ml-2 rounded bg-yellow-100 px-1.5 py-0.5 text-xs text-yellow-800">not matched</span>
+                          )}
+                        </td>
+                        <td className="px-3 py-2">{[work.composer, work.lyricist].filter(Boolean).join(' / ') || '—'}</td>
+                        <td className="px-3 py-2">{work.gemaWorkNumber || '—'}</td>
+                        <td className="px-3 py-2">{work.licensingStatus ? LICENSING_STATUS_LABELS[work.licensingStatus] : '—'}</td>
+                        <td className="px-3 py-2 text-right">{work.events}</td>
+                        <td className="px-3 py-2 text-right">{work.cdQuantity}</td>
+                        <td className="px-3 py-2 text-right">{work.downloadQuantity}</td>
+                      </tr>
+                    ))}
+                    {report.works.length === 0 && (
+                      <tr>
+                        <td colSpan={7} className="px-3 py-6 text-center text-gray-500">
+                          No CDs or downloads for events in this quarter
+                        </td>
+                      </tr>
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            </section>
+
+            <section>
+              <h2 className="mb-3 text-xl font-semibold">Songs to review</h2>
+              <LicensingReviewList rows={report.rows} works={works} onLinked={fetchData} />
+            </section>
+          </>
+        )
+      )}
+
+      <section>
+        <h2 className="mb-3 text-xl font-semibold">Repertoire catalogue</h2>
+        <RepertoireCatalogue works={works} onSaved={handleWorkSaved} />
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,167 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { toast } from 'sonner';
+import LoadingSpinner from '@/components/shared/LoadingSpinner';
+import OutboxPreview from '@/components/admin/outbox/OutboxPreview';
+import { parseJsonOrThrow } from '@/lib/api/parseResponse';
+import type { OutboxMessage, OutboxMessageSummary } from '@/lib/types/email';
+
+interface OutboxListData {
+  messages: OutboxMessageSummary[];
+  outboxMode: boolean;
+  providers: { resend: boolean; brevo: boolean };
+}
+
+export default function AdminOutbox() {
+  const [data, setData] = useState<OutboxListData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [selected, setSelected] = useState<OutboxMessage | null>(null);
+  const [isClearing, setIsClearing] = useState(false);
+
+  const fetchMessages = useCallback(async () => {
+    try {
+      const res = await fetch('/api/admin/outbox', { credentials: 'include' });
+      const json = await parseJsonOrThrow<{ success: boolean; error?: string; data: OutboxListData }>(res);
+      if (!json.success) throw new Error(json.error || 'Failed to load outbox');
+      setData(json.data);
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching outbox:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load outbox');
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchMessages();
+  }, [fetchMessages]);
+
+  useEffect(() => {
+    setSelected(null);
+    if (!selectedId) return;
+    let cancelled = false;
+    (async () => {
+      try {
+        const res = await fetch(`/api/admin/outbox/${selectedId}`, { credentials: 'include' });
+        const json = await parseJsonOrThrow<{ success: boolean; error?: string; data: { message: OutboxMessage } }>(
+          res
+        );
+        if (!json.success) throw new Error(json.error || 'Failed to load message');
+        if (!cancelled) setSelected(json.data.message);
+      } catch (err) {
+        toast.error(err instanceof Error ? err.message : 'Failed to load message');
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedId]);
+
+  const handleClear = async () => {
+    if (!confirm('Delete all outbox messages?')) return;
+    setIsClearing(true);
+    try {
+      const res = await fetch('/api/admin/outbox', { method: 'DELETE', credentials: 'include' });
+      const json = await parseJsonOrThrow<{ success: boolean; error?: string; data: { removed: number } }>(res);
+      if (!json.success) throw new Error(json.error || 'Failed to clear outbox');
+      toast.success(`${json.data.removed} message${json.data.removed === 1 ? '' : 's'} deleted`);
+      setSelectedId(null);
+      await fetchMessages();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to clear outbox');
+    } finally {
+      setIsClearing(false);
+    }
+  };
+
+  if (error) {
+    return (
+      <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+        <p className="text-red-600">Error: {error}</p>
+        <button onClick={fetchMessages} className="mt-2 text-sm text-red-700 underline">
+          Try again
+        </button>
+      </div>
+    );
+  }
+
+  if (!data) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  const unconfigured = (['resend', 'brevo'] as const).filter((p) => !data.providers[p]);
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h1 className="text-3xl font-bold">Outbox</h1>
+          <p className="mt-1 text-sm text-gray-500">
+            {data.outboxMode
+              ? 'EMAIL_TRANSPORT=outbox: all mail is written here instead of being sent.'
+              : unconfigured.length > 0
+                ? `No API key for ${unconfigured.join(' and ')}: that mail is written here instead of being sent.`
+                : 'All providers are configured; mail is sent for real and nothing new lands here.'}
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <button
+            onClick={fetchMessages}
+            className="px-4 py-2 text-sm text-[#5a8a82] border border-[#94B8B3] rounded-lg hover:bg-[#94B8B3]/10 transition-colors"
+          >
+            Refresh
+          </button>
+          <button
+            onClick={handleClear}
+            disabled={isClearing || data.messages.length === 0}
+            className="px-4 py-2 text-sm bg-[#94B8B3] text-white rounded-lg hover:bg-[#7da39e] transition-colors disabled:opacity-50"
+          >
+            {isClearing ? 'Clearing...' : 'Clear outbox'}
+          </button>
+        </div>
+      </div>
+
+      {data.messages.length === 0 ? (
+        <div className="bg-white rounded-lg border border-gray-200 px-6 py-12 text-center text-sm text-gray-500">
+          The outbox is empty.
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-[22rem_1fr] gap-6">
+          <ul className="bg-white rounded-lg border border-gray-200 divide-y divide-gray-100 max-h-[48rem] overflow-y-auto">
+            {data.messages.map((message) => (
+              <li key={message.id}>
+                <button
+                  onClick={() => setSelectedId(message.id)}
+                  className={`w-full text-left px-4 py-3 text-sm hover:bg-gray-50 ${
+                    message.id === selectedId ? 'bg-[#94B8B3]/10' : ''
+                  }`}
+                >
+                  <div className="font-medium text-gray-900 truncate">
+                    {message.subject ?? `Brevo template #${message.templateId}`}
+                  </div>
+                  <div className="text-gray-500 truncate">{message.to.map((r) => r.email).join(', ')}</div>
+                  <div className="text-xs text-gray-400 mt-0.5">
+                    {new Date(message.createdAt).toLocaleString('de-DE')} · {message.provider}
+                  </div>
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          {selected ? (
+            <OutboxPreview message={selected} />
+          ) : (
+            <div className="bg-white rounded-lg border border-gray-200 px-6 py-12 text-center text-sm text-gray-500">
+              {selectedId ? <LoadingSpinner /> : 'Select a message to preview it.'}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
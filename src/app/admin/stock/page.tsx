@@ -19,6 +19,7 @@ export default function AdminStock() {
   const [orders, setOrders] = useState<StockOrder[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [isCreatingRows, setIsCreatingRows] = useState(false);
 
   useEffect(() => {
     fetchData();
@@ -26,11 +27,17 @@ export default function AdminStock() {
 
   const fetchData = async () => {
     try {
-      // Empty data - will be populated from Stock API when integrated
-      const emptyInventory: StockItem[] = [];
+      const response = await fetch('/api/admin/stock/inventory');
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to load inventory');
+      }
+
+      // Orders tab stays empty until the Flyeralarm integration exists
       const emptyOrders: StockOrder[] = [];
 
-      setInventory(emptyInventory);
+      setInventory(data.inventory);
       setOrders(emptyOrders);
     } catch (err) {
       console.error('Error fetching stock data:', err);
@@ -40,28 +47,68 @@ export default function AdminStock() {
     }
   };
 
+  const replaceItem = (updated: StockItem) => {
+    setInventory((prev) => prev.map((item) => (item.id === updated.id ? updated : item)));
+  };
+
+  const handleCreateMissingRows = async () => {
+    setIsCreatingRows(true);
+    try {
+      const response = await fetch('/api/admin/stock/inventory', { method: 'POST' });
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to create stock rows');
+      }
+
+      setInventory(data.inventory);
+    } catch (err) {
+      console.error('Error creating stock rows:', err);
+      alert(err instanceof Error ? err.message : 'Failed to create stock rows');
+    } finally {
+      setIsCreatingRows(false);
+    }
+  };
+
   const handleUpdateCost = async (id: string, newCost: number) => {
-    // Update local state (API integration coming later)
-    setInventory((prev) =>
-      prev.map((item) =>
-        item.id === id
-          ? {
-              ...item,
-              costPerUnit: newCost,
-              costOverride: newCost,
-              lastUpdated: new Date().toISOString(),
-            }
-          : item
-      )
-    );
+    const response = await fetch('/api/admin/stock/inventory', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ id, costOverride: newCost }),
+    });
+    const data = await response.json();
+
+    if (!data.success) {
+      throw new Error(data.error || 'Failed to update cost');
+    }
+
+    replaceItem(data.item);
   };
 
+  const handleCorrectStock = async (id: string, onHand: number, reason: string) => {
+    const response = await fetch('/api/admin/stock/movements', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ id, onHand, reason }),
+    });
+    const data = await response.json();
+
+    if (!data.success) {
+      throw new Error(data.error || 'Failed to correct stock');
+    }
+
+    replaceItem(data.item);
+  };
+
+  // Catalogue rows without a Stock Items record (id is empty until created)
+  const missingRows = inventory.filter((item) => !item.id).length;
+
   // Calculate summary statistics for inventory
   const inventorySummary = useMemo(() => {
     const totalItems = inventory.length;
-    const totalStock = inventory.reduce((sum, item) => sum + item.inStock, 0);
-    const totalValue = inventory.reduce((sum, item) => sum + item.inStock * item.costPerUnit, 0);
-    const lowStockItems = inventory.filter((item) => item.inStock <= 5).length;
+    const totalStock = inventory.reduce((sum, item) => sum + item.onHand, 0);
+    const totalValue = inventory.reduce((sum, item) => sum + item.onHand * item.costPerUnit, 0);
+    const lowStockItems = inventory.filter((item) => item.available <= 5).length;
 
     return {
       totalItems,
@@ -134,7 +181,7 @@ export default function AdminStock() {
           <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
             <p className="text-sm font-medium text-gray-500">Total Stock</p>
             <p className="text-2xl font-bold text-gray-900 mt-1">{inventorySummary.totalStock}</p>
-            <p className="text-xs text-gray-400 mt-1">Units in inventory</p>
+            <p className="text-xs text-gray-400 mt-1">Units on hand</p>
           </div>
           <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
             <p className="text-sm font-medium text-gray-500">Inventory Value</p>
@@ -152,7 +199,7 @@ export default function AdminStock() {
             >
               {inventorySummary.lowStockItems}
             </p>
-            <p className="text-xs text-gray-400 mt-1">Items with ≤5 units</p>
+            <p className="text-xs text-gray-400 mt-1">Items with ≤5 available</p>
           </div>
         </div>
       ) : (
@@ -190,12 +237,32 @@ export default function AdminStock() {
         </div>
       )}
 
+      {activeTab === 'inventory' && missingRows > 0 && (
+        <div className="flex items-center justify-between gap-4 bg-yellow-50 border border-yellow-200 rounded-lg p-4 mb-6 print:hidden">
+          <p className="text-sm text-yellow-800">
+            {missingRows} stock {missingRows === 1 ? 'row is' : 'rows are'} not set up yet and cannot be
+            booked or corrected.
+          </p>
+          <button
+            onClick={handleCreateMissingRows}
+            disabled={isCreatingRows}
+            className="px-3 py-1.5 text-sm font-medium text-white bg-[#94B8B3] rounded hover:bg-[#7fa39e] transition-colors disabled:opacity-50"
+          >
+            {isCreatingRows ? 'Creating...' : 'Create missing rows'}
+          </button>
+        </div>
+      )}
+
       {/* Tabs */}
       <StockTabs activeTab={activeTab} onTabChange={setActiveTab} />
 
       {/* Table Content */}
       {activeTab === 'inventory' ? (
-        <InventoryTable data={inventory} onUpdateCost={handleUpdateCost} />
+        <InventoryTable
+          data={inventory}
+          onUpdateCost={handleUpdateCost}
+          onCorrectStock={handleCorrectStock}
+        />
       ) : (
         <OrdersTable data={orders} />
       )}
@@ -6,6 +6,7 @@ import { cn, formatDate } from '@/lib/utils';
 import LoadingSpinner from '@/components/shared/LoadingSpinner';
 import EventDetailTimeline from '@/components/admin/tasks/EventDetailTimeline';
 import EventWelleBreakdown from '@/components/admin/tasks/EventWelleBreakdown';
+import TimelineRecomputePanel from '@/components/admin/tasks/TimelineRecomputePanel';
 import type { TaskWithEventDetails } from '@/lib/types/tasks';
 import { parseJsonOrThrow } from '@/lib/api/parseResponse';
 
@@ -209,6 +210,8 @@ export default function EventDetailPage({
         onTaskRefresh={fetchEventData}
       />
 
+      <TimelineRecomputePanel eventId={eventId} onTaskRefresh={fetchEventData} />
+
       {/* ----------------------------------------------------------------- */}
       {/* Section 3 — Welle Breakdown                                        */}
       {/* ----------------------------------------------------------------- */}
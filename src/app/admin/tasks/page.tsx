@@ -1,6 +1,7 @@
 'use client';
 
 import { useState, useEffect, useCallback, useRef } from 'react';
+import Link from 'next/link';
 import LoadingSpinner from '@/components/shared/LoadingSpinner';
 import TaskMatrix from '@/components/admin/tasks/TaskMatrix';
 import TaskDateView from '@/components/admin/tasks/TaskDateView';
@@ -249,28 +250,36 @@ export default function AdminTasks() {
             Manage production tasks across all events
           </p>
         </div>
-        <button
-          onClick={handleRefresh}
-          disabled={isRefreshing}
-          aria-label="Refresh tasks"
-          className="inline-flex items-center px-4 py-2 bg-[#94B8B3] text-white rounded-lg hover:bg-[#7da39e] transition-colors disabled:opacity-70"
-        >
-          <svg
-            className={`w-4 h-4 mr-2 ${isRefreshing ? 'animate-spin' : ''}`}
-            fill="none"
-            viewBox="0 0 24 24"
-            stroke="currentColor"
-            aria-hidden="true"
+        <div className="flex items-center gap-3">
+          <Link
+            href="/admin/tasks/timelines"
+            className="inline-flex items-center px-4 py-2 text-[#5a8a82] border border-[#94B8B3] rounded-lg hover:bg-[#94B8B3]/10 transition-colors"
           >
-            <path
-              strokeLinecap="round"
-              strokeLinejoin="round"
-              strokeWidth={2}
-              d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15"
-            />
-          </svg>
-          {isRefreshing ? 'Refreshing...' : 'Refresh'}
-        </button>
+            Timeline templates
+          </Link>
+          <button
+            onClick={handleRefresh}
+            disabled={isRefreshing}
+            aria-label="Refresh tasks"
+            className="inline-flex items-center px-4 py-2 bg-[#94B8B3] text-white rounded-lg hover:bg-[#7da39e] transition-colors disabled:opacity-70"
+          >
+            <svg
+              className={`w-4 h-4 mr-2 ${isRefreshing ? 'animate-spin' : ''}`}
+              fill="none"
+              viewBox="0 0 24 24"
+              stroke="currentColor"
+              aria-hidden="true"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15"
+              />
+            </svg>
+            {isRefreshing ? 'Refreshing...' : 'Refresh'}
+          </button>
+        </div>
       </div>
 
       {/* View Mode Tabs */}
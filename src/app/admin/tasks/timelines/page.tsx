@@ -0,0 +1,262 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { toast } from 'sonner';
+import LoadingSpinner from '@/components/shared/LoadingSpinner';
+import TimelineTemplateEditor from '@/components/admin/tasks/TimelineTemplateEditor';
+import { formatDate } from '@/lib/utils';
+import type { TimelineConditions, TimelineTemplate, TimelineTemplateInput } from '@/lib/config/taskTimeline';
+
+const TIER_LABELS: Record<string, string> = {
+  minimusikertag: 'Minimusikertag',
+  plus: 'PLUS',
+  schulsong: 'Schulsong only',
+};
+
+function describeConditions(conditions: TimelineConditions): string {
+  const parts: string[] = [];
+  if (conditions.tiers?.length) parts.push(conditions.tiers.map((t) => TIER_LABELS[t] || t).join(' / '));
+  if (conditions.isSchulsong !== undefined) parts.push(conditions.isSchulsong ? 'with Schulsong' : 'without Schulsong');
+  if (conditions.isScs !== undefined) parts.push(conditions.isScs ? 'with SCS' : 'without SCS');
+  if (conditions.minChildren !== undefined && conditions.maxChildren !== undefined) {
+    parts.push(`${conditions.minChildren}–${conditions.maxChildren} children`);
+  } else if (conditions.minChildren !== undefined) {
+    parts.push(`${conditions.minChildren}+ children`);
+  } else if (conditions.maxChildren !== undefined) {
+    parts.push(`up to ${conditions.maxChildren} children`);
+  }
+  return parts.length > 0 ? parts.join(', ') : 'All events';
+}
+
+function toInput(template: TimelineTemplate): TimelineTemplateInput {
+  return {
+    name: template.name,
+    priority: template.priority,
+    conditions: template.conditions,
+    tasks: template.tasks,
+  };
+}
+
+type EditorState = { mode: 'create'; initial: TimelineTemplateInput } | { mode: 'edit'; template: TimelineTemplate };
+
+export default function AdminTaskTimelines() {
+  const [templates, setTemplates] = useState<TimelineTemplate[]>([]);
+  const [builtin, setBuiltin] = useState<TimelineTemplate | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [editor, setEditor] = useState<EditorState | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [expandedKey, setExpandedKey] = useState<string | null>(null);
+
+  const fetchTemplates = useCallback(async () => {
+    try {
+      const response = await fetch('/api/admin/task-timelines', { credentials: 'include' });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to fetch templates');
+      }
+
+      const data = await response.json();
+      if (data.success) {
+        setTemplates(data.data.templates || []);
+        setBuiltin(data.data.builtin);
+        setError(null);
+      } else {
+        throw new Error(data.error || 'Failed to load templates');
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to load templates';
+      setError(message);
+      console.error('Error fetching timeline templates:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchTemplates();
+  }, [fetchTemplates]);
+
+  const handleSave = useCallback(
+    async (input: TimelineTemplateInput) => {
+      if (!editor) return;
+      setIsSaving(true);
+      try {
+        const url =
+          editor.mode === 'edit'
+            ? `/api/admin/task-timelines/${encodeURIComponent(editor.template.key)}`
+            : '/api/admin/task-timelines';
+        const response = await fetch(url, {
+          method: editor.mode === 'edit' ? 'PUT' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          credentials: 'include',
+          body: JSON.stringify(input),
+        });
+        const result = await response.json();
+        if (!response.ok || !result.success) {
+          throw new Error(result.error || 'Failed to save template');
+        }
+        toast.success(editor.mode === 'edit' ? `Saved as version ${result.data.template.version}` : 'Template created');
+        setEditor(null);
+        await fetchTemplates();
+      } catch (err) {
+        toast.error(err instanceof Error ? err.message : 'Failed to save template');
+      } finally {
+        setIsSaving(false);
+      }
+    },
+    [editor, fetchTemplates]
+  );
+
+  const handleArchive = useCallback(
+    async (template: TimelineTemplate) => {
+      if (!confirm(`Archive "${template.name}"? Events already using it keep their tasks.`)) return;
+      try {
+        const response = await fetch(`/api/admin/task-timelines/${encodeURIComponent(template.key)}`, {
+          method: 'DELETE',
+          credentials: 'include',
+        });
+        const result = await response.json();
+        if (!response.ok || !result.success) {
+          throw new Error(result.error || 'Failed to archive template');
+        }
+        toast.success('Template archived');
+        await fetchTemplates();
+      } catch (err) {
+        toast.error(err instanceof Error ? err.message : 'Failed to archive template');
+      }
+    },
+    [fetchTemplates]
+  );
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+        <p className="text-red-600">Error: {error}</p>
+        <button onClick={fetchTemplates} className="mt-2 text-sm text-red-700 underline">
+          Try again
+        </button>
+      </div>
+    );
+  }
+
+  if (editor) {
+    return (
+      <TimelineTemplateEditor
+        key={editor.mode === 'edit' ? editor.template.id : 'new'}
+        title={editor.mode === 'edit' ? `Edit ${editor.template.name} (v${editor.template.version})` : 'New template'}
+        initial={editor.mode === 'edit' ? toInput(editor.template) : editor.initial}
+        isSaving={isSaving}
+        onSave={handleSave}
+        onCancel={() => setEditor(null)}
+      />
+    );
+  }
+
+  const current = templates
+    .filter((t) => t.status === 'current')
+    .sort((a, b) => b.priority - a.priority || a.name.localeCompare(b.name));
+  const history = (key: string) => templates.filter((t) => t.key === key && t.status !== 'current');
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <Link href="/admin/tasks" className="text-sm text-gray-500 hover:text-gray-700">
+            &larr; Tasks
+          </Link>
+          <h1 className="text-3xl font-bold mt-1">Timeline templates</h1>
+          <p className="mt-1 text-sm text-gray-500">
+            Which tasks are generated for an event, and when. The highest-priority matching template wins; events
+            matching none use the built-in timeline.
+          </p>
+        </div>
+        <button
+          onClick={() =>
+            builtin && setEditor({ mode: 'create', initial: { ...toInput(builtin), name: '', priority: 10 } })
+          }
+          className="px-4 py-2 bg-[#94B8B3] text-white rounded-lg hover:bg-[#7da39e] transition-colors"
+        >
+          New template
+        </button>
+      </div>
+
+      <div className="space-y-3">
+        {current.map((template) => {
+          const versions = history(template.key);
+          const isExpanded = expandedKey === template.key;
+          return (
+            <div key={template.id} className="bg-white rounded-lg border border-gray-200 shadow-sm">
+              <div className="px-5 py-4 flex items-start justify-between gap-4">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <h2 className="font-semibold text-gray-900">{template.name}</h2>
+                    <span className="text-xs px-2 py-0.5 rounded-full bg-gray-100 text-gray-600">
+                      v{template.version}
+                    </span>
+                    <span className="text-xs text-gray-500">Priority {template.priority}</span>
+                  </div>
+                  <p className="text-sm text-gray-600 mt-1">{describeConditions(template.conditions)}</p>
+                  <p className="text-xs text-gray-400 mt-1">
+                    {template.tasks.length} tasks
+                    {template.createdAt && ` · saved ${formatDate(template.createdAt)}`}
+                    {template.createdBy && ` by ${template.createdBy}`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-3 text-sm flex-shrink-0">
+                  {versions.length > 0 && (
+                    <button
+                      onClick={() => setExpandedKey(isExpanded ? null : template.key)}
+                      className="text-gray-500 hover:text-gray-700"
+                    >
+                      {isExpanded ? 'Hide history' : `History (${versions.length})`}
+                    </button>
+                  )}
+                  <button
+                    onClick={() => setEditor({ mode: 'edit', template })}
+                    className="text-[#5a8a82] hover:underline"
+                  >
+                    Edit
+                  </button>
+                  <button onClick={() => handleArchive(template)} className="text-red-600 hover:underline">
+                    Archive
+                  </button>
+                </div>
+              </div>
+              {isExpanded && (
+                <ul className="border-t border-gray-100 px-5 py-3 space-y-1 text-sm text-gray-600">
+                  {versions.map((version) => (
+                    <li key={version.id}>
+                      v{version.version} · {version.name} · {version.tasks.length} tasks
+                      {version.createdAt && ` · ${formatDate(version.createdAt)}`}
+                      {version.status === 'archived' && <span className="ml-2 text-xs text-red-600">archived</span>}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          );
+        })}
+
+        {builtin && (
+          <div className="bg-gray-50 rounded-lg border border-dashed border-gray-300 px-5 py-4">
+            <h2 className="font-semibold text-gray-700">{builtin.name}</h2>
+            <p className="text-sm text-gray-500 mt-1">
+              Fallback for events no template matches · {builtin.tasks.length} tasks · read-only
+            </p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAdminSession } from '@/lib/auth/verifyAdminSession';
+import { getOrderWaveService } from '@/lib/services/orderWaveService';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/admin/analytics/refunds
+ * Refunded Shopify items per event ID (shown as negative revenue)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const admin = verifyAdminSession(request);
+    if (!admin) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const summaries = await getOrderWaveService().getEventRefundSummaries();
+
+    return NextResponse.json({
+      success: true,
+      data: summaries,
+    });
+  } catch (error) {
+    console.error('Error fetching refunds:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch refunds' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAdminSession } from '@/lib/auth/verifyAdminSession';
+import { getInvoiceService } from '@/lib/services/invoiceService';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/admin/analytics/school-fees
+ * Invoiced school fees per event ID (net revenue, paid, open)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const admin = verifyAdminSession(request);
+    if (!admin) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const summaries = await getInvoiceService().getSchoolFeeSummaries();
+
+    return NextResponse.json({
+      success: true,
+      data: summaries,
+    });
+  } catch (error) {
+    console.error('Error fetching school fees:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch school fees' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * Admin Data Subject Erasure
+ *
+ * POST /api/admin/data-protection/erasure
+ * Body: { email: string, confirmEmail: string }
+ *
+ * Anonymises the parent, their children's names and the email logs of the
+ * address; orders keep their financials. The records are resolved here and
+ * the 'privacy.erasure' job only gets their IDs, so the job record never
+ * holds the address. The job runs inline and its result is the report.
+ *
+ * Returns: { success, data: { jobId, status, report } }, 404 if nothing is
+ * stored about the address
+ */
+
+import { NextRequest } from 'next/server';
+import { requireAdmin } from '@/lib/auth/verifyAdminSession';
+import { apiError, apiOk } from '@/lib/api/response';
+import { getDataProtectionService } from '@/lib/services/dataProtectionService';
+import { getJobService } from '@/lib/services/jobService';
+import type { ErasureJobPayload } from '@/lib/services/jobHandlers';
+import type { ErasureReport } from '@/lib/types/dataProtection';
+import { hashDataSubject } from '@/lib/utils/dataProtection';
+import { validateEmail } from '@/lib/utils/validators';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest) {
+  const [admin, authError] = requireAdmin(request);
+  if (authError) return authError;
+
+  const body = await request.json().catch(() => ({}));
+  const email = typeof body?.email === 'string' ? body.email.trim() : '';
+  const emailCheck = validateEmail(email);
+  if (!emailCheck.valid) {
+    return apiError(emailCheck.error || 'Invalid email', 400);
+  }
+  if (typeof body?.confirmEmail !== 'string' || body.confirmEmail.trim().toLowerCase() !== email.toLowerCase()) {
+    return apiError('Confirmation does not match the email address', 400);
+  }
+
+  try {
+    const targets = await getDataProtectionService().findErasureTargets(email);
+    if (!targets) {
+      return apiError('No data stored for this email address', 404);
+    }
+
+    const subjectHash = hashDataSubject(email);
+    const jobService = getJobService();
+    const queued = await jobService.enqueue<ErasureJobPayload>(
+      'privacy.erasure',
+      { subjectHash, targets },
+      {
+        label: `Data erasure – ${subjectHash.slice(0, 12)}`,
+        createdBy: admin.email,
+        maxAttempts: 3,
+        runInline: true,
+      }
+    );
+    const job = await jobService.runJob(queued.id, { ignoreRunAfter: true });
+
+    console.log(`[data-protection] Erasure of ${subjectHash.slice(0, 12)} by ${admin.email}: job ${queued.id} ${job?.status}`);
+    return apiOk({
+      jobId: queued.id,
+      status: job?.status ?? queued.status,
+      report: (job?.result as ErasureReport | undefined) ?? null,
+    });
+  } catch (error) {
+    console.error('[data-protection] Erasure failed:', error);
+    return apiError(error instanceof Error ? error.message : 'Failed to erase data');
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * Admin Data Subject Export
+ *
+ * POST /api/admin/data-protection/export
+ * Body: { email: string }
+ *
+ * Returns a ZIP with everything stored about the email address (parent,
+ * children, orders, email logs, legacy parent journey rows), one JSON file
+ * per source plus a manifest. POST keeps the address out of URLs and logs.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import archiver from 'archiver';
+import { PassThrough } from 'stream';
+import { requireAdmin } from '@/lib/auth/verifyAdminSession';
+import { apiError } from '@/lib/api/response';
+import { getDataProtectionService } from '@/lib/services/dataProtectionService';
+import { buildExportArchiveFiles, hashDataSubject } from '@/lib/utils/dataProtection';
+import { validateEmail } from '@/lib/utils/validators';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest) {
+  const [admin, authError] = requireAdmin(request);
+  if (authError) return authError;
+
+  const body = await request.json().catch(() => ({}));
+  const email = typeof body?.email === 'string' ? body.email.trim() : '';
+  const emailCheck = validateEmail(email);
+  if (!emailCheck.valid) {
+    return apiError(emailCheck.error || 'Invalid email', 400);
+  }
+
+  try {
+    const data = await getDataProtectionService().exportDataSubject(email);
+    const subjectHash = hashDataSubject(email);
+    console.log(`[data-protection] Export of ${subjectHash.slice(0, 12)} by ${admin.email}`);
+
+    const archive = archiver('zip', { zlib: { level: 9 } });
+    const passThrough = new PassThrough();
+    archive.pipe(passThrough);
+    for (const file of buildExportArchiveFiles(data, admin.email)) {
+      archive.append(file.content, { name: file.name });
+    }
+    archive.finalize();
+
+    const webStream = new ReadableStream({
+      start(controller) {
+        passThrough.on('data', (chunk: Buffer) => {
+          controller.enqueue(new Uint8Array(chunk));
+        });
+        passThrough.on('end', () => controller.close());
+        passThrough.on('error', (err) => controller.error(err));
+      },
+      cancel() {
+        passThrough.destroy();
+        archive.abort();
+      },
+    });
+
+    const filename = `datenauskunft-${subjectHash.slice(0, 12)}.zip`;
+    return new NextResponse(webStream, {
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+      },
+    });
+  } catch (error) {
+    console.error('[data-protection] Export failed:', error);
+    return apiError(error instanceof Error ? error.message : 'Failed to export data');
+  }
+}
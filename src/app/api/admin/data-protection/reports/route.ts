@@ -0,0 +1,31 @@
+import { NextRequest } from 'next/server';
+import { requireAdmin } from '@/lib/auth/verifyAdminSession';
+import { apiError, apiOk } from '@/lib/api/response';
+import { getJobService } from '@/lib/services/jobService';
+import { getDataRetentionMonths } from '@/lib/config/dataRetention';
+import { getRetentionCutoffDate } from '@/lib/utils/dataProtection';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/admin/data-protection/reports
+ * Erasure and retention runs, newest first; each job's result is its report.
+ * Also returns the retention policy in effect.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const [, authError] = requireAdmin(request);
+    if (authError) return authError;
+
+    const jobs = await getJobService().listJobs({ types: ['privacy.erasure', 'privacy.retention'], limit: 50 });
+    const retentionMonths = getDataRetentionMonths();
+
+    return apiOk({
+      jobs,
+      retention: { months: retentionMonths, cutoffDate: getRetentionCutoffDate(retentionMonths) },
+    });
+  } catch (error) {
+    console.error('Error fetching data protection reports:', error);
+    return apiError('Failed to fetch reports');
+  }
+}
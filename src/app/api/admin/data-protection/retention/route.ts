@@ -0,0 +1,48 @@
+/**
+ * Admin Data Retention Run
+ *
+ * POST /api/admin/data-protection/retention
+ * Body (optional): { dryRun?: boolean }
+ *
+ * Queues a 'privacy.retention' job outside the daily cron, e.g. a dry run
+ * to see which events the policy would purge.
+ * Returns (202): { success, jobId, dryRun }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/auth/verifyAdminSession';
+import { getJobService } from '@/lib/services/jobService';
+import type { RetentionJobPayload } from '@/lib/services/jobHandlers';
+import { getDataRetentionMonths } from '@/lib/config/dataRetention';
+import { getRetentionCutoffDate } from '@/lib/utils/dataProtection';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest) {
+  const [admin, errorResponse] = requireAdmin(request);
+  if (errorResponse) return errorResponse;
+
+  const body = await request.json().catch(() => ({}));
+  const dryRun = body?.dryRun === true;
+
+  try {
+    const retentionMonths = getDataRetentionMonths();
+    const cutoffDate = getRetentionCutoffDate(retentionMonths);
+    const job = await getJobService().enqueue<RetentionJobPayload>(
+      'privacy.retention',
+      { retentionMonths, cutoffDate, dryRun },
+      {
+        label: `Data retention – before ${cutoffDate}${dryRun ? ' (dry run)' : ''}`,
+        createdBy: admin.email,
+        maxAttempts: 3,
+      }
+    );
+
+    console.log(`[data-protection] Queued retention job ${job.id}${dryRun ? ' (DRY RUN)' : ''}`);
+    return NextResponse.json({ success: true, jobId: job.id, dryRun }, { status: 202 });
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : 'Unknown error';
+    console.error('[data-protection] Failed to queue retention job:', error);
+    return NextResponse.json({ success: false, error: msg }, { status: 500 });
+  }
+}
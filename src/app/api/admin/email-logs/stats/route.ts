@@ -4,7 +4,11 @@
  * Returns aggregated EMAIL_LOGS stats over a configurable window (default 30
  * days). Powers the "Versand-Log" diagnostic tab on `/admin/emails` so admins
  * can answer "are timeline emails actually firing? are they failing? are they
- * being silently skipped by dedup?".
+ * being silently skipped by dedup?". Delivery counts come from the Resend
+ * webhook (/api/webhooks/resend); only sent mails with a delivery status
+ * count towards the delivery and bounce rates ("tracked"). Templates running
+ * an A/B test are also broken down by variant, with clicks on the tagged
+ * shop links as the conversion signal.
  *
  * @route GET /api/admin/email-logs/stats?days=30
  */
@@ -12,17 +16,35 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { verifyAdminSession } from '@/lib/auth/verifyAdminSession';
 import { getAirtableService } from '@/lib/services/airtableService';
+import { getEmailDeliveryService } from '@/lib/services/emailDeliveryService';
 import type { EmailLog } from '@/lib/types/email-automation';
 
 export const dynamic = 'force-dynamic';
 
-interface ByTemplateRow {
+interface DeliveryCounts {
+  tracked: number;     // Sent mails with a Resend delivery status
+  delivered: number;   // Delivered (incl. later complaints)
+  bounced: number;
+  complained: number;
+  opened: number;
+  clicked: number;
+  shopClicked: number; // Clicks on UTM-tagged shop links
+}
+
+interface ByTemplateRow extends DeliveryCounts {
   templateName: string;
   sent: number;
   failed: number;
   skipped: number;
 }
 
+interface ByVariantRow extends DeliveryCounts {
+  templateName: string;
+  variant: string;
+  sent: number;
+  failed: number;
+}
+
 interface RecentFailure {
   id: string;
   sentAt: string;
@@ -41,8 +63,10 @@ interface DailyCount {
 
 export interface EmailLogsStatsResponse {
   windowDays: number;
-  totals: { sent: number; failed: number; skipped: number };
+  totals: { sent: number; failed: number; skipped: number } & DeliveryCounts;
+  suppressedCount: number;
   byTemplate: ByTemplateRow[];
+  byVariant: ByVariantRow[];
   recentFailures: RecentFailure[];
   dailyCounts: DailyCount[];
 }
@@ -52,6 +76,21 @@ const ALLOWED_DAYS = [7, 30, 90] as const;
 const MAX_DAYS = 90;
 const RECENT_FAILURES_LIMIT = 50;
 
+function emptyDeliveryCounts(): DeliveryCounts {
+  return { tracked: 0, delivered: 0, bounced: 0, complained: 0, opened: 0, clicked: 0, shopClicked: 0 };
+}
+
+function countDelivery(counts: DeliveryCounts, log: EmailLog): void {
+  if (log.openedAt) counts.opened += 1;
+  if (log.clickedAt) counts.clicked += 1;
+  if (log.shopClickedAt) counts.shopClicked += 1;
+  if (!log.deliveryStatus) return;
+  counts.tracked += 1;
+  if (log.deliveryStatus === 'delivered' || log.deliveryStatus === 'complained') counts.delivered += 1;
+  if (log.deliveryStatus === 'bounced') counts.bounced += 1;
+  if (log.deliveryStatus === 'complained') counts.complained += 1;
+}
+
 /**
  * GET /api/admin/email-logs/stats
  * Aggregate EMAIL_LOGS over the requested window.
@@ -77,10 +116,14 @@ export async function GET(request: NextRequest) {
       : Math.min(Math.max(Number.isFinite(rawDays) ? rawDays : DEFAULT_DAYS, 1), MAX_DAYS);
 
     const airtable = getAirtableService();
-    const logs = await airtable.getEmailLogsSince(windowDays);
+    const [logs, suppressed] = await Promise.all([
+      airtable.getEmailLogsSince(windowDays),
+      getEmailDeliveryService().getSuppressedEmails(),
+    ]);
 
-    const totals = { sent: 0, failed: 0, skipped: 0 };
+    const totals = { sent: 0, failed: 0, skipped: 0, ...emptyDeliveryCounts() };
     const byTemplateMap = new Map<string, ByTemplateRow>();
+    const byVariantMap = new Map<string, ByVariantRow>();
     const dailyMap = new Map<string, DailyCount>();
 
     for (const log of logs) {
@@ -96,12 +139,38 @@ export async function GET(request: NextRequest) {
         sent: 0,
         failed: 0,
         skipped: 0,
+        ...emptyDeliveryCounts(),
       };
       if (log.status === 'sent') row.sent += 1;
       else if (log.status === 'failed') row.failed += 1;
       else if (log.status === 'skipped') row.skipped += 1;
       byTemplateMap.set(templateKey, row);
 
+      // Delivery tracking
+      if (log.status === 'sent') {
+        countDelivery(totals, log);
+        countDelivery(row, log);
+      }
+
+      // A/B variants (only logged for templates running a test)
+      if (log.variant) {
+        const variantKey = `${templateKey}\u0000${log.variant}`;
+        const variantRow = byVariantMap.get(variantKey) ?? {
+          templateName: templateKey,
+          variant: log.variant,
+          sent: 0,
+          failed: 0,
+          ...emptyDeliveryCounts(),
+        };
+        if (log.status === 'sent') {
+          variantRow.sent += 1;
+          countDelivery(variantRow, log);
+        } else if (log.status === 'failed') {
+          variantRow.failed += 1;
+        }
+        byVariantMap.set(variantKey, variantRow);
+      }
+
       // dailyCounts: reserved for a future trend chart on the diagnostic tab; kept in
       // the response per the API contract in docs/plans/2026-05-11-email-activity-log-and-diagnostic.md
       // Daily — bucket by YYYY-MM-DD in UTC for stable aggregation
@@ -128,6 +197,10 @@ export async function GET(request: NextRequest) {
       return a.templateName.localeCompare(b.templateName);
     });
 
+    const byVariant = Array.from(byVariantMap.values()).sort(
+      (a, b) => a.templateName.localeCompare(b.templateName) || a.variant.localeCompare(b.variant)
+    );
+
     // Recent failures: chronological (newest first), capped at 50
     const recentFailures: RecentFailure[] = logs
       .filter((l: EmailLog) => l.status === 'failed')
@@ -150,7 +223,9 @@ export async function GET(request: NextRequest) {
     const responseData: EmailLogsStatsResponse = {
       windowDays,
       totals,
+      suppressedCount: suppressed.size,
       byTemplate,
+      byVariant,
       recentFailures,
       dailyCounts,
     };
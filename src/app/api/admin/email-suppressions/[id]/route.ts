@@ -0,0 +1,32 @@
+import { NextRequest } from 'next/server';
+import { requireAdmin } from '@/lib/auth/verifyAdminSession';
+import { apiOk, apiError } from '@/lib/api/response';
+import { getEmailDeliveryService } from '@/lib/services/emailDeliveryService';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * DELETE /api/admin/email-suppressions/[id]
+ * Take an address off the suppression list so it receives mail again.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const [admin, authError] = requireAdmin(request);
+    if (authError) return authError;
+
+    const { id } = await params;
+    if (!/^rec[A-Za-z0-9]{14}$/.test(id)) {
+      return apiError('Invalid suppression ID', 400);
+    }
+
+    await getEmailDeliveryService().removeSuppression(id);
+    console.log(`[email-suppressions] ${id} removed by ${admin.email}`);
+    return apiOk({ id }, 'Address unblocked.');
+  } catch (error) {
+    console.error('Error removing email suppression:', error);
+    return apiError('Failed to remove email suppression');
+  }
+}
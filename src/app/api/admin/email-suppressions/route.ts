@@ -0,0 +1,23 @@
+import { NextRequest } from 'next/server';
+import { requireAdmin } from '@/lib/auth/verifyAdminSession';
+import { apiOk, apiError } from '@/lib/api/response';
+import { getEmailDeliveryService } from '@/lib/services/emailDeliveryService';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/admin/email-suppressions
+ * Addresses on the suppression list (newest first).
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const [, authError] = requireAdmin(request);
+    if (authError) return authError;
+
+    const suppressions = await getEmailDeliveryService().listSuppressions();
+    return apiOk({ suppressions });
+  } catch (error) {
+    console.error('Error fetching email suppressions:', error);
+    return apiError('Failed to fetch email suppressions');
+  }
+}
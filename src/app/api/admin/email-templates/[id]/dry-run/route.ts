@@ -121,7 +121,8 @@ export async function GET(
         event.eventId,
         event.eventRecordId,
         event,
-        template.audience
+        template.audience,
+        template.emailCategory
       );
 
       for (const recipient of recipients) {
@@ -10,6 +10,10 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getAirtableService } from '@/lib/services/airtableService';
 import { verifyAdminSession } from '@/lib/auth/verifyAdminSession';
 import { UpdateEmailTemplateInput } from '@/lib/types/email-automation';
+import { validateTemplateVariants } from '@/lib/utils/emailVariants';
+import { renderEmailBlocks, validateEmailBlocks } from '@/lib/utils/emailBlocks';
+import { validateTimelineTemplateVariables } from '@/lib/services/emailAutomationService';
+import { PARENT_EMAIL_CATEGORIES, isParentEmailCategory } from '@/lib/utils/emailPreferences';
 
 export const dynamic = 'force-dynamic';
 
@@ -62,6 +66,8 @@ export async function GET(
  * - subject: string
  * - bodyHtml: string
  * - active: boolean
+ * - variants: EmailTemplateVariant[] - A/B alternatives to subject/bodyHtml
+ * - bodyBlocks: EmailBlock[] - block builder source; bodyHtml is rendered from it (empty = raw HTML)
  */
 export async function PUT(
   request: NextRequest,
@@ -109,6 +115,37 @@ export async function PUT(
       );
     }
 
+    // Validate emailCategory if provided
+    if (body.emailCategory !== undefined && !isParentEmailCategory(body.emailCategory)) {
+      return NextResponse.json(
+        { success: false, error: `emailCategory must be one of ${PARENT_EMAIL_CATEGORIES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (body.variants !== undefined) {
+      const variantsError = validateTemplateVariants(body.variants);
+      if (variantsError) {
+        return NextResponse.json({ success: false, error: variantsError }, { status: 400 });
+      }
+    }
+
+    if (body.bodyBlocks !== undefined) {
+      const blocksError = validateEmailBlocks(body.bodyBlocks);
+      if (blocksError) {
+        return NextResponse.json({ success: false, error: blocksError }, { status: 400 });
+      }
+      // Stored HTML always comes from the blocks, never from the client's render
+      if (body.bodyBlocks.length > 0) body.bodyHtml = renderEmailBlocks(body.bodyBlocks);
+    }
+
+    if (body.templateType !== 'trigger') {
+      const variablesError = validateTimelineTemplateVariables(body);
+      if (variablesError) {
+        return NextResponse.json({ success: false, error: variablesError }, { status: 400 });
+      }
+    }
+
     const updateInput: UpdateEmailTemplateInput = {};
     if (body.name !== undefined) updateInput.name = body.name;
     if (body.audience !== undefined) updateInput.audience = body.audience;
@@ -121,6 +158,9 @@ export async function PUT(
     if (body.is_plus !== undefined) updateInput.is_plus = body.is_plus;
     if (body.is_schulsong !== undefined) updateInput.is_schulsong = body.is_schulsong;
     if (body.only_under_100 !== undefined) updateInput.only_under_100 = body.only_under_100;
+    if (body.variants !== undefined) updateInput.variants = body.variants;
+    if (body.bodyBlocks !== undefined) updateInput.bodyBlocks = body.bodyBlocks;
+    if (body.emailCategory !== undefined) updateInput.emailCategory = body.emailCategory;
 
     // Normalize: exactly one event-type boolean true when tier fields are present
     if (updateInput.is_plus !== undefined || updateInput.is_minimusikertag !== undefined || updateInput.is_schulsong !== undefined) {
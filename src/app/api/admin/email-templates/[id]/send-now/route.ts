@@ -152,7 +152,8 @@ export async function POST(
           event.event_id,
           event.id,
           thresholdMatch,
-          template.audience
+          template.audience,
+          template.emailCategory
         );
 
         const eventRecipients: PreviewEventRecipients = {
@@ -261,7 +262,8 @@ export async function POST(
         event.event_id,
         event.id,
         thresholdMatch,
-        template.audience
+        template.audience,
+        template.emailCategory
       );
 
       for (const recipient of recipients) {
@@ -9,6 +9,7 @@ import { sendTestEmail, getPreviewTemplateData, substituteTemplateVariables } fr
 import { getAirtableService } from '@/lib/services/airtableService';
 import { verifyAdminSession } from '@/lib/auth/verifyAdminSession';
 import { getCampaignEmailTemplate } from '@/lib/services/emailTemplateWrapper';
+import { getTemplateVariants } from '@/lib/utils/emailVariants';
 
 export const dynamic = 'force-dynamic';
 
@@ -19,6 +20,7 @@ export const dynamic = 'force-dynamic';
  * Body:
  * - email: string (required) - Email address to send test to
  * - eventId: string (optional) - Event record ID to use real event data instead of preview data
+ * - variant: string (optional) - A/B variant key to send (default: A)
  */
 export async function POST(
   request: NextRequest,
@@ -51,7 +53,12 @@ export async function POST(
     }
 
     // Send test email (optionally with real event data)
-    const result = await sendTestEmail(id, body.email, body.eventId);
+    const result = await sendTestEmail(
+      id,
+      body.email,
+      body.eventId,
+      typeof body.variant === 'string' ? body.variant : undefined
+    );
 
     if (!result.success) {
       return NextResponse.json(
@@ -81,8 +88,8 @@ export async function POST(
 }
 
 /**
- * GET /api/admin/email-templates/[id]/test
- * Preview a template with sample data (without sending)
+ * GET /api/admin/email-templates/[id]/test?variant=B
+ * Preview a template (or one of its A/B variants) with sample data (without sending)
  */
 export async function GET(
   request: NextRequest,
@@ -106,9 +113,12 @@ export async function GET(
     }
 
     // Generate preview with sample data
+    const variants = getTemplateVariants(template);
+    const variantKey = request.nextUrl.searchParams.get('variant');
+    const variant = variants.find((v) => v.key === variantKey) ?? variants[0];
     const previewData = getPreviewTemplateData();
-    const previewSubject = substituteTemplateVariables(template.subject, previewData);
-    const previewBodyRaw = substituteTemplateVariables(template.bodyHtml, previewData);
+    const previewSubject = substituteTemplateVariables(variant.subject, previewData);
+    const previewBodyRaw = substituteTemplateVariables(variant.bodyHtml, previewData);
     // Wrap preview body in branded template (WYSIWYG)
     const previewBody = getCampaignEmailTemplate(previewBodyRaw);
 
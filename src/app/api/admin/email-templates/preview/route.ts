@@ -0,0 +1,55 @@
+/**
+ * Email Template Live Preview API
+ *
+ * @route POST /api/admin/email-templates/preview - Render unsaved subject/body with preview data
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getPreviewTemplateData, substituteTemplateVariables } from '@/lib/services/emailAutomationService';
+import { verifyAdminSession } from '@/lib/auth/verifyAdminSession';
+import { getCampaignEmailTemplate } from '@/lib/services/emailTemplateWrapper';
+import { findUnknownVariables } from '@/lib/utils/emailBlocks';
+import { TEMPLATE_DATA_VARIABLES } from '@/lib/types/email-automation';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/admin/email-templates/preview
+ * Render what the editor currently shows, so admins see the result while
+ * they type. Nothing is saved.
+ *
+ * Body:
+ * - subject: string
+ * - bodyHtml: string
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const admin = verifyAdminSession(request);
+    if (!admin) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const subject = typeof body.subject === 'string' ? body.subject : '';
+    const bodyHtml = typeof body.bodyHtml === 'string' ? body.bodyHtml : '';
+
+    const previewData = getPreviewTemplateData();
+    const availableVariables = [...TEMPLATE_DATA_VARIABLES];
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        subject: substituteTemplateVariables(subject, previewData),
+        html: getCampaignEmailTemplate(substituteTemplateVariables(bodyHtml, previewData)),
+        availableVariables,
+        unknownVariables: findUnknownVariables(`${subject}\n${bodyHtml}`, availableVariables, { dateMath: true }),
+      },
+    });
+  } catch (error) {
+    console.error('Error rendering email template preview:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to render preview' },
+      { status: 500 }
+    );
+  }
+}
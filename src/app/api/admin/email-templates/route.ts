@@ -9,6 +9,10 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getAirtableService } from '@/lib/services/airtableService';
 import { verifyAdminSession } from '@/lib/auth/verifyAdminSession';
 import { CreateEmailTemplateInput, AudienceValue } from '@/lib/types/email-automation';
+import { validateTemplateVariants } from '@/lib/utils/emailVariants';
+import { renderEmailBlocks, validateEmailBlocks } from '@/lib/utils/emailBlocks';
+import { validateTimelineTemplateVariables } from '@/lib/services/emailAutomationService';
+import { PARENT_EMAIL_CATEGORIES, isParentEmailCategory } from '@/lib/utils/emailPreferences';
 
 export const dynamic = 'force-dynamic';
 
@@ -83,6 +87,8 @@ export async function GET(request: NextRequest) {
  * - subject: string (required)
  * - bodyHtml: string (required)
  * - active: boolean (optional, defaults to true)
+ * - variants: EmailTemplateVariant[] (optional) - A/B alternatives to subject/bodyHtml
+ * - bodyBlocks: EmailBlock[] (optional) - block builder source; bodyHtml is rendered from it
  */
 export async function POST(request: NextRequest) {
   try {
@@ -135,6 +141,37 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Validate emailCategory if provided
+    if (body.emailCategory !== undefined && !isParentEmailCategory(body.emailCategory)) {
+      return NextResponse.json(
+        { success: false, error: `emailCategory must be one of ${PARENT_EMAIL_CATEGORIES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (body.variants !== undefined) {
+      const variantsError = validateTemplateVariants(body.variants);
+      if (variantsError) {
+        return NextResponse.json({ success: false, error: variantsError }, { status: 400 });
+      }
+    }
+
+    if (body.bodyBlocks !== undefined) {
+      const blocksError = validateEmailBlocks(body.bodyBlocks);
+      if (blocksError) {
+        return NextResponse.json({ success: false, error: blocksError }, { status: 400 });
+      }
+      // Stored HTML always comes from the blocks, never from the client's render
+      if (body.bodyBlocks.length > 0) body.bodyHtml = renderEmailBlocks(body.bodyBlocks);
+    }
+
+    if (body.templateType !== 'trigger') {
+      const variablesError = validateTimelineTemplateVariables(body);
+      if (variablesError) {
+        return NextResponse.json({ success: false, error: variablesError }, { status: 400 });
+      }
+    }
+
     const templateInput: CreateEmailTemplateInput = {
       name: body.name,
       audience: body.audience,
@@ -148,6 +185,9 @@ export async function POST(request: NextRequest) {
       is_plus: body.is_plus,
       is_schulsong: body.is_schulsong,
       only_under_100: body.only_under_100,
+      variants: body.variants,
+      bodyBlocks: body.bodyBlocks,
+      emailCategory: body.emailCategory,
     };
 
     // Normalize: exactly one event-type boolean true (defensive)
@@ -3,6 +3,8 @@ import { verifyAdminSession } from '@/lib/auth/verifyAdminSession';
 import { getTeacherService, AlbumTrackUpdate } from '@/lib/services/teacherService';
 import { getAirtableService } from '@/lib/services/airtableService';
 import { getActivityService } from '@/lib/services/activityService';
+import { getJobService } from '@/lib/services/jobService';
+import type { AudioTagJobPayload } from '@/lib/services/jobHandlers';
 
 export const dynamic = 'force-dynamic';
 
@@ -56,6 +58,17 @@ export async function POST(
       actorType: 'admin',
     });
 
+    // Re-tag the released finals with the confirmed track numbers
+    try {
+      await getJobService().enqueue<AudioTagJobPayload>(
+        'audio.tag',
+        { eventId: resolvedEventId },
+        { label: `ID3 tagging – ${eventRecord.school_name || resolvedEventId}`, createdBy: session.email }
+      );
+    } catch (e) {
+      console.error('Error queueing ID3 tagging:', e);
+    }
+
     return NextResponse.json({ success: true, finalizedAt });
   } catch (error) {
     console.error('Error admin-finalizing tracklist:', error);
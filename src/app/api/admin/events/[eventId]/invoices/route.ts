@@ -0,0 +1,60 @@
+/**
+ * GET  /api/admin/events/[eventId]/invoices — invoices and Stornos with download links
+ * POST /api/admin/events/[eventId]/invoices — draft invoice from the saved Deal Builder config
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAdminSession } from '@/lib/auth/verifyAdminSession';
+import { getInvoiceService } from '@/lib/services/invoiceService';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { eventId: string } }
+) {
+  try {
+    const admin = verifyAdminSession(request);
+    if (!admin) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const eventId = decodeURIComponent(params.eventId);
+    const invoiceService = getInvoiceService();
+    const invoices = await invoiceService.listInvoicesForEvent(eventId);
+    const data = await Promise.all(
+      invoices.map(async (invoice) => ({ ...invoice, downloadUrl: await invoiceService.getDownloadUrl(invoice) }))
+    );
+
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    console.error('Error fetching event invoices:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to fetch invoices' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { eventId: string } }
+) {
+  try {
+    const admin = verifyAdminSession(request);
+    if (!admin) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const eventId = decodeURIComponent(params.eventId);
+    const invoice = await getInvoiceService().createDraftForEvent(eventId, admin.email);
+
+    return NextResponse.json({ success: true, data: { ...invoice, downloadUrl: null } });
+  } catch (error) {
+    console.error('Error creating invoice draft:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to create invoice' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * GET  /api/admin/events/[eventId]/offers — offer versions with download links
+ * POST /api/admin/events/[eventId]/offers — generate a new version from the saved Deal Builder config
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAdminSession } from '@/lib/auth/verifyAdminSession';
+import { getAirtableService } from '@/lib/services/airtableService';
+import { getOfferService } from '@/lib/services/offerService';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { eventId: string } }
+) {
+  try {
+    const admin = verifyAdminSession(request);
+    if (!admin) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const eventId = decodeURIComponent(params.eventId);
+    const eventRecordId = await getAirtableService().getEventsRecordIdByBookingId(eventId);
+    if (!eventRecordId) {
+      return NextResponse.json({ success: false, error: 'Event not found' }, { status: 404 });
+    }
+
+    const offerService = getOfferService();
+    const offers = await offerService.listOffers({ eventRecordId });
+    const data = await Promise.all(
+      offers.map(async (offer) => ({ ...offer, downloadUrl: await offerService.getDownloadUrl(offer) }))
+    );
+
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    console.error('Error fetching event offers:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to fetch offers' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { eventId: string } }
+) {
+  try {
+    const admin = verifyAdminSession(request);
+    if (!admin) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const eventId = decodeURIComponent(params.eventId);
+    const offerService = getOfferService();
+    const offer = await offerService.createOfferForEvent(eventId, admin.email);
+
+    return NextResponse.json({
+      success: true,
+      data: { ...offer, downloadUrl: await offerService.getDownloadUrl(offer) },
+    });
+  } catch (error) {
+    console.error('Error creating event offer:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to create offer' },
+      { status: 500 }
+    );
+  }
+}
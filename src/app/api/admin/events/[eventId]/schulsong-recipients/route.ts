@@ -54,7 +54,7 @@ export async function GET(
 
     const [teachers, parents] = await Promise.all([
       getTeacherRecipientsForEvent(event.event_id, event.id, thresholdMatch),
-      getParentRecipientsForEvent(event.event_id, event.id, thresholdMatch),
+      getParentRecipientsForEvent(event.event_id, event.id, thresholdMatch, 'schulsong_release'),
     ]);
 
     return NextResponse.json({
@@ -0,0 +1,53 @@
+/**
+ * POST /api/admin/invoices/[invoiceId]/cancel
+ * Cancels an issued invoice with a Stornorechnung. Body: { reason }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAdminSession } from '@/lib/auth/verifyAdminSession';
+import { getInvoiceService } from '@/lib/services/invoiceService';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ invoiceId: string }> }
+) {
+  try {
+    const admin = verifyAdminSession(request);
+    if (!admin) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { invoiceId } = await params;
+    const { reason } = (await request.json()) as { reason?: string };
+    if (!reason?.trim()) {
+      return NextResponse.json({ success: false, error: 'A cancellation reason is required' }, { status: 400 });
+    }
+
+    const invoiceService = getInvoiceService();
+    const invoice = await invoiceService.getInvoice(invoiceId);
+    if (!invoice) {
+      return NextResponse.json({ success: false, error: 'Invoice not found' }, { status: 404 });
+    }
+    if (invoice.invoiceType !== 'invoice' || invoice.status === 'draft' || invoice.status === 'cancelled') {
+      return NextResponse.json(
+        { success: false, error: 'Only issued, uncancelled invoices can be cancelled' },
+        { status: 409 }
+      );
+    }
+
+    const storno = await invoiceService.cancelInvoice(invoice, reason.trim(), admin.email);
+
+    return NextResponse.json({
+      success: true,
+      data: { ...storno, downloadUrl: await invoiceService.getDownloadUrl(storno) },
+    });
+  } catch (error) {
+    console.error('Error cancelling invoice:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to cancel invoice' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * POST /api/admin/invoices/[invoiceId]/issue
+ * Assigns the invoice number and stores the PDF. Body: { email? } — when
+ * given, the invoice is emailed right away.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAdminSession } from '@/lib/auth/verifyAdminSession';
+import { getInvoiceService } from '@/lib/services/invoiceService';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ invoiceId: string }> }
+) {
+  try {
+    const admin = verifyAdminSession(request);
+    if (!admin) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { invoiceId } = await params;
+    const { email } = (await request.json().catch(() => ({}))) as { email?: string };
+    if (email && !email.includes('@')) {
+      return NextResponse.json({ success: false, error: 'A valid email address is required' }, { status: 400 });
+    }
+
+    const invoiceService = getInvoiceService();
+    const invoice = await invoiceService.getInvoice(invoiceId);
+    if (!invoice) {
+      return NextResponse.json({ success: false, error: 'Invoice not found' }, { status: 404 });
+    }
+    if (invoice.status !== 'draft') {
+      return NextResponse.json({ success: false, error: 'Invoice has already been issued' }, { status: 409 });
+    }
+
+    const issued = await invoiceService.issueInvoice(invoice, email?.trim() || undefined);
+
+    return NextResponse.json({
+      success: true,
+      data: { ...issued, downloadUrl: await invoiceService.getDownloadUrl(issued) },
+    });
+  } catch (error) {
+    console.error('Error issuing invoice:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to issue invoice' },
+      { status: 500 }
+    );
+  }
+}
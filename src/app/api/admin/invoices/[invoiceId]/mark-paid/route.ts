@@ -0,0 +1,44 @@
+/**
+ * POST /api/admin/invoices/[invoiceId]/mark-paid
+ * Records the payment of an open invoice. Body: { paidAt? } (YYYY-MM-DD, defaults to today)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAdminSession } from '@/lib/auth/verifyAdminSession';
+import { getInvoiceService } from '@/lib/services/invoiceService';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ invoiceId: string }> }
+) {
+  try {
+    const admin = verifyAdminSession(request);
+    if (!admin) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { invoiceId } = await params;
+    const { paidAt } = (await request.json().catch(() => ({}))) as { paidAt?: string };
+    if (paidAt && !/^\d{4}-\d{2}-\d{2}$/.test(paidAt)) {
+      return NextResponse.json({ success: false, error: 'paidAt must be YYYY-MM-DD' }, { status: 400 });
+    }
+
+    const invoiceService = getInvoiceService();
+    const invoice = await invoiceService.getInvoice(invoiceId);
+    if (!invoice) {
+      return NextResponse.json({ success: false, error: 'Invoice not found' }, { status: 404 });
+    }
+
+    const paid = await invoiceService.markPaid(invoice, paidAt);
+
+    return NextResponse.json({ success: true, data: { status: paid.status, paidAt: paid.paidAt } });
+  } catch (error) {
+    console.error('Error marking invoice as paid:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to mark invoice as paid' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * DELETE /api/admin/invoices/[invoiceId]
+ * Deletes a draft. Issued invoices are cancelled instead (see ./cancel).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAdminSession } from '@/lib/auth/verifyAdminSession';
+import { getInvoiceService } from '@/lib/services/invoiceService';
+
+export const dynamic = 'force-dynamic';
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ invoiceId: string }> }
+) {
+  try {
+    const admin = verifyAdminSession(request);
+    if (!admin) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { invoiceId } = await params;
+    const invoiceService = getInvoiceService();
+    const invoice = await invoiceService.getInvoice(invoiceId);
+    if (!invoice) {
+      return NextResponse.json({ success: false, error: 'Invoice not found' }, { status: 404 });
+    }
+    if (invoice.status !== 'draft') {
+      return NextResponse.json(
+        { success: false, error: 'Only drafts can be deleted; cancel issued invoices instead' },
+        { status: 409 }
+      );
+    }
+
+    await invoiceService.deleteDraft(invoice);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting invoice draft:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to delete invoice' },
+      { status: 500 }
+    );
+  }
+}
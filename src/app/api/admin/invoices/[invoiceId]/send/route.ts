@@ -0,0 +1,47 @@
+/**
+ * POST /api/admin/invoices/[invoiceId]/send
+ * Emails an issued invoice or Storno as a PDF attachment. Body: { email }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAdminSession } from '@/lib/auth/verifyAdminSession';
+import { getInvoiceService } from '@/lib/services/invoiceService';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ invoiceId: string }> }
+) {
+  try {
+    const admin = verifyAdminSession(request);
+    if (!admin) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { invoiceId } = await params;
+    const { email } = (await request.json()) as { email?: string };
+    if (!email || !email.includes('@')) {
+      return NextResponse.json({ success: false, error: 'A valid email address is required' }, { status: 400 });
+    }
+
+    const invoiceService = getInvoiceService();
+    const invoice = await invoiceService.getInvoice(invoiceId);
+    if (!invoice) {
+      return NextResponse.json({ success: false, error: 'Invoice not found' }, { status: 404 });
+    }
+    if (invoice.status === 'draft') {
+      return NextResponse.json({ success: false, error: 'Issue the invoice before sending it' }, { status: 409 });
+    }
+
+    const sent = await invoiceService.sendInvoice(invoice, email.trim());
+
+    return NextResponse.json({ success: true, data: { sentAt: sent.sentAt, sentTo: sent.sentTo } });
+  } catch (error) {
+    console.error('Error sending invoice:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to send invoice' },
+      { status: 500 }
+    );
+  }
+}
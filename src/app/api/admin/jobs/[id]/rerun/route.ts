@@ -0,0 +1,32 @@
+import { NextRequest } from 'next/server';
+import { getJobService } from '@/lib/services/jobService';
+import { requireAdmin } from '@/lib/auth/verifyAdminSession';
+import { apiOk, apiError } from '@/lib/api/response';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/admin/jobs/[id]/rerun
+ * Queue a failed job again. Steps that already succeeded are kept,
+ * only the failed ones run again.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const [admin, authError] = requireAdmin(request);
+    if (authError) return authError;
+
+    const { id } = await params;
+    const job = await getJobService().rerunJob(id, admin.email);
+    if (!job) {
+      return apiError('Job not found', 404);
+    }
+
+    return apiOk({ job }, 'Job queued');
+  } catch (error) {
+    console.error('Error re-running job:', error);
+    return apiError('Failed to re-run job');
+  }
+}
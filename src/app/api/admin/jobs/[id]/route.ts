@@ -0,0 +1,32 @@
+import { NextRequest } from 'next/server';
+import { getJobService } from '@/lib/services/jobService';
+import { requireAdmin } from '@/lib/auth/verifyAdminSession';
+import { apiOk, apiError } from '@/lib/api/response';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/admin/jobs/[id]
+ * Job status, steps, logs and - once finished - the result.
+ * Polled by the admin UI while a job runs.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const [, authError] = requireAdmin(request);
+    if (authError) return authError;
+
+    const { id } = await params;
+    const job = await getJobService().getJob(id);
+    if (!job) {
+      return apiError('Job not found', 404);
+    }
+
+    return apiOk({ job });
+  } catch (error) {
+    console.error('Error fetching job:', error);
+    return apiError('Failed to fetch job');
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest } from 'next/server';
+import { getJobService } from '@/lib/services/jobService';
+import type { JobStatus } from '@/lib/types/jobs';
+import { requireAdmin } from '@/lib/auth/verifyAdminSession';
+import { apiOk, apiError } from '@/lib/api/response';
+
+export const dynamic = 'force-dynamic';
+
+const VALID_STATUSES: JobStatus[] = ['queued', 'running', 'succeeded', 'failed'];
+
+/**
+ * GET /api/admin/jobs
+ * List background jobs, newest first
+ *
+ * Query params:
+ * - status: comma-separated JobStatus list (default: all)
+ * - limit: max jobs (default: 100)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const [, authError] = requireAdmin(request);
+    if (authError) return authError;
+
+    const searchParams = request.nextUrl.searchParams;
+    const statuses = (searchParams.get('status') || '')
+      .split(',')
+      .filter((s): s is JobStatus => VALID_STATUSES.includes(s as JobStatus));
+    const limit = Math.min(parseInt(searchParams.get('limit') || '100', 10) || 100, 500);
+
+    const jobs = await getJobService().listJobs({ statuses, limit });
+    return apiOk({ jobs });
+  } catch (error) {
+    console.error('Error fetching jobs:', error);
+    return apiError('Failed to fetch jobs');
+  }
+}
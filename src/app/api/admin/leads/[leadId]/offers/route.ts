@@ -0,0 +1,70 @@
+/**
+ * GET  /api/admin/leads/[leadId]/offers — offer versions with download links
+ * POST /api/admin/leads/[leadId]/offers — generate a new version from a Deal Builder config
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAdminSession } from '@/lib/auth/verifyAdminSession';
+import { getOfferService } from '@/lib/services/offerService';
+import type { DealConfig, DealType } from '@/lib/types/airtable';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ leadId: string }> }
+) {
+  try {
+    const admin = verifyAdminSession(request);
+    if (!admin) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { leadId } = await params;
+    const offerService = getOfferService();
+    const offers = await offerService.listOffers({ leadId });
+    const data = await Promise.all(
+      offers.map(async (offer) => ({ ...offer, downloadUrl: await offerService.getDownloadUrl(offer) }))
+    );
+
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    console.error('Error fetching lead offers:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to fetch offers' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ leadId: string }> }
+) {
+  try {
+    const admin = verifyAdminSession(request);
+    if (!admin) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { leadId } = await params;
+    const body = (await request.json()) as { dealConfig?: DealConfig; dealType?: DealType };
+    if (!body.dealConfig) {
+      return NextResponse.json({ success: false, error: 'dealConfig is required' }, { status: 400 });
+    }
+
+    const offerService = getOfferService();
+    const offer = await offerService.createOfferForLead(leadId, body.dealConfig, admin.email, body.dealType);
+
+    return NextResponse.json({
+      success: true,
+      data: { ...offer, downloadUrl: await offerService.getDownloadUrl(offer) },
+    });
+  } catch (error) {
+    console.error('Error creating lead offer:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to create offer' },
+      { status: 500 }
+    );
+  }
+}
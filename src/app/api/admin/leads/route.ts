@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { verifyAdminSession } from '@/lib/auth/verifyAdminSession';
 import { getAirtableService } from '@/lib/services/airtableService';
+import { buildLeadFunnelReport } from '@/lib/utils/leadPipeline';
 import type { Lead } from '@/lib/types/airtable';
 
 export const dynamic = 'force-dynamic';
@@ -47,6 +48,7 @@ export async function GET(request: NextRequest) {
         leads: enrichedLeads,
         staffList,
         regionList,
+        funnel: buildLeadFunnelReport(leads, regionList),
       },
     });
   } catch (error) {
@@ -0,0 +1,49 @@
+/**
+ * GET /api/admin/licensing-report?quarter=2026-Q3[&format=csv]
+ * Quarterly music licensing (GEMA) report. Defaults to the last completed
+ * quarter; format=csv downloads one line per event and album track.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAdminSession } from '@/lib/auth/verifyAdminSession';
+import { getRepertoireService } from '@/lib/services/repertoireService';
+import { getPreviousQuarter, getQuarterRange, toLicensingCsv } from '@/lib/utils/licensingReport';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const admin = verifyAdminSession(request);
+    if (!admin) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const quarter = searchParams.get('quarter') || getPreviousQuarter();
+    if (!getQuarterRange(quarter)) {
+      return NextResponse.json(
+        { success: false, error: 'quarter must look like 2026-Q3' },
+        { status: 400 }
+      );
+    }
+
+    const report = await getRepertoireService().buildQuarterlyReport(quarter);
+
+    if (searchParams.get('format') === 'csv') {
+      return new NextResponse(toLicensingCsv(report.rows), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="gema-report-${quarter}.csv"`,
+        },
+      });
+    }
+
+    return NextResponse.json({ success: true, data: report });
+  } catch (error) {
+    console.error('Error building licensing report:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to build licensing report' },
+      { status: 500 }
+    );
+  }
+}
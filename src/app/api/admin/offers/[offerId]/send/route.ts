@@ -0,0 +1,44 @@
+/**
+ * POST /api/admin/offers/[offerId]/send
+ * Emails the offer PDF as an attachment. Body: { email }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAdminSession } from '@/lib/auth/verifyAdminSession';
+import { getOfferService } from '@/lib/services/offerService';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ offerId: string }> }
+) {
+  try {
+    const admin = verifyAdminSession(request);
+    if (!admin) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { offerId } = await params;
+    const { email } = (await request.json()) as { email?: string };
+    if (!email || !email.includes('@')) {
+      return NextResponse.json({ success: false, error: 'A valid email address is required' }, { status: 400 });
+    }
+
+    const offerService = getOfferService();
+    const offer = await offerService.getOffer(offerId);
+    if (!offer) {
+      return NextResponse.json({ success: false, error: 'Offer not found' }, { status: 404 });
+    }
+
+    await offerService.sendOffer(offer, email.trim());
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error sending offer:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to send offer' },
+      { status: 500 }
+    );
+  }
+}
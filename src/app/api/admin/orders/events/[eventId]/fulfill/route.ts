@@ -1,5 +1,9 @@
 import { NextRequest } from 'next/server';
-import { getFulfillmentService } from '@/lib/services/fulfillmentService';
+import { getJobService } from '@/lib/services/jobService';
+import {
+  getWelleFulfillmentDedupKey,
+  type WelleFulfillmentJobPayload,
+} from '@/lib/services/jobHandlers';
 import { requireAdmin } from '@/lib/auth/verifyAdminSession';
 import { apiOk, apiError } from '@/lib/api/response';
 
@@ -10,16 +14,19 @@ type Welle = typeof VALID_WELLEN[number];
 
 /**
  * POST /api/admin/orders/events/[eventId]/fulfill
- * Triggers Shopify fulfillment orchestration for a wave.
+ * Queues Shopify fulfillment orchestration for a wave as a
+ * 'fulfillment.welle' background job (one step per order).
  *
  * Body: { "welle": "Welle 1" | "Welle 2" }
+ * Returns: { jobId } - poll /api/admin/jobs/[id] for the WelleFulfillmentSummary.
+ * While a fulfillment job for the same wave is active, its id is returned.
  */
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ eventId: string }> }
 ) {
   try {
-    const [, authError] = requireAdmin(request);
+    const [admin, authError] = requireAdmin(request);
     if (authError) return authError;
 
     const { eventId } = await params;
@@ -33,10 +40,20 @@ export async function POST(
       );
     }
 
-    const fulfillmentService = getFulfillmentService();
-    const summary = await fulfillmentService.fulfillWelle(eventId, welle as Welle);
+    const payload: WelleFulfillmentJobPayload = { eventRecordId: eventId, welle: welle as Welle };
+    const job = await getJobService().enqueue<WelleFulfillmentJobPayload>(
+      'fulfillment.welle',
+      payload,
+      {
+        label: `${welle} fulfillment – ${eventId}`,
+        createdBy: admin.email,
+        // Fulfilled orders are skipped on re-run, so staff retry from the UI
+        maxAttempts: 1,
+        dedupKey: getWelleFulfillmentDedupKey(payload),
+      },
+    );
 
-    return apiOk(summary);
+    return apiOk({ jobId: job.id });
   } catch (error) {
     console.error('Error fulfilling wave:', error);
     const message = error instanceof Error ? error.message : 'Failed to fulfill wave';
@@ -0,0 +1,31 @@
+import { NextRequest } from 'next/server';
+import { requireAdmin } from '@/lib/auth/verifyAdminSession';
+import { apiOk, apiError } from '@/lib/api/response';
+import { getOutboxTransport } from '@/lib/services/emailTransport';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/admin/outbox/[id]
+ * A single outbox message including its rendered HTML.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const [, authError] = requireAdmin(request);
+    if (authError) return authError;
+
+    const { id } = await params;
+    const message = await getOutboxTransport().get(id);
+    if (!message) {
+      return apiError('Message not found', 404);
+    }
+
+    return apiOk({ message });
+  } catch (error) {
+    console.error('Error reading outbox message:', error);
+    return apiError('Failed to read outbox message');
+  }
+}
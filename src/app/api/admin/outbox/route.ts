@@ -0,0 +1,48 @@
+import { NextRequest } from 'next/server';
+import { requireAdmin } from '@/lib/auth/verifyAdminSession';
+import { apiOk, apiError } from '@/lib/api/response';
+import { getOutboxTransport, isOutboxMode } from '@/lib/services/emailTransport';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/admin/outbox
+ * Messages written to the local outbox instead of being sent, newest first.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const [, authError] = requireAdmin(request);
+    if (authError) return authError;
+
+    const messages = await getOutboxTransport().list();
+    return apiOk({
+      messages,
+      outboxMode: isOutboxMode(),
+      providers: {
+        resend: !!process.env.RESEND_API_KEY,
+        brevo: !!process.env.BREVO_API_KEY,
+      },
+    });
+  } catch (error) {
+    console.error('Error listing outbox:', error);
+    return apiError('Failed to list outbox');
+  }
+}
+
+/**
+ * DELETE /api/admin/outbox
+ * Remove every message from the local outbox.
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const [admin, authError] = requireAdmin(request);
+    if (authError) return authError;
+
+    const removed = await getOutboxTransport().clear();
+    console.log(`[outbox] ${removed} message(s) cleared by ${admin.email}`);
+    return apiOk({ removed }, 'Outbox cleared.');
+  } catch (error) {
+    console.error('Error clearing outbox:', error);
+    return apiError('Failed to clear outbox');
+  }
+}
@@ -3,8 +3,10 @@
  *
  * POST /api/admin/printables/generate
  *
- * Generates all printables (flyers, buttons, t-shirts, hoodies, minicards, CD jackets)
- * for an event, using custom text/QR positions from the editor.
+ * Queues generation of all printables (flyers, buttons, t-shirts, hoodies,
+ * minicards, CD jackets) for an event, using custom text/QR positions from the
+ * editor. Pre-flight checks run synchronously; the PDFs are rendered by a
+ * 'printables.generate' background job whose ID is returned (202).
  *
  * Phase 4: Accepts multiple text elements with individual styling.
  * All positions are in CSS pixels and converted to PDF coordinates using canvasScale.
@@ -12,9 +14,10 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { verifyAdminSession } from '@/lib/auth/verifyAdminSession';
-import { getPrintableService } from '@/lib/services/printableService';
 import { getAirtableService } from '@/lib/services/airtableService';
-import { getR2Service, PrintableType, TemplateType } from '@/lib/services/r2Service';
+import { getR2Service, TemplateType } from '@/lib/services/r2Service';
+import { getJobService } from '@/lib/services/jobService';
+import type { PrintablesJobPayload } from '@/lib/services/jobHandlers';
 import { generateEventId } from '@/lib/utils/eventIdentifiers';
 import {
   PrintableItemType,
@@ -90,7 +93,6 @@ export async function POST(request: NextRequest) {
     }
 
     // Get services
-    const printableService = getPrintableService();
     const airtableService = getAirtableService();
     const r2Service = getR2Service();
 
@@ -191,10 +193,6 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    // Logo fetching - currently not implemented
-    // TODO: Add einrichtung lookup via SchoolBooking when logo embedding is needed for minicard/cd-jacket
-    const logoBuffer: Buffer | undefined = undefined;
-
     // Generate QR code URL if access_code is available
     const qrCodeUrl = accessCode
       ? `https://minimusiker.app/e/${accessCode}`
@@ -270,106 +268,36 @@ export async function POST(request: NextRequest) {
       });
     });
 
-    // Results tracking
-    const succeeded: { type: string; key?: string }[] = [];
-    const failed: { type: string; error?: string }[] = [];
-    const skipped: { type: string; reason: string }[] = [];
-
-    // Handle skipped items - upload placeholder files
-    for (const item of skippedItems) {
-      const r2Type = itemTypeToR2Type(item.type);
-      const result = await r2Service.uploadSkippedPlaceholder(eventId, r2Type);
-      if (result.success) {
-        skipped.push({ type: item.type, reason: 'User skipped' });
-      } else {
-        // If we can't upload the placeholder, treat it as a failure
-        failed.push({ type: item.type, error: result.error || 'Failed to create skip placeholder' });
-      }
-    }
-
-    // Generate confirmed items
-    if (itemConfigs.length > 0) {
-      const result = await printableService.generateAllPrintablesWithConfigs(
+    // Generation runs as a background job: one step per item, persisted as
+    // it goes, so a big school no longer hits the function timeout halfway.
+    // The client polls /api/admin/jobs/[id] for the result.
+    const job = await getJobService().enqueue<PrintablesJobPayload>(
+      'printables.generate',
+      {
         eventId,
         schoolName,
-        eventDate,
+        accessCode: accessCode || null,
+        qrCodeUrl,
         itemConfigs,
-        logoBuffer,
-        qrCodeUrl
-      );
-
-      // Process generation results
-      for (const r of result.results) {
-        if (r.success) {
-          succeeded.push({ type: r.type, key: r.key });
-          // If this item was previously skipped, delete the placeholder
-          await r2Service.deleteSkippedPlaceholder(eventId, r.type as PrintableType);
-        } else {
-          // Check if this is a back item that failed due to no QR code
-          const backTypes = ['flyer1-back', 'flyer2-back', 'flyer3-back'];
-          if (!qrCodeUrl && backTypes.includes(r.type) && r.error?.includes('No QR code')) {
-            skipped.push({ type: r.type, reason: 'No QR code available' });
-          } else {
-            failed.push({ type: r.type, error: r.error || 'Unknown error' });
-          }
-        }
+        skippedTypes: skippedItems.map(item => item.type),
+      },
+      {
+        label: `Printables – ${schoolName}`,
+        createdBy: session.email,
+        // A failed item is reported to the user, who re-runs from the modal
+        maxAttempts: 1,
       }
-    }
-
-    // Determine success status
-    const anyGenerated = succeeded.length > 0;
-    const allSkipped = succeeded.length === 0 && failed.length === 0 && skipped.length > 0;
-    const allSucceeded = anyGenerated && failed.length === 0;
-    const partialSuccess = anyGenerated && failed.length > 0;
-
-    // Log generation status
-    console.log(`[printables/generate] Generated ${succeeded.length} PDFs, skipped ${skipped.length}, failed ${failed.length} for event ${eventId}`);
-
-    // Always create audio folder structure when generation runs
-    let audioFolderCreated = false;
-    const folderResult = await r2Service.createAudioFolderStructure(eventId);
-    audioFolderCreated = folderResult.success;
-    if (!folderResult.success) {
-      console.warn(`[printables/generate] Failed to create audio folder: ${folderResult.error}`);
-    }
-
-    // Sign download URLs for succeeded items so the client can offer
-    // direct download without an extra round-trip per item. URLs are valid
-    // for 1 hour; the client treats them as ephemeral.
-    const succeededWithUrls = await Promise.all(
-      succeeded.map(async (r) => {
-        let url: string | undefined;
-        if (r.key) {
-          try {
-            const filename = `${eventId}-${r.type}.pdf`;
-            url = await r2Service.generateSignedUrl(r.key, 3600, filename);
-          } catch (err) {
-            console.warn(`[printables/generate] Failed to sign URL for ${r.type}:`, err);
-          }
-        }
-        return { type: r.type, key: r.key, url };
-      })
     );
 
-    // Return improved response structure
+    console.log(`[printables/generate] Queued job ${job.id}: ${itemConfigs.length} item(s), ${skippedItems.length} skipped for event ${eventId}`);
+
     return NextResponse.json({
-      success: allSucceeded || allSkipped,
-      partialSuccess,
-      allSkipped,
+      success: true,
+      jobId: job.id,
       eventId,
       accessCode: accessCode || null,
       qrCodeIncluded: !!qrCodeUrl,
-      audioFolderCreated,
-      results: {
-        succeeded: succeededWithUrls,
-        failed: failed.map(r => ({
-          type: r.type,
-          error: r.error || 'Unknown error',
-        })),
-        skipped,
-      },
-      errors: [],
-    });
+    }, { status: 202 });
 
   } catch (error) {
     console.error('Error generating printables:', error);
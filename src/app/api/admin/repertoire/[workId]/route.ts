@@ -0,0 +1,39 @@
+/**
+ * PATCH /api/admin/repertoire/[workId]
+ * Update a work in the Repertoire catalogue. Only the given fields change.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAdminSession } from '@/lib/auth/verifyAdminSession';
+import { getRepertoireService } from '@/lib/services/repertoireService';
+import { parseRepertoireWorkInput } from '@/lib/utils/repertoireMatch';
+
+export const dynamic = 'force-dynamic';
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ workId: string }> }
+) {
+  try {
+    const admin = verifyAdminSession(request);
+    if (!admin) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { workId } = await params;
+    const input = parseRepertoireWorkInput(await request.json());
+    if (input.title === '') {
+      return NextResponse.json({ success: false, error: 'Title cannot be empty' }, { status: 400 });
+    }
+
+    const work = await getRepertoireService().updateWork(workId, input);
+
+    return NextResponse.json({ success: true, data: { work } });
+  } catch (error) {
+    console.error('Error updating repertoire work:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to update work' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * GET  /api/admin/repertoire — the Repertoire catalogue
+ * POST /api/admin/repertoire — add a work
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAdminSession } from '@/lib/auth/verifyAdminSession';
+import { getRepertoireService } from '@/lib/services/repertoireService';
+import { parseRepertoireWorkInput } from '@/lib/utils/repertoireMatch';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const admin = verifyAdminSession(request);
+    if (!admin) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const works = await getRepertoireService().listWorks();
+
+    return NextResponse.json({ success: true, data: { works } });
+  } catch (error) {
+    console.error('Error fetching repertoire:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to fetch repertoire' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const admin = verifyAdminSession(request);
+    if (!admin) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const input = parseRepertoireWorkInput(await request.json());
+    if (!input.title) {
+      return NextResponse.json({ success: false, error: 'Title is required' }, { status: 400 });
+    }
+
+    const work = await getRepertoireService().createWork({ ...input, title: input.title });
+
+    return NextResponse.json({ success: true, data: { work } });
+  } catch (error) {
+    console.error('Error creating repertoire work:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to create work' },
+      { status: 500 }
+    );
+  }
+}
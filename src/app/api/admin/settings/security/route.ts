@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiResponse } from '@/lib/types';
+import { verifyAdminSession } from '@/lib/auth/verifyAdminSession';
+import { getStaffCredentialService } from '@/lib/services/staffCredentialService';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/admin/settings/security
+ * Two-factor status of the logged-in admin
+ */
+export async function GET(request: NextRequest) {
+  const admin = verifyAdminSession(request);
+  if (!admin) {
+    return NextResponse.json<ApiResponse>({ success: false, error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const credentials = await getStaffCredentialService().getCredentialsById(admin.userId);
+    if (!credentials) {
+      return NextResponse.json<ApiResponse>({ success: false, error: 'Account not found' }, { status: 404 });
+    }
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      data: { totpEnabled: credentials.totpEnabled },
+    });
+  } catch (error) {
+    console.error('Error fetching security settings:', error);
+    return NextResponse.json<ApiResponse>(
+      { success: false, error: 'Failed to fetch security settings' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/settings/security
+ * Start TOTP enrolment - returns the secret and QR code to scan
+ */
+export async function POST(request: NextRequest) {
+  const admin = verifyAdminSession(request);
+  if (!admin) {
+    return NextResponse.json<ApiResponse>({ success: false, error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const setup = await getStaffCredentialService().startTotpSetup(admin.userId);
+    return NextResponse.json<ApiResponse>({ success: true, data: setup });
+  } catch (error) {
+    console.error('Error starting TOTP setup:', error);
+    return NextResponse.json<ApiResponse>(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to start setup' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/admin/settings/security
+ * Body: { action: 'enable' | 'disable', code }
+ * Enable confirms enrolment; disable turns the second factor off. Both need a current code.
+ */
+export async function PUT(request: NextRequest) {
+  const admin = verifyAdminSession(request);
+  if (!admin) {
+    return NextResponse.json<ApiResponse>({ success: false, error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const { action, code } = await request.json();
+
+    if ((action !== 'enable' && action !== 'disable') || !code) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: 'action (enable|disable) and code are required' },
+        { status: 400 }
+      );
+    }
+
+    const service = getStaffCredentialService();
+    const ok =
+      action === 'enable'
+        ? await service.enableTotp(admin.userId, code)
+        : await service.disableTotp(admin.userId, code);
+
+    if (!ok) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: 'Invalid code' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      data: { totpEnabled: action === 'enable' },
+    });
+  } catch (error) {
+    console.error('Error updating TOTP settings:', error);
+    return NextResponse.json<ApiResponse>(
+      { success: false, error: 'Failed to update security settings' },
+      { status: 500 }
+    );
+  }
+}
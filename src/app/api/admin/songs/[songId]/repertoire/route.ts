@@ -0,0 +1,39 @@
+/**
+ * PUT /api/admin/songs/[songId]/repertoire
+ * Confirm which Repertoire work a song is ({ workId }), or clear the link
+ * with { workId: null } so the title is fuzzy-matched again.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAdminSession } from '@/lib/auth/verifyAdminSession';
+import { getRepertoireService } from '@/lib/services/repertoireService';
+
+export const dynamic = 'force-dynamic';
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ songId: string }> }
+) {
+  try {
+    const admin = verifyAdminSession(request);
+    if (!admin) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { songId } = await params;
+    const { workId } = await request.json();
+    if (workId !== null && (typeof workId !== 'string' || !workId)) {
+      return NextResponse.json({ success: false, error: 'workId must be a record ID or null' }, { status: 400 });
+    }
+
+    await getRepertoireService().linkSong(decodeURIComponent(songId), workId);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error linking song to repertoire:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to link song' },
+      { status: 500 }
+    );
+  }
+}
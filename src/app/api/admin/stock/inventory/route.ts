@@ -1,12 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { generateMockInventory, StockItem } from '@/lib/types/stock';
 import { verifyAdminSession } from '@/lib/auth/verifyAdminSession';
+import { getStockService } from '@/lib/services/stockService';
 
 export const dynamic = 'force-dynamic';
 
-// In-memory storage for development (will be replaced with Airtable)
-let inventoryCache: StockItem[] | null = null;
-
+/**
+ * GET /api/admin/stock/inventory
+ * All stock rows with on-hand, reserved and available counts
+ */
 export async function GET(request: NextRequest) {
   try {
     // Verify admin authentication
@@ -18,14 +19,11 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    // Use cached data or generate new mock data
-    if (!inventoryCache) {
-      inventoryCache = generateMockInventory();
-    }
+    const inventory = await getStockService().getInventory();
 
     return NextResponse.json({
       success: true,
-      inventory: inventoryCache,
+      inventory,
     });
   } catch (error) {
     console.error('Error fetching inventory:', error);
@@ -36,7 +34,11 @@ export async function GET(request: NextRequest) {
   }
 }
 
-export async function PUT(request: NextRequest) {
+/**
+ * POST /api/admin/stock/inventory
+ * Create the Stock Items rows that are missing for catalogue items/sizes
+ */
+export async function POST(request: NextRequest) {
   try {
     // Verify admin authentication
     const admin = verifyAdminSession(request);
@@ -47,40 +49,53 @@ export async function PUT(request: NextRequest) {
       );
     }
 
-    const body = await request.json();
-    const { id, costOverride } = body;
+    const created = await getStockService().createMissingStockRows();
+    const inventory = await getStockService().getInventory();
+
+    return NextResponse.json({
+      success: true,
+      created,
+      inventory,
+    });
+  } catch (error) {
+    console.error('Error creating stock rows:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to create stock rows' },
+      { status: 500 }
+    );
+  }
+}
 
-    if (!id || typeof costOverride !== 'number') {
+/**
+ * PUT /api/admin/stock/inventory
+ * Body: { id, costOverride } - set the unit cost override (null clears it)
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    // Verify admin authentication
+    const admin = verifyAdminSession(request);
+    if (!admin) {
       return NextResponse.json(
-        { success: false, error: 'Invalid request: id and costOverride required' },
-        { status: 400 }
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
       );
     }
 
-    // Update the inventory cache
-    if (!inventoryCache) {
-      inventoryCache = generateMockInventory();
-    }
+    const body = await request.json();
+    const { id, costOverride } = body;
 
-    const itemIndex = inventoryCache.findIndex((item) => item.id === id);
-    if (itemIndex === -1) {
+    if (!id || (costOverride !== null && (typeof costOverride !== 'number' || costOverride < 0))) {
       return NextResponse.json(
-        { success: false, error: 'Item not found' },
-        { status: 404 }
+        { success: false, error: 'Invalid request: id and costOverride required' },
+        { status: 400 }
       );
     }
 
-    // Update the item
-    inventoryCache[itemIndex] = {
-      ...inventoryCache[itemIndex],
-      costPerUnit: costOverride,
-      costOverride: costOverride,
-      lastUpdated: new Date().toISOString(),
-    };
+    const item = await getStockService().updateCostOverride(id, costOverride);
 
     return NextResponse.json({
       success: true,
-      item: inventoryCache[itemIndex],
+      item,
     });
   } catch (error) {
     console.error('Error updating inventory:', error);
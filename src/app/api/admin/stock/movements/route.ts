@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAdminSession } from '@/lib/auth/verifyAdminSession';
+import { getStockService } from '@/lib/services/stockService';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/admin/stock/movements?itemId=rec...
+ * Movement history (newest first), optionally for one stock row
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Verify admin authentication
+    const admin = verifyAdminSession(request);
+    if (!admin) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const itemId = request.nextUrl.searchParams.get('itemId') || undefined;
+    const movements = await getStockService().getMovements(itemId);
+
+    return NextResponse.json({
+      success: true,
+      movements,
+    });
+  } catch (error) {
+    console.error('Error fetching stock movements:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch stock movements' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/stock/movements
+ * Manual correction after a stocktake.
+ * Body: { id, onHand, reason } - onHand is the counted quantity, reason is required
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Verify admin authentication
+    const admin = verifyAdminSession(request);
+    if (!admin) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id, onHand, reason } = await request.json();
+
+    if (!id || !Number.isInteger(onHand) || onHand < 0) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid request: id and a non-negative whole onHand are required' },
+        { status: 400 }
+      );
+    }
+
+    if (typeof reason !== 'string' || !reason.trim()) {
+      return NextResponse.json(
+        { success: false, error: 'A reason is required for manual corrections' },
+        { status: 400 }
+      );
+    }
+
+    const item = await getStockService().correctOnHand(id, onHand, reason.trim(), admin.email);
+
+    return NextResponse.json({
+      success: true,
+      item,
+    });
+  } catch (error) {
+    console.error('Error correcting stock:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to correct stock' },
+      { status: 500 }
+    );
+  }
+}
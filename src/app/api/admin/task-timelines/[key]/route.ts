@@ -0,0 +1,60 @@
+import { NextRequest } from 'next/server';
+import { getTaskTimelineService } from '@/lib/services/taskTimelineService';
+import { requireAdmin } from '@/lib/auth/verifyAdminSession';
+import { apiOk, apiError } from '@/lib/api/response';
+import { parseTimelineTemplateInput, validateTimelineTemplateInput } from '@/lib/config/taskTimeline';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * PUT /api/admin/task-timelines/[key]
+ * Save a new version of a template. Events pinned to the previous version
+ * keep it until they are recomputed.
+ *
+ * Body: { name, priority, conditions, tasks: [{ taskId, offset }] }
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ key: string }> }
+) {
+  try {
+    const [admin, authError] = requireAdmin(request);
+    if (authError) return authError;
+
+    const { key } = await params;
+    const input = parseTimelineTemplateInput(await request.json());
+    const validationError = validateTimelineTemplateInput(input);
+    if (validationError) {
+      return apiError(validationError, 400);
+    }
+
+    const template = await getTaskTimelineService().updateTemplate(key, input, admin.email);
+    return apiOk({ template }, `Saved version ${template.version}.`);
+  } catch (error) {
+    console.error('Error updating timeline template:', error);
+    const message = error instanceof Error ? error.message : 'Failed to update timeline template';
+    return apiError(message, message.startsWith('Template not found') ? 404 : 500);
+  }
+}
+
+/**
+ * DELETE /api/admin/task-timelines/[key]
+ * Archive a template so it no longer matches events.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ key: string }> }
+) {
+  try {
+    const [, authError] = requireAdmin(request);
+    if (authError) return authError;
+
+    const { key } = await params;
+    await getTaskTimelineService().archiveTemplate(key);
+    return apiOk({ key }, 'Template archived.');
+  } catch (error) {
+    console.error('Error archiving timeline template:', error);
+    const message = error instanceof Error ? error.message : 'Failed to archive timeline template';
+    return apiError(message, message.startsWith('Template not found') ? 404 : 500);
+  }
+}
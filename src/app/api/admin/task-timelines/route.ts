@@ -0,0 +1,53 @@
+import { NextRequest } from 'next/server';
+import { getTaskTimelineService } from '@/lib/services/taskTimelineService';
+import { requireAdmin } from '@/lib/auth/verifyAdminSession';
+import { apiOk, apiError } from '@/lib/api/response';
+import {
+  BUILTIN_TIMELINE_TEMPLATE,
+  parseTimelineTemplateInput,
+  validateTimelineTemplateInput,
+} from '@/lib/config/taskTimeline';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/admin/task-timelines
+ * All timeline template versions (newest first) and the built-in fallback.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const [, authError] = requireAdmin(request);
+    if (authError) return authError;
+
+    const templates = await getTaskTimelineService().listTemplates();
+    return apiOk({ templates, builtin: BUILTIN_TIMELINE_TEMPLATE });
+  } catch (error) {
+    console.error('Error fetching timeline templates:', error);
+    return apiError('Failed to fetch timeline templates');
+  }
+}
+
+/**
+ * POST /api/admin/task-timelines
+ * Create a template (version 1).
+ *
+ * Body: { name, priority, conditions, tasks: [{ taskId, offset }] }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const [admin, authError] = requireAdmin(request);
+    if (authError) return authError;
+
+    const input = parseTimelineTemplateInput(await request.json());
+    const validationError = validateTimelineTemplateInput(input);
+    if (validationError) {
+      return apiError(validationError, 400);
+    }
+
+    const template = await getTaskTimelineService().createTemplate(input, admin.email);
+    return apiOk({ template }, 'Template created.');
+  } catch (error) {
+    console.error('Error creating timeline template:', error);
+    return apiError('Failed to create timeline template');
+  }
+}
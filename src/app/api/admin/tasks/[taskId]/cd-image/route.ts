@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getTaskService } from '@/lib/services/taskService';
+import { getCdImageService, parseCdImageAttachment } from '@/lib/services/cdImageService';
+import { getJobService } from '@/lib/services/jobService';
+import type { CdImageJobPayload } from '@/lib/services/jobHandlers';
+import { requireAdmin } from '@/lib/auth/verifyAdminSession';
+import { getAirtableService } from '@/lib/services/airtableService';
+import type { Event } from '@/lib/types/airtable';
+import type { TaskWithEventDetails } from '@/lib/types/tasks';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Load the audio_master_cd task and its event, or an error response
+ */
+async function loadMasterCdTask(
+  taskId: string
+): Promise<[{ task: TaskWithEventDetails; event: Event }, null] | [null, NextResponse]> {
+  const task = await getTaskService().getTaskById(taskId);
+  if (!task) {
+    return [null, NextResponse.json({ success: false, error: 'Task not found' }, { status: 404 })];
+  }
+
+  if (task.template_id !== 'audio_master_cd') {
+    return [null, NextResponse.json({ success: false, error: 'Task is not an audio_master_cd task' }, { status: 400 })];
+  }
+
+  if (!task.event_id) {
+    return [null, NextResponse.json({ success: false, error: 'Task has no linked event' }, { status: 400 })];
+  }
+
+  // Resolve the canonical event_id string from the Airtable record ID
+  const event = await getAirtableService().getEventById(task.event_id);
+  if (!event) {
+    return [null, NextResponse.json({ success: false, error: 'Linked event not found' }, { status: 404 })];
+  }
+
+  return [{ task, event }, null];
+}
+
+/**
+ * GET /api/admin/tasks/[taskId]/cd-image
+ * Returns the CD image attached to the task with signed WAV/CUE download URLs
+ * (cdImage is null until one was built).
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ taskId: string }> }
+) {
+  try {
+    const [, authError] = requireAdmin(request);
+    if (authError) return authError;
+
+    const { taskId } = await params;
+    const [loaded, errorResponse] = await loadMasterCdTask(taskId);
+    if (errorResponse) return errorResponse;
+
+    const cdImage = parseCdImageAttachment(loaded.task.cd_image);
+    if (!cdImage) {
+      return NextResponse.json({ success: true, data: { cdImage: null } });
+    }
+
+    const urls = await getCdImageService().getDownloadUrls(cdImage, loaded.event.school_name);
+    return NextResponse.json({ success: true, data: { cdImage, ...urls } });
+  } catch (error) {
+    console.error('Error fetching CD image:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch CD image' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/tasks/[taskId]/cd-image
+ * Queue a 'cd.image' job that builds a Red Book WAV + CUE from the ordered
+ * finals and attaches it to the task. Rejects tracklists with unready tracks
+ * or more than 80 minutes up front (400). Returns the job ID (202).
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ taskId: string }> }
+) {
+  try {
+    const [admin, authError] = requireAdmin(request);
+    if (authError) return authError;
+
+    const { taskId } = await params;
+    const [loaded, errorResponse] = await loadMasterCdTask(taskId);
+    if (errorResponse) return errorResponse;
+
+    const eventId = loaded.event.event_id;
+    try {
+      await getCdImageService().planCdImage(eventId);
+    } catch (validationError) {
+      return NextResponse.json(
+        { success: false, error: validationError instanceof Error ? validationError.message : 'Cannot build CD image' },
+        { status: 400 }
+      );
+    }
+
+    const job = await getJobService().enqueue<CdImageJobPayload>(
+      'cd.image',
+      { taskId, eventId, buildId: String(Date.now()), requestedBy: admin.email },
+      {
+        label: `CD image – ${loaded.event.school_name}`,
+        createdBy: admin.email,
+      }
+    );
+
+    return NextResponse.json({ success: true, data: { jobId: job.id } }, { status: 202 });
+  } catch (error) {
+    console.error('Error queueing CD image build:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to start CD image build' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest } from 'next/server';
+import { getTaskService } from '@/lib/services/taskService';
+import { requireAdmin } from '@/lib/auth/verifyAdminSession';
+import { apiOk, apiError } from '@/lib/api/response';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/admin/tasks/events/[eventId]/timeline
+ * Compare the event's tasks with the current timeline template
+ * (tasks to add, reschedule and cancel). Changes nothing.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ eventId: string }> }
+) {
+  try {
+    const [, authError] = requireAdmin(request);
+    if (authError) return authError;
+
+    const { eventId } = await params;
+    const recompute = await getTaskService().getTimelineRecompute(eventId);
+    return apiOk(recompute);
+  } catch (error) {
+    console.error('Error comparing event timeline:', error);
+    const message = error instanceof Error ? error.message : 'Failed to compare timeline';
+    return apiError(message, message.includes('not found') ? 404 : 500);
+  }
+}
+
+/**
+ * POST /api/admin/tasks/events/[eventId]/timeline
+ * Apply the current timeline template to the event's pending tasks and pin
+ * the event to that template version.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ eventId: string }> }
+) {
+  try {
+    const [, authError] = requireAdmin(request);
+    if (authError) return authError;
+
+    const { eventId } = await params;
+    const recompute = await getTaskService().applyTimelineRecompute(eventId);
+    return apiOk(recompute, 'Timeline recomputed.');
+  } catch (error) {
+    console.error('Error recomputing event timeline:', error);
+    const message = error instanceof Error ? error.message : 'Failed to recompute timeline';
+    return apiError(message, message.includes('not found') ? 404 : 500);
+  }
+}
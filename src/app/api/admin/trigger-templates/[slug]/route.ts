@@ -15,7 +15,12 @@ import {
   getSampleVariables,
   renderTriggerTemplate,
   renderFullTriggerEmail,
+  validateTriggerTemplateVariables,
+  getTriggerTemplateVariables,
 } from '@/lib/services/triggerTemplateService';
+import { findUnknownVariables, renderEmailBlocks, validateEmailBlocks } from '@/lib/utils/emailBlocks';
+import { getRegistryEntry } from '@/lib/config/trigger-email-registry';
+import type { EmailBlock } from '@/lib/types/email-automation';
 
 export const dynamic = 'force-dynamic';
 
@@ -59,6 +64,7 @@ export async function GET(
  * Body:
  * - subject?: string
  * - bodyHtml?: string
+ * - bodyBlocks?: EmailBlock[] (block builder source; bodyHtml is rendered from it, empty = raw HTML)
  * - active?: boolean
  * - resetToDefault?: boolean (if true, resets subject and body to default)
  */
@@ -79,11 +85,25 @@ export async function PATCH(
     if (body.resetToDefault) {
       updated = await resetTriggerTemplate(slug);
     } else {
-      const updates: { subject?: string; bodyHtml?: string; active?: boolean } = {};
+      const updates: { subject?: string; bodyHtml?: string; bodyBlocks?: EmailBlock[]; active?: boolean } = {};
       if (body.subject !== undefined) updates.subject = body.subject;
       if (body.bodyHtml !== undefined) updates.bodyHtml = body.bodyHtml;
       if (body.active !== undefined) updates.active = body.active;
 
+      if (body.bodyBlocks !== undefined) {
+        const blocksError = validateEmailBlocks(body.bodyBlocks);
+        if (blocksError) {
+          return NextResponse.json({ success: false, error: blocksError }, { status: 400 });
+        }
+        updates.bodyBlocks = body.bodyBlocks;
+        if (body.bodyBlocks.length > 0) updates.bodyHtml = renderEmailBlocks(body.bodyBlocks);
+      }
+
+      const variablesError = validateTriggerTemplateVariables(slug, updates);
+      if (variablesError) {
+        return NextResponse.json({ success: false, error: variablesError }, { status: 400 });
+      }
+
       if (Object.keys(updates).length === 0) {
         return NextResponse.json(
           { success: false, error: 'No updates provided' },
@@ -136,17 +156,18 @@ export async function POST(
     const { slug } = await params;
     const body = await request.json().catch(() => ({}));
 
-    const template = await getTriggerTemplateBySlug(slug);
-    if (!template) {
+    if (!getRegistryEntry(slug)) {
       return NextResponse.json(
         { success: false, error: `Trigger template not found: ${slug}` },
         { status: 404 }
       );
     }
 
+    // The live preview sends both on every edit; only look up what's missing
+    const template = body.subject && body.bodyHtml ? null : await getTriggerTemplateBySlug(slug);
     const sampleVars = getSampleVariables(slug);
-    const subjectToRender = body.subject || template.subject;
-    const bodyToRender = body.bodyHtml || template.bodyHtml;
+    const subjectToRender = body.subject || template?.subject || '';
+    const bodyToRender = body.bodyHtml || template?.bodyHtml || '';
 
     const renderedSubject = renderTriggerTemplate(subjectToRender, sampleVars);
     const renderedHtml = renderFullTriggerEmail(bodyToRender, sampleVars);
@@ -157,6 +178,10 @@ export async function POST(
         subject: renderedSubject,
         html: renderedHtml,
         sampleVariables: sampleVars,
+        unknownVariables: findUnknownVariables(
+          `${subjectToRender}\n${bodyToRender}`,
+          getTriggerTemplateVariables(slug)
+        ),
       },
     });
   } catch (error) {
@@ -23,13 +23,11 @@ import {
 import { Event } from '@/lib/types/airtable';
 import { parseOverrides, getThreshold } from '@/lib/utils/eventThresholds';
 import { EventThresholdMatch, CreateEmailLogInput } from '@/lib/types/email-automation';
-import { Resend } from 'resend';
+import { sendEmail } from '@/lib/services/emailTransport';
 import { generateUnsubscribeUrl } from '@/lib/utils/unsubscribe';
 
 export const dynamic = 'force-dynamic';
 
-const FROM_EMAIL = process.env.RESEND_FROM_EMAIL || 'noreply@minimusiker.app';
-const FROM_NAME = 'Minimusiker';
 const RATE_LIMIT_DELAY_MS = 500;
 
 // ─── Helpers ─────────────────────────────────────────────────────────
@@ -227,7 +225,7 @@ export async function POST(
         const eventData = eventToThresholdMatch(event);
         const recipients = entry.sendNow.recipientResolver === 'event_teacher'
           ? await getTeacherRecipientsForEvent(event.event_id, event.id, eventData)
-          : await getParentRecipientsForEvent(event.event_id, event.id, eventData);
+          : await getParentRecipientsForEvent(event.event_id, event.id, eventData, entry.sendNow.emailCategory);
 
         previewResults.push({
           eventId: event.event_id,
@@ -269,7 +267,7 @@ export async function POST(
       const eventData = eventToThresholdMatch(event);
       const recipients = entry.sendNow.recipientResolver === 'event_teacher'
         ? await getTeacherRecipientsForEvent(event.event_id, event.id, eventData)
-        : await getParentRecipientsForEvent(event.event_id, event.id, eventData);
+        : await getParentRecipientsForEvent(event.event_id, event.id, eventData, entry.sendNow.emailCategory);
 
       const variables = buildTriggerVariables(slug, event);
 
@@ -301,33 +299,21 @@ export async function POST(
         let errorMessage: string | undefined;
         let resendMessageId: string | undefined;
 
-        if (!process.env.RESEND_API_KEY) {
-          console.log(`[SendNow] (dev) To: ${recipient.email}, Subject: ${subject}`);
-          resendMessageId = 'dev-mode';
+        const result = await sendEmail({
+          to: recipient.email,
+          subject,
+          html,
+          headers: isParent && unsubscribeUrl ? {
+            'List-Unsubscribe': `<${unsubscribeUrl}>`,
+            'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+          } : undefined,
+        });
+
+        if (result.success) {
+          resendMessageId = result.messageId;
         } else {
-          try {
-            const resend = new Resend(process.env.RESEND_API_KEY);
-            const { data, error } = await resend.emails.send({
-              from: `${FROM_NAME} <${FROM_EMAIL}>`,
-              to: recipient.email,
-              subject,
-              html,
-              headers: isParent && unsubscribeUrl ? {
-                'List-Unsubscribe': `<${unsubscribeUrl}>`,
-                'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
-              } : undefined,
-            });
-
-            if (error) {
-              sendStatus = 'failed';
-              errorMessage = error.message;
-            } else {
-              resendMessageId = data?.id;
-            }
-          } catch (err) {
-            sendStatus = 'failed';
-            errorMessage = err instanceof Error ? err.message : 'Unknown error';
-          }
+          sendStatus = 'failed';
+          errorMessage = result.error;
         }
 
         // Log to EMAIL_LOGS
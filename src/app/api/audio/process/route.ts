@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { verifyEngineerSession } from '@/lib/auth/verifyEngineerSession';
-import { processAudioFile } from '@/lib/services/audioProcessingService';
+import { getJobService } from '@/lib/services/jobService';
+import type { AudioProcessJobPayload, AudioProcessJobResult } from '@/lib/services/jobHandlers';
 import { getTeacherService } from '@/lib/services/teacherService';
 
 export const dynamic = 'force-dynamic';
@@ -11,6 +12,11 @@ export const maxDuration = 300; // 5 minutes
  * Process an uploaded audio file: encode WAV→MP3 and generate 30-second preview snippet.
  * Called per-file after engineer batch upload confirmation.
  *
+ * Runs as an 'audio.process' job executed inline, so the engineer UI still
+ * gets the result in the same request. If the run fails or the function is
+ * killed, the job stays in the queue and is retried in the background
+ * (visible under /admin/jobs).
+ *
  * On success: processAudioFile sets the AudioFile record to status='ready' (with mp3R2Key set).
  * On failure: this route flips matching AudioFile records to status='error' so the engineer
  *             UI can surface a clear retry affordance instead of leaving them stuck in 'processing'.
@@ -34,7 +40,23 @@ export async function POST(request: NextRequest) {
     }
 
     // songId is optional: per-song uploads include it, schulsong finals do not.
-    const result = await processAudioFile(r2Key, eventId, classId, songId || null, displayName);
+    const jobService = getJobService();
+    const queued = await jobService.enqueue<AudioProcessJobPayload>(
+      'audio.process',
+      { eventId, classId, songId, r2Key, displayName },
+      {
+        label: `Audio processing – ${displayName || r2Key}`,
+        createdBy: session.email,
+        maxAttempts: 3,
+        runInline: true,
+      }
+    );
+    const job = await jobService.runJob(queued.id, { ignoreRunAfter: true });
+    const result = job?.result as AudioProcessJobResult | undefined;
+
+    if (job?.status !== 'succeeded' || !result) {
+      throw new Error(job?.lastError || 'Audio processing job could not be started');
+    }
 
     return NextResponse.json({
       success: true,
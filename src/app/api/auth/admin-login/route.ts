@@ -3,6 +3,8 @@ import jwt from 'jsonwebtoken';
 import { ApiResponse } from '@/lib/types';
 import { verifyAdminSession, AdminSession } from '@/lib/auth/verifyAdminSession';
 import { getAirtableService } from '@/lib/services/airtableService';
+import { getStaffCredentialService } from '@/lib/services/staffCredentialService';
+import { describeStaffLoginFailure } from '@/lib/auth/staffLoginFailure';
 
 export const dynamic = 'force-dynamic';
 
@@ -39,12 +41,13 @@ export async function GET(request: NextRequest) {
  * POST /api/auth/admin-login
  * Admin login via Airtable Personen table
  * - Email: E-Mail field from Personen table
- * - Password: ID field (autonumber) from Personen table
+ * - Password: bcrypt hash stored on the Personen record (set via reset flow)
+ * - totpCode: required once the admin has enabled two-factor authentication
  * - Additional check: User must have Admin role
  */
 export async function POST(request: NextRequest) {
   try {
-    const { email, password } = await request.json();
+    const { email, password, totpCode } = await request.json();
 
     if (!email || !password) {
       return NextResponse.json<ApiResponse>(
@@ -53,24 +56,17 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Find staff member by email in Personen table
-    const staff = await getAirtableService().getStaffByEmail(email);
+    const result = await getStaffCredentialService().verifyLogin(email, password, totpCode);
 
-    if (!staff) {
+    if (result.status !== 'ok') {
+      const failure = describeStaffLoginFailure(result);
       return NextResponse.json<ApiResponse>(
-        { success: false, error: 'Invalid email or password' },
-        { status: 401 }
+        { success: false, error: failure.error, data: { code: failure.code } },
+        { status: failure.httpStatus }
       );
     }
 
-    // Verify password matches the numeric ID field
-    const expectedPassword = staff.numericId?.toString();
-    if (!expectedPassword || password !== expectedPassword) {
-      return NextResponse.json<ApiResponse>(
-        { success: false, error: 'Invalid email or password' },
-        { status: 401 }
-      );
-    }
+    const staff = result.staff;
 
     // Check if user has Admin role
     const hasAdminRole = await getAirtableService().hasAdminRole(staff.id);
@@ -2,18 +2,21 @@ import { NextRequest, NextResponse } from 'next/server';
 import { createEngineerSessionToken } from '@/lib/auth/verifyEngineerSession';
 import { EngineerSession, ENGINEER_SESSION_COOKIE } from '@/lib/types/engineer';
 import { getAirtableService } from '@/lib/services/airtableService';
+import { getStaffCredentialService } from '@/lib/services/staffCredentialService';
+import { describeStaffLoginFailure } from '@/lib/auth/staffLoginFailure';
 
 export const dynamic = 'force-dynamic';
 
 /**
  * Engineer login via Airtable Personen table
  * - Email: E-Mail field from Personen table
- * - Password: ID field (autonumber) from Personen table
+ * - Password: bcrypt hash stored on the Personen record (set via reset flow)
+ * - totpCode: required once the account has enabled two-factor authentication
  * - Additional check: User must have Engineer role
  */
 export async function POST(request: NextRequest) {
   try {
-    const { email, password } = await request.json();
+    const { email, password, totpCode } = await request.json();
 
     if (!email || !password) {
       return NextResponse.json(
@@ -22,24 +25,17 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Find staff member by email in Personen table
-    const staff = await getAirtableService().getStaffByEmail(email);
+    const result = await getStaffCredentialService().verifyLogin(email, password, totpCode);
 
-    if (!staff) {
+    if (result.status !== 'ok') {
+      const failure = describeStaffLoginFailure(result);
       return NextResponse.json(
-        { error: 'Invalid email or password' },
-        { status: 401 }
+        { error: failure.error, code: failure.code },
+        { status: failure.httpStatus }
       );
     }
 
-    // Verify password matches the numeric ID field
-    const expectedPassword = staff.numericId?.toString();
-    if (!expectedPassword || password !== expectedPassword) {
-      return NextResponse.json(
-        { error: 'Invalid email or password' },
-        { status: 401 }
-      );
-    }
+    const staff = result.staff;
 
     // Check if user has Engineer role
     const hasEngineerRole = await getAirtableService().hasEngineerRole(staff.id);
@@ -1,30 +1,24 @@
 import { NextRequest, NextResponse } from 'next/server';
 import jwt from 'jsonwebtoken';
 import { getAirtableService } from '@/lib/services/airtableService';
+import { issueParentMagicLink } from '@/lib/auth/parentMagicLink';
 import { ApiResponse, ParentSession } from '@/lib/types';
-import { generateEventId, generateSchoolId, generateClassId } from '@/lib/utils/eventIdentifiers';
 
 export const dynamic = 'force-dynamic';
 
 /**
  * Parent Login Route
  *
- * IMPORTANT: This route handles authentication for EXISTING parent records.
- * It assumes parent records already exist in parent_journey_table (created during
- * parent registration when they sign up for an event).
+ * Passwordless login for EXISTING parent records: the parent enters their email
+ * and receives a one-time magic link. The session cookie is only issued by
+ * /api/auth/parent-verify once the link from the inbox is opened, so knowing
+ * an email address alone no longer grants access to the familie portal.
  *
- * CHILD CREATION: Children are NOT created separately - they exist as rows in
- * parent_journey_table with the registered_child field populated during registration.
- *
- * When parent registration is implemented, it should:
- * 1. Collect parent email, name, phone, child name, and selected class
- * 2. Create a new row in parent_journey_table (which creates the child record)
- * 3. Set booking_id, class_id from the selected event/class
- * 4. Generate or reuse parent_id based on email
+ * Unknown emails still get a 404 with shouldRegister so the client can send
+ * the parent to the registration flow.
  */
 
 const PARENT_JWT_SECRET = process.env.PARENT_JWT_SECRET || process.env.JWT_SECRET || 'parent-secret-key';
-const PARENT_SESSION_DURATION = parseInt(process.env.PARENT_SESSION_DURATION || '604800'); // 7 days in seconds
 
 export async function POST(request: NextRequest) {
   try {
@@ -53,10 +47,10 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Look up ALL parent records and get the most recent one
-    const allParentRecords = await getAirtableService().getParentRecordsByEmail(email.toLowerCase().trim());
+    const normalizedEmail = email.toLowerCase().trim();
+    const parentJourney = await getAirtableService().getMostRecentParentRecord(normalizedEmail);
 
-    if (!allParentRecords || allParentRecords.length === 0) {
+    if (!parentJourney) {
       // Email not found - suggest registration
       return NextResponse.json<ApiResponse>(
         {
@@ -64,138 +58,37 @@ export async function POST(request: NextRequest) {
           error: 'We couldn\'t find an account with that email address.',
           data: {
             shouldRegister: true, // Flag for client to redirect to registration
-            email: email.toLowerCase().trim(),
+            email: normalizedEmail,
           }
         },
         { status: 404 }
       );
     }
 
-    // Get the most recent/relevant event for this parent
-    const mostRecentRecord = await getAirtableService().getMostRecentParentRecord(email.toLowerCase().trim());
-    const parentJourney = mostRecentRecord!; // We know it exists from the check above
-
-    // Check if parent has multiple events
-    const hasMultipleEvents = allParentRecords.length > 1;
-
-    // Use the actual booking_id from the database as the event identifier
-    // This ensures consistency: SimplyBook events use numeric IDs, admin-created events use evt_ format
-    // The webhook will look up Events by this ID in the event_id field
-    const eventId = parentJourney.booking_id;
-
-    // Generate school ID for potential future use
-    const schoolId = generateSchoolId(parentJourney.school_name);
-
-    // Create children array from ALL parent records
-    // Use the actual booking_id and class_id from the database
-    const children = allParentRecords.map(record => ({
-      childName: record.registered_child,
-      bookingId: record.booking_id,
-      classId: record.class_id || (record.booking_date && record.class
-        ? generateClassId(record.school_name, record.booking_date, record.class)
-        : ''),
-      class: record.class,
-      eventId: record.booking_id, // Use actual booking_id, not generated ID
-      schoolName: record.school_name,
-      eventType: record.event_type,
-      bookingDate: record.booking_date,
-    }));
-
-    // Create parent session data with multi-child support
-    const sessionData: ParentSession = {
-      parentId: parentJourney.parent_id,
-      email: parentJourney.parent_email,
-      firstName: parentJourney.parent_first_name,
-      // Legacy single-child fields (use most recent for backward compatibility)
-      bookingId: parentJourney.booking_id,
-      schoolName: parentJourney.school_name,
-      eventType: parentJourney.event_type,
-      childName: parentJourney.registered_child,
-      bookingDate: parentJourney.booking_date,
-      eventId, // Add generated event ID
-      schoolId, // Add generated school ID
-      // Multi-child support
-      children,
-      loginTimestamp: Date.now(),
-    };
+    // Generate one-time token (stored hashed on the Parents record) and email it
+    const magicLink = await issueParentMagicLink(normalizedEmail, parentJourney.parent_first_name);
 
-    // Create JWT token
-    const token = jwt.sign(
-      sessionData,
-      PARENT_JWT_SECRET,
-      { expiresIn: PARENT_SESSION_DURATION }
-    );
-
-    // Prepare information about other events if parent has multiple
-    let otherEvents = undefined;
-    if (hasMultipleEvents) {
-      otherEvents = allParentRecords
-        .filter(record => record.id !== parentJourney.id) // Exclude current event
-        .slice(0, 5) // Limit to 5 other events
-        .map(record => ({
-          eventId: record.booking_id, // Use actual booking_id
-          bookingId: record.booking_id,
-          schoolName: record.school_name,
-          eventType: record.event_type,
-          bookingDate: record.booking_date,
-          childName: record.registered_child,
-        }));
+    if (!magicLink.success) {
+      console.error('[parent-login] Magic link could not be sent:', magicLink.error);
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'We could not send the login email. Please try again.'
+        },
+        { status: 502 }
+      );
     }
 
-    // Create response with parent data preview
-    const response = NextResponse.json<ApiResponse>({
+    return NextResponse.json<ApiResponse>({
       success: true,
       data: {
-        parent: {
-          firstName: parentJourney.parent_first_name,
-          email: parentJourney.parent_email,
-          phone: parentJourney.parent_telephone,
-        },
-        school: {
-          id: schoolId,
-          name: parentJourney.school_name,
-          teacher: parentJourney.main_teacher,
-          class: parentJourney.class,
-        },
-        event: {
-          id: eventId,
-          type: parentJourney.event_type,
-          bookingDate: parentJourney.booking_date,
-        },
-        child: {
-          name: parentJourney.registered_child,
-        },
-        booking: {
-          id: parentJourney.booking_id,
-          hasOrder: !!parentJourney.order_number,
-          orderNumber: parentJourney.order_number,
-        },
-        // Multi-child support
-        children: children.map(child => ({
-          name: child.childName,
-          class: child.class,
-          schoolName: child.schoolName,
-          eventId: child.eventId,
-          bookingId: child.bookingId,
-        })),
-        hasMultipleChildren: children.length > 1,
-        hasMultipleEvents,
-        otherEvents, // Include if parent has multiple events
-        redirectUrl: '/familie',
+        magicLinkSent: true,
+        email: normalizedEmail,
+        // In development, include the link for testing
+        ...(process.env.NODE_ENV === 'development' && { debugLink: magicLink.magicLinkUrl }),
       },
-      message: `Welcome back, ${parentJourney.parent_first_name}!`,
+      message: 'A login link has been sent to your email address.',
     });
-
-    // Set HTTP-only cookie with session token
-    response.cookies.set('parent_session', token, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'lax',
-      maxAge: PARENT_SESSION_DURATION,
-      path: '/',
-    });
-
-    return response;
   } catch (error) {
     console.error('Error during parent login:', error);
     return NextResponse.json<ApiResponse>(
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import jwt from 'jsonwebtoken';
 import crypto from 'crypto';
 import { getAirtableService } from '@/lib/services/airtableService';
+import { getConsentService } from '@/lib/services/consentService';
 import { ParentSession } from '@/lib/types/airtable';
 import {
   RegistrationRequest,
@@ -13,6 +14,7 @@ import {
   sanitizeRegistrationData,
 } from '@/lib/validators/registrationValidators';
 import { generateSchoolId } from '@/lib/utils/eventIdentifiers';
+import { issueParentMagicLink } from '@/lib/auth/parentMagicLink';
 
 export const dynamic = 'force-dynamic';
 
@@ -30,11 +32,41 @@ function generateParentId(email: string): string {
   return `PAR-${hash}`;
 }
 
+/**
+ * Respond to a registration for an email that already has an account:
+ * email a one-time login link instead of setting the session cookie.
+ */
+async function sendLoginLinkResponse(
+  email: string,
+  firstName: string,
+  message: string,
+  status: number = 200
+): Promise<NextResponse> {
+  const magicLink = await issueParentMagicLink(email, firstName);
+
+  if (!magicLink.success) {
+    console.error('[parent-register] Magic link could not be sent:', magicLink.error);
+  }
+
+  return NextResponse.json<RegistrationResponse>(
+    {
+      success: true,
+      data: {
+        magicLinkSent: magicLink.success,
+        redirectUrl: '/familie-login',
+      },
+      message,
+    },
+    { status }
+  );
+}
+
 /**
  * Parent Registration API Route
  *
  * Handles new parent registrations from the registration form.
- * Creates child records as rows in parent_journey_table and automatically logs in the parent.
+ * Creates child records as rows in parent_journey_table. New parents are logged in
+ * automatically; parents whose email already exists receive a magic link instead.
  */
 export async function POST(request: NextRequest) {
   try {
@@ -107,71 +139,14 @@ export async function POST(request: NextRequest) {
       (c) => !existingNames.has(c.childName.toLowerCase().trim())
     );
 
-    // Case A: ALL children already registered → just log parent in
+    // Case A: ALL children already registered → send a login link instead of
+    // logging in directly (the email may not belong to whoever filled in the form)
     if (newChildren.length === 0 && existingChildren.length > 0) {
-      // Fetch parent records for session data
-      const existingRecords = await getAirtableService().getParentRecordsByEmail(
-        sanitizedData.parentEmail
+      return sendLoginLinkResponse(
+        sanitizedData.parentEmail,
+        sanitizedData.parentFirstName,
+        "You're already registered! We've sent you a login link."
       );
-
-      const mostRecentRecord = existingRecords[0];
-
-      // Use the actual booking_id from the database as the event identifier
-      const eventId = mostRecentRecord.booking_id;
-      const schoolId = generateSchoolId(mostRecentRecord.school_name);
-
-      // Create children array from existing records
-      const children = existingRecords.map((record) => ({
-        childName: record.registered_child,
-        bookingId: record.booking_id,
-        classId: record.class_id,
-        class: record.class,
-        eventId: record.booking_id,
-        schoolName: record.school_name,
-        eventType: record.event_type,
-        bookingDate: record.booking_date,
-      }));
-
-      // Create session
-      const sessionData: ParentSession = {
-        parentId: mostRecentRecord.parent_id,
-        email: mostRecentRecord.parent_email,
-        firstName: mostRecentRecord.parent_first_name,
-        bookingId: mostRecentRecord.booking_id,
-        schoolName: mostRecentRecord.school_name,
-        eventType: mostRecentRecord.event_type,
-        childName: mostRecentRecord.registered_child,
-        bookingDate: mostRecentRecord.booking_date,
-        eventId,
-        schoolId,
-        children,
-        loginTimestamp: Date.now(),
-      };
-
-      // Create JWT token
-      const token = jwt.sign(sessionData, PARENT_JWT_SECRET, {
-        expiresIn: PARENT_SESSION_DURATION,
-      });
-
-      const response = NextResponse.json<RegistrationResponse>({
-        success: true,
-        data: {
-          session: sessionData,
-          redirectUrl: '/familie',
-        },
-        message: "You're already registered! Logging you in...",
-      });
-
-      // Set HTTP-only cookie
-      response.cookies.set('parent_session', token, {
-        httpOnly: true,
-        secure: process.env.NODE_ENV === 'production',
-        sameSite: 'lax',
-        maxAge: PARENT_SESSION_DURATION,
-        path: '/',
-      });
-
-      return response;
     }
 
     // Case B: Some or all children are new → create only the new ones
@@ -203,10 +178,35 @@ export async function POST(request: NextRequest) {
       recordsToCreate
     );
 
+    // Store the parent's consent choices on each new child's registration
+    const consents = sanitizedData.consents;
+    if (consents) {
+      await Promise.all(
+        createdRecords.map((record) =>
+          getConsentService()
+            .recordConsents(record.id, consents, 'registration')
+            .catch((error) => {
+              console.error(`[parent-register] Consent not stored for registration ${record.id}:`, error);
+            })
+        )
+      );
+    }
+
     if (dedupSkipped) {
       console.warn(`[parent-register] DEDUP_SKIPPED: email=${sanitizedData.parentEmail}, eventId=${sanitizedData.eventId}, children=${newChildren.map(c => c.childName).join(',')}`);
     }
 
+    // Returning parent: the new children are saved, but the session (which exposes
+    // every child registered under this email) requires proof of inbox ownership
+    if (existingParent) {
+      return sendLoginLinkResponse(
+        sanitizedData.parentEmail,
+        sanitizedData.parentFirstName,
+        "Registration successful! We've sent you a login link.",
+        201
+      );
+    }
+
     // Step 5: Generate session data
     // Use the canonical booking_id from the validated event
     // Do NOT regenerate - hash variations cause event_id linking failures
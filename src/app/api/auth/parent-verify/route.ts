@@ -0,0 +1,132 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAirtableService } from '@/lib/services/airtableService';
+import { createParentSessionToken } from '@/lib/auth/verifyParentSession';
+import { ApiResponse, ParentSession } from '@/lib/types';
+import { generateSchoolId, generateClassId } from '@/lib/utils/eventIdentifiers';
+
+export const dynamic = 'force-dynamic';
+
+const PARENT_SESSION_DURATION = parseInt(process.env.PARENT_SESSION_DURATION || '604800'); // 7 days in seconds
+
+/**
+ * POST /api/auth/parent-verify
+ * Redeem a parent magic link token (one-time use) and create the parent session.
+ *
+ * On failure the response carries data.reason ('invalid' | 'expired') so the
+ * familie-login page can explain what happened and offer a new link.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { token } = await request.json();
+
+    if (!token || typeof token !== 'string') {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: 'Token is required', data: { reason: 'invalid' } },
+        { status: 400 }
+      );
+    }
+
+    const airtable = getAirtableService();
+    const result = await airtable.consumeParentMagicLinkToken(token);
+
+    if (result.status !== 'valid') {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: result.status === 'expired'
+            ? 'This login link has expired. Please request a new one.'
+            : 'This login link is invalid or has already been used.',
+          data: { reason: result.status },
+        },
+        { status: 401 }
+      );
+    }
+
+    const email = result.email.toLowerCase().trim();
+    const allParentRecords = await airtable.getParentRecordsByEmail(email);
+    const parentJourney = allParentRecords[0];
+
+    if (!parentJourney) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: 'This login link is invalid or has already been used.', data: { reason: 'invalid' } },
+        { status: 401 }
+      );
+    }
+
+    // Use the actual booking_id from the database as the event identifier
+    // This ensures consistency: SimplyBook events use numeric IDs, admin-created events use evt_ format
+    const eventId = parentJourney.booking_id;
+    const schoolId = generateSchoolId(parentJourney.school_name);
+
+    // Create children array from ALL parent records
+    const children = allParentRecords.map(record => ({
+      childName: record.registered_child,
+      bookingId: record.booking_id,
+      classId: record.class_id || (record.booking_date && record.class
+        ? generateClassId(record.school_name, record.booking_date, record.class)
+        : ''),
+      class: record.class,
+      eventId: record.booking_id, // Use actual booking_id, not generated ID
+      schoolName: record.school_name,
+      eventType: record.event_type,
+      bookingDate: record.booking_date,
+    }));
+
+    const sessionData: ParentSession = {
+      parentId: parentJourney.parent_id,
+      email: parentJourney.parent_email,
+      firstName: parentJourney.parent_first_name,
+      // Legacy single-child fields (use most recent for backward compatibility)
+      bookingId: parentJourney.booking_id,
+      schoolName: parentJourney.school_name,
+      eventType: parentJourney.event_type,
+      childName: parentJourney.registered_child,
+      bookingDate: parentJourney.booking_date,
+      eventId,
+      schoolId,
+      // Multi-child support
+      children,
+      loginTimestamp: Date.now(),
+    };
+
+    const jwtToken = createParentSessionToken(sessionData, PARENT_SESSION_DURATION);
+
+    const response = NextResponse.json<ApiResponse>({
+      success: true,
+      data: {
+        parent: {
+          firstName: parentJourney.parent_first_name,
+        },
+        school: {
+          id: schoolId,
+          name: parentJourney.school_name,
+        },
+        event: {
+          id: eventId,
+          type: parentJourney.event_type,
+          bookingDate: parentJourney.booking_date,
+        },
+        hasMultipleChildren: children.length > 1,
+        redirectUrl: '/familie',
+      },
+      message: `Welcome back, ${parentJourney.parent_first_name}!`,
+    });
+
+    // Set HTTP-only cookie with session token
+    response.cookies.set('parent_session', jwtToken, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax',
+      maxAge: PARENT_SESSION_DURATION,
+      path: '/',
+    });
+
+    return response;
+  } catch (error) {
+    console.error('Parent token verification error:', error);
+    return NextResponse.json<ApiResponse>(
+      { success: false, error: 'Verification failed. Please try again.' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getStaffCredentialService } from '@/lib/services/staffCredentialService';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/auth/password-reset/confirm
+ * Set a new password using the one-time token from the reset email.
+ * Does not log the user in; they sign in on their portal's login page afterwards.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { token, password } = await request.json();
+
+    if (!token || !password) {
+      return NextResponse.json(
+        { error: 'Token and password are required' },
+        { status: 400 }
+      );
+    }
+
+    const result = await getStaffCredentialService().resetPassword(token, password);
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Password reset confirm error:', error);
+    return NextResponse.json(
+      { error: 'Failed to set password. Please try again.' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getStaffCredentialService } from '@/lib/services/staffCredentialService';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/auth/password-reset
+ * Email a set/reset password link to a Personen account (admin, staff, engineer).
+ * Always answers with the same message so the form cannot be used to probe emails.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { email } = await request.json();
+
+    if (!email || typeof email !== 'string') {
+      return NextResponse.json({ error: 'Email is required' }, { status: 400 });
+    }
+
+    await getStaffCredentialService().requestPasswordReset(email);
+
+    return NextResponse.json({
+      success: true,
+      message: 'If an account exists with this email, a reset link will be sent.',
+    });
+  } catch (error) {
+    console.error('Password reset request error:', error);
+    return NextResponse.json(
+      { error: 'Failed to send reset link. Please try again.' },
+      { status: 500 }
+    );
+  }
+}
@@ -159,6 +159,9 @@ async function handleCron(request: NextRequest): Promise<NextResponse<CronResult
           mp3R2Key: result.mp3Key,
           previewR2Key: result.previewKey,
           durationSeconds: result.durationSeconds,
+          loudnessLufs: result.loudnessLufs,
+          truePeakDbtp: result.truePeakDbtp,
+          masteringPreset: result.masteringPreset,
         });
         succeeded++;
       }
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getJobService } from '@/lib/services/jobService';
+import type { RetentionJobPayload } from '@/lib/services/jobHandlers';
+import { getDataRetentionMonths } from '@/lib/config/dataRetention';
+import { getRetentionCutoffDate } from '@/lib/utils/dataProtection';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Verify the request is from Vercel Cron
+ */
+function verifyCronRequest(request: NextRequest): boolean {
+  const authHeader = request.headers.get('Authorization');
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (!cronSecret) {
+    console.error('[Data Retention Cron] CRON_SECRET not set');
+    return false;
+  }
+
+  if (authHeader?.startsWith('Bearer ')) {
+    return authHeader.substring(7) === cronSecret;
+  }
+
+  const cronHeader = request.headers.get('X-Cron-Secret');
+  return cronHeader === cronSecret;
+}
+
+interface CronResult {
+  status: string;
+  jobId?: string;
+  retentionMonths?: number;
+  cutoffDate?: string;
+  dryRun?: boolean;
+}
+
+/**
+ * Queue the daily 'privacy.retention' job: child names and raw audio of
+ * events dated more than DATA_RETENTION_MONTHS months ago are purged by the
+ * job runner, and the job result is the run's report (see
+ * /admin/data-protection). Skipped while an earlier run is still active.
+ */
+async function handleCronRequest(request: NextRequest): Promise<NextResponse<CronResult>> {
+  if (!verifyCronRequest(request)) {
+    return NextResponse.json({ status: 'unauthorized' }, { status: 401 });
+  }
+
+  const url = new URL(request.url);
+  const isDryRun = url.searchParams.get('dryRun') === 'true';
+
+  const jobService = getJobService();
+  const active = await jobService.listJobs({
+    types: ['privacy.retention'],
+    statuses: ['queued', 'running'],
+    limit: 1,
+  });
+  if (active.length > 0) {
+    console.log(`[Data Retention Cron] Job ${active[0].id} still ${active[0].status}, skipping`);
+    return NextResponse.json({ status: 'skipped', jobId: active[0].id });
+  }
+
+  const retentionMonths = getDataRetentionMonths();
+  const cutoffDate = getRetentionCutoffDate(retentionMonths);
+  console.log(`[Data Retention Cron] Purging events before ${cutoffDate}${isDryRun ? ' (DRY RUN)' : ''}`);
+
+  const job = await jobService.enqueue<RetentionJobPayload>(
+    'privacy.retention',
+    { retentionMonths, cutoffDate, dryRun: isDryRun },
+    {
+      label: `Data retention – before ${cutoffDate}${isDryRun ? ' (dry run)' : ''}`,
+      createdBy: 'system',
+      maxAttempts: 3,
+    }
+  );
+
+  return NextResponse.json({
+    status: 'ok',
+    jobId: job.id,
+    retentionMonths,
+    cutoffDate,
+    dryRun: isDryRun,
+  });
+}
+
+export async function GET(request: NextRequest) {
+  return handleCronRequest(request);
+}
+
+export async function POST(request: NextRequest) {
+  return handleCronRequest(request);
+}
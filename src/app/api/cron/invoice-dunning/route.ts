@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getInvoiceService, type InvoiceDunningResult } from '@/lib/services/invoiceService';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Verify the request is from Vercel Cron
+ */
+function verifyCronRequest(request: NextRequest): boolean {
+  const authHeader = request.headers.get('Authorization');
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (!cronSecret) {
+    console.error('[Invoice Dunning Cron] CRON_SECRET not set');
+    return false;
+  }
+
+  if (authHeader?.startsWith('Bearer ')) {
+    return authHeader.substring(7) === cronSecret;
+  }
+
+  const cronHeader = request.headers.get('X-Cron-Secret');
+  return cronHeader === cronSecret;
+}
+
+interface CronResult {
+  status: string;
+  dunning?: InvoiceDunningResult;
+}
+
+async function handleCronRequest(request: NextRequest): Promise<NextResponse<CronResult>> {
+  if (!verifyCronRequest(request)) {
+    return NextResponse.json({ status: 'unauthorized' }, { status: 401 });
+  }
+
+  const url = new URL(request.url);
+  const isDryRun = url.searchParams.get('dryRun') === 'true';
+
+  console.log(`[Invoice Dunning Cron] Starting${isDryRun ? ' (DRY RUN)' : ''}`);
+
+  const dunningResult = await getInvoiceService().processInvoiceDunning(isDryRun);
+  console.log('[Invoice Dunning Cron] Result:', dunningResult);
+
+  return NextResponse.json({
+    status: 'ok',
+    dunning: dunningResult,
+  });
+}
+
+export async function GET(request: NextRequest) {
+  return handleCronRequest(request);
+}
+
+export async function POST(request: NextRequest) {
+  return handleCronRequest(request);
+}
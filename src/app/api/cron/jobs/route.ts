@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getJobService, JOB_RUN_BUDGET_MS } from '@/lib/services/jobService';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 300;
+
+/**
+ * GET/POST /api/cron/jobs
+ *
+ * Background job runner. Claims due jobs (queued and past run_after, or
+ * running with an expired lock) and works through their steps until the
+ * time budget is used up; unfinished jobs are re-queued and continue on the
+ * next invocation.
+ *
+ * Triggered every minute by Vercel cron, and kicked by jobService.enqueue()
+ * so new jobs start right away.
+ */
+
+function verifyCronRequest(request: NextRequest): boolean {
+  const authHeader = request.headers.get('Authorization');
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret) {
+    console.error('[Jobs Cron] CRON_SECRET not set');
+    return false;
+  }
+  if (authHeader?.startsWith('Bearer ')) {
+    return authHeader.substring(7) === cronSecret;
+  }
+  const cronHeader = request.headers.get('X-Cron-Secret');
+  return cronHeader === cronSecret;
+}
+
+async function handleCron(request: NextRequest) {
+  if (!verifyCronRequest(request)) {
+    return NextResponse.json({ status: 'unauthorized' }, { status: 401 });
+  }
+
+  const startedAt = Date.now();
+  try {
+    const { ran, remaining } = await getJobService().runDueJobs(startedAt + JOB_RUN_BUDGET_MS);
+    if (ran > 0 || remaining > 0) {
+      console.log(`[Jobs Cron] Ran ${ran} job(s), ${remaining} left for the next run (${Date.now() - startedAt}ms)`);
+    }
+    return NextResponse.json({ status: 'ok', ran, remaining });
+  } catch (error) {
+    console.error('[Jobs Cron] Runner failed:', error);
+    return NextResponse.json(
+      { status: 'error', error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET(request: NextRequest) {
+  return handleCron(request);
+}
+
+export async function POST(request: NextRequest) {
+  return handleCron(request);
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { processLeadFollowUpReminders, processLeadNurtureEmails } from '@/lib/services/leadAutomationService';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Verify the request is from Vercel Cron
+ */
+function verifyCronRequest(request: NextRequest): boolean {
+  const authHeader = request.headers.get('Authorization');
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (!cronSecret) {
+    console.error('[Lead Automation Cron] CRON_SECRET not set');
+    return false;
+  }
+
+  if (authHeader?.startsWith('Bearer ')) {
+    return authHeader.substring(7) === cronSecret;
+  }
+
+  const cronHeader = request.headers.get('X-Cron-Secret');
+  return cronHeader === cronSecret;
+}
+
+interface CronResult {
+  status: string;
+  followUps?: { sent: number; skipped: number; failed: number; errors: string[] };
+  nurture?: { sent: number; skipped: number; failed: number; errors: string[] };
+}
+
+async function handleCronRequest(request: NextRequest): Promise<NextResponse<CronResult>> {
+  if (!verifyCronRequest(request)) {
+    return NextResponse.json({ status: 'unauthorized' }, { status: 401 });
+  }
+
+  const url = new URL(request.url);
+  const isDryRun = url.searchParams.get('dryRun') === 'true';
+
+  console.log(`[Lead Automation Cron] Starting${isDryRun ? ' (DRY RUN)' : ''}`);
+
+  const followUpsResult = await processLeadFollowUpReminders(isDryRun);
+  console.log('[Lead Automation Cron] Follow-up digest:', followUpsResult);
+
+  const nurtureResult = await processLeadNurtureEmails(isDryRun);
+  console.log('[Lead Automation Cron] Nurture emails:', nurtureResult);
+
+  return NextResponse.json({
+    status: 'ok',
+    followUps: followUpsResult,
+    nurture: nurtureResult,
+  });
+}
+
+export async function GET(request: NextRequest) {
+  return handleCronRequest(request);
+}
+
+export async function POST(request: NextRequest) {
+  return handleCronRequest(request);
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getStockService, type StockReconcileResult } from '@/lib/services/stockService';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Verify the request is from Vercel Cron
+ */
+function verifyCronRequest(request: NextRequest): boolean {
+  const authHeader = request.headers.get('Authorization');
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (!cronSecret) {
+    console.error('[Stock Reconcile Cron] CRON_SECRET not set');
+    return false;
+  }
+
+  if (authHeader?.startsWith('Bearer ')) {
+    return authHeader.substring(7) === cronSecret;
+  }
+
+  const cronHeader = request.headers.get('X-Cron-Secret');
+  return cronHeader === cronSecret;
+}
+
+interface CronResult {
+  status: string;
+  reconcile?: StockReconcileResult;
+}
+
+/**
+ * Reset stock on-hand to the sum of its movements where an adjustment raced
+ * past the row lock (see StockService.reconcileOnHand)
+ */
+async function handleCronRequest(request: NextRequest): Promise<NextResponse<CronResult>> {
+  if (!verifyCronRequest(request)) {
+    return NextResponse.json({ status: 'unauthorized' }, { status: 401 });
+  }
+
+  const url = new URL(request.url);
+  const isDryRun = url.searchParams.get('dryRun') === 'true';
+
+  console.log(`[Stock Reconcile Cron] Starting${isDryRun ? ' (DRY RUN)' : ''}`);
+
+  const reconcileResult = await getStockService().reconcileOnHand(isDryRun);
+  console.log('[Stock Reconcile Cron] Result:', reconcileResult);
+
+  return NextResponse.json({
+    status: 'ok',
+    reconcile: reconcileResult,
+  });
+}
+
+export async function GET(request: NextRequest) {
+  return handleCronRequest(request);
+}
+
+export async function POST(request: NextRequest) {
+  return handleCronRequest(request);
+}
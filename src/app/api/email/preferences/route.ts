@@ -0,0 +1,78 @@
+/**
+ * Email Preference Center Endpoint
+ *
+ * GET returns the parent's per-category email preferences, PUT stores them.
+ * Both verify the HMAC-signed email parameter from the email footer link.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyUnsubscribeSignature } from '@/lib/utils/unsubscribe';
+import { getAirtableService } from '@/lib/services/airtableService';
+import { PARENT_EMAIL_CATEGORIES, ParentEmailPreferences } from '@/lib/utils/emailPreferences';
+
+export const dynamic = 'force-dynamic';
+
+function getSignedEmail(request: NextRequest): string | null {
+  const { searchParams } = new URL(request.url);
+  const email = searchParams.get('email');
+  const sig = searchParams.get('sig');
+
+  if (!email || !sig || !verifyUnsubscribeSignature(email, sig)) {
+    return null;
+  }
+  return email;
+}
+
+export async function GET(request: NextRequest) {
+  const email = getSignedEmail(request);
+  if (!email) {
+    return NextResponse.json({ error: 'Invalid link' }, { status: 400 });
+  }
+
+  try {
+    const preferences = await getAirtableService().getParentEmailPreferencesByEmail(email);
+    if (!preferences) {
+      return NextResponse.json({ error: 'Invalid link' }, { status: 400 });
+    }
+
+    return NextResponse.json({ success: true, data: { email: email.toLowerCase(), preferences } });
+  } catch (error) {
+    console.error('[EmailPreferences] Error loading preferences:', error);
+    return NextResponse.json({ error: 'Failed to load preferences' }, { status: 500 });
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  const email = getSignedEmail(request);
+  if (!email) {
+    return NextResponse.json({ error: 'Invalid link' }, { status: 400 });
+  }
+
+  try {
+    const body = await request.json();
+    const preferences = body?.preferences;
+    if (
+      !preferences ||
+      typeof preferences !== 'object' ||
+      !PARENT_EMAIL_CATEGORIES.every((category) => typeof preferences[category] === 'boolean')
+    ) {
+      return NextResponse.json(
+        { error: `preferences must set ${PARENT_EMAIL_CATEGORIES.join(', ')} to true or false` },
+        { status: 400 }
+      );
+    }
+
+    const updated = await getAirtableService().updateParentEmailPreferencesByEmail(
+      email,
+      preferences as ParentEmailPreferences
+    );
+    if (!updated) {
+      return NextResponse.json({ error: 'Invalid link' }, { status: 400 });
+    }
+
+    return NextResponse.json({ success: true, data: { preferences } });
+  } catch (error) {
+    console.error('[EmailPreferences] Error saving preferences:', error);
+    return NextResponse.json({ error: 'Failed to save preferences' }, { status: 500 });
+  }
+}
@@ -1,12 +1,14 @@
 /**
  * Email Unsubscribe Endpoint
  *
- * Handles both GET (browser click) and POST (RFC 8058 List-Unsubscribe-Post).
- * Verifies HMAC-signed email parameter, then sets parent's email_campaigns to 'no'.
+ * POST (RFC 8058 List-Unsubscribe-Post) verifies the HMAC-signed email
+ * parameter, then sets parent's email_campaigns to 'no'.
+ * GET (browser click on the footer link) opens the preference center, so
+ * parents can keep e.g. audio-ready notices while dropping promotions.
  */
 
-import { NextRequest } from 'next/server';
-import { verifyUnsubscribeSignature } from '@/lib/utils/unsubscribe';
+import { NextRequest, NextResponse } from 'next/server';
+import { generatePreferenceCenterUrl, verifyUnsubscribeSignature } from '@/lib/utils/unsubscribe';
 import { getAirtableService } from '@/lib/services/airtableService';
 
 export const dynamic = 'force-dynamic';
@@ -120,7 +122,15 @@ async function handleUnsubscribe(request: NextRequest): Promise<Response> {
 }
 
 export async function GET(request: NextRequest): Promise<Response> {
-  return handleUnsubscribe(request);
+  const { searchParams } = new URL(request.url);
+  const email = searchParams.get('email');
+  const sig = searchParams.get('sig');
+
+  if (!email || !sig || !verifyUnsubscribeSignature(email, sig)) {
+    return errorPage();
+  }
+
+  return NextResponse.redirect(generatePreferenceCenterUrl(email), 303);
 }
 
 export async function POST(request: NextRequest): Promise<Response> {
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyEngineerSession } from '@/lib/auth/verifyEngineerSession';
+import { getAirtableService } from '@/lib/services/airtableService';
+import { isMasteringPresetId } from '@/lib/config/audioMastering';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/engineer/events/[eventId]/mastering-preset
+ * Set the loudness preset finals of this event are normalized to.
+ * Applies to tracks processed from now on; already processed finals keep
+ * their stored loudness until they are re-uploaded.
+ *
+ * Request body: { preset: MasteringPresetId }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { eventId: string } }
+) {
+  try {
+    const session = verifyEngineerSession(request);
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const eventId = decodeURIComponent(params.eventId);
+    const { preset } = await request.json();
+
+    if (!isMasteringPresetId(preset)) {
+      return NextResponse.json(
+        { error: 'Unknown mastering preset' },
+        { status: 400 }
+      );
+    }
+
+    const airtableService = getAirtableService();
+    const isAssigned = await airtableService.isEngineerAssignedToEvent(
+      session.engineerId,
+      eventId
+    );
+
+    if (!isAssigned) {
+      return NextResponse.json(
+        { error: 'You are not assigned to this event' },
+        { status: 403 }
+      );
+    }
+
+    const eventRecordId = await airtableService.getEventsRecordIdByBookingId(eventId);
+    if (!eventRecordId) {
+      return NextResponse.json({ error: 'Event not found' }, { status: 404 });
+    }
+
+    await airtableService.updateEventFields(eventRecordId, { mastering_preset: preset });
+
+    return NextResponse.json({
+      success: true,
+      masteringPreset: preset,
+    });
+  } catch (error) {
+    console.error('Error updating mastering preset:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to update mastering preset',
+      },
+      { status: 500 }
+    );
+  }
+}
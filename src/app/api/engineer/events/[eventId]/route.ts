@@ -4,6 +4,8 @@ import { getAirtableService } from '@/lib/services/airtableService';
 import { getTeacherService } from '@/lib/services/teacherService';
 import { getR2Service } from '@/lib/services/r2Service';
 import { ENGINEER_IDS } from '@/lib/config/engineers';
+import { resolveMasteringPreset } from '@/lib/config/audioMastering';
+import { getAudioQualityWarnings } from '@/lib/utils/audioAnalysis';
 import {
   EngineerEventDetail,
   EngineerClassView,
@@ -137,6 +139,12 @@ export async function GET(
 
         const songs: EngineerSongView[] = classSongs.map(song => {
           const songFiles = classAudioFiles.filter(f => f.songId === song.id);
+          const finalMp3File = songFiles.find(f => f.type === 'final' && f.r2Key.endsWith('.mp3'))
+            || songFiles.find(f => f.type === 'final' && f.mp3R2Key);
+          const finalWavFile = songFiles.find(f => f.type === 'final' && f.r2Key.endsWith('.wav'));
+          // Compare the uploaded master (WAV if there is one) against the analyzed raw
+          const analyzedFinal = [finalWavFile, finalMp3File].find(f => f?.analyzedAt);
+          const analyzedRaw = songFiles.find(f => f.type === 'raw' && f.analyzedAt);
           return {
             songId: song.id,
             songTitle: song.title,
@@ -147,9 +155,9 @@ export async function GET(
             hiddenByEngineer: song.hiddenByEngineer,
             previewFile: songFiles.find(f => f.type === 'preview')
               || songFiles.find(f => f.type === 'final' && f.previewR2Key),
-            finalMp3File: songFiles.find(f => f.type === 'final' && f.r2Key.endsWith('.mp3'))
-              || songFiles.find(f => f.type === 'final' && f.mp3R2Key),
-            finalWavFile: songFiles.find(f => f.type === 'final' && f.r2Key.endsWith('.wav')),
+            finalMp3File,
+            finalWavFile,
+            qualityWarnings: analyzedFinal ? getAudioQualityWarnings(analyzedFinal, analyzedRaw) : undefined,
           };
         });
 
@@ -241,6 +249,7 @@ export async function GET(
       isSchulsong: event.isSchulsong,
       schulsongClass: schulsongClassView,
       audioPipelineStage: event.audioPipelineStage as EngineerEventDetail['audioPipelineStage'],
+      masteringPreset: resolveMasteringPreset(event.masteringPreset).id,
       assignedStaff: event.assignedStaff,
       logicProjects: logicProjects.length > 0 ? logicProjects : undefined,
     };
@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { verifyEngineerSession } from '@/lib/auth/verifyEngineerSession';
 import { getTeacherService } from '@/lib/services/teacherService';
 import { getR2Service } from '@/lib/services/r2Service';
+import { getJobService } from '@/lib/services/jobService';
+import type { AudioAnalyzeJobPayload } from '@/lib/services/jobHandlers';
 export const dynamic = 'force-dynamic';
 
 /**
@@ -88,7 +90,8 @@ export async function POST(
 
 /**
  * PUT /api/engineer/events/[eventId]/songs/[songId]/upload-final
- * Confirm successful upload and create AudioFile record in Airtable
+ * Confirm successful upload, create AudioFile record in Airtable and queue
+ * its analysis ('audio.analyze' job)
  */
 export async function PUT(
   request: NextRequest,
@@ -138,6 +141,17 @@ export async function PUT(
       status: 'ready',
     });
 
+    // Queue duration/level/silence analysis of the uploaded file
+    try {
+      await getJobService().enqueue<AudioAnalyzeJobPayload>(
+        'audio.analyze',
+        { audioFileId: audioFile.id, r2Key, filename },
+        { label: `Audio analysis – ${filename}`, createdBy: session.email }
+      );
+    } catch (e) {
+      console.error('Error queueing audio analysis:', e);
+    }
+
     return NextResponse.json({
       success: true,
       audioFile,
@@ -1,11 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { verifyParentSession } from '@/lib/auth/verifyParentSession';
 import { hasMinicardForEvent } from '@/lib/utils/minicardAccess';
-import { resolveAudioFreeForAll, shouldEmitDownloads } from '@/lib/utils/audioAccessGate';
+import { resolveAudioFreeForAll, resolveAudioRelease, shouldEmitDownloads } from '@/lib/utils/audioAccessGate';
 import { getAirtableService } from '@/lib/services/airtableService';
 import { getTeacherService } from '@/lib/services/teacherService';
 import { getR2Service } from '@/lib/services/r2Service';
-import { parseOverrides, getThreshold } from '@/lib/utils/eventThresholds';
 import type { Song, AudioFile } from '@/lib/types/teacher';
 
 export const dynamic = 'force-dynamic';
@@ -83,33 +82,10 @@ export async function GET(request: NextRequest) {
     const teacherService = getTeacherService();
     const r2 = getR2Service();
 
-    // 1. Check release timing (purely time-based, with per-event overrides)
+    // 1. Check release timing (purely time-based, with per-event overrides,
+    //    the audio_hidden kill-switch and the schulsong gate)
     const event = await airtableService.getEventByEventId(eventId);
-    const eventDate = event?.event_date ? new Date(event.event_date) : null;
-    const overrides = parseOverrides(event?.timeline_overrides);
-    const previewDays = getThreshold('preview_available_days', overrides);
-    const releaseDays = getThreshold('full_release_days', overrides);
-
-    const previewDate = eventDate ? new Date(eventDate) : null;
-    if (previewDate) previewDate.setDate(previewDate.getDate() + previewDays);
-
-    const releaseDate = eventDate ? new Date(eventDate) : null;
-    if (releaseDate) releaseDate.setDate(releaseDate.getDate() + releaseDays);
-
-    const now = new Date();
-
-    // Audio visibility kill-switch: stored in timeline_overrides.audio_hidden.
-    // Default (absent) = visible. Admin can toggle audio_hidden=true to block parent access.
-    const audioHidden = overrides?.audio_hidden === true;
-
-    // Schulsong gate: if event has schulsong, also require schulsong_released_at to have passed
-    // This holds class audio release until schulsong is approved (creating unified "moment")
-    const schulsongGatePassed = event?.is_schulsong
-      ? !!(event.schulsong_released_at && new Date(event.schulsong_released_at) <= now)
-      : true; // Non-schulsong events: no gate
-
-    const hasPreviewsAvailable = previewDate ? now >= previewDate && !audioHidden : false;
-    const isReleased = releaseDate ? now >= releaseDate && !audioHidden && schulsongGatePassed : false;
+    const { previewDate, hasPreviewsAvailable, isReleased } = resolveAudioRelease(event);
 
     // 2. Check audio access.
     // Downloads require a Minicard purchase UNLESS this event is explicitly marked
@@ -354,37 +330,6 @@ async function buildGroupAudio(
   return {};
 }
 
-/**
- * Resolve the best available R2 key for an audio file.
- * Checks in order: mp3R2Key → canonical final path → r2Key
- */
-async function resolveAudioFileUrl(
-  r2: ReturnType<typeof getR2Service>,
-  af: AudioFile,
-  eventId: string,
-  classId: string
-): Promise<string | null> {
-  // 1. Processed MP3
-  if (af.mp3R2Key && await r2.fileExists(af.mp3R2Key)) {
-    return af.mp3R2Key;
-  }
-
-  // 2. Canonical path
-  if (af.songId) {
-    const canonicalKey = `recordings/${eventId}/${classId}/${af.songId}/final/final.mp3`;
-    if (await r2.fileExists(canonicalKey)) {
-      return canonicalKey;
-    }
-  }
-
-  // 3. Original upload
-  if (af.r2Key && await r2.fileExists(af.r2Key)) {
-    return af.r2Key;
-  }
-
-  return null;
-}
-
 /**
  * Build the full all-audio tracklist for an event.
  * Returns every class, collection, and group with per-song streaming/download URLs.
@@ -448,7 +393,7 @@ async function buildAllAudio(
 
       // Process each audio file for this class
       const trackPromises = classAudioFiles.map(async (af) => {
-        const r2Key = await resolveAudioFileUrl(r2, af, eventId, cls.classId);
+        const r2Key = await r2.resolveAudioFileKey(af, eventId, cls.classId);
         if (!r2Key) {
           console.warn(`[buildAllAudio] No R2 key found for audio file ${af.id} in class ${cls.classId}`);
           return null;
@@ -515,7 +460,7 @@ async function buildAllAudio(
         const groupAudioFiles = audioFilesByClass.get(group.groupId) || [];
 
         for (const af of groupAudioFiles) {
-          const r2Key = await resolveAudioFileUrl(r2, af, eventId, group.groupId);
+          const r2Key = await r2.resolveAudioFileKey(af, eventId, group.groupId);
           if (!r2Key) continue;
 
           const song = af.songId ? songMap.get(af.songId) : undefined;
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyParentSession } from '@/lib/auth/verifyParentSession';
+import { getParentOrderService } from '@/lib/services/parentOrderService';
+import { ApiResponse } from '@/lib/types';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/parent/orders/[orderId]/size-exchange
+ * Request a different size for a clothing item of a paid order.
+ * Body: { variantId, requestedSize, note? }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ orderId: string }> }
+) {
+  try {
+    const session = verifyParentSession(request);
+    if (!session) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const { orderId } = await params;
+    if (!/^rec[A-Za-z0-9]{14}$/.test(orderId)) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: 'Invalid order ID' },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json();
+    const { variantId, requestedSize, note } = body;
+
+    if (!variantId || typeof requestedSize !== 'string' || !requestedSize) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: 'variantId and requestedSize are required' },
+        { status: 400 }
+      );
+    }
+
+    try {
+      const exchangeRequest = await getParentOrderService().requestSizeExchange(
+        session.parentId,
+        orderId,
+        {
+          variantId: String(variantId),
+          requestedSize,
+          note: typeof note === 'string' ? note : undefined,
+        }
+      );
+
+      return NextResponse.json<ApiResponse>({
+        success: true,
+        data: { request: exchangeRequest },
+      });
+    } catch (validationError) {
+      const message = validationError instanceof Error ? validationError.message : 'Cannot request exchange';
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: message },
+        { status: message === 'Order not found' ? 404 : 400 }
+      );
+    }
+  } catch (error) {
+    console.error('Error requesting size exchange:', error);
+    return NextResponse.json<ApiResponse>(
+      { success: false, error: 'Failed to request size exchange' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyParentSession } from '@/lib/auth/verifyParentSession';
+import { getParentOrderService } from '@/lib/services/parentOrderService';
+import { ApiResponse } from '@/lib/types';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/parent/orders?eventId={eventId}
+ * The parent's orders for an event with the wave and expected ship date of
+ * each item and Shopify tracking once fulfilled ("Meine Bestellungen")
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = verifyParentSession(request);
+    if (!session) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const eventId = request.nextUrl.searchParams.get('eventId');
+    if (!eventId) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: 'eventId is required' },
+        { status: 400 }
+      );
+    }
+
+    // Verify parent has access to this event
+    const hasAccess = session.children?.some(c => c.eventId === eventId)
+      || session.eventId === eventId;
+    if (!hasAccess) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: 'You do not have access to this event' },
+        { status: 403 }
+      );
+    }
+
+    const orders = await getParentOrderService().getOrdersForEvent(session.parentId, eventId);
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      data: { orders },
+    });
+  } catch (error) {
+    console.error('Error fetching parent orders:', error);
+    return NextResponse.json<ApiResponse>(
+      { success: false, error: 'Failed to fetch orders' },
+      { status: 500 }
+    );
+  }
+}
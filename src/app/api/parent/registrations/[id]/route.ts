@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import jwt from 'jsonwebtoken';
 import { getAirtableService } from '@/lib/services/airtableService';
+import { getConsentService } from '@/lib/services/consentService';
 import { ApiResponse, ParentSession } from '@/lib/types';
+import { parseConsentChoices, type ChildConsents } from '@/lib/utils/childConsent';
 
 export const dynamic = 'force-dynamic';
 
@@ -41,12 +43,20 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
     }
 
     const { id } = await params;
-    const { childName, classId } = await request.json();
+    const { childName, classId, consents } = await request.json();
 
     // Validate at least one field to update
-    if (!childName && !classId) {
+    if (!childName && !classId && consents === undefined) {
       return NextResponse.json<ApiResponse>(
-        { success: false, error: 'At least one field (childName or classId) required' },
+        { success: false, error: 'At least one field (childName, classId or consents) required' },
+        { status: 400 }
+      );
+    }
+
+    const consentChoices = consents === undefined ? undefined : parseConsentChoices(consents);
+    if (consentChoices === null) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: 'Invalid consent choices' },
         { status: 400 }
       );
     }
@@ -87,18 +97,25 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
     }
 
     // Perform update
-    const result = await airtableService.updateChildRegistration(id, updates);
+    if (updates.childName || updates.classId) {
+      const result = await airtableService.updateChildRegistration(id, updates);
 
-    if (!result.success) {
-      return NextResponse.json<ApiResponse>(
-        { success: false, error: result.error || 'Failed to update registration' },
-        { status: 500 }
-      );
+      if (!result.success) {
+        return NextResponse.json<ApiResponse>(
+          { success: false, error: result.error || 'Failed to update registration' },
+          { status: 500 }
+        );
+      }
+    }
+
+    let updatedConsents: ChildConsents | undefined;
+    if (consentChoices) {
+      updatedConsents = await getConsentService().recordConsents(id, consentChoices, 'parent_portal');
     }
 
     return NextResponse.json<ApiResponse>({
       success: true,
-      data: { registrationId: id, ...updates },
+      data: { registrationId: id, ...updates, consents: updatedConsents },
       message: 'Registration updated successfully',
     });
   } catch (error) {
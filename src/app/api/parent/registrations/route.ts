@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import jwt from 'jsonwebtoken';
 import { getAirtableService } from '@/lib/services/airtableService';
 import { ApiResponse, ParentSession } from '@/lib/types';
+import { parseConsentChoices } from '@/lib/utils/childConsent';
 
 export const dynamic = 'force-dynamic';
 
@@ -82,7 +83,7 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { eventId, classId, childName } = await request.json();
+    const { eventId, classId, childName, consents } = await request.json();
 
     // Validate required fields
     if (!eventId || !classId || !childName) {
@@ -101,6 +102,15 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Validate consent choices (optional, but every scope must be answered)
+    const consentChoices = consents === undefined ? undefined : parseConsentChoices(consents, true);
+    if (consentChoices === null) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: 'Invalid consent choices' },
+        { status: 400 }
+      );
+    }
+
     const airtableService = getAirtableService();
 
     // Check for duplicate child name in this event
@@ -129,7 +139,8 @@ export async function POST(request: NextRequest) {
       session.email,
       eventId,
       classId,
-      trimmedName
+      trimmedName,
+      consentChoices
     );
 
     if (!result.success) {
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyParentSession } from '@/lib/auth/verifyParentSession';
+import { getShareLinkService } from '@/lib/services/shareLinkService';
+import { getRepositories } from '@/lib/repositories';
+import { ApiResponse } from '@/lib/types';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * DELETE /api/parent/share-links/[linkId]
+ * Revoke one of the parent's share links. The link row is kept so its
+ * play counts stay visible.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ linkId: string }> }
+) {
+  try {
+    const session = verifyParentSession(request);
+    if (!session) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const { linkId } = await params;
+    if (!/^rec[A-Za-z0-9]{14}$/.test(linkId)) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: 'Invalid link ID' },
+        { status: 400 }
+      );
+    }
+
+    // Links store the Parents record, not the session's custom parent ID
+    const parent = await getRepositories().parents.findByParentId(session.parentId);
+    const link = parent ? await getShareLinkService().revokeLink(parent.id, linkId) : null;
+    if (!link) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: 'Share link not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      data: { link },
+    });
+  } catch (error) {
+    console.error('Error revoking share link:', error);
+    return NextResponse.json<ApiResponse>(
+      { success: false, error: 'Failed to revoke share link' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,152 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyParentSession } from '@/lib/auth/verifyParentSession';
+import { getShareLinkService } from '@/lib/services/shareLinkService';
+import { getRepositories } from '@/lib/repositories';
+import { SHARE_LINK_PLAY_LIMITS, SHARE_LINK_VALIDITY_DAYS } from '@/lib/utils/shareLinks';
+import { ApiResponse, ParentSession } from '@/lib/types';
+
+export const dynamic = 'force-dynamic';
+
+function hasEventAccess(session: ParentSession, eventId: string): boolean {
+  return session.children?.some(
+    (child) => child.eventId === eventId || child.bookingId === eventId
+  ) ?? false;
+}
+
+/**
+ * Share links link the Parents record; the session carries the custom
+ * parent ID (PAR-…)
+ */
+async function findParentRecordId(session: ParentSession): Promise<string | null> {
+  const parent = await getRepositories().parents.findByParentId(session.parentId);
+  return parent?.id ?? null;
+}
+
+function parentNotFound() {
+  return NextResponse.json<ApiResponse>(
+    { success: false, error: 'Parent not found' },
+    { status: 404 }
+  );
+}
+
+/**
+ * GET /api/parent/share-links?eventId={eventId}
+ * The parent's family share links for an event, whether they can create
+ * one right now, and the validity / play limit choices
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = verifyParentSession(request);
+    if (!session) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const eventId = request.nextUrl.searchParams.get('eventId');
+    if (!eventId) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: 'eventId is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!hasEventAccess(session, eventId)) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: 'You do not have access to this event' },
+        { status: 403 }
+      );
+    }
+
+    const parentRecordId = await findParentRecordId(session);
+    if (!parentRecordId) return parentNotFound();
+
+    const shareLinkService = getShareLinkService();
+    const [links, canShare] = await Promise.all([
+      shareLinkService.listForParent(parentRecordId, eventId),
+      shareLinkService.canShare(parentRecordId, eventId),
+    ]);
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      data: {
+        links,
+        canShare,
+        validityDays: SHARE_LINK_VALIDITY_DAYS,
+        playLimits: SHARE_LINK_PLAY_LIMITS,
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching share links:', error);
+    return NextResponse.json<ApiResponse>(
+      { success: false, error: 'Failed to fetch share links' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/parent/share-links
+ * Create a share link for an event whose recordings the parent can download.
+ * Body: { eventId, classId?, label, validityDays, maxPlays }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = verifyParentSession(request);
+    if (!session) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const { eventId, classId, label, validityDays, maxPlays } = await request.json();
+
+    if (typeof eventId !== 'string' || !eventId || typeof label !== 'string') {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: 'eventId and label are required' },
+        { status: 400 }
+      );
+    }
+
+    if (!hasEventAccess(session, eventId)) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: 'You do not have access to this event' },
+        { status: 403 }
+      );
+    }
+
+    const parentRecordId = await findParentRecordId(session);
+    if (!parentRecordId) return parentNotFound();
+
+    try {
+      const link = await getShareLinkService().createLink(parentRecordId, {
+        eventId,
+        classId: typeof classId === 'string' && classId ? classId : undefined,
+        label,
+        validityDays: Number(validityDays),
+        maxPlays: Number(maxPlays),
+      });
+
+      return NextResponse.json<ApiResponse>({
+        success: true,
+        data: { link },
+      });
+    } catch (validationError) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: validationError instanceof Error ? validationError.message : 'Cannot create share link',
+        },
+        { status: 400 }
+      );
+    }
+  } catch (error) {
+    console.error('Error creating share link:', error);
+    return NextResponse.json<ApiResponse>(
+      { success: false, error: 'Failed to create share link' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getShareLinkService } from '@/lib/services/shareLinkService';
+import { SHARE_LINK_DENIED_STATUS_CODES } from '@/lib/utils/shareLinks';
+import { ApiResponse } from '@/lib/types';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/share/[token]/play
+ * Public: count a play (or download) through a family share link and return
+ * a short-lived signed URL for the track.
+ * Body: { audioFileId, download? }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+    const { audioFileId, download } = await request.json();
+
+    if (typeof audioFileId !== 'string' || !audioFileId) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: 'audioFileId is required' },
+        { status: 400 }
+      );
+    }
+
+    const result = await getShareLinkService().play(token, audioFileId, download === true);
+
+    if (result.status !== 'active') {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: `Share link ${result.status}`, data: { status: result.status } },
+        { status: SHARE_LINK_DENIED_STATUS_CODES[result.status] }
+      );
+    }
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      data: { url: result.url, remainingPlays: result.remainingPlays },
+    });
+  } catch (error) {
+    console.error('Error playing share link track:', error);
+    return NextResponse.json<ApiResponse>(
+      { success: false, error: 'Failed to play track' },
+      { status: 500 }
+    );
+  }
+}
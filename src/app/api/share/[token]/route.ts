@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getShareLinkService } from '@/lib/services/shareLinkService';
+import { SHARE_LINK_DENIED_STATUS_CODES } from '@/lib/utils/shareLinks';
+import { ApiResponse } from '@/lib/types';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/share/[token]
+ * Public: the tracks a family share link gives access to (no audio URLs -
+ * each play is requested and counted separately)
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+    const access = await getShareLinkService().resolve(token);
+
+    if (access.status !== 'active') {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: `Share link ${access.status}`, data: { status: access.status } },
+        { status: SHARE_LINK_DENIED_STATUS_CODES[access.status] }
+      );
+    }
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      data: access,
+    });
+  } catch (error) {
+    console.error('Error resolving share link:', error);
+    return NextResponse.json<ApiResponse>(
+      { success: false, error: 'Failed to load share link' },
+      { status: 500 }
+    );
+  }
+}
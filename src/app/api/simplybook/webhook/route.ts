@@ -1,6 +1,6 @@
 import { NextResponse } from 'next/server';
 import { simplybookService } from '@/lib/services/simplybookService';
-import { SimplybookWebhookPayload } from '@/lib/types/simplybook';
+import { SimplybookWebhookPayload, SimplybookWebhookLogStatus } from '@/lib/types/simplybook';
 import {
   SCHOOL_BOOKINGS_TABLE_ID,
   SCHOOL_BOOKINGS_FIELD_IDS,
@@ -12,6 +12,16 @@ import { getTeacherService } from '@/lib/services/teacherService';
 import { generateEventId } from '@/lib/utils/eventIdentifiers';
 import { triggerNewBookingNotification, triggerUnassignedStaffNotification } from '@/lib/services/notificationService';
 import { getActivityService } from '@/lib/services/activityService';
+import {
+  getSimplybookWebhookLogService,
+  type SimplybookWebhookClaim,
+} from '@/lib/services/simplybookWebhookLogService';
+import {
+  verifySimplybookWebhook,
+  parseSimplybookWebhookPayload,
+  isExpectedSimplybookCompany,
+  SIMPLYBOOK_SIGNATURE_HEADER,
+} from '@/lib/utils/simplybookWebhook';
 import Airtable from 'airtable';
 
 export const dynamic = 'force-dynamic';
@@ -24,28 +34,95 @@ const airtable = new Airtable({ apiKey: airtableApiKey }).base(airtableBaseId);
 /**
  * POST /api/simplybook/webhook
  * Receives webhook notifications from SimplyBook when bookings are created/changed/cancelled
+ *
+ * 1. Verify origin (URL token or X-Simplybook-Signature, see utils/simplybookWebhook.ts)
+ * 2. Reject notifications for any company other than our SimplyBook account
+ * 3. Claim the notification in the webhook log; redelivered, concurrent or
+ *    superseded notifications are acknowledged without running a handler, and a
+ *    change/cancel that overtook its create gets a 503 so SimplyBook redelivers it
+ * 4. Run the create/change/cancel handler and record its outcome in the log
  */
 export async function POST(request: Request) {
+  let rawBody: string;
   try {
-    const payload: SimplybookWebhookPayload = await request.json();
+    rawBody = await request.text();
+  } catch {
+    return NextResponse.json({ status: 'error', error: 'Invalid body' }, { status: 400 });
+  }
 
-    console.log('SimplyBook webhook received:', {
-      booking_id: payload.booking_id,
-      notification_type: payload.notification_type,
-      company: payload.company,
-    });
+  const urlToken = new URL(request.url).searchParams.get('token');
+  if (!verifySimplybookWebhook(rawBody, request.headers.get(SIMPLYBOOK_SIGNATURE_HEADER), urlToken)) {
+    console.error('[SimplyBook] Webhook verification failed');
+    return NextResponse.json({ status: 'error', error: 'Unauthorized' }, { status: 401 });
+  }
 
-    // Route to appropriate handler based on notification type
-    if (payload.notification_type === 'change') {
-      return handleBookingChange(payload);
-    }
+  const payload = parseSimplybookWebhookPayload(rawBody);
+  if (!payload) {
+    return NextResponse.json({ status: 'error', error: 'Invalid payload' }, { status: 400 });
+  }
 
-    if (payload.notification_type === 'cancel') {
-      return handleBookingCancel(payload);
-    }
+  console.log('SimplyBook webhook received:', {
+    booking_id: payload.booking_id,
+    notification_type: payload.notification_type,
+    company: payload.company,
+  });
+
+  if (!isExpectedSimplybookCompany(payload.company)) {
+    console.warn('[SimplyBook] Rejected webhook for unknown company:', payload.company);
+    return NextResponse.json({ status: 'rejected', error: 'Unknown company' }, { status: 403 });
+  }
+
+  const webhookLog = getSimplybookWebhookLogService();
+  let claim: SimplybookWebhookClaim;
+  try {
+    claim = await webhookLog.claim(payload);
+  } catch (error) {
+    // Without a log entry we cannot guarantee exactly-once, so let SimplyBook retry
+    console.error('[SimplyBook] Failed to write webhook log:', error);
+    return NextResponse.json({ status: 'error', error: 'Webhook log unavailable' }, { status: 500 });
+  }
+
+  if (claim.action === 'deferred') {
+    console.log(`[SimplyBook] ${payload.notification_type} for booking ${payload.booking_id} deferred: ${claim.reason}`);
+    return NextResponse.json(
+      { status: claim.action, reason: claim.reason, bookingId: payload.booking_id },
+      { status: 503, headers: { 'Retry-After': '60' } }
+    );
+  }
+
+  if (claim.action !== 'apply') {
+    console.log(`[SimplyBook] ${payload.notification_type} for booking ${payload.booking_id} ${claim.action}: ${claim.reason}`);
+    return NextResponse.json({ status: claim.action, reason: claim.reason, bookingId: payload.booking_id });
+  }
+
+  // Route to appropriate handler based on notification type
+  let response: NextResponse;
+  if (payload.notification_type === 'change') {
+    response = await handleBookingChange(payload);
+  } else if (payload.notification_type === 'cancel') {
+    response = await handleBookingCancel(payload);
+  } else {
+    response = await handleBookingCreate(payload);
+  }
+
+  try {
+    const result = await response.clone().json();
+    const status: SimplybookWebhookLogStatus = !response.ok ? 'failed' : result.status === 'skipped' ? 'skipped' : 'applied';
+    await webhookLog.complete(claim.logId, status, result.reason || result.error);
+  } catch (error) {
+    console.error('[SimplyBook] Failed to update webhook log:', error);
+  }
+
+  return response;
+}
 
-    // Handle 'create' notification
-    // Check if booking already exists (idempotency)
+/**
+ * Handle booking create notifications from SimplyBook
+ * Creates the SchoolBooking, Event, R2 folder, default class and teacher, then alerts staff
+ */
+async function handleBookingCreate(payload: SimplybookWebhookPayload) {
+  try {
+    // Check if booking already exists (bookings created before the webhook log existed)
     const existingRecords = await airtable
       .table(SCHOOL_BOOKINGS_TABLE_ID)
       .select({
@@ -3,7 +3,9 @@ import { verifyStaffSession } from '@/lib/auth/verifyStaffSession';
 import { getTeacherService } from '@/lib/services/teacherService';
 import { getAirtableService } from '@/lib/services/airtableService';
 import { getR2Service } from '@/lib/services/r2Service';
+import { getAudioTaggingService } from '@/lib/services/audioTaggingService';
 import { AudioFile } from '@/lib/types/teacher';
+import { getAlbumZipName, matchAlbumTracksToFinals } from '@/lib/utils/albumZip';
 import archiver from 'archiver';
 import { PassThrough } from 'stream';
 
@@ -12,6 +14,10 @@ export const dynamic = 'force-dynamic';
 /**
  * GET /api/staff/events/[eventId]/audio-downloads/zip
  * Stream a zip archive of all final audio tracks for the event.
+ *
+ * With a tracklist the files are in album order ("01. Schulsong.mp3",
+ * "02. Song - Class.mp3"), otherwise one file per class. Every file is
+ * ID3-tagged with the current track number and cover art.
  */
 export async function GET(
   request: NextRequest,
@@ -26,10 +32,11 @@ export async function GET(
     const eventId = decodeURIComponent(params.eventId);
     const teacherService = getTeacherService();
 
-    // Fetch event detail and audio files in parallel
-    const [eventDetail, allAudioFiles] = await Promise.all([
+    // Fetch event detail, audio files and album tracklist in parallel
+    const [eventDetail, allAudioFiles, albumTracks] = await Promise.all([
       getAirtableService().getSchoolEventDetail(eventId),
       teacherService.getAudioFilesByEventId(eventId),
+      teacherService.getAlbumTracksData(eventId),
     ]);
 
     if (!eventDetail) {
@@ -47,57 +54,90 @@ export async function GET(
       );
     }
 
-    // Pick best file per class (prefer MP3 over WAV)
-    const filesByClass = new Map<string, AudioFile[]>();
-    const schulsongFiles: AudioFile[] = [];
-
-    for (const f of finalReadyFiles) {
-      if (f.isSchulsong) {
-        schulsongFiles.push(f);
-        continue;
-      }
-      const existing = filesByClass.get(f.classId) || [];
-      existing.push(f);
-      filesByClass.set(f.classId, existing);
-    }
-
     const filesToZip: { buffer: Buffer; zipName: string }[] = [];
     const r2Service = getR2Service();
+    const taggingService = getAudioTaggingService();
+    const tagging = await taggingService.getAlbumTaggingOrNull(eventId, albumTracks);
+
+    if (albumTracks.length > 0) {
+      // Album order; playable finals first so an MP3 wins over a WAV
+      const usedNames = new Set<string>();
+      const playableFirst = [...finalReadyFiles].sort((a, b) => Number(hasMp3(b)) - Number(hasMp3(a)));
+
+      for (const { track, audio } of matchAlbumTracksToFinals(albumTracks, playableFirst)) {
+        const mp3Key = getMp3Key(audio);
+        if (!mp3Key) {
+          console.error('[staff zip] Skipping track — no MP3 source available', {
+            audioFileId: audio.id, r2Key: audio.r2Key, eventId, classId: audio.classId, songId: audio.songId,
+          });
+          continue;
+        }
 
-    for (const cls of eventDetail.classes) {
-      const candidates = filesByClass.get(cls.classId);
-      if (!candidates || candidates.length === 0) continue;
+        const buffer = await r2Service.getFileBuffer(mp3Key);
+        if (!buffer) continue;
 
-      const best = pickBestFile(candidates);
-      const r2KeyIsMp3 = best.r2Key.toLowerCase().endsWith('.mp3');
-      const mp3Key = best.mp3R2Key || (r2KeyIsMp3 ? best.r2Key : null);
+        let zipName = getAlbumZipName(track);
+        for (let n = 2; usedNames.has(zipName); n++) {
+          zipName = getAlbumZipName(track).replace(/\.mp3$/, ` (${n}).mp3`);
+        }
+        usedNames.add(zipName);
 
-      if (!mp3Key) {
-        console.error('[staff zip] Skipping class — no MP3 source available', {
-          audioFileId: best.id, r2Key: best.r2Key, eventId, classId: best.classId, songId: best.songId,
-        });
-        continue;
+        filesToZip.push({ buffer: taggingService.tagMp3(buffer, tagging, audio), zipName });
       }
-
-      const buffer = await r2Service.getFileBuffer(mp3Key);
-      if (buffer) {
-        filesToZip.push({ buffer, zipName: `${cls.className}.mp3` });
+    } else {
+      // Pick best file per class (prefer MP3 over WAV)
+      const filesByClass = new Map<string, AudioFile[]>();
+      const schulsongFiles: AudioFile[] = [];
+
+      for (const f of finalReadyFiles) {
+        if (f.isSchulsong) {
+          schulsongFiles.push(f);
+          continue;
+        }
+        const existing = filesByClass.get(f.classId) || [];
+        existing.push(f);
+        filesByClass.set(f.classId, existing);
       }
-    }
 
-    if (schulsongFiles.length > 0) {
-      const best = pickBestFile(schulsongFiles);
-      const r2KeyIsMp3 = best.r2Key.toLowerCase().endsWith('.mp3');
-      const mp3Key = best.mp3R2Key || (r2KeyIsMp3 ? best.r2Key : null);
+      for (const cls of eventDetail.classes) {
+        const candidates = filesByClass.get(cls.classId);
+        if (!candidates || candidates.length === 0) continue;
+
+        const best = pickBestFile(candidates);
+        const mp3Key = getMp3Key(best);
+
+        if (!mp3Key) {
+          console.error('[staff zip] Skipping class — no MP3 source available', {
+            audioFileId: best.id, r2Key: best.r2Key, eventId, classId: best.classId, songId: best.songId,
+          });
+          continue;
+        }
 
-      if (!mp3Key) {
-        console.error('[staff zip] Skipping schulsong — no MP3 source available', {
-          audioFileId: best.id, r2Key: best.r2Key, eventId, classId: best.classId,
-        });
-      } else {
         const buffer = await r2Service.getFileBuffer(mp3Key);
         if (buffer) {
-          filesToZip.push({ buffer, zipName: 'Schulsong.mp3' });
+          filesToZip.push({
+            buffer: taggingService.tagMp3(buffer, tagging, { ...best, title: cls.className }),
+            zipName: `${cls.className}.mp3`,
+          });
+        }
+      }
+
+      if (schulsongFiles.length > 0) {
+        const best = pickBestFile(schulsongFiles);
+        const mp3Key = getMp3Key(best);
+
+        if (!mp3Key) {
+          console.error('[staff zip] Skipping schulsong — no MP3 source available', {
+            audioFileId: best.id, r2Key: best.r2Key, eventId, classId: best.classId,
+          });
+        } else {
+          const buffer = await r2Service.getFileBuffer(mp3Key);
+          if (buffer) {
+            filesToZip.push({
+              buffer: taggingService.tagMp3(buffer, tagging, { isSchulsong: true, title: 'Schulsong' }),
+              zipName: 'Schulsong.mp3',
+            });
+          }
         }
       }
     }
@@ -150,7 +190,15 @@ export async function GET(
   }
 }
 
+function hasMp3(file: AudioFile): boolean {
+  return !!(file.mp3R2Key || file.r2Key.toLowerCase().endsWith('.mp3'));
+}
+
+function getMp3Key(file: AudioFile): string | null {
+  return file.mp3R2Key || (file.r2Key.toLowerCase().endsWith('.mp3') ? file.r2Key : null);
+}
+
 function pickBestFile(candidates: AudioFile[]): AudioFile {
-  const playable = candidates.find((f) => f.mp3R2Key || f.r2Key.toLowerCase().endsWith('.mp3'));
+  const playable = candidates.find(hasMp3);
   return playable ?? candidates[0];
 }
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyStaffSession } from '@/lib/auth/verifyStaffSession';
+import { getConsentService } from '@/lib/services/consentService';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/staff/events/[eventId]/consents
+ * Registered children per class with their parents' consent
+ * (audio recording, name on printed material, downloadable album)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { eventId: string } }
+) {
+  try {
+    const session = verifyStaffSession(request);
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const eventId = decodeURIComponent(params.eventId);
+    const classes = await getConsentService().getClassConsentLists(eventId);
+
+    return NextResponse.json({ success: true, classes });
+  } catch (error) {
+    console.error('Error getting consent lists:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to get consent lists' },
+      { status: 500 }
+    );
+  }
+}
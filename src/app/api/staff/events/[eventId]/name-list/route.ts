@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyStaffSession } from '@/lib/auth/verifyStaffSession';
+import { getConsentService } from '@/lib/services/consentService';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/staff/events/[eventId]/name-list
+ * Children's names per class for the printable name list. Children without
+ * name_on_print consent are left out here, so their names never reach the
+ * print view.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { eventId: string } }
+) {
+  try {
+    const session = verifyStaffSession(request);
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const eventId = decodeURIComponent(params.eventId);
+    const classes = await getConsentService().getPrintableNameLists(eventId);
+
+    return NextResponse.json({ success: true, classes });
+  } catch (error) {
+    console.error('Error getting name lists:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to get name lists' },
+      { status: 500 }
+    );
+  }
+}
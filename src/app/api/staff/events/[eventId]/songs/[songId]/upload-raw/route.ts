@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { verifyStaffSession } from '@/lib/auth/verifyStaffSession';
 import { getTeacherService } from '@/lib/services/teacherService';
 import { getR2Service } from '@/lib/services/r2Service';
+import { getJobService } from '@/lib/services/jobService';
+import type { AudioAnalyzeJobPayload } from '@/lib/services/jobHandlers';
 import { getAirtableService } from '@/lib/services/airtableService';
 import { notifyEngineerOfUpload } from '@/lib/services/notificationService';
 import { getActivityService } from '@/lib/services/activityService';
@@ -92,7 +94,8 @@ export async function POST(
 
 /**
  * PUT /api/staff/events/[eventId]/songs/[songId]/upload-raw
- * Confirm successful upload and create AudioFile record in Airtable
+ * Confirm successful upload, create AudioFile record in Airtable and queue
+ * its analysis ('audio.analyze' job)
  */
 export async function PUT(
   request: NextRequest,
@@ -142,6 +145,17 @@ export async function PUT(
       status: 'ready',
     });
 
+    // Queue duration/level/silence analysis of the uploaded file
+    try {
+      await getJobService().enqueue<AudioAnalyzeJobPayload>(
+        'audio.analyze',
+        { audioFileId: audioFile.id, r2Key, filename },
+        { label: `Audio analysis – ${filename}`, createdBy: session.email }
+      );
+    } catch (e) {
+      console.error('Error queueing audio analysis:', e);
+    }
+
     // Log audio upload activity (fire-and-forget)
     const eventRecordIdForActivity = await getAirtableService().getEventsRecordIdByBookingId(eventId);
     if (eventRecordIdForActivity) {
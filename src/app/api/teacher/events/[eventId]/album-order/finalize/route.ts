@@ -3,6 +3,8 @@ import { verifyTeacherSession } from '@/lib/auth/verifyTeacherSession';
 import { getTeacherService, AlbumTrackUpdate } from '@/lib/services/teacherService';
 import { getAirtableService } from '@/lib/services/airtableService';
 import { getActivityService } from '@/lib/services/activityService';
+import { getJobService } from '@/lib/services/jobService';
+import type { AudioTagJobPayload } from '@/lib/services/jobHandlers';
 
 export const dynamic = 'force-dynamic';
 
@@ -102,6 +104,17 @@ export async function POST(
       actorType: 'teacher',
     });
 
+    // Re-tag the released finals with the confirmed track numbers
+    try {
+      await getJobService().enqueue<AudioTagJobPayload>(
+        'audio.tag',
+        { eventId },
+        { label: `ID3 tagging – ${event.schoolName}`, createdBy: session.email }
+      );
+    } catch (e) {
+      console.error('Error queueing ID3 tagging:', e);
+    }
+
     return NextResponse.json({
       success: true,
       finalizedAt,
@@ -2,8 +2,9 @@ import { NextRequest, NextResponse } from 'next/server';
 import { verifyTeacherSession } from '@/lib/auth/verifyTeacherSession';
 import { getTeacherService } from '@/lib/services/teacherService';
 import { getR2Service } from '@/lib/services/r2Service';
-import { AudioFile } from '@/lib/types/teacher';
+import { getAudioTaggingService } from '@/lib/services/audioTaggingService';
 import { isTeacherDownloadable } from '@/lib/utils/audioFileInvariants';
+import { getAlbumZipName, matchAlbumTracksToFinals } from '@/lib/utils/albumZip';
 import archiver from 'archiver';
 import { PassThrough } from 'stream';
 
@@ -15,6 +16,7 @@ export const dynamic = 'force-dynamic';
  *
  * Tracks are ordered by album tracklist (schulsong at position 1 when present).
  * Filenames use padded track numbers: "01. Schulsong.mp3", "02. Song - Class.mp3"
+ * Every file is ID3-tagged with the current track number and cover art.
  */
 export async function GET(
   request: NextRequest,
@@ -68,45 +70,12 @@ export async function GET(
       return candidate;
     }
 
+    const taggingService = getAudioTaggingService();
+    const tagging = await taggingService.getAlbumTaggingOrNull(eventId, albumTracks);
+
     if (albumTracks.length > 0) {
       // --- Primary path: album-track-based ordering ---
-      const audioBySongId = new Map<string, AudioFile>();
-      let schulsongAudio: AudioFile | undefined;
-
-      for (const af of finalReadyFiles) {
-        if (af.isSchulsong) {
-          if (!schulsongAudio) schulsongAudio = af;
-        } else if (af.songId) {
-          if (!audioBySongId.has(af.songId)) {
-            audioBySongId.set(af.songId, af);
-          }
-        }
-      }
-
-      // Match audio files without songId to single-song classes
-      const songCountByClassId = new Map<string, string[]>();
-      for (const at of albumTracks) {
-        if (at.isSchulsong) continue;
-        const songs = songCountByClassId.get(at.classId) || [];
-        songs.push(at.songId);
-        songCountByClassId.set(at.classId, songs);
-      }
-
-      for (const af of finalReadyFiles) {
-        if (af.isSchulsong || af.songId) continue;
-        const classSongs = songCountByClassId.get(af.classId);
-        if (classSongs?.length === 1 && !audioBySongId.has(classSongs[0])) {
-          audioBySongId.set(classSongs[0], af);
-        }
-      }
-
-      for (const albumTrack of albumTracks) {
-        const audio = albumTrack.isSchulsong
-          ? schulsongAudio
-          : audioBySongId.get(albumTrack.songId);
-
-        if (!audio) continue;
-
+      for (const { track: albumTrack, audio } of matchAlbumTracksToFinals(albumTracks, finalReadyFiles)) {
         const r2KeyIsMp3 = audio.r2Key.toLowerCase().endsWith('.mp3');
         const mp3Key = audio.mp3R2Key || (r2KeyIsMp3 ? audio.r2Key : null);
 
@@ -120,13 +89,10 @@ export async function GET(
         const buffer = await r2Service.getFileBuffer(mp3Key);
         if (!buffer) continue;
 
-        const padded = String(albumTrack.albumOrder).padStart(2, '0');
-        const displayName = albumTrack.isSchulsong
-          ? albumTrack.songTitle
-          : `${albumTrack.songTitle} - ${albumTrack.className}`;
-        const zipName = deduplicateName(`${padded}. ${displayName}.mp3`);
-
-        filesToZip.push({ buffer, zipName });
+        filesToZip.push({
+          buffer: taggingService.tagMp3(buffer, tagging, audio),
+          zipName: deduplicateName(getAlbumZipName(albumTrack)),
+        });
       }
     } else {
       // --- Fallback: class-based iteration for legacy events without Song records ---
@@ -159,7 +125,10 @@ export async function GET(
             : cls.className;
           const zipName = deduplicateName(`${baseName}.mp3`);
 
-          filesToZip.push({ buffer, zipName });
+          filesToZip.push({
+            buffer: taggingService.tagMp3(buffer, tagging, { ...af, title: song?.title || cls.className }),
+            zipName,
+          });
         }
       }
 
@@ -176,7 +145,10 @@ export async function GET(
         } else {
           const buffer = await r2Service.getFileBuffer(mp3Key);
           if (buffer) {
-            filesToZip.push({ buffer, zipName: deduplicateName('Schulsong.mp3') });
+            filesToZip.push({
+              buffer: taggingService.tagMp3(buffer, tagging, { isSchulsong: true, title: 'Schulsong' }),
+              zipName: deduplicateName('Schulsong.mp3'),
+            });
           }
         }
       }
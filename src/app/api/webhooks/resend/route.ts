@@ -0,0 +1,46 @@
+import { NextRequest } from 'next/server';
+import type { WebhookEventPayload } from 'resend';
+import { verifyResendWebhook } from '@/lib/utils/resendWebhook';
+import { webhookSuccess, webhookError } from '@/lib/utils/shopifyWebhook';
+import { getEmailDeliveryService } from '@/lib/services/emailDeliveryService';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/webhooks/resend
+ *
+ * Resend webhook for email delivery events (delivered, delivery_delayed,
+ * bounced, complained, opened, clicked, suppressed).
+ *
+ * Actions:
+ * 1. Verify Svix signature
+ * 2. Update the EMAIL_LOGS row(s) with the matching resend_message_id
+ * 3. Put hard-bounced and complaining addresses on the suppression list
+ *
+ * Processing errors return 500 so Resend retries; applying an event twice
+ * is harmless (status never downgrades, suppressions are deduplicated).
+ */
+export async function POST(request: NextRequest) {
+  const rawBody = await request.text();
+
+  if (!verifyResendWebhook(rawBody, request.headers)) {
+    console.error('[resend-webhook] Webhook signature verification failed');
+    return webhookError('Unauthorized', 401);
+  }
+
+  let event: WebhookEventPayload;
+  try {
+    event = JSON.parse(rawBody);
+  } catch {
+    return webhookError('Invalid JSON', 400);
+  }
+
+  try {
+    const result = await getEmailDeliveryService().handleWebhookEvent(event);
+    console.log(`[resend-webhook] ${event.type}:`, result);
+    return webhookSuccess();
+  } catch (error) {
+    console.error(`[resend-webhook] Error processing ${event.type}:`, error);
+    return webhookError('Processing failed', 500);
+  }
+}
@@ -15,7 +15,7 @@ export const dynamic = 'force-dynamic';
  * Shopify webhook handler for orders/cancelled topic.
  * Triggered when an order is explicitly cancelled.
  *
- * NOTE: Airtable status updates (payment_status, refund_amount, etc.) are handled
+ * NOTE: Airtable status updates (payment_status, refund_amount, refund_line_items, etc.) are handled
  * by the orders-updated webhook which fires for ALL order changes including cancellations.
  * This handler only handles cancellation-specific side effects (digital access revocation).
  *
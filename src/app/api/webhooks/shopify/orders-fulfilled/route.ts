@@ -2,6 +2,7 @@ import { NextRequest } from 'next/server';
 import {
   verifyShopifyWebhook,
   extractCustomAttributes,
+  extractTrackingInfo,
   webhookSuccess,
   webhookError,
   ShopifyWebhookOrder,
@@ -9,6 +10,7 @@ import {
 import {
   ORDERS_TABLE_ID,
   ORDERS_FIELD_IDS,
+  OrderTrackingInfo,
 } from '@/lib/types/airtable';
 
 export const dynamic = 'force-dynamic';
@@ -21,7 +23,8 @@ export const dynamic = 'force-dynamic';
  *
  * Actions:
  * 1. Verify webhook signature
- * 2. Update order status in Airtable
+ * 2. Update order status and tracking info in Airtable (shown to parents
+ *    under "Meine Bestellungen")
  * 3. Optionally send shipping notification
  */
 export async function POST(request: NextRequest) {
@@ -54,7 +57,7 @@ export async function POST(request: NextRequest) {
 
     // Update order status in Airtable
     try {
-      await updateOrderFulfillmentStatus(order.admin_graphql_api_id, 'fulfilled');
+      await updateOrderFulfillmentStatus(order.admin_graphql_api_id, 'fulfilled', extractTrackingInfo(order));
       console.log('[orders-fulfilled] Airtable updated');
     } catch (airtableError) {
       console.error('[orders-fulfilled] Failed to update Airtable:', airtableError);
@@ -62,7 +65,6 @@ export async function POST(request: NextRequest) {
     }
 
     // TODO: Send shipping notification email to customer
-    // Could include tracking information from order.fulfillments
 
     const processingTime = Date.now() - startTime;
     console.log(`[orders-fulfilled] Order ${order.name} processed in ${processingTime}ms`);
@@ -75,11 +77,12 @@ export async function POST(request: NextRequest) {
 }
 
 /**
- * Update fulfillment status in Airtable
+ * Update fulfillment status and tracking info in Airtable
  */
 async function updateOrderFulfillmentStatus(
   shopifyOrderId: string,
-  status: 'pending' | 'fulfilled' | 'partial' | 'restocked'
+  status: 'pending' | 'fulfilled' | 'partial' | 'restocked',
+  tracking: OrderTrackingInfo[]
 ): Promise<void> {
   const Airtable = require('airtable');
 
@@ -102,6 +105,7 @@ async function updateOrderFulfillmentStatus(
   // Update the record
   await base(ORDERS_TABLE_ID).update(records[0].id, {
     [ORDERS_FIELD_IDS.fulfillment_status]: status,
+    ...(tracking.length > 0 ? { [ORDERS_FIELD_IDS.tracking_info]: JSON.stringify(tracking) } : {}),
     [ORDERS_FIELD_IDS.updated_at]: new Date().toISOString(),
   });
 }
@@ -9,6 +9,7 @@ import {
   ORDERS_TABLE_ID,
   ORDERS_FIELD_IDS,
 } from '@/lib/types/airtable';
+import { parseShopifyRefunds } from '@/lib/utils/orderRefunds';
 
 export const dynamic = 'force-dynamic';
 
@@ -21,6 +22,7 @@ export const dynamic = 'force-dynamic';
  *
  * This is idempotent — it reads Shopify's financial_status and writes it
  * to Airtable's payment_status, only when values actually change.
+ * Refunded line items are stored too, so item counts can exclude them.
  */
 export async function POST(request: NextRequest) {
   const startTime = Date.now();
@@ -45,6 +47,7 @@ export async function POST(request: NextRequest) {
       cancelReason: order.cancel_reason,
       totalPrice: order.total_price,
       currentTotalPrice: order.current_total_price,
+      refunds: order.refunds?.length || 0,
     });
 
     try {
@@ -142,6 +145,7 @@ async function syncOrderStatus(order: ShopifyWebhookOrder): Promise<boolean> {
   const newFulfillmentStatus = mapFulfillmentStatus(order.fulfillment_status);
   const rawRefundAmount = parseFloat(order.total_price) - parseFloat(order.current_total_price);
   const newRefundAmount = isNaN(rawRefundAmount) ? 0 : Math.max(0, rawRefundAmount);
+  const newRefundLineItems = JSON.stringify(parseShopifyRefunds(order.refunds));
   const newCancelReason = order.cancel_reason || '';
   const newIsTest = order.test === true;
 
@@ -149,6 +153,7 @@ async function syncOrderStatus(order: ShopifyWebhookOrder): Promise<boolean> {
   const existingPaymentStatus = existingFields[ORDERS_FIELD_IDS.payment_status];
   const existingFulfillmentStatus = existingFields[ORDERS_FIELD_IDS.fulfillment_status];
   const existingRefundAmount = existingFields[ORDERS_FIELD_IDS.refund_amount] || 0;
+  const existingRefundLineItems = existingFields[ORDERS_FIELD_IDS.refund_line_items] || '[]';
   const existingCancelReason = existingFields[ORDERS_FIELD_IDS.cancel_reason] || '';
   const existingIsTest = existingFields[ORDERS_FIELD_IDS.is_test] === true;
 
@@ -157,6 +162,7 @@ async function syncOrderStatus(order: ShopifyWebhookOrder): Promise<boolean> {
     newPaymentStatus !== existingPaymentStatus ||
     newFulfillmentStatus !== existingFulfillmentStatus ||
     Math.abs(newRefundAmount - existingRefundAmount) > 0.001 ||
+    newRefundLineItems !== existingRefundLineItems ||
     newCancelReason !== existingCancelReason ||
     newIsTest !== existingIsTest;
 
@@ -168,6 +174,7 @@ async function syncOrderStatus(order: ShopifyWebhookOrder): Promise<boolean> {
     paymentStatus: `${existingPaymentStatus} → ${newPaymentStatus}`,
     fulfillmentStatus: `${existingFulfillmentStatus} → ${newFulfillmentStatus}`,
     refundAmount: `${existingRefundAmount} → ${newRefundAmount}`,
+    refundLineItems: existingRefundLineItems !== newRefundLineItems ? 'changed' : 'unchanged',
     cancelReason: existingCancelReason !== newCancelReason ? `${existingCancelReason} → ${newCancelReason}` : 'unchanged',
     isTest: existingIsTest !== newIsTest ? `${existingIsTest} → ${newIsTest}` : 'unchanged',
   });
@@ -177,6 +184,7 @@ async function syncOrderStatus(order: ShopifyWebhookOrder): Promise<boolean> {
     [ORDERS_FIELD_IDS.payment_status]: newPaymentStatus,
     [ORDERS_FIELD_IDS.fulfillment_status]: newFulfillmentStatus,
     [ORDERS_FIELD_IDS.refund_amount]: newRefundAmount,
+    [ORDERS_FIELD_IDS.refund_line_items]: newRefundLineItems,
     [ORDERS_FIELD_IDS.cancel_reason]: newCancelReason,
     [ORDERS_FIELD_IDS.is_test]: newIsTest,
     [ORDERS_FIELD_IDS.updated_at]: new Date().toISOString(),
@@ -0,0 +1,185 @@
+'use client';
+
+import { useState, useEffect, Suspense } from 'react';
+import { useSearchParams } from 'next/navigation';
+import LoadingSpinner from '@/components/shared/LoadingSpinner';
+import type { ParentEmailCategory } from '@/lib/types/airtable';
+import {
+  PARENT_EMAIL_CATEGORIES,
+  PARENT_EMAIL_CATEGORY_LABELS,
+  ParentEmailPreferences,
+} from '@/lib/utils/emailPreferences';
+
+function EmailPreferencesContent() {
+  const searchParams = useSearchParams();
+  const email = searchParams.get('email');
+  const sig = searchParams.get('sig');
+
+  const [preferences, setPreferences] = useState<ParentEmailPreferences | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const query = new URLSearchParams({ email: email || '', sig: sig || '' }).toString();
+
+  useEffect(() => {
+    if (!email || !sig) {
+      setError('Dieser Link ist ungültig oder abgelaufen.');
+      setIsLoading(false);
+      return;
+    }
+
+    const loadPreferences = async () => {
+      try {
+        const response = await fetch(`/api/email/preferences?${query}`);
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error('Dieser Link ist ungültig oder abgelaufen.');
+        }
+        setPreferences(data.data.preferences);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Einstellungen konnten nicht geladen werden.');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadPreferences();
+  }, [email, sig, query]);
+
+  const savePreferences = async (next: ParentEmailPreferences, message: string) => {
+    setIsSaving(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const response = await fetch(`/api/email/preferences?${query}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ preferences: next }),
+      });
+      if (!response.ok) {
+        throw new Error('Einstellungen konnten nicht gespeichert werden.');
+      }
+      setPreferences(next);
+      setSuccess(message);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Einstellungen konnten nicht gespeichert werden.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const toggle = (category: ParentEmailCategory) => {
+    if (!preferences) return;
+    setPreferences({ ...preferences, [category]: !preferences[category] });
+    setSuccess(null);
+  };
+
+  const unsubscribeAll = () => {
+    const none = Object.fromEntries(
+      PARENT_EMAIL_CATEGORIES.map((category) => [category, false])
+    ) as ParentEmailPreferences;
+    savePreferences(none, 'Du erhältst ab sofort keine Kampagnen-E-Mails mehr von uns.');
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-cream-100 to-sage-50 flex items-center justify-center p-4">
+        <div className="max-w-md w-full bg-white rounded-2xl shadow-xl p-8 text-center">
+          <LoadingSpinner size="lg" className="mx-auto mb-4" />
+          <p className="text-gray-500">Einstellungen werden geladen...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-cream-100 to-sage-50 flex items-center justify-center p-4">
+      <div className="max-w-md w-full bg-white rounded-2xl shadow-xl p-8">
+        <h1 className="text-2xl font-bold text-gray-900 mb-2 text-center">E-Mail-Einstellungen</h1>
+        {preferences && (
+          <p className="text-gray-600 mb-6 text-center">
+            Wähle aus, welche E-Mails du an <strong>{email}</strong> erhalten möchtest.
+          </p>
+        )}
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm mb-4">
+            {error}
+          </div>
+        )}
+
+        {success && (
+          <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-lg text-sm mb-4">
+            {success}
+          </div>
+        )}
+
+        {preferences && (
+          <>
+            <div className="space-y-3 mb-6">
+              {PARENT_EMAIL_CATEGORIES.map((category) => (
+                <label
+                  key={category}
+                  className="flex items-start gap-3 p-3 rounded-lg border border-gray-200 hover:bg-gray-50 cursor-pointer"
+                >
+                  <input
+                    type="checkbox"
+                    checked={preferences[category]}
+                    onChange={() => toggle(category)}
+                    className="mt-1 h-4 w-4 rounded border-gray-300 text-pink-600 focus:ring-pink-500"
+                  />
+                  <span>
+                    <span className="block font-medium text-gray-900">
+                      {PARENT_EMAIL_CATEGORY_LABELS[category].label}
+                    </span>
+                    <span className="block text-sm text-gray-500">
+                      {PARENT_EMAIL_CATEGORY_LABELS[category].description}
+                    </span>
+                  </span>
+                </label>
+              ))}
+            </div>
+
+            <div className="flex flex-col gap-3">
+              <button
+                onClick={() => savePreferences(preferences, 'Deine Einstellungen wurden gespeichert.')}
+                disabled={isSaving}
+                className="w-full py-3 px-4 rounded-lg shadow-sm text-white bg-pink-600 hover:bg-pink-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-pink-500 disabled:opacity-50 disabled:cursor-not-allowed transition-all font-medium"
+              >
+                {isSaving ? 'Wird gespeichert...' : 'Einstellungen speichern'}
+              </button>
+              <button
+                onClick={unsubscribeAll}
+                disabled={isSaving}
+                className="text-sm text-gray-500 hover:text-gray-700 disabled:opacity-50"
+              >
+                Von allen Kampagnen-E-Mails abmelden
+              </button>
+            </div>
+
+            <p className="mt-6 text-xs text-gray-400 text-center">
+              Wichtige Nachrichten zu deinen Bestellungen erhältst du weiterhin.
+            </p>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function EmailPreferencesPage() {
+  return (
+    <Suspense
+      fallback={
+        <div className="min-h-screen bg-gradient-to-br from-cream-100 to-sage-50 flex items-center justify-center p-4">
+          <LoadingSpinner size="lg" />
+        </div>
+      }
+    >
+      <EmailPreferencesContent />
+    </Suspense>
+  );
+}
@@ -8,6 +8,8 @@ export default function EngineerLogin() {
   const router = useRouter();
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
+  const [totpCode, setTotpCode] = useState('');
+  const [totpRequired, setTotpRequired] = useState(false);
   const [error, setError] = useState('');
   const [isLoading, setIsLoading] = useState(false);
 
@@ -22,12 +24,17 @@ export default function EngineerLogin() {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ email, password }),
+        body: JSON.stringify({ email, password, totpCode: totpRequired ? totpCode : undefined }),
       });
 
       const data = await response.json();
 
       if (!response.ok) {
+        // Password was correct but the account has two-factor authentication enabled
+        if (data.code === 'totp_required' && !totpRequired) {
+          setTotpRequired(true);
+          return;
+        }
         throw new Error(data.error || 'Login failed');
       }
 
@@ -112,6 +119,34 @@ export default function EngineerLogin() {
               />
             </div>
 
+            {/* Two-factor code (only once the server asks for it) */}
+            {totpRequired && (
+              <div>
+                <label
+                  htmlFor="totpCode"
+                  className="block text-sm font-medium text-gray-700 mb-1"
+                >
+                  Authentication code
+                </label>
+                <input
+                  id="totpCode"
+                  type="text"
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  maxLength={6}
+                  value={totpCode}
+                  onChange={(e) => setTotpCode(e.target.value.replace(/\D/g, ''))}
+                  required
+                  autoFocus
+                  className="w-full px-3 py-2 border border-gray-200 rounded-lg text-sm tracking-widest focus:outline-none focus:ring-2 focus:ring-purple-500/50 focus:border-purple-500"
+                  placeholder="123456"
+                />
+                <p className="mt-1 text-xs text-gray-500">
+                  Enter the 6-digit code from your authenticator app.
+                </p>
+              </div>
+            )}
+
             {/* Submit button */}
             <button
               type="submit"
@@ -146,6 +181,15 @@ export default function EngineerLogin() {
               )}
             </button>
           </form>
+
+          <div className="mt-4 text-center">
+            <Link
+              href="/passwort-zuruecksetzen"
+              className="text-sm text-gray-500 hover:text-purple-600 transition-colors"
+            >
+              Forgot password?
+            </Link>
+          </div>
         </div>
 
         {/* Back link */}
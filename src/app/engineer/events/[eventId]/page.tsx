@@ -11,6 +11,8 @@ import ZipDownloadModal from '@/components/engineer/ZipDownloadModal';
 import { useEngineerEventDetail } from '@/lib/hooks/useEngineerEventDetail';
 import { toast } from 'sonner';
 import AlbumLayoutModal from '@/components/shared/AlbumLayoutModal';
+import { MASTERING_PRESETS, MasteringPresetId, resolveMasteringPreset } from '@/lib/config/audioMastering';
+import type { AudioQualityWarning } from '@/lib/utils/audioAnalysis';
 
 function formatDate(dateStr: string): string {
   if (!dateStr) return 'No date';
@@ -31,6 +33,22 @@ function formatFileSize(bytes: number | undefined): string {
   return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
 }
 
+function formatSeconds(seconds: number): string {
+  const rounded = Math.round(seconds);
+  return `${Math.floor(rounded / 60)}:${String(rounded % 60).padStart(2, '0')}`;
+}
+
+function qualityWarningText(warning: AudioQualityWarning): string {
+  switch (warning.kind) {
+    case 'clipping':
+      return `Clipped (${warning.clippingPercent}% of samples at full scale)`;
+    case 'mono':
+      return 'Mono final — check the export';
+    case 'short':
+      return `Only ${formatSeconds(warning.finalSeconds)} vs. ${formatSeconds(warning.rawSeconds)} raw`;
+  }
+}
+
 interface SongUploadState {
   isUploading: boolean;
   uploadType: 'preview' | 'final-mp3' | 'final-wav' | null;
@@ -549,6 +567,27 @@ export default function EngineerEventDetailPage() {
     }
   };
 
+  const handleMasteringPresetChange = async (preset: MasteringPresetId) => {
+    try {
+      const response = await fetch(
+        `/api/engineer/events/${encodeURIComponent(eventId)}/mastering-preset`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ preset }),
+        }
+      );
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to update');
+      }
+      toast.success(`Mastering preset: ${MASTERING_PRESETS[preset].label}`);
+      fetchEventDetail();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to update mastering preset');
+    }
+  };
+
   // Compute progress for sticky footer (song-based)
   const allEventSongs = event ? event.classes.flatMap(c => c.songs) : [];
   const totalSongs = allEventSongs.length + (event?.schulsongClass ? 1 : 0);
@@ -687,6 +726,26 @@ export default function EngineerEventDetailPage() {
                 );
               })()}
             </div>
+            <div>
+              <label htmlFor="mastering-preset" className="text-sm text-gray-500">
+                Mastering Preset
+              </label>
+              <select
+                id="mastering-preset"
+                value={resolveMasteringPreset(event.masteringPreset).id}
+                onChange={(e) => handleMasteringPresetChange(e.target.value as MasteringPresetId)}
+                className="block mt-0.5 text-sm font-medium border border-gray-200 rounded-md px-2 py-1 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {Object.values(MASTERING_PRESETS).map((preset) => (
+                  <option key={preset.id} value={preset.id}>
+                    {preset.label}
+                  </option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-400 mt-0.5">
+                {resolveMasteringPreset(event.masteringPreset).description} · gilt für neu hochgeladene Finals
+              </p>
+            </div>
           </div>
 
           {/* Action toolbar: Logic Pro downloads + Raw ZIP + Batch Upload */}
@@ -1474,6 +1533,20 @@ function SongRow({
         </div>
       </div>
 
+      {/* Upload analysis of the final */}
+      {song.qualityWarnings && song.qualityWarnings.length > 0 && (
+        <div className="mb-3 flex flex-wrap gap-1.5">
+          {song.qualityWarnings.map((warning) => (
+            <span
+              key={warning.kind}
+              className="px-1.5 py-0.5 text-xs rounded bg-amber-100 text-amber-700"
+            >
+              {'\u26a0 '}{qualityWarningText(warning)}
+            </span>
+          ))}
+        </div>
+      )}
+
       {/* Upload state indicators */}
       {uploadState?.error && (
         <div className="mb-3 p-3 bg-red-50 border border-red-200 rounded-lg">
@@ -1,7 +1,7 @@
 'use client';
 
-import { useState } from 'react';
-import { useRouter } from 'next/navigation';
+import { useState, useEffect, useRef, Suspense } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
 import Image from 'next/image';
 import LoadingSpinner from '@/components/shared/LoadingSpinner';
 
@@ -117,38 +117,92 @@ function PhotoCollage() {
   );
 }
 
-export default function ParentLoginPage() {
+const LINK_ERROR_MESSAGES: Record<string, string> = {
+  expired: 'Dein Login-Link ist abgelaufen. Bitte fordere unten einen neuen Link an.',
+  invalid: 'Dieser Login-Link ist ungültig oder wurde bereits verwendet. Bitte fordere unten einen neuen Link an.',
+};
+
+function ParentLoginContent() {
   const router = useRouter();
+  const searchParams = useSearchParams();
   const [email, setEmail] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const [isVerifying, setIsVerifying] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [linkSentTo, setLinkSentTo] = useState<string | null>(null);
   const [successData, setSuccessData] = useState<any>(null);
+  const verifyStarted = useRef(false);
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
+  // Check for magic link token in URL
+  useEffect(() => {
+    const token = searchParams.get('token');
+    if (token && !verifyStarted.current) {
+      // Tokens are one-time use: guard against a second verify on re-render
+      verifyStarted.current = true;
+      verifyToken(token);
+    }
+  }, [searchParams]);
+
+  const verifyToken = async (token: string) => {
+    setIsVerifying(true);
     setError(null);
-    setIsLoading(true);
 
     try {
-      const response = await fetch('/api/auth/parent-login', {
+      const response = await fetch('/api/auth/parent-verify', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ email: email.trim().toLowerCase() }),
+        body: JSON.stringify({ token }),
         credentials: 'include',
       });
 
       const data = await response.json();
 
       if (response.ok && data.success) {
-        setSuccessData(data.data);
+        setSuccessData({ ...data.data, message: data.message });
         setTimeout(() => {
-          router.push('/familie');
+          router.push(data.data?.redirectUrl || '/familie');
         }, 1500);
+        return;
+      }
+
+      setError(
+        LINK_ERROR_MESSAGES[data.data?.reason] ||
+          data.error ||
+          'Anmeldung fehlgeschlagen. Bitte versuche es erneut.'
+      );
+    } catch (err) {
+      console.error('Token verification error:', err);
+      setError('Ein unerwarteter Fehler ist aufgetreten. Bitte versuche es erneut.');
+    }
+
+    // Drop the used token from the URL so a refresh doesn't retry it
+    router.replace('/familie-login');
+    setIsVerifying(false);
+  };
+
+  const requestLink = async (targetEmail: string) => {
+    setError(null);
+    setIsLoading(true);
+
+    try {
+      const response = await fetch('/api/auth/parent-login', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ email: targetEmail }),
+        credentials: 'include',
+      });
+
+      const data = await response.json();
+
+      if (response.ok && data.success) {
+        setLinkSentTo(data.data?.email || targetEmail);
       } else {
         if (response.status === 404 && data.data?.shouldRegister) {
-          const registrationUrl = `/register?email=${encodeURIComponent(data.data.email || email.trim().toLowerCase())}`;
+          const registrationUrl = `/register?email=${encodeURIComponent(data.data.email || targetEmail)}`;
           router.push(registrationUrl);
           return;
         }
@@ -158,12 +212,78 @@ export default function ParentLoginPage() {
       console.error('Login error:', err);
       setError('Ein unerwarteter Fehler ist aufgetreten. Bitte versuche es erneut.');
     } finally {
-      if (!successData) {
-        setIsLoading(false);
-      }
+      setIsLoading(false);
     }
   };
 
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    await requestLink(email.trim().toLowerCase());
+  };
+
+  // Verifying magic link token
+  if (isVerifying && !successData) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-cream-100 to-sage-50 flex items-center justify-center p-4">
+        <div className="max-w-md w-full bg-white rounded-2xl shadow-xl p-8 text-center">
+          <LoadingSpinner size="lg" className="mx-auto mb-4" />
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">Anmeldung läuft...</h2>
+          <p className="text-gray-500">Bitte warte einen Moment.</p>
+        </div>
+      </div>
+    );
+  }
+
+  // Magic link sent - ask parent to check their inbox
+  if (linkSentTo) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-cream-100 to-sage-50 flex items-center justify-center p-4">
+        <div className="max-w-md w-full">
+          <div className="bg-white rounded-2xl shadow-xl p-8 text-center">
+            <div className="mb-6">
+              <div className="w-20 h-20 bg-sage-100 rounded-full mx-auto flex items-center justify-center">
+                <svg className="w-10 h-10 text-sage-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 8l7.89 5.26a2 2 0 002.22 0L21 8M5 19h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z" />
+                </svg>
+              </div>
+            </div>
+
+            <h2 className="text-2xl font-bold text-gray-900 mb-2">Schau in dein Postfach</h2>
+            <p className="text-gray-600 mb-6">
+              Wir haben einen Login-Link an <strong>{linkSentTo}</strong> gesendet.
+              Der Link ist 30 Minuten gültig und kann nur einmal verwendet werden.
+            </p>
+
+            {error && (
+              <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm mb-4">
+                {error}
+              </div>
+            )}
+
+            <div className="flex flex-col gap-3">
+              <button
+                onClick={() => requestLink(linkSentTo)}
+                disabled={isLoading}
+                className="w-full py-3 px-4 rounded-lg border border-pink-600 text-pink-600 hover:bg-pink-50 disabled:opacity-50 disabled:cursor-not-allowed transition-all font-medium"
+              >
+                {isLoading ? 'Wird gesendet...' : 'Link erneut senden'}
+              </button>
+              <button
+                onClick={() => {
+                  setLinkSentTo(null);
+                  setError(null);
+                }}
+                className="text-sm text-gray-500 hover:text-gray-700"
+              >
+                Andere E-Mail-Adresse verwenden
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   // Success state
   if (successData) {
     return (
@@ -289,10 +409,10 @@ export default function ParentLoginPage() {
                   {isLoading ? (
                     <span className="flex items-center justify-center">
                       <LoadingSpinner size="sm" className="mr-2" />
-                      Wird geprüft...
+                      Wird gesendet...
                     </span>
                   ) : (
-                    'Absenden'
+                    'Login-Link senden'
                   )}
                 </button>
               </form>
@@ -337,3 +457,17 @@ export default function ParentLoginPage() {
     </div>
   );
 }
+
+export default function ParentLoginPage() {
+  return (
+    <Suspense
+      fallback={
+        <div className="min-h-screen bg-[#f8f7f4] flex items-center justify-center">
+          <LoadingSpinner size="lg" />
+        </div>
+      }
+    >
+      <ParentLoginContent />
+    </Suspense>
+  );
+}
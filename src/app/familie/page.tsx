@@ -14,10 +14,11 @@ import PreparationSection from '@/components/parent-portal/PreparationSection';
 import CompactSongPlayer from '@/components/parent-portal/CompactSongPlayer';
 import MinicardUpsell from '@/components/parent-portal/MinicardUpsell';
 import EventAudioTracklist from '@/components/parent-portal/EventAudioTracklist';
+import ShareLinksSection from '@/components/parent-portal/ShareLinksSection';
 // Note: VideoCard removed - video is now handled in HeroIntroSection
 import { CartProvider } from '@/lib/contexts/CartContext';
 import { CartDrawer } from '@/components/shop';
-import { ManageChildren } from '@/components/parent';
+import { ManageChildren, OrderHistory } from '@/components/parent';
 import { ParentSession } from '@/lib/types';
 import { ShopProfile, MINIMUSIKERTAG_PROFILE, resolveShopProfile } from '@/lib/config/shopProfiles';
 import { parseOverrides, getEffectiveHiddenProducts } from '@/lib/utils/eventThresholds';
@@ -555,6 +556,11 @@ function ParentPortalContent() {
         />
       )}
 
+      {/* Family share links for the released recordings */}
+      {!isSchulsongOnly && isReleased && hasMinicard && !isLoadingAudio && audioAccess?.allAudio && (
+        <ShareLinksSection eventId={eventId} classId={classId} />
+      )}
+
       {/* Main Content - Shopping Section */}
       <div id="shop-section" className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         {/* Shopping Section */}
@@ -576,6 +582,11 @@ function ParentPortalContent() {
           />
         </section>
 
+        {/* Order History Section */}
+        <section className="mb-12">
+          <OrderHistory eventId={eventId} />
+        </section>
+
         {/* Manage Registration Section */}
         <section className="mb-12">
           <ManageChildren
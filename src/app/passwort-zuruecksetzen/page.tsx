@@ -0,0 +1,246 @@
+'use client';
+
+import { useState, Suspense } from 'react';
+import { useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+
+const MIN_PASSWORD_LENGTH = 10;
+
+function PasswordResetContent() {
+  const searchParams = useSearchParams();
+  const token = searchParams.get('token');
+
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [passwordConfirm, setPasswordConfirm] = useState('');
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  // Step 1: request a link by email
+  const handleRequest = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setIsLoading(true);
+
+    try {
+      const response = await fetch('/api/auth/password-reset', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ email }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to send reset link');
+      }
+
+      setSuccess(
+        'Falls ein Konto mit dieser E-Mail-Adresse existiert, haben wir dir einen Link geschickt. Er ist 1 Stunde gültig.'
+      );
+      setEmail('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send reset link');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Step 2: set the new password with the token from the email
+  const handleConfirm = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (password !== passwordConfirm) {
+      setError('Die Passwörter stimmen nicht überein.');
+      return;
+    }
+
+    setIsLoading(true);
+
+    try {
+      const response = await fetch('/api/auth/password-reset/confirm', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ token, password }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to set password');
+      }
+
+      setSuccess('Dein Passwort wurde gespeichert. Du kannst dich jetzt im Portal anmelden.');
+      setPassword('');
+      setPasswordConfirm('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to set password');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const inputClassName =
+    'w-full px-3 py-2 border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-purple-500/50 focus:border-purple-500';
+
+  return (
+    <main className="flex min-h-screen flex-col items-center justify-center p-6 bg-gray-50">
+      <div className="max-w-md w-full">
+        {/* Header */}
+        <div className="text-center mb-8">
+          <div className="mx-auto w-16 h-16 rounded-full bg-purple-100 flex items-center justify-center mb-4">
+            <svg
+              className="w-8 h-8 text-purple-600"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z"
+              />
+            </svg>
+          </div>
+          <h1 className="text-2xl font-bold text-gray-900">
+            {token ? 'Neues Passwort festlegen' : 'Passwort zurücksetzen'}
+          </h1>
+          <p className="text-gray-500 mt-1">
+            Für Admin-, Staff- und Engineer-Portal
+          </p>
+        </div>
+
+        <div className="bg-white rounded-lg border border-gray-200 p-6 shadow-sm">
+          {/* Error message */}
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3 mb-4">
+              <p className="text-sm text-red-600">{error}</p>
+            </div>
+          )}
+
+          {/* Success message */}
+          {success ? (
+            <div className="bg-green-50 border border-green-200 rounded-lg p-4">
+              <p className="text-sm text-green-700">{success}</p>
+            </div>
+          ) : token ? (
+            <form onSubmit={handleConfirm} className="space-y-4">
+              <div>
+                <label
+                  htmlFor="password"
+                  className="block text-sm font-medium text-gray-700 mb-1"
+                >
+                  Neues Passwort
+                </label>
+                <input
+                  id="password"
+                  type="password"
+                  autoComplete="new-password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  required
+                  minLength={MIN_PASSWORD_LENGTH}
+                  className={inputClassName}
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  Mindestens {MIN_PASSWORD_LENGTH} Zeichen, nicht nur Ziffern.
+                </p>
+              </div>
+
+              <div>
+                <label
+                  htmlFor="passwordConfirm"
+                  className="block text-sm font-medium text-gray-700 mb-1"
+                >
+                  Passwort wiederholen
+                </label>
+                <input
+                  id="passwordConfirm"
+                  type="password"
+                  autoComplete="new-password"
+                  value={passwordConfirm}
+                  onChange={(e) => setPasswordConfirm(e.target.value)}
+                  required
+                  className={inputClassName}
+                />
+              </div>
+
+              <button
+                type="submit"
+                disabled={isLoading}
+                className="w-full py-2 px-4 bg-purple-600 text-white rounded-lg font-medium hover:bg-purple-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isLoading ? 'Wird gespeichert...' : 'Passwort speichern'}
+              </button>
+            </form>
+          ) : (
+            <form onSubmit={handleRequest} className="space-y-4">
+              <div>
+                <label
+                  htmlFor="email"
+                  className="block text-sm font-medium text-gray-700 mb-1"
+                >
+                  E-Mail-Adresse
+                </label>
+                <input
+                  id="email"
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  required
+                  className={inputClassName}
+                  placeholder="your.email@minimusiker.de"
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  Auch für das erste Festlegen deines Passworts.
+                </p>
+              </div>
+
+              <button
+                type="submit"
+                disabled={isLoading}
+                className="w-full py-2 px-4 bg-purple-600 text-white rounded-lg font-medium hover:bg-purple-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isLoading ? 'Link wird gesendet...' : 'Link anfordern'}
+              </button>
+            </form>
+          )}
+        </div>
+
+        {/* Back links */}
+        <div className="flex justify-center gap-6 mt-6 text-sm">
+          <Link href="/admin-login" className="text-gray-500 hover:text-purple-600 transition-colors">
+            Admin-Login
+          </Link>
+          <Link href="/staff-login" className="text-gray-500 hover:text-purple-600 transition-colors">
+            Staff-Login
+          </Link>
+          <Link href="/engineer-login" className="text-gray-500 hover:text-purple-600 transition-colors">
+            Engineer-Login
+          </Link>
+        </div>
+      </div>
+    </main>
+  );
+}
+
+export default function PasswordResetPage() {
+  return (
+    <Suspense
+      fallback={
+        <main className="flex min-h-screen flex-col items-center justify-center p-6 bg-gray-50">
+          <h1 className="text-2xl font-bold text-gray-900">Laden...</h1>
+        </main>
+      }
+    >
+      <PasswordResetContent />
+    </Suspense>
+  );
+}
@@ -0,0 +1,98 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useParams } from 'next/navigation';
+import LoadingSpinner from '@/components/shared/LoadingSpinner';
+
+interface ClassNameList {
+  classId: string;
+  className: string;
+  names: string[];
+  excluded: number;
+}
+
+/**
+ * Printable name list per class. The API only returns children whose
+ * parents consented to their name on printed material.
+ */
+export default function StaffNameListPage() {
+  const params = useParams();
+  const eventId = params.eventId as string;
+
+  const [classes, setClasses] = useState<ClassNameList[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchNameList = async () => {
+      try {
+        const response = await fetch(`/api/staff/events/${encodeURIComponent(eventId)}/name-list`);
+        const data = await response.json();
+        if (!response.ok || !data.success) {
+          throw new Error(data.error || 'Failed to load name list');
+        }
+        setClasses(data.classes || []);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load name list');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    fetchNameList();
+  }, [eventId]);
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex justify-center items-center">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="p-6">
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+          <p className="text-red-600">Error: {error}</p>
+        </div>
+      </div>
+    );
+  }
+
+  const excluded = classes.reduce((sum, cls) => sum + cls.excluded, 0);
+
+  return (
+    <div className="max-w-3xl mx-auto p-8 bg-white">
+      <div className="flex items-center justify-between mb-6 print:hidden">
+        <p className="text-sm text-gray-500">
+          {excluded > 0
+            ? `${excluded} ${excluded === 1 ? 'child is' : 'children are'} not listed (no consent to the name on printed material).`
+            : 'All registered children are listed.'}
+        </p>
+        <button
+          onClick={() => window.print()}
+          className="px-4 py-2 bg-[#94B8B3] text-white rounded-lg hover:bg-[#5a8a82] transition-colors text-sm"
+        >
+          Print
+        </button>
+      </div>
+
+      {classes.map((cls) => (
+        <section key={cls.classId} className="mb-8 break-inside-avoid">
+          <h2 className="text-lg font-semibold text-gray-900 border-b border-gray-300 pb-1 mb-3">
+            {cls.className}
+          </h2>
+          {cls.names.length > 0 ? (
+            <ol className="columns-2 gap-8 list-decimal list-inside text-gray-900">
+              {cls.names.map((name, index) => (
+                <li key={`${name}-${index}`} className="py-0.5">{name}</li>
+              ))}
+            </ol>
+          ) : (
+            <p className="text-sm text-gray-500">No names to list.</p>
+          )}
+        </section>
+      ))}
+    </div>
+  );
+}
@@ -9,6 +9,7 @@ import EventBadge from '@/components/admin/EventBadge';
 import StatsPill from '@/components/admin/StatsPill';
 import LogicProjectUploadSection from '@/components/staff/LogicProjectUploadSection';
 import StaffAudioSection from '@/components/staff/StaffAudioSection';
+import StaffConsentSection from '@/components/staff/StaffConsentSection';
 
 function formatDate(dateString: string): string {
   if (!dateString) return 'No date';
@@ -379,6 +380,9 @@ export default function StaffEventDetailPage() {
           </div>
         )}
 
+        {/* Parental Consent Section */}
+        <StaffConsentSection eventId={event.eventId} />
+
         {/* Audio Tracks Section */}
         <StaffAudioSection eventId={event.eventId} />
 
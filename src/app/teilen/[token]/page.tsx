@@ -0,0 +1,176 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useParams } from 'next/navigation';
+import LoadingSpinner from '@/components/shared/LoadingSpinner';
+
+interface ShareTrack {
+  audioFileId: string;
+  title: string;
+  artist?: string;
+  sectionName: string;
+  order: number;
+  durationSeconds?: number;
+}
+
+interface SharedRecordings {
+  label: string;
+  schoolName: string;
+  expiresAt: string;
+  remainingPlays: number;
+  tracks: ShareTrack[];
+}
+
+const DENIED_MESSAGES: Record<string, string> = {
+  expired: 'Dieser Link ist abgelaufen.',
+  revoked: 'Dieser Link wurde zurückgezogen.',
+  exhausted: 'Die Wiedergaben über diesen Link sind aufgebraucht.',
+  unavailable: 'Die Aufnahmen sind gerade nicht verfügbar.',
+};
+const INVALID_MESSAGE = 'Dieser Link ist ungültig.';
+
+function formatDuration(seconds?: number): string {
+  if (!seconds) return '';
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(Math.round(seconds % 60)).padStart(2, '0')}`;
+}
+
+export default function SharedRecordingsPage() {
+  const { token } = useParams<{ token: string }>();
+
+  const [recordings, setRecordings] = useState<SharedRecordings | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [current, setCurrent] = useState<{ audioFileId: string; url: string } | null>(null);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadRecordings = async () => {
+      try {
+        const response = await fetch(`/api/share/${encodeURIComponent(token)}`);
+        const data = await response.json();
+        if (!response.ok || !data.success) {
+          throw new Error(DENIED_MESSAGES[data.data?.status] || INVALID_MESSAGE);
+        }
+        setRecordings(data.data);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : INVALID_MESSAGE);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadRecordings();
+  }, [token]);
+
+  const requestTrack = async (track: ShareTrack, download: boolean) => {
+    setPendingId(track.audioFileId);
+    setError(null);
+    try {
+      const response = await fetch(`/api/share/${encodeURIComponent(token)}/play`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ audioFileId: track.audioFileId, download }),
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(DENIED_MESSAGES[data.data?.status] || 'Die Aufnahme konnte nicht geladen werden.');
+      }
+
+      setRecordings((prev) => (prev ? { ...prev, remainingPlays: data.data.remainingPlays } : prev));
+      if (download) {
+        window.location.href = data.data.url;
+      } else {
+        setCurrent({ audioFileId: track.audioFileId, url: data.data.url });
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Die Aufnahme konnte nicht geladen werden.');
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-cream-100 to-sage-50 flex items-center justify-center p-4">
+        <div className="max-w-md w-full bg-white rounded-2xl shadow-xl p-8 text-center">
+          <LoadingSpinner size="lg" className="mx-auto mb-4" />
+          <p className="text-gray-500">Aufnahmen werden geladen...</p>
+        </div>
+      </div>
+    );
+  }
+
+  const isUsedUp = recordings !== null && recordings.remainingPlays === 0;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-cream-100 to-sage-50 flex items-center justify-center p-4">
+      <div className="max-w-2xl w-full bg-white rounded-2xl shadow-xl p-6 sm:p-8">
+        <h1 className="text-2xl font-bold text-gray-900 mb-2 text-center">
+          {recordings ? recordings.schoolName : 'MiniMusiker'}
+        </h1>
+        {recordings && (
+          <p className="text-gray-600 mb-6 text-center">
+            Aufnahmen, geteilt für <strong>{recordings.label}</strong>. Noch {recordings.remainingPlays}{' '}
+            {recordings.remainingPlays === 1 ? 'Wiedergabe' : 'Wiedergaben'}, gültig bis{' '}
+            {new Date(recordings.expiresAt).toLocaleDateString('de-DE')}.
+          </p>
+        )}
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm mb-4">
+            {error}
+          </div>
+        )}
+
+        {recordings && current && (
+          <audio key={current.url} src={current.url} controls autoPlay className="w-full mb-4" />
+        )}
+
+        {recordings && recordings.tracks.length === 0 && (
+          <p className="text-center text-gray-500">Es sind noch keine Aufnahmen verfügbar.</p>
+        )}
+
+        {recordings && recordings.tracks.length > 0 && (
+          <ul className="divide-y divide-gray-100 border border-gray-200 rounded-xl">
+            {recordings.tracks.map((track) => (
+              <li
+                key={track.audioFileId}
+                className={`flex items-center justify-between gap-3 px-4 py-3 ${
+                  current?.audioFileId === track.audioFileId ? 'bg-sage-50' : ''
+                }`}
+              >
+                <div className="min-w-0">
+                  <p className="font-medium text-gray-900 truncate">{track.title}</p>
+                  <p className="text-xs text-gray-500 truncate">
+                    {[track.sectionName, track.artist, formatDuration(track.durationSeconds)].filter(Boolean).join(' · ')}
+                  </p>
+                </div>
+                <div className="flex shrink-0 gap-3 text-sm">
+                  <button
+                    onClick={() => requestTrack(track, false)}
+                    disabled={pendingId !== null || isUsedUp}
+                    className="text-sage-700 font-medium hover:underline disabled:opacity-50"
+                  >
+                    {pendingId === track.audioFileId ? '...' : 'Abspielen'}
+                  </button>
+                  <button
+                    onClick={() => requestTrack(track, true)}
+                    disabled={pendingId !== null || isUsedUp}
+                    className="text-gray-500 hover:underline disabled:opacity-50"
+                  >
+                    Herunterladen
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <p className="mt-6 text-xs text-gray-400 text-center">
+          Jede Wiedergabe und jeder Download zählt. Bitte den Link nicht weitergeben.
+        </p>
+      </div>
+    </div>
+  );
+}
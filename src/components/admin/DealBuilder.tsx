@@ -8,6 +8,7 @@ interface DealBuilderProps {
   dealConfig: DealConfig;
   onSave: (config: DealConfig) => void;
   isUpdating?: boolean;
+  saveLabel?: string;
 }
 
 // ─── Preset definitions ──────────────────────────────────────────────
@@ -214,6 +215,7 @@ export default function DealBuilder({
   dealConfig,
   onSave,
   isUpdating,
+  saveLabel = 'Save Deal',
 }: DealBuilderProps) {
   const [localConfig, setLocalConfig] = useState<DealConfig>(() => {
     const migrated = migratePresets(dealConfig);
@@ -433,7 +435,7 @@ export default function DealBuilder({
               : 'bg-gray-100 text-gray-400 cursor-not-allowed'
           }`}
         >
-          {isUpdating ? 'Saving...' : 'Save Deal'}
+          {isUpdating ? 'Saving...' : saveLabel}
         </button>
       </div>
     </div>
@@ -25,6 +25,7 @@ const RECIPIENT_LABEL: Record<EmailLog['recipientType'], string> = {
   teacher: 'Lehrer',
   parent: 'Eltern',
   'non-buyer': 'Non-Buyer',
+  lead: 'Lead',
 };
 
 function formatDateTime(iso: string): string {
@@ -0,0 +1,219 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { toast } from 'sonner';
+import type { Invoice, InvoiceStatus } from '@/lib/types/airtable';
+import { formatEuro } from '@/lib/utils/businessDocument';
+import { getEffectiveInvoiceStatus } from '@/lib/utils/invoiceDocument';
+
+type InvoiceWithUrl = Invoice & { downloadUrl: string | null };
+
+const STATUS_STYLES: Record<InvoiceStatus, string> = {
+  draft: 'bg-gray-100 text-gray-600',
+  sent: 'bg-blue-100 text-blue-700',
+  paid: 'bg-green-100 text-green-700',
+  overdue: 'bg-red-100 text-red-700',
+  cancelled: 'bg-gray-100 text-gray-400 line-through',
+};
+
+interface InvoicesPanelProps {
+  eventId: string;
+  /** Default recipient for the email prompts */
+  contactEmail?: string;
+}
+
+function formatDate(value?: string): string {
+  return value ? new Date(value).toLocaleDateString('en-GB') : '—';
+}
+
+export default function InvoicesPanel({ eventId, contactEmail }: InvoicesPanelProps) {
+  const [invoices, setInvoices] = useState<InvoiceWithUrl[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isCreating, setIsCreating] = useState(false);
+  const [busyInvoiceId, setBusyInvoiceId] = useState<string | null>(null);
+  const today = new Date().toISOString().split('T')[0];
+
+  const fetchInvoices = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/admin/events/${encodeURIComponent(eventId)}/invoices`);
+      const result = await response.json();
+      if (!result.success) throw new Error(result.error || 'Failed to load invoices');
+      setInvoices(result.data);
+    } catch (error) {
+      console.error('Error loading invoices:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to load invoices');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [eventId]);
+
+  useEffect(() => {
+    fetchInvoices();
+  }, [fetchInvoices]);
+
+  const handleCreateDraft = async () => {
+    setIsCreating(true);
+    try {
+      const response = await fetch(`/api/admin/events/${encodeURIComponent(eventId)}/invoices`, { method: 'POST' });
+      const result = await response.json();
+      if (!result.success) throw new Error(result.error || 'Failed to create invoice');
+      setInvoices((prev) => [result.data, ...prev]);
+      toast.success('Draft invoice created');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to create invoice');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  /**
+   * Runs an invoice action and reloads the list, since issuing and
+   * cancelling change more than one row
+   */
+  const runAction = async (invoice: InvoiceWithUrl, path: string, body: Record<string, unknown>, success: string) => {
+    setBusyInvoiceId(invoice.id);
+    try {
+      const response = await fetch(`/api/admin/invoices/${invoice.id}${path}`, {
+        method: path ? 'POST' : 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        ...(path && { body: JSON.stringify(body) }),
+      });
+      const result = await response.json();
+      if (!result.success) throw new Error(result.error || 'Invoice action failed');
+      toast.success(success);
+      await fetchInvoices();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Invoice action failed');
+    } finally {
+      setBusyInvoiceId(null);
+    }
+  };
+
+  const handleIssue = (invoice: InvoiceWithUrl) => {
+    const email = window.prompt(
+      'Issue this invoice and email it to (leave empty to issue without sending):',
+      contactEmail || ''
+    );
+    if (email === null) return;
+    runAction(invoice, '/issue', { email: email.trim() || undefined }, email.trim() ? `Invoice issued and sent to ${email}` : 'Invoice issued');
+  };
+
+  const handleSend = (invoice: InvoiceWithUrl) => {
+    const email = window.prompt(`Send ${invoice.invoiceNumber} to:`, invoice.sentTo || contactEmail || '');
+    if (!email) return;
+    runAction(invoice, '/send', { email }, `${invoice.invoiceNumber} sent to ${email}`);
+  };
+
+  const handleMarkPaid = (invoice: InvoiceWithUrl) => {
+    const paidAt = window.prompt(`Payment date for ${invoice.invoiceNumber} (YYYY-MM-DD):`, today);
+    if (!paidAt) return;
+    runAction(invoice, '/mark-paid', { paidAt }, `${invoice.invoiceNumber} marked as paid`);
+  };
+
+  const handleCancel = (invoice: InvoiceWithUrl) => {
+    const reason = window.prompt(`Cancel ${invoice.invoiceNumber} with a Storno invoice. Reason:`);
+    if (!reason?.trim()) return;
+    runAction(invoice, '/cancel', { reason }, `${invoice.invoiceNumber} cancelled`);
+  };
+
+  const handleDelete = (invoice: InvoiceWithUrl) => {
+    if (!window.confirm('Delete this draft invoice?')) return;
+    runAction(invoice, '', {}, 'Draft deleted');
+  };
+
+  const actionClass = 'text-blue-600 hover:text-blue-800 disabled:text-gray-400 ml-3';
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="text-sm font-semibold text-gray-700">Invoices</h4>
+        <button
+          type="button"
+          onClick={handleCreateDraft}
+          disabled={isCreating}
+          className="px-3 py-1.5 text-xs font-medium text-white bg-blue-600 rounded hover:bg-blue-700 disabled:bg-gray-300 transition-colors"
+        >
+          {isCreating ? 'Creating...' : 'Create Invoice'}
+        </button>
+      </div>
+
+      {isLoading ? (
+        <p className="text-xs text-gray-400">Loading invoices...</p>
+      ) : invoices.length === 0 ? (
+        <p className="text-xs text-gray-400">No invoices yet</p>
+      ) : (
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-left text-gray-500 border-b border-gray-100">
+              <th className="py-1.5 font-medium">Invoice</th>
+              <th className="py-1.5 font-medium text-right">Gross</th>
+              <th className="py-1.5 font-medium">Status</th>
+              <th className="py-1.5 font-medium">Due</th>
+              <th className="py-1.5" />
+            </tr>
+          </thead>
+          <tbody>
+            {invoices.map((invoice) => {
+              const status = getEffectiveInvoiceStatus(invoice, today);
+              const isBusy = busyInvoiceId === invoice.id;
+              const isOpen = invoice.invoiceType === 'invoice' && (status === 'sent' || status === 'overdue');
+              return (
+                <tr key={invoice.id} className="border-b border-gray-50 last:border-0">
+                  <td className="py-1.5 text-gray-700">
+                    <span className="font-mono">{invoice.invoiceNumber || 'Draft'}</span>
+                    {invoice.invoiceType === 'storno' && <span className="ml-1 text-gray-400">(Storno)</span>}
+                  </td>
+                  <td className="py-1.5 text-right text-gray-700">{formatEuro(invoice.grossAmount)}</td>
+                  <td className="py-1.5">
+                    <span className={`px-1.5 py-0.5 rounded ${STATUS_STYLES[status]}`}>{status}</span>
+                    {invoice.dunningLevel > 0 && (
+                      <span className="ml-1 text-gray-400" title={invoice.lastDunningAt}>
+                        reminder {invoice.dunningLevel}
+                      </span>
+                    )}
+                  </td>
+                  <td className="py-1.5 text-gray-500">
+                    {status === 'paid' ? `paid ${formatDate(invoice.paidAt)}` : formatDate(invoice.dueDate)}
+                  </td>
+                  <td className="py-1.5 text-right whitespace-nowrap">
+                    {status === 'draft' ? (
+                      <>
+                        <button type="button" onClick={() => handleIssue(invoice)} disabled={isBusy} className={actionClass}>
+                          Issue
+                        </button>
+                        <button type="button" onClick={() => handleDelete(invoice)} disabled={isBusy} className={actionClass}>
+                          Delete
+                        </button>
+                      </>
+                    ) : (
+                      <>
+                        {invoice.downloadUrl && (
+                          <a href={invoice.downloadUrl} target="_blank" rel="noopener noreferrer" className={actionClass}>
+                            PDF
+                          </a>
+                        )}
+                        <button type="button" onClick={() => handleSend(invoice)} disabled={isBusy} className={actionClass}>
+                          Email
+                        </button>
+                        {isOpen && (
+                          <button type="button" onClick={() => handleMarkPaid(invoice)} disabled={isBusy} className={actionClass}>
+                            Paid
+                          </button>
+                        )}
+                        {invoice.invoiceType === 'invoice' && status !== 'cancelled' && (
+                          <button type="button" onClick={() => handleCancel(invoice)} disabled={isBusy} className={actionClass}>
+                            Cancel
+                          </button>
+                        )}
+                      </>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
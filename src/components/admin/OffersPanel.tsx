@@ -0,0 +1,194 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { toast } from 'sonner';
+import DealBuilder from '@/components/admin/DealBuilder';
+import type { DealConfig, Offer } from '@/lib/types/airtable';
+import { formatEuro } from '@/lib/utils/businessDocument';
+
+type OfferWithUrl = Offer & { downloadUrl: string };
+
+interface OffersPanelProps {
+  /** e.g. /api/admin/leads/<id>/offers — GET lists versions, POST creates one */
+  offersUrl: string;
+  /** Default recipient for the email prompt */
+  contactEmail?: string;
+  /**
+   * Leads have no saved deal, so a Deal Builder opens to configure the offer.
+   * Events create offers from their saved Deal Builder config.
+   */
+  useDealBuilder?: boolean;
+}
+
+export default function OffersPanel({ offersUrl, contactEmail, useDealBuilder = false }: OffersPanelProps) {
+  const [offers, setOffers] = useState<OfferWithUrl[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [showBuilder, setShowBuilder] = useState(false);
+  const [isCreating, setIsCreating] = useState(false);
+  const [sendingOfferId, setSendingOfferId] = useState<string | null>(null);
+
+  const fetchOffers = useCallback(async () => {
+    try {
+      const response = await fetch(offersUrl);
+      const result = await response.json();
+      if (!result.success) throw new Error(result.error || 'Failed to load offers');
+      setOffers(result.data);
+    } catch (error) {
+      console.error('Error loading offers:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to load offers');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [offersUrl]);
+
+  useEffect(() => {
+    fetchOffers();
+  }, [fetchOffers]);
+
+  const handleCreate = async (dealConfig?: DealConfig) => {
+    setIsCreating(true);
+    try {
+      const response = await fetch(offersUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(dealConfig ? { dealConfig } : {}),
+      });
+      const result = await response.json();
+      if (!result.success) throw new Error(result.error || 'Failed to create offer');
+      setOffers((prev) => [result.data, ...prev]);
+      setShowBuilder(false);
+      toast.success(`Offer ${result.data.offerNumber} created`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to create offer');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleSend = async (offer: OfferWithUrl) => {
+    const email = window.prompt(`Send ${offer.offerNumber} to:`, offer.sentTo || contactEmail || '');
+    if (!email) return;
+
+    setSendingOfferId(offer.id);
+    try {
+      const response = await fetch(`/api/admin/offers/${offer.id}/send`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email }),
+      });
+      const result = await response.json();
+      if (!result.success) throw new Error(result.error || 'Failed to send offer');
+      setOffers((prev) =>
+        prev.map((o) => (o.id === offer.id ? { ...o, sentAt: new Date().toISOString(), sentTo: email.trim() } : o))
+      );
+      toast.success(`Offer sent to ${email}`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to send offer');
+    } finally {
+      setSendingOfferId(null);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="text-sm font-semibold text-gray-700">Offers</h4>
+        <button
+          type="button"
+          onClick={() => (useDealBuilder ? setShowBuilder(true) : handleCreate())}
+          disabled={isCreating}
+          className="px-3 py-1.5 text-xs font-medium text-white bg-blue-600 rounded hover:bg-blue-700 disabled:bg-gray-300 transition-colors"
+        >
+          {isCreating && !showBuilder ? 'Generating...' : 'Create Offer'}
+        </button>
+      </div>
+
+      {isLoading ? (
+        <p className="text-xs text-gray-400">Loading offers...</p>
+      ) : offers.length === 0 ? (
+        <p className="text-xs text-gray-400">No offers yet</p>
+      ) : (
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-left text-gray-500 border-b border-gray-100">
+              <th className="py-1.5 font-medium">Offer</th>
+              <th className="py-1.5 font-medium text-right">Total</th>
+              <th className="py-1.5 font-medium">Created</th>
+              <th className="py-1.5 font-medium">Valid Until</th>
+              <th className="py-1.5 font-medium">Sent</th>
+              <th className="py-1.5" />
+            </tr>
+          </thead>
+          <tbody>
+            {offers.map((offer) => (
+              <tr key={offer.id} className="border-b border-gray-50 last:border-0">
+                <td className="py-1.5 font-mono text-gray-700">{offer.offerNumber}</td>
+                <td className="py-1.5 text-right text-gray-700">{formatEuro(offer.total)}</td>
+                <td className="py-1.5 text-gray-500">
+                  {offer.createdAt ? new Date(offer.createdAt).toLocaleDateString('en-GB') : '—'}
+                </td>
+                <td className="py-1.5 text-gray-500">
+                  {offer.validUntil ? new Date(offer.validUntil).toLocaleDateString('en-GB') : '—'}
+                </td>
+                <td className="py-1.5 text-gray-500">
+                  {offer.sentAt ? (
+                    <span title={offer.sentTo}>{new Date(offer.sentAt).toLocaleDateString('en-GB')}</span>
+                  ) : (
+                    '—'
+                  )}
+                </td>
+                <td className="py-1.5 text-right whitespace-nowrap">
+                  <a
+                    href={offer.downloadUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-blue-600 hover:text-blue-800 mr-3"
+                  >
+                    PDF
+                  </a>
+                  <button
+                    type="button"
+                    onClick={() => handleSend(offer)}
+                    disabled={sendingOfferId === offer.id}
+                    className="text-blue-600 hover:text-blue-800 disabled:text-gray-400"
+                  >
+                    {sendingOfferId === offer.id ? 'Sending...' : 'Email'}
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {showBuilder && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50">
+          <div
+            role="dialog"
+            aria-modal="true"
+            className="bg-white rounded-xl shadow-xl max-w-lg w-full mx-4 max-h-[90vh] overflow-y-auto p-6"
+          >
+            <div className="flex justify-end -mt-2 -mr-2">
+              <button
+                onClick={() => setShowBuilder(false)}
+                disabled={isCreating}
+                aria-label="Close"
+                className="text-gray-400 hover:text-gray-600 disabled:opacity-50"
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+            <DealBuilder
+              dealConfig={{}}
+              onSave={handleCreate}
+              isUpdating={isCreating}
+              saveLabel="Generate Offer PDF"
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
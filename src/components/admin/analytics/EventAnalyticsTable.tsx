@@ -166,6 +166,7 @@ export default function EventAnalyticsTable({ data, onRefresh }: EventAnalyticsT
                           <EventBreakdown
                             eventId={row.eventId}
                             revenue={row.revenue}
+                            schoolFees={row.schoolFees}
                             costs={row.costs}
                             onManualCostChange={handleManualCostChange}
                           />
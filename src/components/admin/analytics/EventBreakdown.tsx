@@ -1,6 +1,6 @@
 'use client';
 
-import { EventCosts, EventRevenue } from '@/lib/types/analytics';
+import { EventCosts, EventRevenue, SchoolFeeRevenue } from '@/lib/types/analytics';
 import RevenueSection from './RevenueSection';
 import CostsSection from './CostsSection';
 import ProfitSection from './ProfitSection';
@@ -8,6 +8,7 @@ import ProfitSection from './ProfitSection';
 interface EventBreakdownProps {
   eventId: string;
   revenue: EventRevenue;
+  schoolFees: SchoolFeeRevenue;
   costs: EventCosts;
   onManualCostChange: () => void;
 }
@@ -15,6 +16,7 @@ interface EventBreakdownProps {
 export default function EventBreakdown({
   eventId,
   revenue,
+  schoolFees,
   costs,
   onManualCostChange,
 }: EventBreakdownProps) {
@@ -34,7 +36,8 @@ export default function EventBreakdown({
 
       {/* BOTTOM: Profit Section */}
       <ProfitSection
-        totalRevenue={revenue.totalRevenue}
+        shopRevenue={revenue.totalRevenue}
+        schoolFees={schoolFees}
         totalCosts={costs.totalCost}
       />
     </div>
@@ -21,6 +21,9 @@ function generateCSV(data: EventAnalyticsRow[]): string {
     'Event Name',
     'Event Date',
     'Total Revenue (€)',
+    'Refunds (€)',
+    'School Fees Net (€)',
+    'School Fees Open (€)',
     'AOV (€)',
     'Incurred Cost (€)',
     'Profit (€)',
@@ -39,6 +42,9 @@ function generateCSV(data: EventAnalyticsRow[]): string {
     row.schoolName,
     formatDate(row.eventDate),
     row.totalRevenue.toFixed(2),
+    (-row.revenue.refundTotal).toFixed(2),
+    row.schoolFees.net.toFixed(2),
+    row.schoolFees.open.toFixed(2),
     row.aov.toFixed(2),
     row.incurredCost.toFixed(2),
     row.profit.toFixed(2),
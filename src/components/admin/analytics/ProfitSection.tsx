@@ -1,5 +1,8 @@
+import { SchoolFeeRevenue } from '@/lib/types/analytics';
+
 interface ProfitSectionProps {
-  totalRevenue: number;
+  shopRevenue: number;
+  schoolFees: SchoolFeeRevenue;
   totalCosts: number;
 }
 
@@ -7,16 +10,35 @@ function formatCurrency(amount: number): string {
   return `€${amount.toFixed(2)}`;
 }
 
-export default function ProfitSection({ totalRevenue, totalCosts }: ProfitSectionProps) {
-  const profit = totalRevenue - totalCosts;
+export default function ProfitSection({ shopRevenue, schoolFees, totalCosts }: ProfitSectionProps) {
+  const profit = shopRevenue + schoolFees.net - totalCosts;
   const isPositive = profit >= 0;
 
   return (
-    <div className="mt-4 pt-4 border-t border-gray-300 flex justify-between items-center">
-      <span className="text-sm font-medium text-gray-700">Total Event Profit</span>
-      <span className={`text-xl font-bold ${isPositive ? 'text-green-600' : 'text-red-600'}`}>
-        {isPositive ? '+' : ''}{formatCurrency(profit)}
-      </span>
+    <div className="mt-4 pt-4 border-t border-gray-300">
+      <div className="grid grid-cols-2 gap-4 mb-3 text-sm">
+        <div className="flex justify-between">
+          <span className="text-gray-600">Shop Revenue</span>
+          <span className="text-gray-900">{formatCurrency(shopRevenue)}</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-gray-600">
+            School Fees (net)
+            {schoolFees.openInvoiceCount > 0 && (
+              <span className="ml-1 text-xs text-orange-600">
+                {formatCurrency(schoolFees.open)} open
+              </span>
+            )}
+          </span>
+          <span className="text-gray-900">{formatCurrency(schoolFees.net)}</span>
+        </div>
+      </div>
+      <div className="flex justify-between items-center">
+        <span className="text-sm font-medium text-gray-700">Total Event Profit</span>
+        <span className={`text-xl font-bold ${isPositive ? 'text-green-600' : 'text-red-600'}`}>
+          {isPositive ? '+' : ''}{formatCurrency(profit)}
+        </span>
+      </div>
     </div>
   );
 }
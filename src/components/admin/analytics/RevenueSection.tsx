@@ -46,6 +46,24 @@ export default function RevenueSection({ revenue }: RevenueSectionProps) {
         ))
       )}
 
+      {/* Refunds */}
+      {revenue.refunds.length > 0 && (
+        <div className="mb-4">
+          <div className="text-sm font-medium text-gray-800 mb-1">Refunds</div>
+          <table className="w-full text-sm">
+            <tbody>
+              {revenue.refunds.map((refund) => (
+                <tr key={refund.label}>
+                  <td className="py-0.5 text-gray-600 pl-4">{refund.label}</td>
+                  <td className="py-0.5 text-right">{refund.quantity}</td>
+                  <td className="py-0.5 text-right text-red-600">{formatCurrency(-refund.amount)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
       {/* Total */}
       <div className="border-t border-gray-300 pt-2 mt-2 flex justify-between font-semibold text-sm">
         <span>Total Revenue</span>
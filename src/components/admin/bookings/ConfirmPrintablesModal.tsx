@@ -14,6 +14,9 @@ import { type FormModeItemState } from '@/lib/config/formModeState';
 import { bookingToResolverInput } from '@/lib/config/printableFieldResolver';
 import { hasFormMode } from '@/lib/config/printableFieldRegistry';
 import type { MasterCdData } from '@/lib/services/masterCdService';
+import { getJobProgress } from '@/lib/types/jobs';
+import { waitForJob } from '@/lib/api/waitForJob';
+import { parseJsonOrThrow } from '@/lib/api/parseResponse';
 
 const EMPTY_FORM_STATE: FormModeItemState = Object.freeze({}) as FormModeItemState;
 
@@ -133,6 +136,7 @@ export default function ConfirmPrintablesModal({
   const [isGenerating, setIsGenerating] = useState(false);
   const [generationError, setGenerationError] = useState<string | null>(null);
   const [generationResult, setGenerationResult] = useState<GenerationResult | null>(null);
+  const [generationProgress, setGenerationProgress] = useState<string | null>(null);
 
   // Preview download state
   const [isDownloading, setIsDownloading] = useState(false);
@@ -529,6 +533,34 @@ export default function ConfirmPrintablesModal({
       };
     });
 
+  // Generation runs as a background job (see /admin/jobs). Queue it, then
+  // poll until it finishes; the job result has the old synchronous shape.
+  const generateViaJob = async (items: ReturnType<typeof buildItemsPayload>): Promise<GenerationResult> => {
+    const response = await fetch('/api/admin/printables/generate', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        eventId: booking.code,
+        schoolName: booking.schoolName,
+        eventDate: booking.bookingDate,
+        isKita: booking.isKita,
+        items,
+      }),
+    });
+    const { jobId } = await parseJsonOrThrow<{ jobId: string }>(response);
+
+    const job = await waitForJob<GenerationResult>(jobId, {
+      onProgress: (j) => {
+        const { done, failed, total } = getJobProgress(j);
+        setGenerationProgress(total > 0 ? `${done + failed}/${total}` : null);
+      },
+    });
+    if (!job.result) {
+      throw new Error(job.lastError || 'Failed to generate printables');
+    }
+    return job.result;
+  };
+
   const runGenerate = async (
     types: readonly PrintableItemType[],
     { closeOnFullSuccess }: { closeOnFullSuccess: boolean },
@@ -539,25 +571,9 @@ export default function ConfirmPrintablesModal({
     setLastGenerationClosesModal(closeOnFullSuccess);
 
     try {
-      const response = await fetch('/api/admin/printables/generate', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          eventId: booking.code,
-          schoolName: booking.schoolName,
-          eventDate: booking.bookingDate,
-          isKita: booking.isKita,
-          items: buildItemsPayload(types),
-        }),
-      });
-
-      const result = await response.json();
+      const result = await generateViaJob(buildItemsPayload(types));
       setGenerationResult(result);
 
-      if (!response.ok) {
-        throw new Error(result.error || 'Failed to generate printables');
-      }
-
       if (closeOnFullSuccess && result.success && !result.partialSuccess && !result.allSkipped) {
         localStorage.removeItem(`${storageKeyPrefix}-editor`);
         localStorage.removeItem(`${storageKeyPrefix}-form`);
@@ -572,6 +588,7 @@ export default function ConfirmPrintablesModal({
       console.error('Generation error:', error);
     } finally {
       setIsGenerating(false);
+      setGenerationProgress(null);
     }
   };
 
@@ -596,43 +613,10 @@ export default function ConfirmPrintablesModal({
     const failedTypes = generationResult.results.failed.map(f => f.type);
 
     try {
-      const response = await fetch('/api/admin/printables/generate', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          eventId: booking.code,
-          schoolName: booking.schoolName,
-          eventDate: booking.bookingDate,
-          isKita: booking.isKita,
-          // Only send failed items for retry
-          items: PRINTABLE_ITEMS
-            .filter(item => failedTypes.includes(item.type))
-            .map(item => {
-              const status = itemsStatus[item.type];
-              if (hasFormMode(item.type)) {
-                return {
-                  type: item.type,
-                  status,
-                  formModeState: formModeStates[item.type] ?? {},
-                };
-              }
-              const state = itemEditorStates[item.type];
-              return {
-                type: item.type,
-                status,
-                textElements: state.textElements,
-                qrPosition: state.qrPosition,
-                canvasScale: state.canvasScale,
-              };
-            }),
-        }),
-      });
-
-      const result = await response.json();
-
-      if (!response.ok) {
-        throw new Error(result.error || 'Retry failed');
-      }
+      // Only send failed items for retry
+      const result = await generateViaJob(
+        buildItemsPayload(PRINTABLE_ITEMS.filter(item => failedTypes.includes(item.type)).map(item => item.type)),
+      );
 
       // Merge results, deduplicating by type (retry results take precedence)
       const retryTypes = new Set([
@@ -672,6 +656,7 @@ export default function ConfirmPrintablesModal({
       setGenerationError(error instanceof Error ? error.message : 'Retry failed. Please try again.');
     } finally {
       setIsGenerating(false);
+      setGenerationProgress(null);
     }
   };
 
@@ -902,7 +887,7 @@ export default function ConfirmPrintablesModal({
                         <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
                         <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
                       </svg>
-                      Generating...
+                      Generating{generationProgress ? ` ${generationProgress}` : ''}...
                     </>
                   ) : (
                     <>
@@ -1069,7 +1054,7 @@ export default function ConfirmPrintablesModal({
                         <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
                         <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
                       </svg>
-                      Retrying...
+                      Retrying{generationProgress ? ` ${generationProgress}` : ''}...
                     </>
                   ) : (
                     <>
@@ -1294,7 +1279,7 @@ export default function ConfirmPrintablesModal({
                         <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
                         <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
                       </svg>
-                      Generating...
+                      Generating{generationProgress ? ` ${generationProgress}` : ''}...
                     </>
                   ) : (
                     <>
@@ -0,0 +1,102 @@
+'use client';
+
+import { Fragment, useState } from 'react';
+import { cn } from '@/lib/utils';
+import type { Job, JobStatus } from '@/lib/types/jobs';
+import type { ErasureReport, RetentionReport } from '@/lib/types/dataProtection';
+
+interface PrivacyReportListProps {
+  jobs: Job[];
+}
+
+const STATUS_STYLES: Record<JobStatus, string> = {
+  queued: 'bg-gray-100 text-gray-700',
+  running: 'bg-blue-100 text-blue-700',
+  succeeded: 'bg-green-100 text-green-700',
+  failed: 'bg-red-100 text-red-700',
+};
+
+function formatDateTime(iso?: string): string {
+  if (!iso) return '—';
+  return new Date(iso).toLocaleString('de-DE', {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+function summarize(job: Job): string {
+  if (!job.result) return '—';
+  if (job.type === 'privacy.erasure') {
+    const { anonymised, ordersKept } = job.result as ErasureReport;
+    return `${anonymised.parents} parent, ${anonymised.registrations} children, ${anonymised.legacyRecords} legacy rows, ${anonymised.emailLogs} email logs anonymised · ${ordersKept} orders kept`;
+  }
+  const { events, totals, dryRun } = job.result as RetentionReport;
+  return `${events.length} events · ${totals.childNames + totals.legacyRecords} child names, ${dryRun ? `${totals.rawAudioRecords} raw recordings due` : `${totals.rawFilesDeleted} raw files deleted`}`;
+}
+
+/**
+ * Erasure and retention runs with their reports (the job results)
+ */
+export default function PrivacyReportList({ jobs }: PrivacyReportListProps) {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  if (jobs.length === 0) {
+    return (
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-8 text-center text-sm text-gray-500">
+        No erasure or retention runs yet.
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+      <table className="min-w-full divide-y divide-gray-200 text-sm">
+        <thead className="bg-gray-50">
+          <tr>
+            <th className="px-4 py-3 text-left font-medium text-gray-500">Run</th>
+            <th className="px-4 py-3 text-left font-medium text-gray-500">Status</th>
+            <th className="px-4 py-3 text-left font-medium text-gray-500">Report</th>
+            <th className="px-4 py-3 text-left font-medium text-gray-500">Started</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100">
+          {jobs.map((job) => {
+            const isExpanded = expandedId === job.id;
+            return (
+              <Fragment key={job.id}>
+                <tr
+                  onClick={() => setExpandedId(isExpanded ? null : job.id)}
+                  className="cursor-pointer hover:bg-gray-50"
+                >
+                  <td className="px-4 py-3">
+                    <div className="font-medium text-gray-900">{job.label}</div>
+                    <div className="text-xs text-gray-500">{job.createdBy}</div>
+                  </td>
+                  <td className="px-4 py-3">
+                    <span className={cn('inline-flex rounded-full px-2 py-0.5 text-xs font-medium', STATUS_STYLES[job.status])}>
+                      {job.status}
+                    </span>
+                  </td>
+                  <td className="px-4 py-3 text-gray-700">{summarize(job)}</td>
+                  <td className="px-4 py-3 text-gray-700">{formatDateTime(job.createdAt)}</td>
+                </tr>
+                {isExpanded && (
+                  <tr className="bg-gray-50">
+                    <td colSpan={4} className="px-4 py-4">
+                      <pre className="max-h-80 overflow-y-auto whitespace-pre-wrap rounded bg-gray-900 p-3 text-xs text-gray-100">
+                        {job.result ? JSON.stringify(job.result, null, 2) : job.logs.join('\n') || '—'}
+                      </pre>
+                    </td>
+                  </tr>
+                )}
+              </Fragment>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,331 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import type { EmailBlock, EmailBlockType } from '@/lib/types/email-automation';
+import { EMAIL_BLOCK_LABELS, createEmailBlock, validateEmailBlocks } from '@/lib/utils/emailBlocks';
+
+interface EmailBlockBuilderProps {
+  blocks: EmailBlock[];
+  onChange: (blocks: EmailBlock[]) => void;
+  /** Variables the template may use (for the insert chips and conditions) */
+  variables: string[];
+}
+
+type TextField = HTMLInputElement | HTMLTextAreaElement;
+
+interface FocusedField {
+  blockId: string;
+  field: string;
+  element: TextField;
+}
+
+const TOP_LEVEL_TYPES: EmailBlockType[] = ['heading', 'text', 'button', 'image', 'divider', 'conditional'];
+const NESTED_TYPES: EmailBlockType[] = ['heading', 'text', 'button', 'image', 'divider'];
+
+const INPUT_CLASS =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent text-sm';
+
+function updateBlockInTree(blocks: EmailBlock[], id: string, patch: Record<string, unknown>): EmailBlock[] {
+  return blocks.map((block) => {
+    if (block.id === id) return { ...block, ...patch } as EmailBlock;
+    if (block.type === 'conditional') {
+      return { ...block, blocks: updateBlockInTree(block.blocks, id, patch) };
+    }
+    return block;
+  });
+}
+
+function moveItem<T>(list: T[], from: number, to: number): T[] {
+  const next = [...list];
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
+}
+
+interface BlockListProps {
+  blocks: EmailBlock[];
+  onChange: (blocks: EmailBlock[]) => void;
+  onBlockChange: (id: string, patch: Record<string, unknown>) => void;
+  onFieldFocus: (field: FocusedField) => void;
+  variables: string[];
+  nested?: boolean;
+}
+
+function BlockList({ blocks, onChange, onBlockChange, onFieldFocus, variables, nested }: BlockListProps) {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+  const fieldProps = (block: EmailBlock, field: string) => ({
+    onFocus: (e: React.FocusEvent<TextField>) =>
+      onFieldFocus({ blockId: block.id, field, element: e.currentTarget }),
+    onChange: (e: React.ChangeEvent<TextField>) => onBlockChange(block.id, { [field]: e.target.value }),
+  });
+
+  const handleDrop = (index: number) => {
+    if (dragIndex !== null && dragIndex !== index) {
+      onChange(moveItem(blocks, dragIndex, index));
+    }
+    setDragIndex(null);
+    setDropIndex(null);
+  };
+
+  return (
+    <div className="space-y-2">
+      {blocks.map((block, index) => (
+        <div
+          key={block.id}
+          onDragOver={(e) => {
+            if (dragIndex === null) return;
+            e.preventDefault();
+            e.stopPropagation();
+            setDropIndex(index);
+          }}
+          onDrop={(e) => {
+            e.preventDefault();
+            e.stopPropagation();
+            handleDrop(index);
+          }}
+          className={`rounded-lg border bg-white ${
+            dropIndex === index && dragIndex !== index ? 'border-primary ring-2 ring-primary/30' : 'border-gray-200'
+          } ${dragIndex === index ? 'opacity-50' : ''}`}
+        >
+          <div className="flex items-center gap-2 px-3 py-1.5 border-b border-gray-100 bg-gray-50 rounded-t-lg">
+            <span
+              draggable
+              onDragStart={(e) => {
+                e.stopPropagation();
+                e.dataTransfer.effectAllowed = 'move';
+                setDragIndex(index);
+              }}
+              onDragEnd={() => {
+                setDragIndex(null);
+                setDropIndex(null);
+              }}
+              className="cursor-grab text-gray-400 hover:text-gray-600 select-none"
+              title="Ziehen zum Verschieben"
+            >
+              ⠿
+            </span>
+            <span className="text-xs font-medium text-gray-600">{EMAIL_BLOCK_LABELS[block.type]}</span>
+            <div className="ml-auto flex items-center gap-1 text-gray-400">
+              <button
+                type="button"
+                onClick={() => onChange(moveItem(blocks, index, index - 1))}
+                disabled={index === 0}
+                className="px-1 hover:text-gray-700 disabled:opacity-30"
+                title="Nach oben"
+              >
+                ▲
+              </button>
+              <button
+                type="button"
+                onClick={() => onChange(moveItem(blocks, index, index + 1))}
+                disabled={index === blocks.length - 1}
+                className="px-1 hover:text-gray-700 disabled:opacity-30"
+                title="Nach unten"
+              >
+                ▼
+              </button>
+              <button
+                type="button"
+                onClick={() => onChange(blocks.filter((b) => b.id !== block.id))}
+                className="px-1 hover:text-red-600"
+                title="Block entfernen"
+              >
+                ✕
+              </button>
+            </div>
+          </div>
+
+          <div className="p-3 space-y-2">
+            {block.type === 'heading' && (
+              <input
+                type="text"
+                value={block.text}
+                placeholder="Hallo {{parent_first_name}},"
+                className={`${INPUT_CLASS} font-semibold`}
+                {...fieldProps(block, 'text')}
+              />
+            )}
+
+            {block.type === 'text' && (
+              <>
+                <textarea
+                  value={block.text}
+                  rows={4}
+                  placeholder="Text der E-Mail..."
+                  className={INPUT_CLASS}
+                  {...fieldProps(block, 'text')}
+                />
+                <p className="text-xs text-gray-400">Leerzeile = neuer Absatz, **Text** = fett</p>
+              </>
+            )}
+
+            {block.type === 'button' && (
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                <input
+                  type="text"
+                  value={block.label}
+                  placeholder="Beschriftung, z.B. Jetzt bestellen"
+                  className={INPUT_CLASS}
+                  {...fieldProps(block, 'label')}
+                />
+                <input
+                  type="text"
+                  value={block.url}
+                  placeholder="https://... oder {{event_link}}"
+                  className={`${INPUT_CLASS} font-mono`}
+                  {...fieldProps(block, 'url')}
+                />
+              </div>
+            )}
+
+            {block.type === 'image' && (
+              <div className="space-y-2">
+                <input
+                  type="text"
+                  value={block.src}
+                  placeholder="Bild-URL (https://...)"
+                  className={`${INPUT_CLASS} font-mono`}
+                  {...fieldProps(block, 'src')}
+                />
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                  <input
+                    type="text"
+                    value={block.alt}
+                    placeholder="Alternativtext"
+                    className={INPUT_CLASS}
+                    {...fieldProps(block, 'alt')}
+                  />
+                  <input
+                    type="text"
+                    value={block.href ?? ''}
+                    placeholder="Link (optional)"
+                    className={`${INPUT_CLASS} font-mono`}
+                    {...fieldProps(block, 'href')}
+                  />
+                </div>
+              </div>
+            )}
+
+            {block.type === 'divider' && <hr className="border-gray-200" />}
+
+            {block.type === 'conditional' && (
+              <div className="space-y-3">
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  Nur anzeigen, wenn
+                  <select
+                    value={block.variable}
+                    onChange={(e) => onBlockChange(block.id, { variable: e.target.value })}
+                    className="px-2 py-1 border border-gray-300 rounded-lg text-sm font-mono focus:outline-none focus:ring-2 focus:ring-primary"
+                  >
+                    <option value="">Variable wählen...</option>
+                    {variables.map((v) => (
+                      <option key={v} value={v}>
+                        {v}
+                      </option>
+                    ))}
+                  </select>
+                  gesetzt ist
+                </label>
+                <div className="pl-3 border-l-2 border-dashed border-gray-200">
+                  <BlockList
+                    blocks={block.blocks}
+                    onChange={(inner) => onBlockChange(block.id, { blocks: inner })}
+                    onBlockChange={onBlockChange}
+                    onFieldFocus={onFieldFocus}
+                    variables={variables}
+                    nested
+                  />
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      ))}
+
+      <div className="flex flex-wrap gap-1.5">
+        {(nested ? NESTED_TYPES : TOP_LEVEL_TYPES).map((type) => (
+          <button
+            key={type}
+            type="button"
+            onClick={() => onChange([...blocks, createEmailBlock(type)])}
+            className="px-2 py-1 text-xs border border-dashed border-gray-300 text-gray-600 rounded hover:border-primary hover:text-primary transition-colors"
+          >
+            + {EMAIL_BLOCK_LABELS[type]}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Block-based editor for email bodies: headings, text, buttons, images,
+ * dividers and blocks that only show when a variable is set. Blocks can be
+ * dragged or moved with the arrows; variables are inserted at the cursor of
+ * the last focused field.
+ */
+export default function EmailBlockBuilder({ blocks, onChange, variables }: EmailBlockBuilderProps) {
+  const focusedField = useRef<FocusedField | null>(null);
+  const validationError = blocks.length > 0 ? validateEmailBlocks(blocks) : null;
+
+  const handleBlockChange = (id: string, patch: Record<string, unknown>) => {
+    onChange(updateBlockInTree(blocks, id, patch));
+  };
+
+  const insertVariable = (variable: string) => {
+    const focused = focusedField.current;
+    if (!focused || !focused.element.isConnected) return;
+    const { element, blockId, field } = focused;
+    const start = element.selectionStart ?? element.value.length;
+    const end = element.selectionEnd ?? start;
+    const placeholder = `{{${variable}}}`;
+    handleBlockChange(blockId, {
+      [field]: element.value.substring(0, start) + placeholder + element.value.substring(end),
+    });
+    // Restore cursor position after React re-render
+    setTimeout(() => {
+      element.focus();
+      element.setSelectionRange(start + placeholder.length, start + placeholder.length);
+    }, 0);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="bg-gray-50 rounded-lg p-3">
+        <p className="text-xs font-medium text-gray-600 mb-2">
+          Variablen (klicken fügt in das zuletzt gewählte Feld ein):
+        </p>
+        <div className="flex flex-wrap gap-1.5">
+          {variables.map((v) => (
+            <button
+              key={v}
+              type="button"
+              // Keep focus (and the cursor) in the field being edited
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => insertVariable(v)}
+              className="inline-flex items-center px-2 py-1 rounded text-xs font-mono bg-white border border-gray-200 text-gray-700 hover:bg-primary/5 hover:border-primary/30 hover:text-primary transition-colors cursor-pointer"
+            >
+              {'{{'}
+              {v}
+              {'}}'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <BlockList
+        blocks={blocks}
+        onChange={onChange}
+        onBlockChange={handleBlockChange}
+        onFieldFocus={(field) => {
+          focusedField.current = field;
+        }}
+        variables={variables}
+      />
+
+      {validationError && <p className="text-sm text-red-600">{validationError}</p>}
+    </div>
+  );
+}
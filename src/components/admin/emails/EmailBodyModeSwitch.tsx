@@ -0,0 +1,45 @@
+'use client';
+
+interface EmailBodyModeSwitchProps {
+  isBlockMode: boolean;
+  /** Whether there is HTML the block editor would replace */
+  hasHtml: boolean;
+  onSwitch: (toBlocks: boolean) => void;
+}
+
+/**
+ * Toggle between the block editor and raw HTML. Going to blocks starts a
+ * fresh layout; going to HTML keeps the HTML rendered from the blocks.
+ */
+export default function EmailBodyModeSwitch({ isBlockMode, hasHtml, onSwitch }: EmailBodyModeSwitchProps) {
+  const handleSwitch = (toBlocks: boolean) => {
+    if (toBlocks === isBlockMode) return;
+    if (toBlocks && hasHtml && !confirm('Der bisherige HTML-Inhalt wird durch den Block-Editor ersetzt. Fortfahren?')) {
+      return;
+    }
+    if (!toBlocks && !confirm('Zu HTML wechseln? Die Blöcke werden beim Speichern verworfen, der erzeugte HTML-Code bleibt.')) {
+      return;
+    }
+    onSwitch(toBlocks);
+  };
+
+  return (
+    <div className="inline-flex rounded-lg border border-gray-200 bg-white p-0.5">
+      {[
+        { value: true, label: 'Blöcke' },
+        { value: false, label: 'HTML' },
+      ].map((option) => (
+        <button
+          key={option.label}
+          type="button"
+          onClick={() => handleSwitch(option.value)}
+          className={`px-3 py-1 text-xs font-medium rounded-md transition-colors ${
+            isBlockMode === option.value ? 'bg-primary text-white' : 'text-gray-600 hover:bg-gray-50'
+          }`}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+interface EmailLivePreviewProps {
+  /** Preview endpoint taking { subject, bodyHtml } */
+  endpoint: string;
+  subject: string;
+  bodyHtml: string;
+}
+
+interface PreviewResult {
+  subject: string;
+  html: string;
+  unknownVariables: string[];
+}
+
+// Wait for a typing pause before rendering on the server
+const PREVIEW_DEBOUNCE_MS = 500;
+
+/**
+ * Rendered email with sample data, updated while the template is edited.
+ * Flags variables the send path won't fill.
+ */
+export default function EmailLivePreview({ endpoint, subject, bodyHtml }: EmailLivePreviewProps) {
+  const [preview, setPreview] = useState<PreviewResult | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      setIsLoading(true);
+      try {
+        const response = await fetch(endpoint, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          credentials: 'include',
+          body: JSON.stringify({ subject, bodyHtml }),
+          signal: controller.signal,
+        });
+        const data = await response.json();
+        if (!response.ok || !data.success) {
+          throw new Error(data.error || 'Vorschau konnte nicht geladen werden');
+        }
+        setPreview({
+          subject: data.data.subject,
+          html: data.data.html,
+          unknownVariables: data.data.unknownVariables ?? [],
+        });
+        setError(null);
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        console.error('Preview error:', err);
+        setError(err instanceof Error ? err.message : 'Vorschau konnte nicht geladen werden');
+      } finally {
+        if (!controller.signal.aborted) setIsLoading(false);
+      }
+    }, PREVIEW_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [endpoint, subject, bodyHtml]);
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <label className="block text-sm font-medium text-gray-700">Live-Vorschau (mit Beispieldaten)</label>
+        {isLoading && <span className="text-xs text-gray-400">Aktualisiert...</span>}
+      </div>
+
+      {error && <p className="mb-2 text-sm text-red-600">{error}</p>}
+
+      {preview && preview.unknownVariables.length > 0 && (
+        <div className="mb-2 bg-amber-50 border border-amber-200 rounded-lg p-3 text-sm text-amber-800">
+          Unbekannte Variablen werden beim Versand entfernt:{' '}
+          <span className="font-mono">{preview.unknownVariables.map((v) => `{{${v}}}`).join(', ')}</span>
+        </div>
+      )}
+
+      {preview && (
+        <div className="border border-gray-200 rounded-lg overflow-hidden bg-gray-100">
+          <div className="px-4 py-2 bg-white border-b border-gray-200 text-sm">
+            <span className="text-gray-500">Betreff: </span>
+            <span className="font-medium text-gray-900">{preview.subject}</span>
+          </div>
+          <iframe
+            srcDoc={preview.html}
+            sandbox=""
+            className="w-full bg-white"
+            style={{ height: '500px' }}
+            title="E-Mail Live-Vorschau"
+          />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -3,18 +3,36 @@
 import { useCallback, useEffect, useMemo, useState } from 'react';
 import Link from 'next/link';
 import LoadingSpinner from '@/components/shared/LoadingSpinner';
+import EmailSuppressionList from './EmailSuppressionList';
 
 type WindowDays = 7 | 30 | 90;
 const WINDOW_OPTIONS: WindowDays[] = [7, 30, 90];
 const DEFAULT_WINDOW: WindowDays = 30;
 
-interface ByTemplateRow {
+interface DeliveryCounts {
+  tracked: number;
+  delivered: number;
+  bounced: number;
+  complained: number;
+  opened: number;
+  clicked: number;
+  shopClicked: number;
+}
+
+interface ByTemplateRow extends DeliveryCounts {
   templateName: string;
   sent: number;
   failed: number;
   skipped: number;
 }
 
+interface ByVariantRow extends DeliveryCounts {
+  templateName: string;
+  variant: string;
+  sent: number;
+  failed: number;
+}
+
 interface RecentFailure {
   id: string;
   sentAt: string;
@@ -26,12 +44,21 @@ interface RecentFailure {
 
 interface StatsData {
   windowDays: number;
-  totals: { sent: number; failed: number; skipped: number };
+  totals: { sent: number; failed: number; skipped: number } & DeliveryCounts;
+  suppressedCount: number;
   byTemplate: ByTemplateRow[];
+  byVariant: ByVariantRow[];
   recentFailures: RecentFailure[];
 }
 
-type ByTemplateSortKey = 'templateName' | 'sent' | 'failed' | 'skipped' | 'failureRate';
+type ByTemplateSortKey =
+  | 'templateName'
+  | 'sent'
+  | 'failed'
+  | 'skipped'
+  | 'failureRate'
+  | 'deliveryRate'
+  | 'bounceRate';
 type SortDirection = 'asc' | 'desc';
 
 function formatDateTime(dateStr: string): string {
@@ -54,6 +81,36 @@ function failureRate(row: ByTemplateRow): number {
   return (row.failed / denom) * 100;
 }
 
+// Delivery and bounce rates only over mails Resend reported back on
+function deliveryRate(row: DeliveryCounts): number {
+  return row.tracked === 0 ? 0 : (row.delivered / row.tracked) * 100;
+}
+
+function bounceRate(row: DeliveryCounts): number {
+  return row.tracked === 0 ? 0 : (row.bounced / row.tracked) * 100;
+}
+
+// Engagement rates over delivered mails
+function openRate(row: DeliveryCounts): number {
+  return row.delivered === 0 ? 0 : (row.opened / row.delivered) * 100;
+}
+
+function clickRate(row: DeliveryCounts): number {
+  return row.delivered === 0 ? 0 : (row.clicked / row.delivered) * 100;
+}
+
+function shopClickRate(row: DeliveryCounts): number {
+  return row.delivered === 0 ? 0 : (row.shopClicked / row.delivered) * 100;
+}
+
+function formatEngagementRate(row: DeliveryCounts, rate: (row: DeliveryCounts) => number): string {
+  return row.delivered === 0 ? '–' : `${rate(row).toFixed(1)} %`;
+}
+
+function formatRate(row: DeliveryCounts, rate: (row: DeliveryCounts) => number): string {
+  return row.tracked === 0 ? '–' : `${rate(row).toFixed(1)} %`;
+}
+
 export default function EmailLogsDiagnostic() {
   const [windowDays, setWindowDays] = useState<WindowDays>(DEFAULT_WINDOW);
   const [data, setData] = useState<StatsData | null>(null);
@@ -128,6 +185,12 @@ export default function EmailLogsDiagnostic() {
         case 'failureRate':
           diff = failureRate(a) - failureRate(b);
           break;
+        case 'deliveryRate':
+          diff = deliveryRate(a) - deliveryRate(b);
+          break;
+        case 'bounceRate':
+          diff = bounceRate(a) - bounceRate(b);
+          break;
         default:
           diff = 0;
       }
@@ -219,6 +282,39 @@ export default function EmailLogsDiagnostic() {
             </div>
           </div>
 
+          {/* Delivery (Resend webhook) */}
+          <div className="bg-white rounded-lg border border-gray-200 px-4 py-3 flex flex-wrap gap-x-8 gap-y-2 text-sm">
+            <span className="text-gray-500">Zustellung (Resend):</span>
+            <span>
+              Zustellrate{' '}
+              <span className="font-semibold text-green-700">{formatRate(data.totals, deliveryRate)}</span>
+            </span>
+            <span>
+              Bouncequote{' '}
+              <span className="font-semibold text-red-700">{formatRate(data.totals, bounceRate)}</span>
+            </span>
+            <span>
+              Beschwerden{' '}
+              <span className="font-semibold text-gray-900">{data.totals.complained.toLocaleString('de-DE')}</span>
+            </span>
+            <span>
+              Geöffnet{' '}
+              <span className="font-semibold text-gray-900">{data.totals.opened.toLocaleString('de-DE')}</span>
+            </span>
+            <span>
+              Geklickt{' '}
+              <span className="font-semibold text-gray-900">{data.totals.clicked.toLocaleString('de-DE')}</span>
+            </span>
+            <span>
+              Shop-Klicks{' '}
+              <span className="font-semibold text-gray-900">{data.totals.shopClicked.toLocaleString('de-DE')}</span>
+            </span>
+            <span>
+              Gesperrte Adressen{' '}
+              <span className="font-semibold text-gray-900">{data.suppressedCount.toLocaleString('de-DE')}</span>
+            </span>
+          </div>
+
           {/* Empty state */}
           {data.totals.sent === 0 &&
             data.totals.failed === 0 &&
@@ -269,6 +365,18 @@ export default function EmailLogsDiagnostic() {
                         >
                           Fehlerquote{renderSortIndicator('failureRate')}
                         </th>
+                        <th
+                          onClick={() => handleSort('deliveryRate')}
+                          className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer hover:bg-gray-100"
+                        >
+                          Zustellrate{renderSortIndicator('deliveryRate')}
+                        </th>
+                        <th
+                          onClick={() => handleSort('bounceRate')}
+                          className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer hover:bg-gray-100"
+                        >
+                          Bouncequote{renderSortIndicator('bounceRate')}
+                        </th>
                       </tr>
                     </thead>
                     <tbody className="bg-white divide-y divide-gray-200">
@@ -299,6 +407,17 @@ export default function EmailLogsDiagnostic() {
                                 ? '–'
                                 : `${rate.toFixed(1)} %`}
                             </td>
+                            <td className="px-4 py-2 text-sm text-green-700 text-right tabular-nums">
+                              {formatRate(row, deliveryRate)}
+                            </td>
+                            <td
+                              className={`px-4 py-2 text-sm text-right tabular-nums ${
+                                bounceRate(row) >= 2 ? 'text-red-700 font-medium' : 'text-gray-500'
+                              }`}
+                              title={row.complained > 0 ? `${row.complained} Beschwerde(n)` : undefined}
+                            >
+                              {formatRate(row, bounceRate)}
+                            </td>
                           </tr>
                         );
                       })}
@@ -309,6 +428,76 @@ export default function EmailLogsDiagnostic() {
             </div>
           )}
 
+          {/* A/B variants */}
+          {data.byVariant.length > 0 && (
+            <div>
+              <h3 className="text-sm font-semibold text-gray-900 mb-2">A/B-Varianten</h3>
+              <p className="text-xs text-gray-500 mb-2">
+                Öffnungs- und Klickraten beziehen sich auf zugestellte E-Mails. Shop-Klicks zählen Klicks auf
+                getaggte Shop-Links (Event-, Bestell- und Elternportal-Link).
+              </p>
+              <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Vorlage
+                        </th>
+                        <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Variante
+                        </th>
+                        <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Gesendet
+                        </th>
+                        <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Zustellrate
+                        </th>
+                        <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Öffnungsrate
+                        </th>
+                        <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Klickrate
+                        </th>
+                        <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Shop-Klicks
+                        </th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {data.byVariant.map((row) => (
+                        <tr key={`${row.templateName}-${row.variant}`} className="hover:bg-gray-50">
+                          <td className="px-4 py-2 text-sm text-gray-900 whitespace-nowrap">
+                            {row.templateName}
+                          </td>
+                          <td className="px-4 py-2 text-sm font-semibold text-gray-900">{row.variant}</td>
+                          <td className="px-4 py-2 text-sm text-green-700 text-right tabular-nums">
+                            {row.sent.toLocaleString('de-DE')}
+                          </td>
+                          <td className="px-4 py-2 text-sm text-gray-700 text-right tabular-nums">
+                            {formatRate(row, deliveryRate)}
+                          </td>
+                          <td className="px-4 py-2 text-sm text-gray-700 text-right tabular-nums">
+                            {formatEngagementRate(row, openRate)}
+                          </td>
+                          <td className="px-4 py-2 text-sm text-gray-700 text-right tabular-nums">
+                            {formatEngagementRate(row, clickRate)}
+                          </td>
+                          <td
+                            className="px-4 py-2 text-sm text-gray-900 font-medium text-right tabular-nums"
+                            title={`${row.shopClicked} Empfänger mit Shop-Klick`}
+                          >
+                            {formatEngagementRate(row, shopClickRate)}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            </div>
+          )}
+
           {/* Recent failures */}
           <div>
             <h3 className="text-sm font-semibold text-gray-900 mb-2">
@@ -380,6 +569,8 @@ export default function EmailLogsDiagnostic() {
               )}
             </div>
           </div>
+
+          <EmailSuppressionList onChange={() => fetchStats(windowDays)} />
         </>
       )}
     </div>
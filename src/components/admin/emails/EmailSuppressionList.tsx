@@ -0,0 +1,110 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import LoadingSpinner from '@/components/shared/LoadingSpinner';
+import type { EmailSuppression, EmailSuppressionReason } from '@/lib/types/email-automation';
+
+const REASON_LABELS: Record<EmailSuppressionReason, { label: string; className: string }> = {
+  bounce: { label: 'Bounce', className: 'bg-red-100 text-red-700' },
+  complaint: { label: 'Spam-Beschwerde', className: 'bg-orange-100 text-orange-700' },
+  manual: { label: 'Manuell', className: 'bg-gray-100 text-gray-600' },
+};
+
+interface EmailSuppressionListProps {
+  /** Called after an address was unblocked, e.g. to refresh counts */
+  onChange?: () => void;
+}
+
+/**
+ * Addresses the automation no longer sends to (hard bounces and spam
+ * complaints from the Resend webhook). Admins can unblock an address once
+ * the school fixed its mailbox.
+ */
+export default function EmailSuppressionList({ onChange }: EmailSuppressionListProps) {
+  const [suppressions, setSuppressions] = useState<EmailSuppression[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [removingId, setRemovingId] = useState<string | null>(null);
+
+  const fetchSuppressions = useCallback(async () => {
+    try {
+      setError(null);
+      const response = await fetch('/api/admin/email-suppressions', { credentials: 'include' });
+      const payload = await response.json().catch(() => ({}));
+      if (!response.ok || !payload.success) {
+        throw new Error(payload.error || `Fehler beim Laden (HTTP ${response.status})`);
+      }
+      setSuppressions(payload.data.suppressions as EmailSuppression[]);
+    } catch (err) {
+      console.error('Error fetching email suppressions:', err);
+      setError(err instanceof Error ? err.message : 'Fehler beim Laden der Sperrliste');
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSuppressions();
+  }, [fetchSuppressions]);
+
+  const handleRemove = async (suppression: EmailSuppression) => {
+    if (!confirm(`${suppression.email} wieder anschreiben?`)) return;
+    setRemovingId(suppression.id);
+    try {
+      const response = await fetch(`/api/admin/email-suppressions/${suppression.id}`, {
+        method: 'DELETE',
+        credentials: 'include',
+      });
+      const payload = await response.json().catch(() => ({}));
+      if (!response.ok || !payload.success) {
+        throw new Error(payload.error || 'Entsperren fehlgeschlagen');
+      }
+      setSuppressions((prev) => prev?.filter((s) => s.id !== suppression.id) ?? null);
+      onChange?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Entsperren fehlgeschlagen');
+    } finally {
+      setRemovingId(null);
+    }
+  };
+
+  return (
+    <div>
+      <h3 className="text-sm font-semibold text-gray-900 mb-2">
+        Gesperrte Adressen{suppressions ? ` (${suppressions.length})` : ''}
+      </h3>
+      {error && <p className="text-sm text-red-700 mb-2">{error}</p>}
+      <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
+        {!suppressions ? (
+          <div className="flex justify-center py-6">
+            <LoadingSpinner />
+          </div>
+        ) : suppressions.length === 0 ? (
+          <div className="px-4 py-6 text-center text-sm text-gray-500">Keine gesperrten Adressen.</div>
+        ) : (
+          <ul className="divide-y divide-gray-200 max-h-[24rem] overflow-y-auto">
+            {suppressions.map((suppression) => {
+              const reason = REASON_LABELS[suppression.reason];
+              return (
+                <li key={suppression.id} className="px-4 py-2 flex items-center gap-4 text-sm">
+                  <span className="text-gray-900 font-medium">{suppression.email}</span>
+                  <span className={`px-2 py-0.5 rounded-full text-xs ${reason.className}`}>{reason.label}</span>
+                  <span className="flex-1 text-gray-500 truncate" title={suppression.detail}>
+                    {suppression.detail}
+                  </span>
+                  <span className="text-gray-400 whitespace-nowrap">
+                    {suppression.createdAt ? new Date(suppression.createdAt).toLocaleDateString('de-DE') : ''}
+                  </span>
+                  <button
+                    onClick={() => handleRemove(suppression)}
+                    disabled={removingId === suppression.id}
+                    className="text-primary hover:underline disabled:opacity-50 whitespace-nowrap"
+                  >
+                    Entsperren
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
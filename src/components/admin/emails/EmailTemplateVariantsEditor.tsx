@@ -0,0 +1,109 @@
+'use client';
+
+import type { EmailTemplateVariant } from '@/lib/types/email-automation';
+import {
+  CONTROL_VARIANT_KEY,
+  MAX_EXTRA_VARIANTS,
+  validateTemplateVariants,
+} from '@/lib/utils/emailVariants';
+
+interface EmailTemplateVariantsEditorProps {
+  variants: EmailTemplateVariant[];
+  onChange: (variants: EmailTemplateVariant[]) => void;
+}
+
+const VARIANT_KEYS = ['B', 'C', 'D'];
+
+/**
+ * A/B alternatives for a template's subject and body. The template's own
+ * subject/body is variant A and keeps whatever share the others leave.
+ */
+export default function EmailTemplateVariantsEditor({
+  variants,
+  onChange,
+}: EmailTemplateVariantsEditorProps) {
+  const extraWeight = variants.reduce((sum, v) => sum + (Number.isFinite(v.weight) ? v.weight : 0), 0);
+  const validationError = variants.length > 0 ? validateTemplateVariants(variants) : null;
+
+  const updateVariant = (index: number, patch: Partial<EmailTemplateVariant>) => {
+    onChange(variants.map((v, i) => (i === index ? { ...v, ...patch } : v)));
+  };
+
+  const addVariant = () => {
+    const key = VARIANT_KEYS.find((k) => !variants.some((v) => v.key === k));
+    if (!key) return;
+    onChange([...variants, { key, subject: '', bodyHtml: '', weight: 50 }]);
+  };
+
+  const removeVariant = (index: number) => {
+    onChange(variants.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="p-4 border border-gray-200 rounded-lg space-y-4">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <p className="text-sm font-medium text-gray-700">A/B-Test</p>
+          <p className="text-xs text-gray-500 mt-0.5">
+            {variants.length === 0
+              ? 'Füge eine Variante hinzu, um Betreff oder Inhalt gegen die obige Version (A) zu testen.'
+              : `Variante ${CONTROL_VARIANT_KEY} (Betreff und Inhalt oben) erhält ${Math.max(100 - extraWeight, 0)} % der Empfänger. Jeder Empfänger bekommt immer dieselbe Variante.`}
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={addVariant}
+          disabled={variants.length >= MAX_EXTRA_VARIANTS}
+          className="shrink-0 px-3 py-1.5 text-sm border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          + Variante hinzufügen
+        </button>
+      </div>
+
+      {variants.map((variant, index) => (
+        <div key={variant.key} className="pt-4 border-t border-gray-100 space-y-3">
+          <div className="flex items-center gap-3">
+            <span className="inline-flex items-center justify-center w-7 h-7 rounded-full bg-gray-100 text-sm font-semibold text-gray-700">
+              {variant.key}
+            </span>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              Anteil
+              <input
+                type="number"
+                min={1}
+                max={99}
+                value={Number.isFinite(variant.weight) ? variant.weight : ''}
+                onChange={(e) => updateVariant(index, { weight: parseInt(e.target.value, 10) })}
+                className="w-20 px-2 py-1 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent"
+              />
+              %
+            </label>
+            <button
+              type="button"
+              onClick={() => removeVariant(index)}
+              className="ml-auto text-sm text-red-600 hover:text-red-700"
+            >
+              Entfernen
+            </button>
+          </div>
+          <input
+            type="text"
+            value={variant.subject}
+            onChange={(e) => updateVariant(index, { subject: e.target.value })}
+            placeholder={`Betreff Variante ${variant.key}`}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent"
+          />
+          <textarea
+            value={variant.bodyHtml}
+            onChange={(e) => updateVariant(index, { bodyHtml: e.target.value })}
+            rows={10}
+            placeholder={`HTML-Inhalt Variante ${variant.key}...`}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent font-mono text-sm"
+          />
+        </div>
+      ))}
+
+      {validationError && <p className="text-sm text-red-600">{validationError}</p>}
+    </div>
+  );
+}
@@ -1,8 +1,12 @@
 'use client';
 
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import LoadingSpinner from '@/components/shared/LoadingSpinner';
-import { TriggerEmailTemplate } from '@/lib/types/email-automation';
+import { EmailBlock, TriggerEmailTemplate } from '@/lib/types/email-automation';
+import { createEmailBlock, renderEmailBlocks } from '@/lib/utils/emailBlocks';
+import EmailBlockBuilder from './EmailBlockBuilder';
+import EmailBodyModeSwitch from './EmailBodyModeSwitch';
+import EmailLivePreview from './EmailLivePreview';
 
 interface Props {
   slug: string;
@@ -13,14 +17,14 @@ export default function TriggerEmailEditor({ slug, onClose }: Props) {
   const [template, setTemplate] = useState<TriggerEmailTemplate | null>(null);
   const [subject, setSubject] = useState('');
   const [bodyHtml, setBodyHtml] = useState('');
+  const [bodyBlocks, setBodyBlocks] = useState<EmailBlock[]>([]);
+  const [isBlockMode, setIsBlockMode] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
   const [isResetting, setIsResetting] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
-  const [previewHtml, setPreviewHtml] = useState<string | null>(null);
-  const [isLoadingPreview, setIsLoadingPreview] = useState(false);
-  const iframeRef = useRef<HTMLIFrameElement>(null);
+  const [showPreview, setShowPreview] = useState(false);
 
   const fetchTemplate = useCallback(async () => {
     try {
@@ -36,6 +40,8 @@ export default function TriggerEmailEditor({ slug, onClose }: Props) {
         setTemplate(data.data);
         setSubject(data.data.subject);
         setBodyHtml(data.data.bodyHtml);
+        setBodyBlocks(data.data.bodyBlocks ?? []);
+        setIsBlockMode(!!data.data.bodyBlocks?.length);
       }
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Error loading template');
@@ -58,7 +64,8 @@ export default function TriggerEmailEditor({ slug, onClose }: Props) {
         method: 'PATCH',
         credentials: 'include',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ subject, bodyHtml }),
+        // Switching to HTML drops the blocks
+        body: JSON.stringify({ subject, bodyHtml, bodyBlocks: isBlockMode ? bodyBlocks : [] }),
       });
 
       const data = await response.json();
@@ -93,8 +100,9 @@ export default function TriggerEmailEditor({ slug, onClose }: Props) {
         setTemplate(data.data);
         setSubject(data.data.subject);
         setBodyHtml(data.data.bodyHtml);
+        setBodyBlocks([]);
+        setIsBlockMode(false);
         setSuccessMessage('Auf Standard zurückgesetzt');
-        setPreviewHtml(null);
         setTimeout(() => setSuccessMessage(null), 3000);
       } else {
         setError(data.error || 'Fehler beim Zurücksetzen');
@@ -106,39 +114,15 @@ export default function TriggerEmailEditor({ slug, onClose }: Props) {
     }
   };
 
-  const handlePreview = async () => {
-    setIsLoadingPreview(true);
-
-    try {
-      const response = await fetch(`/api/admin/trigger-templates/${slug}`, {
-        method: 'POST',
-        credentials: 'include',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ subject, bodyHtml }),
-      });
-
-      const data = await response.json();
-      if (data.success) {
-        setPreviewHtml(data.data.html);
-      }
-    } catch (err) {
-      console.error('Preview error:', err);
-    } finally {
-      setIsLoadingPreview(false);
-    }
+  const handleBlocksChange = (blocks: EmailBlock[]) => {
+    setBodyBlocks(blocks);
+    setBodyHtml(renderEmailBlocks(blocks));
   };
 
-  // Write preview HTML to iframe when it changes
-  useEffect(() => {
-    if (previewHtml && iframeRef.current) {
-      const doc = iframeRef.current.contentDocument;
-      if (doc) {
-        doc.open();
-        doc.write(previewHtml);
-        doc.close();
-      }
-    }
-  }, [previewHtml]);
+  const handleBodyModeSwitch = (toBlocks: boolean) => {
+    if (toBlocks) handleBlocksChange([createEmailBlock('text')]);
+    setIsBlockMode(toBlocks);
+  };
 
   const insertVariable = (variable: string) => {
     const textarea = document.getElementById('trigger-body-editor') as HTMLTextAreaElement;
@@ -217,8 +201,8 @@ export default function TriggerEmailEditor({ slug, onClose }: Props) {
                   </div>
                 )}
 
-                {/* Available Variables */}
-                {template && (
+                {/* Available Variables (the block builder has its own) */}
+                {template && !isBlockMode && (
                   <div className="bg-gray-50 rounded-lg p-3">
                     <p className="text-xs font-medium text-gray-600 mb-2">
                       Verfügbare Variablen (klicken zum Einfügen):
@@ -253,48 +237,46 @@ export default function TriggerEmailEditor({ slug, onClose }: Props) {
                   />
                 </div>
 
-                {/* Body HTML */}
+                {/* Body */}
                 <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">
-                    HTML Inhalt
-                  </label>
-                  <textarea
-                    id="trigger-body-editor"
-                    value={bodyHtml}
-                    onChange={(e) => setBodyHtml(e.target.value)}
-                    rows={16}
-                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-primary focus:border-primary font-mono leading-relaxed"
-                    placeholder="HTML Body mit {{variablen}}"
-                  />
+                  <div className="flex items-center justify-between mb-1">
+                    <label className="block text-sm font-medium text-gray-700">
+                      {isBlockMode ? 'Inhalt (Blöcke)' : 'HTML Inhalt'}
+                    </label>
+                    <EmailBodyModeSwitch
+                      isBlockMode={isBlockMode}
+                      hasHtml={!!bodyHtml.trim()}
+                      onSwitch={handleBodyModeSwitch}
+                    />
+                  </div>
+                  {isBlockMode ? (
+                    <EmailBlockBuilder
+                      blocks={bodyBlocks}
+                      onChange={handleBlocksChange}
+                      variables={template?.availableVariables ?? []}
+                    />
+                  ) : (
+                    <textarea
+                      id="trigger-body-editor"
+                      value={bodyHtml}
+                      onChange={(e) => setBodyHtml(e.target.value)}
+                      rows={16}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-primary focus:border-primary font-mono leading-relaxed"
+                      placeholder="HTML Body mit {{variablen}}"
+                    />
+                  )}
                   <p className="mt-1 text-xs text-gray-400">
                     Der Inhalt wird automatisch in das Minimusiker E-Mail-Template (Header + Footer) eingebettet.
                   </p>
                 </div>
 
-                {/* Preview */}
-                {previewHtml && (
-                  <div>
-                    <div className="flex items-center justify-between mb-2">
-                      <label className="block text-sm font-medium text-gray-700">
-                        Vorschau (mit Beispieldaten)
-                      </label>
-                      <button
-                        onClick={() => setPreviewHtml(null)}
-                        className="text-xs text-gray-500 hover:text-gray-700"
-                      >
-                        Schließen
-                      </button>
-                    </div>
-                    <div className="border border-gray-200 rounded-lg overflow-hidden bg-gray-100">
-                      <iframe
-                        ref={iframeRef}
-                        className="w-full bg-white"
-                        style={{ height: '500px' }}
-                        sandbox="allow-same-origin"
-                        title="E-Mail Vorschau"
-                      />
-                    </div>
-                  </div>
+                {/* Live Preview */}
+                {showPreview && (
+                  <EmailLivePreview
+                    endpoint={`/api/admin/trigger-templates/${slug}`}
+                    subject={subject}
+                    bodyHtml={bodyHtml}
+                  />
                 )}
               </div>
             )}
@@ -316,11 +298,10 @@ export default function TriggerEmailEditor({ slug, onClose }: Props) {
 
             <div className="flex items-center gap-2">
               <button
-                onClick={handlePreview}
-                disabled={isLoadingPreview}
-                className="px-3 py-2 text-sm text-gray-700 bg-gray-100 border border-gray-200 rounded-lg hover:bg-gray-200 disabled:opacity-50"
+                onClick={() => setShowPreview((prev) => !prev)}
+                className="px-3 py-2 text-sm text-gray-700 bg-gray-100 border border-gray-200 rounded-lg hover:bg-gray-200"
               >
-                {isLoadingPreview ? 'Lädt...' : 'Vorschau'}
+                {showPreview ? 'Vorschau ausblenden' : 'Vorschau'}
               </button>
               <button
                 onClick={onClose}
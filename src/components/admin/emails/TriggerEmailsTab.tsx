@@ -28,6 +28,8 @@ const RECIPIENT_GROUP_ORDER: Array<{ key: string; label: string }> = [
 const CATEGORY_GROUP_ORDER: Array<{ key: string; label: string }> = [
   { key: 'registrations_pre', label: 'Registrierungen vor dem Event' },
   { key: 'registrations_post', label: 'Registrierungen nach dem Event' },
+  { key: 'leads', label: 'Leads' },
+  { key: 'invoices', label: 'Rechnungen' },
 ];
 
 export default function TriggerEmailsTab() {
@@ -0,0 +1,157 @@
+'use client';
+
+import { Fragment, useState } from 'react';
+import { cn } from '@/lib/utils';
+import { getJobProgress, JOB_TYPE_LABELS, type Job, type JobStatus } from '@/lib/types/jobs';
+
+interface JobListProps {
+  jobs: Job[];
+  rerunningId: string | null;
+  onRerun: (jobId: string) => void;
+}
+
+const STATUS_STYLES: Record<JobStatus, string> = {
+  queued: 'bg-gray-100 text-gray-700',
+  running: 'bg-blue-100 text-blue-700',
+  succeeded: 'bg-green-100 text-green-700',
+  failed: 'bg-red-100 text-red-700',
+};
+
+function formatDateTime(iso?: string): string {
+  if (!iso) return '—';
+  return new Date(iso).toLocaleString('de-DE', {
+    day: '2-digit',
+    month: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+export default function JobList({ jobs, rerunningId, onRerun }: JobListProps) {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  if (jobs.length === 0) {
+    return (
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-8 text-center text-sm text-gray-500">
+        No jobs to show.
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+      <table className="min-w-full divide-y divide-gray-200 text-sm">
+        <thead className="bg-gray-50">
+          <tr>
+            <th className="px-4 py-3 text-left font-medium text-gray-500">Job</th>
+            <th className="px-4 py-3 text-left font-medium text-gray-500">Status</th>
+            <th className="px-4 py-3 text-left font-medium text-gray-500">Progress</th>
+            <th className="px-4 py-3 text-left font-medium text-gray-500">Attempts</th>
+            <th className="px-4 py-3 text-left font-medium text-gray-500">Created</th>
+            <th className="px-4 py-3" />
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100">
+          {jobs.map((job) => {
+            const { done, failed, total } = getJobProgress(job);
+            const isExpanded = expandedId === job.id;
+            const waitingForRetry = job.status === 'queued' && job.attempts > 0;
+
+            return (
+              <Fragment key={job.id}>
+                <tr
+                  onClick={() => setExpandedId(isExpanded ? null : job.id)}
+                  className="cursor-pointer hover:bg-gray-50"
+                >
+                  <td className="px-4 py-3">
+                    <div className="font-medium text-gray-900">{job.label}</div>
+                    <div className="text-xs text-gray-500">
+                      {JOB_TYPE_LABELS[job.type] ?? job.type} · {job.createdBy}
+                    </div>
+                    {job.lastError && job.status !== 'succeeded' && (
+                      <div className="mt-1 text-xs text-red-600 line-clamp-2">{job.lastError}</div>
+                    )}
+                  </td>
+                  <td className="px-4 py-3">
+                    <span className={cn('inline-flex rounded-full px-2 py-0.5 text-xs font-medium', STATUS_STYLES[job.status])}>
+                      {job.status}
+                    </span>
+                    {waitingForRetry && (
+                      <div className="mt-1 text-xs text-gray-500">retry {formatDateTime(job.runAfter)}</div>
+                    )}
+                  </td>
+                  <td className="px-4 py-3">
+                    {total > 0 ? (
+                      <div className="w-32">
+                        <div className="h-2 rounded-full bg-gray-100 overflow-hidden flex">
+                          <div className="bg-green-500" style={{ width: `${(done / total) * 100}%` }} />
+                          <div className="bg-red-400" style={{ width: `${(failed / total) * 100}%` }} />
+                        </div>
+                        <div className="mt-1 text-xs text-gray-500">
+                          {done}/{total}{failed > 0 && `, ${failed} failed`}
+                        </div>
+                      </div>
+                    ) : (
+                      <span className="text-xs text-gray-400">not started</span>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-gray-700">
+                    {job.attempts}/{job.maxAttempts}
+                  </td>
+                  <td className="px-4 py-3 text-gray-700">{formatDateTime(job.createdAt)}</td>
+                  <td className="px-4 py-3 text-right">
+                    {job.status === 'failed' && (
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          onRerun(job.id);
+                        }}
+                        disabled={rerunningId === job.id}
+                        className="px-3 py-1.5 text-xs font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+                      >
+                        {rerunningId === job.id ? 'Queuing...' : 'Re-run'}
+                      </button>
+                    )}
+                  </td>
+                </tr>
+                {isExpanded && (
+                  <tr className="bg-gray-50">
+                    <td colSpan={6} className="px-4 py-4">
+                      <div className="grid gap-4 md:grid-cols-2">
+                        <div>
+                          <h3 className="text-xs font-semibold uppercase text-gray-500 mb-2">Steps</h3>
+                          <ul className="space-y-1 max-h-64 overflow-y-auto">
+                            {job.steps.map((step) => (
+                              <li key={step.key} className="flex items-start gap-2 text-xs">
+                                <span
+                                  className={cn(
+                                    'mt-0.5 h-2 w-2 flex-shrink-0 rounded-full',
+                                    step.status === 'done' && 'bg-green-500',
+                                    step.status === 'failed' && 'bg-red-500',
+                                    step.status === 'pending' && 'bg-gray-300',
+                                  )}
+                                />
+                                <span className="text-gray-800">{step.label}</span>
+                                {step.error && <span className="text-red-600">{step.error}</span>}
+                              </li>
+                            ))}
+                          </ul>
+                        </div>
+                        <div>
+                          <h3 className="text-xs font-semibold uppercase text-gray-500 mb-2">Log</h3>
+                          <pre className="max-h-64 overflow-y-auto whitespace-pre-wrap rounded bg-gray-900 p-3 text-xs text-gray-100">
+                            {job.logs.join('\n') || '—'}
+                          </pre>
+                        </div>
+                      </div>
+                    </td>
+                  </tr>
+                )}
+              </Fragment>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -6,6 +6,8 @@ import type { LeadStage, LeadSource, EventTypeInterest } from '@/lib/types/airta
 import type { LeadWithStaffName, StaffOption, RegionOption } from '@/app/api/admin/leads/route';
 import CallNotes from './CallNotes';
 import LeadStageBadge from './LeadStageBadge';
+import OffersPanel from '@/components/admin/OffersPanel';
+import { getCurrentStageSince, daysBetweenDates, isOpenLead } from '@/lib/utils/leadPipeline';
 
 const LEAD_SOURCES: LeadSource[] = [
   'Inbound Call', 'Outbound Call', 'Website', 'Referral', 'Repeat Customer', 'Event/Fair', 'Other',
@@ -66,6 +68,8 @@ export default function LeadDetailsBreakdown({
   };
 
   const isTerminal = lead.stage === 'Won' || lead.stage === 'Lost';
+  const stageSince = getCurrentStageSince(lead);
+  const daysInStage = stageSince ? daysBetweenDates(stageSince, new Date()) : null;
 
   return (
     <div className="p-4 bg-gray-50 space-y-4">
@@ -295,8 +299,27 @@ export default function LeadDetailsBreakdown({
                 </select>
                 <LeadStageBadge stage={lead.stage} />
               </div>
+              {daysInStage !== null && (
+                <p className="mt-1 text-xs text-gray-400">
+                  In this stage for {daysInStage} {daysInStage === 1 ? 'day' : 'days'}
+                </p>
+              )}
             </div>
 
+            {lead.stageHistory.length > 1 && (
+              <div>
+                <label className="block text-xs text-gray-500 mb-1">Stage History</label>
+                <ol className="space-y-0.5">
+                  {lead.stageHistory.map((change, i) => (
+                    <li key={`${change.stage}-${change.at}-${i}`} className="flex justify-between text-xs text-gray-600">
+                      <span>{change.stage}</span>
+                      <span className="text-gray-400">{new Date(change.at).toLocaleDateString('en-GB')}</span>
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            )}
+
             {lead.lostReason && (
               <div>
                 <label className="block text-xs text-gray-500 mb-1">Lost Reason</label>
@@ -318,6 +341,23 @@ export default function LeadDetailsBreakdown({
               </select>
             </div>
 
+            {isOpenLead(lead) && (
+              <label className="flex items-center gap-1.5 cursor-pointer">
+                <div className="relative">
+                  <input
+                    type="checkbox"
+                    checked={!lead.nurturePaused}
+                    onChange={(e) => immediateUpdate({ nurturePaused: !e.target.checked })}
+                    className="sr-only"
+                  />
+                  <div className={`w-8 h-5 rounded-full transition-colors ${!lead.nurturePaused ? 'bg-blue-600' : 'bg-gray-300'}`}>
+                    <div className={`absolute top-0.5 left-0.5 w-4 h-4 bg-white rounded-full transition-transform ${!lead.nurturePaused ? 'translate-x-3' : ''}`} />
+                  </div>
+                </div>
+                <span className="text-xs text-gray-600">Automated nurture emails</span>
+              </label>
+            )}
+
             {lead.convertedBookingId && (
               <div className="bg-green-50 border border-green-200 rounded p-2">
                 <p className="text-xs text-green-700">Converted to booking</p>
@@ -335,6 +375,15 @@ export default function LeadDetailsBreakdown({
         />
       </div>
 
+      {/* Offers - full width */}
+      <div className="bg-white border border-gray-200 rounded-lg p-4">
+        <OffersPanel
+          offersUrl={`/api/admin/leads/${lead.id}/offers`}
+          contactEmail={lead.contactEmail}
+          useDealBuilder
+        />
+      </div>
+
       {/* Next Follow-Up */}
       <div className="bg-white border border-gray-200 rounded-lg p-4">
         <h4 className="text-sm font-semibold text-gray-700 mb-2">Next Follow-Up</h4>
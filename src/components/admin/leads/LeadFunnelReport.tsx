@@ -0,0 +1,141 @@
+'use client';
+
+import { useState } from 'react';
+import type { LeadFunnelReport as LeadFunnelReportData, LeadFunnelRow } from '@/lib/utils/leadPipeline';
+
+interface LeadFunnelReportProps {
+  report: LeadFunnelReportData;
+}
+
+type Breakdown = 'bySource' | 'byRegion' | 'byEventType';
+
+const BREAKDOWNS: Array<{ key: Breakdown; label: string }> = [
+  { key: 'bySource', label: 'Source' },
+  { key: 'byRegion', label: 'Region' },
+  { key: 'byEventType', label: 'Event Type' },
+];
+
+function formatRate(rate: number): string {
+  return `${Math.round(rate * 100)}%`;
+}
+
+function FunnelRow({ row }: { row: LeadFunnelRow }) {
+  return (
+    <tr className="border-t border-gray-100">
+      <td className="py-1.5 pr-4 text-gray-700">{row.label}</td>
+      <td className="py-1.5 px-2 text-right text-gray-600">{row.total}</td>
+      <td className="py-1.5 px-2 text-right text-gray-600">{row.open}</td>
+      <td className="py-1.5 px-2 text-right text-green-700">{row.won}</td>
+      <td className="py-1.5 px-2 text-right text-red-600">{row.lost}</td>
+      <td className="py-1.5 pl-2 text-right font-medium text-gray-900">{formatRate(row.conversionRate)}</td>
+    </tr>
+  );
+}
+
+/**
+ * Collapsible New→Won funnel on the leads page: conversion by source, region
+ * or event type, average days per open stage, and lost reasons.
+ */
+export default function LeadFunnelReport({ report }: LeadFunnelReportProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [breakdown, setBreakdown] = useState<Breakdown>('bySource');
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 mb-6">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between px-4 py-3 text-left"
+      >
+        <span className="text-sm font-semibold text-gray-700">
+          Funnel Report
+          <span className="ml-2 font-normal text-gray-500">
+            {report.totals.won} of {report.totals.total} won ({formatRate(report.totals.conversionRate)})
+          </span>
+        </span>
+        <svg
+          className={`w-4 h-4 text-gray-400 transition-transform ${isOpen ? 'rotate-180' : ''}`}
+          fill="none"
+          viewBox="0 0 24 24"
+          stroke="currentColor"
+        >
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+
+      {isOpen && (
+        <div className="px-4 pb-4 grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Conversion */}
+          <div className="lg:col-span-2">
+            <div className="flex gap-1.5 mb-3">
+              {BREAKDOWNS.map((b) => (
+                <button
+                  key={b.key}
+                  type="button"
+                  onClick={() => setBreakdown(b.key)}
+                  className={`px-2.5 py-1 rounded text-xs font-medium transition-colors ${
+                    breakdown === b.key ? 'bg-gray-700 text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                  }`}
+                >
+                  {b.label}
+                </button>
+              ))}
+            </div>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-xs text-gray-500">
+                  <th className="pb-1 pr-4 text-left font-medium">{BREAKDOWNS.find((b) => b.key === breakdown)?.label}</th>
+                  <th className="pb-1 px-2 text-right font-medium">Leads</th>
+                  <th className="pb-1 px-2 text-right font-medium">Open</th>
+                  <th className="pb-1 px-2 text-right font-medium">Won</th>
+                  <th className="pb-1 px-2 text-right font-medium">Lost</th>
+                  <th className="pb-1 pl-2 text-right font-medium">Conversion</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report[breakdown].map((row) => (
+                  <FunnelRow key={row.key || 'none'} row={row} />
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="space-y-6">
+            {/* Time in stage */}
+            <div>
+              <h4 className="text-xs font-medium text-gray-500 mb-2">Average Time in Stage</h4>
+              <ul className="space-y-1 text-sm">
+                {report.timeInStage.map((s) => (
+                  <li key={s.stage} className="flex justify-between">
+                    <span className="text-gray-700">{s.stage}</span>
+                    <span className="text-gray-600">
+                      {s.averageDays === null ? '—' : `${s.averageDays} days`}
+                      <span className="ml-2 text-xs text-gray-400">({s.currentlyInStage} now)</span>
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+
+            {/* Lost reasons */}
+            <div>
+              <h4 className="text-xs font-medium text-gray-500 mb-2">Lost Reasons</h4>
+              {report.lostReasons.length === 0 ? (
+                <p className="text-sm text-gray-400">No lost leads</p>
+              ) : (
+                <ul className="space-y-1 text-sm">
+                  {report.lostReasons.map((r) => (
+                    <li key={r.reason} className="flex justify-between gap-2">
+                      <span className="text-gray-700 truncate">{r.reason}</span>
+                      <span className="text-gray-600">{r.count}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
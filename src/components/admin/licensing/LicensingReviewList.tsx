@@ -0,0 +1,114 @@
+'use client';
+
+import { useState } from 'react';
+import { toast } from 'sonner';
+import type { RepertoireWork } from '@/lib/types/airtable';
+import type { LicensingReportRow } from '@/lib/utils/licensingReport';
+
+// The virtual Schulsong track has no Song record to link
+const SCHULSONG_SONG_ID = '__schulsong__';
+
+interface LicensingReviewListProps {
+  rows: LicensingReportRow[];
+  works: RepertoireWork[];
+  onLinked: () => void;
+}
+
+/**
+ * Songs whose title did not match a work with high confidence. Confirming a
+ * work links the song, so it is counted from then on.
+ */
+export default function LicensingReviewList({ rows, works, onLinked }: LicensingReviewListProps) {
+  const [selection, setSelection] = useState<Record<string, string>>({});
+  const [savingSongId, setSavingSongId] = useState<string | null>(null);
+
+  const openRows = rows.filter((row) => row.match === 'review' || row.match === 'unmatched');
+
+  const handleConfirm = async (row: LicensingReportRow) => {
+    const workId = selection[row.songId] || row.workId;
+    if (!workId) return;
+
+    setSavingSongId(row.songId);
+    try {
+      const response = await fetch(`/api/admin/songs/${encodeURIComponent(row.songId)}/repertoire`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ workId }),
+      });
+      const result = await response.json();
+      if (!result.success) throw new Error(result.error || 'Failed to link song');
+      toast.success(`"${row.songTitle}" linked`);
+      onLinked();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to link song');
+    } finally {
+      setSavingSongId(null);
+    }
+  };
+
+  if (openRows.length === 0) {
+    return <p className="text-sm text-gray-500">All songs of this quarter are matched.</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto rounded-lg border border-gray-200 bg-white">
+      <table className="min-w-full divide-y divide-gray-200 text-sm">
+        <thead className="bg-gray-50 text-left text-xs uppercase text-gray-500">
+          <tr>
+            <th className="px-3 py-2">School</th>
+            <th className="px-3 py-2">Song</th>
+            <th className="px-3 py-2">Work</th>
+            <th className="px-3 py-2" />
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100">
+          {openRows.map((row) => {
+            const canLink = row.songId !== SCHULSONG_SONG_ID;
+            return (
+              <tr key={`${row.eventId}-${row.songId}`}>
+                <td className="px-3 py-2">
+                  <div>{row.schoolName}</div>
+                  <div className="text-xs text-gray-500">{row.eventDate}</div>
+                </td>
+                <td className="px-3 py-2">
+                  <div className="font-medium">{row.songTitle}</div>
+                  {row.className && <div className="text-xs text-gray-500">{row.className}</div>}
+                </td>
+                <td className="px-3 py-2">
+                  {canLink ? (
+                    <select
+                      value={selection[row.songId] ?? row.workId ?? ''}
+                      onChange={(e) => setSelection({ ...selection, [row.songId]: e.target.value })}
+                      className="w-full max-w-xs rounded-md border border-gray-300 px-2 py-1 text-sm"
+                    >
+                      <option value="">— Choose work —</option>
+                      {works.map((work) => (
+                        <option key={work.id} value={work.id}>
+                          {work.title}
+                          {work.composer ? ` (${work.composer})` : ''}
+                        </option>
+                      ))}
+                    </select>
+                  ) : (
+                    <span className="text-xs text-gray-500">Add the Schulsong title to the catalogue</span>
+                  )}
+                </td>
+                <td className="px-3 py-2 text-right">
+                  {canLink && (
+                    <button
+                      onClick={() => handleConfirm(row)}
+                      disabled={savingSongId === row.songId || !(selection[row.songId] || row.workId)}
+                      className="rounded-md bg-[#94B8B3] px-3 py-1 text-xs font-medium text-white hover:bg-[#7da39e] disabled:opacity-50"
+                    >
+                      {savingSongId === row.songId ? 'Saving…' : 'Confirm'}
+                    </button>
+                  )}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,213 @@
+'use client';
+
+import { useState } from 'react';
+import { toast } from 'sonner';
+import {
+  LICENSING_STATUSES,
+  LICENSING_STATUS_LABELS,
+  type LicensingStatus,
+  type RepertoireWork,
+} from '@/lib/types/airtable';
+
+interface RepertoireCatalogueProps {
+  works: RepertoireWork[];
+  onSaved: (work: RepertoireWork) => void;
+}
+
+interface WorkForm {
+  title: string;
+  alternativeTitles: string;
+  composer: string;
+  lyricist: string;
+  publisher: string;
+  gemaWorkNumber: string;
+  licensingStatus: LicensingStatus;
+}
+
+const EMPTY_FORM: WorkForm = {
+  title: '',
+  alternativeTitles: '',
+  composer: '',
+  lyricist: '',
+  publisher: '',
+  gemaWorkNumber: '',
+  licensingStatus: 'unclear',
+};
+
+function toForm(work: RepertoireWork): WorkForm {
+  return {
+    title: work.title,
+    alternativeTitles: work.alternativeTitles.join('\n'),
+    composer: work.composer || '',
+    lyricist: work.lyricist || '',
+    publisher: work.publisher || '',
+    gemaWorkNumber: work.gemaWorkNumber || '',
+    licensingStatus: work.licensingStatus,
+  };
+}
+
+export default function RepertoireCatalogue({ works, onSaved }: RepertoireCatalogueProps) {
+  const [form, setForm] = useState<WorkForm>(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [filter, setFilter] = useState('');
+
+  const visibleWorks = works.filter((work) =>
+    [work.title, ...work.alternativeTitles, work.composer || ''].some((text) =>
+      text.toLowerCase().includes(filter.trim().toLowerCase())
+    )
+  );
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.title.trim()) return;
+
+    setIsSaving(true);
+    try {
+      const response = await fetch(editingId ? `/api/admin/repertoire/${editingId}` : '/api/admin/repertoire', {
+        method: editingId ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...form, alternativeTitles: form.alternativeTitles.split('\n') }),
+      });
+      const result = await response.json();
+      if (!result.success) throw new Error(result.error || 'Failed to save work');
+      onSaved(result.data.work);
+      toast.success(editingId ? 'Work updated' : 'Work added');
+      setForm(EMPTY_FORM);
+      setEditingId(null);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save work');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const field = (key: Exclude<keyof WorkForm, 'licensingStatus' | 'alternativeTitles'>, label: string) => (
+    <label className="block text-sm">
+      <span className="text-gray-600">{label}</span>
+      <input
+        type="text"
+        value={form[key]}
+        onChange={(e) => setForm({ ...form, [key]: e.target.value })}
+        className="mt-1 w-full rounded-md border border-gray-300 px-2 py-1.5 text-sm"
+      />
+    </label>
+  );
+
+  return (
+    <div className="grid grid-cols-1 gap-6 lg:grid-cols-3">
+      <form onSubmit={handleSubmit} className="space-y-3 rounded-lg border border-gray-200 bg-white p-4">
+        <h3 className="font-semibold">{editingId ? 'Edit work' : 'Add work'}</h3>
+        {field('title', 'Title')}
+        <label className="block text-sm">
+          <span className="text-gray-600">Other titles (one per line)</span>
+          <textarea
+            value={form.alternativeTitles}
+            onChange={(e) => setForm({ ...form, alternativeTitles: e.target.value })}
+            rows={2}
+            className="mt-1 w-full rounded-md border border-gray-300 px-2 py-1.5 text-sm"
+          />
+        </label>
+        {field('composer', 'Composer')}
+        {field('lyricist', 'Lyricist')}
+        {field('publisher', 'Publisher')}
+        {field('gemaWorkNumber', 'GEMA work number')}
+        <label className="block text-sm">
+          <span className="text-gray-600">Licensing status</span>
+          <select
+            value={form.licensingStatus}
+            onChange={(e) => setForm({ ...form, licensingStatus: e.target.value as LicensingStatus })}
+            className="mt-1 w-full rounded-md border border-gray-300 px-2 py-1.5 text-sm"
+          >
+            {LICENSING_STATUSES.map((status) => (
+              <option key={status} value={status}>
+                {LICENSING_STATUS_LABELS[status]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <div className="flex gap-2">
+          <button
+            type="submit"
+            disabled={isSaving || !form.title.trim()}
+            className="rounded-md bg-[#94B8B3] px-3 py-1.5 text-sm font-medium text-white hover:bg-[#7da39e] disabled:opacity-50"
+          >
+            {isSaving ? 'Saving…' : editingId ? 'Save' : 'Add'}
+          </button>
+          {editingId && (
+            <button
+              type="button"
+              onClick={() => {
+                setEditingId(null);
+                setForm(EMPTY_FORM);
+              }}
+              className="rounded-md px-3 py-1.5 text-sm text-gray-600 hover:bg-gray-100"
+            >
+              Cancel
+            </button>
+          )}
+        </div>
+      </form>
+
+      <div className="lg:col-span-2">
+        <input
+          type="search"
+          placeholder="Search title or composer…"
+          value={filter}
+          onChange={(e) => setFilter(e.target.value)}
+          className="mb-3 w-full rounded-md border border-gray-300 px-3 py-1.5 text-sm"
+        />
+        <div className="overflow-x-auto rounded-lg border border-gray-200 bg-white">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50 text-left text-xs uppercase text-gray-500">
+              <tr>
+                <th className="px-3 py-2">Title</th>
+                <th className="px-3 py-2">Composer / Lyricist</th>
+                <th className="px-3 py-2">Publisher</th>
+                <th className="px-3 py-2">GEMA No.</th>
+                <th className="px-3 py-2">Status</th>
+                <th className="px-3 py-2" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {visibleWorks.map((work) => (
+                <tr key={work.id}>
+                  <td className="px-3 py-2">
+                    <div className="font-medium">{work.title}</div>
+                    {work.alternativeTitles.length > 0 && (
+                      <div className="text-xs text-gray-500">{work.alternativeTitles.join(' · ')}</div>
+                    )}
+                  </td>
+                  <td className="px-3 py-2 text-gray-700">
+                    {[work.composer, work.lyricist].filter(Boolean).join(' / ') || '—'}
+                  </td>
+                  <td className="px-3 py-2 text-gray-700">{work.publisher || '—'}</td>
+                  <td className="px-3 py-2 text-gray-700">{work.gemaWorkNumber || '—'}</td>
+                  <td className="px-3 py-2">{LICENSING_STATUS_LABELS[work.licensingStatus]}</td>
+                  <td className="px-3 py-2 text-right">
+                    <button
+                      onClick={() => {
+                        setEditingId(work.id);
+                        setForm(toForm(work));
+                      }}
+                      className="text-xs text-[#5a8a82] hover:underline"
+                    >
+                      Edit
+                    </button>
+                  </td>
+                </tr>
+              ))}
+              {visibleWorks.length === 0 && (
+                <tr>
+                  <td colSpan={6} className="px-3 py-6 text-center text-gray-500">
+                    No works found
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -2,6 +2,7 @@
 
 import { useState } from 'react';
 import { cn } from '@/lib/utils';
+import { waitForJob } from '@/lib/api/waitForJob';
 
 // ---------------------------------------------------------------------------
 // Types
@@ -80,7 +81,13 @@ export default function FulfillmentButton({
         throw new Error(data.error || `Fulfillment failed (${res.status})`);
       }
 
-      const fulfillmentResult: FulfillmentResult = data.data;
+      // Fulfillment runs as a background job - wait for its summary
+      const job = await waitForJob<FulfillmentResult>(data.data.jobId);
+      if (!job.result) {
+        throw new Error(job.lastError || 'Fulfillment failed');
+      }
+
+      const fulfillmentResult: FulfillmentResult = job.result;
       setResult(fulfillmentResult);
       onComplete(fulfillmentResult);
     } catch (err) {
@@ -0,0 +1,71 @@
+'use client';
+
+import type { OutboxMessage } from '@/lib/types/email';
+
+interface OutboxPreviewProps {
+  message: OutboxMessage;
+}
+
+function formatRecipients(message: OutboxMessage): string {
+  return message.to.map((r) => (r.name ? `${r.name} <${r.email}>` : r.email)).join(', ');
+}
+
+/**
+ * One outbox message: envelope, headers and the HTML as the recipient
+ * would see it. Brevo template messages have no HTML here (Brevo renders
+ * them), so their params are shown instead.
+ */
+export default function OutboxPreview({ message }: OutboxPreviewProps) {
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 shadow-sm flex flex-col h-full">
+      <dl className="px-6 py-4 border-b border-gray-100 grid grid-cols-[6rem_1fr] gap-x-4 gap-y-1 text-sm">
+        <dt className="text-gray-500">Subject</dt>
+        <dd className="text-gray-900 font-medium">
+          {message.subject ?? `Brevo template #${message.templateId}`}
+        </dd>
+        <dt className="text-gray-500">From</dt>
+        <dd className="text-gray-900">
+          {message.from.name ? `${message.from.name} <${message.from.email}>` : message.from.email}
+        </dd>
+        <dt className="text-gray-500">To</dt>
+        <dd className="text-gray-900 break-all">{formatRecipients(message)}</dd>
+        <dt className="text-gray-500">Via</dt>
+        <dd className="text-gray-900 capitalize">{message.provider}</dd>
+        {message.scheduledAt && (
+          <>
+            <dt className="text-gray-500">Scheduled</dt>
+            <dd className="text-gray-900">{new Date(message.scheduledAt).toLocaleString('de-DE')}</dd>
+          </>
+        )}
+        {message.tags && message.tags.length > 0 && (
+          <>
+            <dt className="text-gray-500">Tags</dt>
+            <dd className="text-gray-900">{message.tags.join(', ')}</dd>
+          </>
+        )}
+        {message.headers &&
+          Object.entries(message.headers).map(([name, value]) => (
+            <div key={name} className="contents">
+              <dt className="text-gray-500 truncate" title={name}>
+                {name}
+              </dt>
+              <dd className="text-gray-600 font-mono text-xs break-all">{value}</dd>
+            </div>
+          ))}
+      </dl>
+
+      {message.html !== undefined ? (
+        <iframe
+          title={message.subject || message.id}
+          srcDoc={message.html}
+          sandbox=""
+          className="flex-1 w-full min-h-[36rem] rounded-b-lg"
+        />
+      ) : (
+        <pre className="flex-1 px-6 py-4 text-xs text-gray-700 overflow-auto">
+          {JSON.stringify(message.params ?? {}, null, 2)}
+        </pre>
+      )}
+    </div>
+  );
+}
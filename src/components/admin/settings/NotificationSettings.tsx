@@ -34,6 +34,10 @@ const notificationTypes: NotificationTypeConfig[] = [
     type: 'event_readiness',
     title: 'Event-Vorbereitung',
     description: 'Tägliche/wöchentliche Übersicht: Events ohne Mitarbeiter, fehlende Klassen oder Lieder.',
+  },  {
+    type: 'size_exchange',
+    title: 'Größentausch',
+    description: 'Benachrichtigung, wenn Eltern im Familien-Portal einen Größentausch für Kleidung anfragen.',
   },
 ];
 
@@ -0,0 +1,220 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { TotpSetup } from '@/lib/types/staff-auth';
+
+export default function SecuritySettings() {
+  const [totpEnabled, setTotpEnabled] = useState(false);
+  const [setup, setSetup] = useState<TotpSetup | null>(null);
+  const [code, setCode] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const fetchStatus = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const response = await fetch('/api/admin/settings/security');
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to fetch security settings');
+      }
+
+      setTotpEnabled(data.data.totpEnabled);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch security settings');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchStatus();
+  }, [fetchStatus]);
+
+  const handleStartSetup = async () => {
+    try {
+      setSaving(true);
+      setError(null);
+      setMessage(null);
+      const response = await fetch('/api/admin/settings/security', { method: 'POST' });
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to start setup');
+      }
+
+      setSetup(data.data);
+      setCode('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start setup');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSubmitCode = async (action: 'enable' | 'disable') => {
+    try {
+      setSaving(true);
+      setError(null);
+      setMessage(null);
+      const response = await fetch('/api/admin/settings/security', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action, code }),
+      });
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error === 'Invalid code' ? 'Der Code ist ungültig. Bitte erneut versuchen.' : data.error);
+      }
+
+      setTotpEnabled(data.data.totpEnabled);
+      setSetup(null);
+      setCode('');
+      setMessage(
+        action === 'enable'
+          ? 'Zwei-Faktor-Authentifizierung ist jetzt aktiv.'
+          : 'Zwei-Faktor-Authentifizierung wurde deaktiviert.'
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update security settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  const codeInput = (
+    <input
+      type="text"
+      inputMode="numeric"
+      autoComplete="one-time-code"
+      maxLength={6}
+      value={code}
+      onChange={(e) => setCode(e.target.value.replace(/\D/g, ''))}
+      placeholder="123456"
+      className="w-32 px-3 py-2 border border-gray-300 rounded-lg text-sm tracking-widest focus:outline-none focus:ring-2 focus:ring-primary"
+    />
+  );
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-lg font-medium text-gray-900">Sicherheit</h3>
+        <p className="mt-1 text-sm text-gray-500">
+          Passwort und Zwei-Faktor-Authentifizierung für Ihr Admin-Konto.
+        </p>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+          <p className="text-sm text-red-700">{error}</p>
+        </div>
+      )}
+
+      {message && (
+        <div className="bg-green-50 border border-green-200 rounded-lg p-3">
+          <p className="text-sm text-green-700">{message}</p>
+        </div>
+      )}
+
+      {/* Password */}
+      <div className="bg-white border border-gray-200 rounded-lg p-5">
+        <h4 className="text-base font-medium text-gray-900">Passwort</h4>
+        <p className="mt-1 text-sm text-gray-500">
+          Ein neues Passwort legen Sie über den Link per E-Mail fest.
+        </p>
+        <Link
+          href="/passwort-zuruecksetzen"
+          className="mt-3 inline-block text-sm text-primary hover:underline"
+        >
+          Passwort ändern
+        </Link>
+      </div>
+
+      {/* TOTP */}
+      <div className="bg-white border border-gray-200 rounded-lg p-5">
+        <div className="flex items-start justify-between">
+          <div className="flex-1">
+            <h4 className="text-base font-medium text-gray-900">Zwei-Faktor-Authentifizierung</h4>
+            <p className="mt-1 text-sm text-gray-500">
+              Beim Login wird zusätzlich ein 6-stelliger Code aus einer Authenticator-App
+              (z.B. Google Authenticator, 1Password) abgefragt.
+            </p>
+          </div>
+          <span
+            className={`ml-4 px-2 py-1 text-xs font-medium rounded-full ${
+              totpEnabled ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-600'
+            }`}
+          >
+            {totpEnabled ? 'Aktiv' : 'Inaktiv'}
+          </span>
+        </div>
+
+        {!totpEnabled && !setup && (
+          <button
+            onClick={handleStartSetup}
+            disabled={saving}
+            className="mt-4 px-4 py-2 bg-primary text-white text-sm font-medium rounded-lg hover:opacity-90 disabled:opacity-50"
+          >
+            Einrichten
+          </button>
+        )}
+
+        {!totpEnabled && setup && (
+          <div className="mt-4 space-y-3">
+            <p className="text-sm text-gray-700">
+              1. Scannen Sie den QR-Code mit Ihrer Authenticator-App.
+            </p>
+            {/* eslint-disable-next-line @next/next/no-img-element */}
+            <img src={setup.qrCodeDataUrl} alt="TOTP QR-Code" className="w-48 h-48 border border-gray-200 rounded" />
+            <p className="text-xs text-gray-500">
+              Oder manuell eingeben: <code className="font-mono">{setup.secret}</code>
+            </p>
+            <p className="text-sm text-gray-700">2. Geben Sie den angezeigten Code ein:</p>
+            <div className="flex items-center gap-2">
+              {codeInput}
+              <button
+                onClick={() => handleSubmitCode('enable')}
+                disabled={saving || code.length !== 6}
+                className="px-4 py-2 bg-primary text-white text-sm font-medium rounded-lg hover:opacity-90 disabled:opacity-50"
+              >
+                Aktivieren
+              </button>
+            </div>
+          </div>
+        )}
+
+        {totpEnabled && (
+          <div className="mt-4 space-y-2">
+            <p className="text-sm text-gray-700">
+              Zum Deaktivieren aktuellen Code eingeben:
+            </p>
+            <div className="flex items-center gap-2">
+              {codeInput}
+              <button
+                onClick={() => handleSubmitCode('disable')}
+                disabled={saving || code.length !== 6}
+                className="px-4 py-2 bg-red-600 text-white text-sm font-medium rounded-lg hover:bg-red-700 disabled:opacity-50"
+              >
+                Deaktivieren
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
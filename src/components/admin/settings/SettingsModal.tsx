@@ -1,23 +1,27 @@
 'use client';
 
-import { useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { cn } from '@/lib/utils';
 import NotificationSettings from './NotificationSettings';
+import SecuritySettings from './SecuritySettings';
 
 interface SettingsModalProps {
   isOpen: boolean;
   onClose: () => void;
 }
 
-type SettingsCategory = 'notifications' | 'users' | 'logs';
+type SettingsCategory = 'notifications' | 'security' | 'users' | 'logs';
 
 const categories: { id: SettingsCategory; name: string; icon: string; available: boolean }[] = [
   { id: 'notifications', name: 'Benachrichtigungen', icon: '🔔', available: true },
+  { id: 'security', name: 'Sicherheit', icon: '🔐', available: true },
   { id: 'users', name: 'Benutzer', icon: '👥', available: false },
   { id: 'logs', name: 'Logs', icon: '📜', available: false },
 ];
 
 export default function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
+  const [activeCategory, setActiveCategory] = useState<SettingsCategory>('notifications');
+
   // Handle escape key to close modal
   const handleKeyDown = useCallback(
     (event: KeyboardEvent) => {
@@ -86,9 +90,10 @@ export default function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
                   <button
                     key={category.id}
                     disabled={!category.available}
+                    onClick={() => setActiveCategory(category.id)}
                     className={cn(
                       'w-full flex items-center px-3 py-2.5 text-sm font-medium rounded-lg transition-colors',
-                      category.id === 'notifications'
+                      category.id === activeCategory
                         ? 'bg-white text-gray-900 shadow-sm'
                         : category.available
                           ? 'text-gray-600 hover:bg-white hover:text-gray-900'
@@ -107,7 +112,7 @@ export default function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
 
             {/* Right panel - Settings content */}
             <div className="flex-1 p-6 overflow-y-auto">
-              <NotificationSettings />
+              {activeCategory === 'security' ? <SecuritySettings /> : <NotificationSettings />}
             </div>
           </div>
         </div>
@@ -1,11 +1,12 @@
 'use client';
 
-import { useState } from 'react';
-import { StockItem, formatStockCurrency, formatLastUpdated, hasSizes } from '@/lib/types/stock';
+import { Fragment, useState } from 'react';
+import { StockItem, formatStockCurrency, formatLastUpdated, getStockKey, hasSizes } from '@/lib/types/stock';
 
 interface InventoryTableProps {
   data: StockItem[];
   onUpdateCost: (id: string, newCost: number) => Promise<void>;
+  onCorrectStock: (id: string, onHand: number, reason: string) => Promise<void>;
 }
 
 interface EditingState {
@@ -13,9 +14,17 @@ interface EditingState {
   value: string;
 }
 
-export default function InventoryTable({ data, onUpdateCost }: InventoryTableProps) {
+interface CorrectionState {
+  id: string | null;
+  onHand: string;
+  reason: string;
+}
+
+export default function InventoryTable({ data, onUpdateCost, onCorrectStock }: InventoryTableProps) {
   const [editing, setEditing] = useState<EditingState>({ id: null, value: '' });
+  const [correction, setCorrection] = useState<CorrectionState>({ id: null, onHand: '', reason: '' });
   const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
 
   const startEdit = (item: StockItem) => {
     setEditing({
@@ -36,14 +45,43 @@ export default function InventoryTable({ data, onUpdateCost }: InventoryTablePro
     }
 
     setSaving(true);
+    setError(null);
     try {
       await onUpdateCost(item.id, newCost);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update cost');
     } finally {
       setSaving(false);
       setEditing({ id: null, value: '' });
     }
   };
 
+  const startCorrection = (item: StockItem) => {
+    setCorrection({ id: item.id, onHand: String(item.onHand), reason: '' });
+  };
+
+  const cancelCorrection = () => {
+    setCorrection({ id: null, onHand: '', reason: '' });
+  };
+
+  const saveCorrection = async (item: StockItem) => {
+    const onHand = parseInt(correction.onHand, 10);
+    if (isNaN(onHand) || onHand < 0 || !correction.reason.trim()) {
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      await onCorrectStock(item.id, onHand, correction.reason.trim());
+      cancelCorrection();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to correct stock');
+    } finally {
+      setSaving(false);
+    }
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent, item: StockItem) => {
     if (e.key === 'Enter') {
       saveEdit(item);
@@ -57,13 +95,18 @@ export default function InventoryTable({ data, onUpdateCost }: InventoryTablePro
       <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-12 text-center">
         <div className="text-4xl mb-4">📦</div>
         <h3 className="text-lg font-semibold text-gray-900 mb-2">No inventory items</h3>
-        <p className="text-gray-600">Inventory items will appear here once synced.</p>
+        <p className="text-gray-600">Inventory items will appear here once the stock tables are set up.</p>
       </div>
     );
   }
 
   return (
     <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+      {error && (
+        <div className="bg-red-50 border-b border-red-200 px-6 py-3">
+          <p className="text-sm text-red-600">{error}</p>
+        </div>
+      )}
       <div className="overflow-x-auto">
         <table className="min-w-full divide-y divide-gray-200">
           <thead className="bg-gray-50">
@@ -75,7 +118,13 @@ export default function InventoryTable({ data, onUpdateCost }: InventoryTablePro
                 Size
               </th>
               <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
-                In Stock
+                On Hand
+              </th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Reserved
+              </th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Available
               </th>
               <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
                 Cost per Unit
@@ -83,95 +132,155 @@ export default function InventoryTable({ data, onUpdateCost }: InventoryTablePro
               <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
                 Last Updated
               </th>
+              <th className="px-6 py-3" />
             </tr>
           </thead>
           <tbody className="bg-white divide-y divide-gray-200">
             {data.map((item, index) => {
               const isEditing = editing.id === item.id;
+              const isCorrecting = correction.id === item.id;
               const isEven = index % 2 === 0;
               const hasOverride = item.costOverride !== undefined && item.costOverride !== null;
 
               return (
-                <tr
-                  key={item.id}
-                  className={isEven ? 'bg-white' : 'bg-gray-50'}
-                >
-                  <td className="px-6 py-4">
-                    <div className="text-sm font-medium text-gray-900">{item.item}</div>
-                  </td>
-                  <td className="px-6 py-4">
-                    <div className="text-sm text-gray-900">
-                      {hasSizes(item.item) && item.size ? `${item.size} cm` : '-'}
-                    </div>
-                  </td>
-                  <td className="px-6 py-4 text-right">
-                    <span
-                      className={`text-sm font-medium ${
-                        item.inStock <= 5
-                          ? 'text-red-600'
-                          : item.inStock <= 10
-                          ? 'text-yellow-600'
-                          : 'text-gray-900'
-                      }`}
-                    >
-                      {item.inStock}
-                    </span>
-                  </td>
-                  <td className="px-6 py-4 text-right">
-                    {isEditing ? (
-                      <div className="flex items-center justify-end gap-2">
-                        <div className="relative">
-                          <span className="absolute left-2 top-1/2 -translate-y-1/2 text-gray-500 text-sm">
-                            €
-                          </span>
+                <Fragment key={getStockKey(item.item, item.size)}>
+                  <tr className={isEven ? 'bg-white' : 'bg-gray-50'}>
+                    <td className="px-6 py-4">
+                      <div className="text-sm font-medium text-gray-900">{item.item}</div>
+                    </td>
+                    <td className="px-6 py-4">
+                      <div className="text-sm text-gray-900">
+                        {hasSizes(item.item) && item.size ? `${item.size} cm` : '-'}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 text-right text-sm text-gray-900">
+                      {item.onHand}
+                    </td>
+                    <td className="px-6 py-4 text-right text-sm text-gray-500">
+                      {item.reserved}
+                    </td>
+                    <td className="px-6 py-4 text-right">
+                      <span
+                        className={`text-sm font-medium ${
+                          item.available <= 5
+                            ? 'text-red-600'
+                            : item.available <= 10
+                            ? 'text-yellow-600'
+                            : 'text-gray-900'
+                        }`}
+                      >
+                        {item.available}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 text-right">
+                      {isEditing ? (
+                        <div className="flex items-center justify-end gap-2">
+                          <div className="relative">
+                            <span className="absolute left-2 top-1/2 -translate-y-1/2 text-gray-500 text-sm">
+                              €
+                            </span>
+                            <input
+                              type="number"
+                              step="0.01"
+                              min="0"
+                              value={editing.value}
+                              onChange={(e) => setEditing({ ...editing, value: e.target.value })}
+                              onKeyDown={(e) => handleKeyDown(e, item)}
+                              className="w-20 pl-6 pr-2 py-1 text-sm text-right border border-gray-300 rounded focus:ring-2 focus:ring-[#94B8B3] focus:border-[#94B8B3] outline-none"
+                              autoFocus
+                              disabled={saving}
+                            />
+                          </div>
+                          <button
+                            onClick={() => saveEdit(item)}
+                            disabled={saving}
+                            className="px-2 py-1 text-xs font-medium text-white bg-[#94B8B3] rounded hover:bg-[#7fa39e] transition-colors disabled:opacity-50"
+                          >
+                            {saving ? '...' : 'Save'}
+                          </button>
+                          <button
+                            onClick={cancelEdit}
+                            disabled={saving}
+                            className="px-2 py-1 text-xs font-medium text-gray-600 bg-gray-100 rounded hover:bg-gray-200 transition-colors disabled:opacity-50"
+                          >
+                            Cancel
+                          </button>
+                        </div>
+                      ) : (
+                        <div className="flex items-center justify-end gap-2">
+                          <button
+                            onClick={() => startEdit(item)}
+                            disabled={!item.id}
+                            className="text-sm text-gray-900 hover:text-[#94B8B3] transition-colors cursor-pointer disabled:cursor-default disabled:hover:text-gray-900"
+                            title="Click to edit"
+                          >
+                            {formatStockCurrency(item.costPerUnit)}
+                          </button>
+                          {hasOverride && (
+                            <span className="inline-flex items-center px-1.5 py-0.5 rounded text-xs font-medium bg-blue-100 text-blue-800">
+                              Override
+                            </span>
+                          )}
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 text-right text-sm text-gray-500">
+                      {formatLastUpdated(item.lastUpdated)}
+                    </td>
+                    <td className="px-6 py-4 text-right">
+                      <button
+                        onClick={() => (isCorrecting ? cancelCorrection() : startCorrection(item))}
+                        disabled={!item.id}
+                        className="text-xs font-medium text-gray-600 hover:text-[#94B8B3] transition-colors disabled:opacity-40"
+                      >
+                        Correct
+                      </button>
+                    </td>
+                  </tr>
+                  {isCorrecting && (
+                    <tr className="bg-[#94B8B3]/5">
+                      <td colSpan={8} className="px-6 py-3">
+                        <div className="flex flex-wrap items-center justify-end gap-2">
+                          <label className="text-xs text-gray-600" htmlFor={`onhand-${item.id}`}>
+                            Counted on hand
+                          </label>
                           <input
+                            id={`onhand-${item.id}`}
                             type="number"
-                            step="0.01"
                             min="0"
-                            value={editing.value}
-                            onChange={(e) => setEditing({ ...editing, value: e.target.value })}
-                            onKeyDown={(e) => handleKeyDown(e, item)}
-                            className="w-20 pl-6 pr-2 py-1 text-sm text-right border border-gray-300 rounded focus:ring-2 focus:ring-[#94B8B3] focus:border-[#94B8B3] outline-none"
-                            autoFocus
+                            step="1"
+                            value={correction.onHand}
+                            onChange={(e) => setCorrection({ ...correction, onHand: e.target.value })}
+                            className="w-20 px-2 py-1 text-sm text-right border border-gray-300 rounded focus:ring-2 focus:ring-[#94B8B3] focus:border-[#94B8B3] outline-none"
+                            disabled={saving}
+                          />
+                          <input
+                            type="text"
+                            value={correction.reason}
+                            onChange={(e) => setCorrection({ ...correction, reason: e.target.value })}
+                            placeholder="Reason (required, e.g. stocktake, damaged)"
+                            className="w-72 px-2 py-1 text-sm border border-gray-300 rounded focus:ring-2 focus:ring-[#94B8B3] focus:border-[#94B8B3] outline-none"
                             disabled={saving}
                           />
+                          <button
+                            onClick={() => saveCorrection(item)}
+                            disabled={saving || !correction.reason.trim() || correction.onHand === ''}
+                            className="px-2 py-1 text-xs font-medium text-white bg-[#94B8B3] rounded hover:bg-[#7fa39e] transition-colors disabled:opacity-50"
+                          >
+                            {saving ? '...' : 'Save'}
+                          </button>
+                          <button
+                            onClick={cancelCorrection}
+                            disabled={saving}
+                            className="px-2 py-1 text-xs font-medium text-gray-600 bg-gray-100 rounded hover:bg-gray-200 transition-colors disabled:opacity-50"
+                          >
+                            Cancel
+                          </button>
                         </div>
-                        <button
-                          onClick={() => saveEdit(item)}
-                          disabled={saving}
-                          className="px-2 py-1 text-xs font-medium text-white bg-[#94B8B3] rounded hover:bg-[#7fa39e] transition-colors disabled:opacity-50"
-                        >
-                          {saving ? '...' : 'Save'}
-                        </button>
-                        <button
-                          onClick={cancelEdit}
-                          disabled={saving}
-                          className="px-2 py-1 text-xs font-medium text-gray-600 bg-gray-100 rounded hover:bg-gray-200 transition-colors disabled:opacity-50"
-                        >
-                          Cancel
-                        </button>
-                      </div>
-                    ) : (
-                      <div className="flex items-center justify-end gap-2">
-                        <button
-                          onClick={() => startEdit(item)}
-                          className="text-sm text-gray-900 hover:text-[#94B8B3] transition-colors cursor-pointer"
-                          title="Click to edit"
-                        >
-                          {formatStockCurrency(item.costPerUnit)}
-                        </button>
-                        {hasOverride && (
-                          <span className="inline-flex items-center px-1.5 py-0.5 rounded text-xs font-medium bg-blue-100 text-blue-800">
-                            Override
-                          </span>
-                        )}
-                      </div>
-                    )}
-                  </td>
-                  <td className="px-6 py-4 text-right text-sm text-gray-500">
-                    {formatLastUpdated(item.lastUpdated)}
-                  </td>
-                </tr>
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
               );
             })}
           </tbody>
@@ -9,12 +9,14 @@ interface StockExportButtonsProps {
 }
 
 function generateInventoryCSV(data: StockItem[]): string {
-  const headers = ['Item', 'Size', 'In Stock', 'Cost per Unit (€)', 'Base Cost (€)', 'Has Override', 'Last Updated'];
+  const headers = ['Item', 'Size', 'On Hand', 'Reserved', 'Available', 'Cost per Unit (€)', 'Base Cost (€)', 'Has Override', 'Last Updated'];
 
   const rows = data.map((item) => [
     item.item,
     hasSizes(item.item) && item.size ? `${item.size} cm` : '-',
-    item.inStock,
+    item.onHand,
+    item.reserved,
+    item.available,
     item.costPerUnit.toFixed(2),
     item.baseCost.toFixed(2),
     item.costOverride !== undefined && item.costOverride !== null ? 'Yes' : 'No',
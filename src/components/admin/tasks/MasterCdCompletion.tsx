@@ -4,7 +4,10 @@ import { useState, useEffect, useCallback } from 'react';
 import { cn } from '@/lib/utils';
 import { useClientZipDownload, ZipDownloadFile } from '@/lib/hooks/useClientZipDownload';
 import { parseJsonOrThrow } from '@/lib/api/parseResponse';
+import { waitForJob } from '@/lib/api/waitForJob';
+import { getJobProgress } from '@/lib/types/jobs';
 import type { MasterCdData } from '@/lib/services/masterCdService';
+import type { CdImageAttachment } from '@/lib/types/tasks';
 
 interface MasterCdCompletionProps {
   taskId: string;
@@ -18,6 +21,12 @@ function formatDuration(seconds: number): string {
   return `${mins}:${secs.toString().padStart(2, '0')}`;
 }
 
+interface CdImageInfo {
+  cdImage: CdImageAttachment | null;
+  wavUrl?: string;
+  cueUrl?: string;
+}
+
 export default function MasterCdCompletion({
   taskId,
   eventId: _eventId,
@@ -28,6 +37,8 @@ export default function MasterCdCompletion({
   const [isCompleting, setIsCompleting] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const { state: zipState, startDownload: startZipDownload, cancel: cancelZipDownload } = useClientZipDownload();
+  const [cdImageInfo, setCdImageInfo] = useState<CdImageInfo | null>(null);
+  const [cdImageProgress, setCdImageProgress] = useState<string | null>(null);
 
   const fetchTracklist = useCallback(async (signal?: AbortSignal) => {
     setIsLoading(true);
@@ -56,6 +67,47 @@ export default function MasterCdCompletion({
     return () => controller.abort();
   }, [fetchTracklist]);
 
+  const fetchCdImage = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/admin/tasks/${taskId}/cd-image`, { credentials: 'include' });
+      const data = await parseJsonOrThrow<{ success: boolean; data: CdImageInfo }>(response);
+      setCdImageInfo(data.data);
+    } catch (err) {
+      console.error('Failed to load CD image:', err);
+    }
+  }, [taskId]);
+
+  useEffect(() => {
+    fetchCdImage();
+  }, [fetchCdImage]);
+
+  const handleBuildCdImage = async () => {
+    setError(null);
+    setCdImageProgress('Starting...');
+
+    try {
+      const response = await fetch(`/api/admin/tasks/${taskId}/cd-image`, {
+        method: 'POST',
+        credentials: 'include',
+      });
+      const data = await parseJsonOrThrow<{ success: boolean; data: { jobId: string } }>(response);
+      const job = await waitForJob(data.data.jobId, {
+        onProgress: (progress) => {
+          const { done, total } = getJobProgress(progress);
+          setCdImageProgress(total > 0 ? `Building ${done}/${total}...` : 'Starting...');
+        },
+      });
+      if (job.status === 'failed') {
+        throw new Error(job.lastError || 'CD image build failed');
+      }
+      await fetchCdImage();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'CD image build failed');
+    } finally {
+      setCdImageProgress(null);
+    }
+  };
+
   const handleDownloadAll = async () => {
     setError(null);
 
@@ -339,6 +391,42 @@ export default function MasterCdCompletion({
         </table>
       </div>
 
+      {/* CD image (WAV + CUE for burning) */}
+      <div className="px-6 py-4 border-t border-gray-200 flex items-center justify-between gap-4">
+        <div className="text-sm">
+          <p className="font-medium text-gray-900">CD Image</p>
+          {cdImageInfo?.cdImage ? (
+            <p className="text-gray-500 mt-0.5">
+              {cdImageInfo.cdImage.track_count} tracks &middot; {formatDuration(cdImageInfo.cdImage.total_seconds)}
+              {' '}&middot; built {new Date(cdImageInfo.cdImage.built_at).toLocaleString('de-DE')}
+            </p>
+          ) : (
+            <p className="text-gray-500 mt-0.5">WAV + CUE sheet, ready to burn (max. 80 minutes)</p>
+          )}
+        </div>
+
+        <div className="flex items-center gap-3">
+          {cdImageInfo?.wavUrl && cdImageInfo.cueUrl && !cdImageProgress && (
+            <>
+              <a href={cdImageInfo.wavUrl} className="text-sm text-[#94B8B3] hover:underline">
+                WAV
+              </a>
+              <a href={cdImageInfo.cueUrl} className="text-sm text-[#94B8B3] hover:underline">
+                CUE
+              </a>
+            </>
+          )}
+          <button
+            onClick={handleBuildCdImage}
+            disabled={!tracklist.allReady || cdImageProgress !== null}
+            title={!tracklist.allReady ? 'All tracks must be ready' : undefined}
+            className="px-3 py-1.5 text-sm font-medium text-[#94B8B3] border border-[#94B8B3] rounded-lg hover:bg-[#94B8B3]/10 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            {cdImageProgress ?? (cdImageInfo?.cdImage ? 'Rebuild CD Image' : 'Build CD Image')}
+          </button>
+        </div>
+      </div>
+
       {/* Error banner (inline, when tracklist is loaded) */}
       {error && tracklist && (
         <div className="mx-6 my-4 bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">
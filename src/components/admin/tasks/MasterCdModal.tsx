@@ -6,6 +6,7 @@ import { cn, formatDate } from '@/lib/utils';
 import type { TaskMatrixCell } from '@/lib/types/tasks';
 import { getTimelineEntry, PREFIX_STYLES } from '@/lib/config/taskTimeline';
 import type { MasterCdData, MasterCdTrack } from '@/lib/services/masterCdService';
+import type { LoudnessWarning } from '@/lib/utils/loudnorm';
 import { useClientZipDownload, ZipDownloadFile } from '@/lib/hooks/useClientZipDownload';
 
 // ---------------------------------------------------------------------------
@@ -34,6 +35,23 @@ function formatDuration(seconds: number): string {
   return `${mins}:${secs.toString().padStart(2, '0')}`;
 }
 
+function formatLoudness(track: MasterCdTrack): string {
+  return track.loudnessLufs !== undefined ? track.loudnessLufs.toFixed(1) : '\u2014';
+}
+
+function loudnessWarningText(warning: LoudnessWarning): string {
+  switch (warning.kind) {
+    case 'too_loud':
+      return `${warning.deviationLu} LU above target`;
+    case 'too_quiet':
+      return `${Math.abs(warning.deviationLu)} LU below target`;
+    case 'clipping':
+      return `True peak ${warning.truePeakDbtp} dBTP (clipping)`;
+    case 'unmeasured':
+      return 'Loudness not measured — re-process this final';
+  }
+}
+
 function trackStatusBadge(status: string) {
   if (status === 'ready') {
     return (
@@ -117,6 +135,7 @@ export default function MasterCdModal({
   // Completion gating: all tracks ready, or empty tracklist
   const readyCount = editTracks.filter((t) => t.status === 'ready').length;
   const allReady = editTracks.length > 0 ? readyCount === editTracks.length : true;
+  const offTargetCount = editTracks.filter((t) => t.loudnessWarning).length;
 
   // Close on Escape
   useEffect(() => {
@@ -406,6 +425,22 @@ export default function MasterCdModal({
                   </span>
                 </div>
 
+                {/* Loudness check against the event's mastering preset */}
+                {tracklist?.masteringPreset && (
+                  offTargetCount > 0 ? (
+                    <div className="mb-3 bg-amber-50 border border-amber-200 rounded-lg p-2.5">
+                      <p className="text-xs text-amber-700 font-medium">
+                        {offTargetCount} {offTargetCount === 1 ? 'track is' : 'tracks are'} off the{' '}
+                        {tracklist.masteringPreset.label} target — re-process before burning
+                      </p>
+                    </div>
+                  ) : (
+                    <p className="mb-3 text-xs text-gray-500">
+                      Mastering preset: {tracklist.masteringPreset.label}
+                    </p>
+                  )
+                )}
+
                 {/* Teacher finalization status */}
                 {tracklistFinalizedAt ? (
                   <div className="mb-3 bg-green-50 border border-green-200 rounded-lg p-2.5">
@@ -439,6 +474,7 @@ export default function MasterCdModal({
                           <th className="px-3 py-2 text-xs text-gray-500 font-medium">Title</th>
                           <th className="px-3 py-2 text-xs text-gray-500 font-medium">Class</th>
                           <th className="px-2 py-2 text-xs text-gray-500 font-medium text-right w-14">Dur</th>
+                          <th className="px-2 py-2 text-xs text-gray-500 font-medium text-right w-16">LUFS</th>
                           <th className="px-2 py-2 text-xs text-gray-500 font-medium text-center w-20">Status</th>
                           <th className="px-2 py-2 w-8"></th>
                         </tr>
@@ -529,6 +565,18 @@ export default function MasterCdModal({
                                 : '\u2014'}
                             </td>
 
+                            {/* Loudness */}
+                            <td
+                              className={cn(
+                                'px-2 py-1.5 text-sm text-right font-mono',
+                                track.loudnessWarning ? 'text-amber-600 font-semibold' : 'text-gray-400',
+                              )}
+                              title={track.loudnessWarning ? loudnessWarningText(track.loudnessWarning) : undefined}
+                            >
+                              {track.loudnessWarning && '\u26a0 '}
+                              {formatLoudness(track)}
+                            </td>
+
                             {/* Status */}
                             <td className="px-2 py-1.5 text-center">
                               {trackStatusBadge(track.status)}
@@ -0,0 +1,144 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { toast } from 'sonner';
+import { getTimelineEntry } from '@/lib/config/taskTimeline';
+import { parseJsonOrThrow } from '@/lib/api/parseResponse';
+import type { TimelineRecompute } from '@/lib/services/taskService';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+interface TimelineRecomputePanelProps {
+  eventId: string;
+  onTaskRefresh: () => void;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function taskName(templateId: string): string {
+  return getTimelineEntry(templateId)?.displayName || templateId;
+}
+
+function formatOffset(offset: number): string {
+  if (offset === 0) return 'event day';
+  return offset < 0 ? `${Math.abs(offset)} days before` : `${offset} days after`;
+}
+
+// ---------------------------------------------------------------------------
+// Component
+// ---------------------------------------------------------------------------
+
+export default function TimelineRecomputePanel({ eventId, onTaskRefresh }: TimelineRecomputePanelProps) {
+  const [recompute, setRecompute] = useState<TimelineRecompute | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isApplying, setIsApplying] = useState(false);
+
+  const fetchRecompute = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/admin/tasks/events/${eventId}/timeline`, { credentials: 'include' });
+      const json = await parseJsonOrThrow<{ success: boolean; error?: string; data: TimelineRecompute }>(res);
+      if (!json.success) throw new Error(json.error || 'Failed to compare timeline');
+      setRecompute(json.data);
+      setError(null);
+    } catch (err) {
+      console.error('Error comparing event timeline:', err);
+      setError(err instanceof Error ? err.message : 'Failed to compare timeline');
+    }
+  }, [eventId]);
+
+  useEffect(() => {
+    fetchRecompute();
+  }, [fetchRecompute]);
+
+  const handleApply = async () => {
+    setIsApplying(true);
+    try {
+      const res = await fetch(`/api/admin/tasks/events/${eventId}/timeline`, {
+        method: 'POST',
+        credentials: 'include',
+      });
+      const json = await parseJsonOrThrow<{ success: boolean; error?: string }>(res);
+      if (!json.success) throw new Error(json.error || 'Failed to recompute timeline');
+      toast.success('Timeline recomputed');
+      await fetchRecompute();
+      onTaskRefresh();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to recompute timeline');
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  if (error) {
+    return (
+      <div className="bg-white rounded-lg border border-gray-200 shadow-sm px-6 py-4 mb-6 text-sm text-red-600">
+        Timeline: {error}
+      </div>
+    );
+  }
+
+  if (!recompute) return null;
+
+  const { template, pinnedTemplateId, diff } = recompute;
+  const changeCount = diff.add.length + diff.reschedule.length + diff.cancel.length;
+  const isOutdated = pinnedTemplateId !== undefined && pinnedTemplateId !== template.id;
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 shadow-sm mb-6">
+      <div className="px-6 py-4 flex items-center justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Timeline template</h2>
+          <p className="text-sm text-gray-500 mt-0.5">
+            Current template:{' '}
+            <Link href="/admin/tasks/timelines" className="text-[#5a8a82] hover:underline">
+              {template.name} (v{template.version})
+            </Link>
+            {isOutdated && ' · tasks were generated from an older version'}
+          </p>
+        </div>
+        {changeCount > 0 ? (
+          <button
+            onClick={handleApply}
+            disabled={isApplying}
+            className="px-4 py-2 text-sm bg-[#94B8B3] text-white rounded-lg hover:bg-[#7da39e] transition-colors disabled:opacity-50"
+          >
+            {isApplying ? 'Applying...' : `Apply ${changeCount} change${changeCount === 1 ? '' : 's'}`}
+          </button>
+        ) : (
+          <span className="text-sm text-green-700">Up to date</span>
+        )}
+      </div>
+
+      {changeCount > 0 && (
+        <ul className="border-t border-gray-100 px-6 py-3 space-y-1 text-sm">
+          {diff.add.map((entry) => (
+            <li key={`add-${entry.id}`} className="text-green-700">
+              + {entry.displayName} ({formatOffset(entry.offset)})
+            </li>
+          ))}
+          {diff.reschedule.map((change) => (
+            <li key={`reschedule-${change.taskId}`} className="text-amber-700">
+              ~ {taskName(change.templateId)}: {formatOffset(change.fromOffset)} → {formatOffset(change.toOffset)}
+            </li>
+          ))}
+          {diff.cancel.map((change) => (
+            <li key={`cancel-${change.taskId}`} className="text-red-600">
+              − {taskName(change.templateId)} (cancelled)
+            </li>
+          ))}
+          {diff.keep.length > 0 && (
+            <li className="text-gray-500">
+              {diff.keep.length} started or completed task{diff.keep.length === 1 ? '' : 's'} outside the template
+              kept as is
+            </li>
+          )}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,274 @@
+'use client';
+
+import { useState } from 'react';
+import { cn } from '@/lib/utils';
+import {
+  TASK_TIMELINE,
+  PREFIX_STYLES,
+  validateTimelineTemplateInput,
+  type TimelineConditions,
+  type TimelineTemplateInput,
+} from '@/lib/config/taskTimeline';
+import type { EventTier } from '@/lib/types/email-automation';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+interface TimelineTemplateEditorProps {
+  initial: TimelineTemplateInput;
+  /** Shown in the header, e.g. "New template" or "Edit Schulsong (v3)" */
+  title: string;
+  isSaving: boolean;
+  onSave: (input: TimelineTemplateInput) => void;
+  onCancel: () => void;
+}
+
+type TriState = 'any' | 'yes' | 'no';
+
+const TIER_OPTIONS: { value: EventTier; label: string }[] = [
+  { value: 'minimusikertag', label: 'Minimusikertag' },
+  { value: 'plus', label: 'PLUS' },
+  { value: 'schulsong', label: 'Schulsong only' },
+];
+
+function toTriState(value: boolean | undefined): TriState {
+  return value === undefined ? 'any' : value ? 'yes' : 'no';
+}
+
+function fromTriState(value: TriState): boolean | undefined {
+  return value === 'any' ? undefined : value === 'yes';
+}
+
+function parseCount(value: string): number | undefined {
+  return value.trim() === '' ? undefined : Number(value);
+}
+
+// ---------------------------------------------------------------------------
+// Component
+// ---------------------------------------------------------------------------
+
+export default function TimelineTemplateEditor({
+  initial,
+  title,
+  isSaving,
+  onSave,
+  onCancel,
+}: TimelineTemplateEditorProps) {
+  const [name, setName] = useState(initial.name);
+  const [priority, setPriority] = useState(String(initial.priority));
+  const [conditions, setConditions] = useState<TimelineConditions>(initial.conditions);
+  const [offsets, setOffsets] = useState<Record<string, string>>(() =>
+    Object.fromEntries(
+      TASK_TIMELINE.map((entry) => [
+        entry.id,
+        String(initial.tasks.find((t) => t.taskId === entry.id)?.offset ?? entry.offset),
+      ]),
+    ),
+  );
+  const [included, setIncluded] = useState<Set<string>>(
+    () => new Set(initial.tasks.map((t) => t.taskId)),
+  );
+
+  const input: TimelineTemplateInput = {
+    name,
+    priority: Number(priority),
+    conditions,
+    tasks: TASK_TIMELINE.filter((entry) => included.has(entry.id)).map((entry) => ({
+      taskId: entry.id,
+      offset: Number(offsets[entry.id]),
+    })),
+  };
+  const validationError = validateTimelineTemplateInput(input);
+
+  const toggleTier = (tier: EventTier) => {
+    const tiers = new Set(conditions.tiers ?? []);
+    if (tiers.has(tier)) tiers.delete(tier);
+    else tiers.add(tier);
+    setConditions({ ...conditions, tiers: tiers.size > 0 ? Array.from(tiers) : undefined });
+  };
+
+  const toggleTask = (taskId: string) => {
+    setIncluded((prev) => {
+      const next = new Set(prev);
+      if (next.has(taskId)) next.delete(taskId);
+      else next.add(taskId);
+      return next;
+    });
+  };
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 shadow-sm overflow-hidden">
+      <div className="px-6 py-4 border-b border-gray-100">
+        <h2 className="text-lg font-semibold text-gray-900">{title}</h2>
+        <p className="text-sm text-gray-500 mt-0.5">
+          Saving creates a new version. Events whose tasks were generated from an older version keep it until
+          their timeline is recomputed.
+        </p>
+      </div>
+
+      <div className="px-6 py-5 space-y-6">
+        {/* Name & priority */}
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <label className="sm:col-span-2 text-sm">
+            <span className="block font-medium text-gray-700 mb-1">Name</span>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Schulsong only"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#94B8B3]"
+            />
+          </label>
+          <label className="text-sm">
+            <span className="block font-medium text-gray-700 mb-1">Priority</span>
+            <input
+              type="number"
+              value={priority}
+              onChange={(e) => setPriority(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#94B8B3]"
+            />
+          </label>
+        </div>
+
+        {/* Conditions */}
+        <div>
+          <h3 className="text-sm font-semibold text-gray-900">Applies to</h3>
+          <p className="text-xs text-gray-500 mb-3">
+            Leave a condition empty to match any event. When several templates match, the highest priority wins.
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+            <div>
+              <span className="block font-medium text-gray-700 mb-1">Event tier</span>
+              <div className="flex flex-wrap gap-3">
+                {TIER_OPTIONS.map((option) => (
+                  <label key={option.value} className="flex items-center gap-1.5 text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={conditions.tiers?.includes(option.value) ?? false}
+                      onChange={() => toggleTier(option.value)}
+                      className="rounded border-gray-300"
+                    />
+                    {option.label}
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <label>
+                <span className="block font-medium text-gray-700 mb-1">Schulsong</span>
+                <select
+                  value={toTriState(conditions.isSchulsong)}
+                  onChange={(e) => setConditions({ ...conditions, isSchulsong: fromTriState(e.target.value as TriState) })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+                >
+                  <option value="any">Any</option>
+                  <option value="yes">Yes</option>
+                  <option value="no">No</option>
+                </select>
+              </label>
+              <label>
+                <span className="block font-medium text-gray-700 mb-1">SCS clothing</span>
+                <select
+                  value={toTriState(conditions.isScs)}
+                  onChange={(e) => setConditions({ ...conditions, isScs: fromTriState(e.target.value as TriState) })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+                >
+                  <option value="any">Any</option>
+                  <option value="yes">Yes</option>
+                  <option value="no">No</option>
+                </select>
+              </label>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <label>
+                <span className="block font-medium text-gray-700 mb-1">Min. children</span>
+                <input
+                  type="number"
+                  min={0}
+                  value={conditions.minChildren ?? ''}
+                  onChange={(e) => setConditions({ ...conditions, minChildren: parseCount(e.target.value) })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+                />
+              </label>
+              <label>
+                <span className="block font-medium text-gray-700 mb-1">Max. children</span>
+                <input
+                  type="number"
+                  min={0}
+                  value={conditions.maxChildren ?? ''}
+                  onChange={(e) => setConditions({ ...conditions, maxChildren: parseCount(e.target.value) })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+                />
+              </label>
+            </div>
+          </div>
+        </div>
+
+        {/* Tasks */}
+        <div>
+          <h3 className="text-sm font-semibold text-gray-900">Tasks</h3>
+          <p className="text-xs text-gray-500 mb-3">
+            Offsets are days relative to the event (negative = before).
+          </p>
+          <div className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+            {TASK_TIMELINE.map((entry) => {
+              const isIncluded = included.has(entry.id);
+              return (
+                <div
+                  key={entry.id}
+                  className={cn('flex items-center gap-4 px-4 py-2.5', !isIncluded && 'opacity-50')}
+                >
+                  <input
+                    type="checkbox"
+                    checked={isIncluded}
+                    onChange={() => toggleTask(entry.id)}
+                    className="rounded border-gray-300"
+                    aria-label={`Include ${entry.displayName}`}
+                  />
+                  <div className="flex-1 min-w-0">
+                    <p className={cn('text-sm font-medium', PREFIX_STYLES[entry.prefix].text)}>
+                      {entry.displayName}
+                    </p>
+                    <p className="text-xs text-gray-500 truncate">{entry.description}</p>
+                  </div>
+                  <div className="flex items-center gap-2 text-sm text-gray-500">
+                    <input
+                      type="number"
+                      value={offsets[entry.id]}
+                      disabled={!isIncluded}
+                      onChange={(e) => setOffsets({ ...offsets, [entry.id]: e.target.value })}
+                      className="w-20 px-2 py-1 border border-gray-300 rounded text-right"
+                      aria-label={`Offset for ${entry.displayName}`}
+                    />
+                    days
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+
+      <div className="px-6 py-4 border-t border-gray-100 flex items-center justify-between gap-4">
+        <p className="text-sm text-red-600">{validationError}</p>
+        <div className="flex gap-3">
+          <button
+            onClick={onCancel}
+            disabled={isSaving}
+            className="px-4 py-2 text-sm border border-gray-200 rounded-lg text-gray-600 hover:bg-gray-50 disabled:opacity-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onSave(input)}
+            disabled={isSaving || validationError !== null}
+            className="px-4 py-2 text-sm bg-[#94B8B3] text-white rounded-lg hover:bg-[#7da39e] disabled:opacity-50"
+          >
+            {isSaving ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -3,6 +3,7 @@
 import { useState, useEffect, useCallback } from 'react';
 import { cn } from '@/lib/utils';
 import { parseJsonOrThrow } from '@/lib/api/parseResponse';
+import { waitForJob } from '@/lib/api/waitForJob';
 
 // ---------------------------------------------------------------------------
 // Types
@@ -134,14 +135,20 @@ export default function WelleCompletion({
       const data = await parseJsonOrThrow<{
         success: boolean;
         error?: string;
-        data: FulfillmentResult;
+        data: { jobId: string };
       }>(res);
 
       if (!data.success) {
         throw new Error(data.error || 'Fulfillment failed');
       }
 
-      const result: FulfillmentResult = data.data;
+      // Fulfillment runs as a background job - wait for its summary
+      const job = await waitForJob<FulfillmentResult>(data.data.jobId);
+      if (!job.result) {
+        throw new Error(job.lastError || 'Fulfillment failed');
+      }
+
+      const result: FulfillmentResult = job.result;
       setFulfillmentResult(result);
 
       // If all succeeded, auto-complete the task
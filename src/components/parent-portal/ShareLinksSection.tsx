@@ -0,0 +1,251 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useTranslations, useLocale } from 'next-intl';
+
+type ShareLinkStatus = 'active' | 'expired' | 'exhausted' | 'revoked';
+
+interface ShareLink {
+  id: string;
+  label: string;
+  expiresAt: string;
+  maxPlays: number;
+  playCount: number;
+  downloadCount: number;
+  lastPlayedAt?: string;
+  createdAt: string;
+  status: ShareLinkStatus;
+  remainingPlays: number;
+  url?: string;
+}
+
+interface ShareLinksSectionProps {
+  eventId: string;
+  classId: string;
+}
+
+const STATUS_STYLES: Record<ShareLinkStatus, string> = {
+  active: 'bg-sage-100 text-sage-700',
+  expired: 'bg-gray-100 text-gray-600',
+  exhausted: 'bg-gray-100 text-gray-600',
+  revoked: 'bg-red-50 text-red-600',
+};
+
+/**
+ * Time-limited links for relatives to listen to the event's recordings
+ */
+export default function ShareLinksSection({ eventId, classId }: ShareLinksSectionProps) {
+  const t = useTranslations('parentPortal.shareLinks');
+  const locale = useLocale();
+  const [links, setLinks] = useState<ShareLink[]>([]);
+  const [canShare, setCanShare] = useState(false);
+  const [validityOptions, setValidityOptions] = useState<number[]>([]);
+  const [playLimitOptions, setPlayLimitOptions] = useState<number[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [label, setLabel] = useState('');
+  const [validityDays, setValidityDays] = useState<number | null>(null);
+  const [maxPlays, setMaxPlays] = useState<number | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  const fetchLinks = useCallback(async () => {
+    try {
+      const response = await fetch(
+        `/api/parent/share-links?eventId=${encodeURIComponent(eventId)}`,
+        { credentials: 'include' }
+      );
+      if (!response.ok) {
+        throw new Error('Failed to fetch share links');
+      }
+
+      const data = await response.json();
+      if (data.success) {
+        setLinks(data.data.links || []);
+        setCanShare(data.data.canShare);
+        setValidityOptions(data.data.validityDays || []);
+        setPlayLimitOptions(data.data.playLimits || []);
+        setValidityDays((current) => current ?? data.data.validityDays?.[1] ?? null);
+        setMaxPlays((current) => current ?? data.data.playLimits?.[1] ?? null);
+      }
+    } catch (err) {
+      console.error('Error fetching share links:', err);
+      setError(t('loadError'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [eventId, t]);
+
+  useEffect(() => {
+    fetchLinks();
+  }, [fetchLinks]);
+
+  const formatDate = (value: string) =>
+    new Date(value).toLocaleDateString(locale === 'de' ? 'de-DE' : 'en-GB', {
+      day: 'numeric',
+      month: 'long',
+      year: 'numeric',
+    });
+
+  const handleCreate = async () => {
+    if (!label.trim() || !validityDays || !maxPlays) return;
+
+    setIsCreating(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/parent/share-links', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ eventId, classId, label: label.trim(), validityDays, maxPlays }),
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || t('createFailed'));
+      }
+
+      setLabel('');
+      setLinks((current) => [data.data.link, ...current]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('createFailed'));
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleRevoke = async (link: ShareLink) => {
+    if (!confirm(t('revokeConfirm', { label: link.label }))) return;
+
+    try {
+      const response = await fetch(`/api/parent/share-links/${link.id}`, {
+        method: 'DELETE',
+        credentials: 'include',
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || t('revokeFailed'));
+      }
+      setLinks((current) => current.map((entry) => (entry.id === link.id ? data.data.link : entry)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('revokeFailed'));
+    }
+  };
+
+  const handleCopy = async (link: ShareLink) => {
+    if (!link.url) return;
+    try {
+      await navigator.clipboard.writeText(link.url);
+      setCopiedId(link.id);
+      setTimeout(() => setCopiedId(null), 2000);
+    } catch {
+      window.prompt(t('copyPrompt'), link.url);
+    }
+  };
+
+  if (isLoading || (!canShare && links.length === 0)) {
+    return null;
+  }
+
+  return (
+    <section className="bg-white pb-8 sm:pb-12">
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="border border-gray-200 rounded-xl p-4 sm:p-6">
+          <h3 className="text-lg font-bold text-gray-900">{t('title')}</h3>
+          <p className="text-sm text-gray-500 mt-1">{t('subtitle')}</p>
+
+          {error && (
+            <div className="mt-4 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+              {error}
+            </div>
+          )}
+
+          {canShare && (
+            <div className="mt-4 grid gap-3 sm:grid-cols-[1fr_auto_auto_auto] sm:items-end">
+              <label className="block text-sm">
+                <span className="text-gray-700">{t('labelLabel')}</span>
+                <input
+                  type="text"
+                  value={label}
+                  maxLength={60}
+                  onChange={(e) => setLabel(e.target.value)}
+                  placeholder={t('labelPlaceholder')}
+                  className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2 text-sm"
+                />
+              </label>
+              <label className="block text-sm">
+                <span className="text-gray-700">{t('validityLabel')}</span>
+                <select
+                  value={validityDays ?? ''}
+                  onChange={(e) => setValidityDays(Number(e.target.value))}
+                  className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2 text-sm"
+                >
+                  {validityOptions.map((days) => (
+                    <option key={days} value={days}>
+                      {t('validityDays', { days })}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="block text-sm">
+                <span className="text-gray-700">{t('playLimitLabel')}</span>
+                <select
+                  value={maxPlays ?? ''}
+                  onChange={(e) => setMaxPlays(Number(e.target.value))}
+                  className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2 text-sm"
+                >
+                  {playLimitOptions.map((plays) => (
+                    <option key={plays} value={plays}>
+                      {t('playLimit', { plays })}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <button
+                onClick={handleCreate}
+                disabled={isCreating || !label.trim()}
+                className="rounded-lg bg-sage-600 px-4 py-2 text-sm font-medium text-white hover:bg-sage-700 disabled:opacity-50"
+              >
+                {isCreating ? t('creating') : t('create')}
+              </button>
+            </div>
+          )}
+
+          {links.length > 0 && (
+            <ul className="mt-6 divide-y divide-gray-100">
+              {links.map((link) => (
+                <li key={link.id} className="flex flex-wrap items-center justify-between gap-3 py-3">
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium text-gray-900">{link.label}</span>
+                      <span className={`text-xs font-medium px-2 py-0.5 rounded-full ${STATUS_STYLES[link.status]}`}>
+                        {t(`status.${link.status}`)}
+                      </span>
+                    </div>
+                    <p className="text-xs text-gray-500 mt-1">
+                      {t('usage', { plays: link.playCount, downloads: link.downloadCount, max: link.maxPlays })}
+                      {' · '}
+                      {link.status === 'active'
+                        ? t('validUntil', { date: formatDate(link.expiresAt) })
+                        : t('createdOn', { date: formatDate(link.createdAt) })}
+                    </p>
+                  </div>
+                  {link.status === 'active' && (
+                    <div className="flex gap-3 text-sm">
+                      <button onClick={() => handleCopy(link)} className="text-sage-700 hover:underline">
+                        {copiedId === link.id ? t('copied') : t('copy')}
+                      </button>
+                      <button onClick={() => handleRevoke(link)} className="text-red-600 hover:underline">
+                        {t('revoke')}
+                      </button>
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </section>
+  );
+}
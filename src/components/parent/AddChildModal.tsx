@@ -2,6 +2,8 @@
 
 import { useState, useEffect } from 'react';
 import { useTranslations } from 'next-intl';
+import ConsentCheckboxes from '@/components/registration/ConsentCheckboxes';
+import type { ConsentScope } from '@/lib/types/airtable';
 
 interface AddChildModalProps {
   eventId: string;
@@ -24,6 +26,11 @@ export default function AddChildModal({
   const [error, setError] = useState('');
   const [duplicateWarning, setDuplicateWarning] = useState<string | null>(null);
   const [confirmDuplicate, setConfirmDuplicate] = useState(false);
+  const [consents, setConsents] = useState<Record<ConsentScope, boolean>>({
+    audio_recording: false,
+    name_on_print: false,
+    album_download: false,
+  });
 
   // Check for similar names when child name changes
   useEffect(() => {
@@ -81,6 +88,7 @@ export default function AddChildModal({
           eventId,
           classId,
           childName: trimmedName,
+          consents,
         }),
       });
 
@@ -106,7 +114,7 @@ export default function AddChildModal({
 
   return (
     <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
-      <div className="bg-white rounded-xl max-w-md w-full p-6">
+      <div className="bg-white rounded-xl max-w-md w-full p-6 max-h-[90vh] overflow-y-auto">
         <div className="flex justify-between items-center mb-4">
           <h3 className="text-lg font-semibold text-gray-900">{t('addChild')}</h3>
           <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
@@ -137,6 +145,15 @@ export default function AddChildModal({
             />
           </div>
 
+          <div>
+            <p className="block text-sm font-medium text-gray-700 mb-1">{t('consentTitle')}</p>
+            <ConsentCheckboxes
+              idPrefix="add-child-consent"
+              value={consents}
+              onChange={(scope, granted) => setConsents({ ...consents, [scope]: granted })}
+            />
+          </div>
+
           {/* Duplicate Warning */}
           {duplicateWarning && !confirmDuplicate && (
             <div className="bg-amber-50 border border-amber-200 rounded-lg p-4">
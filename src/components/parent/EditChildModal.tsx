@@ -2,10 +2,14 @@
 
 import { useState } from 'react';
 import { useTranslations } from 'next-intl';
+import ConsentCheckboxes from '@/components/registration/ConsentCheckboxes';
+import type { ConsentScope } from '@/lib/types/airtable';
+import type { ChildConsents } from '@/lib/utils/childConsent';
 
 interface EditChildModalProps {
   registrationId: string;
   currentName: string;
+  currentConsents?: ChildConsents;
   onClose: () => void;
   onSuccess: () => void;
 }
@@ -13,11 +17,17 @@ interface EditChildModalProps {
 export default function EditChildModal({
   registrationId,
   currentName,
+  currentConsents,
   onClose,
   onSuccess,
 }: EditChildModalProps) {
   const t = useTranslations('parentPortal.manageChildren');
   const [childName, setChildName] = useState(currentName);
+  const [consents, setConsents] = useState<Record<ConsentScope, boolean>>({
+    audio_recording: !!currentConsents?.audio_recording?.granted,
+    name_on_print: !!currentConsents?.name_on_print?.granted,
+    album_download: !!currentConsents?.album_download?.granted,
+  });
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState('');
 
@@ -35,8 +45,15 @@ export default function EditChildModal({
       return;
     }
 
+    // Consents can only be stored where the registration tracks them
+    const consentsChanged =
+      !!currentConsents &&
+      (Object.keys(consents) as ConsentScope[]).some(
+        (scope) => consents[scope] !== !!currentConsents[scope]?.granted
+      );
+
     // No change
-    if (trimmedName === currentName) {
+    if (trimmedName === currentName && !consentsChanged) {
       onClose();
       return;
     }
@@ -50,7 +67,8 @@ export default function EditChildModal({
         headers: { 'Content-Type': 'application/json' },
         credentials: 'include',
         body: JSON.stringify({
-          childName: trimmedName,
+          childName: trimmedName !== currentName ? trimmedName : undefined,
+          consents: consentsChanged ? consents : undefined,
         }),
       });
 
@@ -71,7 +89,7 @@ export default function EditChildModal({
 
   return (
     <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
-      <div className="bg-white rounded-xl max-w-md w-full p-6">
+      <div className="bg-white rounded-xl max-w-md w-full p-6 max-h-[90vh] overflow-y-auto">
         <div className="flex justify-between items-center mb-4">
           <h3 className="text-lg font-semibold text-gray-900">{t('editChild')}</h3>
           <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
@@ -102,6 +120,17 @@ export default function EditChildModal({
             />
           </div>
 
+          {currentConsents && (
+            <div>
+              <p className="block text-sm font-medium text-gray-700 mb-1">{t('consentTitle')}</p>
+              <ConsentCheckboxes
+                idPrefix="edit-child-consent"
+                value={consents}
+                onChange={(scope, granted) => setConsents({ ...consents, [scope]: granted })}
+              />
+            </div>
+          )}
+
           <div className="flex gap-3 pt-2">
             <button
               type="button"
@@ -1,16 +1,19 @@
 'use client';
 
 import { useState, useEffect, useCallback } from 'react';
-import { useTranslations } from 'next-intl';
+import { useTranslations, useLocale } from 'next-intl';
 import AddChildModal from './AddChildModal';
 import EditChildModal from './EditChildModal';
 import EditProfileModal from './EditProfileModal';
+import type { ChildConsents } from '@/lib/utils/childConsent';
+import { CONSENT_SCOPES, getConsentText } from '@/lib/config/consentTexts';
 
 interface ChildRegistration {
   registrationId: string;
   childName: string;
   classId: string;
   className?: string;
+  consents?: ChildConsents;
 }
 
 interface ManageChildrenProps {
@@ -31,6 +34,7 @@ export default function ManageChildren({
   onDataChange,
 }: ManageChildrenProps) {
   const t = useTranslations('parentPortal.manageChildren');
+  const locale = useLocale();
   const [children, setChildren] = useState<ChildRegistration[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -187,6 +191,23 @@ export default function ManageChildren({
                       {child.className && (
                         <p className="text-sm text-gray-500">{child.className}</p>
                       )}
+                      {child.consents && (
+                        <div className="flex flex-wrap gap-1 mt-1">
+                          {CONSENT_SCOPES.map((scope) => (
+                            <span
+                              key={scope}
+                              className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs ${
+                                child.consents?.[scope]?.granted
+                                  ? 'bg-sage-100 text-sage-700'
+                                  : 'bg-gray-200 text-gray-500 line-through'
+                              }`}
+                              title={child.consents?.[scope]?.granted ? t('consentGranted') : t('consentNotGranted')}
+                            >
+                              {getConsentText(scope, locale).label}
+                            </span>
+                          ))}
+                        </div>
+                      )}
                     </div>
                   </div>
 
@@ -246,6 +267,7 @@ export default function ManageChildren({
         <EditChildModal
           registrationId={editingChild.registrationId}
           currentName={editingChild.childName}
+          currentConsents={editingChild.consents}
           onClose={() => setEditingChild(null)}
           onSuccess={handleEditSuccess}
         />
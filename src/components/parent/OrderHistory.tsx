@@ -0,0 +1,334 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useTranslations, useLocale } from 'next-intl';
+
+interface OrderTracking {
+  company?: string;
+  number?: string;
+  url?: string;
+  shippedAt: string;
+}
+
+interface ExchangeRequest {
+  requested_size: string;
+  status: 'open' | 'done';
+}
+
+interface OrderItem {
+  variantId: string;
+  productTitle: string;
+  variantTitle?: string;
+  quantity: number;
+  total: number;
+  wave: 'Welle 1' | 'Welle 2' | 'Both' | 'Rolling' | null;
+  expectedShipDate?: string;
+  clothing?: {
+    type: 'tshirt' | 'hoodie';
+    size: string;
+    exchangeSizes: string[];
+  };
+  exchangeRequest?: ExchangeRequest;
+}
+
+interface Order {
+  recordId: string;
+  orderNumber: string;
+  orderDate: string;
+  totalAmount: number;
+  paymentStatus: string;
+  fulfillmentStatus: string;
+  items: OrderItem[];
+  tracking: OrderTracking[];
+}
+
+interface OrderHistoryProps {
+  eventId: string;
+}
+
+export default function OrderHistory({ eventId }: OrderHistoryProps) {
+  const t = useTranslations('parentPortal.orderHistory');
+  const locale = useLocale();
+  const [orders, setOrders] = useState<Order[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Size exchange modal
+  const [exchangeTarget, setExchangeTarget] = useState<{ order: Order; item: OrderItem } | null>(null);
+  const [requestedSize, setRequestedSize] = useState('');
+  const [note, setNote] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [exchangeError, setExchangeError] = useState<string | null>(null);
+
+  const fetchOrders = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const response = await fetch(
+        `/api/parent/orders?eventId=${encodeURIComponent(eventId)}`,
+        { credentials: 'include' }
+      );
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch orders');
+      }
+
+      const data = await response.json();
+      if (data.success) {
+        setOrders(data.data.orders || []);
+      }
+    } catch (err) {
+      console.error('Error fetching orders:', err);
+      setError(t('loadError'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [eventId, t]);
+
+  useEffect(() => {
+    fetchOrders();
+  }, [fetchOrders]);
+
+  const formatDate = (value: string) =>
+    new Date(value).toLocaleDateString(locale === 'de' ? 'de-DE' : 'en-GB', {
+      day: 'numeric',
+      month: 'long',
+      year: 'numeric',
+    });
+
+  const formatPrice = (value: number) =>
+    new Intl.NumberFormat(locale === 'de' ? 'de-DE' : 'en-GB', { style: 'currency', currency: 'EUR' }).format(value);
+
+  const openExchange = (order: Order, item: OrderItem) => {
+    setExchangeTarget({ order, item });
+    setRequestedSize(item.clothing?.exchangeSizes[0] || '');
+    setNote('');
+    setExchangeError(null);
+  };
+
+  const handleSubmitExchange = async () => {
+    if (!exchangeTarget || !requestedSize) return;
+
+    setIsSubmitting(true);
+    setExchangeError(null);
+    try {
+      const response = await fetch(
+        `/api/parent/orders/${exchangeTarget.order.recordId}/size-exchange`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          credentials: 'include',
+          body: JSON.stringify({
+            variantId: exchangeTarget.item.variantId,
+            requestedSize,
+            note: note.trim() || undefined,
+          }),
+        }
+      );
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || t('exchangeFailed'));
+      }
+
+      setExchangeTarget(null);
+      fetchOrders();
+    } catch (err) {
+      setExchangeError(err instanceof Error ? err.message : t('exchangeFailed'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const renderShipping = (order: Order, item: OrderItem) => {
+    if (!item.wave) {
+      return <span className="text-gray-500">{t('digital')}</span>;
+    }
+    if (order.tracking.length > 0 || order.fulfillmentStatus === 'fulfilled') {
+      return <span className="text-green-700">{t('shipped')}</span>;
+    }
+    if (item.expectedShipDate) {
+      return (
+        <span className="text-gray-600">
+          {t('shipsInWave', { wave: item.wave, date: formatDate(item.expectedShipDate) })}
+        </span>
+      );
+    }
+    return <span className="text-gray-600">{t('shipsSoon')}</span>;
+  };
+
+  if (isLoading) {
+    return (
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+        <div className="animate-pulse">
+          <div className="h-6 bg-gray-200 rounded w-1/3 mb-4"></div>
+          <div className="space-y-3">
+            <div className="h-12 bg-gray-100 rounded"></div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  // Nothing to show for parents who have not ordered yet
+  if (orders.length === 0 && !error) {
+    return null;
+  }
+
+  return (
+    <>
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-gray-100">
+          <h3 className="text-lg font-semibold text-gray-900">{t('title')}</h3>
+          <p className="text-sm text-gray-500 mt-0.5">{t('subtitle')}</p>
+        </div>
+
+        {/* Error */}
+        {error && (
+          <div className="mx-6 mt-4 bg-red-50 border border-red-200 rounded-lg p-3">
+            <p className="text-sm text-red-600">{error}</p>
+          </div>
+        )}
+
+        {/* Orders */}
+        <div className="p-6 space-y-4">
+          {orders.map((order) => (
+            <div key={order.recordId} className="border border-gray-100 rounded-lg">
+              <div className="flex flex-wrap items-center justify-between gap-2 px-4 py-3 bg-gray-50 rounded-t-lg">
+                <div>
+                  <p className="font-medium text-gray-900">{t('orderNumber', { number: order.orderNumber })}</p>
+                  {order.orderDate && (
+                    <p className="text-sm text-gray-500">{t('orderedOn', { date: formatDate(order.orderDate) })}</p>
+                  )}
+                </div>
+                <p className="font-medium text-gray-900">{formatPrice(order.totalAmount)}</p>
+              </div>
+
+              <ul className="divide-y divide-gray-100">
+                {order.items.map((item) => (
+                  <li key={item.variantId} className="px-4 py-3 flex flex-wrap items-start justify-between gap-2">
+                    <div>
+                      <p className="text-gray-900">
+                        {item.quantity}× {item.productTitle}
+                        {item.variantTitle && <span className="text-gray-500"> ({item.variantTitle})</span>}
+                      </p>
+                      <p className="text-sm">{renderShipping(order, item)}</p>
+                      {item.exchangeRequest && (
+                        <p className="text-sm text-sage-700 mt-1">
+                          {item.exchangeRequest.status === 'open'
+                            ? t('exchangeRequested', { size: item.exchangeRequest.requested_size })
+                            : t('exchangeDone', { size: item.exchangeRequest.requested_size })}
+                        </p>
+                      )}
+                    </div>
+                    {item.clothing &&
+                      order.paymentStatus === 'paid' &&
+                      item.clothing.exchangeSizes.length > 0 &&
+                      item.exchangeRequest?.status !== 'open' && (
+                        <button
+                          onClick={() => openExchange(order, item)}
+                          className="text-sm text-sage-600 hover:text-sage-700 underline"
+                        >
+                          {t('requestExchange')}
+                        </button>
+                      )}
+                  </li>
+                ))}
+              </ul>
+
+              {order.tracking.length > 0 && (
+                <div className="px-4 py-3 border-t border-gray-100 space-y-1">
+                  {order.tracking.map((tracking, index) => (
+                    <p key={index} className="text-sm text-gray-600">
+                      {t('shippedOn', { date: formatDate(tracking.shippedAt) })}
+                      {tracking.company && ` · ${tracking.company}`}
+                      {tracking.url ? (
+                        <>
+                          {' · '}
+                          <a
+                            href={tracking.url}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-sage-600 hover:text-sage-700 underline"
+                          >
+                            {t('trackShipment')}
+                          </a>
+                        </>
+                      ) : (
+                        tracking.number && ` · ${tracking.number}`
+                      )}
+                    </p>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Size Exchange Modal */}
+      {exchangeTarget && exchangeTarget.item.clothing && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-xl max-w-md w-full p-6">
+            <h3 className="text-lg font-semibold text-gray-900">{t('exchangeTitle')}</h3>
+            <p className="text-sm text-gray-500 mt-1 mb-4">
+              {t('exchangeMessage', {
+                product: exchangeTarget.item.productTitle,
+                size: exchangeTarget.item.clothing.size,
+              })}
+            </p>
+
+            <label className="block text-sm font-medium text-gray-700 mb-1" htmlFor="exchange-size">
+              {t('newSizeLabel')}
+            </label>
+            <select
+              id="exchange-size"
+              value={requestedSize}
+              onChange={(e) => setRequestedSize(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-200 rounded-lg mb-4 focus:outline-none focus:ring-2 focus:ring-sage-500"
+            >
+              {exchangeTarget.item.clothing.exchangeSizes.map((size) => (
+                <option key={size} value={size}>
+                  {size}
+                </option>
+              ))}
+            </select>
+
+            <label className="block text-sm font-medium text-gray-700 mb-1" htmlFor="exchange-note">
+              {t('noteLabel')}
+            </label>
+            <textarea
+              id="exchange-note"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              maxLength={500}
+              rows={3}
+              placeholder={t('notePlaceholder')}
+              className="w-full px-3 py-2 border border-gray-200 rounded-lg mb-4 focus:outline-none focus:ring-2 focus:ring-sage-500"
+            />
+
+            {exchangeError && <p className="text-sm text-red-600 mb-4">{exchangeError}</p>}
+
+            <div className="flex gap-3">
+              <button
+                onClick={() => setExchangeTarget(null)}
+                disabled={isSubmitting}
+                className="flex-1 px-4 py-2 border border-gray-200 rounded-lg text-gray-600 hover:bg-gray-50 transition-colors disabled:opacity-50"
+              >
+                {t('cancel')}
+              </button>
+              <button
+                onClick={handleSubmitExchange}
+                disabled={isSubmitting || !requestedSize}
+                className="flex-1 px-4 py-2 bg-sage-600 text-white rounded-lg hover:bg-sage-700 transition-colors disabled:opacity-50"
+              >
+                {isSubmitting ? t('submitting') : t('submitExchange')}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
@@ -2,3 +2,4 @@ export { default as ManageChildren } from './ManageChildren';
 export { default as AddChildModal } from './AddChildModal';
 export { default as EditChildModal } from './EditChildModal';
 export { default as EditProfileModal } from './EditProfileModal';
+export { default as OrderHistory } from './OrderHistory';
@@ -0,0 +1,42 @@
+'use client';
+
+import { useLocale } from 'next-intl';
+import type { ConsentScope } from '@/lib/types/airtable';
+import { CONSENT_SCOPES, getConsentText } from '@/lib/config/consentTexts';
+
+interface ConsentCheckboxesProps {
+  idPrefix: string;
+  value: Record<ConsentScope, boolean>;
+  onChange: (scope: ConsentScope, granted: boolean) => void;
+}
+
+/**
+ * One opt-in checkbox per consent scope, worded with the current consent
+ * text version
+ */
+export default function ConsentCheckboxes({ idPrefix, value, onChange }: ConsentCheckboxesProps) {
+  const locale = useLocale();
+
+  return (
+    <div className="space-y-2">
+      {CONSENT_SCOPES.map((scope) => {
+        const { label, text } = getConsentText(scope, locale);
+        const id = `${idPrefix}-${scope}`;
+        return (
+          <div key={scope} className="flex items-start gap-3 min-h-[44px] py-1">
+            <input
+              type="checkbox"
+              id={id}
+              checked={value[scope]}
+              onChange={(e) => onChange(scope, e.target.checked)}
+              className="mt-0.5 h-5 w-5 rounded border-gray-300 text-primary focus:ring-primary cursor-pointer"
+            />
+            <label htmlFor={id} className="text-sm text-gray-700 cursor-pointer">
+              <span className="font-medium text-gray-900">{label}:</span> {text}
+            </label>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -1,7 +1,6 @@
 'use client';
 
 import { useState } from 'react';
-import { useRouter } from 'next/navigation';
 import { useTranslations } from 'next-intl';
 import LoadingSpinner from '@/components/shared/LoadingSpinner';
 import { validateEmail } from '@/lib/utils/validators';
@@ -38,7 +37,6 @@ export default function EmailCheckStep({
   onEmailVerified,
   onBack,
 }: EmailCheckStepProps) {
-  const router = useRouter();
   const t = useTranslations('parentPortal.emailCheck');
   const [email, setEmail] = useState('');
   const [isChecking, setIsChecking] = useState(false);
@@ -94,6 +92,7 @@ export default function EmailCheckStep({
   };
 
   const [isRedirecting, setIsRedirecting] = useState(false);
+  const [loginLinkSent, setLoginLinkSent] = useState(false);
 
   const handleGoToPortal = async () => {
     setIsRedirecting(true);
@@ -108,14 +107,15 @@ export default function EmailCheckStep({
       });
 
       if (response.ok) {
-        router.push('/familie');
+        // Portal access requires the emailed magic link
+        setLoginLinkSent(true);
       } else {
         setError(t('loginFailed'));
-        setIsRedirecting(false);
       }
     } catch (err) {
-      console.error('Portal redirect login error:', err);
+      console.error('Portal login link error:', err);
       setError(t('genericError'));
+    } finally {
       setIsRedirecting(false);
     }
   };
@@ -167,14 +167,20 @@ export default function EmailCheckStep({
           </div>
         )}
 
+        {loginLinkSent && (
+          <div className="bg-green-50 border border-green-200 rounded-lg p-3">
+            <p className="text-sm text-green-700">{t('loginLinkSent', { email: email.trim().toLowerCase() })}</p>
+          </div>
+        )}
+
         <div className="flex flex-col gap-3">
           <button
             onClick={handleGoToPortal}
-            disabled={isRedirecting}
+            disabled={isRedirecting || loginLinkSent}
             className="w-full px-6 py-3 bg-primary text-white rounded-lg hover:bg-primary/90 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
           >
             {isRedirecting && <LoadingSpinner size="sm" />}
-            {isRedirecting ? t('redirecting') : t('goToPortal')}
+            {isRedirecting ? t('checking') : t('sendLoginLink')}
           </button>
           <button
             onClick={handleContinueAnyway}
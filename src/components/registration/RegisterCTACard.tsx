@@ -1,7 +1,6 @@
 'use client';
 
 import { useState } from 'react';
-import { useRouter } from 'next/navigation';
 import { useTranslations } from 'next-intl';
 import LoadingSpinner from '@/components/shared/LoadingSpinner';
 
@@ -11,13 +10,13 @@ interface RegisterCTACardProps {
 
 export default function RegisterCTACard({ onRegisterClick }: RegisterCTACardProps) {
   const t = useTranslations('registration.page');
-  const router = useRouter();
 
   // Login section state
   const [showLoginSection, setShowLoginSection] = useState(false);
   const [loginEmail, setLoginEmail] = useState('');
   const [loginLoading, setLoginLoading] = useState(false);
   const [loginError, setLoginError] = useState<string | null>(null);
+  const [loginLinkSentTo, setLoginLinkSentTo] = useState<string | null>(null);
 
   // Basic email validation
   const isValidEmail = (email: string) => {
@@ -27,6 +26,7 @@ export default function RegisterCTACard({ onRegisterClick }: RegisterCTACardProp
   const handleLoginSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoginError(null);
+    setLoginLinkSentTo(null);
     setLoginLoading(true);
 
     try {
@@ -42,8 +42,8 @@ export default function RegisterCTACard({ onRegisterClick }: RegisterCTACardProp
       const data = await response.json();
 
       if (response.ok && data.success) {
-        // Successfully logged in - redirect to familie portal
-        router.push('/familie');
+        // Magic link sent - the session is created once the parent opens it
+        setLoginLinkSentTo(data.data?.email || loginEmail.trim().toLowerCase());
       } else if (response.status === 404) {
         // Email not found
         setLoginError(t('loginNotFound'));
@@ -108,6 +108,12 @@ export default function RegisterCTACard({ onRegisterClick }: RegisterCTACardProp
                 </div>
               )}
 
+              {loginLinkSentTo && (
+                <div className="bg-green-50 border border-green-200 text-green-700 px-3 py-2 rounded-md text-sm">
+                  {t('loginLinkSent', { email: loginLinkSentTo })}
+                </div>
+              )}
+
               <div>
                 <label htmlFor="login-email" className="block text-sm font-medium text-[#6b8a85] mb-1">
                   {t('loginEmail')}
@@ -4,6 +4,7 @@ import { useState, useRef, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import { useTranslations } from 'next-intl';
 import ChildInputRow from './ChildInputRow';
+import ConsentCheckboxes from './ConsentCheckboxes';
 import LoadingSpinner from '@/components/shared/LoadingSpinner';
 import { RegistrationData, ChildRegistrationData } from '@/lib/types/registration';
 import {
@@ -13,6 +14,7 @@ import {
   checkDuplicateChildren,
 } from '@/lib/validators/registrationValidators';
 import { validateEmail } from '@/lib/utils/validators';
+import type { ConsentScope } from '@/lib/types/airtable';
 
 interface ExistingChild {
   name: string;
@@ -93,11 +95,17 @@ export default function RegistrationForm({
   const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
   const [termsAccepted, setTermsAccepted] = useState(false);
   const [privacyAccepted, setPrivacyAccepted] = useState(false);
+  const [consents, setConsents] = useState<Record<ConsentScope, boolean>>({
+    audio_recording: false,
+    name_on_print: false,
+    album_download: false,
+  });
 
   // Success screen state (Fix 5+10)
   const [isSuccess, setIsSuccess] = useState(false);
   const [registeredChildNames, setRegisteredChildNames] = useState<string[]>([]);
   const [showManualPortalLink, setShowManualPortalLink] = useState(false);
+  const [magicLinkSent, setMagicLinkSent] = useState(false);
   const redirectUrlRef = useRef<string>('/familie');
 
   const storageKey = getStorageKey(eventId, classId);
@@ -260,6 +268,7 @@ export default function RegistrationForm({
         ...formData,
         eventId,
         classId,
+        consents,
       };
 
       const response = await fetch('/api/auth/parent-register', {
@@ -284,6 +293,12 @@ export default function RegistrationForm({
       setIsSuccess(true);
       setIsSubmitting(false);
 
+      // Existing account: no session was created, the parent logs in via the emailed link
+      if (result.data.magicLinkSent) {
+        setMagicLinkSent(true);
+        return;
+      }
+
       // Redirect after 2s (gives time to read confirmation)
       setTimeout(() => {
         router.push(url);
@@ -313,7 +328,9 @@ export default function RegistrationForm({
 
         <div>
           <h2 className="text-2xl font-bold text-gray-900 mb-2">{t('successTitle')}</h2>
-          <p className="text-gray-600">{t('successMessage')}</p>
+          <p className="text-gray-600">
+            {magicLinkSent ? t('successMagicLinkMessage') : t('successMessage')}
+          </p>
         </div>
 
         <div className="bg-gray-50 rounded-lg p-4 text-left space-y-2">
@@ -338,12 +355,14 @@ export default function RegistrationForm({
           </div>
         </div>
 
-        <div className="flex items-center justify-center gap-2 text-gray-500">
-          <LoadingSpinner size="sm" />
-          <p className="text-sm">{t('redirectingToPortal')}</p>
-        </div>
+        {!magicLinkSent && (
+          <div className="flex items-center justify-center gap-2 text-gray-500">
+            <LoadingSpinner size="sm" />
+            <p className="text-sm">{t('redirectingToPortal')}</p>
+          </div>
+        )}
 
-        {showManualPortalLink && (
+        {showManualPortalLink && !magicLinkSent && (
           <a
             href={redirectUrlRef.current}
             className="inline-block px-6 py-3 bg-primary text-white rounded-lg hover:bg-primary/90 transition-colors font-medium"
@@ -511,6 +530,17 @@ export default function RegistrationForm({
         </p>
       </div>
 
+      {/* Parental Consent Section */}
+      <div className="bg-white shadow rounded-lg p-6">
+        <h2 className="text-xl font-semibold text-gray-900 mb-2">{t('consentTitle')}</h2>
+        <p className="text-sm text-gray-600 mb-4">{t('consentIntro')}</p>
+        <ConsentCheckboxes
+          idPrefix="consent"
+          value={consents}
+          onChange={(scope, granted) => setConsents({ ...consents, [scope]: granted })}
+        />
+      </div>
+
       {/* Legal Consent Section */}
       <div className="space-y-4">
         {/* Terms Checkbox */}
@@ -0,0 +1,170 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import type { ConsentScope } from '@/lib/types/airtable';
+import type { ChildConsents } from '@/lib/utils/childConsent';
+import { CONSENT_SCOPES, getConsentText } from '@/lib/config/consentTexts';
+
+interface ChildConsentRow {
+  registrationId: string;
+  childName: string;
+  consents: ChildConsents;
+}
+
+interface ClassConsentList {
+  classId: string;
+  className: string;
+  children: ChildConsentRow[];
+}
+
+interface StaffConsentSectionProps {
+  eventId: string;
+}
+
+const SCOPE_LABELS: Record<ConsentScope, string> = {
+  audio_recording: getConsentText('audio_recording', 'en').label,
+  name_on_print: getConsentText('name_on_print', 'en').label,
+  album_download: getConsentText('album_download', 'en').label,
+};
+
+function ConsentBadge({ consent }: { consent: ChildConsents[ConsentScope] }) {
+  if (!consent) {
+    return (
+      <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-500">
+        Not asked
+      </span>
+    );
+  }
+
+  const title = `${new Date(consent.at).toLocaleDateString('de-DE')} · text version ${consent.version}`;
+  return consent.granted ? (
+    <span title={title} className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
+      Yes
+    </span>
+  ) : (
+    <span title={title} className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-700">
+      No
+    </span>
+  );
+}
+
+export default function StaffConsentSection({ eventId }: StaffConsentSectionProps) {
+  const [loading, setLoading] = useState(true);
+  const [classes, setClasses] = useState<ClassConsentList[]>([]);
+  const [expandedClassId, setExpandedClassId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchConsents = async () => {
+      try {
+        const response = await fetch(`/api/staff/events/${encodeURIComponent(eventId)}/consents`);
+        const data = await response.json();
+        setClasses(data.classes || []);
+      } catch (err) {
+        console.error('Error fetching consents:', err);
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchConsents();
+  }, [eventId]);
+
+  return (
+    <div className="mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold text-gray-900">Parental Consent</h2>
+        {classes.length > 0 && (
+          <Link
+            href={`/staff/events/${encodeURIComponent(eventId)}/name-list`}
+            target="_blank"
+            className="text-sm text-[#5a8a82] hover:text-[#4a7a72] hover:underline"
+          >
+            Print name list
+          </Link>
+        )}
+      </div>
+
+      {loading ? (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6 text-center text-gray-500">
+          Loading consents...
+        </div>
+      ) : classes.length === 0 ? (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6 text-center text-gray-600">
+          No children registered yet.
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {classes.map((cls) => {
+            const isExpanded = expandedClassId === cls.classId;
+            const withoutRecording = cls.children.filter((c) => !c.consents.audio_recording?.granted).length;
+            const withoutName = cls.children.filter((c) => !c.consents.name_on_print?.granted).length;
+            const withoutAlbum = cls.children.filter((c) => !c.consents.album_download?.granted).length;
+
+            return (
+              <div key={cls.classId} className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+                <button
+                  onClick={() => setExpandedClassId(isExpanded ? null : cls.classId)}
+                  className="w-full px-5 py-4 flex items-center justify-between text-left hover:bg-gray-50"
+                >
+                  <div>
+                    <span className="font-medium text-gray-900">{cls.className}</span>
+                    <span className="ml-2 text-sm text-gray-500">{cls.children.length} children</span>
+                  </div>
+                  <div className="flex flex-wrap gap-2 text-xs">
+                    {withoutRecording > 0 && (
+                      <span className="px-2 py-0.5 rounded-full bg-red-50 text-red-700">
+                        {withoutRecording} without recording consent
+                      </span>
+                    )}
+                    {withoutName > 0 && (
+                      <span className="px-2 py-0.5 rounded-full bg-amber-50 text-amber-700">
+                        {withoutName} not on name list
+                      </span>
+                    )}
+                    {withoutAlbum > 0 && (
+                      <span className="px-2 py-0.5 rounded-full bg-amber-50 text-amber-700">
+                        {withoutAlbum} without album consent
+                      </span>
+                    )}
+                    {withoutRecording + withoutName + withoutAlbum === 0 && (
+                      <span className="px-2 py-0.5 rounded-full bg-green-50 text-green-700">All consented</span>
+                    )}
+                  </div>
+                </button>
+
+                {isExpanded && (
+                  <table className="min-w-full divide-y divide-gray-200 border-t border-gray-100">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-5 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Child
+                        </th>
+                        {CONSENT_SCOPES.map((scope) => (
+                          <th key={scope} className="px-5 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                            {SCOPE_LABELS[scope]}
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {cls.children.map((child) => (
+                        <tr key={child.registrationId}>
+                          <td className="px-5 py-2 text-sm text-gray-900">{child.childName || '—'}</td>
+                          {CONSENT_SCOPES.map((scope) => (
+                            <td key={scope} className="px-5 py-2">
+                              <ConsentBadge consent={child.consents[scope]} />
+                            </td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
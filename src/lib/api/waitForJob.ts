@@ -0,0 +1,41 @@
+import type { Job } from '@/lib/types/jobs';
+import { parseJsonOrThrow } from './parseResponse';
+
+/**
+ * Poll a background job until it succeeded or failed.
+ *
+ * Resolves with the finished job (check `job.status` — a failed job still
+ * carries a partial `result` for most job types). Rejects only if polling
+ * itself fails or the timeout is reached; the job keeps running server-side
+ * either way and stays visible under /admin/jobs.
+ *
+ * @example
+ * const { data } = await parseJsonOrThrow<{ jobId: string }>(res);
+ * const job = await waitForJob<MyResult>(data.jobId, { onProgress: setJob });
+ */
+export async function waitForJob<TResult = unknown>(
+  jobId: string,
+  {
+    intervalMs = 2000,
+    timeoutMs = 30 * 60 * 1000,
+    onProgress,
+  }: {
+    intervalMs?: number;
+    timeoutMs?: number;
+    onProgress?: (job: Job<Record<string, unknown>, TResult>) => void;
+  } = {},
+): Promise<Job<Record<string, unknown>, TResult>> {
+  const giveUpAt = Date.now() + timeoutMs;
+
+  while (Date.now() < giveUpAt) {
+    const res = await fetch(`/api/admin/jobs/${jobId}`);
+    const { data } = await parseJsonOrThrow<{ data: { job: Job<Record<string, unknown>, TResult> } }>(res);
+    onProgress?.(data.job);
+    if (data.job.status === 'succeeded' || data.job.status === 'failed') {
+      return data.job;
+    }
+    await new Promise((resolve) => setTimeout(resolve, intervalMs));
+  }
+
+  throw new Error('Job is still running — check Admin › Jobs for progress');
+}
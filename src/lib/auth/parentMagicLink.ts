@@ -0,0 +1,36 @@
+import { getAirtableService } from '@/lib/services/airtableService';
+import { sendParentMagicLinkEmail } from '@/lib/services/resendService';
+
+const APP_URL = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+
+export interface IssueParentMagicLinkResult {
+  success: boolean;
+  magicLinkUrl?: string;
+  error?: string;
+}
+
+/**
+ * Generate a one-time login token for an existing parent and email them the link.
+ * Used by parent-login and by parent-register when the email already has an account,
+ * so a parent session is only ever created for someone who controls the inbox.
+ * @param email - Normalized (lowercased, trimmed) parent email
+ * @param firstName - Parent first name for the email greeting
+ */
+export async function issueParentMagicLink(
+  email: string,
+  firstName: string
+): Promise<IssueParentMagicLinkResult> {
+  const token = await getAirtableService().createParentMagicLinkToken(email);
+  if (!token) {
+    return { success: false, error: `No Parents record for ${email}` };
+  }
+
+  const magicLinkUrl = `${APP_URL}/familie-login?token=${token}`;
+  const result = await sendParentMagicLinkEmail(email, firstName, magicLinkUrl);
+
+  if (!result.success) {
+    return { success: false, error: result.error };
+  }
+
+  return { success: true, magicLinkUrl };
+}
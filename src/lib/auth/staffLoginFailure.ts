@@ -0,0 +1,36 @@
+import { StaffLoginResult } from '@/lib/types/staff-auth';
+
+export type StaffLoginFailure = Exclude<StaffLoginResult, { status: 'ok' }>;
+
+/**
+ * Map a failed Personen login to the HTTP status, message and machine-readable
+ * code shared by the admin, staff and engineer login routes.
+ * Login pages use `code` to show the TOTP field or the password-reset hint.
+ */
+export function describeStaffLoginFailure(result: StaffLoginFailure): {
+  httpStatus: number;
+  error: string;
+  code: StaffLoginFailure['status'];
+} {
+  switch (result.status) {
+    case 'locked':
+      return {
+        httpStatus: 423,
+        error: `Too many failed attempts. Account locked until ${new Date(result.lockedUntil).toLocaleTimeString('de-DE', { timeZone: 'Europe/Berlin', hour: '2-digit', minute: '2-digit' })}.`,
+        code: 'locked',
+      };
+    case 'totp_required':
+      return {
+        httpStatus: 401,
+        error: 'Two-factor code required',
+        code: 'totp_required',
+      };
+    case 'invalid':
+    default:
+      return {
+        httpStatus: 401,
+        error: 'Invalid email or password',
+        code: 'invalid',
+      };
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * Mastering presets for final tracks.
+ *
+ * Every final is run through ffmpeg's loudnorm filter (EBU R128 measurement)
+ * towards the target of the event's preset, so all class tracks on one album
+ * play at the same perceived volume. Engineers pick the preset per event.
+ */
+
+export type MasteringPresetId = 'ebu_r128' | 'streaming' | 'cd_loud';
+
+export interface MasteringPreset {
+  id: MasteringPresetId;
+  label: string;
+  description: string;
+  targetLufs: number;        // Integrated loudness target (LUFS)
+  truePeakDbtp: number;      // Max true peak (dBTP)
+  loudnessRange: number;     // Target loudness range (LU)
+}
+
+export const MASTERING_PRESETS: Record<MasteringPresetId, MasteringPreset> = {
+  ebu_r128: {
+    id: 'ebu_r128',
+    label: 'EBU R128 (-23 LUFS)',
+    description: 'Broadcast standard, most headroom',
+    targetLufs: -23,
+    truePeakDbtp: -1,
+    loudnessRange: 11,
+  },
+  streaming: {
+    id: 'streaming',
+    label: 'Streaming (-14 LUFS)',
+    description: 'Spotify/YouTube level, good for phones',
+    targetLufs: -14,
+    truePeakDbtp: -1,
+    loudnessRange: 11,
+  },
+  cd_loud: {
+    id: 'cd_loud',
+    label: 'CD (-10 LUFS)',
+    description: 'Loud CD master, less dynamics',
+    targetLufs: -10,
+    truePeakDbtp: -0.5,
+    loudnessRange: 7,
+  },
+};
+
+export const DEFAULT_MASTERING_PRESET: MasteringPresetId = 'ebu_r128';
+
+// A processed track further than this from the preset target is flagged in
+// the Master CD tracklist (loudnorm normally lands within ±0.5 LU)
+export const LOUDNESS_TOLERANCE_LU = 2;
+
+export function isMasteringPresetId(value: unknown): value is MasteringPresetId {
+  return typeof value === 'string' && value in MASTERING_PRESETS;
+}
+
+/**
+ * Preset for an event, falling back to the default for unset/unknown values
+ */
+export function resolveMasteringPreset(id?: string | null): MasteringPreset {
+  return MASTERING_PRESETS[isMasteringPresetId(id) ? id : DEFAULT_MASTERING_PRESET];
+}
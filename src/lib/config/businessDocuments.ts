@@ -0,0 +1,63 @@
+/**
+ * Offer (Angebot) and invoice (Rechnung) PDF settings
+ *
+ * The letterhead PDF is optional: when it exists in the assets bucket its
+ * first page is drawn behind every document page and the text letterhead
+ * below is skipped. Upload a plain A4 page with logo and footer, nothing in
+ * the body area.
+ */
+
+import type { InvoiceDunningLevel } from '@/lib/types/airtable';
+
+/** Key in the R2 assets bucket */
+export const DOCUMENT_LETTERHEAD_KEY = 'templates/angebot-briefpapier.pdf';
+
+/** Used when no letterhead PDF has been uploaded, and in invoice payment details */
+export const DOCUMENT_SENDER = {
+  name: 'Minimusiker',
+  addressLines: ['Guesstimate Loftyard Studios', 'Willdenowstraße 4', '13353 Berlin'],
+  email: 'support@minimusiker.de',
+  web: 'www.minimusiker.de',
+  vatId: process.env.COMPANY_VAT_ID || '',
+  taxNumber: process.env.COMPANY_TAX_NUMBER || '',
+  bankName: process.env.COMPANY_BANK_NAME || '',
+  iban: process.env.COMPANY_IBAN || '',
+  bic: process.env.COMPANY_BIC || '',
+};
+
+// ========================================
+// Offers
+// ========================================
+
+export const OFFER_VALIDITY_DAYS = 30;
+
+export const OFFER_CLOSING_TEXT =
+  'Wir freuen uns auf einen musikalischen Tag mit euren Kindern! '
+  + 'Zur Buchung genügt eine kurze Antwort auf diese E-Mail oder ein Anruf.';
+
+// ========================================
+// Invoices
+// ========================================
+
+/** Standard German VAT rate in percent */
+export const INVOICE_VAT_RATE = 19;
+
+/** Deal Builder amounts are what the school pays, i.e. gross */
+export const INVOICE_PRICES_INCLUDE_VAT = true;
+
+export const INVOICE_PAYMENT_TERM_DAYS = 14;
+
+export interface InvoiceDunningStep {
+  level: InvoiceDunningLevel;
+  daysOverdue: number;
+  templateSlug: string;
+}
+
+/**
+ * Reminders for unpaid invoices, counted from the due date. Each step is
+ * sent once; the emails live in the trigger email system.
+ */
+export const INVOICE_DUNNING_STEPS: InvoiceDunningStep[] = [
+  { level: 1, daysOverdue: 7, templateSlug: 'school_invoice_reminder' },
+  { level: 2, daysOverdue: 21, templateSlug: 'school_invoice_dunning' },
+];
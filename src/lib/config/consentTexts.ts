@@ -0,0 +1,68 @@
+/**
+ * Parental Consent Texts
+ *
+ * The wording parents agree to for each consent scope. Every choice stores
+ * the version it was given under (Registrations.consent_history), so a
+ * published version must never be edited — add a new version and point
+ * CURRENT_CONSENT_VERSION at it. Choices made under an older version stay
+ * valid until the parent saves again.
+ *
+ * Browser-safe: the registration form and the parent portal render these.
+ */
+
+import type { ConsentScope } from '@/lib/types/airtable';
+
+export interface ConsentText {
+  label: string;
+  text: string;
+}
+
+export type ConsentTextVersion = Record<ConsentScope, Record<'de' | 'en', ConsentText>>;
+
+export const CONSENT_SCOPES: ConsentScope[] = ['audio_recording', 'name_on_print', 'album_download'];
+
+export const CONSENT_TEXTS: Record<string, ConsentTextVersion> = {
+  '2026-10': {
+    audio_recording: {
+      de: {
+        label: 'Tonaufnahme',
+        text: 'Mein Kind darf beim Minimusikertag gemeinsam mit seiner Klasse aufgenommen werden.',
+      },
+      en: {
+        label: 'Audio recording',
+        text: 'My child may be recorded together with their class on the Minimusiker day.',
+      },
+    },
+    name_on_print: {
+      de: {
+        label: 'Name auf Drucksachen',
+        text: 'Der Vor- und Nachname meines Kindes darf auf gedruckten Materialien wie CD-Hüllen und Namenslisten erscheinen.',
+      },
+      en: {
+        label: 'Name on printed material',
+        text: "My child's first and last name may appear on printed material such as CD jackets and name lists.",
+      },
+    },
+    album_download: {
+      de: {
+        label: 'Album zum Download',
+        text: 'Die Aufnahmen mit meinem Kind dürfen im Album enthalten sein, das die Familien der Schule herunterladen können.',
+      },
+      en: {
+        label: 'Downloadable album',
+        text: "Recordings with my child may be included in the album the school's families can download.",
+      },
+    },
+  },
+};
+
+export const CURRENT_CONSENT_VERSION = '2026-10';
+
+/**
+ * Label and text of a scope in the given version, falling back to the
+ * current version for unknown ones
+ */
+export function getConsentText(scope: ConsentScope, locale: string, version: string = CURRENT_CONSENT_VERSION): ConsentText {
+  const texts = CONSENT_TEXTS[version] || CONSENT_TEXTS[CURRENT_CONSENT_VERSION];
+  return texts[scope][locale === 'en' ? 'en' : 'de'];
+}
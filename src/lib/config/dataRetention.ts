@@ -0,0 +1,18 @@
+/**
+ * Data Retention
+ *
+ * How long child names and raw recordings are kept after an event. The
+ * daily retention job (/api/cron/data-retention) purges both for every
+ * event dated more than DATA_RETENTION_MONTHS months ago. Final mixes,
+ * orders and consent records are not affected.
+ */
+
+export const DEFAULT_DATA_RETENTION_MONTHS = 12;
+
+/**
+ * Retention period in months, from DATA_RETENTION_MONTHS (positive integer)
+ */
+export function getDataRetentionMonths(): number {
+  const months = Number(process.env.DATA_RETENTION_MONTHS);
+  return Number.isInteger(months) && months > 0 ? months : DEFAULT_DATA_RETENTION_MONTHS;
+}
@@ -0,0 +1,42 @@
+/**
+ * Lead Nurture Sequences
+ *
+ * Automated emails to a lead's contact while the lead sits in an open stage.
+ * Each step fires once per lead (email log dedup) after the lead has been in
+ * `stage` for `daysInStage` days. Moving the lead to another stage starts that
+ * stage's steps; Won/Lost leads and leads with nurture paused get nothing.
+ *
+ * The content lives in the trigger email registry (category 'leads') and is
+ * inactive until an admin switches it on.
+ */
+
+import type { LeadSource, LeadStage } from '@/lib/types/airtable';
+
+export interface LeadNurtureStep {
+  /** Trigger email registry slug */
+  slug: string;
+  stage: LeadStage;
+  /** Only leads from these sources; all sources when omitted */
+  sources?: LeadSource[];
+  daysInStage: number;
+}
+
+export const LEAD_NURTURE_SEQUENCES: LeadNurtureStep[] = [
+  // Inbound enquiries that nobody has called back yet
+  {
+    slug: 'lead_nurture_new_info',
+    stage: 'New',
+    sources: ['Website', 'Event/Fair', 'Referral'],
+    daysInStage: 2,
+  },
+  {
+    slug: 'lead_nurture_contacted_followup',
+    stage: 'Contacted',
+    daysInStage: 7,
+  },
+  {
+    slug: 'lead_nurture_discussion_checkin',
+    stage: 'In Discussion',
+    daysInStage: 14,
+  },
+];
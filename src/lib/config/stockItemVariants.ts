@@ -0,0 +1,77 @@
+// src/lib/config/stockItemVariants.ts
+
+/**
+ * Maps Shopify variants and GuesstimateOrder lines to warehouse stock rows.
+ *
+ * Personalised and standard clothing draw from the same blank stock per size.
+ * A Minicard+CD bundle consumes one of each. Items without a physical stock
+ * row (Kinderliederbox, digital products) resolve to no lines.
+ */
+
+import { CLOTHING_VARIANTS, STANDARD_CLOTHING_VARIANTS } from './clothingVariants';
+import { AUDIO_VARIANTS } from './variantClassification';
+import type { StockItemType, StockLine } from '@/lib/types/stock';
+import type { GuesstimateOrderItem } from '@/lib/types/tasks';
+
+const CLOTHING_STOCK_ITEMS: Record<'tshirt' | 'hoodie', StockItemType> = {
+  tshirt: 'T-Shirt',
+  hoodie: 'Hoodie',
+};
+
+const AUDIO_STOCK_ITEMS: Record<string, StockItemType[]> = {
+  cd: ['CD'],
+  minicard: ['Minicard'],
+  'minicard-cd-bundle': ['Minicard', 'CD'],
+};
+
+// SKUs used when a GuesstimateOrder is created for an unsized item
+const SIMPLE_GO_SKUS: Record<string, StockItemType> = {
+  cd: 'CD',
+  minicard: 'Minicard',
+  mug: 'Mug',
+  'sport-bag': 'Sport Bag',
+};
+
+/**
+ * Resolve a Shopify variant (GID or numeric ID) to the stock rows it consumes.
+ */
+export function getStockLinesForVariant(variantId: string, quantity: number): StockLine[] {
+  const numericId = String(variantId).replace(/^gid:\/\/shopify\/ProductVariant\//, '');
+
+  const clothing = CLOTHING_VARIANTS[numericId] || STANDARD_CLOTHING_VARIANTS[numericId];
+  if (clothing) {
+    return [{ item: CLOTHING_STOCK_ITEMS[clothing.type], size: clothing.size, quantity }];
+  }
+
+  const audio = AUDIO_VARIANTS[numericId];
+  if (audio) {
+    return (AUDIO_STOCK_ITEMS[audio.type] || []).map((item) => ({ item, quantity }));
+  }
+
+  return [];
+}
+
+/**
+ * Resolve a GuesstimateOrder `contains` line to a stock row.
+ *
+ * SKUs written by the clothing order services: "tshirt-98/104", "hoodie-116",
+ * "std-tshirt-98/104", "std-hoodie-116". Unsized items use SIMPLE_GO_SKUS.
+ */
+export function getStockLineForGuesstimateItem(goItem: GuesstimateOrderItem): StockLine | null {
+  if (!goItem.quantity || goItem.quantity <= 0) return null;
+
+  const sku = goItem.sku.toLowerCase().trim();
+
+  const clothingMatch = sku.match(/^(?:std-)?(tshirt|hoodie)-(.+)$/);
+  if (clothingMatch) {
+    const type = clothingMatch[1] as 'tshirt' | 'hoodie';
+    return { item: CLOTHING_STOCK_ITEMS[type], size: clothingMatch[2], quantity: goItem.quantity };
+  }
+
+  const simpleItem = SIMPLE_GO_SKUS[sku];
+  if (simpleItem) {
+    return { item: simpleItem, quantity: goItem.quantity };
+  }
+
+  return null;
+}
@@ -1,10 +1,17 @@
 /**
  * Task Timeline Configuration (v2)
  *
- * This is the canonical task timeline for the task matrix system.
- * It defines all 11 tasks with their timeline offsets relative to event date.
+ * This is the canonical task catalog for the task matrix system.
+ * It defines all 11 tasks with their default offsets relative to event date.
+ *
+ * Which tasks an event actually gets, and when, comes from timeline
+ * templates (TaskTimelineTemplates table, edited under /admin/tasks/timelines).
+ * Templates pick tasks from this catalog and override their offsets; the
+ * built-in template below is used when no stored template matches.
  */
 
+import type { EventTier } from '@/lib/types/email-automation';
+
 // ---------------------------------------------------------------------------
 // Types
 // ---------------------------------------------------------------------------
@@ -215,6 +222,249 @@ export function calculateDeadline(
   return base;
 }
 
+// ---------------------------------------------------------------------------
+// Timeline Templates
+// ---------------------------------------------------------------------------
+
+/**
+ * When a template applies. Unset conditions match any event; all set
+ * conditions must hold.
+ */
+export interface TimelineConditions {
+  /** Event tiers (getEventTier) the template applies to */
+  tiers?: EventTier[];
+  isSchulsong?: boolean;
+  /** SCS = school clothing included (scs_shirts_included) */
+  isScs?: boolean;
+  /** Inclusive bounds on estimated children; events without a count never match */
+  minChildren?: number;
+  maxChildren?: number;
+}
+
+/** The event properties templates are matched against */
+export interface TimelineEventFacts {
+  tier: EventTier;
+  isSchulsong: boolean;
+  isScs: boolean;
+  children?: number;
+}
+
+/** A catalog task included in a template, with its offset for that template */
+export interface TimelineTemplateTask {
+  taskId: string;
+  offset: number;
+}
+
+export type TimelineTemplateStatus = 'current' | 'superseded' | 'archived';
+
+/**
+ * One version of a timeline template. Saving a template creates a new
+ * version; events stay pinned to the version their tasks were generated from.
+ */
+export interface TimelineTemplate {
+  /** Airtable record ID of this version ('builtin' for the built-in template) */
+  id: string;
+  /** Stable identifier shared by all versions */
+  key: string;
+  name: string;
+  version: number;
+  /** Higher wins when several templates match an event */
+  priority: number;
+  conditions: TimelineConditions;
+  tasks: TimelineTemplateTask[];
+  status: TimelineTemplateStatus;
+  createdBy?: string;
+  createdAt?: string;
+}
+
+export type TimelineTemplateInput = Pick<TimelineTemplate, 'name' | 'priority' | 'conditions' | 'tasks'>;
+
+export const BUILTIN_TIMELINE_TEMPLATE_ID = 'builtin';
+
+/** Every catalog task at its default offset, for events no template matches */
+export const BUILTIN_TIMELINE_TEMPLATE: TimelineTemplate = {
+  id: BUILTIN_TIMELINE_TEMPLATE_ID,
+  key: BUILTIN_TIMELINE_TEMPLATE_ID,
+  name: 'Standard (built-in)',
+  version: 0,
+  priority: 0,
+  conditions: {},
+  tasks: TASK_TIMELINE.map((entry) => ({ taskId: entry.id, offset: entry.offset })),
+  status: 'current',
+};
+
+const EVENT_TIERS: readonly EventTier[] = ['minimusikertag', 'plus', 'schulsong'];
+const MAX_OFFSET_DAYS = 365;
+
+/** Whether an event satisfies a template's conditions */
+export function matchesTimelineConditions(
+  conditions: TimelineConditions,
+  facts: TimelineEventFacts
+): boolean {
+  if (conditions.tiers?.length && !conditions.tiers.includes(facts.tier)) return false;
+  if (conditions.isSchulsong !== undefined && conditions.isSchulsong !== facts.isSchulsong) return false;
+  if (conditions.isScs !== undefined && conditions.isScs !== facts.isScs) return false;
+
+  if (conditions.minChildren !== undefined || conditions.maxChildren !== undefined) {
+    if (facts.children === undefined) return false;
+    if (conditions.minChildren !== undefined && facts.children < conditions.minChildren) return false;
+    if (conditions.maxChildren !== undefined && facts.children > conditions.maxChildren) return false;
+  }
+
+  return true;
+}
+
+function countConditions(conditions: TimelineConditions): number {
+  return [
+    conditions.tiers?.length ? conditions.tiers : undefined,
+    conditions.isSchulsong,
+    conditions.isScs,
+    conditions.minChildren,
+    conditions.maxChildren,
+  ].filter((value) => value !== undefined).length;
+}
+
+/**
+ * Pick the current template for an event: highest priority first, then the
+ * most specific one. Falls back to the built-in template.
+ */
+export function selectTimelineTemplate(
+  templates: TimelineTemplate[],
+  facts: TimelineEventFacts
+): TimelineTemplate {
+  const matching = templates
+    .filter((template) => template.status === 'current' && matchesTimelineConditions(template.conditions, facts))
+    .sort(
+      (a, b) =>
+        b.priority - a.priority ||
+        countConditions(b.conditions) - countConditions(a.conditions) ||
+        a.name.localeCompare(b.name)
+    );
+  return matching[0] || BUILTIN_TIMELINE_TEMPLATE;
+}
+
+/**
+ * The catalog entries a template generates, with the template's offsets,
+ * in chronological order. Tasks no longer in the catalog are skipped.
+ */
+export function resolveTimelineEntries(template: TimelineTemplate): TaskTimelineEntry[] {
+  const entries: TaskTimelineEntry[] = [];
+  for (const task of template.tasks) {
+    const entry = getTimelineEntry(task.taskId);
+    if (entry) entries.push({ ...entry, offset: task.offset });
+  }
+  return entries.sort(
+    (a, b) => a.offset - b.offset || TASK_TIMELINE_ORDER.indexOf(a.id) - TASK_TIMELINE_ORDER.indexOf(b.id)
+  );
+}
+
+/**
+ * Pick the editable template fields from a request body
+ */
+export function parseTimelineTemplateInput(body: Record<string, unknown>): TimelineTemplateInput {
+  return {
+    name: typeof body.name === 'string' ? body.name : '',
+    priority: typeof body.priority === 'number' ? body.priority : 0,
+    conditions: body.conditions && typeof body.conditions === 'object' ? (body.conditions as TimelineConditions) : {},
+    tasks: Array.isArray(body.tasks) ? (body.tasks as TimelineTemplateTask[]) : [],
+  };
+}
+
+/**
+ * Validate template input from the editor. Returns an error message or null.
+ */
+export function validateTimelineTemplateInput(input: TimelineTemplateInput): string | null {
+  if (!input.name?.trim()) return 'Name is required';
+  if (!Number.isInteger(input.priority)) return 'Priority must be a whole number';
+  if (!input.tasks?.length) return 'A template needs at least one task';
+
+  const seen = new Set<string>();
+  for (const task of input.tasks) {
+    if (typeof task?.taskId !== 'string' || !getTimelineEntry(task.taskId)) return `Unknown task: ${task?.taskId}`;
+    if (seen.has(task.taskId)) return `Task ${task.taskId} is listed twice`;
+    seen.add(task.taskId);
+    if (!Number.isInteger(task.offset) || Math.abs(task.offset) > MAX_OFFSET_DAYS) {
+      return `Offset for ${task.taskId} must be a whole number of days within ±${MAX_OFFSET_DAYS}`;
+    }
+  }
+
+  const { tiers, minChildren, maxChildren } = input.conditions || {};
+  if (tiers?.some((tier) => !EVENT_TIERS.includes(tier))) return 'Unknown event tier';
+  for (const bound of [minChildren, maxChildren]) {
+    if (bound !== undefined && (!Number.isInteger(bound) || bound < 0)) {
+      return 'Child counts must be whole numbers of 0 or more';
+    }
+  }
+  if (minChildren !== undefined && maxChildren !== undefined && minChildren > maxChildren) {
+    return 'Minimum children is larger than maximum children';
+  }
+
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// Recompute
+// ---------------------------------------------------------------------------
+
+/** The task fields a recompute looks at */
+export interface TimelineTaskSnapshot {
+  id: string;
+  template_id: string;
+  status: string;
+  timeline_offset: number;
+}
+
+/**
+ * Changes that bring an event's tasks in line with a template. Only pending
+ * tasks are moved or cancelled; completed, skipped and partial tasks are
+ * never touched.
+ */
+export interface TimelineDiff {
+  /** Template tasks the event has no (non-cancelled) task for */
+  add: TaskTimelineEntry[];
+  /** Pending tasks whose offset differs from the template */
+  reschedule: Array<{ taskId: string; templateId: string; fromOffset: number; toOffset: number }>;
+  /** Pending tasks the template no longer contains */
+  cancel: Array<{ taskId: string; templateId: string }>;
+  /** Worked-on tasks the template no longer contains (left as they are) */
+  keep: Array<{ taskId: string; templateId: string; status: string }>;
+}
+
+export function diffTimeline(
+  tasks: TimelineTaskSnapshot[],
+  entries: TaskTimelineEntry[]
+): TimelineDiff {
+  const diff: TimelineDiff = { add: [], reschedule: [], cancel: [], keep: [] };
+  const activeTasks = tasks.filter((task) => task.status !== 'cancelled');
+  const entryById = new Map(entries.map((entry) => [entry.id, entry]));
+
+  for (const entry of entries) {
+    if (!activeTasks.some((task) => task.template_id === entry.id)) {
+      diff.add.push(entry);
+    }
+  }
+
+  for (const task of activeTasks) {
+    const entry = entryById.get(task.template_id);
+    if (entry) {
+      if (task.status === 'pending' && task.timeline_offset !== entry.offset) {
+        diff.reschedule.push({
+          taskId: task.id,
+          templateId: task.template_id,
+          fromOffset: task.timeline_offset,
+          toOffset: entry.offset,
+        });
+      }
+    } else if (task.status === 'pending') {
+      diff.cancel.push({ taskId: task.id, templateId: task.template_id });
+    } else {
+      diff.keep.push({ taskId: task.id, templateId: task.template_id, status: task.status });
+    }
+  }
+
+  return diff;
+}
+
 // ---------------------------------------------------------------------------
 // UI Styles
 // ---------------------------------------------------------------------------
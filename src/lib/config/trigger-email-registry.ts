@@ -6,6 +6,8 @@
  * HTML uses {{variable}} placeholders for substitution at send-time.
  */
 
+import type { ParentEmailCategory } from '@/lib/types/airtable';
+
 export interface TriggerEmailDefinition {
   slug: string;
   name: string;
@@ -19,10 +21,17 @@ export interface TriggerEmailDefinition {
   defaultActive?: boolean;
   /** Optional UI grouping. Templates with a category render under that section instead of under their recipientType. */
   category?: string;
-  sendNow?: {
-    eventFilter: 'schulsong_approved' | 'all_events' | 'schulsong_events';
-    recipientResolver: 'event_teacher' | 'parents_by_registration';
-  };
+  sendNow?:
+    | {
+        eventFilter: 'schulsong_approved' | 'all_events' | 'schulsong_events';
+        recipientResolver: 'event_teacher';
+      }
+    | {
+        eventFilter: 'schulsong_approved' | 'all_events' | 'schulsong_events';
+        recipientResolver: 'parents_by_registration';
+        /** Preference center category the parents are filtered by */
+        emailCategory: ParentEmailCategory;
+      };
 }
 
 /**
@@ -909,6 +918,7 @@ export const TRIGGER_EMAIL_REGISTRY: TriggerEmailDefinition[] = [
     sendNow: {
       eventFilter: 'schulsong_approved',
       recipientResolver: 'parents_by_registration',
+      emailCategory: 'schulsong_release',
     },
   },
 
@@ -1236,6 +1246,62 @@ export const TRIGGER_EMAIL_REGISTRY: TriggerEmailDefinition[] = [
     availableVariables: ['schoolName', 'eventDate', 'contactName', 'contactEmail', 'oldAddress', 'newAddress'],
   },
 
+  // ─── Size Exchange Request (Admin) ───────────────────────────────
+  {
+    slug: 'size_exchange_request',
+    name: 'Größentausch angefragt',
+    description: 'Wird an Admins gesendet, wenn Eltern im Familien-Portal einen Größentausch für ein Kleidungsstück anfragen.',
+    recipientType: 'admin',
+    triggerEventKey: 'parent:size_exchange_request',
+    defaultSubject: 'Größentausch: Bestellung {{orderNumber}}',
+    defaultBodyHtml: `<h2 style="margin: 0 0 24px 0; color: #2F4858; font-size: 22px; font-weight: 600;">
+  Größentausch angefragt
+</h2>
+
+<p style="margin: 0 0 16px 0; color: #4a5568; font-size: 16px; line-height: 1.6;">
+  Eltern haben im Familien-Portal einen Größentausch für ein Kleidungsstück angefragt.
+</p>
+
+<table role="presentation" width="100%" cellspacing="0" cellpadding="0" style="margin-bottom: 24px;">
+  <tr>
+    <td style="padding: 12px 0; border-bottom: 1px solid #e8e8e8;">
+      <strong style="color: #2F4858;">Bestellung:</strong>
+      <span style="color: #4a5568; float: right;">{{orderNumber}}</span>
+    </td>
+  </tr>
+  <tr>
+    <td style="padding: 12px 0; border-bottom: 1px solid #e8e8e8;">
+      <strong style="color: #2F4858;">Schule:</strong>
+      <span style="color: #4a5568; float: right;">{{schoolName}}</span>
+    </td>
+  </tr>
+  <tr>
+    <td style="padding: 12px 0; border-bottom: 1px solid #e8e8e8;">
+      <strong style="color: #2F4858;">Artikel:</strong>
+      <span style="color: #4a5568; float: right;">{{productTitle}}</span>
+    </td>
+  </tr>
+</table>
+
+<table role="presentation" width="100%" cellspacing="0" cellpadding="0" style="margin-bottom: 24px; background-color: #FFF3CD; border-radius: 8px;">
+  <tr>
+    <td style="padding: 16px;">
+      <p style="margin: 0 0 8px 0; color: #856404; font-size: 14px;">
+        <strong>Bestellte Größe:</strong> <span style="text-decoration: line-through;">{{currentSize}}</span>
+      </p>
+      <p style="margin: 0; color: #155724; font-size: 16px; font-weight: 600;">
+        <strong>Gewünschte Größe:</strong> {{requestedSize}}
+      </p>
+    </td>
+  </tr>
+</table>
+
+<p style="margin: 0; color: #718096; font-size: 14px; line-height: 1.6;">
+  <strong>Anmerkung:</strong> {{note}}
+</p>`,
+    availableVariables: ['orderNumber', 'schoolName', 'productTitle', 'currentSize', 'requestedSize', 'note'],
+  },
+
   // ─── Staff Event Reminder (7 days before) ────────────────────────
   {
     slug: 'staff_event_reminder',
@@ -1426,6 +1492,313 @@ export const TRIGGER_EMAIL_REGISTRY: TriggerEmailDefinition[] = [
       'teacherPortalUrl',
     ],
   },
+
+  // ─── Parent Magic Link ──────────────────────────────────────────────
+  {
+    slug: 'parent_magic_link',
+    name: 'Eltern Login-Link',
+    description: 'Wird gesendet, wenn Eltern einen Login-Link für das Familien-Portal anfordern.',
+    recipientType: 'parent',
+    triggerEventKey: 'user:parent_magic_link',
+    defaultSubject: 'Dein Login-Link für das Minimusiker Familien-Portal',
+    defaultBodyHtml: `<h2 style="margin: 0 0 16px 0; color: #2F4858; font-size: 22px; font-weight: 600;">
+  Hallo {{parentName}},
+</h2>
+
+<p style="margin: 0 0 24px 0; color: #4a5568; font-size: 16px; line-height: 1.6;">
+  Du hast einen Login-Link für das Minimusiker Familien-Portal angefordert.
+  Klicke auf den Button unten, um dich anzumelden:
+</p>
+
+<table role="presentation" width="100%" cellspacing="0" cellpadding="0">
+  <tr>
+    <td align="center" style="padding: 8px 0 32px 0;">
+      <a href="{{magicLinkUrl}}"
+         style="display: inline-block; background-color: #d85a6a; color: #ffffff; text-decoration: none; padding: 16px 40px; border-radius: 8px; font-size: 16px; font-weight: 600; box-shadow: 0 2px 4px rgba(216, 90, 106, 0.3);">
+        Jetzt einloggen
+      </a>
+    </td>
+  </tr>
+</table>
+
+<p style="margin: 0 0 16px 0; color: #718096; font-size: 14px; line-height: 1.6;">
+  <strong>Hinweis:</strong> Dieser Link ist <strong>30 Minuten</strong> gültig und kann nur einmal verwendet werden.
+  Falls du keinen Link angefordert hast, kannst du diese E-Mail ignorieren.
+</p>
+
+<p style="margin: 0; color: #718096; font-size: 14px; line-height: 1.6;">
+  Falls der Button nicht funktioniert, kopiere diesen Link in deinen Browser:<br>
+  <a href="{{magicLinkUrl}}" style="color: #d85a6a; word-break: break-all;">{{magicLinkUrl}}</a>
+</p>`,
+    availableVariables: ['parentName', 'magicLinkUrl'],
+  },
+
+  // ─── Staff Password Reset ───────────────────────────────────────────
+  {
+    slug: 'staff_password_reset',
+    name: 'Passwort festlegen / zurücksetzen',
+    description: 'Wird gesendet, wenn Admins, Staff oder Engineers ein Passwort für ihr Portal festlegen oder zurücksetzen möchten.',
+    recipientType: 'staff',
+    triggerEventKey: 'user:staff_password_reset',
+    defaultSubject: 'Passwort {{actionText}} – Minimusiker Portal',
+    defaultBodyHtml: `<h2 style="margin: 0 0 16px 0; color: #2F4858; font-size: 22px; font-weight: 600;">
+  Hallo {{staffName}},
+</h2>
+
+<p style="margin: 0 0 24px 0; color: #4a5568; font-size: 16px; line-height: 1.6;">
+  über den Button unten kannst du dein Passwort für das Minimusiker Portal {{actionText}}:
+</p>
+
+<table role="presentation" width="100%" cellspacing="0" cellpadding="0">
+  <tr>
+    <td align="center" style="padding: 8px 0 32px 0;">
+      <a href="{{resetUrl}}"
+         style="display: inline-block; background-color: #d85a6a; color: #ffffff; text-decoration: none; padding: 16px 40px; border-radius: 8px; font-size: 16px; font-weight: 600; box-shadow: 0 2px 4px rgba(216, 90, 106, 0.3);">
+        Passwort {{actionText}}
+      </a>
+    </td>
+  </tr>
+</table>
+
+<p style="margin: 0 0 16px 0; color: #718096; font-size: 14px; line-height: 1.6;">
+  <strong>Hinweis:</strong> Dieser Link ist <strong>1 Stunde</strong> gültig und kann nur einmal verwendet werden.
+  Falls du das nicht angefordert hast, kannst du diese E-Mail ignorieren – dein Passwort bleibt unverändert.
+</p>
+
+<p style="margin: 0; color: #718096; font-size: 14px; line-height: 1.6;">
+  Falls der Button nicht funktioniert, kopiere diesen Link in deinen Browser:<br>
+  <a href="{{resetUrl}}" style="color: #d85a6a; word-break: break-all;">{{resetUrl}}</a>
+</p>`,
+    availableVariables: ['staffName', 'resetUrl', 'actionText'],
+  },
+
+  // ─── Lead Follow-Up Digest (daily, staff) ───────────────────────────
+  {
+    slug: 'staff_lead_follow_ups',
+    name: 'Lead Follow-Ups (Staff)',
+    description: 'Täglich an jeden Mitarbeiter mit fälligen oder überfälligen Lead-Follow-Ups. Listet die Leads mit Kontakt und Phase auf.',
+    recipientType: 'staff',
+    triggerEventKey: 'cron:lead_follow_up_digest',
+    category: 'leads',
+    defaultSubject: '{{count}} Lead-Follow-Up(s) fällig',
+    defaultBodyHtml: `<h2 style="margin: 0 0 24px 0; color: #2F4858; font-size: 22px; font-weight: 600;">
+  Hallo {{staffName}},
+</h2>
+
+<p style="margin: 0 0 24px 0; color: #4a5568; font-size: 16px; line-height: 1.6;">
+  heute stehen <strong>{{count}}</strong> Follow-Up(s) an, davon <strong>{{overdueCount}}</strong> überfällig.
+</p>
+
+{{leadListHtml}}
+
+<table role="presentation" width="100%" cellspacing="0" cellpadding="0">
+  <tr>
+    <td align="center" style="padding: 24px 0 8px 0;">
+      <a href="{{leadsUrl}}"
+         style="display: inline-block; background-color: #d85a6a; color: #ffffff; text-decoration: none; padding: 14px 32px; border-radius: 8px; font-size: 16px; font-weight: 600;">
+        Zu den Leads
+      </a>
+    </td>
+  </tr>
+</table>`,
+    availableVariables: ['staffName', 'count', 'overdueCount', 'leadListHtml', 'leadsUrl'],
+  },
+
+  // ─── Offer (Angebot) PDF ────────────────────────────────────────────
+  {
+    slug: 'lead_offer',
+    name: 'Angebot',
+    description: 'Wird aus dem Leads-Bereich oder der Buchung gesendet, wenn ein Admin ein Angebot per E-Mail verschickt. Das Angebot hängt als PDF an.',
+    recipientType: 'teacher',
+    triggerEventKey: 'admin:offer_sent',
+    category: 'leads',
+    defaultSubject: 'Euer Angebot {{offerNumber}} für den Minimusikertag',
+    defaultBodyHtml: `<h2 style="margin: 0 0 16px 0; color: #2F4858; font-size: 22px; font-weight: 600;">
+  Hallo {{contactPerson}},
+</h2>
+
+<p style="margin: 0 0 16px 0; color: #4a5568; font-size: 16px; line-height: 1.6;">
+  vielen Dank für das nette Gespräch! Im Anhang findet ihr unser Angebot <strong>{{offerNumber}}</strong>
+  für die {{schoolName}} über <strong>{{total}}</strong>.
+</p>
+
+<p style="margin: 0 0 16px 0; color: #4a5568; font-size: 16px; line-height: 1.6;">
+  Das Angebot ist gültig bis {{validUntil}}. Bei Fragen antwortet einfach auf diese E-Mail.
+</p>
+
+<p style="margin: 0; color: #4a5568; font-size: 16px; line-height: 1.6;">
+  Viele Grüße<br/>{{staffName}}
+</p>`,
+    availableVariables: ['contactPerson', 'schoolName', 'offerNumber', 'total', 'validUntil', 'staffName'],
+  },
+
+  // ─── Lead Nurture: New (inbound, 2 days without callback) ───────────
+  {
+    slug: 'lead_nurture_new_info',
+    name: 'Lead-Nurture: Infos nach Anfrage',
+    description: 'Geht 2 Tage nach einer Anfrage (Website, Messe, Empfehlung) an den Kontakt, solange der Lead noch in "New" ist. Inaktiv bis Admin-Freigabe.',
+    recipientType: 'teacher',
+    triggerEventKey: 'cron:lead_nurture',
+    category: 'leads',
+    defaultActive: false,
+    defaultSubject: 'Euer Minimusikertag an der {{schoolName}}',
+    defaultBodyHtml: `<h2 style="margin: 0 0 16px 0; color: #2F4858; font-size: 22px; font-weight: 600;">
+  Hallo {{contactPerson}},
+</h2>
+
+<p style="margin: 0 0 16px 0; color: #4a5568; font-size: 16px; line-height: 1.6;">
+  vielen Dank für euer Interesse am Minimusikertag! Wir melden uns in den nächsten Tagen telefonisch bei euch.
+</p>
+
+<p style="margin: 0; color: #4a5568; font-size: 16px; line-height: 1.6;">
+  Bis dahin findet ihr alle Infos zu Ablauf und Preisen auf unserer Website. Fragen beantworten wir gern per Antwort auf diese E-Mail.
+</p>`,
+    availableVariables: ['contactPerson', 'schoolName', 'city', 'staffName'],
+  },
+
+  // ─── Lead Nurture: Contacted (7 days) ───────────────────────────────
+  {
+    slug: 'lead_nurture_contacted_followup',
+    name: 'Lead-Nurture: Nachfassen nach Erstgespräch',
+    description: 'Geht an den Kontakt, wenn der Lead seit 7 Tagen in "Contacted" ist. Inaktiv bis Admin-Freigabe.',
+    recipientType: 'teacher',
+    triggerEventKey: 'cron:lead_nurture',
+    category: 'leads',
+    defaultActive: false,
+    defaultSubject: 'Noch Fragen zum Minimusikertag?',
+    defaultBodyHtml: `<h2 style="margin: 0 0 16px 0; color: #2F4858; font-size: 22px; font-weight: 600;">
+  Hallo {{contactPerson}},
+</h2>
+
+<p style="margin: 0; color: #4a5568; font-size: 16px; line-height: 1.6;">
+  wir hatten vor Kurzem über einen Minimusikertag an der {{schoolName}} gesprochen. Gibt es noch offene Fragen?
+  {{staffName}} hilft euch gern weiter – antwortet einfach auf diese E-Mail.
+</p>`,
+    availableVariables: ['contactPerson', 'schoolName', 'city', 'staffName'],
+  },
+
+  // ─── Lead Nurture: In Discussion (14 days) ──────────────────────────
+  {
+    slug: 'lead_nurture_discussion_checkin',
+    name: 'Lead-Nurture: Terminfindung',
+    description: 'Geht an den Kontakt, wenn der Lead seit 14 Tagen in "In Discussion" ist. Inaktiv bis Admin-Freigabe.',
+    recipientType: 'teacher',
+    triggerEventKey: 'cron:lead_nurture',
+    category: 'leads',
+    defaultActive: false,
+    defaultSubject: 'Wollen wir euren Termin festmachen?',
+    defaultBodyHtml: `<h2 style="margin: 0 0 16px 0; color: #2F4858; font-size: 22px; font-weight: 600;">
+  Hallo {{contactPerson}},
+</h2>
+
+<p style="margin: 0; color: #4a5568; font-size: 16px; line-height: 1.6;">
+  beliebte Termine sind schnell vergeben. Wenn ihr euren Minimusikertag an der {{schoolName}} sichern möchtet,
+  meldet euch gern bei {{staffName}} – wir reservieren euch einen Wunschtermin.
+</p>`,
+    availableVariables: ['contactPerson', 'schoolName', 'city', 'staffName'],
+  },
+
+  // ─── Invoices (Rechnungen) ──────────────────────────────────────────
+  {
+    slug: 'school_invoice',
+    name: 'Rechnung',
+    description: 'Wird aus der Buchung gesendet, wenn ein Admin eine Rechnung ausstellt oder erneut verschickt. Die Rechnung hängt als PDF an.',
+    recipientType: 'teacher',
+    triggerEventKey: 'admin:invoice_sent',
+    category: 'invoices',
+    defaultSubject: 'Rechnung {{invoiceNumber}} für euren Minimusikertag',
+    defaultBodyHtml: `<h2 style="margin: 0 0 16px 0; color: #2F4858; font-size: 22px; font-weight: 600;">
+  Hallo {{contactPerson}},
+</h2>
+
+<p style="margin: 0 0 16px 0; color: #4a5568; font-size: 16px; line-height: 1.6;">
+  vielen Dank für den schönen Minimusikertag an der {{schoolName}}! Im Anhang findet ihr unsere Rechnung
+  <strong>{{invoiceNumber}}</strong> über <strong>{{total}}</strong>.
+</p>
+
+<p style="margin: 0 0 16px 0; color: #4a5568; font-size: 16px; line-height: 1.6;">
+  Bitte überweist den Betrag bis zum {{dueDate}}. Die Bankverbindung steht auf der Rechnung.
+</p>
+
+<p style="margin: 0; color: #4a5568; font-size: 16px; line-height: 1.6;">
+  Bei Fragen antwortet einfach auf diese E-Mail.
+</p>`,
+    availableVariables: ['contactPerson', 'schoolName', 'invoiceNumber', 'total', 'dueDate', 'eventDate'],
+  },
+  {
+    slug: 'school_invoice_storno',
+    name: 'Stornorechnung',
+    description: 'Wird gesendet, wenn ein Admin eine Stornorechnung zu einer bereits verschickten Rechnung verschickt. Die Stornorechnung hängt als PDF an.',
+    recipientType: 'teacher',
+    triggerEventKey: 'admin:invoice_sent',
+    category: 'invoices',
+    defaultSubject: 'Stornorechnung {{invoiceNumber}}',
+    defaultBodyHtml: `<h2 style="margin: 0 0 16px 0; color: #2F4858; font-size: 22px; font-weight: 600;">
+  Hallo {{contactPerson}},
+</h2>
+
+<p style="margin: 0 0 16px 0; color: #4a5568; font-size: 16px; line-height: 1.6;">
+  anbei erhaltet ihr die Stornorechnung <strong>{{invoiceNumber}}</strong> zur Rechnung
+  <strong>{{cancelledInvoiceNumber}}</strong>. Die ursprüngliche Rechnung ist damit aufgehoben.
+</p>
+
+<p style="margin: 0; color: #4a5568; font-size: 16px; line-height: 1.6;">
+  Bei Fragen antwortet einfach auf diese E-Mail.
+</p>`,
+    availableVariables: ['contactPerson', 'schoolName', 'invoiceNumber', 'total', 'cancelledInvoiceNumber'],
+  },
+  {
+    slug: 'school_invoice_reminder',
+    name: 'Zahlungserinnerung',
+    description: 'Geht 7 Tage nach Fälligkeit an den Rechnungsempfänger, wenn die Rechnung noch nicht als bezahlt markiert ist. Die Rechnung hängt erneut an.',
+    recipientType: 'teacher',
+    triggerEventKey: 'cron:invoice_dunning',
+    category: 'invoices',
+    defaultSubject: 'Zahlungserinnerung: Rechnung {{invoiceNumber}}',
+    defaultBodyHtml: `<h2 style="margin: 0 0 16px 0; color: #2F4858; font-size: 22px; font-weight: 600;">
+  Hallo {{contactPerson}},
+</h2>
+
+<p style="margin: 0 0 16px 0; color: #4a5568; font-size: 16px; line-height: 1.6;">
+  sicher ist es im Alltag einfach untergegangen: Für unsere Rechnung <strong>{{invoiceNumber}}</strong>
+  über <strong>{{total}}</strong> (fällig am {{dueDate}}) konnten wir noch keinen Zahlungseingang feststellen.
+</p>
+
+<p style="margin: 0 0 16px 0; color: #4a5568; font-size: 16px; line-height: 1.6;">
+  Wir würden uns freuen, wenn ihr den Betrag in den nächsten Tagen überweist. Die Rechnung findet ihr noch einmal im Anhang.
+</p>
+
+<p style="margin: 0; color: #4a5568; font-size: 16px; line-height: 1.6;">
+  Falls ihr schon bezahlt habt, betrachtet diese E-Mail bitte als gegenstandslos.
+</p>`,
+    availableVariables: ['contactPerson', 'schoolName', 'invoiceNumber', 'total', 'dueDate', 'eventDate', 'daysOverdue'],
+  },
+  {
+    slug: 'school_invoice_dunning',
+    name: 'Mahnung',
+    description: 'Geht 21 Tage nach Fälligkeit an den Rechnungsempfänger, wenn die Rechnung trotz Zahlungserinnerung noch offen ist.',
+    recipientType: 'teacher',
+    triggerEventKey: 'cron:invoice_dunning',
+    category: 'invoices',
+    defaultSubject: 'Mahnung: Rechnung {{invoiceNumber}}',
+    defaultBodyHtml: `<h2 style="margin: 0 0 16px 0; color: #2F4858; font-size: 22px; font-weight: 600;">
+  Hallo {{contactPerson}},
+</h2>
+
+<p style="margin: 0 0 16px 0; color: #4a5568; font-size: 16px; line-height: 1.6;">
+  unsere Rechnung <strong>{{invoiceNumber}}</strong> über <strong>{{total}}</strong> ist seit
+  {{daysOverdue}} Tagen fällig und trotz unserer Zahlungserinnerung noch offen.
+</p>
+
+<p style="margin: 0 0 16px 0; color: #4a5568; font-size: 16px; line-height: 1.6;">
+  Bitte überweist den Betrag innerhalb der nächsten 7 Tage. Die Rechnung hängt noch einmal an.
+</p>
+
+<p style="margin: 0; color: #4a5568; font-size: 16px; line-height: 1.6;">
+  Falls es ein Problem mit der Rechnung gibt, meldet euch bitte direkt bei uns.
+</p>`,
+    availableVariables: ['contactPerson', 'schoolName', 'invoiceNumber', 'total', 'dueDate', 'eventDate', 'daysOverdue'],
+  },
 ];
 
 /**
@@ -24,6 +24,20 @@ export const TRIGGER_EVENT_CATALOG: TriggerEvent[] = [
     availableVariables: ['teacherName', 'magicLinkUrl'],
     recipientMode: 'specific',
   },
+  {
+    key: 'user:parent_magic_link',
+    name: 'Eltern Login-Link angefordert',
+    description: 'Eltern fordern einen Login-Link für das Familien-Portal an.',
+    availableVariables: ['parentName', 'magicLinkUrl'],
+    recipientMode: 'specific',
+  },
+  {
+    key: 'user:staff_password_reset',
+    name: 'Passwort festlegen / zurücksetzen',
+    description: 'Admin, Staff oder Engineer fordert einen Link zum Festlegen des Passworts an.',
+    availableVariables: ['staffName', 'resetUrl', 'actionText'],
+    recipientMode: 'specific',
+  },
   {
     key: 'webhook:new_booking',
     name: 'Neue Buchung (SimplyBook)',
@@ -101,6 +115,13 @@ export const TRIGGER_EVENT_CATALOG: TriggerEvent[] = [
     availableVariables: ['schoolName', 'eventDate', 'region', 'bookingId', 'unitId', 'reason'],
     recipientMode: 'configurable',
   },
+  {
+    key: 'parent:size_exchange_request',
+    name: 'Größentausch angefragt',
+    description: 'Eltern fragen im Familien-Portal unter "Meine Bestellungen" einen Größentausch für ein Kleidungsstück an.',
+    availableVariables: ['orderNumber', 'schoolName', 'productTitle', 'currentSize', 'requestedSize', 'note'],
+    recipientMode: 'configurable',
+  },
   {
     key: 'cron:event_readiness_no_staff',
     name: 'CRON: Tägliche Übersicht — Events ohne Mitarbeiter',
@@ -182,6 +203,41 @@ export const TRIGGER_EVENT_CATALOG: TriggerEvent[] = [
     ],
     recipientMode: 'specific',
   },
+  {
+    key: 'admin:offer_sent',
+    name: 'Angebot versendet',
+    description: 'Admin verschickt ein generiertes Angebot (PDF im Anhang) aus dem Leads-Bereich oder der Buchung.',
+    availableVariables: ['contactPerson', 'schoolName', 'offerNumber', 'total', 'validUntil', 'staffName'],
+    recipientMode: 'specific',
+  },
+  {
+    key: 'cron:lead_follow_up_digest',
+    name: 'CRON: Tägliche Lead-Follow-Ups (Staff)',
+    description: 'Läuft täglich um 6 Uhr. Sendet jedem Mitarbeiter eine Liste seiner offenen Leads, deren Follow-Up heute fällig oder überfällig ist.',
+    availableVariables: ['staffName', 'count', 'overdueCount', 'leadListHtml', 'leadsUrl'],
+    recipientMode: 'specific',
+  },
+  {
+    key: 'cron:lead_nurture',
+    name: 'CRON: Lead-Nurture-Sequenzen',
+    description: 'Läuft täglich um 6 Uhr. Sendet dem Kontakt eines offenen Leads die nächste Nurture-Mail, sobald der Lead lange genug in seiner Phase ist (siehe LEAD_NURTURE_SEQUENCES). Jede Mail geht pro Lead nur einmal.',
+    availableVariables: ['contactPerson', 'schoolName', 'city', 'staffName'],
+    recipientMode: 'specific',
+  },
+  {
+    key: 'admin:invoice_sent',
+    name: 'Rechnung versendet',
+    description: 'Admin stellt eine Rechnung oder Stornorechnung aus der Buchung aus und verschickt sie (PDF im Anhang).',
+    availableVariables: ['contactPerson', 'schoolName', 'invoiceNumber', 'total', 'dueDate', 'eventDate', 'cancelledInvoiceNumber'],
+    recipientMode: 'specific',
+  },
+  {
+    key: 'cron:invoice_dunning',
+    name: 'CRON: Zahlungserinnerungen & Mahnungen',
+    description: 'Läuft täglich um 7 Uhr. Markiert überfällige Rechnungen und schickt die nächste Stufe aus INVOICE_DUNNING_STEPS (Zahlungserinnerung, Mahnung). Jede Stufe geht pro Rechnung nur einmal.',
+    availableVariables: ['contactPerson', 'schoolName', 'invoiceNumber', 'total', 'dueDate', 'eventDate', 'daysOverdue'],
+    recipientMode: 'specific',
+  },
 ];
 
 export function getTriggerEvent(key: string): TriggerEvent | undefined {
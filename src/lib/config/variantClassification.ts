@@ -104,3 +104,40 @@ export function computeShipmentWave(
 
   return null;
 }
+
+// ---------------------------------------------------------------------------
+// Wave dates
+// ---------------------------------------------------------------------------
+
+// Welle 1 (school clothing) ships before the event, Welle 2 (audio) after it
+export const WAVE_SHIP_OFFSET_DAYS: Record<'Welle 1' | 'Welle 2', number> = {
+  'Welle 1': -9,
+  'Welle 2': 14,
+};
+
+/**
+ * Date a wave ships for an event (YYYY-MM-DD)
+ */
+export function getWaveShipDate(eventDate: string, wave: 'Welle 1' | 'Welle 2'): string {
+  const date = new Date(eventDate);
+  date.setDate(date.getDate() + WAVE_SHIP_OFFSET_DAYS[wave]);
+  return date.toISOString().split('T')[0];
+}
+
+/**
+ * Which wave a single line item ships in. 'Both' orders are split like the
+ * admin wave view: clothing and standard items in Welle 1, audio in Welle 2.
+ * Returns null for items that are not shipped (digital products).
+ */
+export function getLineItemWave(
+  variantId: string,
+  orderWave: ShipmentWave | null | undefined,
+): ShipmentWave | null {
+  const category = classifyVariant(String(variantId));
+  if (!category || !orderWave) return null;
+
+  if (orderWave === 'Both') {
+    return category === 'audio' ? 'Welle 2' : 'Welle 1';
+  }
+  return orderWave;
+}
@@ -0,0 +1,68 @@
+/**
+ * Airtable Table Store
+ *
+ * TableStore backed by the live base. Reads use returnFieldsByFieldId;
+ * find and the writes go through a RECORD_ID() select because Airtable's
+ * find/create/update responses are keyed by field name.
+ */
+
+import Airtable from 'airtable';
+import { toStoredRecord, type FieldValues, type SelectQuery, type StoredRecord, type TableStore } from './types';
+
+const RECORD_ID_PATTERN = /^rec[a-zA-Z0-9]{14}$/;
+
+export class AirtableTableStore implements TableStore {
+  constructor(
+    private readonly base: Airtable.Base,
+    readonly tableId: string
+  ) {}
+
+  private get table() {
+    return this.base(this.tableId);
+  }
+
+  private toRecord(record: Airtable.Record<Airtable.FieldSet>): StoredRecord {
+    return toStoredRecord(record.id, record._rawJson.createdTime, record.fields as FieldValues);
+  }
+
+  async select(query: SelectQuery = {}): Promise<StoredRecord[]> {
+    const records = await this.table
+      .select({
+        ...(query.filterByFormula && { filterByFormula: query.filterByFormula }),
+        ...(query.maxRecords && { maxRecords: query.maxRecords }),
+        ...(query.sort && { sort: query.sort }),
+        ...(query.fields && { fields: query.fields }),
+        returnFieldsByFieldId: true,
+      })
+      .all();
+    return records.map((record) => this.toRecord(record));
+  }
+
+  async find(recordId: string): Promise<StoredRecord | null> {
+    if (!RECORD_ID_PATTERN.test(recordId)) return null;
+    const [record] = await this.select({ filterByFormula: `RECORD_ID() = '${recordId}'`, maxRecords: 1 });
+    return record || null;
+  }
+
+  private async reload(recordId: string): Promise<StoredRecord> {
+    const record = await this.find(recordId);
+    if (!record) {
+      throw new Error(`Record ${recordId} not found in ${this.tableId}`);
+    }
+    return record;
+  }
+
+  async create(fields: FieldValues): Promise<StoredRecord> {
+    const record = await this.table.create(fields as Airtable.FieldSet);
+    return this.reload(record.id);
+  }
+
+  async update(recordId: string, fields: FieldValues): Promise<StoredRecord> {
+    await this.table.update(recordId, fields as Airtable.FieldSet);
+    return this.reload(recordId);
+  }
+
+  async destroy(recordId: string): Promise<void> {
+    await this.table.destroy(recordId);
+  }
+}
@@ -0,0 +1,30 @@
+import { AUDIO_FILES_FIELD_IDS } from '@/lib/types/teacher';
+import { escapeFormulaString } from './formula';
+import { TableRepository } from './tableRepository';
+import type { StoredRecord } from './types';
+
+type AudioFileType = 'raw' | 'preview' | 'final';
+
+export class AudioFilesRepository extends TableRepository {
+  private listWhere(field: string, value: string, type?: AudioFileType): Promise<StoredRecord[]> {
+    const match = `{${field}} = '${escapeFormulaString(value)}'`;
+    return this.list({
+      filterByFormula: type ? `AND(${match}, {${AUDIO_FILES_FIELD_IDS.type}} = '${type}')` : match,
+    });
+  }
+
+  listForEvent(eventId: string, type?: AudioFileType): Promise<StoredRecord[]> {
+    return this.listWhere(AUDIO_FILES_FIELD_IDS.event_id, eventId, type);
+  }
+
+  listForClass(classId: string, type?: AudioFileType): Promise<StoredRecord[]> {
+    return this.listWhere(AUDIO_FILES_FIELD_IDS.class_id, classId, type);
+  }
+
+  /**
+   * Audio files of a song, by the song record ID kept in the song_id text field
+   */
+  listForSong(songRecordId: string, type?: AudioFileType): Promise<StoredRecord[]> {
+    return this.listWhere(AUDIO_FILES_FIELD_IDS.song_id, songRecordId, type);
+  }
+}
@@ -0,0 +1,33 @@
+import { CLASSES_FIELD_IDS } from '@/lib/types/airtable';
+import { escapeFormulaString } from './formula';
+import { TableRepository } from './tableRepository';
+import type { StoredRecord } from './types';
+
+export class ClassesRepository extends TableRepository {
+  findByClassId(classId: string): Promise<StoredRecord | null> {
+    return this.findFirst(`{${CLASSES_FIELD_IDS.class_id}} = '${escapeFormulaString(classId)}'`);
+  }
+
+  /**
+   * Classes of an event, by the event's canonical event_id
+   */
+  listForEvent(eventId: string): Promise<StoredRecord[]> {
+    return this.listLinkedTo(CLASSES_FIELD_IDS.event_id, eventId);
+  }
+
+  /**
+   * Class record ID -> event record ID, for resolving orders that only
+   * carry a class link
+   */
+  async mapToEvents(): Promise<Map<string, string>> {
+    const records = await this.list({ fields: [CLASSES_FIELD_IDS.event_id] });
+    const map = new Map<string, string>();
+    for (const record of records) {
+      const eventIds = record.get(CLASSES_FIELD_IDS.event_id) as string[] | undefined;
+      if (eventIds?.[0]) {
+        map.set(record.id, eventIds[0]);
+      }
+    }
+    return map;
+  }
+}
@@ -0,0 +1,46 @@
+import { EVENTS_FIELD_IDS } from '@/lib/types/airtable';
+import { escapeFormulaString } from './formula';
+import { TableRepository } from './tableRepository';
+import type { StoredRecord } from './types';
+
+export class EventsRepository extends TableRepository {
+  /**
+   * Event by canonical event_id, falling back to the legacy booking ID
+   */
+  findByEventId(eventId: string): Promise<StoredRecord | null> {
+    const value = escapeFormulaString(eventId);
+    return this.findFirst(
+      `OR({${EVENTS_FIELD_IDS.event_id}} = '${value}', {${EVENTS_FIELD_IDS.legacy_booking_id}} = '${value}')`
+    );
+  }
+
+  /**
+   * Event by the autonumber used in short parent URLs
+   */
+  findByAccessCode(accessCode: number): Promise<StoredRecord | null> {
+    if (!Number.isInteger(accessCode)) return Promise.resolve(null);
+    return this.findFirst(`{${EVENTS_FIELD_IDS.access_code}} = ${accessCode}`);
+  }
+
+  /**
+   * Events dated within [from, to], inclusive (YYYY-MM-DD)
+   */
+  listBetween(from: string, to: string): Promise<StoredRecord[]> {
+    const date = `{${EVENTS_FIELD_IDS.event_date}}`;
+    return this.list({
+      filterByFormula: `AND(IS_AFTER(${date}, DATEADD('${from}', -1, 'days')), IS_BEFORE(${date}, DATEADD('${to}', 1, 'days')))`,
+      sort: [{ field: EVENTS_FIELD_IDS.event_date, direction: 'asc' }],
+    });
+  }
+
+  /**
+   * Events dated before the cutoff (YYYY-MM-DD) whose data has not been
+   * purged by the retention job yet
+   */
+  listDueForDataPurge(cutoffDate: string): Promise<StoredRecord[]> {
+    return this.list({
+      filterByFormula: `AND(IS_BEFORE({${EVENTS_FIELD_IDS.event_date}}, '${escapeFormulaString(cutoffDate)}'), {${EVENTS_FIELD_IDS.data_purged_at}} = BLANK())`,
+      sort: [{ field: EVENTS_FIELD_IDS.event_date, direction: 'asc' }],
+    });
+  }
+}
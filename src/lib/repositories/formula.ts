@@ -0,0 +1,383 @@
+/**
+ * Airtable Formula Evaluator
+ *
+ * Evaluates filterByFormula strings for the in-memory table store. Covers
+ * the functions and operators our queries use; anything else throws a
+ * FormulaError so an unsupported query fails the test instead of silently
+ * matching everything.
+ *
+ * Value semantics follow Airtable: empty fields are blank, blank equals ''
+ * and 0, arrays compare as their ", "-joined text, FIND returns 0 and
+ * SEARCH returns blank when nothing is found.
+ */
+
+export class FormulaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FormulaError';
+  }
+}
+
+export type FormulaValue = string | number | boolean | null | unknown[];
+
+export interface FormulaContext {
+  recordId: string;
+  createdTime: string;
+  /** Value of `{name}` or `{fldID}`, with linked records as primary field values */
+  getField(reference: string): unknown;
+}
+
+type Node =
+  | { type: 'literal'; value: FormulaValue }
+  | { type: 'field'; reference: string }
+  | { type: 'call'; name: string; args: Node[] }
+  | { type: 'binary'; operator: string; left: Node; right: Node }
+  | { type: 'negate'; operand: Node };
+
+type Token =
+  | { type: 'string'; value: string }
+  | { type: 'number'; value: number }
+  | { type: 'field'; value: string }
+  | { type: 'identifier'; value: string }
+  | { type: 'operator'; value: string };
+
+const OPERATORS = ['!=', '<>', '<=', '>=', '=', '<', '>', '&', '+', '-', '*', '/', '(', ')', ','];
+
+/**
+ * Quote a value for use inside a single-quoted formula string
+ */
+export function escapeFormulaString(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/'/g, "\\'");
+}
+
+function tokenize(formula: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < formula.length) {
+    const char = formula[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '{') {
+      const end = formula.indexOf('}', i);
+      if (end === -1) throw new FormulaError(`Unclosed field reference at ${i}`);
+      tokens.push({ type: 'field', value: formula.slice(i + 1, end) });
+      i = end + 1;
+    } else if (char === "'" || char === '"') {
+      let value = '';
+      i++;
+      while (i < formula.length && formula[i] !== char) {
+        if (formula[i] === '\\' && i + 1 < formula.length) i++;
+        value += formula[i];
+        i++;
+      }
+      if (i >= formula.length) throw new FormulaError('Unclosed string literal');
+      tokens.push({ type: 'string', value });
+      i++;
+    } else if (/[0-9.]/.test(char)) {
+      const match = /^[0-9]*\.?[0-9]+/.exec(formula.slice(i));
+      if (!match) throw new FormulaError(`Invalid number at ${i}`);
+      tokens.push({ type: 'number', value: Number(match[0]) });
+      i += match[0].length;
+    } else if (/[A-Za-z_]/.test(char)) {
+      const [identifier] = /^[A-Za-z_][A-Za-z0-9_]*/.exec(formula.slice(i)) || [char];
+      tokens.push({ type: 'identifier', value: identifier.toUpperCase() });
+      i += identifier.length;
+    } else {
+      const operator = OPERATORS.find((op) => formula.startsWith(op, i));
+      if (!operator) throw new FormulaError(`Unexpected character "${char}" at ${i}`);
+      tokens.push({ type: 'operator', value: operator === '<>' ? '!=' : operator });
+      i += operator.length;
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Recursive descent parser. Precedence, lowest first: comparison,
+ * concatenation (&), + -, * /, unary minus.
+ */
+function parse(formula: string): Node {
+  const tokens = tokenize(formula);
+  let position = 0;
+
+  const peekOperator = (...operators: string[]) => {
+    const token = tokens[position];
+    return token?.type === 'operator' && operators.includes(token.value) ? token.value : null;
+  };
+  const expectOperator = (operator: string) => {
+    if (!peekOperator(operator)) throw new FormulaError(`Expected "${operator}" at token ${position}`);
+    position++;
+  };
+
+  const binaryLevel = (operators: string[], next: () => Node) => (): Node => {
+    let left = next();
+    let operator = peekOperator(...operators);
+    while (operator) {
+      position++;
+      left = { type: 'binary', operator, left, right: next() };
+      operator = peekOperator(...operators);
+    }
+    return left;
+  };
+
+  const primary = (): Node => {
+    const token = tokens[position++];
+    if (!token) throw new FormulaError('Unexpected end of formula');
+
+    switch (token.type) {
+      case 'string':
+      case 'number':
+        return { type: 'literal', value: token.value };
+      case 'field':
+        return { type: 'field', reference: token.value };
+      case 'identifier': {
+        if (!peekOperator('(')) {
+          if (token.value === 'TRUE' || token.value === 'FALSE') {
+            return { type: 'literal', value: token.value === 'TRUE' };
+          }
+          throw new FormulaError(`Unexpected identifier ${token.value}`);
+        }
+        position++;
+        const args: Node[] = [];
+        if (!peekOperator(')')) {
+          args.push(comparison());
+          while (peekOperator(',')) {
+            position++;
+            args.push(comparison());
+          }
+        }
+        expectOperator(')');
+        return { type: 'call', name: token.value, args };
+      }
+      case 'operator':
+        if (token.value === '(') {
+          const inner = comparison();
+          expectOperator(')');
+          return inner;
+        }
+        if (token.value === '-') {
+          return { type: 'negate', operand: primary() };
+        }
+        throw new FormulaError(`Unexpected "${token.value}"`);
+    }
+  };
+
+  const product = binaryLevel(['*', '/'], primary);
+  const sum = binaryLevel(['+', '-'], product);
+  const concat = binaryLevel(['&'], sum);
+  const comparison: () => Node = binaryLevel(['=', '!=', '<', '>', '<=', '>='], concat);
+
+  const root = comparison();
+  if (position < tokens.length) {
+    throw new FormulaError(`Unexpected token at ${position}`);
+  }
+  return root;
+}
+
+// ---------------------------------------------------------------------------
+// Value coercion
+// ---------------------------------------------------------------------------
+
+function isBlank(value: unknown): boolean {
+  return value === null || value === undefined || value === '' || (Array.isArray(value) && value.length === 0);
+}
+
+function toText(value: unknown): string {
+  if (isBlank(value)) return '';
+  if (Array.isArray(value)) return value.map(toText).join(', ');
+  if (typeof value === 'boolean') return value ? '1' : '0';
+  return String(value);
+}
+
+function toNumber(value: unknown): number {
+  if (isBlank(value)) return 0;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (typeof value === 'number') return value;
+  return Number(toText(value));
+}
+
+function isTruthy(value: unknown): boolean {
+  if (isBlank(value)) return false;
+  if (typeof value === 'number') return value !== 0 && !Number.isNaN(value);
+  if (typeof value === 'boolean') return value;
+  return true;
+}
+
+function isNumeric(value: unknown): boolean {
+  return typeof value === 'number' || typeof value === 'boolean';
+}
+
+function compare(left: unknown, right: unknown): number {
+  if (isNumeric(left) || isNumeric(right)) {
+    return toNumber(left) - toNumber(right);
+  }
+  const leftText = toText(left);
+  const rightText = toText(right);
+  return leftText < rightText ? -1 : leftText > rightText ? 1 : 0;
+}
+
+function equals(left: unknown, right: unknown): boolean {
+  // BLANK() = '' = 0 = unchecked
+  if (isBlank(left) || isBlank(right)) {
+    return toText(left) === toText(right) || toNumber(left) === toNumber(right);
+  }
+  return compare(left, right) === 0;
+}
+
+function toTime(value: unknown): number | null {
+  if (isBlank(value)) return null;
+  const time = Date.parse(toText(value));
+  return Number.isNaN(time) ? null : time;
+}
+
+const MS_PER_UNIT: Record<string, number> = {
+  milliseconds: 1,
+  seconds: 1000,
+  minutes: 60 * 1000,
+  hours: 60 * 60 * 1000,
+  days: 24 * 60 * 60 * 1000,
+  weeks: 7 * 24 * 60 * 60 * 1000,
+};
+
+function dateAdd(date: unknown, count: number, unit: string): string | null {
+  const time = toTime(date);
+  if (time === null) return null;
+  const normalizedUnit = unit.toLowerCase().replace(/s?$/, 's');
+  const result = new Date(time);
+  if (normalizedUnit === 'months') {
+    result.setUTCMonth(result.getUTCMonth() + count);
+  } else if (normalizedUnit === 'years') {
+    result.setUTCFullYear(result.getUTCFullYear() + count);
+  } else if (MS_PER_UNIT[normalizedUnit]) {
+    result.setTime(time + count * MS_PER_UNIT[normalizedUnit]);
+  } else {
+    throw new FormulaError(`Unsupported DATEADD unit "${unit}"`);
+  }
+  return result.toISOString();
+}
+
+// ---------------------------------------------------------------------------
+// Evaluation
+// ---------------------------------------------------------------------------
+
+function evaluateNode(node: Node, context: FormulaContext): unknown {
+  switch (node.type) {
+    case 'literal':
+      return node.value;
+    case 'field':
+      return context.getField(node.reference);
+    case 'negate':
+      return -toNumber(evaluateNode(node.operand, context));
+    case 'binary':
+      return evaluateBinary(node.operator, evaluateNode(node.left, context), evaluateNode(node.right, context));
+    case 'call':
+      return evaluateCall(node.name, node.args, context);
+  }
+}
+
+function evaluateBinary(operator: string, left: unknown, right: unknown): unknown {
+  switch (operator) {
+    case '=':
+      return equals(left, right);
+    case '!=':
+      return !equals(left, right);
+    case '<':
+      return compare(left, right) < 0;
+    case '>':
+      return compare(left, right) > 0;
+    case '<=':
+      return compare(left, right) <= 0;
+    case '>=':
+      return compare(left, right) >= 0;
+    case '&':
+      return toText(left) + toText(right);
+    case '+':
+      return toNumber(left) + toNumber(right);
+    case '-':
+      return toNumber(left) - toNumber(right);
+    case '*':
+      return toNumber(left) * toNumber(right);
+    case '/':
+      return toNumber(left) / toNumber(right);
+    default:
+      throw new FormulaError(`Unsupported operator ${operator}`);
+  }
+}
+
+function evaluateCall(name: string, argNodes: Node[], context: FormulaContext): unknown {
+  // AND/OR/IF short-circuit like Airtable's
+  if (name === 'AND') return argNodes.every((arg) => isTruthy(evaluateNode(arg, context)));
+  if (name === 'OR') return argNodes.some((arg) => isTruthy(evaluateNode(arg, context)));
+  if (name === 'IF') {
+    const [condition, whenTrue, whenFalse] = argNodes;
+    if (isTruthy(evaluateNode(condition, context))) return evaluateNode(whenTrue, context);
+    return whenFalse ? evaluateNode(whenFalse, context) : null;
+  }
+
+  const args = argNodes.map((arg) => evaluateNode(arg, context));
+
+  switch (name) {
+    case 'NOT':
+      return !isTruthy(args[0]);
+    case 'TRUE':
+      return true;
+    case 'FALSE':
+      return false;
+    case 'BLANK':
+      return null;
+    case 'RECORD_ID':
+      return context.recordId;
+    case 'CREATED_TIME':
+      return context.createdTime;
+    case 'LOWER':
+      return toText(args[0]).toLowerCase();
+    case 'UPPER':
+      return toText(args[0]).toUpperCase();
+    case 'TRIM':
+      return toText(args[0]).trim();
+    case 'LEN':
+      return toText(args[0]).length;
+    case 'CONCATENATE':
+      return args.map(toText).join('');
+    case 'VALUE':
+      return toNumber(args[0]);
+    case 'FIND':
+    case 'SEARCH': {
+      const start = args[2] === undefined ? 0 : Math.max(0, toNumber(args[2]) - 1);
+      const index = toText(args[1]).indexOf(toText(args[0]), start);
+      if (index === -1) return name === 'FIND' ? 0 : null;
+      return index + 1;
+    }
+    case 'ARRAYJOIN': {
+      const separator = args[1] === undefined ? ', ' : toText(args[1]);
+      return Array.isArray(args[0]) ? args[0].map(toText).join(separator) : toText(args[0]);
+    }
+    case 'IS_AFTER':
+    case 'IS_BEFORE':
+    case 'IS_SAME': {
+      const left = toTime(args[0]);
+      const right = toTime(args[1]);
+      if (left === null || right === null) return false;
+      if (name === 'IS_AFTER') return left > right;
+      if (name === 'IS_BEFORE') return left < right;
+      return left === right;
+    }
+    case 'DATEADD':
+      return dateAdd(args[0], toNumber(args[1]), toText(args[2]));
+    default:
+      throw new FormulaError(`Unsupported formula function ${name}()`);
+  }
+}
+
+/**
+ * Parse a filterByFormula string once; the returned predicate tells
+ * whether a record matches. Throws FormulaError on syntax errors and
+ * unsupported functions.
+ */
+export function compileFormula(formula: string): (context: FormulaContext) => boolean {
+  const node = parse(formula);
+  return (context) => isTruthy(evaluateNode(node, context));
+}
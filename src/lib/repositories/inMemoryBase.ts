@@ -0,0 +1,325 @@
+/**
+ * In-Memory Base
+ *
+ * Offline stand-in for the Airtable base. Each table is an InMemoryTableStore
+ * (the TableStore used by the repositories); toAirtableBase() exposes the
+ * same data through the subset of the airtable.js API our services call, so
+ * code that still takes `getBase()` can be tested against it too.
+ *
+ * Mirrors the Airtable behaviour our code depends on:
+ * - empty values ('', false, [], null) are not stored and read as undefined
+ * - writes accept field names or IDs; unknown fields are rejected
+ * - linked record fields must be arrays of record IDs
+ * - filterByFormula sees linked records as their primary field values
+ * - find() and write responses are keyed by field name, select() only by
+ *   field ID with returnFieldsByFieldId
+ */
+
+import Airtable from 'airtable';
+import { compileFormula, FormulaError } from './formula';
+import { TABLE_SCHEMAS, type TableSchema } from './tableSchemas';
+import { toStoredRecord, type FieldValues, type SelectQuery, type StoredRecord, type TableStore } from './types';
+
+export interface SeedRecord {
+  id?: string;
+  createdTime?: string;
+  fields: FieldValues;
+}
+
+interface Row {
+  createdTime: string;
+  fields: FieldValues;
+}
+
+function isEmptyValue(value: unknown): boolean {
+  return (
+    value === null ||
+    value === undefined ||
+    value === '' ||
+    value === false ||
+    (Array.isArray(value) && value.length === 0)
+  );
+}
+
+function copyValue<T>(value: T): T {
+  return Array.isArray(value) ? (value.map(copyValue) as T) : value;
+}
+
+function compareValues(left: unknown, right: unknown): number {
+  if (left === right) return 0;
+  if (left === undefined) return -1;
+  if (right === undefined) return 1;
+  if (typeof left === 'number' && typeof right === 'number') return left - right;
+  return String(left) < String(right) ? -1 : 1;
+}
+
+export class InMemoryTableStore implements TableStore {
+  private rows = new Map<string, Row>();
+  private fieldIds: Set<string>;
+  private fieldNamesById: Map<string, string>;
+
+  constructor(
+    private readonly base: InMemoryBase,
+    readonly tableId: string,
+    private readonly schema: TableSchema | null
+  ) {
+    this.fieldIds = new Set(Object.values(schema?.fields || {}));
+    this.fieldNamesById = new Map(Object.entries(schema?.fields || {}).map(([name, id]) => [id, name]));
+  }
+
+  /**
+   * Field ID for a field name or ID. Tables without a schema accept any key.
+   */
+  resolveField(reference: string): string {
+    if (!this.schema) return reference;
+    if (this.fieldIds.has(reference)) return reference;
+    const fieldId = this.schema.fields[reference];
+    if (!fieldId) {
+      throw new Error(`Unknown field "${reference}" in table ${this.schema.name}`);
+    }
+    return fieldId;
+  }
+
+  fieldName(fieldId: string): string {
+    return this.fieldNamesById.get(fieldId) || fieldId;
+  }
+
+  private writeFields(target: FieldValues, fields: FieldValues): void {
+    for (const [reference, value] of Object.entries(fields)) {
+      const fieldId = this.resolveField(reference);
+      if (this.schema?.links[fieldId] && !isEmptyValue(value)) {
+        if (!Array.isArray(value) || value.some((id) => typeof id !== 'string')) {
+          throw new Error(`Linked field "${this.fieldName(fieldId)}" expects an array of record IDs`);
+        }
+      }
+      if (isEmptyValue(value)) {
+        delete target[fieldId];
+      } else {
+        target[fieldId] = copyValue(value);
+      }
+    }
+  }
+
+  private toRecord(id: string, row: Row, fieldIds?: string[]): StoredRecord {
+    const fields: FieldValues = {};
+    for (const [fieldId, value] of Object.entries(row.fields)) {
+      if (!fieldIds || fieldIds.includes(fieldId)) {
+        fields[fieldId] = copyValue(value);
+      }
+    }
+    return toStoredRecord(id, row.createdTime, fields);
+  }
+
+  /**
+   * Value of the primary field, which is what other tables' formulas see
+   * for a link to this record
+   */
+  primaryValue(recordId: string): unknown {
+    const row = this.rows.get(recordId);
+    if (!row) return undefined;
+    return this.schema ? row.fields[this.schema.primaryField] : recordId;
+  }
+
+  private formulaValue(row: Row, reference: string): unknown {
+    const fieldId = this.resolveField(reference);
+    const value = row.fields[fieldId];
+    const linkedTableId = this.schema?.links[fieldId];
+    if (!linkedTableId || !Array.isArray(value)) return value;
+
+    const linkedTable = this.base.table(linkedTableId);
+    return value
+      .map((linkedId) => linkedTable.primaryValue(linkedId as string))
+      .filter((primary) => primary !== undefined);
+  }
+
+  async select(query: SelectQuery = {}): Promise<StoredRecord[]> {
+    const matches = query.filterByFormula ? compileFormula(query.filterByFormula) : null;
+
+    let entries = Array.from(this.rows.entries()).filter(
+      ([id, row]) =>
+        !matches ||
+        matches({
+          recordId: id,
+          createdTime: row.createdTime,
+          getField: (reference) => this.formulaValue(row, reference),
+        })
+    );
+
+    for (const sort of [...(query.sort || [])].reverse()) {
+      const fieldId = this.resolveField(sort.field);
+      const direction = sort.direction === 'desc' ? -1 : 1;
+      entries = [...entries].sort(([, a], [, b]) => direction * compareValues(a.fields[fieldId], b.fields[fieldId]));
+    }
+
+    if (query.maxRecords) {
+      entries = entries.slice(0, query.maxRecords);
+    }
+
+    const fieldIds = query.fields?.map((field) => this.resolveField(field));
+    return entries.map(([id, row]) => this.toRecord(id, row, fieldIds));
+  }
+
+  async find(recordId: string): Promise<StoredRecord | null> {
+    const row = this.rows.get(recordId);
+    return row ? this.toRecord(recordId, row) : null;
+  }
+
+  async create(fields: FieldValues, seed: Omit<SeedRecord, 'fields'> = {}): Promise<StoredRecord> {
+    const id = seed.id || this.base.nextRecordId();
+    if (this.rows.has(id)) {
+      throw new Error(`Record ${id} already exists in ${this.tableId}`);
+    }
+    const row: Row = { createdTime: seed.createdTime || new Date().toISOString(), fields: {} };
+    this.writeFields(row.fields, fields);
+    this.rows.set(id, row);
+    return this.toRecord(id, row);
+  }
+
+  async update(recordId: string, fields: FieldValues): Promise<StoredRecord> {
+    const row = this.rows.get(recordId);
+    if (!row) {
+      throw new Error(`Record ${recordId} not found in ${this.tableId}`);
+    }
+    this.writeFields(row.fields, fields);
+    return this.toRecord(recordId, row);
+  }
+
+  async destroy(recordId: string): Promise<void> {
+    if (!this.rows.delete(recordId)) {
+      throw new Error(`Record ${recordId} not found in ${this.tableId}`);
+    }
+  }
+
+  /** Synchronous snapshot for test assertions */
+  all(): StoredRecord[] {
+    return Array.from(this.rows.entries()).map(([id, row]) => this.toRecord(id, row));
+  }
+}
+
+export class InMemoryBase {
+  private tables = new Map<string, InMemoryTableStore>();
+  private schemasByKey = new Map<string, TableSchema>();
+  private recordCounter = 0;
+
+  constructor(schemas: TableSchema[] = TABLE_SCHEMAS) {
+    for (const schema of schemas) {
+      this.schemasByKey.set(schema.tableId, schema);
+      this.schemasByKey.set(schema.name, schema);
+    }
+  }
+
+  /**
+   * Table by ID or name. Tables without a schema are created on first use
+   * and accept any field.
+   */
+  table(tableIdOrName: string): InMemoryTableStore {
+    const schema = this.schemasByKey.get(tableIdOrName) || null;
+    const tableId = schema?.tableId || tableIdOrName;
+    let table = this.tables.get(tableId);
+    if (!table) {
+      table = new InMemoryTableStore(this, tableId, schema);
+      this.tables.set(tableId, table);
+    }
+    return table;
+  }
+
+  nextRecordId(): string {
+    this.recordCounter++;
+    return `recMEM${String(this.recordCounter).padStart(11, '0')}`;
+  }
+
+  /**
+   * Insert fixtures. Fields may use names or IDs.
+   */
+  async seed(tableIdOrName: string, records: SeedRecord[]): Promise<StoredRecord[]> {
+    const table = this.table(tableIdOrName);
+    const created: StoredRecord[] = [];
+    for (const { fields, ...seed } of records) {
+      created.push(await table.create(fields, seed));
+    }
+    return created;
+  }
+
+  /**
+   * The same data behind the airtable.js Base API (select/find/create/
+   * update/destroy), for code that calls getAirtableService().getBase()
+   */
+  toAirtableBase(): Airtable.Base {
+    const toAirtableRecord = (table: InMemoryTableStore, record: StoredRecord, byFieldId: boolean) => {
+      const fields: FieldValues = {};
+      for (const [fieldId, value] of Object.entries(record.fields)) {
+        fields[byFieldId ? fieldId : table.fieldName(fieldId)] = value;
+      }
+      return {
+        id: record.id,
+        fields,
+        _rawJson: { id: record.id, createdTime: record.createdTime, fields },
+        get: (field: string) => fields[field],
+      };
+    };
+
+    const notFound = (recordId: string) =>
+      Object.assign(new Error(`Could not find record ${recordId}`), { error: 'NOT_FOUND', statusCode: 404 });
+
+    const tableApi = (tableIdOrName: string) => {
+      const table = this.table(tableIdOrName);
+      const byName = (record: StoredRecord) => toAirtableRecord(table, record, false);
+
+      return {
+        select: (options: SelectQuery & { returnFieldsByFieldId?: boolean; pageSize?: number } = {}) => {
+          const load = async () =>
+            (await table.select(options)).map((record) =>
+              toAirtableRecord(table, record, options.returnFieldsByFieldId === true)
+            );
+          const pageSize = options.pageSize || 100;
+          return {
+            all: load,
+            firstPage: async () => (await load()).slice(0, pageSize),
+            eachPage: async (
+              onPage: (records: ReturnType<typeof byName>[], fetchNextPage: () => void) => void
+            ) => {
+              const records = await load();
+              for (let start = 0; start < records.length; start += pageSize) {
+                let fetchNext = false;
+                onPage(records.slice(start, start + pageSize), () => {
+                  fetchNext = true;
+                });
+                if (!fetchNext) break;
+              }
+            },
+          };
+        },
+        find: async (recordId: string) => {
+          const record = await table.find(recordId);
+          if (!record) throw notFound(recordId);
+          return byName(record);
+        },
+        create: async (input: FieldValues | Array<{ fields: FieldValues }>) => {
+          if (Array.isArray(input)) {
+            return Promise.all(input.map(async (entry) => byName(await table.create(entry.fields))));
+          }
+          return byName(await table.create(input));
+        },
+        update: async (input: string | Array<{ id: string; fields: FieldValues }>, fields?: FieldValues) => {
+          if (Array.isArray(input)) {
+            return Promise.all(input.map(async (entry) => byName(await table.update(entry.id, entry.fields))));
+          }
+          return byName(await table.update(input, fields || {}));
+        },
+        destroy: async (input: string | string[]) => {
+          const ids = Array.isArray(input) ? input : [input];
+          for (const id of ids) {
+            if (!(await table.find(id))) throw notFound(id);
+            await table.destroy(id);
+          }
+          return Array.isArray(input) ? ids.map((id) => ({ id })) : { id: input };
+        },
+      };
+    };
+
+    // Only the subset of the Base API above is implemented
+    return tableApi as unknown as Airtable.Base;
+  }
+}
+
+export { FormulaError };
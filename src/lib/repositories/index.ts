@@ -0,0 +1,83 @@
+/**
+ * Table Repositories
+ *
+ * One repository per core table. Production code gets them from
+ * getRepositories() (backed by the live base); tests swap in an
+ * InMemoryBase with setRepositories(createInMemoryRepositories(base)) and
+ * exercise routes and services offline.
+ */
+
+import Airtable from 'airtable';
+import { getAirtableService } from '@/lib/services/airtableService';
+import {
+  EVENTS_TABLE_ID,
+  CLASSES_TABLE_ID,
+  ORDERS_TABLE_ID,
+  TASKS_TABLE_ID,
+  PARENTS_TABLE_ID,
+  REGISTRATIONS_TABLE_ID,
+} from '@/lib/types/airtable';
+import { SONGS_TABLE_ID, AUDIO_FILES_TABLE_ID } from '@/lib/types/teacher';
+import { AirtableTableStore } from './airtableTableStore';
+import type { InMemoryBase } from './inMemoryBase';
+import type { TableStore } from './types';
+import { EventsRepository } from './events';
+import { ClassesRepository } from './classes';
+import { SongsRepository } from './songs';
+import { AudioFilesRepository } from './audioFiles';
+import { OrdersRepository } from './orders';
+import { TasksRepository } from './tasks';
+import { ParentsRepository } from './parents';
+import { RegistrationsRepository } from './registrations';
+
+export interface Repositories {
+  events: EventsRepository;
+  classes: ClassesRepository;
+  songs: SongsRepository;
+  audioFiles: AudioFilesRepository;
+  orders: OrdersRepository;
+  tasks: TasksRepository;
+  parents: ParentsRepository;
+  registrations: RegistrationsRepository;
+}
+
+export function createRepositories(storeFor: (tableId: string) => TableStore): Repositories {
+  const parents = new ParentsRepository(storeFor(PARENTS_TABLE_ID));
+  return {
+    events: new EventsRepository(storeFor(EVENTS_TABLE_ID)),
+    classes: new ClassesRepository(storeFor(CLASSES_TABLE_ID)),
+    songs: new SongsRepository(storeFor(SONGS_TABLE_ID)),
+    audioFiles: new AudioFilesRepository(storeFor(AUDIO_FILES_TABLE_ID)),
+    orders: new OrdersRepository(storeFor(ORDERS_TABLE_ID), parents),
+    tasks: new TasksRepository(storeFor(TASKS_TABLE_ID)),
+    parents,
+    registrations: new RegistrationsRepository(storeFor(REGISTRATIONS_TABLE_ID)),
+  };
+}
+
+export function createAirtableRepositories(base: Airtable.Base): Repositories {
+  return createRepositories((tableId) => new AirtableTableStore(base, tableId));
+}
+
+export function createInMemoryRepositories(base: InMemoryBase): Repositories {
+  return createRepositories((tableId) => base.table(tableId));
+}
+
+let repositories: Repositories | null = null;
+
+export function getRepositories(): Repositories {
+  if (!repositories) {
+    repositories = createAirtableRepositories(getAirtableService().getBase());
+  }
+  return repositories;
+}
+
+/**
+ * Replace the repositories returned by getRepositories(); null restores
+ * the Airtable-backed default
+ */
+export function setRepositories(replacement: Repositories | null): void {
+  repositories = replacement;
+}
+
+export type { StoredRecord, TableStore, SelectQuery, FieldValues } from './types';
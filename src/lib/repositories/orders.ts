@@ -0,0 +1,44 @@
+import { ORDERS_FIELD_IDS } from '@/lib/types/airtable';
+import { escapeFormulaString } from './formula';
+import { TableRepository } from './tableRepository';
+import type { ParentsRepository } from './parents';
+import type { StoredRecord, TableStore } from './types';
+
+export class OrdersRepository extends TableRepository {
+  constructor(
+    store: TableStore,
+    private readonly parents: ParentsRepository
+  ) {
+    super(store);
+  }
+
+  findByShopifyOrderId(orderId: string): Promise<StoredRecord | null> {
+    return this.findFirst(`{${ORDERS_FIELD_IDS.order_id}} = '${escapeFormulaString(orderId)}'`);
+  }
+
+  /**
+   * Orders of a parent in one of the given payment statuses. The parent is
+   * given by record ID or by the custom parent ID from the session.
+   *
+   * The parent_id link reads as the Parents primary field (the parents_id
+   * autonumber) inside formulas, so the parent is looked up first and the
+   * link is checked again on the results.
+   */
+  async listForParent(
+    parentId: string,
+    paymentStatuses: string[] = ['paid']
+  ): Promise<StoredRecord[]> {
+    const parent = await this.parents.findByRecordOrParentId(parentId);
+    const parentsId = parent?.get(this.parents.primaryField);
+    if (!parent || parentsId === undefined) return [];
+
+    const statuses = paymentStatuses
+      .map((status) => `{${ORDERS_FIELD_IDS.payment_status}} = '${escapeFormulaString(status)}'`)
+      .join(', ');
+    const orders = await this.listLinkedTo(ORDERS_FIELD_IDS.parent_id, parentsId as string | number, `OR(${statuses})`);
+
+    return orders.filter((order) =>
+      ((order.get(ORDERS_FIELD_IDS.parent_id) as string[] | undefined) || []).includes(parent.id)
+    );
+  }
+}
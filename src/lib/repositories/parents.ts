@@ -0,0 +1,29 @@
+import { PARENTS_FIELD_IDS } from '@/lib/types/airtable';
+import { escapeFormulaString } from './formula';
+import { TableRepository } from './tableRepository';
+import type { StoredRecord } from './types';
+
+export class ParentsRepository extends TableRepository {
+  readonly primaryField = PARENTS_FIELD_IDS.parents_id;
+
+  /**
+   * Parent by email, case-insensitive (parents are deduplicated by email)
+   */
+  findByEmail(email: string): Promise<StoredRecord | null> {
+    return this.findFirst(
+      `LOWER({${PARENTS_FIELD_IDS.parent_email}}) = LOWER('${escapeFormulaString(email.trim())}')`
+    );
+  }
+
+  findByParentId(parentId: string): Promise<StoredRecord | null> {
+    return this.findFirst(`{${PARENTS_FIELD_IDS.parent_id}} = '${escapeFormulaString(parentId)}'`);
+  }
+
+  /**
+   * Parent by record ID, or by the custom parent ID (PAR-…) that the parent
+   * session carries
+   */
+  async findByRecordOrParentId(id: string): Promise<StoredRecord | null> {
+    return (await this.findById(id)) ?? this.findByParentId(id);
+  }
+}
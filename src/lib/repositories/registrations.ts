@@ -0,0 +1,26 @@
+import { REGISTRATIONS_FIELD_IDS } from '@/lib/types/airtable';
+import { TableRepository } from './tableRepository';
+import type { StoredRecord } from './types';
+
+export class RegistrationsRepository extends TableRepository {
+  /**
+   * Registrations of a class, by the class's class_id
+   */
+  listForClass(classId: string): Promise<StoredRecord[]> {
+    return this.listLinkedTo(REGISTRATIONS_FIELD_IDS.class_id, classId);
+  }
+
+  /**
+   * Registrations of an event, by the event's canonical event_id
+   */
+  listForEvent(eventId: string): Promise<StoredRecord[]> {
+    return this.listLinkedTo(REGISTRATIONS_FIELD_IDS.event_id, eventId);
+  }
+
+  /**
+   * Registrations of a parent, by the parent's parents_id autonumber
+   */
+  listForParent(parentsId: number): Promise<StoredRecord[]> {
+    return this.listLinkedTo(REGISTRATIONS_FIELD_IDS.parent_id, parentsId);
+  }
+}
@@ -0,0 +1,36 @@
+import { SONGS_FIELD_IDS } from '@/lib/types/teacher';
+import { SONGS_LINKED_FIELD_IDS } from '@/lib/types/airtable';
+import { escapeFormulaString } from './formula';
+import { TableRepository } from './tableRepository';
+import type { StoredRecord } from './types';
+
+const BY_SETLIST_ORDER = [{ field: SONGS_FIELD_IDS.order, direction: 'asc' as const }];
+
+export class SongsRepository extends TableRepository {
+  /**
+   * Songs of a class in setlist order, by the class's class_id text field
+   */
+  listForClass(classId: string): Promise<StoredRecord[]> {
+    return this.list({
+      filterByFormula: `{${SONGS_FIELD_IDS.class_id}} = '${escapeFormulaString(classId)}'`,
+      sort: BY_SETLIST_ORDER,
+    });
+  }
+
+  /**
+   * Songs of an event in setlist order, by the event's event_id text field
+   */
+  listForEvent(eventId: string): Promise<StoredRecord[]> {
+    return this.list({
+      filterByFormula: `{${SONGS_FIELD_IDS.event_id}} = '${escapeFormulaString(eventId)}'`,
+      sort: BY_SETLIST_ORDER,
+    });
+  }
+
+  /**
+   * Songs linked to an event record (normalized tables), by event_id
+   */
+  listLinkedToEvent(eventId: string): Promise<StoredRecord[]> {
+    return this.listLinkedTo(SONGS_LINKED_FIELD_IDS.event_link, eventId);
+  }
+}
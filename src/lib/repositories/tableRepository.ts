@@ -0,0 +1,53 @@
+/**
+ * Table Repository
+ *
+ * Base class for the per-table repositories. Holds the TableStore and the
+ * generic record operations; subclasses add the queries their table is
+ * actually read with.
+ */
+
+import { escapeFormulaString } from './formula';
+import type { FieldValues, SelectQuery, StoredRecord, TableStore } from './types';
+
+export abstract class TableRepository {
+  constructor(protected readonly store: TableStore) {}
+
+  get tableId(): string {
+    return this.store.tableId;
+  }
+
+  findById(recordId: string): Promise<StoredRecord | null> {
+    return this.store.find(recordId);
+  }
+
+  list(query: SelectQuery = {}): Promise<StoredRecord[]> {
+    return this.store.select(query);
+  }
+
+  create(fields: FieldValues): Promise<StoredRecord> {
+    return this.store.create(fields);
+  }
+
+  update(recordId: string, fields: FieldValues): Promise<StoredRecord> {
+    return this.store.update(recordId, fields);
+  }
+
+  destroy(recordId: string): Promise<void> {
+    return this.store.destroy(recordId);
+  }
+
+  protected async findFirst(filterByFormula: string): Promise<StoredRecord | null> {
+    const [record] = await this.store.select({ filterByFormula, maxRecords: 1 });
+    return record || null;
+  }
+
+  /**
+   * Records whose linked field contains a record with the given primary
+   * value. Formulas see linked records as primary values, so the delimiters
+   * keep "12" from matching "123".
+   */
+  protected listLinkedTo(linkFieldId: string, primaryValue: string | number, extra?: string): Promise<StoredRecord[]> {
+    const linked = `FIND(',${escapeFormulaString(String(primaryValue))},', ',' & ARRAYJOIN({${linkFieldId}}, ',') & ',')`;
+    return this.store.select({ filterByFormula: extra ? `AND(${linked}, ${extra})` : linked });
+  }
+}
@@ -0,0 +1,127 @@
+/**
+ * Table Schemas
+ *
+ * What the in-memory store needs to know about the tables behind the
+ * repositories: field names and IDs (from the *_FIELD_IDS maps, whose keys
+ * are the Airtable field names), the primary field, and which fields link
+ * to which table. Airtable formulas see linked records as their primary
+ * field values, not record IDs, and the in-memory store does the same.
+ */
+
+import {
+  EVENTS_TABLE_ID,
+  EVENTS_FIELD_IDS,
+  CLASSES_TABLE_ID,
+  CLASSES_FIELD_IDS,
+  PARENTS_TABLE_ID,
+  PARENTS_FIELD_IDS,
+  REGISTRATIONS_TABLE_ID,
+  REGISTRATIONS_FIELD_IDS,
+  SONGS_LINKED_FIELD_IDS,
+  AUDIO_FILES_LINKED_FIELD_IDS,
+  ORDERS_TABLE_ID,
+  ORDERS_FIELD_IDS,
+  TASKS_TABLE_ID,
+  TASKS_FIELD_IDS,
+  REPERTOIRE_TABLE_ID,
+} from '@/lib/types/airtable';
+import {
+  SONGS_TABLE_ID,
+  SONGS_FIELD_IDS,
+  AUDIO_FILES_TABLE_ID,
+  AUDIO_FILES_FIELD_IDS,
+} from '@/lib/types/teacher';
+
+export interface TableSchema {
+  tableId: string;
+  name: string;
+  /** Field ID of the primary field */
+  primaryField: string;
+  /** Field name -> field ID */
+  fields: Record<string, string>;
+  /** Linked record field ID -> linked table ID */
+  links: Record<string, string>;
+}
+
+export const TABLE_SCHEMAS: TableSchema[] = [
+  {
+    tableId: EVENTS_TABLE_ID,
+    name: 'Events',
+    primaryField: EVENTS_FIELD_IDS.event_id,
+    fields: EVENTS_FIELD_IDS,
+    links: {
+      [EVENTS_FIELD_IDS.classes]: CLASSES_TABLE_ID,
+    },
+  },
+  {
+    tableId: CLASSES_TABLE_ID,
+    name: 'Classes',
+    primaryField: CLASSES_FIELD_IDS.class_id,
+    fields: CLASSES_FIELD_IDS,
+    links: {
+      [CLASSES_FIELD_IDS.event_id]: EVENTS_TABLE_ID,
+      [CLASSES_FIELD_IDS.registrations]: REGISTRATIONS_TABLE_ID,
+    },
+  },
+  {
+    tableId: SONGS_TABLE_ID,
+    name: 'Songs',
+    primaryField: SONGS_FIELD_IDS.title,
+    fields: { ...SONGS_FIELD_IDS, ...SONGS_LINKED_FIELD_IDS },
+    links: {
+      [SONGS_LINKED_FIELD_IDS.class_link]: CLASSES_TABLE_ID,
+      [SONGS_LINKED_FIELD_IDS.event_link]: EVENTS_TABLE_ID,
+      [SONGS_LINKED_FIELD_IDS.repertoire_work]: REPERTOIRE_TABLE_ID,
+    },
+  },
+  {
+    tableId: AUDIO_FILES_TABLE_ID,
+    name: 'AudioFiles',
+    primaryField: AUDIO_FILES_FIELD_IDS.filename,
+    fields: { ...AUDIO_FILES_FIELD_IDS, ...AUDIO_FILES_LINKED_FIELD_IDS },
+    links: {
+      [AUDIO_FILES_LINKED_FIELD_IDS.class_link]: CLASSES_TABLE_ID,
+      [AUDIO_FILES_LINKED_FIELD_IDS.event_link]: EVENTS_TABLE_ID,
+      [AUDIO_FILES_LINKED_FIELD_IDS.song_link]: SONGS_TABLE_ID,
+    },
+  },
+  {
+    tableId: ORDERS_TABLE_ID,
+    name: 'Orders',
+    primaryField: ORDERS_FIELD_IDS.order_id,
+    fields: ORDERS_FIELD_IDS,
+    links: {
+      [ORDERS_FIELD_IDS.parent_id]: PARENTS_TABLE_ID,
+      [ORDERS_FIELD_IDS.event_id]: EVENTS_TABLE_ID,
+      [ORDERS_FIELD_IDS.class_id]: CLASSES_TABLE_ID,
+    },
+  },
+  {
+    tableId: TASKS_TABLE_ID,
+    name: 'Tasks',
+    primaryField: TASKS_FIELD_IDS.task_id,
+    fields: TASKS_FIELD_IDS,
+    links: {
+      [TASKS_FIELD_IDS.event_id]: EVENTS_TABLE_ID,
+      [TASKS_FIELD_IDS.parent_task_id]: TASKS_TABLE_ID,
+    },
+  },
+  {
+    tableId: PARENTS_TABLE_ID,
+    name: 'Parents',
+    primaryField: PARENTS_FIELD_IDS.parents_id,
+    fields: PARENTS_FIELD_IDS,
+    links: {},
+  },
+  {
+    tableId: REGISTRATIONS_TABLE_ID,
+    name: 'Registrations',
+    primaryField: REGISTRATIONS_FIELD_IDS.Id,
+    fields: REGISTRATIONS_FIELD_IDS,
+    links: {
+      [REGISTRATIONS_FIELD_IDS.event_id]: EVENTS_TABLE_ID,
+      [REGISTRATIONS_FIELD_IDS.parent_id]: PARENTS_TABLE_ID,
+      [REGISTRATIONS_FIELD_IDS.class_id]: CLASSES_TABLE_ID,
+    },
+  },
+];
@@ -0,0 +1,23 @@
+import { TASKS_FIELD_IDS } from '@/lib/types/airtable';
+import { escapeFormulaString } from './formula';
+import { TableRepository } from './tableRepository';
+import type { StoredRecord } from './types';
+
+export class TasksRepository extends TableRepository {
+  /**
+   * Tasks of an event by deadline, by the event's canonical event_id
+   */
+  async listForEvent(eventId: string): Promise<StoredRecord[]> {
+    const tasks = await this.listLinkedTo(TASKS_FIELD_IDS.event_id, eventId);
+    return tasks.sort((a, b) =>
+      String(a.get(TASKS_FIELD_IDS.deadline) || '').localeCompare(String(b.get(TASKS_FIELD_IDS.deadline) || ''))
+    );
+  }
+
+  listByStatus(status: string): Promise<StoredRecord[]> {
+    return this.list({
+      filterByFormula: `{${TASKS_FIELD_IDS.status}} = '${escapeFormulaString(status)}'`,
+      sort: [{ field: TASKS_FIELD_IDS.deadline, direction: 'asc' }],
+    });
+  }
+}
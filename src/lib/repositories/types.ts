@@ -0,0 +1,40 @@
+/**
+ * Repository Types
+ *
+ * A TableStore is the persistence boundary for one Airtable table. Records
+ * are always keyed by field ID, the same as the rest of the codebase
+ * (`returnFieldsByFieldId: true`), so `record.get(X_FIELD_IDS.field)` works
+ * unchanged on both implementations.
+ */
+
+export type FieldValues = Record<string, unknown>;
+
+export interface StoredRecord {
+  id: string;
+  createdTime: string;
+  fields: FieldValues;
+  get(fieldId: string): unknown;
+}
+
+export interface SelectQuery {
+  filterByFormula?: string;
+  maxRecords?: number;
+  sort?: Array<{ field: string; direction?: 'asc' | 'desc' }>;
+  /** Field IDs to return (default: all) */
+  fields?: string[];
+}
+
+export interface TableStore {
+  readonly tableId: string;
+  select(query?: SelectQuery): Promise<StoredRecord[]>;
+  /** Null when the record does not exist */
+  find(recordId: string): Promise<StoredRecord | null>;
+  create(fields: FieldValues): Promise<StoredRecord>;
+  /** Merges into the existing fields; null clears a field */
+  update(recordId: string, fields: FieldValues): Promise<StoredRecord>;
+  destroy(recordId: string): Promise<void>;
+}
+
+export function toStoredRecord(id: string, createdTime: string, fields: FieldValues): StoredRecord {
+  return { id, createdTime, fields, get: (fieldId: string) => fields[fieldId] };
+}
@@ -1,6 +1,8 @@
 import Airtable, { FieldSet, Table } from 'airtable';
+import crypto from 'crypto';
 import { ENGINEER_IDS, getEngineerIdForTrack } from '@/lib/config/engineers';
 import { localeCompareSafe } from '@/lib/utils/localeCompareSafe';
+import { appendStageChange, parseStageHistory } from '@/lib/utils/leadPipeline';
 import {
   ParentJourney,
   AirtableRecord,
@@ -38,6 +40,8 @@ import {
   Class,
   Parent,
   Registration,
+  ParentMagicLinkResult,
+  PARENT_MAGIC_LINK_EXPIRY_MS,
   EVENTS_TABLE_ID,
   EVENTS_FIELD_IDS,
   CLASSES_TABLE_ID,
@@ -70,6 +74,16 @@ import { ManualCost } from '@/lib/types/analytics';
 import { generateEventId } from '@/lib/utils/eventIdentifiers';
 import { aggregateEventTotals, AggregableClass } from '@/lib/utils/eventAggregation';
 import { withRetry } from '@/lib/utils/withRetry';
+import { parseTemplateVariants } from '@/lib/utils/emailVariants';
+import { parseEmailBlocks } from '@/lib/utils/emailBlocks';
+import { appendConsentChoices, getCurrentConsents, parseConsentHistory, type ChildConsents, type ConsentChoices } from '@/lib/utils/childConsent';
+import {
+  ParentEmailPreferences,
+  getParentEmailPreferences,
+  isParentEmailCategory,
+  parseEmailOptOuts,
+  toParentPreferenceFields,
+} from '@/lib/utils/emailPreferences';
 import {
   TeacherResource,
   TEACHER_RESOURCES_TABLE_ID,
@@ -78,10 +92,13 @@ import {
 import {
   EmailTemplate,
   EmailLog,
+  EmailDeliveryStatus,
+  EmailLogDeliveryUpdate,
   Audience,
   CreateEmailTemplateInput,
   UpdateEmailTemplateInput,
   CreateEmailLogInput,
+  EmailLogRecipientType,
   EMAIL_TEMPLATES_TABLE_ID,
   EMAIL_TEMPLATES_FIELD_IDS,
   EMAIL_LOGS_TABLE_ID,
@@ -130,6 +147,11 @@ function extractErrorMessage(error: unknown): string {
   return String(error);
 }
 
+/** Parent login tokens are stored hashed so a leaked Parents row cannot be replayed */
+function hashMagicLinkToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
 class AirtableService {
   private base: Airtable.Base;
   private static instance: AirtableService;
@@ -227,6 +249,7 @@ class AirtableService {
         parent_first_name: record.fields[PARENTS_FIELD_IDS.parent_first_name] as string,
         parent_telephone: record.fields[PARENTS_FIELD_IDS.parent_telephone] as string,
         email_campaigns: record.fields[PARENTS_FIELD_IDS.email_campaigns] as 'yes' | 'no',
+        email_opt_outs: parseEmailOptOuts(record.fields[PARENTS_FIELD_IDS.email_opt_outs]),
         created_at: record.fields[PARENTS_FIELD_IDS.created_at] as string,
       };
     } catch (error) {
@@ -261,6 +284,7 @@ class AirtableService {
         parent_first_name: record.fields[PARENTS_FIELD_IDS.parent_first_name] as string,
         parent_telephone: record.fields[PARENTS_FIELD_IDS.parent_telephone] as string,
         email_campaigns: record.fields[PARENTS_FIELD_IDS.email_campaigns] as 'yes' | 'no',
+        email_opt_outs: parseEmailOptOuts(record.fields[PARENTS_FIELD_IDS.email_opt_outs]),
         created_at: record.fields[PARENTS_FIELD_IDS.created_at] as string,
       }));
     } catch (error) {
@@ -303,6 +327,7 @@ class AirtableService {
         legacy_record: record.fields[REGISTRATIONS_FIELD_IDS.legacy_record] as string,
         registration_date: record.fields[REGISTRATIONS_FIELD_IDS.registration_date] as string,
         registration_status: record.fields[REGISTRATIONS_FIELD_IDS.registration_status] as string,
+        consent_history: parseConsentHistory(record.fields[REGISTRATIONS_FIELD_IDS.consent_history]),
       }));
     } catch (error) {
       console.error('Error querying registrations by parent:', error);
@@ -2053,6 +2078,96 @@ class AirtableService {
     }
   }
 
+  /**
+   * Per-category email preferences of the parent with this email, for the
+   * preference center. Returns null if no parent exists for the email.
+   */
+  async getParentEmailPreferencesByEmail(email: string): Promise<ParentEmailPreferences | null> {
+    const parent = await this.queryParentByEmail(email);
+    return parent ? getParentEmailPreferences(parent) : null;
+  }
+
+  /**
+   * Store the categories a parent chose in the preference center. Turning
+   * everything off is the same as the one-click unsubscribe.
+   * Returns false if no parent exists for the email.
+   */
+  async updateParentEmailPreferencesByEmail(
+    email: string,
+    preferences: Partial<ParentEmailPreferences>
+  ): Promise<boolean> {
+    const parent = await this.queryParentByEmail(email);
+    if (!parent) return false;
+
+    const fields = toParentPreferenceFields(preferences);
+    await this.parentsTable!.update(parent.id, {
+      [PARENTS_FIELD_IDS.email_campaigns]: fields.email_campaigns,
+      [PARENTS_FIELD_IDS.email_opt_outs]: fields.email_opt_outs,
+    });
+    return true;
+  }
+
+  /**
+   * Issue a one-time login token for the parent with this email.
+   * Only the SHA-256 hash is stored on the Parents record; the raw token is
+   * returned so it can be put into the emailed link.
+   * Returns null if no parent exists for the email.
+   */
+  async createParentMagicLinkToken(email: string): Promise<string | null> {
+    const parent = await this.queryParentByEmail(email);
+    if (!parent) return null;
+
+    const token = crypto.randomBytes(32).toString('hex');
+    const expiresAt = new Date(Date.now() + PARENT_MAGIC_LINK_EXPIRY_MS).toISOString();
+
+    try {
+      await this.base(PARENTS_TABLE_ID).update(parent.id, {
+        [PARENTS_FIELD_IDS.magic_link_token_hash]: hashMagicLinkToken(token),
+        [PARENTS_FIELD_IDS.magic_link_expires_at]: expiresAt,
+      });
+    } catch (error) {
+      console.error('Error storing parent magic link token:', error);
+      throw new Error(`Failed to generate token: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    return token;
+  }
+
+  /**
+   * Verify a parent login token and invalidate it (one-time use).
+   * Expired tokens are cleared as well so they cannot be retried.
+   */
+  async consumeParentMagicLinkToken(token: string): Promise<ParentMagicLinkResult> {
+    if (!/^[a-f0-9]{64}$/.test(token)) return { status: 'invalid' };
+
+    const records = await this.base(PARENTS_TABLE_ID)
+      .select({
+        filterByFormula: `{${PARENTS_FIELD_IDS.magic_link_token_hash}} = '${hashMagicLinkToken(token)}'`,
+        maxRecords: 1,
+        returnFieldsByFieldId: true,
+      })
+      .firstPage();
+
+    if (records.length === 0) return { status: 'invalid' };
+
+    const record = records[0];
+    const expiresAt = record.fields[PARENTS_FIELD_IDS.magic_link_expires_at] as string | undefined;
+
+    await this.base(PARENTS_TABLE_ID).update(record.id, {
+      [PARENTS_FIELD_IDS.magic_link_token_hash]: '',
+      [PARENTS_FIELD_IDS.magic_link_expires_at]: null as any,
+    });
+
+    if (!expiresAt || new Date(expiresAt).getTime() < Date.now()) {
+      return { status: 'expired' };
+    }
+
+    return {
+      status: 'valid',
+      email: (record.fields[PARENTS_FIELD_IDS.parent_email] as string) || '',
+    };
+  }
+
   // ==================== Event Management ====================
 
   // Get unique class sessions from parent journey records
@@ -4508,6 +4623,7 @@ class AirtableService {
       eventType: string;
       isSchulsong: boolean;
       audioPipelineStage?: string;
+      masteringPreset?: string;
       assignedStaff?: { name: string; phone?: string };
       classes: Array<{
         classId: string;
@@ -4581,6 +4697,7 @@ class AirtableService {
           eventType: record.fields[EVENTS_FIELD_IDS.event_type] as string,
           isSchulsong: (record.fields[EVENTS_FIELD_IDS.is_schulsong] as boolean) || false,
           audioPipelineStage: record.fields[EVENTS_FIELD_IDS.audio_pipeline_stage] as string | undefined,
+          masteringPreset: record.fields[EVENTS_FIELD_IDS.mastering_preset] as string | undefined,
           assignedStaff,
           classes,
         },
@@ -5373,6 +5490,8 @@ class AirtableService {
       estimatedDate: fields[LEADS_FIELD_IDS.estimated_date] as string | undefined,
       estimatedMonth: fields[LEADS_FIELD_IDS.estimated_month] as string | undefined,
       convertedBookingId: convertedBookingArr?.[0],
+      stageHistory: parseStageHistory(fields[LEADS_FIELD_IDS.stage_history]),
+      nurturePaused: fields[LEADS_FIELD_IDS.nurture_paused] as boolean | undefined,
       createdAt: record.createdTime || '',
       updatedAt: '',
     };
@@ -5440,6 +5559,7 @@ class AirtableService {
         [LEADS_FIELD_IDS.contact_person]: data.contactPerson,
         [LEADS_FIELD_IDS.stage]: 'New' as LeadStage,
         [LEADS_FIELD_IDS.call_notes]: JSON.stringify([initialCallNote]),
+        [LEADS_FIELD_IDS.stage_history]: JSON.stringify(appendStageChange([], 'New')),
         [LEADS_FIELD_IDS.einrichtung]: [einrichtung.id],
       };
 
@@ -5536,6 +5656,7 @@ class AirtableService {
   /**
    * Update an existing lead record
    * Only updates fields that are explicitly provided (uses !== undefined checks)
+   * A stage change is also appended to stage_history for the funnel report
    */
   async updateLead(leadId: string, data: {
     schoolName?: string;
@@ -5560,10 +5681,20 @@ class AirtableService {
     estimatedDate?: string | null;
     estimatedMonth?: string | null;
     convertedBookingId?: string | null;
+    nurturePaused?: boolean;
   }): Promise<Lead> {
     try {
       const fields: Record<string, any> = {};
 
+      if (data.stage !== undefined) {
+        const current = await this.getLeadById(leadId);
+        if (current.stage !== data.stage) {
+          fields[LEADS_FIELD_IDS.stage_history] = JSON.stringify(
+            appendStageChange(current.stageHistory, data.stage)
+          );
+        }
+      }
+
       if (data.schoolName !== undefined) {
         fields[LEADS_FIELD_IDS.school_name] = data.schoolName;
       }
@@ -5630,6 +5761,9 @@ class AirtableService {
       if (data.convertedBookingId !== undefined) {
         fields[LEADS_FIELD_IDS.converted_booking_id] = data.convertedBookingId ? [data.convertedBookingId] : [];
       }
+      if (data.nurturePaused !== undefined) {
+        fields[LEADS_FIELD_IDS.nurture_paused] = data.nurturePaused;
+      }
 
       await this.base(LEADS_TABLE_ID).update(leadId, fields);
 
@@ -6038,6 +6172,8 @@ class AirtableService {
       tracklist_finalized_at?: string | null;
       schulsong_tracklist_title?: string | null;
       schulsong_tracklist_class?: string | null;
+      mastering_preset?: string | null;
+      timeline_template?: string | null;
     }
   ): Promise<Event> {
     try {
@@ -6100,6 +6236,12 @@ class AirtableService {
       if (updates.schulsong_tracklist_class !== undefined) {
         updateFields[EVENTS_FIELD_IDS.schulsong_tracklist_class] = updates.schulsong_tracklist_class;
       }
+      if (updates.mastering_preset !== undefined) {
+        updateFields[EVENTS_FIELD_IDS.mastering_preset] = updates.mastering_preset;
+      }
+      if (updates.timeline_template !== undefined) {
+        updateFields[EVENTS_FIELD_IDS.timeline_template] = updates.timeline_template;
+      }
 
       if (Object.keys(updateFields).length === 0) {
         // No updates provided, just return the current event
@@ -6237,6 +6379,9 @@ class AirtableService {
         is_minimusikertag: record.fields[EVENTS_FIELD_IDS.is_minimusikertag] as boolean | undefined,
         status: record.fields[EVENTS_FIELD_IDS.status] as Event['status'] | undefined,
         timeline_overrides: record.fields[EVENTS_FIELD_IDS.timeline_overrides] as string | undefined,
+        estimated_children: record.fields[EVENTS_FIELD_IDS.estimated_children] as number | undefined,
+        scs_shirts_included: record.fields[EVENTS_FIELD_IDS.scs_shirts_included] as boolean | undefined,
+        timeline_template: record.fields[EVENTS_FIELD_IDS.timeline_template] as string | undefined,
       }));
     } catch (error) {
       console.error('Error fetching confirmed events:', error);
@@ -6840,6 +6985,8 @@ class AirtableService {
       tracklist_finalized_at: val(EVENTS_FIELD_IDS.tracklist_finalized_at, 'tracklist_finalized_at') as string | undefined,
       schulsong_tracklist_title: val(EVENTS_FIELD_IDS.schulsong_tracklist_title, 'schulsong_tracklist_title') as string | undefined,
       schulsong_tracklist_class: val(EVENTS_FIELD_IDS.schulsong_tracklist_class, 'schulsong_tracklist_class') as string | undefined,
+      mastering_preset: val(EVENTS_FIELD_IDS.mastering_preset, 'mastering_preset') as string | undefined,
+      timeline_template: val(EVENTS_FIELD_IDS.timeline_template, 'timeline_template') as string | undefined,
     };
   }
 
@@ -7250,6 +7397,7 @@ class AirtableService {
         legacy_record: record.fields[REGISTRATIONS_FIELD_IDS.legacy_record] as string | undefined,
         registration_date: record.fields[REGISTRATIONS_FIELD_IDS.registration_date] as string | undefined,
         registration_status: record.fields[REGISTRATIONS_FIELD_IDS.registration_status] as string | undefined,
+        consent_history: parseConsentHistory(record.fields[REGISTRATIONS_FIELD_IDS.consent_history]),
       }));
     } catch (error) {
       console.error('Error fetching registrations by event ID:', error);
@@ -7283,6 +7431,7 @@ class AirtableService {
         parent_first_name: (record.fields[PARENTS_FIELD_IDS.parent_first_name] as string) || '',
         parent_telephone: (record.fields[PARENTS_FIELD_IDS.parent_telephone] as string) || '',
         email_campaigns: record.fields[PARENTS_FIELD_IDS.email_campaigns] as 'yes' | 'no' | undefined,
+        email_opt_outs: parseEmailOptOuts(record.fields[PARENTS_FIELD_IDS.email_opt_outs]),
         created_at: (record.fields[PARENTS_FIELD_IDS.created_at] as string) || '',
       };
     } catch (error) {
@@ -7422,6 +7571,8 @@ class AirtableService {
       audience = ['teacher', 'parent'];
     }
 
+    const emailCategory = record.get(EMAIL_TEMPLATES_FIELD_IDS.email_category);
+
     return {
       id: record.id,
       name: (record.get(EMAIL_TEMPLATES_FIELD_IDS.name) as string) || '',
@@ -7439,6 +7590,9 @@ class AirtableService {
       templateType: (record.get(EMAIL_TEMPLATES_FIELD_IDS.template_type) as 'timeline' | 'trigger') || undefined,
       triggerSlug: (record.get(EMAIL_TEMPLATES_FIELD_IDS.trigger_slug) as string) || undefined,
       triggerDescription: (record.get(EMAIL_TEMPLATES_FIELD_IDS.trigger_description) as string) || undefined,
+      variants: parseTemplateVariants(record.get(EMAIL_TEMPLATES_FIELD_IDS.variants)),
+      bodyBlocks: parseEmailBlocks(record.get(EMAIL_TEMPLATES_FIELD_IDS.body_blocks)),
+      emailCategory: isParentEmailCategory(emailCategory) ? emailCategory : undefined,
     };
   }
 
@@ -7455,11 +7609,18 @@ class AirtableService {
       templateName: (record.get(EMAIL_LOGS_FIELD_IDS.template_name) as string) || '',
       eventId,
       recipientEmail: (record.get(EMAIL_LOGS_FIELD_IDS.recipient_email) as string) || '',
-      recipientType: (record.get(EMAIL_LOGS_FIELD_IDS.recipient_type) as 'teacher' | 'parent') || 'parent',
+      recipientType: (record.get(EMAIL_LOGS_FIELD_IDS.recipient_type) as EmailLogRecipientType) || 'parent',
       sentAt: (record.get(EMAIL_LOGS_FIELD_IDS.sent_at) as string) || '',
       status: (record.get(EMAIL_LOGS_FIELD_IDS.status) as 'sent' | 'failed' | 'skipped') || 'failed',
       errorMessage: (record.get(EMAIL_LOGS_FIELD_IDS.error_message) as string) || undefined,
       resendMessageId: (record.get(EMAIL_LOGS_FIELD_IDS.resend_message_id) as string) || undefined,
+      deliveryStatus: (record.get(EMAIL_LOGS_FIELD_IDS.delivery_status) as EmailDeliveryStatus) || undefined,
+      deliveryUpdatedAt: (record.get(EMAIL_LOGS_FIELD_IDS.delivery_updated_at) as string) || undefined,
+      openedAt: (record.get(EMAIL_LOGS_FIELD_IDS.opened_at) as string) || undefined,
+      deliveryDetail: (record.get(EMAIL_LOGS_FIELD_IDS.delivery_detail) as string) || undefined,
+      variant: (record.get(EMAIL_LOGS_FIELD_IDS.variant) as string) || undefined,
+      clickedAt: (record.get(EMAIL_LOGS_FIELD_IDS.clicked_at) as string) || undefined,
+      shopClickedAt: (record.get(EMAIL_LOGS_FIELD_IDS.shop_clicked_at) as string) || undefined,
     };
   }
 
@@ -7545,6 +7706,9 @@ class AirtableService {
       if (data.templateType) fields[EMAIL_TEMPLATES_FIELD_IDS.template_type] = data.templateType;
       if (data.triggerSlug) fields[EMAIL_TEMPLATES_FIELD_IDS.trigger_slug] = data.triggerSlug;
       if (data.triggerDescription) fields[EMAIL_TEMPLATES_FIELD_IDS.trigger_description] = data.triggerDescription;
+      if (data.variants?.length) fields[EMAIL_TEMPLATES_FIELD_IDS.variants] = JSON.stringify(data.variants);
+      if (data.bodyBlocks?.length) fields[EMAIL_TEMPLATES_FIELD_IDS.body_blocks] = JSON.stringify(data.bodyBlocks);
+      if (data.emailCategory) fields[EMAIL_TEMPLATES_FIELD_IDS.email_category] = data.emailCategory;
 
       const record = await this.emailTemplatesTable!.create(fields);
 
@@ -7580,6 +7744,13 @@ class AirtableService {
       if (data.templateType !== undefined) fields[EMAIL_TEMPLATES_FIELD_IDS.template_type] = data.templateType;
       if (data.triggerSlug !== undefined) fields[EMAIL_TEMPLATES_FIELD_IDS.trigger_slug] = data.triggerSlug;
       if (data.triggerDescription !== undefined) fields[EMAIL_TEMPLATES_FIELD_IDS.trigger_description] = data.triggerDescription;
+      if (data.variants !== undefined) {
+        fields[EMAIL_TEMPLATES_FIELD_IDS.variants] = data.variants.length ? JSON.stringify(data.variants) : '';
+      }
+      if (data.bodyBlocks !== undefined) {
+        fields[EMAIL_TEMPLATES_FIELD_IDS.body_blocks] = data.bodyBlocks.length ? JSON.stringify(data.bodyBlocks) : '';
+      }
+      if (data.emailCategory !== undefined) fields[EMAIL_TEMPLATES_FIELD_IDS.email_category] = data.emailCategory;
 
       const record = await this.emailTemplatesTable!.update(id, fields);
       return this.transformEmailTemplateRecord(record);
@@ -7623,7 +7794,8 @@ class AirtableService {
         [EMAIL_LOGS_FIELD_IDS.status]: data.status,
         [EMAIL_LOGS_FIELD_IDS.error_message]: data.errorMessage || '',
         [EMAIL_LOGS_FIELD_IDS.resend_message_id]: data.resendMessageId || '',
-      });
+        ...(data.variant ? { [EMAIL_LOGS_FIELD_IDS.variant]: data.variant } : {}),
+      }, { typecast: true }); // adds the recipient_type option for types newer than the table
 
       return record.id;
     } catch (error) {
@@ -7632,6 +7804,42 @@ class AirtableService {
     }
   }
 
+  /**
+   * Get the email log rows for a Resend message ID (one send can be logged
+   * more than once, e.g. a retried cron run)
+   */
+  async getEmailLogsByResendMessageId(resendMessageId: string): Promise<EmailLog[]> {
+    if (!this.ensureEmailTablesInitialized()) return [];
+
+    const records = await this.emailLogsTable!.select({
+      filterByFormula: `{${EMAIL_LOGS_FIELD_IDS.resend_message_id}} = '${resendMessageId.replace(/'/g, "\\'")}'`,
+      returnFieldsByFieldId: true,
+    }).all();
+
+    return records.map((record) => this.transformEmailLogRecord(record));
+  }
+
+  /**
+   * Write delivery tracking fields from the Resend webhook to an email log
+   */
+  async updateEmailLogDelivery(
+    recordId: string,
+    update: EmailLogDeliveryUpdate
+  ): Promise<void> {
+    if (!this.ensureEmailTablesInitialized()) return;
+
+    const fields: Partial<FieldSet> = {};
+    if (update.deliveryStatus !== undefined) fields[EMAIL_LOGS_FIELD_IDS.delivery_status] = update.deliveryStatus;
+    if (update.deliveryUpdatedAt !== undefined) fields[EMAIL_LOGS_FIELD_IDS.delivery_updated_at] = update.deliveryUpdatedAt;
+    if (update.openedAt !== undefined) fields[EMAIL_LOGS_FIELD_IDS.opened_at] = update.openedAt;
+    if (update.deliveryDetail !== undefined) fields[EMAIL_LOGS_FIELD_IDS.delivery_detail] = update.deliveryDetail;
+    if (update.clickedAt !== undefined) fields[EMAIL_LOGS_FIELD_IDS.clicked_at] = update.clickedAt;
+    if (update.shopClickedAt !== undefined) fields[EMAIL_LOGS_FIELD_IDS.shop_clicked_at] = update.shopClickedAt;
+    if (Object.keys(fields).length === 0) return;
+
+    await this.emailLogsTable!.update(recordId, fields);
+  }
+
   /**
    * Get recent email logs with optional pagination
    */
@@ -7876,6 +8084,7 @@ class AirtableService {
     childName: string;
     classId: string;
     className?: string;
+    consents?: ChildConsents;           // Normalized tables only
   }>> {
     this.ensureNormalizedTablesInitialized();
 
@@ -7932,24 +8141,31 @@ class AirtableService {
           childName: reg.registered_child,
           classId: reg.class_id?.[0] || '',
           className,
+          consents: getCurrentConsents(reg.consent_history || []),
         };
       })
     );
   }
 
   /**
-   * Add a new child registration for an existing parent
+   * Add a new child registration for an existing parent. Consent choices
+   * are stored on the registration (normalized tables only; the legacy
+   * table has no consent field).
    */
   async addChildRegistration(
     parentEmail: string,
     eventId: string,
     classId: string,
-    childName: string
+    childName: string,
+    consents?: ConsentChoices
   ): Promise<{ success: boolean; registrationId?: string; error?: string }> {
     this.ensureNormalizedTablesInitialized();
 
     if (!this.useNormalizedTables()) {
       // LEGACY: Create row in parent_journey_table
+      if (consents) {
+        console.warn('[addChildRegistration] Consent not stored: legacy parent_journey_table has no consent field');
+      }
       try {
         // Get parent data from existing record
         const existingRecords = await this.getParentRecordsByEmail(parentEmail);
@@ -8041,6 +8257,11 @@ class AirtableService {
         [REGISTRATIONS_FIELD_IDS.registered_complete]: true,
         [REGISTRATIONS_FIELD_IDS.registration_date]: new Date().toISOString(),
       };
+      if (consents) {
+        registrationFields[REGISTRATIONS_FIELD_IDS.consent_history] = JSON.stringify(
+          appendConsentChoices([], consents, 'parent_portal')
+        );
+      }
 
       const newRecords = await this.registrationsTable!.create([{ fields: registrationFields }]);
       return { success: true, registrationId: newRecords[0].id };
@@ -5,8 +5,13 @@ import { constants as fsConstants, existsSync } from 'fs';
 import path from 'path';
 import { getR2Service } from './r2Service';
 import { getTeacherService } from './teacherService';
+import { getAirtableService } from './airtableService';
+import { getAudioTaggingService } from './audioTaggingService';
 import { buildFinalMp3Key, buildPreviewMp3Key } from '@/lib/utils/audioPath';
 import { PREVIEW_DURATION_SECONDS, PREVIEW_FADE_OUT_SECONDS } from '@/lib/config/audioPreview';
+import { resolveMasteringPreset, type MasteringPreset, type MasteringPresetId } from '@/lib/config/audioMastering';
+import { buildLoudnormFilter, parseLoudnormStats, type LoudnormStats } from '@/lib/utils/loudnorm';
+import { buildAnalysisFilter, parseAudioAnalysis, type AudioAnalysis } from '@/lib/utils/audioAnalysis';
 
 const execFileAsync = promisify(execFile);
 
@@ -85,7 +90,10 @@ const ffmpegPath: string | null = resolveFfmpegBinaryPath();
 // Cache the usable ffmpeg path across invocations within the same function instance
 let resolvedFfmpegPath: string | null = null;
 
-async function getFfmpegPath(): Promise<string> {
+/**
+ * Usable ffmpeg binary (copied to /tmp when the bundled one is not executable)
+ */
+export async function getFfmpegPath(): Promise<string> {
   // Return cached path if already resolved and still executable
   if (resolvedFfmpegPath) {
     try {
@@ -130,14 +138,17 @@ async function getFfmpegPath(): Promise<string> {
 }
 
 /**
- * Process an uploaded audio file: encode WAV→MP3, generate 30-second preview snippet.
+ * Process an uploaded audio file: loudness-normalize and encode to MP3,
+ * generate 30-second preview snippet.
  *
  * Steps:
  * 1. Download source file from R2 to /tmp
- * 2. If WAV: encode to MP3 (192kbps) → upload to R2
- * 3. Generate 30-second preview with 1-second fade-out → upload to R2
- * 4. Update AudioFile record in Airtable with new keys and status
- * 5. Clean up /tmp files
+ * 2. Measure loudness (loudnorm pass 1) against the event's mastering preset
+ * 3. Normalize + encode to MP3 (192kbps, loudnorm pass 2) → upload to R2
+ * 4. Generate 30-second preview with 1-second fade-out → upload to R2
+ * 5. Add ID3 tags and cover art to the final MP3 → upload to R2
+ * 6. Update AudioFile record in Airtable with new keys, status and loudness
+ * 7. Clean up /tmp files
  */
 export async function processAudioFile(
   r2Key: string,
@@ -149,6 +160,9 @@ export async function processAudioFile(
   mp3Key: string;
   previewKey: string;
   durationSeconds: number;
+  loudnessLufs?: number;
+  truePeakDbtp?: number;
+  masteringPreset: MasteringPresetId;
 }> {
   const r2 = getR2Service();
   const teacherService = getTeacherService();
@@ -165,6 +179,7 @@ export async function processAudioFile(
   try {
     // 0. Verify ffmpeg is available before downloading anything
     const ffmpeg = await getFfmpegPath();
+    const preset = await getEventMasteringPreset(eventId);
 
     // 1. Download source file from R2
     const buffer = await r2.getFileBuffer(r2Key);
@@ -173,29 +188,37 @@ export async function processAudioFile(
     }
     await writeFile(inputPath, buffer);
 
-    // 2. Determine if we need WAV→MP3 encoding
-    const isWav = r2Key.toLowerCase().endsWith('.wav');
-    const sourceMp3Path = isWav ? mp3Path : inputPath;
-
-    if (isWav) {
-      // Encode WAV → MP3 at 192kbps
-      await execFileAsync(ffmpeg, [
-        '-i', inputPath,
-        '-codec:a', 'libmp3lame',
-        '-b:a', '192k',
-        '-y',
-        mp3Path,
-      ], { timeout: 120000 });
+    // 2. Measure source loudness. Silent or broken input yields no stats;
+    //    such tracks are encoded unchanged and show up as unmeasured.
+    const measured = await measureLoudness(ffmpeg, inputPath, preset);
+    if (!measured) {
+      console.warn(`[audio] Could not measure loudness of ${r2Key}, encoding without normalization`);
     }
 
-    // 3. Get duration from the MP3 (or source) using ffprobe-like approach
+    // 3. Normalize + encode to MP3 at 192kbps. MP3 sources are re-encoded
+    //    too so every final on the album sits at the preset target.
+    //    loudnorm resamples to 192kHz internally, so pin the output rate.
+    const { stderr: encodeLog } = await execFileAsync(ffmpeg, [
+      '-i', inputPath,
+      ...(measured ? ['-af', buildLoudnormFilter(preset, measured)] : []),
+      '-ar', '44100',
+      '-codec:a', 'libmp3lame',
+      '-b:a', '192k',
+      '-y',
+      mp3Path,
+    ], { timeout: 180000 });
+    const normalized = measured ? parseLoudnormStats(encodeLog) : null;
+    const loudnessLufs = normalized ? Math.round(normalized.outputI * 10) / 10 : undefined;
+    const truePeakDbtp = normalized ? Math.round(normalized.outputTp * 10) / 10 : undefined;
+
+    // 4. Get duration from the MP3 using ffprobe-like approach
     //    We extract duration from ffmpeg stderr output
-    const durationSeconds = await getAudioDuration(ffmpeg, sourceMp3Path);
+    const durationSeconds = await getAudioDuration(ffmpeg, mp3Path);
 
-    // 4. Generate preview with fade-out (duration from PREVIEW_DURATION_SECONDS).
+    // 5. Generate preview with fade-out (duration from PREVIEW_DURATION_SECONDS).
     const fadeStart = PREVIEW_DURATION_SECONDS - PREVIEW_FADE_OUT_SECONDS;
     await execFileAsync(ffmpeg, [
-      '-i', sourceMp3Path,
+      '-i', mp3Path,
       '-t', String(PREVIEW_DURATION_SECONDS),
       '-af', `afade=t=out:st=${fadeStart}:d=${PREVIEW_FADE_OUT_SECONDS}`,
       '-b:a', '192k',
@@ -203,20 +226,7 @@ export async function processAudioFile(
       previewPath,
     ], { timeout: 30000 });
 
-    // 5. Upload MP3 to R2
-    const mp3Key = buildFinalMp3Key(eventId, classId, songId, displayName);
-    if (isWav) {
-      await uploadBuffer(r2, mp3Key, await readFileAsBuffer(mp3Path), 'audio/mpeg');
-    } else {
-      // Source is already MP3 - upload to canonical path
-      await uploadBuffer(r2, mp3Key, buffer, 'audio/mpeg');
-    }
-
-    // 6. Upload preview to R2
-    const previewKey = buildPreviewMp3Key(eventId, classId, songId, displayName);
-    await uploadBuffer(r2, previewKey, await readFileAsBuffer(previewPath), 'audio/mpeg');
-
-    // 7. Update AudioFile record in Airtable.
+    // 6. Find the AudioFile record.
     //    Per-song: lookup by songId then match r2Key.
     //    Schulsong (no songId): lookup by classId then match r2Key — schulsong AudioFiles
     //    are not linked to a Songs record.
@@ -224,12 +234,37 @@ export async function processAudioFile(
       ? await teacherService.getAudioFilesBySongId(songId, 'final')
       : (await teacherService.getAudioFilesByClassId(classId)).filter(af => af.type === 'final');
     const audioFile = candidates.find(af => af.r2Key === r2Key);
+
+    // 7. Tag and upload MP3 to R2. Untagged beats not released at all.
+    const mp3Key = buildFinalMp3Key(eventId, classId, songId, displayName);
+    let mp3Buffer = await readFileAsBuffer(mp3Path);
+    try {
+      const tagging = getAudioTaggingService();
+      mp3Buffer = tagging.tagMp3(mp3Buffer, await tagging.getAlbumTagging(eventId), {
+        songId,
+        classId,
+        isSchulsong: audioFile?.isSchulsong,
+        title: displayName,
+      });
+    } catch (error) {
+      console.warn(`[audio] Could not tag ${mp3Key}, uploading without ID3 tags:`, error);
+    }
+    await uploadBuffer(r2, mp3Key, mp3Buffer, 'audio/mpeg');
+
+    // 8. Upload preview to R2
+    const previewKey = buildPreviewMp3Key(eventId, classId, songId, displayName);
+    await uploadBuffer(r2, previewKey, await readFileAsBuffer(previewPath), 'audio/mpeg');
+
+    // 9. Update AudioFile record in Airtable
     if (audioFile) {
       await teacherService.updateAudioFile(audioFile.id, {
         status: 'ready',
         durationSeconds: Math.round(durationSeconds),
         mp3R2Key: mp3Key,
         previewR2Key: previewKey,
+        loudnessLufs,
+        truePeakDbtp,
+        masteringPreset: preset.id,
       });
     }
 
@@ -237,9 +272,12 @@ export async function processAudioFile(
       mp3Key,
       previewKey,
       durationSeconds: Math.round(durationSeconds),
+      loudnessLufs,
+      truePeakDbtp,
+      masteringPreset: preset.id,
     };
   } finally {
-    // 8. Clean up temp files
+    // 10. Clean up temp files
     for (const filePath of filesToCleanup) {
       try {
         await unlink(filePath);
@@ -250,6 +288,71 @@ export async function processAudioFile(
   }
 }
 
+/**
+ * Analyze an uploaded raw or final file (duration, format, peak, clipping,
+ * silence at both ends) and store the result on its AudioFile.
+ *
+ * ffmpeg reads the file straight from a signed R2 URL, so nothing is
+ * buffered in memory or /tmp.
+ */
+export async function analyzeAudioFile(audioFileId: string, r2Key: string): Promise<AudioAnalysis> {
+  const ffmpeg = await getFfmpegPath();
+  const sourceUrl = await getR2Service().generateSignedUrl(r2Key, 900);
+
+  const { stderr } = await execFileAsync(ffmpeg, [
+    '-hide_banner',
+    '-i', sourceUrl,
+    '-af', buildAnalysisFilter(),
+    '-f', 'null',
+    '-',
+  ], { timeout: 180000, maxBuffer: 10 * 1024 * 1024 }).catch(err => {
+    return { stdout: '', stderr: err.stderr || '' };
+  });
+
+  const analysis = parseAudioAnalysis(stderr);
+  if (!analysis) {
+    throw new Error(`Could not analyze ${r2Key}: no audio stream found`);
+  }
+
+  await getTeacherService().updateAudioFileAnalysis(audioFileId, analysis);
+  return analysis;
+}
+
+/**
+ * Mastering preset picked for the event, or the default when unset or the
+ * lookup fails (normalizing to the default beats failing the upload)
+ */
+async function getEventMasteringPreset(eventId: string): Promise<MasteringPreset> {
+  try {
+    const event = await getAirtableService().getEventByEventId(eventId);
+    return resolveMasteringPreset(event?.mastering_preset);
+  } catch (error) {
+    console.warn('[audio] Could not load mastering preset, using default:', error);
+    return resolveMasteringPreset();
+  }
+}
+
+/**
+ * loudnorm pass 1: measure integrated loudness, true peak and LRA
+ */
+async function measureLoudness(
+  ffmpeg: string,
+  filePath: string,
+  preset: MasteringPreset
+): Promise<LoudnormStats | null> {
+  const { stderr } = await execFileAsync(ffmpeg, [
+    '-i', filePath,
+    '-af', buildLoudnormFilter(preset),
+    '-f', 'null',
+    '-',
+  ], { timeout: 120000 }).catch(err => {
+    // Keep whatever ffmpeg printed; a failed measurement just skips normalization
+    return { stdout: '', stderr: err.stderr || '' };
+  });
+
+  return parseLoudnormStats(stderr);
+}
+
 /**
  * Get audio duration in seconds using ffmpeg
  */
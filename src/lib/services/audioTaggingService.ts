@@ -0,0 +1,212 @@
+// src/lib/services/audioTaggingService.ts
+
+/**
+ * Audio Tagging Service
+ *
+ * Writes ID3 tags and cover art into released final MP3s (see
+ * lib/utils/id3Tags.ts). Finals are tagged when processAudioFile encodes
+ * them, and again by the 'audio.tag' job once the tracklist is finalized,
+ * because the album order (track numbers) can still change after a final
+ * was processed. The ZIP download routes tag on the fly with the current
+ * order.
+ *
+ * Cover art is the school logo copied into the event folder, falling back
+ * to the Einrichtung's logo (logos/{einrichtungId}/ in the main bucket).
+ * The CD jacket is only generated as a PDF, which can't be rasterized in
+ * the function runtime.
+ */
+
+import { getTeacherService, type AlbumTrack } from './teacherService';
+import { getAirtableService } from './airtableService';
+import { getR2Service, R2_PATHS } from './r2Service';
+import type { AudioFile } from '@/lib/types/teacher';
+import { buildTrackTags, getCoverMimeType, writeId3Tag, type CoverArt, type Id3Tags } from '@/lib/utils/id3Tags';
+
+// Logo formats that can be embedded as ID3 cover art, in lookup order
+const COVER_EXTENSIONS = ['png', 'jpg', 'jpeg'];
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface AlbumTagging {
+  schoolName: string;
+  eventDate?: string;
+  tracks: AlbumTrack[];
+  cover: CoverArt | null;
+}
+
+/** Which song a final belongs to */
+export interface TaggableFinal {
+  songId?: string | null;
+  classId?: string;
+  isSchulsong?: boolean;
+  /** Song title for finals whose song is not on the album */
+  title?: string;
+}
+
+export interface StoredFinal extends TaggableFinal {
+  audioFileId: string;
+  mp3Key: string;
+}
+
+// ---------------------------------------------------------------------------
+// Service
+// ---------------------------------------------------------------------------
+
+class AudioTaggingService {
+  private teacherService = getTeacherService();
+  private airtable = getAirtableService();
+  private r2 = getR2Service();
+
+  /**
+   * Everything needed to tag the finals of one event. Load once and reuse
+   * for all of its files; pass the album tracks if already loaded.
+   */
+  async getAlbumTagging(eventId: string, albumTracks?: AlbumTrack[]): Promise<AlbumTagging> {
+    const [event, tracks, cover] = await Promise.all([
+      this.airtable.getEventByEventId(eventId),
+      albumTracks || this.teacherService.getAlbumTracksData(eventId),
+      this.getCoverArt(eventId),
+    ]);
+
+    return {
+      schoolName: event?.school_name || '',
+      eventDate: event?.event_date,
+      tracks,
+      cover,
+    };
+  }
+
+  /**
+   * The event's school logo, else its Einrichtung's logo; null when neither
+   * exists
+   */
+  async getCoverArt(eventId: string): Promise<CoverArt | null> {
+    const eventLogo = await this.findCoverImage(
+      COVER_EXTENSIONS.map((ext) => `${R2_PATHS.EVENT_LOGO(eventId)}/logo.${ext}`),
+      (key) => this.r2.fileExistsInAssetsBucket(key),
+      (key) => this.r2.getFileBufferFromAssetsBucket(key)
+    );
+    if (eventLogo) return eventLogo;
+
+    const event = await this.airtable.getEventByEventId(eventId);
+    const booking = event?.simplybook_booking?.[0]
+      ? await this.airtable.getSchoolBookingById(event.simplybook_booking[0])
+      : null;
+    const einrichtungId = booking?.einrichtung?.[0];
+    if (!einrichtungId) return null;
+
+    return this.findCoverImage(
+      COVER_EXTENSIONS.map((ext) => `logos/${einrichtungId}/logo.${ext}`),
+      (key) => this.r2.fileExists(key),
+      (key) => this.r2.getFileBuffer(key)
+    );
+  }
+
+  private async findCoverImage(
+    keys: string[],
+    exists: (key: string) => Promise<boolean>,
+    load: (key: string) => Promise<Buffer | null>
+  ): Promise<CoverArt | null> {
+    for (const key of keys) {
+      const mimeType = getCoverMimeType(key);
+      if (!mimeType || !(await exists(key))) continue;
+      const data = await load(key);
+      if (data) return { data, mimeType };
+    }
+    return null;
+  }
+
+  /**
+   * Tags for a final. Album tracks get their track number; finals without
+   * a song link match the only song of their class.
+   */
+  getTags(tagging: AlbumTagging, final: TaggableFinal): Id3Tags {
+    const realTracks = tagging.tracks.filter((t) => !t.isSchulsong);
+    let track: AlbumTrack | undefined;
+
+    if (final.isSchulsong) {
+      track = tagging.tracks.find((t) => t.isSchulsong);
+    } else if (final.songId) {
+      track = realTracks.find((t) => t.songId === final.songId);
+    } else if (final.classId) {
+      const classTracks = realTracks.filter((t) => t.classId === final.classId);
+      track = classTracks.length === 1 ? classTracks[0] : undefined;
+    }
+
+    return buildTrackTags(
+      track
+        ? { title: track.songTitle, className: track.className, trackNumber: track.albumOrder }
+        : { title: final.title || 'Aufnahme' },
+      { schoolName: tagging.schoolName, eventDate: tagging.eventDate, trackTotal: tagging.tracks.length }
+    );
+  }
+
+  /**
+   * The MP3 with fresh tags; unchanged when no tagging could be loaded
+   */
+  tagMp3(mp3: Buffer, tagging: AlbumTagging | null, final: TaggableFinal): Buffer {
+    return tagging ? writeId3Tag(mp3, this.getTags(tagging, final), tagging.cover) : mp3;
+  }
+
+  /**
+   * getAlbumTagging for downloads: a failed lookup means untagged files,
+   * not a failed download
+   */
+  async getAlbumTaggingOrNull(eventId: string, albumTracks?: AlbumTrack[]): Promise<AlbumTagging | null> {
+    try {
+      return await this.getAlbumTagging(eventId, albumTracks);
+    } catch (error) {
+      console.warn(`[tagging] Could not load album tagging for ${eventId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Ready finals of the event that have an MP3 to tag
+   */
+  async listStoredFinals(eventId: string): Promise<StoredFinal[]> {
+    const [audioFiles, songs] = await Promise.all([
+      this.teacherService.getAudioFilesByEventId(eventId),
+      this.teacherService.getSongsByEventId(eventId),
+    ]);
+    const titleBySongId = new Map(songs.map((song) => [song.id, song.title]));
+
+    return audioFiles
+      .filter((af: AudioFile) => af.type === 'final' && af.status === 'ready')
+      .map((af) => ({
+        audioFileId: af.id,
+        mp3Key: af.mp3R2Key || (af.r2Key.toLowerCase().endsWith('.mp3') ? af.r2Key : ''),
+        songId: af.songId,
+        classId: af.classId,
+        isSchulsong: af.isSchulsong,
+        title: af.songId ? titleBySongId.get(af.songId) : undefined,
+      }))
+      .filter((final) => final.mp3Key);
+  }
+
+  /**
+   * Re-write the tags of a stored final in place
+   */
+  async retagStoredFinal(tagging: AlbumTagging, final: StoredFinal): Promise<void> {
+    const mp3 = await this.r2.getFileBuffer(final.mp3Key);
+    if (!mp3) {
+      throw new Error(`MP3 not found in R2: ${final.mp3Key}`);
+    }
+    await this.r2.uploadFile(final.mp3Key, this.tagMp3(mp3, tagging, final), 'audio/mpeg');
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Singleton
+// ---------------------------------------------------------------------------
+
+let audioTaggingServiceInstance: AudioTaggingService | null = null;
+
+export function getAudioTaggingService(): AudioTaggingService {
+  if (!audioTaggingServiceInstance) {
+    audioTaggingServiceInstance = new AudioTaggingService();
+  }
+  return audioTaggingServiceInstance;
+}
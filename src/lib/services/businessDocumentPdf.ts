@@ -0,0 +1,247 @@
+/**
+ * Business Document PDF
+ *
+ * Shared A4 layout for offers (Angebote) and invoices (Rechnungen):
+ * letterhead, recipient address window, meta column, numbered line item
+ * table, totals and closing text. Callers supply the German wording.
+ *
+ * Uses the same pdf-lib/fontkit stack as printableService. The heading font
+ * comes from R2; the body uses the standard Helvetica fonts.
+ */
+
+import { PDFDocument, PDFEmbeddedPage, PDFFont, PDFPage, rgb, StandardFonts } from 'pdf-lib';
+import fontkit from '@pdf-lib/fontkit';
+import { getR2Service } from './r2Service';
+import { wrapTextToWidth } from './printableService';
+import { formatEuro, toPdfSafeText, type DocumentRecipient } from '@/lib/utils/businessDocument';
+import { DOCUMENT_LETTERHEAD_KEY, DOCUMENT_SENDER } from '@/lib/config/businessDocuments';
+
+// A4 in points
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN_X = 56;
+const BODY_TOP = PAGE_HEIGHT - 270;
+const BODY_BOTTOM = 90;
+const CONTINUATION_TOP = PAGE_HEIGHT - 130;
+const TEXT_WIDTH = PAGE_WIDTH - 2 * MARGIN_X;
+const TEXT_COLOR = rgb(0.184, 0.282, 0.345);     // #2F4858
+const MUTED_COLOR = rgb(0.45, 0.5, 0.55);
+const ACCENT_COLOR = rgb(0.847, 0.353, 0.416);   // #d85a6a
+
+export interface DocumentLineItem {
+  label: string;
+  amount: number;
+}
+
+export interface DocumentTotalRow {
+  label: string;
+  amount: number;
+  /** Bold, larger row, e.g. the amount due */
+  emphasis?: boolean;
+}
+
+export interface BusinessDocumentPdfInput {
+  /** PDF title and heading, e.g. "Rechnung RE-2026-0007" */
+  title: string;
+  metaRows: Array<[string, string]>;
+  recipient: DocumentRecipient;
+  /** Greeting and intro, one entry per paragraph */
+  introParagraphs: string[];
+  lineItems: DocumentLineItem[];
+  totals: DocumentTotalRow[];
+  closingParagraphs: string[];
+}
+
+interface DocumentFonts {
+  regular: PDFFont;
+  bold: PDFFont;
+  heading: PDFFont;
+}
+
+export function formatDocumentDate(value: Date | string): string {
+  return new Date(value).toLocaleDateString('de-DE', { day: '2-digit', month: '2-digit', year: 'numeric' });
+}
+
+async function loadFonts(pdfDoc: PDFDocument): Promise<DocumentFonts> {
+  const regular = await pdfDoc.embedFont(StandardFonts.Helvetica);
+  const bold = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
+
+  let heading = bold;
+  try {
+    const fontData = await getR2Service().getFont('fredoka');
+    if (fontData) {
+      pdfDoc.registerFontkit(fontkit);
+      heading = await pdfDoc.embedFont(new Uint8Array(fontData), { subset: true });
+    }
+  } catch (error) {
+    console.warn('[BusinessDocumentPdf] Heading font unavailable, using Helvetica Bold:', error);
+  }
+
+  return { regular, bold, heading };
+}
+
+/**
+ * New page with the uploaded letterhead behind it, or the text letterhead
+ */
+function addPage(pdfDoc: PDFDocument, fonts: DocumentFonts, letterhead: PDFEmbeddedPage | null): PDFPage {
+  const page = pdfDoc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+
+  if (letterhead) {
+    page.drawPage(letterhead, { x: 0, y: 0, width: PAGE_WIDTH, height: PAGE_HEIGHT });
+    return page;
+  }
+
+  page.drawText(DOCUMENT_SENDER.name, {
+    x: MARGIN_X,
+    y: PAGE_HEIGHT - 70,
+    size: 26,
+    font: fonts.heading,
+    color: ACCENT_COLOR,
+  });
+  const footer = [DOCUMENT_SENDER.name, ...DOCUMENT_SENDER.addressLines, DOCUMENT_SENDER.email, DOCUMENT_SENDER.web].join('  ·  ');
+  page.drawText(toPdfSafeText(footer), {
+    x: MARGIN_X,
+    y: 40,
+    size: 7.5,
+    font: fonts.regular,
+    color: MUTED_COLOR,
+  });
+  return page;
+}
+
+/**
+ * Render an offer or invoice. Long line item lists continue on further pages.
+ */
+export async function renderBusinessDocumentPdf(input: BusinessDocumentPdfInput): Promise<Buffer> {
+  const pdfDoc = await PDFDocument.create();
+  pdfDoc.setTitle(input.title);
+  pdfDoc.setAuthor(DOCUMENT_SENDER.name);
+
+  const fonts = await loadFonts(pdfDoc);
+
+  let letterhead: PDFEmbeddedPage | null = null;
+  const letterheadBuffer = await getR2Service().getFileBufferFromAssetsBucket(DOCUMENT_LETTERHEAD_KEY);
+  if (letterheadBuffer) {
+    [letterhead] = await pdfDoc.embedPdf(letterheadBuffer, [0]);
+  }
+
+  let page = addPage(pdfDoc, fonts, letterhead);
+  const text = (value: string, x: number, y: number, size = 10, font = fonts.regular, color = TEXT_COLOR) =>
+    page.drawText(toPdfSafeText(value), { x, y, size, font, color });
+  const textRight = (value: string, right: number, y: number, size = 10, font = fonts.regular) => {
+    const safe = toPdfSafeText(value);
+    page.drawText(safe, { x: right - font.widthOfTextAtSize(safe, size), y, size, font, color: TEXT_COLOR });
+  };
+
+  // Sender line and recipient address
+  const senderLine = [DOCUMENT_SENDER.name, ...DOCUMENT_SENDER.addressLines].join(' · ');
+  text(senderLine, MARGIN_X, PAGE_HEIGHT - 140, 7, fonts.regular, MUTED_COLOR);
+  let y = PAGE_HEIGHT - 158;
+  const recipientLines = [
+    input.recipient.name,
+    ...(input.recipient.contactPerson ? [`z. Hd. ${input.recipient.contactPerson}`] : []),
+    ...input.recipient.addressLines,
+  ];
+  for (const line of recipientLines) {
+    text(line, MARGIN_X, y, 10.5);
+    y -= 14;
+  }
+
+  // Document meta, right column
+  const metaRight = PAGE_WIDTH - MARGIN_X;
+  let metaY = PAGE_HEIGHT - 158;
+  for (const [label, value] of input.metaRows) {
+    text(label, metaRight - 190, metaY, 9, fonts.regular, MUTED_COLOR);
+    textRight(value, metaRight, metaY, 9, fonts.bold);
+    metaY -= 14;
+  }
+
+  const paragraphs = (values: string[]) => {
+    for (const paragraph of values) {
+      for (const line of wrapTextToWidth(toPdfSafeText(paragraph), TEXT_WIDTH, 10.5, fonts.regular)) {
+        if (y < BODY_BOTTOM) {
+          page = addPage(pdfDoc, fonts, letterhead);
+          y = CONTINUATION_TOP;
+        }
+        text(line, MARGIN_X, y, 10.5);
+        y -= 15;
+      }
+      y -= 5;
+    }
+  };
+
+  // Title and intro
+  y = Math.min(BODY_TOP, metaY - 20);
+  text(input.title, MARGIN_X, y, 18, fonts.heading);
+  y -= 28;
+  paragraphs(input.introParagraphs);
+  y -= 10;
+
+  // Line item table
+  const amountRight = PAGE_WIDTH - MARGIN_X;
+  const labelX = MARGIN_X + 34;
+  const labelWidth = amountRight - 110 - labelX;
+  const drawTableHeader = () => {
+    text('Pos.', MARGIN_X, y, 9, fonts.bold);
+    text('Leistung', labelX, y, 9, fonts.bold);
+    textRight('Betrag', amountRight, y, 9, fonts.bold);
+    y -= 6;
+    page.drawLine({
+      start: { x: MARGIN_X, y },
+      end: { x: amountRight, y },
+      thickness: 0.75,
+      color: MUTED_COLOR,
+    });
+    y -= 16;
+  };
+  drawTableHeader();
+
+  input.lineItems.forEach((row, index) => {
+    const labelLines = wrapTextToWidth(toPdfSafeText(row.label), labelWidth, 10, fonts.regular);
+    if (y - labelLines.length * 14 < BODY_BOTTOM + 40) {
+      page = addPage(pdfDoc, fonts, letterhead);
+      y = CONTINUATION_TOP;
+      drawTableHeader();
+    }
+    text(String(index + 1), MARGIN_X, y);
+    textRight(formatEuro(row.amount), amountRight, y);
+    for (const line of labelLines) {
+      text(line, labelX, y);
+      y -= 14;
+    }
+    y -= 4;
+  });
+
+  // Totals
+  if (y - input.totals.length * 18 < BODY_BOTTOM) {
+    page = addPage(pdfDoc, fonts, letterhead);
+    y = CONTINUATION_TOP;
+  }
+  page.drawLine({
+    start: { x: labelX, y: y + 6 },
+    end: { x: amountRight, y: y + 6 },
+    thickness: 0.75,
+    color: MUTED_COLOR,
+  });
+  y -= 10;
+  for (const row of input.totals) {
+    const size = row.emphasis ? 11 : 10;
+    const font = row.emphasis ? fonts.bold : fonts.regular;
+    text(row.label, labelX, y, size, font);
+    textRight(formatEuro(row.amount), amountRight, y, size, font);
+    y -= 16;
+  }
+  y -= 20;
+
+  // Closing
+  paragraphs(input.closingParagraphs);
+  y -= 10;
+  if (y < BODY_BOTTOM + 20) {
+    page = addPage(pdfDoc, fonts, letterhead);
+    y = CONTINUATION_TOP;
+  }
+  text('Viele Grüße', MARGIN_X, y, 10.5);
+  text(`Euer ${DOCUMENT_SENDER.name}-Team`, MARGIN_X, y - 15, 10.5);
+
+  return Buffer.from(await pdfDoc.save());
+}
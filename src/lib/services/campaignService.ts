@@ -12,6 +12,7 @@ import {
   PARENTS_TABLE_ID,
   PARENTS_FIELD_IDS,
 } from '@/lib/types/airtable';
+import { isParentSubscribedTo, parseEmailOptOuts } from '@/lib/utils/emailPreferences';
 
 export interface CampaignRecipient {
   email: string;
@@ -104,7 +105,7 @@ async function getRegistrationsWithoutOrders(eventRecordIds: string[]): Promise<
 }
 
 /**
- * Get parent details by record IDs
+ * Get parent details by record IDs, skipping parents who opted out of shop promotions
  */
 async function getParentsByRecordIds(parentRecordIds: string[]): Promise<Map<string, { email: string; firstName: string }>> {
   const base = getAirtableBase();
@@ -121,9 +122,12 @@ async function getParentsByRecordIds(parentRecordIds: string[]): Promise<Map<str
     if (parentRecordIds.includes(record.id)) {
       const email = record.fields[PARENTS_FIELD_IDS.parent_email] as string;
       const firstName = record.fields[PARENTS_FIELD_IDS.parent_first_name] as string;
-      const emailCampaigns = record.fields[PARENTS_FIELD_IDS.email_campaigns] as string | undefined;
+      const subscribed = isParentSubscribedTo({
+        email_campaigns: record.fields[PARENTS_FIELD_IDS.email_campaigns] as 'yes' | 'no' | undefined,
+        email_opt_outs: parseEmailOptOuts(record.fields[PARENTS_FIELD_IDS.email_opt_outs]),
+      }, 'shop_promotions');
 
-      if (email && emailCampaigns !== 'no') {
+      if (email && subscribed) {
         parentMap.set(record.id, {
           email: email.toLowerCase().trim(),
           firstName: firstName || '',
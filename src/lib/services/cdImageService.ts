@@ -0,0 +1,305 @@
+// src/lib/services/cdImageService.ts
+
+/**
+ * CD Image Service
+ *
+ * Builds a Red Book CD image (one 44.1kHz/16-bit WAV + CUE sheet) from the
+ * Master CD tracklist, so the CD can be burned in one go instead of from
+ * individually downloaded MP3s.
+ *
+ * Runs as the 'cd.image' job:
+ * 1. One step per track: decode the normalized MP3 to raw PCM, pad it to a
+ *    whole CD frame and park it in R2 under temp/
+ * 2. Assemble step: stitch header + PCM parts into the WAV with an R2
+ *    multipart upload (large tracks are copied server-side), write the CUE
+ *    sheet and attach both to the audio_master_cd task
+ */
+
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { writeFile, readFile, unlink } from 'fs/promises';
+import path from 'path';
+import { getMasterCdService } from './masterCdService';
+import { getR2Service } from './r2Service';
+import { getTaskService } from './taskService';
+import { getFfmpegPath } from './audioProcessingService';
+import type { CdImageAttachment } from '@/lib/types/tasks';
+import {
+  CD_BYTES_PER_FRAME,
+  CD_BYTES_PER_SECOND,
+  CD_FRAMES_PER_SECOND,
+  CD_MAX_FRAMES,
+  CD_SAMPLE_RATE,
+  buildCueSheet,
+  buildWavHeader,
+  getCdCapacityError,
+  padToFrame,
+  type CueTrack,
+} from '@/lib/utils/cdImage';
+
+const execFileAsync = promisify(execFile);
+
+// R2/S3 minimum size for every multipart part except the last
+const MIN_PART_BYTES = 5 * 1024 * 1024;
+
+const WAV_FILENAME = 'master-cd.wav';
+const CUE_FILENAME = 'master-cd.cue';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface CdImageTrackSource {
+  trackNumber: number;
+  title: string;
+  className: string;
+  mp3Key: string;
+}
+
+export interface CdImagePlan {
+  schoolName: string;
+  tracks: CdImageTrackSource[];
+}
+
+export interface CdImageBuild {
+  eventId: string;
+  buildId: string;
+}
+
+export interface CdImageResult {
+  wavKey: string;
+  cueKey: string;
+  trackCount: number;
+  totalSeconds: number;
+}
+
+// ---------------------------------------------------------------------------
+// Service
+// ---------------------------------------------------------------------------
+
+class CdImageService {
+  private r2 = getR2Service();
+
+  /**
+   * Resolve the ordered finals for an event and check they fit on one CD.
+   * Throws with a user-facing message when the image cannot be built.
+   */
+  async planCdImage(eventId: string): Promise<CdImagePlan> {
+    const tracklist = await getMasterCdService().getTracklist(eventId);
+
+    const notReady = tracklist.tracks.filter((t) => t.status !== 'ready');
+    if (notReady.length > 0) {
+      throw new Error(`${notReady.length} of ${tracklist.totalCount} tracks are not ready`);
+    }
+
+    const tracks: CdImageTrackSource[] = [];
+    for (const track of tracklist.tracks) {
+      const mp3Key = track.mp3R2Key || (track.r2Key?.toLowerCase().endsWith('.mp3') ? track.r2Key : undefined);
+      if (!mp3Key) {
+        throw new Error(`Track ${track.trackNumber} (${track.title}) has no processed MP3`);
+      }
+      tracks.push({ trackNumber: track.trackNumber, title: track.title, className: track.className, mp3Key });
+    }
+
+    // Early check on the stored durations; the exact length is validated
+    // again after decoding
+    const estimatedSeconds = tracklist.tracks.reduce((sum, t) => sum + (t.durationSeconds || 0), 0);
+    const capacityError = getCdCapacityError(estimatedSeconds, tracks.length);
+    if (capacityError) {
+      throw new Error(capacityError);
+    }
+
+    return { schoolName: tracklist.schoolName, tracks };
+  }
+
+  /**
+   * Decode one track to CD-format PCM and store it under the build's temp prefix.
+   * Safe to run again: the temp object is simply overwritten.
+   */
+  async decodeTrack(build: CdImageBuild, index: number, mp3Key: string): Promise<{ bytes: number }> {
+    const ffmpeg = await getFfmpegPath();
+    const source = await this.r2.getFileBuffer(mp3Key);
+    if (!source) {
+      throw new Error(`Source file not found in R2: ${mp3Key}`);
+    }
+
+    const stamp = `${Date.now()}_${index}`;
+    const inputPath = path.join('/tmp', `cd_input_${stamp}.mp3`);
+    const pcmPath = path.join('/tmp', `cd_track_${stamp}.pcm`);
+
+    try {
+      await writeFile(inputPath, source);
+      await execFileAsync(ffmpeg, [
+        '-i', inputPath,
+        '-f', 's16le',
+        '-acodec', 'pcm_s16le',
+        '-ar', String(CD_SAMPLE_RATE),
+        '-ac', '2',
+        '-y',
+        pcmPath,
+      ], { timeout: 120000 });
+
+      const pcm = await readFile(pcmPath);
+      const padded = Buffer.alloc(padToFrame(pcm.length));
+      pcm.copy(padded);
+
+      await this.r2.uploadFile(getTrackPcmKey(build, index), padded, 'application/octet-stream');
+      return { bytes: padded.length };
+    } finally {
+      for (const filePath of [inputPath, pcmPath]) {
+        await unlink(filePath).catch(() => undefined);
+      }
+    }
+  }
+
+  /**
+   * Stitch the decoded tracks into the final WAV, write the CUE sheet and
+   * remove the temp PCM files
+   */
+  async assembleImage(
+    build: CdImageBuild,
+    schoolName: string,
+    tracks: Array<Pick<CdImageTrackSource, 'title' | 'className'>>
+  ): Promise<CdImageResult> {
+    const pcmKeys = tracks.map((_, index) => getTrackPcmKey(build, index));
+    const sizes: number[] = [];
+    for (const key of pcmKeys) {
+      const metadata = await this.r2.getFileMetadata(key);
+      if (!metadata) {
+        throw new Error(`Decoded track missing: ${key}`);
+      }
+      sizes.push(metadata.contentLength);
+    }
+
+    const dataBytes = sizes.reduce((sum, size) => sum + size, 0);
+    const totalFrames = dataBytes / CD_BYTES_PER_FRAME;
+    if (totalFrames > CD_MAX_FRAMES) {
+      throw new Error(getCdCapacityError(dataBytes / CD_BYTES_PER_SECOND, tracks.length) || 'Image exceeds 80 minutes');
+    }
+
+    const prefix = getBuildPrefix(build);
+    const wavKey = `${prefix}/${WAV_FILENAME}`;
+    const cueKey = `${prefix}/${CUE_FILENAME}`;
+
+    const { uploadId } = await this.r2.initiateMultipartUpload(wavKey, 'audio/wav');
+    try {
+      const parts: { PartNumber: number; ETag: string }[] = [];
+      // Part 1 always carries the WAV header; small tracks are buffered until
+      // a part reaches the minimum size, large ones are copied inside R2
+      let pending: Buffer[] = [buildWavHeader(dataBytes)];
+      let pendingBytes = pending[0].length;
+
+      const flush = async () => {
+        parts.push(await this.r2.uploadPart(wavKey, uploadId, parts.length + 1, Buffer.concat(pending)));
+        pending = [];
+        pendingBytes = 0;
+      };
+
+      for (let i = 0; i < pcmKeys.length; i++) {
+        if (pendingBytes === 0 && sizes[i] >= MIN_PART_BYTES) {
+          parts.push(await this.r2.uploadPartCopy(wavKey, uploadId, parts.length + 1, pcmKeys[i]));
+          continue;
+        }
+        const pcm = await this.r2.getFileBuffer(pcmKeys[i]);
+        if (!pcm) {
+          throw new Error(`Decoded track missing: ${pcmKeys[i]}`);
+        }
+        pending.push(pcm);
+        pendingBytes += pcm.length;
+        if (pendingBytes >= MIN_PART_BYTES) {
+          await flush();
+        }
+      }
+      if (pendingBytes > 0) {
+        await flush();
+      }
+
+      await this.r2.completeMultipartUpload(wavKey, uploadId, parts);
+    } catch (error) {
+      await this.r2.abortMultipartUpload(wavKey, uploadId);
+      throw error;
+    }
+
+    let startFrame = 0;
+    const cueTracks: CueTrack[] = tracks.map((track, index) => {
+      const cueTrack = { title: track.title, performer: track.className, startFrame };
+      startFrame += sizes[index] / CD_BYTES_PER_FRAME;
+      return cueTrack;
+    });
+    const cue = buildCueSheet({ title: schoolName, performer: schoolName, wavFilename: WAV_FILENAME, tracks: cueTracks });
+    await this.r2.uploadFile(cueKey, Buffer.from(cue, 'utf-8'), 'application/x-cue');
+
+    for (const key of pcmKeys) {
+      await this.r2.deleteFile(key);
+    }
+
+    return {
+      wavKey,
+      cueKey,
+      trackCount: tracks.length,
+      totalSeconds: Math.round(totalFrames / CD_FRAMES_PER_SECOND),
+    };
+  }
+
+  /**
+   * Attach a finished image to the task, replacing (and deleting) the previous one
+   */
+  async attachToTask(taskId: string, attachment: CdImageAttachment): Promise<void> {
+    const taskService = getTaskService();
+    const previous = parseCdImageAttachment((await taskService.getTaskById(taskId))?.cd_image);
+
+    await taskService.attachCdImage(taskId, attachment);
+
+    if (previous && previous.wav_r2_key !== attachment.wav_r2_key) {
+      await this.r2.deleteFile(previous.wav_r2_key);
+      await this.r2.deleteFile(previous.cue_r2_key);
+    }
+  }
+
+  /**
+   * Signed download URLs for an attached image (1 hour)
+   */
+  async getDownloadUrls(attachment: CdImageAttachment, schoolName: string): Promise<{ wavUrl: string; cueUrl: string }> {
+    const baseName = `Master CD - ${schoolName}`.replace(/[\\/:*?"<>|]+/g, '');
+    return {
+      // The CUE's FILE line references the WAV by its stored name, so the WAV
+      // keeps that name; only the CUE carries the school
+      wavUrl: await this.r2.generateSignedUrl(attachment.wav_r2_key, 3600, WAV_FILENAME),
+      cueUrl: await this.r2.generateSignedUrl(attachment.cue_r2_key, 3600, `${baseName}.cue`),
+    };
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function getBuildPrefix(build: CdImageBuild): string {
+  return `recordings/${build.eventId}/cd-image/${build.buildId}`;
+}
+
+function getTrackPcmKey(build: CdImageBuild, index: number): string {
+  return `temp/cd-image/${build.eventId}/${build.buildId}/track-${String(index + 1).padStart(2, '0')}.pcm`;
+}
+
+export function parseCdImageAttachment(raw: string | undefined): CdImageAttachment | null {
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as CdImageAttachment;
+  } catch {
+    return null;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Singleton
+// ---------------------------------------------------------------------------
+
+let cdImageServiceInstance: CdImageService | null = null;
+
+export function getCdImageService(): CdImageService {
+  if (!cdImageServiceInstance) {
+    cdImageServiceInstance = new CdImageService();
+  }
+  return cdImageServiceInstance;
+}
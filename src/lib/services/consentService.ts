@@ -0,0 +1,157 @@
+// src/lib/services/consentService.ts
+
+/**
+ * Consent Service
+ *
+ * Parental consent per child registration: audio recording, name on
+ * printed material and inclusion in the downloadable album. Choices are
+ * appended to Registrations.consent_history (see utils/childConsent.ts);
+ * staff see them per class in the staff event view, and the printable name
+ * list only ever contains children with name_on_print consent.
+ */
+
+import { getRepositories, type StoredRecord } from '@/lib/repositories';
+import { CLASSES_FIELD_IDS, REGISTRATIONS_FIELD_IDS, type ChildConsentChange } from '@/lib/types/airtable';
+import {
+  appendConsentChoices,
+  filterPrintableChildren,
+  getCurrentConsents,
+  parseConsentHistory,
+  type ChildConsents,
+  type ConsentChoices,
+} from '@/lib/utils/childConsent';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface ChildConsentRow {
+  registrationId: string;
+  childName: string;
+  consents: ChildConsents;
+}
+
+export interface ClassConsentList {
+  classId: string;
+  className: string;
+  children: ChildConsentRow[];
+}
+
+export interface ClassNameList {
+  classId: string;
+  className: string;
+  names: string[];
+  /** Registered children left out for lack of name_on_print consent */
+  excluded: number;
+}
+
+interface ClassChildren {
+  classId: string;
+  className: string;
+  children: Array<{ registrationId: string; childName: string; consentHistory: ChildConsentChange[] }>;
+}
+
+// ---------------------------------------------------------------------------
+// Service
+// ---------------------------------------------------------------------------
+
+class ConsentService {
+  /**
+   * Store the parent's choices on a registration. Unchanged choices are not
+   * re-recorded; returns the resulting consents.
+   */
+  async recordConsents(
+    registrationId: string,
+    choices: ConsentChoices,
+    source: ChildConsentChange['source']
+  ): Promise<ChildConsents> {
+    const registrations = getRepositories().registrations;
+    const record = await registrations.findById(registrationId);
+    if (!record) {
+      throw new Error(`Registration not found: ${registrationId}`);
+    }
+
+    const history = parseConsentHistory(record.get(REGISTRATIONS_FIELD_IDS.consent_history));
+    const updated = appendConsentChoices(history, choices, source);
+    if (updated !== history) {
+      await registrations.update(registrationId, {
+        [REGISTRATIONS_FIELD_IDS.consent_history]: JSON.stringify(updated),
+      });
+    }
+    return getCurrentConsents(updated);
+  }
+
+  /**
+   * Every registered child of the event with their consents, per class
+   */
+  async getClassConsentLists(eventId: string): Promise<ClassConsentList[]> {
+    const classes = await this.loadClassChildren(eventId);
+    return classes.map(({ children, ...cls }) => ({
+      ...cls,
+      children: children.map(({ consentHistory, ...child }) => ({
+        ...child,
+        consents: getCurrentConsents(consentHistory),
+      })),
+    }));
+  }
+
+  /**
+   * Names for printed class lists: only children whose parents consented
+   * to their name on printed material
+   */
+  async getPrintableNameLists(eventId: string): Promise<ClassNameList[]> {
+    const classes = await this.loadClassChildren(eventId);
+    return classes.map(({ classId, className, children }) => {
+      const printable = filterPrintableChildren(children);
+      return {
+        classId,
+        className,
+        names: printable.map((child) => child.childName),
+        excluded: children.length - printable.length,
+      };
+    });
+  }
+
+  private async loadClassChildren(eventId: string): Promise<ClassChildren[]> {
+    const repositories = getRepositories();
+    const [classRecords, registrationRecords] = await Promise.all([
+      repositories.classes.listForEvent(eventId),
+      repositories.registrations.listForEvent(eventId),
+    ]);
+
+    const registrationsByClass = new Map<string, StoredRecord[]>();
+    for (const registration of registrationRecords) {
+      const [classRecordId] = (registration.get(REGISTRATIONS_FIELD_IDS.class_id) as string[] | undefined) || [];
+      if (!classRecordId) continue;
+      registrationsByClass.set(classRecordId, [...(registrationsByClass.get(classRecordId) || []), registration]);
+    }
+
+    return classRecords
+      .filter((record) => registrationsByClass.has(record.id))
+      .map((record) => ({
+        classId: (record.get(CLASSES_FIELD_IDS.class_id) as string) || record.id,
+        className: (record.get(CLASSES_FIELD_IDS.class_name) as string) || '',
+        children: (registrationsByClass.get(record.id) || [])
+          .map((registration) => ({
+            registrationId: registration.id,
+            childName: ((registration.get(REGISTRATIONS_FIELD_IDS.registered_child) as string) || '').trim(),
+            consentHistory: parseConsentHistory(registration.get(REGISTRATIONS_FIELD_IDS.consent_history)),
+          }))
+          .sort((a, b) => a.childName.localeCompare(b.childName, 'de')),
+      }))
+      .sort((a, b) => a.className.localeCompare(b.className, 'de', { numeric: true }));
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Singleton
+// ---------------------------------------------------------------------------
+
+let consentServiceInstance: ConsentService | null = null;
+
+export function getConsentService(): ConsentService {
+  if (!consentServiceInstance) {
+    consentServiceInstance = new ConsentService();
+  }
+  return consentServiceInstance;
+}
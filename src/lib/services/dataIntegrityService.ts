@@ -12,12 +12,10 @@
 
 import { getAirtableService } from './airtableService';
 import { Event } from '@/lib/types/airtable';
-import { Resend } from 'resend';
+import { sendEmail } from './emailTransport';
 import Airtable from 'airtable';
 
 const NOTIFICATION_SETTINGS_TABLE_ID = 'tbld82JxKX4Ju1XHP';
-const FROM_EMAIL = process.env.RESEND_FROM_EMAIL || 'noreply@minimusiker.app';
-const FROM_NAME = 'Minimusiker';
 
 export interface IntegrityCheckResult {
   sent: number;
@@ -139,27 +137,19 @@ export async function checkDataIntegrityFlags(dryRun = false): Promise<Integrity
       return result;
     }
 
-    if (!process.env.RESEND_API_KEY) {
-      console.warn('[DataIntegrity] RESEND_API_KEY not set; skipping alert');
-      result.skipped++;
-      return result;
-    }
-
-    const resend = new Resend(process.env.RESEND_API_KEY);
-    const { data, error } = await resend.emails.send({
-      from: `${FROM_NAME} <${FROM_EMAIL}>`,
+    const sendResult = await sendEmail({
       to: recipients,
       subject: `[Minimusiker] Data integrity alert — ${invalid.length} event${invalid.length === 1 ? '' : 's'} with invalid tier flags`,
       html: buildAlertHtml(invalid),
     });
 
-    if (error) {
+    if (!sendResult.success) {
       result.failed++;
-      result.errors.push(error.message);
-      console.error('[DataIntegrity] Email send failed:', error);
+      result.errors.push(sendResult.error || 'Email send failed');
+      console.error('[DataIntegrity] Email send failed:', sendResult.error);
     } else {
       result.sent++;
-      console.log(`[DataIntegrity] Alert sent to ${recipients.length} recipient(s), id: ${data?.id}`);
+      console.log(`[DataIntegrity] Alert sent to ${recipients.length} recipient(s), id: ${sendResult.messageId}`);
     }
   } catch (error) {
     result.failed++;
@@ -0,0 +1,396 @@
+// src/lib/services/dataProtectionService.ts
+
+/**
+ * Data Protection Service
+ *
+ * DSGVO data subject tooling. Parent, child, order and email data sit in
+ * Parents, Registrations, Orders, EMAIL_LOGS and the legacy
+ * parent_journey_table:
+ * - export: everything stored about an email address, as a ZIP of JSON files
+ * - erasure: parent and child names and contact details are anonymised;
+ *   orders keep their financials and stay linked to the anonymised parent
+ * - retention: child names and raw recordings are purged a configurable
+ *   number of months after the event (config/dataRetention.ts)
+ *
+ * Erasure and retention run as 'privacy.erasure' / 'privacy.retention'
+ * jobs (jobHandlers.ts); the job result is the report of the run.
+ */
+
+import Airtable from 'airtable';
+import { getAirtableService, TABLE_NAME } from './airtableService';
+import { getR2Service, R2_PATHS } from './r2Service';
+import { getRepositories, type StoredRecord } from '@/lib/repositories';
+import { escapeFormulaString } from '@/lib/repositories/formula';
+import {
+  AIRTABLE_FIELD_IDS,
+  CLASSES_FIELD_IDS,
+  EVENTS_FIELD_IDS,
+  ORDERS_FIELD_IDS,
+  PARENTS_FIELD_IDS,
+  REGISTRATIONS_FIELD_IDS,
+} from '@/lib/types/airtable';
+import { EMAIL_LOGS_FIELD_IDS, EMAIL_LOGS_TABLE_ID } from '@/lib/types/email-automation';
+import { AUDIO_FILES_FIELD_IDS } from '@/lib/types/teacher';
+import type {
+  DataSubjectExport,
+  ErasureTargetKind,
+  ErasureTargets,
+  EventPurgeResult,
+} from '@/lib/types/dataProtection';
+import {
+  ANONYMISED_NAME,
+  getAnonymisedEmail,
+  getPrefixBucket,
+  getRawAudioPrefixes,
+  toNamedFields,
+} from '@/lib/utils/dataProtection';
+import { clearField } from '@/lib/utils/airtableFields';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface RetentionEvent {
+  recordId: string;
+  eventId: string;
+  eventDate: string;
+  legacyBookingId?: string;
+}
+
+// Legacy and email log rows are read straight from their tables
+type AirtableRecord = Airtable.Record<Airtable.FieldSet>;
+
+type AirtableUpdate = { id: string; fields: Partial<Airtable.FieldSet> };
+
+// Orders in every payment state belong to the export
+const ALL_PAYMENT_STATUSES = ['pending', 'paid', 'refunded', 'partially_refunded', 'voided'];
+
+// Airtable accepts at most 10 records per batch update
+const UPDATE_BATCH_SIZE = 10;
+
+// ---------------------------------------------------------------------------
+// Service
+// ---------------------------------------------------------------------------
+
+class DataProtectionService {
+  private airtable = getAirtableService();
+
+  private get legacyTable() {
+    return this.airtable.getBase()(TABLE_NAME);
+  }
+
+  private get emailLogsTable() {
+    return this.airtable.getBase()(EMAIL_LOGS_TABLE_ID);
+  }
+
+  /**
+   * Everything stored about an email address, from all tables
+   */
+  async exportDataSubject(email: string): Promise<DataSubjectExport> {
+    const repositories = getRepositories();
+    const parent = await repositories.parents.findByEmail(email);
+
+    const [registrations, orders, emailLogs, legacyRecords] = await Promise.all([
+      parent ? this.listParentRegistrations(parent) : Promise.resolve([]),
+      parent ? repositories.orders.listForParent(parent.id, ALL_PAYMENT_STATUSES) : Promise.resolve([]),
+      this.listEmailLogs(email),
+      this.listLegacyRecordsByEmail(email),
+    ]);
+
+    return {
+      email,
+      generatedAt: new Date().toISOString(),
+      parent: parent
+        ? toNamedFields(parent, PARENTS_FIELD_IDS, { omit: ['magic_link_token_hash', 'magic_link_expires_at'] })
+        : null,
+      children: await this.describeRegistrations(registrations),
+      orders: orders.map((order) =>
+        toNamedFields(order, ORDERS_FIELD_IDS, {
+          omit: ['parent_id', 'event_id', 'class_id'],
+          json: ['line_items', 'tracking_info', 'exchange_requests', 'refund_line_items'],
+        })
+      ),
+      emailLogs: emailLogs.map((log) => toNamedFields(log, EMAIL_LOGS_FIELD_IDS)),
+      legacyRecords: legacyRecords.map((record) =>
+        toNamedFields(record, AIRTABLE_FIELD_IDS, { omit: ['school_recording', 'assigned_staff', 'assigned_engineer'] })
+      ),
+    };
+  }
+
+  /**
+   * Records an erasure of the email address touches, or null if nothing is
+   * stored about it
+   */
+  async findErasureTargets(email: string): Promise<ErasureTargets | null> {
+    const repositories = getRepositories();
+    const parent = await repositories.parents.findByEmail(email);
+
+    const [registrations, orders, emailLogs, legacyRecords] = await Promise.all([
+      parent ? this.listParentRegistrations(parent) : Promise.resolve([]),
+      parent ? repositories.orders.listForParent(parent.id, ALL_PAYMENT_STATUSES) : Promise.resolve([]),
+      this.listEmailLogs(email),
+      this.listLegacyRecordsByEmail(email),
+    ]);
+
+    const targets: ErasureTargets = {
+      parentIds: parent ? [parent.id] : [],
+      registrationIds: registrations.map((record) => record.id),
+      legacyRecordIds: legacyRecords.map((record) => record.id),
+      emailLogIds: emailLogs.map((record) => record.id),
+      orderCount: orders.length,
+    };
+
+    const found =
+      targets.parentIds.length +
+      targets.registrationIds.length +
+      targets.legacyRecordIds.length +
+      targets.emailLogIds.length;
+    return found > 0 ? targets : null;
+  }
+
+  /**
+   * Anonymise one kind of erasure target. Safe to run again.
+   * @returns Number of records written
+   */
+  async anonymise(kind: ErasureTargetKind, recordIds: string[], subjectHash: string): Promise<number> {
+    const email = getAnonymisedEmail(subjectHash);
+
+    switch (kind) {
+      case 'parents': {
+        const parents = getRepositories().parents;
+        for (const recordId of recordIds) {
+          await parents.update(recordId, {
+            [PARENTS_FIELD_IDS.parent_first_name]: ANONYMISED_NAME,
+            [PARENTS_FIELD_IDS.parent_email]: email,
+            [PARENTS_FIELD_IDS.parent_telephone]: null,
+            [PARENTS_FIELD_IDS.magic_link_token_hash]: null,
+            [PARENTS_FIELD_IDS.magic_link_expires_at]: null,
+          });
+        }
+        return recordIds.length;
+      }
+
+      case 'registrations': {
+        const registrations = getRepositories().registrations;
+        for (const recordId of recordIds) {
+          await registrations.update(recordId, {
+            [REGISTRATIONS_FIELD_IDS.registered_child]: ANONYMISED_NAME,
+            [REGISTRATIONS_FIELD_IDS.notes]: null,
+          });
+        }
+        return recordIds.length;
+      }
+
+      case 'legacyRecords':
+        return this.updateInBatches(
+          'legacy',
+          recordIds.map((id) => ({
+            id,
+            fields: {
+              [AIRTABLE_FIELD_IDS.registered_child]: ANONYMISED_NAME,
+              [AIRTABLE_FIELD_IDS.parent_first_name]: ANONYMISED_NAME,
+              [AIRTABLE_FIELD_IDS.parent_email]: email,
+              [AIRTABLE_FIELD_IDS.parent_telephone]: clearField(),
+            },
+          }))
+        );
+
+      case 'emailLogs':
+        // Bounce and error messages can quote the address
+        return this.updateInBatches(
+          'emailLogs',
+          recordIds.map((id) => ({
+            id,
+            fields: {
+              [EMAIL_LOGS_FIELD_IDS.recipient_email]: email,
+              [EMAIL_LOGS_FIELD_IDS.error_message]: clearField(),
+              [EMAIL_LOGS_FIELD_IDS.delivery_detail]: clearField(),
+            },
+          }))
+        );
+    }
+  }
+
+  /**
+   * Events dated before the cutoff that still hold child names or raw audio
+   */
+  async listRetentionDueEvents(cutoffDate: string): Promise<RetentionEvent[]> {
+    const events = await getRepositories().events.listDueForDataPurge(cutoffDate);
+    return events.map((record) => ({
+      recordId: record.id,
+      eventId: (record.get(EVENTS_FIELD_IDS.event_id) as string) || record.id,
+      eventDate: (record.get(EVENTS_FIELD_IDS.event_date) as string) || '',
+      legacyBookingId: (record.get(EVENTS_FIELD_IDS.legacy_booking_id) as string) || undefined,
+    }));
+  }
+
+  /**
+   * Purge an event's child names (Registrations and legacy rows) and raw
+   * recordings (R2 files and their AudioFile records), then mark the event
+   * purged. A dry run only counts. Safe to run again.
+   */
+  async purgeEvent(event: RetentionEvent, dryRun: boolean): Promise<EventPurgeResult> {
+    const repositories = getRepositories();
+    const [registrations, legacyRecords, classes, rawAudioFiles] = await Promise.all([
+      repositories.registrations.listForEvent(event.eventId),
+      this.listLegacyRecordsByBookingIds([event.eventId, event.legacyBookingId]),
+      repositories.classes.listForEvent(event.eventId),
+      repositories.audioFiles.listForEvent(event.eventId, 'raw'),
+    ]);
+
+    const namedRegistrations = registrations.filter(
+      (record) => (record.get(REGISTRATIONS_FIELD_IDS.registered_child) || ANONYMISED_NAME) !== ANONYMISED_NAME
+    );
+    const namedLegacyRecords = legacyRecords.filter(
+      (record) => (record.get(AIRTABLE_FIELD_IDS.registered_child) || ANONYMISED_NAME) !== ANONYMISED_NAME
+    );
+
+    // The per-class raw folders exist even when no AudioFile points into them
+    const classRawPrefixes = classes
+      .map((record) => record.get(CLASSES_FIELD_IDS.class_id) as string | undefined)
+      .filter((classId): classId is string => !!classId)
+      .map((classId) => `${R2_PATHS.CLASS_RAW(event.eventId, classId)}/`);
+    const rawPrefixes = [
+      ...new Set([
+        ...classRawPrefixes,
+        ...getRawAudioPrefixes(
+          event.eventId,
+          rawAudioFiles.map((record) => (record.get(AUDIO_FILES_FIELD_IDS.r2_key) as string) || '')
+        ),
+      ]),
+    ].sort();
+
+    const result: EventPurgeResult = {
+      eventId: event.eventId,
+      eventDate: event.eventDate,
+      childNames: namedRegistrations.length,
+      legacyRecords: namedLegacyRecords.length,
+      rawPrefixes,
+      rawFilesDeleted: 0,
+      rawAudioRecords: rawAudioFiles.length,
+    };
+    if (dryRun) return result;
+
+    for (const record of namedRegistrations) {
+      await repositories.registrations.update(record.id, {
+        [REGISTRATIONS_FIELD_IDS.registered_child]: ANONYMISED_NAME,
+        [REGISTRATIONS_FIELD_IDS.notes]: null,
+      });
+    }
+    await this.updateInBatches(
+      'legacy',
+      namedLegacyRecords.map((record) => ({
+        id: record.id,
+        fields: { [AIRTABLE_FIELD_IDS.registered_child]: ANONYMISED_NAME },
+      }))
+    );
+
+    const r2Service = getR2Service();
+    for (const prefix of rawPrefixes) {
+      const { deleted } = await r2Service.purgeByPrefix(getPrefixBucket(prefix), prefix);
+      result.rawFilesDeleted += deleted;
+    }
+    for (const record of rawAudioFiles) {
+      await repositories.audioFiles.destroy(record.id);
+    }
+
+    await repositories.events.update(event.recordId, {
+      [EVENTS_FIELD_IDS.data_purged_at]: new Date().toISOString(),
+    });
+    return result;
+  }
+
+  private async listParentRegistrations(parent: StoredRecord): Promise<StoredRecord[]> {
+    const parentsId = parent.get(getRepositories().parents.primaryField) as number | undefined;
+    if (parentsId === undefined) return [];
+    return getRepositories().registrations.listForParent(parentsId);
+  }
+
+  /**
+   * Registrations with the event and class they belong to, for the export
+   */
+  private async describeRegistrations(registrations: StoredRecord[]): Promise<Array<Record<string, unknown>>> {
+    const repositories = getRepositories();
+    const linked = (record: StoredRecord, fieldId: string) =>
+      ((record.get(fieldId) as string[] | undefined) || [])[0];
+
+    const eventIds = [...new Set(registrations.map((r) => linked(r, REGISTRATIONS_FIELD_IDS.event_id)).filter(Boolean))];
+    const classIds = [...new Set(registrations.map((r) => linked(r, REGISTRATIONS_FIELD_IDS.class_id)).filter(Boolean))];
+    const [events, classes] = await Promise.all([
+      Promise.all(eventIds.map((id) => repositories.events.findById(id))),
+      Promise.all(classIds.map((id) => repositories.classes.findById(id))),
+    ]);
+    const eventsById = new Map(events.filter((e): e is StoredRecord => !!e).map((e) => [e.id, e]));
+    const classesById = new Map(classes.filter((c): c is StoredRecord => !!c).map((c) => [c.id, c]));
+
+    return registrations.map((registration) => {
+      const event = eventsById.get(linked(registration, REGISTRATIONS_FIELD_IDS.event_id));
+      const cls = classesById.get(linked(registration, REGISTRATIONS_FIELD_IDS.class_id));
+      return {
+        ...toNamedFields(registration, REGISTRATIONS_FIELD_IDS, {
+          omit: ['event_id', 'parent_id', 'class_id', 'legacy_record'],
+          json: ['consent_history'],
+        }),
+        event: event
+          ? {
+              event_id: event.get(EVENTS_FIELD_IDS.event_id),
+              school_name: event.get(EVENTS_FIELD_IDS.school_name),
+              event_date: event.get(EVENTS_FIELD_IDS.event_date),
+            }
+          : null,
+        class_name: cls?.get(CLASSES_FIELD_IDS.class_name) ?? null,
+      };
+    });
+  }
+
+  private async listEmailLogs(email: string): Promise<readonly AirtableRecord[]> {
+    return this.emailLogsTable
+      .select({
+        filterByFormula: `LOWER({${EMAIL_LOGS_FIELD_IDS.recipient_email}}) = '${escapeFormulaString(email.trim().toLowerCase())}'`,
+        returnFieldsByFieldId: true,
+      })
+      .all();
+  }
+
+  private async listLegacyRecordsByEmail(email: string): Promise<readonly AirtableRecord[]> {
+    return this.legacyTable
+      .select({
+        filterByFormula: `LOWER({${AIRTABLE_FIELD_IDS.parent_email}}) = '${escapeFormulaString(email.trim().toLowerCase())}'`,
+        returnFieldsByFieldId: true,
+      })
+      .all();
+  }
+
+  private async listLegacyRecordsByBookingIds(bookingIds: Array<string | undefined>): Promise<readonly AirtableRecord[]> {
+    const ids = [...new Set(bookingIds.filter((id): id is string => !!id))];
+    if (ids.length === 0) return [];
+
+    return this.legacyTable
+      .select({
+        filterByFormula: `OR(${ids.map((id) => `{${AIRTABLE_FIELD_IDS.booking_id}} = '${escapeFormulaString(id)}'`).join(', ')})`,
+        returnFieldsByFieldId: true,
+      })
+      .all();
+  }
+
+  private async updateInBatches(table: 'legacy' | 'emailLogs', updates: AirtableUpdate[]): Promise<number> {
+    const target = table === 'legacy' ? this.legacyTable : this.emailLogsTable;
+    for (let i = 0; i < updates.length; i += UPDATE_BATCH_SIZE) {
+      await target.update(updates.slice(i, i + UPDATE_BATCH_SIZE));
+    }
+    return updates.length;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Singleton
+// ---------------------------------------------------------------------------
+
+let dataProtectionServiceInstance: DataProtectionService | null = null;
+
+export function getDataProtectionService(): DataProtectionService {
+  if (!dataProtectionServiceInstance) {
+    dataProtectionServiceInstance = new DataProtectionService();
+  }
+  return dataProtectionServiceInstance;
+}
@@ -1,12 +1,14 @@
 import {
+  TASK_TIMELINE,
   calculateDeadline as calculateDeadlineV2,
-  getTimelineEntry,
+  type TaskTimelineEntry,
 } from '@/lib/config/taskTimeline';
 
 /**
  * Compute a new deadline string (YYYY-MM-DD) for a task based on:
- * 1. The canonical timeline offset for `templateId` (preferred — single source of truth), or
- * 2. The stored `timeline_offset` value (fallback for legacy templates not in the v2 timeline).
+ * 1. The offset for `templateId` in the event's timeline (preferred — single source of truth;
+ *    defaults to the catalog offsets), or
+ * 2. The stored `timeline_offset` value (fallback for legacy templates not in the timeline).
  *
  * Returns `null` when neither a timeline entry nor a stored offset is available
  * (e.g. manually created tasks without a `timeline_offset`).
@@ -17,8 +19,9 @@ export function computeNewDeadline(
   eventDate: Date,
   templateId: string | undefined,
   storedOffset: number | null | undefined,
+  timeline: readonly TaskTimelineEntry[] = TASK_TIMELINE,
 ): string | null {
-  const entry = templateId ? getTimelineEntry(templateId) : undefined;
+  const entry = templateId ? timeline.find((e) => e.id === templateId) : undefined;
   const offset = entry?.offset ?? storedOffset;
   if (offset === null || offset === undefined) return null;
   const deadline = calculateDeadlineV2(eventDate, offset);
@@ -20,9 +20,14 @@ import {
   getEventsHittingThreshold,
   catchUpWindowDays,
   substituteTemplateVariables,
+  getPreviewTemplateData,
+  validateTimelineTemplateVariables,
+  getRecipientsForEvent,
 } from './emailAutomationService';
-import { EventThresholdMatch, EmailTemplate } from '@/lib/types/email-automation';
-import { Event } from '@/lib/types/airtable';
+import { getAirtableService } from './airtableService';
+import { getEmailDeliveryService } from './emailDeliveryService';
+import { EventThresholdMatch, EmailTemplate, TEMPLATE_DATA_VARIABLES } from '@/lib/types/email-automation';
+import { Event, Parent, Registration } from '@/lib/types/airtable';
 
 // Minimal Event factory — getEventsHittingThreshold only reads a handful of
 // fields, so cast a partial rather than spelling out the whole Airtable row.
@@ -259,3 +264,65 @@ describe('substituteTemplateVariables $-sequence safety', () => {
     expect(out).toBe('Hallo Anna!');
   });
 });
+
+describe('substituteTemplateVariables conditional sections', () => {
+  it('keeps {{#if}} sections only when the variable is set', () => {
+    const template = 'Hallo{{#if child_name}} und {{child_name}}{{/if}}!{{#if class_name}} ({{class_name}}){{/if}}';
+    expect(substituteTemplateVariables(template, { child_name: 'Lisa' })).toBe('Hallo und Lisa!');
+    expect(substituteTemplateVariables(template, { child_name: '' })).toBe('Hallo!');
+  });
+});
+
+describe('validateTimelineTemplateVariables', () => {
+  it('matches the variables the preview data fills', () => {
+    const previewKeys = Object.keys(getPreviewTemplateData()).filter((k) => !k.startsWith('_'));
+    expect(previewKeys.sort()).toEqual([...TEMPLATE_DATA_VARIABLES].sort());
+  });
+
+  it('accepts TemplateData variables, date math and conditions', () => {
+    expect(
+      validateTimelineTemplateVariables({
+        subject: 'Noch 19 Tage bis {{event_date}}',
+        bodyHtml: '{{#if order_link}}<a href="{{order_link}}">Bis {{event_date-7}} bestellen</a>{{/if}}',
+      })
+    ).toBeNull();
+  });
+
+  it('names unknown variables in the body and A/B variants', () => {
+    expect(
+      validateTimelineTemplateVariables({
+        subject: 'Hallo {{parentName}}',
+        bodyHtml: '<p>{{school_name}}</p>',
+        variants: [{ key: 'B', subject: 'B', bodyHtml: '{{#if shop_url}}x{{/if}}', weight: 50 }],
+      })
+    ).toBe('Unbekannte Variablen: {{parentName}}, {{shop_url}}');
+  });
+});
+
+describe('getRecipientsForEvent', () => {
+  const parents: Record<string, Partial<Parent>> = {
+    rec_anna: { parent_email: 'anna@example.de', parent_first_name: 'Anna', email_campaigns: 'yes', email_opt_outs: ['shop_promotions'] },
+    rec_ben: { parent_email: 'ben@example.de', parent_first_name: 'Ben', email_campaigns: 'yes', email_opt_outs: [] },
+  };
+
+  beforeEach(() => {
+    const airtable = getAirtableService();
+    jest.spyOn(airtable, 'getRegistrationsByEventId').mockResolvedValue(
+      Object.keys(parents).map((id) => ({ parent_id: [id], registered_child: 'Mia' }) as unknown as Registration)
+    );
+    jest.spyOn(airtable, 'getParentByRecordId').mockImplementation(async (id) => parents[id] as Parent);
+    jest.spyOn(getEmailDeliveryService(), 'getSuppressedEmails').mockResolvedValue(new Set());
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("filters parents by the template's email category", async () => {
+    const reminder = await getRecipientsForEvent('evt_test', 'rec_test', makeEvent(), ['parent']);
+    const earlyBird = await getRecipientsForEvent('evt_test', 'rec_test', makeEvent(), ['parent'], 'shop_promotions');
+
+    expect(reminder.map((r) => r.email)).toEqual(['anna@example.de', 'ben@example.de']);
+    expect(earlyBird.map((r) => r.email)).toEqual(['ben@example.de']);
+  });
+});
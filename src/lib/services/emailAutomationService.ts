@@ -10,10 +10,20 @@ import { getActivityService } from '@/lib/services/activityService';
 import { sendCampaignEmail, CampaignEmailOptions } from './resendService';
 import { generateUnsubscribeUrl } from '@/lib/utils/unsubscribe';
 import { getTeacherService } from './teacherService';
+import { getEmailDeliveryService } from './emailDeliveryService';
+import { sendEmail } from './emailTransport';
+import { assignTemplateVariant, getTemplateVariants, tagShopLinks } from '@/lib/utils/emailVariants';
+import {
+  applyConditionalSections,
+  findUnknownVariables,
+  formatUnknownVariablesError,
+} from '@/lib/utils/emailBlocks';
+import { isParentSubscribedTo } from '@/lib/utils/emailPreferences';
 import {
   EmailTemplate,
   EmailRecipient,
   TemplateData,
+  TEMPLATE_DATA_VARIABLES,
   AutomationResult,
   EmailSendResult,
   EventThresholdMatch,
@@ -21,7 +31,7 @@ import {
   Audience,
   EventTier,
 } from '@/lib/types/email-automation';
-import { Event, Class, Parent, Registration, EVENTS_TABLE_ID, EVENTS_FIELD_IDS, ORDERS_TABLE_ID, ORDERS_FIELD_IDS } from '@/lib/types/airtable';
+import { Event, Class, Parent, ParentEmailCategory, Registration, EVENTS_TABLE_ID, EVENTS_FIELD_IDS, ORDERS_TABLE_ID, ORDERS_FIELD_IDS } from '@/lib/types/airtable';
 import { parseOverrides } from '@/lib/utils/eventThresholds';
 import { isSchulsongOnlyEvent } from '@/lib/utils/eventTier';
 
@@ -160,13 +170,14 @@ export function sleep(ms: number): Promise<void> {
 
 /**
  * Substitute template variables in a string
- * Variables use {{variable_name}} syntax
+ * Variables use {{variable_name}} syntax; {{#if variable_name}}...{{/if}}
+ * sections (conditional blocks from the builder) only render when set
  */
 export function substituteTemplateVariables(
   template: string,
   data: Partial<TemplateData>
 ): string {
-  let result = template;
+  let result = applyConditionalSections(template, (key) => !!data[key]);
 
   // Pre-process date math: {{event_date+N}} or {{event_date-N}}
   if (data._event_date_iso) {
@@ -197,6 +208,23 @@ export function substituteTemplateVariables(
   return result;
 }
 
+/**
+ * Check that a timeline template's subject, body and A/B variants only use
+ * variables the cron fills. Returns an error message or null.
+ */
+export function validateTimelineTemplateVariables(
+  content: Partial<Pick<EmailTemplate, 'subject' | 'bodyHtml' | 'variants'>>
+): string | null {
+  const texts = [
+    content.subject,
+    content.bodyHtml,
+    ...(content.variants ?? []).flatMap((v) => [v.subject, v.bodyHtml]),
+  ].filter((text): text is string => typeof text === 'string');
+  return formatUnknownVariablesError(
+    findUnknownVariables(texts.join('\n'), [...TEMPLATE_DATA_VARIABLES], { dateMath: true })
+  );
+}
+
 // =============================================================================
 // Event Threshold Matching
 // =============================================================================
@@ -306,7 +334,9 @@ export async function getTeacherRecipientsForEvent(
 ): Promise<EmailRecipient[]> {
   const airtable = getAirtableService();
   const recipients: EmailRecipient[] = [];
-  const seenEmails = new Set<string>();
+  // Suppressed (bounced/complained) addresses count as already seen, so the
+  // next fallback source gets a chance
+  const seenEmails = new Set<string>(await getEmailDeliveryService().getSuppressedEmails());
 
   try {
     // Get event with teachers and simplybook_booking linked records
@@ -401,12 +431,14 @@ export async function getTeacherRecipientsForEvent(
 }
 
 /**
- * Get parent recipients for an event
+ * Get parent recipients for an event who haven't turned off this category
+ * of campaign mail in the preference center
  */
 export async function getParentRecipientsForEvent(
   eventId: string,
   eventRecordId: string,
-  eventData: EventThresholdMatch
+  eventData: EventThresholdMatch,
+  category: ParentEmailCategory
 ): Promise<EmailRecipient[]> {
   const airtable = getAirtableService();
   const recipients: EmailRecipient[] = [];
@@ -415,8 +447,9 @@ export async function getParentRecipientsForEvent(
     // Get registrations for this event
     const registrations = await airtable.getRegistrationsByEventId(eventRecordId);
 
-    // Track unique parent emails to avoid duplicates
-    const seenEmails = new Set<string>();
+    // Track unique parent emails to avoid duplicates; suppressed
+    // (bounced/complained) addresses are never sent to
+    const seenEmails = new Set<string>(await getEmailDeliveryService().getSuppressedEmails());
 
     for (const registration of registrations) {
       // Get parent details
@@ -426,7 +459,7 @@ export async function getParentRecipientsForEvent(
 
         if (parent?.parent_email
             && !seenEmails.has(parent.parent_email.toLowerCase())
-            && parent.email_campaigns !== 'no') {
+            && isParentSubscribedTo(parent, category)) {
           seenEmails.add(parent.parent_email.toLowerCase());
 
           // Get class details if available
@@ -516,7 +549,7 @@ async function getNonBuyerRecipientsForEvent(
   eventRecordId: string,
   eventData: EventThresholdMatch
 ): Promise<EmailRecipient[]> {
-  const allParents = await getParentRecipientsForEvent(eventId, eventRecordId, eventData);
+  const allParents = await getParentRecipientsForEvent(eventId, eventRecordId, eventData, 'shop_promotions');
   // Use eventRecordId for order lookup via linked record field
   const paidEmails = await getPaidParentEmailsForEvent(eventRecordId);
   return allParents
@@ -526,12 +559,16 @@ async function getNonBuyerRecipientsForEvent(
 
 /**
  * Get all recipients for an event based on audience type
+ * @param emailCategory - Preference center category of the template; parents
+ *   who turned it off are left out (defaults to event_reminders). Non-buyer
+ *   mails always count as shop_promotions.
  */
 export async function getRecipientsForEvent(
   eventId: string,
   eventRecordId: string,
   eventData: EventThresholdMatch,
-  audience: Audience
+  audience: Audience,
+  emailCategory: ParentEmailCategory = 'event_reminders'
 ): Promise<EmailRecipient[]> {
   const recipients: EmailRecipient[] = [];
 
@@ -540,7 +577,7 @@ export async function getRecipientsForEvent(
   }
 
   if (audience.includes('parent')) {
-    recipients.push(...await getParentRecipientsForEvent(eventId, eventRecordId, eventData));
+    recipients.push(...await getParentRecipientsForEvent(eventId, eventRecordId, eventData, emailCategory));
   }
 
   if (audience.includes('non-buyers')) {
@@ -588,9 +625,15 @@ export async function sendAutomatedEmail(
     parent_portal_link: `${baseUrl}/familie`,
   };
 
+  // Pick the recipient's A/B variant and tag shop links for click stats.
+  // The variant is only logged for templates that actually run a test.
+  const variant = assignTemplateVariant(template, recipient.email);
+  const isAbTest = (template.variants?.length ?? 0) > 0;
+  const variantData = tagShopLinks(fullData, template.name, variant.key);
+
   // Substitute variables in subject and body
-  const subject = substituteTemplateVariables(template.subject, fullData);
-  const bodyHtml = substituteTemplateVariables(template.bodyHtml, fullData);
+  const subject = substituteTemplateVariables(variant.subject, variantData);
+  const bodyHtml = substituteTemplateVariables(variant.bodyHtml, variantData);
 
   // Check if already sent (unless skipDuplicateCheck is true)
   if (!skipDuplicateCheck) {
@@ -646,6 +689,7 @@ export async function sendAutomatedEmail(
     status: result.success ? 'sent' : 'failed',
     errorMessage: result.error,
     resendMessageId: result.messageId,
+    variant: isAbTest ? variant.key : undefined,
   };
 
   const emailLogId = await airtable.createEmailLog(logInput);
@@ -667,6 +711,7 @@ export async function sendAutomatedEmail(
         recipientType: recipient.type,
         emailLogId: emailLogId ?? undefined,
         resendMessageId: result.messageId,
+        ...(isAbTest ? { variant: variant.key } : {}),
       },
     });
   }
@@ -676,6 +721,7 @@ export async function sendAutomatedEmail(
     recipientType: recipient.type,
     eventId: recipient.eventId,
     templateName: template.name,
+    variant: isAbTest ? variant.key : undefined,
     success: result.success,
     messageId: result.messageId,
     error: result.error,
@@ -778,7 +824,8 @@ export async function processEmailAutomation(
             event.eventId,
             event.eventRecordId,
             event,
-            template.audience
+            template.audience,
+            template.emailCategory
           );
 
           if (recipients.length === 0) {
@@ -793,14 +840,18 @@ export async function processEmailAutomation(
           for (const recipient of recipients) {
             if (dryRun) {
               // In dry run mode, just log what would be sent
+              const variantKey = template.variants?.length
+                ? assignTemplateVariant(template, recipient.email).key
+                : undefined;
               console.log(
-                `[DRY RUN] Would send "${template.name}" to ${recipient.email} for event ${event.eventId}`
+                `[DRY RUN] Would send "${template.name}"${variantKey ? ` (variant ${variantKey})` : ''} to ${recipient.email} for event ${event.eventId}`
               );
               result.details.push({
                 recipientEmail: recipient.email,
                 recipientType: recipient.type,
                 eventId: event.eventId,
                 templateName: template.name,
+                variant: variantKey,
                 success: true,
                 messageId: 'dry-run',
               });
@@ -1144,7 +1195,7 @@ export async function processSchulsongMerchLastChance(
         isPlus: event.is_plus,
         isSchulsong: event.is_schulsong,
         isUnder100: event.is_under_100,
-      });
+      }, 'shop_promotions');
       const paidEmails = await getPaidParentEmailsForEvent(event.id);
       const nonBuyers = allParents.filter(p => !paidEmails.has(p.email.toLowerCase()));
 
@@ -1309,15 +1360,10 @@ export async function processTracklistConfirmationEmails(
         .replace(/\{\{eventDate\}\}/g, new Date(event.event_date).toLocaleDateString('de-DE'))
         .replace(/\{\{loginUrl\}\}/g, loginUrl);
 
-      // Send via Resend
-      const { Resend } = await import('resend');
-      const resend = new Resend(process.env.RESEND_API_KEY);
-      await resend.emails.send({
-        from: process.env.EMAIL_FROM || 'Minimusiker <info@minimusiker.de>',
-        to: teacherEmail,
-        subject,
-        html: body,
-      });
+      const result = await sendEmail({ to: teacherEmail, subject, html: body });
+      if (!result.success) {
+        throw new Error(result.error || 'Email send failed');
+      }
 
       // Log for dedup
       await airtable.createEmailLog({
@@ -1377,11 +1423,13 @@ export function getPreviewTemplateData(): TemplateData {
  * @param templateId - The template record ID
  * @param testEmail - The email address to send the test to
  * @param eventId - Optional event ID (e.g., "evt_test_school_minimusiker_...") to use real event data instead of preview data
+ * @param variantKey - Optional A/B variant to send (default: A)
  */
 export async function sendTestEmail(
   templateId: string,
   testEmail: string,
-  eventId?: string
+  eventId?: string,
+  variantKey?: string
 ): Promise<{ success: boolean; messageId?: string; error?: string; previewData?: Partial<TemplateData> }> {
   const airtable = getAirtableService();
 
@@ -1423,7 +1471,8 @@ export async function sendTestEmail(
         eventId,
         event.id,
         eventData,
-        template.audience
+        template.audience,
+        template.emailCategory
       );
 
       if (recipients.length > 0) {
@@ -1450,8 +1499,10 @@ export async function sendTestEmail(
       templateData = getPreviewTemplateData();
     }
 
-    const subject = substituteTemplateVariables(template.subject, templateData);
-    const bodyHtml = substituteTemplateVariables(template.bodyHtml, templateData);
+    const variants = getTemplateVariants(template);
+    const variant = variants.find((v) => v.key === variantKey) ?? variants[0];
+    const subject = substituteTemplateVariables(variant.subject, templateData);
+    const bodyHtml = substituteTemplateVariables(variant.bodyHtml, templateData);
 
     const result = await sendCampaignEmail(testEmail, subject, bodyHtml);
 
@@ -0,0 +1,160 @@
+/**
+ * Email Delivery Service
+ *
+ * Applies Resend delivery events (delivered, delayed, bounced, complained,
+ * opened) to the EMAIL_LOGS row of the message and keeps the suppression
+ * list of addresses that hard-bounced or complained. The recipient lookups
+ * in emailAutomationService skip suppressed addresses.
+ */
+
+import Airtable from 'airtable';
+import type { WebhookEventPayload } from 'resend';
+import { getAirtableService } from './airtableService';
+import {
+  EMAIL_SUPPRESSIONS_TABLE_ID,
+  EMAIL_SUPPRESSIONS_FIELD_IDS,
+  type EmailSuppression,
+  type EmailSuppressionReason,
+} from '@/lib/types/email-automation';
+import {
+  getDeliveryLogUpdate,
+  getSuppressionFromEvent,
+  getWebhookMessageId,
+} from '@/lib/utils/resendWebhook';
+
+// ─── In-memory cache (60s TTL) ────────────────────────────────────────
+// Recipient lookups run once per event per cron run; the list only grows
+// through webhooks, so a minute of staleness is fine.
+const CACHE_TTL_MS = 60_000;
+
+export interface DeliveryEventResult {
+  messageId: string | null;
+  logsUpdated: number;
+  suppressed: string[];
+}
+
+class EmailDeliveryService {
+  private airtable = getAirtableService();
+  private suppressedCache: { emails: Set<string>; expiresAt: number } | null = null;
+
+  private get table() {
+    return this.airtable.getBase()(EMAIL_SUPPRESSIONS_TABLE_ID);
+  }
+
+  /**
+   * Apply a verified Resend webhook event
+   */
+  async handleWebhookEvent(event: WebhookEventPayload): Promise<DeliveryEventResult> {
+    const messageId = getWebhookMessageId(event);
+    const result: DeliveryEventResult = { messageId, logsUpdated: 0, suppressed: [] };
+    if (!messageId) return result;
+
+    const logs = await this.airtable.getEmailLogsByResendMessageId(messageId);
+    for (const log of logs) {
+      const update = getDeliveryLogUpdate(log, event);
+      if (!update) continue;
+      await this.airtable.updateEmailLogDelivery(log.id, update);
+      result.logsUpdated++;
+    }
+
+    const suppression = getSuppressionFromEvent(event);
+    if (suppression) {
+      for (const email of suppression.emails) {
+        const added = await this.suppress(email, suppression.reason, suppression.detail, messageId);
+        if (added) result.suppressed.push(email.toLowerCase());
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * All suppressed addresses (lowercase). Fails open: when the list can't be
+   * loaded we keep sending rather than silently stop all mail.
+   */
+  async getSuppressedEmails(): Promise<Set<string>> {
+    if (this.suppressedCache && Date.now() < this.suppressedCache.expiresAt) {
+      return this.suppressedCache.emails;
+    }
+
+    try {
+      const suppressions = await this.listSuppressions();
+      const emails = new Set(suppressions.map((s) => s.email));
+      this.suppressedCache = { emails, expiresAt: Date.now() + CACHE_TTL_MS };
+      return emails;
+    } catch (error) {
+      console.error('[EmailDelivery] Failed to load suppression list:', error);
+      return new Set();
+    }
+  }
+
+  async listSuppressions(): Promise<EmailSuppression[]> {
+    const records = await this.table
+      .select({
+        returnFieldsByFieldId: true,
+        sort: [{ field: EMAIL_SUPPRESSIONS_FIELD_IDS.created_at, direction: 'desc' }],
+      })
+      .all();
+    return records.map((record) => this.transformSuppressionRecord(record));
+  }
+
+  /**
+   * Put an address on the suppression list. Returns false if it already was.
+   */
+  async suppress(
+    email: string,
+    reason: EmailSuppressionReason,
+    detail?: string,
+    resendMessageId?: string
+  ): Promise<boolean> {
+    const normalized = email.trim().toLowerCase();
+    const existing = await this.table
+      .select({
+        filterByFormula: `LOWER({${EMAIL_SUPPRESSIONS_FIELD_IDS.email}}) = '${normalized.replace(/'/g, "\\'")}'`,
+        maxRecords: 1,
+        returnFieldsByFieldId: true,
+      })
+      .firstPage();
+    if (existing.length > 0) return false;
+
+    await this.table.create({
+      [EMAIL_SUPPRESSIONS_FIELD_IDS.email]: normalized,
+      [EMAIL_SUPPRESSIONS_FIELD_IDS.reason]: reason,
+      [EMAIL_SUPPRESSIONS_FIELD_IDS.detail]: detail || '',
+      [EMAIL_SUPPRESSIONS_FIELD_IDS.resend_message_id]: resendMessageId || '',
+      [EMAIL_SUPPRESSIONS_FIELD_IDS.created_at]: new Date().toISOString(),
+    });
+    this.suppressedCache = null;
+    console.log(`[EmailDelivery] Suppressed ${normalized} (${reason})`);
+    return true;
+  }
+
+  /**
+   * Take an address off the list (e.g. the school fixed its mailbox)
+   */
+  async removeSuppression(recordId: string): Promise<void> {
+    await this.table.destroy(recordId);
+    this.suppressedCache = null;
+  }
+
+  private transformSuppressionRecord(record: Airtable.Record<Airtable.FieldSet>): EmailSuppression {
+    return {
+      id: record.id,
+      email: ((record.get(EMAIL_SUPPRESSIONS_FIELD_IDS.email) as string) || '').toLowerCase(),
+      reason: (record.get(EMAIL_SUPPRESSIONS_FIELD_IDS.reason) as EmailSuppressionReason) || 'manual',
+      detail: (record.get(EMAIL_SUPPRESSIONS_FIELD_IDS.detail) as string) || undefined,
+      resendMessageId: (record.get(EMAIL_SUPPRESSIONS_FIELD_IDS.resend_message_id) as string) || undefined,
+      createdAt: (record.get(EMAIL_SUPPRESSIONS_FIELD_IDS.created_at) as string) || '',
+    };
+  }
+}
+
+// Singleton instance
+let emailDeliveryServiceInstance: EmailDeliveryService | null = null;
+
+export function getEmailDeliveryService(): EmailDeliveryService {
+  if (!emailDeliveryServiceInstance) {
+    emailDeliveryServiceInstance = new EmailDeliveryService();
+  }
+  return emailDeliveryServiceInstance;
+}
@@ -1,9 +1,9 @@
 /**
  * Email Service using Brevo (formerly Sendinblue)
- * Handles all transactional email sending via Brevo templates
+ * Handles all transactional email sending via Brevo templates.
+ * Delivery goes through the shared email transport (see emailTransport.ts).
  */
 
-import * as Brevo from '@getbrevo/brevo';
 import {
   EmailRecipient,
   SendEmailOptions,
@@ -14,69 +14,15 @@ import {
   ParentWelcomeParams,
   StaffReassignmentParams,
 } from '@/lib/types/email';
+import { sendEmail } from './emailTransport';
 
 class EmailService {
-  private api: Brevo.TransactionalEmailsApi;
-  private fromEmail: string;
-  private fromName: string;
-  private isConfigured: boolean;
-
-  constructor() {
-    this.api = new Brevo.TransactionalEmailsApi();
-    this.fromEmail = process.env.BREVO_FROM_EMAIL || 'noreply@minimusiker.de';
-    this.fromName = process.env.BREVO_FROM_NAME || 'MiniMusiker';
-
-    const apiKey = process.env.BREVO_API_KEY;
-    this.isConfigured = !!apiKey;
-
-    if (apiKey) {
-      this.api.setApiKey(Brevo.TransactionalEmailsApiApiKeys.apiKey, apiKey);
-    }
-  }
-
   /**
    * Core method to send an email via Brevo template
+   * (goes to the local outbox when Brevo isn't configured)
    */
   async sendEmail(options: SendEmailOptions): Promise<SendEmailResult> {
-    if (!this.isConfigured) {
-      // Development fallback - log instead of sending
-      console.log('========================================');
-      console.log('EMAIL (Brevo not configured):');
-      console.log('To:', options.to);
-      console.log('Template ID:', options.templateId);
-      console.log('Params:', JSON.stringify(options.params, null, 2));
-      console.log('========================================');
-      return { success: true, messageId: 'dev-mode' };
-    }
-
-    try {
-      const recipients = Array.isArray(options.to) ? options.to : [options.to];
-
-      const sendSmtpEmail = new Brevo.SendSmtpEmail();
-      sendSmtpEmail.sender = { email: this.fromEmail, name: this.fromName };
-      sendSmtpEmail.to = recipients.map((r) => ({ email: r.email, name: r.name }));
-      sendSmtpEmail.templateId = options.templateId;
-      sendSmtpEmail.params = options.params;
-      if (options.tags) {
-        sendSmtpEmail.tags = options.tags;
-      }
-      if (options.scheduledAt) {
-        sendSmtpEmail.scheduledAt = options.scheduledAt;
-      }
-
-      const result = await this.api.sendTransacEmail(sendSmtpEmail);
-
-      return {
-        success: true,
-        messageId: result.body?.messageId,
-      };
-    } catch (error) {
-      console.error('Brevo email error:', error);
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Unknown email error',
-      };
-    }
+    return sendEmail(options);
   }
 
   /**
@@ -0,0 +1,336 @@
+/**
+ * Email Transport
+ *
+ * Single entry point for outgoing mail. Rendered messages (subject + html)
+ * go out through Resend, Brevo template messages through Brevo. When the
+ * provider has no API key, or EMAIL_TRANSPORT=outbox, the message is
+ * written to the local outbox instead (one JSON + HTML file per message,
+ * browsable at /admin/outbox) so automations can be tested without
+ * sending real mail.
+ *
+ * Sender addresses are configured per provider because each provider has
+ * its own verified domain.
+ */
+
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { Resend } from 'resend';
+import * as Brevo from '@getbrevo/brevo';
+import type {
+  EmailRecipient,
+  EmailTransport,
+  EmailTransportName,
+  OutboxMessage,
+  OutboxMessageSummary,
+  OutgoingEmail,
+  SendEmailResult,
+} from '@/lib/types/email';
+
+type ProviderName = Exclude<EmailTransportName, 'outbox'>;
+
+export const OUTBOX_MESSAGE_ID_PREFIX = 'outbox_';
+
+// Outbox listing is for eyeballing recent automation runs, not an archive
+const OUTBOX_LIST_LIMIT = 200;
+
+/**
+ * From address used for a provider
+ */
+export function getEmailSender(provider: ProviderName): EmailRecipient {
+  if (provider === 'brevo') {
+    return {
+      email: process.env.BREVO_FROM_EMAIL || 'noreply@minimusiker.de',
+      name: process.env.BREVO_FROM_NAME || 'MiniMusiker',
+    };
+  }
+  return {
+    email: process.env.RESEND_FROM_EMAIL || 'noreply@minimusiker.app',
+    name: 'Minimusiker',
+  };
+}
+
+/**
+ * Whether a messageId came from the outbox rather than a real provider
+ */
+export function isOutboxMessageId(messageId: string | undefined): boolean {
+  return !!messageId && messageId.startsWith(OUTBOX_MESSAGE_ID_PREFIX);
+}
+
+function normalizeRecipients(to: OutgoingEmail['to']): EmailRecipient[] {
+  const list = Array.isArray(to) ? to : [to];
+  return list.map((r) => (typeof r === 'string' ? { email: r } : r));
+}
+
+function formatRecipient(r: EmailRecipient): string {
+  return r.name ? `${r.name} <${r.email}>` : r.email;
+}
+
+/**
+ * Provider a message is meant for: Brevo templates need Brevo, everything
+ * else is rendered HTML and goes through Resend
+ */
+export function getEmailProvider(message: OutgoingEmail): ProviderName {
+  return message.templateId !== undefined ? 'brevo' : 'resend';
+}
+
+// ─── Resend ───────────────────────────────────────────────────────────
+
+export class ResendTransport implements EmailTransport {
+  readonly name = 'resend' as const;
+  private client: Resend | null = null;
+
+  // Lazy-initialize the client to avoid build-time errors
+  private getClient(): Resend {
+    if (!this.client) {
+      this.client = new Resend(process.env.RESEND_API_KEY);
+    }
+    return this.client;
+  }
+
+  async send(message: OutgoingEmail): Promise<SendEmailResult> {
+    if (message.templateId !== undefined || !message.subject || message.html === undefined) {
+      return { success: false, error: 'Resend needs a subject and HTML body' };
+    }
+
+    try {
+      const { data, error } = await this.getClient().emails.send({
+        from: formatRecipient(getEmailSender('resend')),
+        to: normalizeRecipients(message.to).map((r) => r.email),
+        subject: message.subject,
+        html: message.html,
+        headers: message.headers,
+        scheduledAt: message.scheduledAt?.toISOString(),
+        attachments: message.attachments?.map((a) => ({ filename: a.filename, content: a.content })),
+      });
+
+      if (error) {
+        console.error('Resend email error:', error);
+        return { success: false, error: error.message };
+      }
+
+      return { success: true, messageId: data?.id };
+    } catch (error) {
+      console.error('Resend email error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown email error',
+      };
+    }
+  }
+}
+
+// ─── Brevo ────────────────────────────────────────────────────────────
+
+export class BrevoTransport implements EmailTransport {
+  readonly name = 'brevo' as const;
+  private api: Brevo.TransactionalEmailsApi | null = null;
+
+  private getApi(): Brevo.TransactionalEmailsApi {
+    if (!this.api) {
+      this.api = new Brevo.TransactionalEmailsApi();
+      this.api.setApiKey(Brevo.TransactionalEmailsApiApiKeys.apiKey, process.env.BREVO_API_KEY || '');
+    }
+    return this.api;
+  }
+
+  async send(message: OutgoingEmail): Promise<SendEmailResult> {
+    try {
+      const sender = getEmailSender('brevo');
+      const sendSmtpEmail = new Brevo.SendSmtpEmail();
+      sendSmtpEmail.sender = { email: sender.email, name: sender.name };
+      sendSmtpEmail.to = normalizeRecipients(message.to).map((r) => ({ email: r.email, name: r.name }));
+      if (message.templateId !== undefined) {
+        sendSmtpEmail.templateId = message.templateId;
+        sendSmtpEmail.params = message.params;
+      } else {
+        sendSmtpEmail.subject = message.subject;
+        sendSmtpEmail.htmlContent = message.html;
+      }
+      if (message.headers) {
+        sendSmtpEmail.headers = message.headers;
+      }
+      if (message.tags) {
+        sendSmtpEmail.tags = message.tags;
+      }
+      if (message.scheduledAt) {
+        sendSmtpEmail.scheduledAt = message.scheduledAt;
+      }
+      if (message.attachments?.length) {
+        sendSmtpEmail.attachment = message.attachments.map((a) => ({
+          name: a.filename,
+          content: a.content.toString('base64'),
+        }));
+      }
+
+      const result = await this.getApi().sendTransacEmail(sendSmtpEmail);
+
+      return {
+        success: true,
+        messageId: result.body?.messageId,
+      };
+    } catch (error) {
+      console.error('Brevo email error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown email error',
+      };
+    }
+  }
+}
+
+// ─── Local outbox ─────────────────────────────────────────────────────
+
+export class OutboxTransport implements EmailTransport {
+  readonly name = 'outbox' as const;
+
+  constructor(private readonly dir: string) {}
+
+  /**
+   * Write the message to disk. Never fails the send: if the directory
+   * isn't writable (e.g. a read-only deploy without API keys) the message
+   * is logged to the console instead.
+   */
+  async send(message: OutgoingEmail): Promise<SendEmailResult> {
+    const provider = getEmailProvider(message);
+    const createdAt = new Date().toISOString();
+    const id = `${OUTBOX_MESSAGE_ID_PREFIX}${createdAt.replace(/[:.]/g, '-')}_${crypto.randomBytes(3).toString('hex')}`;
+    const stored: OutboxMessage = {
+      id,
+      createdAt,
+      provider,
+      from: getEmailSender(provider),
+      to: normalizeRecipients(message.to),
+      subject: message.subject,
+      html: message.html,
+      templateId: message.templateId,
+      params: message.params,
+      headers: message.headers,
+      tags: message.tags,
+      scheduledAt: message.scheduledAt?.toISOString(),
+      attachments: message.attachments?.map((a) => ({ filename: a.filename, size: a.content.length })),
+    };
+
+    try {
+      await fs.mkdir(this.dir, { recursive: true });
+      await fs.writeFile(path.join(this.dir, `${id}.json`), JSON.stringify(stored, null, 2));
+      if (message.html !== undefined) {
+        await fs.writeFile(path.join(this.dir, `${id}.html`), message.html);
+      }
+      console.log(
+        `[Outbox] ${stored.to.map((r) => r.email).join(', ')}: ${message.subject ?? `Brevo template ${message.templateId}`}`
+      );
+    } catch (error) {
+      console.warn('[Outbox] Could not write message, logging instead:', error);
+      console.log('========================================');
+      console.log(`EMAIL (${provider} not sent):`);
+      console.log('To:', stored.to.map(formatRecipient).join(', '));
+      console.log('Subject:', message.subject ?? `Brevo template ${message.templateId}`);
+      console.log('========================================');
+    }
+
+    return { success: true, messageId: id };
+  }
+
+  /**
+   * Most recent messages first, without bodies
+   */
+  async list(limit: number = OUTBOX_LIST_LIMIT): Promise<OutboxMessageSummary[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.dir);
+    } catch {
+      return [];
+    }
+
+    // IDs start with an ISO timestamp, so name order is send order
+    const ids = files
+      .filter((f) => f.startsWith(OUTBOX_MESSAGE_ID_PREFIX) && f.endsWith('.json'))
+      .map((f) => f.slice(0, -'.json'.length))
+      .sort()
+      .reverse()
+      .slice(0, limit);
+
+    const messages = await Promise.all(ids.map((id) => this.get(id)));
+    return messages
+      .filter((m): m is OutboxMessage => m !== null)
+      .map(({ html: _html, params: _params, headers: _headers, ...summary }) => summary);
+  }
+
+  async get(id: string): Promise<OutboxMessage | null> {
+    if (!/^[\w-]+$/.test(id)) return null;
+    try {
+      const raw = await fs.readFile(path.join(this.dir, `${id}.json`), 'utf8');
+      return JSON.parse(raw) as OutboxMessage;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Delete every outbox message. Returns how many were removed.
+   */
+  async clear(): Promise<number> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.dir);
+    } catch {
+      return 0;
+    }
+
+    const outboxFiles = files.filter((f) => f.startsWith(OUTBOX_MESSAGE_ID_PREFIX));
+    await Promise.all(outboxFiles.map((f) => fs.unlink(path.join(this.dir, f))));
+    return outboxFiles.filter((f) => f.endsWith('.json')).length;
+  }
+}
+
+// ─── Transport selection ──────────────────────────────────────────────
+
+function isProviderConfigured(provider: ProviderName): boolean {
+  return provider === 'brevo' ? !!process.env.BREVO_API_KEY : !!process.env.RESEND_API_KEY;
+}
+
+/**
+ * Whether all mail is forced into the outbox
+ */
+export function isOutboxMode(): boolean {
+  return process.env.EMAIL_TRANSPORT === 'outbox';
+}
+
+// Singleton instances
+let resendTransportInstance: ResendTransport | null = null;
+let brevoTransportInstance: BrevoTransport | null = null;
+let outboxTransportInstance: OutboxTransport | null = null;
+
+export function getOutboxTransport(): OutboxTransport {
+  if (!outboxTransportInstance) {
+    outboxTransportInstance = new OutboxTransport(
+      process.env.EMAIL_OUTBOX_DIR || path.join(process.cwd(), '.email-outbox')
+    );
+  }
+  return outboxTransportInstance;
+}
+
+/**
+ * Transport a message goes out through
+ */
+export function getEmailTransport(message: OutgoingEmail): EmailTransport {
+  const provider = getEmailProvider(message);
+  if (isOutboxMode() || !isProviderConfigured(provider)) {
+    return getOutboxTransport();
+  }
+
+  if (provider === 'brevo') {
+    if (!brevoTransportInstance) brevoTransportInstance = new BrevoTransport();
+    return brevoTransportInstance;
+  }
+  if (!resendTransportInstance) resendTransportInstance = new ResendTransport();
+  return resendTransportInstance;
+}
+
+/**
+ * Send a message through the transport chosen for it
+ */
+export async function sendEmail(message: OutgoingEmail): Promise<SendEmailResult> {
+  return getEmailTransport(message).send(message);
+}
@@ -14,6 +14,7 @@
 import { tokenManager } from './shopifyTokenManager';
 import { getOrderWaveService, type WaveOrder } from './orderWaveService';
 import { classifyVariant } from '@/lib/config/variantClassification';
+import { getStockService } from './stockService';
 
 // ---------------------------------------------------------------------------
 // Types
@@ -185,91 +186,33 @@ class FulfillmentService {
   }
 
   /**
-   * Fulfill all orders for a given event and wave.
+   * Get the orders of a wave that still need fulfilling.
    *
-   * For Welle 1: fulfills clothing line items only (partial fulfillment for "Both" orders)
-   * For Welle 2: fulfills audio line items only (completes "Both" orders)
-   *
-   * Steps:
-   * 1. Get orders for event from Airtable (using OrderWaveService)
-   * 2. Filter to relevant wave
-   * 3. For each order, call Shopify fulfillment API
-   * 4. Track success/failure per order
-   * 5. Return summary
+   * Idempotency: skip orders that are already fully fulfilled. This makes a
+   * 'fulfillment.welle' job safe to run again for the same wave — particularly
+   * important because Welle task completion queues one after the FE's job
+   * finished, and Shopify rejects fulfillment requests with no remaining line items
+   * (fulfillOrder throws "No eligible line items found..."). Orders with
+   * 'partial' status are NOT filtered — there's still work to do.
    */
-  async fulfillWelle(
+  async getOrdersToFulfill(
     eventRecordId: string,
     welle: 'Welle 1' | 'Welle 2',
-  ): Promise<WelleFulfillmentSummary> {
-    // 1. Get the event's orders grouped by wave
+  ): Promise<WaveOrder[]> {
     const eventSummary = await this.orderWaveService.getEventOrders(eventRecordId);
 
-    // 2. Get the orders for the requested wave
     const allWaveOrders: WaveOrder[] =
       welle === 'Welle 1' ? eventSummary.welle1.orders : eventSummary.welle2.orders;
 
-    // Idempotency: skip orders that are already fully fulfilled. This makes the
-    // method safe to call repeatedly — particularly important because
-    // taskService.completeWelleTask invokes it after the FE already did, and
-    // Shopify rejects fulfillment requests with no remaining line items
-    // (fulfillSingleOrder throws "No eligible line items found..."). Orders
-    // with 'partial' status are NOT filtered — there's still work to do.
-    const waveOrders = allWaveOrders.filter(
-      (o) => o.fulfillmentStatus !== 'fulfilled',
-    );
-
-    if (waveOrders.length === 0) {
-      return {
-        total: 0,
-        succeeded: 0,
-        failed: 0,
-        results: [],
-      };
-    }
-
-    // 3. Fulfill each order individually, catching errors per order
-    const results: FulfillmentResult[] = [];
-
-    for (const waveOrder of waveOrders) {
-      try {
-        const fulfillmentId = await this.fulfillSingleOrder(waveOrder, welle);
-        results.push({
-          orderId: waveOrder.orderId,
-          orderNumber: waveOrder.orderNumber,
-          success: true,
-          fulfillmentId,
-        });
-      } catch (error) {
-        console.error(
-          `[FulfillmentService] Failed to fulfill order ${waveOrder.orderNumber}:`,
-          error,
-        );
-        results.push({
-          orderId: waveOrder.orderId,
-          orderNumber: waveOrder.orderNumber,
-          success: false,
-          error: error instanceof Error ? error.message : 'Unknown error',
-        });
-      }
-    }
-
-    const succeeded = results.filter((r) => r.success).length;
-    const failed = results.filter((r) => !r.success).length;
-
-    return {
-      total: results.length,
-      succeeded,
-      failed,
-      results,
-    };
+    return allWaveOrders.filter((o) => o.fulfillmentStatus !== 'fulfilled');
   }
 
   /**
    * Fulfill a single order for a specific wave.
    * Returns the fulfillment ID on success.
    */
-  private async fulfillSingleOrder(
-    waveOrder: WaveOrder,
+  async fulfillOrder(
+    waveOrder: Pick<WaveOrder, 'orderId' | 'orderNumber'>,
     welle: 'Welle 1' | 'Welle 2',
   ): Promise<string> {
     // Ensure we have a Shopify order GID
@@ -324,6 +267,27 @@ class FulfillmentService {
       `[FulfillmentService] Fulfilled order ${waveOrder.orderNumber} for ${welle}: ${fulfillment.id}`,
     );
 
+    // 4. Book the shipped units out of stock (never fails the fulfillment)
+    const variantByLineItemId = new Map<string, string>();
+    for (const { node: fulfillmentOrder } of data.order.fulfillmentOrders.edges) {
+      for (const { node: lineItem } of fulfillmentOrder.lineItems.edges) {
+        if (lineItem.variant) variantByLineItemId.set(lineItem.id, lineItem.variant.id);
+      }
+    }
+    const shippedLines = lineItemsByFulfillmentOrder.flatMap((fo) =>
+      fo.fulfillmentOrderLineItems
+        .filter((li) => variantByLineItemId.has(li.id))
+        .map((li) => ({ variantId: variantByLineItemId.get(li.id)!, quantity: li.quantity })),
+    );
+    try {
+      await getStockService().recordFulfillment(`${waveOrder.orderNumber} ${welle}`, shippedLines);
+    } catch (error) {
+      console.error(
+        `[FulfillmentService] Failed to book ${waveOrder.orderNumber} out of stock:`,
+        error,
+      );
+    }
+
     return fulfillment.id;
   }
 
@@ -0,0 +1,600 @@
+/**
+ * Invoice Service
+ *
+ * Invoices (Rechnungen) for school fees. A draft is created from the event's
+ * saved Deal Builder configuration; issuing it assigns the next sequential
+ * number, renders the PDF into R2 and optionally emails it. Issued invoices
+ * are never changed or deleted: they are paid, or cancelled with a
+ * Stornorechnung that repeats the items with negated amounts.
+ *
+ * Status flow: draft → sent → (overdue) → paid, or sent/overdue/paid → cancelled.
+ * Overdue flags and payment reminders are handled by the daily cron via
+ * processInvoiceDunning().
+ */
+
+import Airtable from 'airtable';
+import crypto from 'crypto';
+import { getAirtableService } from './airtableService';
+import { getR2Service, R2_PATHS } from './r2Service';
+import { formatDocumentDate, renderBusinessDocumentPdf } from './businessDocumentPdf';
+import { sendInvoiceEmail } from './resendService';
+import {
+  INVOICES_TABLE_ID,
+  INVOICES_FIELD_IDS,
+  type Invoice,
+  type InvoiceDunningLevel,
+  type InvoiceLineItem,
+  type InvoiceStatus,
+  type InvoiceType,
+} from '@/lib/types/airtable';
+import {
+  addDaysToDate,
+  buildDocumentRecipient,
+  formatEuro,
+  getDealLineItems,
+} from '@/lib/utils/businessDocument';
+import {
+  buildStornoLineItems,
+  calculateInvoiceTotals,
+  getDaysOverdue,
+  getDueDunningStep,
+  getEffectiveInvoiceStatus,
+  getNextInvoiceNumber,
+  summarizeSchoolFees,
+  type SchoolFeeSummary,
+} from '@/lib/utils/invoiceDocument';
+import { clearField } from '@/lib/utils/airtableFields';
+import {
+  DOCUMENT_SENDER,
+  INVOICE_DUNNING_STEPS,
+  INVOICE_PAYMENT_TERM_DAYS,
+  INVOICE_PRICES_INCLUDE_VAT,
+  INVOICE_VAT_RATE,
+} from '@/lib/config/businessDocuments';
+
+// Signed download links in the admin UI
+const DOWNLOAD_URL_EXPIRY_SECONDS = 15 * 60;
+
+// Issue lock on a draft being issued or an invoice being cancelled: covers
+// number allocation, PDF rendering and upload
+const INVOICE_ISSUE_LOCK_MS = 2 * 60 * 1000;
+const INVOICE_NUMBER_ATTEMPTS = 5;
+const INVOICE_NUMBER_RETRY_MS = 400;
+
+// Issued invoices that can still be cancelled
+const CANCELLABLE_STATUSES: InvoiceStatus[] = ['sent', 'overdue', 'paid'];
+
+export interface InvoiceDunningResult {
+  markedOverdue: number;
+  remindersSent: number;
+  errors: string[];
+}
+
+/**
+ * Fields that release the issue lock
+ */
+function clearIssueLock(): Airtable.FieldSet {
+  return {
+    [INVOICES_FIELD_IDS.issue_token]: '',
+    [INVOICES_FIELD_IDS.issue_locked_until]: clearField(),
+  };
+}
+
+function today(): string {
+  return new Date().toISOString().split('T')[0];
+}
+
+function parseJson<T>(value: unknown, fallback: T): T {
+  try {
+    return value ? (JSON.parse(value as string) as T) : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+class InvoiceService {
+  private airtable = getAirtableService();
+  private r2 = getR2Service();
+
+  private get table() {
+    return this.airtable.getBase()(INVOICES_TABLE_ID);
+  }
+
+  private transformRecord(record: Airtable.Record<Airtable.FieldSet>): Invoice {
+    return {
+      id: record.id,
+      invoiceNumber: (record.get(INVOICES_FIELD_IDS.invoice_number) as string) || undefined,
+      eventRecordId: (record.get(INVOICES_FIELD_IDS.event) as string[] | undefined)?.[0],
+      eventId: (record.get(INVOICES_FIELD_IDS.event_id) as string) || undefined,
+      invoiceType: (record.get(INVOICES_FIELD_IDS.invoice_type) as InvoiceType) || 'invoice',
+      status: (record.get(INVOICES_FIELD_IDS.status) as InvoiceStatus) || 'draft',
+      recipient: parseJson(record.get(INVOICES_FIELD_IDS.recipient), { name: '', addressLines: [] }),
+      lineItems: parseJson<InvoiceLineItem[]>(record.get(INVOICES_FIELD_IDS.line_items), []),
+      vatRate: (record.get(INVOICES_FIELD_IDS.vat_rate) as number) ?? INVOICE_VAT_RATE,
+      netAmount: (record.get(INVOICES_FIELD_IDS.net_amount) as number) || 0,
+      vatAmount: (record.get(INVOICES_FIELD_IDS.vat_amount) as number) || 0,
+      grossAmount: (record.get(INVOICES_FIELD_IDS.gross_amount) as number) || 0,
+      serviceDate: (record.get(INVOICES_FIELD_IDS.service_date) as string) || undefined,
+      issueDate: (record.get(INVOICES_FIELD_IDS.issue_date) as string) || undefined,
+      dueDate: (record.get(INVOICES_FIELD_IDS.due_date) as string) || undefined,
+      r2Key: (record.get(INVOICES_FIELD_IDS.r2_key) as string) || undefined,
+      sentAt: (record.get(INVOICES_FIELD_IDS.sent_at) as string) || undefined,
+      sentTo: (record.get(INVOICES_FIELD_IDS.sent_to) as string) || undefined,
+      paidAt: (record.get(INVOICES_FIELD_IDS.paid_at) as string) || undefined,
+      cancelsInvoiceId: (record.get(INVOICES_FIELD_IDS.cancels) as string[] | undefined)?.[0],
+      cancellationReason: (record.get(INVOICES_FIELD_IDS.cancellation_reason) as string) || undefined,
+      dunningLevel: ((record.get(INVOICES_FIELD_IDS.dunning_level) as number) || 0) as InvoiceDunningLevel,
+      lastDunningAt: (record.get(INVOICES_FIELD_IDS.last_dunning_at) as string) || undefined,
+      createdBy: (record.get(INVOICES_FIELD_IDS.created_by) as string) || undefined,
+      createdAt: record._rawJson.createdTime,
+    };
+  }
+
+  private async listAllInvoices(filterByFormula?: string): Promise<Invoice[]> {
+    const records = await this.table
+      .select({ returnFieldsByFieldId: true, ...(filterByFormula && { filterByFormula }) })
+      .all();
+    return records.map((record) => this.transformRecord(record));
+  }
+
+  /**
+   * All invoices and Stornos of an event, newest first
+   */
+  async listInvoicesForEvent(eventId: string): Promise<Invoice[]> {
+    const invoices = await this.listAllInvoices(
+      `{${INVOICES_FIELD_IDS.event_id}} = '${eventId.replace(/'/g, "\\'")}'`
+    );
+    return invoices.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  private async findInvoiceRecord(invoiceId: string): Promise<Airtable.Record<Airtable.FieldSet> | null> {
+    if (!/^rec[a-zA-Z0-9]{14}$/.test(invoiceId)) return null;
+    const records = await this.table
+      .select({ filterByFormula: `RECORD_ID() = '${invoiceId}'`, maxRecords: 1, returnFieldsByFieldId: true })
+      .firstPage();
+    return records[0] ?? null;
+  }
+
+  async getInvoice(invoiceId: string): Promise<Invoice | null> {
+    const record = await this.findInvoiceRecord(invoiceId);
+    return record ? this.transformRecord(record) : null;
+  }
+
+  // ========================================
+  // Drafts
+  // ========================================
+
+  /**
+   * Draft invoice from the event's saved Deal Builder configuration. The
+   * address and items are frozen here; to change them, delete the draft and
+   * create a new one after updating the deal.
+   */
+  async createDraftForEvent(eventId: string, createdBy: string): Promise<Invoice> {
+    const event = await this.airtable.getEventByEventId(eventId);
+    if (!event) {
+      throw new Error(`Event ${eventId} not found`);
+    }
+    if (!event.deal_config) {
+      throw new Error('Event has no Deal Builder configuration');
+    }
+
+    const breakdown = getDealLineItems(event.deal_config, event.deal_type, event.estimated_children);
+    if (!breakdown) {
+      throw new Error('Deal configuration has no line items');
+    }
+    const lineItems: InvoiceLineItem[] = [
+      ...(breakdown.base !== 0 ? [{ label: 'Pauschale', amount: breakdown.base }] : []),
+      ...breakdown.items.map((item) => ({ label: item.label, amount: item.amount })),
+    ];
+
+    const booking = event.simplybook_booking?.[0]
+      ? await this.airtable.getSchoolBookingById(event.simplybook_booking[0])
+      : null;
+    const einrichtungId = booking?.einrichtung?.[0];
+    const einrichtung = einrichtungId ? await this.airtable.getEinrichtungById(einrichtungId) : null;
+    const recipient = buildDocumentRecipient(einrichtung, {
+      name: booking?.schoolName || event.school_name,
+      contactPerson: booking?.schoolContactName,
+      address: booking?.schoolAddress || event.school_address,
+      postalCode: booking?.schoolPostalCode,
+      city: booking?.city,
+    });
+
+    const totals = calculateInvoiceTotals(lineItems, INVOICE_VAT_RATE, INVOICE_PRICES_INCLUDE_VAT);
+    const record = await this.table.create({
+      [INVOICES_FIELD_IDS.event]: [event.id],
+      [INVOICES_FIELD_IDS.event_id]: event.event_id,
+      [INVOICES_FIELD_IDS.invoice_type]: 'invoice',
+      [INVOICES_FIELD_IDS.status]: 'draft',
+      [INVOICES_FIELD_IDS.recipient]: JSON.stringify(recipient),
+      [INVOICES_FIELD_IDS.line_items]: JSON.stringify(lineItems),
+      [INVOICES_FIELD_IDS.vat_rate]: INVOICE_VAT_RATE,
+      [INVOICES_FIELD_IDS.net_amount]: totals.netAmount,
+      [INVOICES_FIELD_IDS.vat_amount]: totals.vatAmount,
+      [INVOICES_FIELD_IDS.gross_amount]: totals.grossAmount,
+      ...(event.event_date && { [INVOICES_FIELD_IDS.service_date]: event.event_date.split('T')[0] }),
+      [INVOICES_FIELD_IDS.dunning_level]: 0,
+      [INVOICES_FIELD_IDS.created_by]: createdBy,
+    });
+
+    return this.transformRecord(record);
+  }
+
+  async deleteDraft(invoice: Invoice): Promise<void> {
+    if (invoice.status !== 'draft') {
+      throw new Error('Only drafts can be deleted; cancel issued invoices instead');
+    }
+    await this.table.destroy(invoice.id);
+  }
+
+  // ========================================
+  // Issuing
+  // ========================================
+
+  /**
+   * Next number in the shared yearly sequence, written onto the invoice.
+   * Airtable has no counters or compare-and-set, so the number is read back
+   * after writing: if another invoice holds it too, this one lets go and
+   * tries the next free number after a short, jittered wait.
+   */
+  private async allocateInvoiceNumber(invoiceId: string, date: Date): Promise<string> {
+    const year = date.getFullYear();
+
+    for (let attempt = 1; attempt <= INVOICE_NUMBER_ATTEMPTS; attempt++) {
+      const records = await this.selectByNumber(`FIND('RE-${year}-', {${INVOICES_FIELD_IDS.invoice_number}}) = 1`);
+      const numbers = records
+        .filter((record) => record.id !== invoiceId)
+        .map((record) => (record.get(INVOICES_FIELD_IDS.invoice_number) as string) || '');
+      const candidate = getNextInvoiceNumber(numbers, year);
+      await this.table.update(invoiceId, { [INVOICES_FIELD_IDS.invoice_number]: candidate });
+
+      const holders = await this.selectByNumber(`{${INVOICES_FIELD_IDS.invoice_number}} = '${candidate}'`);
+      if (holders.every((record) => record.id === invoiceId)) {
+        return candidate;
+      }
+
+      await this.table.update(invoiceId, { [INVOICES_FIELD_IDS.invoice_number]: '' });
+      const delay = INVOICE_NUMBER_RETRY_MS * attempt + Math.random() * INVOICE_NUMBER_RETRY_MS;
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+
+    throw new Error('Could not allocate an invoice number, please try again');
+  }
+
+  private async selectByNumber(filterByFormula: string) {
+    return this.table
+      .select({ fields: [INVOICES_FIELD_IDS.invoice_number], filterByFormula, returnFieldsByFieldId: true })
+      .all();
+  }
+
+  /**
+   * Take the issue lock on an invoice in one of the given statuses (drafts
+   * being issued, invoices being cancelled), read back like the job lock.
+   * Returns the lock token, or null when the status has moved on or another
+   * request holds the lock right now.
+   */
+  private async claimInvoice(invoiceId: string, statuses: InvoiceStatus[]): Promise<string | null> {
+    const record = await this.findInvoiceRecord(invoiceId);
+    if (!record || !statuses.includes(record.get(INVOICES_FIELD_IDS.status) as InvoiceStatus)) return null;
+    const lockedUntil = record.get(INVOICES_FIELD_IDS.issue_locked_until) as string | undefined;
+    if (lockedUntil && Date.parse(lockedUntil) > Date.now()) return null;
+
+    const token = crypto.randomUUID();
+    await this.table.update(invoiceId, {
+      [INVOICES_FIELD_IDS.issue_token]: token,
+      [INVOICES_FIELD_IDS.issue_locked_until]: new Date(Date.now() + INVOICE_ISSUE_LOCK_MS).toISOString(),
+    });
+
+    const claimed = await this.findInvoiceRecord(invoiceId);
+    return claimed?.get(INVOICES_FIELD_IDS.issue_token) === token ? token : null;
+  }
+
+  async renderInvoicePdf(invoice: Invoice, cancelledInvoice?: Invoice | null): Promise<Buffer> {
+    const isStorno = invoice.invoiceType === 'storno';
+    const title = `${isStorno ? 'Stornorechnung' : 'Rechnung'} ${invoice.invoiceNumber}`;
+    const greeting = invoice.recipient.contactPerson ? `Hallo ${invoice.recipient.contactPerson},` : 'Hallo,';
+
+    const metaRows: Array<[string, string]> = [
+      ['Rechnungsnummer', invoice.invoiceNumber || ''],
+      ['Rechnungsdatum', invoice.issueDate ? formatDocumentDate(invoice.issueDate) : ''],
+      ...(invoice.serviceDate ? [['Leistungsdatum', formatDocumentDate(invoice.serviceDate)] as [string, string]] : []),
+      ...(cancelledInvoice?.invoiceNumber ? [['Storno zu', cancelledInvoice.invoiceNumber] as [string, string]] : []),
+      ...(DOCUMENT_SENDER.vatId ? [['USt-IdNr.', DOCUMENT_SENDER.vatId] as [string, string]] : []),
+      ...(!DOCUMENT_SENDER.vatId && DOCUMENT_SENDER.taxNumber
+        ? [['Steuernummer', DOCUMENT_SENDER.taxNumber] as [string, string]]
+        : []),
+    ];
+
+    const introParagraphs = isStorno
+      ? [
+          greeting,
+          `hiermit stornieren wir die Rechnung ${cancelledInvoice?.invoiceNumber || ''}`
+            + (invoice.cancellationReason ? ` (${invoice.cancellationReason})` : '')
+            + '. Die folgenden Positionen werden gutgeschrieben:',
+        ]
+      : [greeting, `vielen Dank für den Minimusikertag! Für unsere Leistungen an der ${invoice.recipient.name} berechnen wir:`];
+
+    const bankLine = [
+      DOCUMENT_SENDER.bankName,
+      DOCUMENT_SENDER.iban && `IBAN ${DOCUMENT_SENDER.iban}`,
+      DOCUMENT_SENDER.bic && `BIC ${DOCUMENT_SENDER.bic}`,
+    ].filter(Boolean).join(', ');
+    const closingParagraphs = isStorno
+      ? ['Die ursprüngliche Rechnung ist damit aufgehoben. Bereits gezahlte Beträge erstatten wir separat.']
+      : [
+          `Bitte überweist den Gesamtbetrag bis zum ${invoice.dueDate ? formatDocumentDate(invoice.dueDate) : ''} `
+            + `unter Angabe der Rechnungsnummer ${invoice.invoiceNumber}`
+            + (bankLine ? ` auf folgendes Konto: ${bankLine}.` : '.'),
+        ];
+
+    return renderBusinessDocumentPdf({
+      title,
+      metaRows,
+      recipient: invoice.recipient,
+      introParagraphs,
+      lineItems: invoice.lineItems,
+      totals: [
+        { label: 'Nettobetrag', amount: invoice.netAmount },
+        { label: `USt. ${invoice.vatRate} %`, amount: invoice.vatAmount },
+        { label: 'Gesamtbetrag', amount: invoice.grossAmount, emphasis: true },
+      ],
+      closingParagraphs,
+    });
+  }
+
+  /**
+   * Assign the invoice number, set issue and due dates and store the PDF
+   */
+  private async finalize(invoice: Invoice, cancelledInvoice?: Invoice | null): Promise<Invoice> {
+    const now = new Date();
+    const issued: Invoice = {
+      ...invoice,
+      invoiceNumber: await this.allocateInvoiceNumber(invoice.id, now),
+      issueDate: today(),
+      dueDate: invoice.invoiceType === 'invoice' ? addDaysToDate(INVOICE_PAYMENT_TERM_DAYS, now) : undefined,
+    };
+
+    const pdf = await this.renderInvoicePdf(issued, cancelledInvoice);
+    const folder = R2_PATHS.INVOICES(issued.eventRecordId || 'unassigned');
+    issued.r2Key = `${folder}/${issued.invoiceNumber}.pdf`;
+    await this.r2.uploadFile(issued.r2Key, pdf, 'application/pdf');
+
+    await this.table.update(issued.id, {
+      [INVOICES_FIELD_IDS.invoice_number]: issued.invoiceNumber,
+      [INVOICES_FIELD_IDS.issue_date]: issued.issueDate,
+      ...(issued.dueDate && { [INVOICES_FIELD_IDS.due_date]: issued.dueDate }),
+      [INVOICES_FIELD_IDS.r2_key]: issued.r2Key,
+      [INVOICES_FIELD_IDS.status]: issued.status,
+      ...clearIssueLock(),
+    });
+
+    console.log(`[InvoiceService] Issued ${issued.invoiceNumber} (${formatEuro(issued.grossAmount)})`);
+    return issued;
+  }
+
+  /**
+   * Issue a draft: number, PDF, status "sent". Emails it when `sendTo` is
+   * given; otherwise the PDF can be downloaded and sent by post. A draft
+   * issued by a concurrent request is refused rather than numbered twice.
+   */
+  async issueInvoice(invoice: Invoice, sendTo?: string): Promise<Invoice> {
+    if (invoice.status !== 'draft' || !(await this.claimInvoice(invoice.id, ['draft']))) {
+      throw new Error(`Invoice ${invoice.invoiceNumber || invoice.id} has already been issued`);
+    }
+
+    let issued: Invoice;
+    try {
+      issued = await this.finalize({ ...invoice, status: 'sent' });
+    } catch (error) {
+      // Still a draft: free the number and the lock for the next attempt
+      await this.table.update(invoice.id, {
+        [INVOICES_FIELD_IDS.invoice_number]: '',
+        ...clearIssueLock(),
+      });
+      throw error;
+    }
+    if (sendTo) {
+      return this.sendInvoice(issued, sendTo);
+    }
+    return issued;
+  }
+
+  /**
+   * Cancel an issued invoice with a Stornorechnung in the same number
+   * sequence. The original is locked while the Storno is created as a draft
+   * and issued; only then do both become "cancelled", as nothing is owed on
+   * either. A failed Storno is removed again and the original stays open.
+   */
+  async cancelInvoice(invoice: Invoice, reason: string, createdBy: string): Promise<Invoice> {
+    if (
+      invoice.invoiceType !== 'invoice' ||
+      !(await this.claimInvoice(invoice.id, CANCELLABLE_STATUSES))
+    ) {
+      throw new Error('Only issued, uncancelled invoices can be cancelled');
+    }
+
+    let stornoId: string | undefined;
+    try {
+      const lineItems = buildStornoLineItems(invoice);
+      const record = await this.table.create({
+        ...(invoice.eventRecordId && { [INVOICES_FIELD_IDS.event]: [invoice.eventRecordId] }),
+        ...(invoice.eventId && { [INVOICES_FIELD_IDS.event_id]: invoice.eventId }),
+        [INVOICES_FIELD_IDS.invoice_type]: 'storno',
+        [INVOICES_FIELD_IDS.status]: 'draft',
+        [INVOICES_FIELD_IDS.recipient]: JSON.stringify(invoice.recipient),
+        [INVOICES_FIELD_IDS.line_items]: JSON.stringify(lineItems),
+        [INVOICES_FIELD_IDS.vat_rate]: invoice.vatRate,
+        [INVOICES_FIELD_IDS.net_amount]: -invoice.netAmount,
+        [INVOICES_FIELD_IDS.vat_amount]: -invoice.vatAmount,
+        [INVOICES_FIELD_IDS.gross_amount]: -invoice.grossAmount,
+        ...(invoice.serviceDate && { [INVOICES_FIELD_IDS.service_date]: invoice.serviceDate }),
+        [INVOICES_FIELD_IDS.cancels]: [invoice.id],
+        [INVOICES_FIELD_IDS.cancellation_reason]: reason,
+        [INVOICES_FIELD_IDS.dunning_level]: 0,
+        [INVOICES_FIELD_IDS.created_by]: createdBy,
+      });
+      stornoId = record.id;
+
+      const storno = await this.finalize({ ...this.transformRecord(record), status: 'cancelled' }, invoice);
+      await this.table.update(invoice.id, {
+        [INVOICES_FIELD_IDS.status]: 'cancelled',
+        [INVOICES_FIELD_IDS.cancellation_reason]: reason,
+        ...clearIssueLock(),
+      });
+      return storno;
+    } catch (error) {
+      if (stornoId) {
+        await this.table.destroy(stornoId);
+      }
+      await this.table.update(invoice.id, clearIssueLock());
+      throw error;
+    }
+  }
+
+  async markPaid(invoice: Invoice, paidAt: string = today()): Promise<Invoice> {
+    const status = getEffectiveInvoiceStatus(invoice, today());
+    if (invoice.invoiceType !== 'invoice' || (status !== 'sent' && status !== 'overdue')) {
+      throw new Error('Only open invoices can be marked as paid');
+    }
+    await this.table.update(invoice.id, {
+      [INVOICES_FIELD_IDS.status]: 'paid',
+      [INVOICES_FIELD_IDS.paid_at]: paidAt,
+    });
+    return { ...invoice, status: 'paid', paidAt };
+  }
+
+  // ========================================
+  // PDF access and email
+  // ========================================
+
+  async getDownloadUrl(invoice: Invoice): Promise<string | null> {
+    if (!invoice.r2Key) return null;
+    return this.r2.generateSignedUrl(invoice.r2Key, DOWNLOAD_URL_EXPIRY_SECONDS, `${invoice.invoiceNumber}.pdf`);
+  }
+
+  private async emailInvoicePdf(
+    invoice: Invoice,
+    to: string,
+    slug: string,
+    extra: { cancelledInvoiceNumber?: string; daysOverdue?: number } = {}
+  ): Promise<void> {
+    if (!invoice.r2Key || !invoice.invoiceNumber) {
+      throw new Error('Invoice has not been issued yet');
+    }
+    const pdf = await this.r2.getFileBuffer(invoice.r2Key);
+    if (!pdf) {
+      throw new Error(`Invoice PDF ${invoice.r2Key} not found`);
+    }
+
+    const result = await sendInvoiceEmail(
+      to,
+      slug,
+      {
+        contactPerson: invoice.recipient.contactPerson || '',
+        schoolName: invoice.recipient.name,
+        invoiceNumber: invoice.invoiceNumber,
+        total: formatEuro(invoice.grossAmount),
+        dueDate: invoice.dueDate,
+        eventDate: invoice.serviceDate,
+        ...extra,
+      },
+      { filename: `${invoice.invoiceType === 'storno' ? 'Stornorechnung' : 'Rechnung'}-${invoice.invoiceNumber}.pdf`, content: pdf }
+    );
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to send invoice email');
+    }
+    if (result.messageId === 'disabled') {
+      throw new Error(`The "${slug}" email template is disabled`);
+    }
+  }
+
+  /**
+   * Email an issued invoice or Storno and remember when and to whom it went
+   */
+  async sendInvoice(invoice: Invoice, to: string): Promise<Invoice> {
+    if (invoice.invoiceType === 'storno') {
+      const original = invoice.cancelsInvoiceId ? await this.getInvoice(invoice.cancelsInvoiceId) : null;
+      await this.emailInvoicePdf(invoice, to, 'school_invoice_storno', {
+        cancelledInvoiceNumber: original?.invoiceNumber,
+      });
+    } else {
+      await this.emailInvoicePdf(invoice, to, 'school_invoice');
+    }
+
+    const sentAt = new Date().toISOString();
+    await this.table.update(invoice.id, {
+      [INVOICES_FIELD_IDS.sent_at]: sentAt,
+      [INVOICES_FIELD_IDS.sent_to]: to,
+    });
+    return { ...invoice, sentAt, sentTo: to };
+  }
+
+  // ========================================
+  // Cron + reporting
+  // ========================================
+
+  /**
+   * Daily: flag sent invoices past their due date as overdue and send the
+   * next reminder step to the address the invoice was sent to. A dry run
+   * only counts what would happen.
+   */
+  async processInvoiceDunning(dryRun = false): Promise<InvoiceDunningResult> {
+    const result: InvoiceDunningResult = { markedOverdue: 0, remindersSent: 0, errors: [] };
+    const date = today();
+    const open = await this.listAllInvoices(
+      `OR({${INVOICES_FIELD_IDS.status}} = 'sent', {${INVOICES_FIELD_IDS.status}} = 'overdue')`
+    );
+
+    for (const invoice of open) {
+      try {
+        if (invoice.status === 'sent' && getEffectiveInvoiceStatus(invoice, date) === 'overdue') {
+          if (!dryRun) {
+            await this.table.update(invoice.id, { [INVOICES_FIELD_IDS.status]: 'overdue' });
+          }
+          result.markedOverdue++;
+        }
+
+        const step = getDueDunningStep(invoice, INVOICE_DUNNING_STEPS, date);
+        if (!step || !invoice.sentTo) continue;
+        if (dryRun) {
+          result.remindersSent++;
+          continue;
+        }
+
+        await this.emailInvoicePdf(invoice, invoice.sentTo, step.templateSlug, {
+          daysOverdue: getDaysOverdue(invoice.dueDate, date),
+        });
+        await this.table.update(invoice.id, {
+          [INVOICES_FIELD_IDS.dunning_level]: step.level,
+          [INVOICES_FIELD_IDS.last_dunning_at]: new Date().toISOString(),
+        });
+        result.remindersSent++;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        result.errors.push(`${invoice.invoiceNumber || invoice.id}: ${message}`);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * School fee figures per event ID for the analytics page
+   */
+  async getSchoolFeeSummaries(): Promise<Record<string, SchoolFeeSummary>> {
+    const invoices = await this.listAllInvoices(`{${INVOICES_FIELD_IDS.status}} != 'draft'`);
+    return summarizeSchoolFees(invoices, today());
+  }
+}
+
+// Export singleton instance
+let invoiceServiceInstance: InvoiceService | null = null;
+
+export function getInvoiceService(): InvoiceService {
+  if (!invoiceServiceInstance) {
+    invoiceServiceInstance = new InvoiceService();
+  }
+  return invoiceServiceInstance;
+}
+
+export default InvoiceService;
@@ -0,0 +1,629 @@
+/**
+ * Job Handlers
+ *
+ * One handler per JobType. jobService calls `plan` once to split a job into
+ * steps, `runStep` for every pending step (throw to mark the step failed),
+ * and `finish` when the job reaches succeeded or failed to build its result.
+ *
+ * Steps must be safe to run again: a step that was running when the function
+ * timed out is retried from the start on the next run.
+ */
+
+import type { JobStep, JobType } from '@/lib/types/jobs';
+import type { PrintableItemType } from '@/lib/config/printableTextConfig';
+import { itemTypeToR2Type, stripPartialSuffix } from '@/lib/config/printableShared';
+import { getPrintableService, type PrintableItemConfig } from './printableService';
+import { getR2Service, type PrintableType, type MockupType } from './r2Service';
+import { analyzeAudioFile, processAudioFile } from './audioProcessingService';
+import type { AudioAnalysis } from '@/lib/utils/audioAnalysis';
+import {
+  getFulfillmentService,
+  type FulfillmentResult,
+  type WelleFulfillmentSummary,
+} from './fulfillmentService';
+import {
+  loadBackfillCandidates,
+  resyncOrderBatch,
+  createEmptyBackfillResult,
+  mergeBackfillResults,
+  type BackfillCandidates,
+  type BackfillResult,
+} from './shopifyOrderBackfillService';
+import { getCdImageService, type CdImagePlan, type CdImageResult } from './cdImageService';
+import { getAudioTaggingService, type AlbumTagging, type StoredFinal } from './audioTaggingService';
+import { getDataProtectionService, type RetentionEvent } from './dataProtectionService';
+import type {
+  ErasureReport,
+  ErasureTargetKind,
+  ErasureTargets,
+  EventPurgeResult,
+  RetentionReport,
+} from '@/lib/types/dataProtection';
+
+export interface JobContext {
+  jobId: string;
+  /** Append a line to the job's persisted log */
+  log: (message: string) => void;
+  /** Scratch space shared by the steps of one runner invocation (not persisted) */
+  cache: Map<string, unknown>;
+}
+
+export type PlannedJobStep = Pick<JobStep, 'key' | 'label' | 'data'>;
+
+export interface JobHandler<TPayload = unknown, TResult = unknown> {
+  plan(payload: TPayload, ctx: JobContext): Promise<PlannedJobStep[]>;
+  runStep(payload: TPayload, step: JobStep, ctx: JobContext): Promise<unknown>;
+  finish?(payload: TPayload, steps: JobStep[], ctx: JobContext): Promise<TResult>;
+}
+
+// ======================================================================
+// printables.generate
+// ======================================================================
+
+export interface PrintablesJobPayload {
+  eventId: string;
+  schoolName: string;
+  accessCode: number | null;
+  qrCodeUrl?: string;
+  itemConfigs: PrintableItemConfig[];
+  skippedTypes: PrintableItemType[];
+}
+
+/**
+ * Same shape the generate route used to return synchronously, so the
+ * ConfirmPrintablesModal result panel works unchanged
+ */
+export interface PrintablesJobResult {
+  success: boolean;
+  partialSuccess: boolean;
+  allSkipped: boolean;
+  eventId: string;
+  accessCode: number | null;
+  qrCodeIncluded: boolean;
+  audioFolderCreated: boolean;
+  results: {
+    succeeded: { type: string; key?: string; url?: string }[];
+    failed: { type: string; error: string }[];
+    skipped: { type: string; reason: string }[];
+  };
+  errors: string[];
+}
+
+interface PrintableStepResult {
+  type: string;
+  key?: string;
+  skipped?: string;
+}
+
+const BACK_TYPES = ['flyer1-back', 'flyer2-back', 'flyer3-back'];
+const MOCKUP_TYPES: MockupType[] = ['mock-tshirt', 'mock-hoodie'];
+
+const printablesHandler: JobHandler<PrintablesJobPayload, PrintablesJobResult> = {
+  async plan(payload) {
+    const steps: PlannedJobStep[] = payload.skippedTypes.map((type) => ({
+      key: `skip:${type}`,
+      label: `${type} (skipped)`,
+      data: { type },
+    }));
+
+    payload.itemConfigs.forEach((config, index) => {
+      const type = stripPartialSuffix(config.type);
+      steps.push({ key: `item:${type}`, label: type, data: { type, index } });
+    });
+
+    // Mockups only if clothing items were included
+    if (payload.itemConfigs.some((c) => c.type === 'tshirt-print' || c.type === 'hoodie-print')) {
+      for (const type of MOCKUP_TYPES) {
+        steps.push({ key: `mockup:${type}`, label: type, data: { type } });
+      }
+    }
+
+    return steps;
+  },
+
+  async runStep(payload, step): Promise<PrintableStepResult> {
+    const r2Service = getR2Service();
+    const type = step.data?.type as string;
+
+    if (step.key.startsWith('skip:')) {
+      const result = await r2Service.uploadSkippedPlaceholder(payload.eventId, itemTypeToR2Type(type as PrintableItemType));
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to create skip placeholder');
+      }
+      return { type, skipped: 'User skipped' };
+    }
+
+    if (step.key.startsWith('mockup:')) {
+      const result = await getPrintableService().generateMockup(payload.eventId, type as MockupType, payload.schoolName);
+      if (!result.success) throw new Error(result.error || 'Unknown error');
+      return { type: result.type, key: result.key };
+    }
+
+    const config = payload.itemConfigs[step.data?.index as number];
+    // Logo fetching - currently not implemented
+    // TODO: Add einrichtung lookup via SchoolBooking when logo embedding is needed for minicard/cd-jacket
+    const result = await getPrintableService().generatePrintableWithConfig(
+      payload.eventId,
+      config,
+      undefined,
+      payload.qrCodeUrl
+    );
+
+    if (!result.success) {
+      if (!payload.qrCodeUrl && BACK_TYPES.includes(result.type) && result.error?.includes('No QR code')) {
+        return { type: result.type, skipped: 'No QR code available' };
+      }
+      throw new Error(result.error || 'Unknown error');
+    }
+
+    // If this item was previously skipped, delete the placeholder
+    await r2Service.deleteSkippedPlaceholder(payload.eventId, result.type as PrintableType);
+    return { type: result.type, key: result.key };
+  },
+
+  async finish(payload, steps, ctx) {
+    const r2Service = getR2Service();
+    const succeeded: PrintablesJobResult['results']['succeeded'] = [];
+    const failed: PrintablesJobResult['results']['failed'] = [];
+    const skipped: PrintablesJobResult['results']['skipped'] = [];
+
+    for (const step of steps) {
+      const result = step.result as PrintableStepResult | undefined;
+      if (step.status === 'failed') {
+        failed.push({ type: step.data?.type as string, error: step.error || 'Unknown error' });
+      } else if (result?.skipped) {
+        skipped.push({ type: result.type, reason: result.skipped });
+      } else if (result) {
+        succeeded.push({ type: result.type, key: result.key });
+      }
+    }
+
+    ctx.log(`Generated ${succeeded.length} PDFs, skipped ${skipped.length}, failed ${failed.length}`);
+
+    // Always create audio folder structure when generation runs
+    const folderResult = await r2Service.createAudioFolderStructure(payload.eventId);
+    if (!folderResult.success) {
+      ctx.log(`Failed to create audio folder: ${folderResult.error}`);
+    }
+
+    // Sign download URLs so the modal can offer direct downloads. URLs are
+    // valid for 1 hour; the client treats them as ephemeral.
+    const succeededWithUrls = await Promise.all(
+      succeeded.map(async (r) => {
+        let url: string | undefined;
+        if (r.key) {
+          try {
+            url = await r2Service.generateSignedUrl(r.key, 3600, `${payload.eventId}-${r.type}.pdf`);
+          } catch (err) {
+            console.warn(`[jobHandlers] Failed to sign URL for ${r.type}:`, err);
+          }
+        }
+        return { type: r.type, key: r.key, url };
+      })
+    );
+
+    const anyGenerated = succeeded.length > 0;
+    const allSkipped = succeeded.length === 0 && failed.length === 0 && skipped.length > 0;
+
+    return {
+      success: (anyGenerated && failed.length === 0) || allSkipped,
+      partialSuccess: anyGenerated && failed.length > 0,
+      allSkipped,
+      eventId: payload.eventId,
+      accessCode: payload.accessCode,
+      qrCodeIncluded: !!payload.qrCodeUrl,
+      audioFolderCreated: folderResult.success,
+      results: { succeeded: succeededWithUrls, failed, skipped },
+      errors: [],
+    };
+  },
+};
+
+// ======================================================================
+// audio.process
+// ======================================================================
+
+export interface AudioProcessJobPayload {
+  eventId: string;
+  classId: string;
+  songId?: string;
+  r2Key: string;
+  displayName?: string;
+}
+
+export interface AudioProcessJobResult {
+  mp3Key: string;
+  previewKey: string;
+  durationSeconds?: number;
+  loudnessLufs?: number;
+}
+
+const audioProcessHandler: JobHandler<AudioProcessJobPayload, AudioProcessJobResult | undefined> = {
+  async plan(payload) {
+    return [{ key: 'process', label: payload.displayName || payload.r2Key }];
+  },
+
+  async runStep(payload): Promise<AudioProcessJobResult> {
+    const result = await processAudioFile(
+      payload.r2Key,
+      payload.eventId,
+      payload.classId,
+      payload.songId || null,
+      payload.displayName
+    );
+    return {
+      mp3Key: result.mp3Key,
+      previewKey: result.previewKey,
+      durationSeconds: result.durationSeconds,
+      loudnessLufs: result.loudnessLufs,
+    };
+  },
+
+  async finish(_payload, steps) {
+    return steps[0]?.result as AudioProcessJobResult | undefined;
+  },
+};
+
+// ======================================================================
+// audio.analyze
+// ======================================================================
+
+export interface AudioAnalyzeJobPayload {
+  audioFileId: string;
+  r2Key: string;
+  filename?: string;
+}
+
+const audioAnalyzeHandler: JobHandler<AudioAnalyzeJobPayload, AudioAnalysis | undefined> = {
+  async plan(payload) {
+    return [{ key: 'analyze', label: payload.filename || payload.r2Key }];
+  },
+
+  async runStep(payload): Promise<AudioAnalysis> {
+    return analyzeAudioFile(payload.audioFileId, payload.r2Key);
+  },
+
+  async finish(_payload, steps) {
+    return steps[0]?.result as AudioAnalysis | undefined;
+  },
+};
+
+// ======================================================================
+// audio.tag
+// ======================================================================
+
+export interface AudioTagJobPayload {
+  eventId: string;
+}
+
+export interface AudioTagJobResult {
+  tagged: number;
+  failed: number;
+}
+
+const audioTagHandler: JobHandler<AudioTagJobPayload, AudioTagJobResult> = {
+  async plan(payload, ctx) {
+    const finals = await getAudioTaggingService().listStoredFinals(payload.eventId);
+    ctx.log(`${finals.length} final MP3(s) to tag`);
+    return finals.map((final) => ({
+      key: `final:${final.audioFileId}`,
+      label: final.title || final.mp3Key.split('/').pop() || final.mp3Key,
+      data: { ...final },
+    }));
+  },
+
+  async runStep(payload, step, ctx) {
+    const taggingService = getAudioTaggingService();
+    let tagging = ctx.cache.get('tagging') as AlbumTagging | undefined;
+    if (!tagging) {
+      tagging = await taggingService.getAlbumTagging(payload.eventId);
+      ctx.cache.set('tagging', tagging);
+    }
+    await taggingService.retagStoredFinal(tagging, step.data as unknown as StoredFinal);
+    return { mp3Key: step.data?.mp3Key };
+  },
+
+  async finish(_payload, steps) {
+    const tagged = steps.filter((s) => s.status === 'done').length;
+    return { tagged, failed: steps.length - tagged };
+  },
+};
+
+// ======================================================================
+// fulfillment.welle
+// ======================================================================
+
+export interface WelleFulfillmentJobPayload {
+  eventRecordId: string;
+  welle: 'Welle 1' | 'Welle 2';
+}
+
+/**
+ * Shared by the fulfill route and Welle task completion, so a wave is never
+ * fulfilled by two jobs at once
+ */
+export function getWelleFulfillmentDedupKey(payload: WelleFulfillmentJobPayload): string {
+  return `fulfillment.welle:${payload.eventRecordId}:${payload.welle}`;
+}
+
+const welleFulfillmentHandler: JobHandler<WelleFulfillmentJobPayload, WelleFulfillmentSummary> = {
+  async plan(payload) {
+    const orders = await getFulfillmentService().getOrdersToFulfill(payload.eventRecordId, payload.welle);
+    return orders.map((order) => ({
+      key: `order:${order.orderId}`,
+      label: `#${order.orderNumber}`,
+      data: { orderId: order.orderId, orderNumber: order.orderNumber },
+    }));
+  },
+
+  async runStep(payload, step) {
+    const order = { orderId: step.data?.orderId as string, orderNumber: step.data?.orderNumber as string };
+    const fulfillmentId = await getFulfillmentService().fulfillOrder(order, payload.welle);
+    return { fulfillmentId };
+  },
+
+  async finish(_payload, steps) {
+    const results: FulfillmentResult[] = steps.map((step) => ({
+      orderId: step.data?.orderId as string,
+      orderNumber: step.data?.orderNumber as string,
+      success: step.status === 'done',
+      ...(step.status === 'done'
+        ? { fulfillmentId: (step.result as { fulfillmentId?: string } | undefined)?.fulfillmentId }
+        : { error: step.error || 'Unknown error' }),
+    }));
+    const succeeded = results.filter((r) => r.success).length;
+
+    return {
+      total: results.length,
+      succeeded,
+      failed: results.length - succeeded,
+      results,
+    };
+  },
+};
+
+// ======================================================================
+// orders.shopify_backfill
+// ======================================================================
+
+export interface ShopifyBackfillJobPayload {
+  dryRun: boolean;
+}
+
+// Orders per step. Each step reuses the candidate scan cached for the run.
+const BACKFILL_ORDERS_PER_STEP = 250;
+
+async function getCachedBackfillCandidates(ctx: JobContext): Promise<BackfillCandidates> {
+  const cached = ctx.cache.get('backfillCandidates') as BackfillCandidates | undefined;
+  if (cached) return cached;
+  const candidates = await loadBackfillCandidates();
+  ctx.cache.set('backfillCandidates', candidates);
+  return candidates;
+}
+
+const shopifyBackfillHandler: JobHandler<ShopifyBackfillJobPayload, BackfillResult> = {
+  async plan(payload, ctx) {
+    const { candidates, totalAirtableOrders } = await getCachedBackfillCandidates(ctx);
+    ctx.log(`${candidates.length}/${totalAirtableOrders} orders have a Shopify GID${payload.dryRun ? ' (dry run)' : ''}`);
+
+    const steps: PlannedJobStep[] = [];
+    for (let from = 0; from < candidates.length; from += BACKFILL_ORDERS_PER_STEP) {
+      const to = Math.min(from + BACKFILL_ORDERS_PER_STEP, candidates.length);
+      steps.push({ key: `orders:${from}`, label: `Orders ${from + 1}–${to}`, data: { from, to } });
+    }
+    return steps;
+  },
+
+  async runStep(payload, step, ctx) {
+    const { candidates } = await getCachedBackfillCandidates(ctx);
+    const batch = await resyncOrderBatch(
+      candidates.slice(step.data?.from as number, step.data?.to as number),
+      payload.dryRun
+    );
+    // Writes are idempotent, so a batch with errors is simply run again
+    if (batch.errors?.length) {
+      throw new Error(batch.errors.join('; '));
+    }
+    return batch;
+  },
+
+  async finish(payload, steps, ctx) {
+    const { candidates, totalAirtableOrders, ordersWithoutGid } = await getCachedBackfillCandidates(ctx);
+    const result = createEmptyBackfillResult(payload.dryRun);
+    result.totalAirtableOrders = totalAirtableOrders;
+    result.ordersWithGid = candidates.length;
+    result.ordersWithoutGid = ordersWithoutGid;
+
+    for (const step of steps) {
+      if (step.status === 'done') {
+        mergeBackfillResults(result, step.result as Partial<BackfillResult>);
+      } else if (step.error) {
+        result.errors.push(`${step.label}: ${step.error}`);
+      }
+    }
+    result.success = result.errors.length === 0;
+    return result;
+  },
+};
+
+// ======================================================================
+// cd.image
+// ======================================================================
+
+export interface CdImageJobPayload {
+  taskId: string;          // audio_master_cd task the image is attached to
+  eventId: string;
+  buildId: string;         // Separates the R2 files of repeated builds
+  requestedBy: string;
+}
+
+const cdImageHandler: JobHandler<CdImageJobPayload, CdImageResult | undefined> = {
+  async plan(payload, ctx) {
+    const plan: CdImagePlan = await getCdImageService().planCdImage(payload.eventId);
+    ctx.log(`${plan.tracks.length} track(s) for ${plan.schoolName}`);
+
+    const steps: PlannedJobStep[] = plan.tracks.map((track, index) => ({
+      key: `track:${index}`,
+      label: `${track.trackNumber}. ${track.title}`,
+      data: { index, mp3Key: track.mp3Key },
+    }));
+    steps.push({
+      key: 'assemble',
+      label: 'WAV + CUE',
+      data: {
+        schoolName: plan.schoolName,
+        tracks: plan.tracks.map(({ title, className }) => ({ title, className })),
+      },
+    });
+    return steps;
+  },
+
+  async runStep(payload, step, ctx) {
+    const cdImageService = getCdImageService();
+    const build = { eventId: payload.eventId, buildId: payload.buildId };
+
+    if (step.key !== 'assemble') {
+      return cdImageService.decodeTrack(build, step.data?.index as number, step.data?.mp3Key as string);
+    }
+
+    const result = await cdImageService.assembleImage(
+      build,
+      step.data?.schoolName as string,
+      step.data?.tracks as Array<{ title: string; className: string }>
+    );
+    await cdImageService.attachToTask(payload.taskId, {
+      wav_r2_key: result.wavKey,
+      cue_r2_key: result.cueKey,
+      track_count: result.trackCount,
+      total_seconds: result.totalSeconds,
+      built_at: new Date().toISOString(),
+      built_by: payload.requestedBy,
+      job_id: ctx.jobId,
+    });
+    return result;
+  },
+
+  async finish(_payload, steps) {
+    return steps.find((s) => s.key === 'assemble' && s.status === 'done')?.result as CdImageResult | undefined;
+  },
+};
+
+// ======================================================================
+// privacy.erasure
+// ======================================================================
+
+export interface ErasureJobPayload {
+  /** The data subject by hash only - the job record must not keep the address */
+  subjectHash: string;
+  targets: ErasureTargets;
+}
+
+const ERASURE_STEPS: Array<{ kind: ErasureTargetKind; label: string; ids: Exclude<keyof ErasureTargets, 'orderCount'> }> = [
+  { kind: 'parents', label: 'Parent', ids: 'parentIds' },
+  { kind: 'registrations', label: 'Children', ids: 'registrationIds' },
+  { kind: 'legacyRecords', label: 'Legacy parent journey rows', ids: 'legacyRecordIds' },
+  { kind: 'emailLogs', label: 'Email logs', ids: 'emailLogIds' },
+];
+
+const erasureHandler: JobHandler<ErasureJobPayload, ErasureReport> = {
+  async plan(payload) {
+    return ERASURE_STEPS.filter(({ ids }) => payload.targets[ids].length > 0).map(
+      ({ kind, label, ids }) => ({
+        key: `anonymise:${kind}`,
+        label: `${label} (${payload.targets[ids].length})`,
+        data: { kind },
+      })
+    );
+  },
+
+  async runStep(payload, step, ctx) {
+    const kind = step.data?.kind as ErasureTargetKind;
+    const { ids } = ERASURE_STEPS.find((s) => s.kind === kind)!;
+    const anonymised = await getDataProtectionService().anonymise(
+      kind,
+      payload.targets[ids],
+      payload.subjectHash
+    );
+    ctx.log(`Anonymised ${anonymised} ${kind} record(s)`);
+    return { anonymised };
+  },
+
+  async finish(payload, steps) {
+    const anonymised: ErasureReport['anonymised'] = { parents: 0, registrations: 0, legacyRecords: 0, emailLogs: 0 };
+    const failed: ErasureReport['failed'] = [];
+    for (const step of steps) {
+      if (step.status === 'done') {
+        anonymised[step.data?.kind as ErasureTargetKind] = (step.result as { anonymised: number }).anonymised;
+      } else if (step.status === 'failed') {
+        failed.push({ step: step.label, error: step.error || 'Unknown error' });
+      }
+    }
+    return { subjectHash: payload.subjectHash, anonymised, ordersKept: payload.targets.orderCount, failed };
+  },
+};
+
+// ======================================================================
+// privacy.retention
+// ======================================================================
+
+export interface RetentionJobPayload {
+  retentionMonths: number;
+  cutoffDate: string;      // YYYY-MM-DD, events dated before it are purged
+  dryRun: boolean;
+}
+
+const retentionHandler: JobHandler<RetentionJobPayload, RetentionReport> = {
+  async plan(payload, ctx) {
+    const events = await getDataProtectionService().listRetentionDueEvents(payload.cutoffDate);
+    ctx.log(`${events.length} event(s) dated before ${payload.cutoffDate}${payload.dryRun ? ' (dry run)' : ''}`);
+    return events.map((event) => ({
+      key: `event:${event.recordId}`,
+      label: `${event.eventId} (${event.eventDate})`,
+      data: { ...event },
+    }));
+  },
+
+  async runStep(payload, step, ctx) {
+    const result = await getDataProtectionService().purgeEvent(step.data as unknown as RetentionEvent, payload.dryRun);
+    ctx.log(
+      `${result.eventId}: ${result.childNames} child name(s), ${result.rawFilesDeleted} raw file(s), ${result.rawAudioRecords} raw AudioFile record(s)`
+    );
+    return result;
+  },
+
+  async finish(payload, steps) {
+    const events = steps
+      .filter((step) => step.status === 'done')
+      .map((step) => step.result as EventPurgeResult);
+    const totals = { childNames: 0, legacyRecords: 0, rawFilesDeleted: 0, rawAudioRecords: 0 };
+    for (const event of events) {
+      totals.childNames += event.childNames;
+      totals.legacyRecords += event.legacyRecords;
+      totals.rawFilesDeleted += event.rawFilesDeleted;
+      totals.rawAudioRecords += event.rawAudioRecords;
+    }
+
+    return {
+      retentionMonths: payload.retentionMonths,
+      cutoffDate: payload.cutoffDate,
+      dryRun: payload.dryRun,
+      events,
+      totals,
+      failed: steps
+        .filter((step) => step.status === 'failed')
+        .map((step) => ({ eventId: step.data?.eventId as string, error: step.error || 'Unknown error' })),
+    };
+  },
+};
+
+export const JOB_HANDLERS: Record<JobType, JobHandler> = {
+  'printables.generate': printablesHandler,
+  'audio.process': audioProcessHandler,
+  'audio.analyze': audioAnalyzeHandler,
+  'audio.tag': audioTagHandler,
+  'fulfillment.welle': welleFulfillmentHandler,
+  'orders.shopify_backfill': shopifyBackfillHandler,
+  'cd.image': cdImageHandler,
+  'privacy.erasure': erasureHandler,
+  'privacy.retention': retentionHandler,
+};
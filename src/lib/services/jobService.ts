@@ -0,0 +1,565 @@
+import Airtable from 'airtable';
+import crypto from 'crypto';
+import { getAirtableService } from './airtableService';
+import { JOB_HANDLERS, type JobContext } from './jobHandlers';
+import { JOBS_TABLE_ID, JOBS_FIELD_IDS } from '@/lib/types/airtable';
+import {
+  JOB_LOCK_MS,
+  JOB_MAX_LOG_LINES,
+  JOB_RETRY_BASE_DELAY_MS,
+  JOB_RETRY_MAX_DELAY_MS,
+  JOB_TYPE_LABELS,
+  type Job,
+  type JobStatus,
+  type JobStep,
+  type JobType,
+} from '@/lib/types/jobs';
+import { withRetry } from '@/lib/utils/withRetry';
+import { clearField } from '@/lib/utils/airtableFields';
+
+type JobRecord = Airtable.Record<Airtable.FieldSet>;
+
+const APP_URL = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+
+// Stop starting new steps this long before the 300s function limit
+export const JOB_RUN_BUDGET_MS = 240 * 1000;
+
+// In-request retries for a single step (rate limits, 5xx, network drops)
+const STEP_MAX_ATTEMPTS = 3;
+const STEP_RETRY_BASE_DELAY_MS = 1000;
+
+// Jobs run inline by the enqueuing request are hidden from the runner for
+// this long, so the runner only picks them up if the request died
+const INLINE_GRACE_MS = JOB_LOCK_MS;
+
+export interface EnqueueJobOptions {
+  /** Shown in the admin job list, defaults to the job type label */
+  label?: string;
+  createdBy: string;
+  maxAttempts?: number;
+  /** The caller runs the job itself via runJob(); don't kick the runner */
+  runInline?: boolean;
+  /**
+   * Jobs doing the same work share a key: while one with this key is queued
+   * or running, enqueue returns it instead of creating a second one
+   */
+  dedupKey?: string;
+}
+
+export interface RunJobOptions {
+  /** Epoch ms after which no new step is started */
+  deadline?: number;
+  /** Claim even if run_after is in the future (inline runs) */
+  ignoreRunAfter?: boolean;
+}
+
+/**
+ * Delay before the next attempt after `attempts` failed runs
+ */
+export function getJobRetryDelayMs(attempts: number): number {
+  return Math.min(JOB_RETRY_BASE_DELAY_MS * Math.pow(2, Math.max(attempts - 1, 0)), JOB_RETRY_MAX_DELAY_MS);
+}
+
+/**
+ * Errors worth retrying within the same run: rate limits, server errors and
+ * dropped connections. Everything else (missing template, Shopify rejecting
+ * the request) fails the step straight away.
+ */
+export function isTransientError(err: unknown): boolean {
+  const status =
+    (err as { statusCode?: number; status?: number })?.statusCode ??
+    (err as { status?: number })?.status;
+  if (status === 429 || (typeof status === 'number' && status >= 500)) return true;
+
+  const code = (err as { code?: string })?.code;
+  if (code && ['ECONNRESET', 'ETIMEDOUT', 'ECONNREFUSED', 'EAI_AGAIN', 'EPIPE'].includes(code)) return true;
+
+  return err instanceof Error && /fetch failed|socket hang up|network/i.test(err.message);
+}
+
+function parseJson<T>(value: unknown, fallback: T): T {
+  if (typeof value !== 'string' || value === '') return fallback;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return fallback;
+  }
+}
+
+/**
+ * Another runner took over the job's lock (see claimJob)
+ */
+class JobLockLostError extends Error {
+  constructor(jobId: string) {
+    super(`Lock on job ${jobId} was taken over by another runner`);
+    this.name = 'JobLockLostError';
+  }
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * JobService - Durable background job queue
+ *
+ * Jobs live in the Airtable Jobs table. A job is split into steps by its
+ * handler (jobHandlers.ts) and the step list is persisted after every step,
+ * so a run that hits the function timeout continues where it stopped.
+ *
+ * Runs are triggered by:
+ * - kickRunner() right after enqueue (POST /api/cron/jobs)
+ * - the every-minute Vercel cron on /api/cron/jobs (due retries, stale locks)
+ * - inline callers that need the result in the same request (audio processing)
+ *
+ * A failed run is retried with exponential backoff until maxAttempts; only
+ * the failed steps run again. Admins can re-run failed jobs from /admin/jobs.
+ */
+class JobService {
+  private airtable = getAirtableService();
+
+  private get table() {
+    return this.airtable.getBase()(JOBS_TABLE_ID);
+  }
+
+  /**
+   * Persist a new job. Unless runInline is set, the runner is kicked so the
+   * job starts within seconds. With a dedupKey, an active job with the same
+   * key is returned instead.
+   */
+  async enqueue<TPayload extends object>(
+    type: JobType,
+    payload: TPayload,
+    options: EnqueueJobOptions
+  ): Promise<Job<TPayload>> {
+    if (options.dedupKey) {
+      const active = await this.findActiveJob(type, options.dedupKey);
+      if (active) return active as Job<TPayload>;
+    }
+
+    const now = new Date();
+    const runAfter = options.runInline ? new Date(now.getTime() + INLINE_GRACE_MS) : now;
+
+    const record = await this.table.create({
+      [JOBS_FIELD_IDS.label]: options.label || JOB_TYPE_LABELS[type],
+      [JOBS_FIELD_IDS.type]: type,
+      [JOBS_FIELD_IDS.status]: 'queued',
+      [JOBS_FIELD_IDS.payload]: JSON.stringify(payload),
+      [JOBS_FIELD_IDS.steps]: '[]',
+      [JOBS_FIELD_IDS.attempts]: 0,
+      [JOBS_FIELD_IDS.max_attempts]: options.maxAttempts ?? 3,
+      [JOBS_FIELD_IDS.run_after]: runAfter.toISOString(),
+      [JOBS_FIELD_IDS.logs]: `[${now.toISOString()}] Queued by ${options.createdBy}`,
+      [JOBS_FIELD_IDS.created_by]: options.createdBy,
+      [JOBS_FIELD_IDS.created_at]: now.toISOString(),
+      ...(options.dedupKey && { [JOBS_FIELD_IDS.dedup_key]: options.dedupKey }),
+    }, { typecast: true }); // adds the select option for job types newer than the table
+
+    if (options.dedupKey) {
+      // Airtable has no unique constraint: if another enqueue raced us between
+      // the read and the write, the oldest active job wins
+      const winner = await this.findActiveJob(type, options.dedupKey);
+      if (winner && winner.id !== record.id) {
+        await this.table.destroy(record.id);
+        return winner as Job<TPayload>;
+      }
+    }
+
+    // table.create() returns field names, not IDs: read the job back
+    const job = await this.getJob(record.id);
+    if (!job) throw new Error(`Job ${record.id} not found after enqueue`);
+
+    if (!options.runInline) {
+      await this.kickRunner();
+    }
+
+    return job as Job<TPayload>;
+  }
+
+  async getJob(jobId: string): Promise<Job | null> {
+    const record = await this.findJobRecord(jobId);
+    return record ? this.transformJobRecord(record) : null;
+  }
+
+  /**
+   * Jobs for the admin list, newest first
+   */
+  async listJobs(options: { statuses?: JobStatus[]; types?: JobType[]; limit?: number } = {}): Promise<Job[]> {
+    const filters: string[] = [];
+    if (options.statuses?.length) {
+      filters.push(`OR(${options.statuses.map((s) => `{${JOBS_FIELD_IDS.status}} = '${s}'`).join(', ')})`);
+    }
+    if (options.types?.length) {
+      filters.push(`OR(${options.types.map((t) => `{${JOBS_FIELD_IDS.type}} = '${t}'`).join(', ')})`);
+    }
+    const filterByFormula = filters.length > 1 ? `AND(${filters.join(', ')})` : filters[0];
+
+    const records = await this.table
+      .select({
+        ...(filterByFormula && { filterByFormula }),
+        returnFieldsByFieldId: true,
+        sort: [{ field: JOBS_FIELD_IDS.created_at, direction: 'desc' }],
+        maxRecords: options.limit ?? 100,
+      })
+      .all();
+
+    return records.map((record) => this.transformJobRecord(record));
+  }
+
+  /**
+   * Queue a failed (or finished) job again. Failed steps run again, done
+   * steps are kept; the attempt counter starts over.
+   */
+  async rerunJob(jobId: string, adminEmail: string): Promise<Job | null> {
+    const job = await this.getJob(jobId);
+    if (!job) return null;
+    if (job.status === 'queued' || job.status === 'running') return job;
+
+    const steps = job.steps.map((step) =>
+      step.status === 'failed' ? { ...step, status: 'pending' as const, error: undefined } : step
+    );
+    const logs = this.appendLog(job.logs, `Re-run requested by ${adminEmail}`);
+
+    await this.table.update(jobId, {
+      [JOBS_FIELD_IDS.status]: 'queued',
+      [JOBS_FIELD_IDS.steps]: JSON.stringify(steps),
+      [JOBS_FIELD_IDS.attempts]: 0,
+      [JOBS_FIELD_IDS.run_after]: new Date().toISOString(),
+      [JOBS_FIELD_IDS.locked_until]: clearField(),
+      [JOBS_FIELD_IDS.finished_at]: clearField(),
+      [JOBS_FIELD_IDS.logs]: logs.join('\n'),
+    });
+
+    await this.kickRunner();
+    return this.getJob(jobId);
+  }
+
+  /**
+   * Claim a job and run its pending steps until done, failed or out of time.
+   * @returns The job after this run, or null if it could not be claimed or
+   *   another runner took it over mid-run
+   */
+  async runJob(jobId: string, options: RunJobOptions = {}): Promise<Job | null> {
+    const deadline = options.deadline ?? Date.now() + JOB_RUN_BUDGET_MS;
+    const claim = await this.claimJob(jobId, options.ignoreRunAfter ?? false);
+    if (!claim) return null;
+    const { job, token } = claim;
+
+    const handler = JOB_HANDLERS[job.type];
+    const ctx: JobContext = {
+      jobId: job.id,
+      cache: new Map(),
+      log: (message) => {
+        console.log(`[Job ${job.id}] ${message}`);
+        job.logs = this.appendLog(job.logs, message);
+      },
+    };
+
+    try {
+      if (job.steps.length === 0) {
+        const planned = await withRetry(() => handler.plan(job.payload, ctx), {
+          shouldRetry: isTransientError,
+        });
+        job.steps = planned.map((step) => ({ ...step, status: 'pending' as const }));
+        ctx.log(`Planned ${job.steps.length} step(s)`);
+        await this.saveProgress(job, token);
+      }
+
+      for (const step of job.steps) {
+        if (step.status !== 'pending') continue;
+
+        if (Date.now() >= deadline) {
+          ctx.log('Time budget used up, continuing in the next run');
+          return this.release(job, { status: 'queued', runAfter: new Date() });
+        }
+
+        await this.runStep(job, step, ctx);
+        await this.saveProgress(job, token);
+      }
+
+      const failedSteps = job.steps.filter((step) => step.status === 'failed');
+      if (failedSteps.length === 0) {
+        job.result = handler.finish ? await handler.finish(job.payload, job.steps, ctx) : undefined;
+        ctx.log('Succeeded');
+        return this.release(job, { status: 'succeeded' });
+      }
+
+      return this.failRun(
+        job,
+        `${failedSteps.length} of ${job.steps.length} step(s) failed: ${failedSteps
+          .map((step) => `${step.label}: ${step.error}`)
+          .join('; ')}`,
+        ctx
+      );
+    } catch (error) {
+      if (error instanceof JobLockLostError) {
+        // The other runner owns the job now and writes its state
+        console.warn(`[Job ${job.id}] ${error.message}, stopping this run`);
+        return null;
+      }
+      // Planning, finishing or persisting blew up - the whole run counts as failed
+      ctx.log(`Run failed: ${errorMessage(error)}`);
+      return this.failRun(job, errorMessage(error), ctx);
+    }
+  }
+
+  /**
+   * Run every due job (queued and past run_after, or running with an expired
+   * lock) one after another until the time budget is used up.
+   */
+  async runDueJobs(deadline: number = Date.now() + JOB_RUN_BUDGET_MS): Promise<{ ran: number; remaining: number }> {
+    const records = await this.table
+      .select({
+        filterByFormula: `OR({${JOBS_FIELD_IDS.status}} = 'queued', {${JOBS_FIELD_IDS.status}} = 'running')`,
+        returnFieldsByFieldId: true,
+        sort: [{ field: JOBS_FIELD_IDS.created_at, direction: 'asc' }],
+      })
+      .all();
+
+    const now = Date.now();
+    const due = records
+      .map((record) => this.transformJobRecord(record))
+      .filter((job) => this.isClaimable(job, now, false));
+
+    let ran = 0;
+    for (const job of due) {
+      if (Date.now() >= deadline) break;
+      const result = await this.runJob(job.id, { deadline });
+      if (result) ran++;
+    }
+
+    return { ran, remaining: due.length - ran };
+  }
+
+  /**
+   * Start a runner invocation without waiting for it. The runner keeps going
+   * after we stop listening; if the kick is lost, the cron picks the job up
+   * within a minute.
+   */
+  async kickRunner(): Promise<void> {
+    const cronSecret = process.env.CRON_SECRET;
+    if (!cronSecret) {
+      console.warn('[JobService] CRON_SECRET not set, jobs start with the next cron run');
+      return;
+    }
+
+    try {
+      await fetch(`${APP_URL}/api/cron/jobs`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${cronSecret}` },
+        signal: AbortSignal.timeout(1500),
+      });
+    } catch {
+      // Expected: we abort before the runner answers
+    }
+  }
+
+  // ======================================================================
+  // Internals
+  // ======================================================================
+
+  private async runStep(job: Job, step: JobStep, ctx: JobContext): Promise<void> {
+    const handler = JOB_HANDLERS[job.type];
+    try {
+      step.result = await withRetry(() => handler.runStep(job.payload, step, ctx), {
+        maxAttempts: STEP_MAX_ATTEMPTS,
+        baseDelayMs: STEP_RETRY_BASE_DELAY_MS,
+        shouldRetry: isTransientError,
+      });
+      step.status = 'done';
+      step.error = undefined;
+    } catch (error) {
+      step.status = 'failed';
+      step.error = errorMessage(error);
+      ctx.log(`Step ${step.label} failed: ${step.error}`);
+    }
+  }
+
+  /**
+   * A run ended with failures: schedule a retry of the failed steps, or
+   * give up after maxAttempts and store the partial result.
+   */
+  private async failRun(job: Job, error: string, ctx: JobContext): Promise<Job> {
+    job.attempts += 1;
+    job.lastError = error;
+
+    if (job.attempts < job.maxAttempts) {
+      const delay = getJobRetryDelayMs(job.attempts);
+      for (const step of job.steps) {
+        if (step.status === 'failed') step.status = 'pending';
+      }
+      ctx.log(`Attempt ${job.attempts}/${job.maxAttempts} failed, retrying in ${Math.round(delay / 1000)}s`);
+      return this.release(job, { status: 'queued', runAfter: new Date(Date.now() + delay) });
+    }
+
+    try {
+      const handler = JOB_HANDLERS[job.type];
+      job.result = handler.finish ? await handler.finish(job.payload, job.steps, ctx) : undefined;
+    } catch (finishError) {
+      ctx.log(`Could not build result: ${errorMessage(finishError)}`);
+    }
+    ctx.log(`Failed after ${job.attempts} attempt(s)`);
+    return this.release(job, { status: 'failed' });
+  }
+
+  private isClaimable(job: Job, now: number, ignoreRunAfter: boolean): boolean {
+    const lockFree = !job.lockedUntil || Date.parse(job.lockedUntil) <= now;
+    if (!lockFree) return false;
+    if (job.status === 'running') return true; // runner died mid-way
+    return job.status === 'queued' && (ignoreRunAfter || Date.parse(job.runAfter) <= now);
+  }
+
+  /**
+   * Take the lock on a job. Airtable has no compare-and-set, so the lock
+   * token is read back: if another runner wrote its token in between, it wins.
+   *
+   * Best-effort only: a runner whose read-back lands before a second
+   * runner's token write also sees its own token, and both start. The token
+   * is checked again before every progress save, so the runner that lost
+   * stops there; at most one step runs twice, which handlers must tolerate
+   * anyway (failed steps are retried).
+   */
+  private async claimJob(jobId: string, ignoreRunAfter: boolean): Promise<{ job: Job; token: string } | null> {
+    const job = await this.getJob(jobId);
+    if (!job || !this.isClaimable(job, Date.now(), ignoreRunAfter)) return null;
+
+    const token = crypto.randomUUID();
+    const now = new Date();
+    await this.table.update(jobId, {
+      [JOBS_FIELD_IDS.status]: 'running',
+      [JOBS_FIELD_IDS.lock_token]: token,
+      [JOBS_FIELD_IDS.locked_until]: new Date(now.getTime() + JOB_LOCK_MS).toISOString(),
+      ...(!job.startedAt && { [JOBS_FIELD_IDS.started_at]: now.toISOString() }),
+    });
+
+    const claimed = await this.findJobRecord(jobId);
+    if (!claimed || claimed.get(JOBS_FIELD_IDS.lock_token) !== token) return null;
+
+    return { job: { ...this.transformJobRecord(claimed), status: 'running' }, token };
+  }
+
+  /**
+   * Persist steps and logs after each step and extend the lock.
+   * @throws JobLockLostError if another runner has claimed the job since
+   */
+  private async saveProgress(job: Job, token: string): Promise<void> {
+    const current = await this.findJobRecord(job.id);
+    if (current?.get(JOBS_FIELD_IDS.lock_token) !== token) throw new JobLockLostError(job.id);
+
+    await this.table.update(job.id, {
+      [JOBS_FIELD_IDS.steps]: JSON.stringify(job.steps),
+      [JOBS_FIELD_IDS.logs]: job.logs.join('\n'),
+      [JOBS_FIELD_IDS.locked_until]: new Date(Date.now() + JOB_LOCK_MS).toISOString(),
+    });
+  }
+
+  /**
+   * End a run: write the final state and drop the lock
+   */
+  private async release(
+    job: Job,
+    next: { status: JobStatus; runAfter?: Date }
+  ): Promise<Job> {
+    const terminal = next.status === 'succeeded' || next.status === 'failed';
+    const finishedAt = terminal ? new Date().toISOString() : undefined;
+
+    await this.table.update(job.id, {
+      [JOBS_FIELD_IDS.status]: next.status,
+      [JOBS_FIELD_IDS.steps]: JSON.stringify(job.steps),
+      [JOBS_FIELD_IDS.logs]: job.logs.join('\n'),
+      [JOBS_FIELD_IDS.attempts]: job.attempts,
+      [JOBS_FIELD_IDS.last_error]: job.lastError || '',
+      [JOBS_FIELD_IDS.locked_until]: clearField(),
+      [JOBS_FIELD_IDS.lock_token]: '',
+      ...(next.runAfter && { [JOBS_FIELD_IDS.run_after]: next.runAfter.toISOString() }),
+      ...(terminal && {
+        [JOBS_FIELD_IDS.result]: job.result === undefined ? '' : JSON.stringify(job.result),
+        [JOBS_FIELD_IDS.finished_at]: finishedAt,
+      }),
+    });
+
+    return {
+      ...job,
+      status: next.status,
+      lockedUntil: undefined,
+      ...(next.runAfter && { runAfter: next.runAfter.toISOString() }),
+      ...(terminal && { finishedAt }),
+    };
+  }
+
+  private appendLog(logs: string[], message: string): string[] {
+    return [...logs, `[${new Date().toISOString()}] ${message}`].slice(-JOB_MAX_LOG_LINES);
+  }
+
+  /**
+   * Oldest queued or running job of a type with the given dedup key
+   */
+  private async findActiveJob(type: JobType, dedupKey: string): Promise<Job | null> {
+    const records = await this.table
+      .select({
+        filterByFormula: `AND({${JOBS_FIELD_IDS.type}} = '${type}', {${JOBS_FIELD_IDS.dedup_key}} = '${dedupKey.replace(/'/g, "\\'")}', OR({${JOBS_FIELD_IDS.status}} = 'queued', {${JOBS_FIELD_IDS.status}} = 'running'))`,
+        returnFieldsByFieldId: true,
+      })
+      .all();
+
+    const active = records
+      .map((record) => this.transformJobRecord(record))
+      .filter(
+        (job) =>
+          job.type === type &&
+          job.dedupKey === dedupKey &&
+          (job.status === 'queued' || job.status === 'running')
+      )
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt) || a.id.localeCompare(b.id));
+    return active[0] || null;
+  }
+
+  /**
+   * Fetch a single job record by ID using returnFieldsByFieldId.
+   * (table.find() returns field names, not IDs)
+   */
+  private async findJobRecord(jobId: string): Promise<JobRecord | null> {
+    const records = await this.table
+      .select({
+        filterByFormula: `RECORD_ID() = '${jobId.replace(/'/g, "\\'")}'`,
+        returnFieldsByFieldId: true,
+        maxRecords: 1,
+      })
+      .firstPage();
+    return records[0] || null;
+  }
+
+  private transformJobRecord(record: JobRecord): Job {
+    const logs = (record.get(JOBS_FIELD_IDS.logs) as string) || '';
+    return {
+      id: record.id,
+      type: record.get(JOBS_FIELD_IDS.type) as JobType,
+      label: (record.get(JOBS_FIELD_IDS.label) as string) || '',
+      status: (record.get(JOBS_FIELD_IDS.status) as JobStatus) || 'queued',
+      payload: parseJson(record.get(JOBS_FIELD_IDS.payload), {}),
+      steps: parseJson<JobStep[]>(record.get(JOBS_FIELD_IDS.steps), []),
+      result: parseJson<unknown>(record.get(JOBS_FIELD_IDS.result), undefined),
+      attempts: (record.get(JOBS_FIELD_IDS.attempts) as number) || 0,
+      maxAttempts: (record.get(JOBS_FIELD_IDS.max_attempts) as number) || 1,
+      runAfter: (record.get(JOBS_FIELD_IDS.run_after) as string) || '',
+      lockedUntil: (record.get(JOBS_FIELD_IDS.locked_until) as string) || undefined,
+      lastError: (record.get(JOBS_FIELD_IDS.last_error) as string) || undefined,
+      logs: logs ? logs.split('\n') : [],
+      dedupKey: (record.get(JOBS_FIELD_IDS.dedup_key) as string) || undefined,
+      createdBy: (record.get(JOBS_FIELD_IDS.created_by) as string) || '',
+      createdAt: (record.get(JOBS_FIELD_IDS.created_at) as string) || '',
+      startedAt: (record.get(JOBS_FIELD_IDS.started_at) as string) || undefined,
+      finishedAt: (record.get(JOBS_FIELD_IDS.finished_at) as string) || undefined,
+    };
+  }
+}
+
+// Singleton instance
+let jobServiceInstance: JobService | null = null;
+
+export function getJobService(): JobService {
+  if (!jobServiceInstance) {
+    jobServiceInstance = new JobService();
+  }
+  return jobServiceInstance;
+}
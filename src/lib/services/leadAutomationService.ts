@@ -0,0 +1,234 @@
+/**
+ * Lead Automation Service
+ * Daily jobs on the Leads CRM:
+ * 1. Follow-up digest: each staff member gets their due and overdue follow-ups
+ * 2. Nurture sequences: automated emails to lead contacts (LEAD_NURTURE_SEQUENCES)
+ */
+
+import { getAirtableService } from './airtableService';
+import { sendLeadFollowUpDigestEmail } from './resendService';
+import { getEmailDeliveryService } from './emailDeliveryService';
+import { sleep } from './emailAutomationService';
+import {
+  getTriggerTemplate,
+  renderTriggerTemplate,
+  renderFullTriggerEmail,
+} from './triggerTemplateService';
+import { sendEmail } from './emailTransport';
+import { getRegistryEntry } from '@/lib/config/trigger-email-registry';
+import { LEAD_NURTURE_SEQUENCES } from '@/lib/config/leadNurture';
+import { getDueFollowUps, getDueNurtureSteps } from '@/lib/utils/leadPipeline';
+import { escapeHtml } from '@/lib/utils/emailBlocks';
+import type { Lead } from '@/lib/types/airtable';
+
+const RATE_LIMIT_DELAY_MS = 500;
+
+interface LeadAutomationResult {
+  sent: number;
+  skipped: number;
+  failed: number;
+  errors: string[];
+}
+
+function formatDateGerman(dateStr: string): string {
+  try {
+    return new Date(dateStr).toLocaleDateString('de-DE', {
+      day: '2-digit',
+      month: '2-digit',
+      year: 'numeric',
+    });
+  } catch {
+    return dateStr;
+  }
+}
+
+// Nurture sends are logged under this key instead of an event ID, so they
+// never count towards an event's email stats
+function getLeadEmailLogKey(leadId: string): string {
+  return `lead:${leadId}`;
+}
+
+function buildLeadListHtml(overdue: Lead[], dueToday: Lead[]): string {
+  const rows = [...overdue, ...dueToday]
+    .map((lead) => {
+      const isOverdue = overdue.includes(lead);
+      const contact = [lead.contactPerson, lead.contactPhone || lead.contactEmail].filter(Boolean).join(' · ');
+      return `<tr>
+            <td style="padding: 8px 12px; border-bottom: 1px solid #e2e8f0; color: #2F4858;">${escapeHtml(lead.schoolName)}</td>
+            <td style="padding: 8px 12px; border-bottom: 1px solid #e2e8f0; color: #4a5568;">${contact ? escapeHtml(contact) : '—'}</td>
+            <td style="padding: 8px 12px; border-bottom: 1px solid #e2e8f0; color: #4a5568;">${escapeHtml(lead.stage)}</td>
+            <td style="padding: 8px 12px; border-bottom: 1px solid #e2e8f0; color: ${isOverdue ? '#c53030' : '#4a5568'};">${formatDateGerman(lead.nextFollowUp!)}</td>
+          </tr>`;
+    })
+    .join('\n');
+
+  return `<table role="presentation" width="100%" cellspacing="0" cellpadding="0" style="margin-bottom: 16px;">
+      <tr style="background-color: #f7fafc;">
+        <th style="padding: 8px 12px; text-align: left; color: #2F4858; font-weight: 600; border-bottom: 2px solid #e2e8f0;">Schule</th>
+        <th style="padding: 8px 12px; text-align: left; color: #2F4858; font-weight: 600; border-bottom: 2px solid #e2e8f0;">Kontakt</th>
+        <th style="padding: 8px 12px; text-align: left; color: #2F4858; font-weight: 600; border-bottom: 2px solid #e2e8f0;">Phase</th>
+        <th style="padding: 8px 12px; text-align: left; color: #2F4858; font-weight: 600; border-bottom: 2px solid #e2e8f0;">Follow-Up</th>
+      </tr>
+      ${rows}
+    </table>`;
+}
+
+/**
+ * Email each staff member the open leads whose follow-up is due today or
+ * overdue. Runs daily; overdue leads keep appearing until the follow-up
+ * date is moved or the lead is closed.
+ */
+export async function processLeadFollowUpReminders(dryRun = false): Promise<LeadAutomationResult> {
+  const result: LeadAutomationResult = { sent: 0, skipped: 0, failed: 0, errors: [] };
+
+  try {
+    const airtable = getAirtableService();
+    const leads = await airtable.getAllLeads();
+    const today = new Date().toISOString().split('T')[0];
+    const due = getDueFollowUps(leads, today);
+
+    if (due.length === 0) {
+      console.log(`[LeadAutomation] No follow-ups due on ${today}`);
+      return result;
+    }
+
+    const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'https://minimusiker.app';
+
+    for (const { staffId, overdue, dueToday } of due) {
+      let staff: { id: string; staff_name: string; email?: string } | null = null;
+      try {
+        staff = await airtable.getPersonById(staffId);
+      } catch (err) {
+        console.warn(`[LeadAutomation] Could not resolve staff ${staffId}:`, err);
+      }
+
+      if (!staff?.email) {
+        console.warn(`[LeadAutomation] Staff ${staffId} has no email, skipping follow-up digest`);
+        result.skipped++;
+        continue;
+      }
+
+      const count = overdue.length + dueToday.length;
+      if (dryRun) {
+        console.log(`[LeadAutomation] DRY RUN: Would send ${count} follow-up(s) (${overdue.length} overdue) to ${staff.email}`);
+        result.skipped++;
+        continue;
+      }
+
+      try {
+        const emailResult = await sendLeadFollowUpDigestEmail(staff.email, {
+          staffName: staff.staff_name,
+          count,
+          overdueCount: overdue.length,
+          leadListHtml: buildLeadListHtml(overdue, dueToday),
+          leadsUrl: `${baseUrl}/admin/leads`,
+        });
+
+        if (emailResult.success) {
+          result.sent++;
+        } else {
+          result.failed++;
+          result.errors.push(`Follow-up digest failed for ${staffId}: ${emailResult.error}`);
+        }
+      } catch (error) {
+        result.failed++;
+        result.errors.push(`Follow-up digest error for ${staffId}: ${error instanceof Error ? error.message : 'Unknown'}`);
+      }
+    }
+  } catch (error) {
+    result.failed = 1;
+    result.errors.push(error instanceof Error ? error.message : 'Unknown error');
+    console.error('[LeadAutomation] Error in processLeadFollowUpReminders:', error);
+  }
+
+  return result;
+}
+
+/**
+ * Send due nurture steps to lead contacts. Each step goes to a lead at most
+ * once: the email log is keyed by template name and lead:<record ID>.
+ */
+export async function processLeadNurtureEmails(dryRun = false): Promise<LeadAutomationResult> {
+  const result: LeadAutomationResult = { sent: 0, skipped: 0, failed: 0, errors: [] };
+
+  try {
+    const airtable = getAirtableService();
+    const [leads, staffList, suppressed] = await Promise.all([
+      airtable.getAllLeads(),
+      airtable.getAllStaffMembers(),
+      getEmailDeliveryService().getSuppressedEmails(),
+    ]);
+    const staffNames = new Map(staffList.map((s) => [s.id, s.name]));
+    const now = new Date();
+
+    for (const lead of leads) {
+      const steps = getDueNurtureSteps(lead, LEAD_NURTURE_SEQUENCES, now);
+      if (steps.length === 0) continue;
+
+      const email = lead.contactEmail!.trim().toLowerCase();
+      if (suppressed.has(email)) {
+        result.skipped += steps.length;
+        continue;
+      }
+
+      const variables = {
+        contactPerson: lead.contactPerson,
+        schoolName: lead.schoolName,
+        city: lead.city || '',
+        staffName: (lead.assignedStaffId && staffNames.get(lead.assignedStaffId)) || 'unser Team',
+      };
+
+      for (const step of steps) {
+        const entry = getRegistryEntry(step.slug);
+        if (!entry) {
+          result.failed++;
+          result.errors.push(`Unknown nurture template ${step.slug}`);
+          continue;
+        }
+
+        const trigger = await getTriggerTemplate(step.slug);
+        if (!trigger.active) { result.skipped++; continue; }
+
+        const alreadySent = await airtable.hasEmailBeenSent(entry.name, getLeadEmailLogKey(lead.id), email);
+        if (alreadySent) { result.skipped++; continue; }
+
+        if (dryRun) {
+          console.log(`[LeadAutomation] DRY RUN: Would send ${step.slug} to ${email} (${lead.schoolName})`);
+          result.skipped++;
+          continue;
+        }
+
+        const sendResult = await sendEmail({
+          to: email,
+          subject: renderTriggerTemplate(trigger.subject, variables),
+          html: renderFullTriggerEmail(trigger.bodyHtml, variables),
+        });
+
+        await airtable.createEmailLog({
+          templateName: entry.name,
+          eventId: getLeadEmailLogKey(lead.id),
+          recipientEmail: email,
+          recipientType: 'lead',
+          status: sendResult.success ? 'sent' : 'failed',
+          errorMessage: sendResult.success ? undefined : sendResult.error,
+          resendMessageId: sendResult.success ? sendResult.messageId : undefined,
+        });
+
+        if (sendResult.success) {
+          result.sent++;
+        } else {
+          result.failed++;
+          result.errors.push(`Nurture ${step.slug} failed for lead ${lead.id}: ${sendResult.error}`);
+        }
+
+        await sleep(RATE_LIMIT_DELAY_MS);
+      }
+    }
+  } catch (error) {
+    result.failed = 1;
+    result.errors.push(error instanceof Error ? error.message : 'Unknown error');
+    console.error('[LeadAutomation] Error in processLeadNurtureEmails:', error);
+  }
+
+  return result;
+}
@@ -7,12 +7,16 @@
  * Fetches songs, audio files, and class names for an event,
  * assembles them into a structured tracklist sorted by album_order,
  * and generates signed R2 download URLs for ready tracks.
+ * Ready tracks whose measured loudness is off the event's mastering preset
+ * are flagged so they can be re-processed before burning.
  */
 
 import { getTeacherService } from './teacherService';
 import { getAirtableService } from './airtableService';
 import { getR2Service } from './r2Service';
 import type { AudioFile } from '@/lib/types/teacher';
+import { resolveMasteringPreset, type MasteringPresetId } from '@/lib/config/audioMastering';
+import { getLoudnessWarning, type LoudnessWarning } from '@/lib/utils/loudnorm';
 
 // ---------------------------------------------------------------------------
 // Types
@@ -25,9 +29,13 @@ export interface MasterCdTrack {
   className: string;            // From linked Classes table
   audioFileId?: string;         // AudioFiles record ID
   r2Key?: string;               // AudioFiles.r2_key
+  mp3R2Key?: string;            // AudioFiles.mp3_r2_key (loudness-normalized MP3)
   durationSeconds?: number;     // AudioFiles.duration_seconds
   status: 'ready' | 'pending' | 'processing' | 'error' | 'missing';
   downloadUrl?: string;         // Signed R2 URL
+  loudnessLufs?: number;        // AudioFiles.loudness_lufs
+  truePeakDbtp?: number;        // AudioFiles.true_peak_dbtp
+  loudnessWarning?: LoudnessWarning | null; // Ready tracks only; null = on target
 }
 
 export interface MasterCdData {
@@ -37,6 +45,8 @@ export interface MasterCdData {
   allReady: boolean;            // True only if ALL tracks have status 'ready'
   readyCount: number;
   totalCount: number;
+  masteringPreset: { id: MasteringPresetId; label: string; targetLufs: number };
+  offTargetCount: number;       // Ready tracks with a loudnessWarning
 }
 
 // ---------------------------------------------------------------------------
@@ -55,8 +65,9 @@ class MasterCdService {
    * 1. Call getAlbumTracksData() as the primary track source (includes virtual schulsong)
    * 2. Fetch audio files and build finalAudioBySongId map
    * 3. Find schulsong audio by isSchulsong flag on AudioFile
-   * 4. Fetch event details (school_name)
+   * 4. Fetch event details (school_name, mastering_preset)
    * 5. Build MasterCdTrack[] from albumTracks, matching audio files
+   *    and comparing measured loudness against the preset
    */
   async getTracklist(eventId: string): Promise<MasterCdData> {
     // 1. Get album tracks (includes virtual schulsong if applicable)
@@ -83,9 +94,10 @@ class MasterCdService {
       }
     }
 
-    // 4. Fetch event details for school_name
+    // 4. Fetch event details for school_name and mastering preset
     const event = await this.airtable.getEventByEventId(eventId);
     const schoolName = event?.school_name ?? 'Unknown School';
+    const preset = resolveMasteringPreset(event?.mastering_preset);
 
     // 5. Build tracks from albumTracks
     const tracks: MasterCdTrack[] = albumTracks.map((albumTrack) => {
@@ -111,8 +123,12 @@ class MasterCdService {
         className: albumTrack.className,
         audioFileId: finalAudio?.id,
         r2Key: finalAudio?.r2Key,
+        mp3R2Key: finalAudio?.mp3R2Key,
         durationSeconds: finalAudio?.durationSeconds,
         status,
+        loudnessLufs: finalAudio?.loudnessLufs,
+        truePeakDbtp: finalAudio?.truePeakDbtp,
+        loudnessWarning: finalAudio && status === 'ready' ? getLoudnessWarning(finalAudio, preset) : undefined,
       };
     });
 
@@ -125,6 +141,8 @@ class MasterCdService {
       allReady: tracks.length > 0 && readyCount === tracks.length,
       readyCount,
       totalCount: tracks.length,
+      masteringPreset: { id: preset.id, label: preset.label, targetLufs: preset.targetLufs },
+      offTargetCount: tracks.filter((t) => t.loudnessWarning).length,
     };
   }
 
@@ -1,4 +1,3 @@
-import { Resend } from 'resend';
 import type { Event } from '@/lib/types/airtable';
 import { parseOverrides } from '@/lib/utils/eventThresholds';
 import { getAirtableService } from '@/lib/services/airtableService';
@@ -16,6 +15,7 @@ import {
 import { getRegistryEntry } from '@/lib/config/trigger-email-registry';
 import { hasAudioPurchaseForEvent } from '@/lib/utils/audioPurchaseAccess';
 import { generateUnsubscribeUrl } from '@/lib/utils/unsubscribe';
+import { sendEmail } from '@/lib/services/emailTransport';
 import type {
   EventThresholdMatch,
   CreateEmailLogInput,
@@ -88,8 +88,6 @@ export function isMixReadyForEvent(event: Event): boolean {
 const TEACHER_SLUG = 'teacher_mix_ready';
 const PARENT_BUYER_SLUG = 'parent_mix_ready_audio_buyer';
 const PARENT_NON_BUYER_SLUG = 'parent_mix_ready_non_audio_buyer';
-const FROM_EMAIL = process.env.RESEND_FROM_EMAIL || 'noreply@minimusiker.app';
-const FROM_NAME = 'Minimusiker';
 const RATE_LIMIT_DELAY_MS = 500;
 
 interface SendCounters { sent: number; skipped: number; failed: number; }
@@ -147,31 +145,19 @@ async function sendOne(
   let errorMessage: string | undefined;
   let resendMessageId: string | undefined;
 
-  if (!process.env.RESEND_API_KEY) {
-    console.log(`[MixReadyEmail] (dev) To: ${recipient.email}, Subject: ${subject}`);
-    resendMessageId = 'dev-mode';
-  } else {
-    try {
-      const resend = new Resend(process.env.RESEND_API_KEY);
-      const headers: Record<string, string> = {};
-      if (unsubscribeUrl) {
-        headers['List-Unsubscribe'] = `<${unsubscribeUrl}>`;
-        headers['List-Unsubscribe-Post'] = 'List-Unsubscribe=One-Click';
-      }
-      const { data, error } = await resend.emails.send({
-        from: `${FROM_NAME} <${FROM_EMAIL}>`,
-        to: recipient.email,
-        subject,
-        html,
-        headers: Object.keys(headers).length ? headers : undefined,
-      });
-      if (error) { status = 'failed'; errorMessage = error.message; }
-      else { resendMessageId = data?.id; }
-    } catch (err) {
-      status = 'failed';
-      errorMessage = err instanceof Error ? err.message : 'Unknown error';
-    }
-  }
+  const result = await sendEmail({
+    to: recipient.email,
+    subject,
+    html,
+    headers: unsubscribeUrl
+      ? {
+          'List-Unsubscribe': `<${unsubscribeUrl}>`,
+          'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+        }
+      : undefined,
+  });
+  if (result.success) { resendMessageId = result.messageId; }
+  else { status = 'failed'; errorMessage = result.error; }
 
   const logInput: CreateEmailLogInput = {
     templateName: entry.name,
@@ -231,7 +217,7 @@ export async function sendMixReadyEmailForEvent(eventId: string): Promise<SendCo
   }
 
   // 2. Parents — partition by audio purchase
-  const parents = await getParentRecipientsForEvent(event.event_id, event.id, eventData);
+  const parents = await getParentRecipientsForEvent(event.event_id, event.id, eventData, 'audio_ready');
   for (const p of parents) {
     const isBuyer = p.parentRecordId
       ? await hasAudioPurchaseForEvent(p.parentRecordId, event.event_id)
@@ -12,6 +12,7 @@ import {
   CancellationNotificationData,
   UnassignedStaffNotificationData,
   SchoolInfoChangedNotificationData,
+  SizeExchangeNotificationData,
 } from '@/lib/types/notification-settings';
 import {
   sendNewBookingNotification,
@@ -23,7 +24,9 @@ import {
   sendEngineerMinimusikerUploadedEmail,
   sendUnassignedStaffAlertEmail,
   sendSchoolInfoChangedNotification,
+  sendSizeExchangeRequestNotification,
 } from './resendService';
+import { isOutboxMessageId } from './emailTransport';
 import { getAirtableService } from './airtableService';
 
 // Airtable table ID for NotificationSettings
@@ -217,6 +220,42 @@ export async function triggerUnassignedStaffNotification(
   }
 }
 
+/**
+ * Send size exchange request notification if enabled
+ */
+export async function triggerSizeExchangeNotification(
+  data: SizeExchangeNotificationData
+): Promise<{ sent: boolean; error?: string }> {
+  try {
+    const settings = await getNotificationSettings('size_exchange');
+
+    if (!settings || !settings.enabled) {
+      console.log('[NotificationService] Size exchange notification disabled or not configured');
+      return { sent: false };
+    }
+
+    const recipients = parseRecipientEmails(settings.recipientEmails);
+    if (recipients.length === 0) {
+      console.log('[NotificationService] No recipients configured for size exchange notification');
+      return { sent: false };
+    }
+
+    const result = await sendSizeExchangeRequestNotification(recipients, data);
+
+    if (result.success) {
+      console.log(`[NotificationService] Size exchange notification sent to ${recipients.length} recipients`);
+      return { sent: true };
+    } else {
+      console.error('[NotificationService] Failed to send size exchange notification:', result.error);
+      return { sent: false, error: result.error };
+    }
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('[NotificationService] Error in triggerSizeExchangeNotification:', error);
+    return { sent: false, error: errorMessage };
+  }
+}
+
 /**
  * Send school info changed notification to admins + assigned staff
  */
@@ -550,8 +589,8 @@ export async function notifyEngineerOfUpload(
     if (result.success) {
       if (result.messageId === 'disabled') {
         console.error(`${tag} FAILED: Email template "${templateSlug}" is DISABLED in Airtable TriggerEmails table. Enable it to send notifications.`);
-      } else if (result.messageId === 'dev-mode') {
-        console.log(`${tag} Dev mode: RESEND_API_KEY not set, email logged but not sent`);
+      } else if (isOutboxMessageId(result.messageId)) {
+        console.log(`${tag} Outbox: email written to the local outbox, not sent (messageId=${result.messageId})`);
       } else {
         console.log(`${tag} SUCCESS: Email sent to ${engineer.email} for event ${eventId} (messageId=${result.messageId})`);
       }
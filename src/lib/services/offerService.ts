@@ -0,0 +1,311 @@
+/**
+ * Offer Service
+ *
+ * Generates offer PDFs (Angebote) from a Deal Builder configuration, stores
+ * them in R2 with one version per generation, and emails them to the
+ * school contact. Offers belong either to a lead (config entered on the
+ * leads page) or to an event (the saved Deal Builder config of the booking).
+ */
+
+import Airtable from 'airtable';
+import { getAirtableService } from './airtableService';
+import { getR2Service, R2_PATHS } from './r2Service';
+import { formatDocumentDate, renderBusinessDocumentPdf } from './businessDocumentPdf';
+import { sendOfferEmail } from './resendService';
+import {
+  OFFERS_TABLE_ID,
+  OFFERS_FIELD_IDS,
+  type DealConfig,
+  type DealType,
+  type Offer,
+} from '@/lib/types/airtable';
+import type { FeeBreakdown } from '@/lib/utils/dealCalculator';
+import {
+  addDaysToDate,
+  buildDocumentRecipient,
+  formatEuro,
+  getDealLineItems,
+  type DocumentRecipient,
+} from '@/lib/utils/businessDocument';
+import { buildOfferNumber, getNextOfferVersion } from '@/lib/utils/offerDocument';
+import { OFFER_CLOSING_TEXT, OFFER_VALIDITY_DAYS } from '@/lib/config/businessDocuments';
+
+// Signed download links in the admin UI
+const DOWNLOAD_URL_EXPIRY_SECONDS = 15 * 60;
+
+const DEFAULT_STAFF_NAME = 'Euer Minimusiker-Team';
+
+export interface OfferPdfInput {
+  offerNumber: string;
+  date: Date;
+  validUntil: string;
+  recipient: DocumentRecipient;
+  lineItems: FeeBreakdown;
+}
+
+export type OfferSubject = { leadId: string } | { eventRecordId: string };
+
+function getSubjectRecordId(subject: OfferSubject): string {
+  return 'leadId' in subject ? subject.leadId : subject.eventRecordId;
+}
+
+class OfferService {
+  private airtable = getAirtableService();
+  private r2 = getR2Service();
+
+  private get table() {
+    return this.airtable.getBase()(OFFERS_TABLE_ID);
+  }
+
+  async renderOfferPdf(input: OfferPdfInput): Promise<Buffer> {
+    const greeting = input.recipient.contactPerson ? `Hallo ${input.recipient.contactPerson},` : 'Hallo,';
+    return renderBusinessDocumentPdf({
+      title: `Angebot ${input.offerNumber}`,
+      metaRows: [
+        ['Angebotsnummer', input.offerNumber],
+        ['Datum', formatDocumentDate(input.date)],
+        ['Gültig bis', formatDocumentDate(input.validUntil)],
+      ],
+      recipient: input.recipient,
+      introParagraphs: [
+        greeting,
+        `vielen Dank für euer Interesse am Minimusikertag. Gerne bieten wir der ${input.recipient.name} folgende Leistungen an:`,
+      ],
+      lineItems: [
+        ...(input.lineItems.base !== 0 ? [{ label: 'Pauschale', amount: input.lineItems.base }] : []),
+        ...input.lineItems.items,
+      ],
+      totals: [{ label: 'Gesamtbetrag', amount: input.lineItems.total, emphasis: true }],
+      closingParagraphs: [
+        `Dieses Angebot ist gültig bis zum ${formatDocumentDate(input.validUntil)}.`,
+        OFFER_CLOSING_TEXT,
+      ],
+    });
+  }
+
+  // ========================================
+  // Offer records
+  // ========================================
+
+  private transformRecord(record: Airtable.Record<Airtable.FieldSet>): Offer {
+    let lineItems: FeeBreakdown = { base: 0, items: [], total: 0 };
+    try {
+      lineItems = JSON.parse((record.get(OFFERS_FIELD_IDS.line_items) as string) || '') as FeeBreakdown;
+    } catch {
+      // keep empty breakdown
+    }
+
+    return {
+      id: record.id,
+      offerNumber: (record.get(OFFERS_FIELD_IDS.offer_number) as string) || '',
+      leadId: (record.get(OFFERS_FIELD_IDS.lead) as string[] | undefined)?.[0],
+      eventRecordId: (record.get(OFFERS_FIELD_IDS.event) as string[] | undefined)?.[0],
+      version: (record.get(OFFERS_FIELD_IDS.version) as number) || 1,
+      lineItems,
+      total: (record.get(OFFERS_FIELD_IDS.total) as number) ?? lineItems.total,
+      validUntil: (record.get(OFFERS_FIELD_IDS.valid_until) as string) || '',
+      r2Key: (record.get(OFFERS_FIELD_IDS.r2_key) as string) || '',
+      createdBy: (record.get(OFFERS_FIELD_IDS.created_by) as string) || undefined,
+      sentAt: (record.get(OFFERS_FIELD_IDS.sent_at) as string) || undefined,
+      sentTo: (record.get(OFFERS_FIELD_IDS.sent_to) as string) || undefined,
+      createdAt: record._rawJson.createdTime,
+    };
+  }
+
+  /**
+   * All versions for a lead or event, newest first
+   */
+  async listOffers(subject: OfferSubject): Promise<Offer[]> {
+    // Linked fields in formulas compare against primary field values, not
+    // record IDs, so filter after fetching (the table stays small)
+    const records = await this.table.select({ returnFieldsByFieldId: true }).all();
+    return records
+      .map((record) => this.transformRecord(record))
+      .filter((offer) =>
+        'leadId' in subject ? offer.leadId === subject.leadId : offer.eventRecordId === subject.eventRecordId
+      )
+      .sort((a, b) => b.version - a.version);
+  }
+
+  async getOffer(offerId: string): Promise<Offer | null> {
+    if (!/^rec[a-zA-Z0-9]{14}$/.test(offerId)) return null;
+    const records = await this.table
+      .select({ filterByFormula: `RECORD_ID() = '${offerId}'`, maxRecords: 1, returnFieldsByFieldId: true })
+      .firstPage();
+    return records.length > 0 ? this.transformRecord(records[0]) : null;
+  }
+
+  private async createOffer(
+    subject: OfferSubject,
+    recipient: DocumentRecipient,
+    lineItems: FeeBreakdown,
+    createdBy: string
+  ): Promise<Offer> {
+    const subjectRecordId = getSubjectRecordId(subject);
+    const version = getNextOfferVersion(await this.listOffers(subject));
+    const now = new Date();
+    const offerNumber = buildOfferNumber(subjectRecordId, version, now);
+    const validUntil = addDaysToDate(OFFER_VALIDITY_DAYS, now);
+
+    const pdf = await this.renderOfferPdf({ offerNumber, date: now, validUntil, recipient, lineItems });
+    const r2Key = `${R2_PATHS.OFFERS(subjectRecordId)}/${offerNumber}.pdf`;
+    await this.r2.uploadFile(r2Key, pdf, 'application/pdf');
+
+    const record = await this.table.create({
+      [OFFERS_FIELD_IDS.offer_number]: offerNumber,
+      ...('leadId' in subject
+        ? { [OFFERS_FIELD_IDS.lead]: [subject.leadId] }
+        : { [OFFERS_FIELD_IDS.event]: [subject.eventRecordId] }),
+      [OFFERS_FIELD_IDS.version]: version,
+      [OFFERS_FIELD_IDS.line_items]: JSON.stringify(lineItems),
+      [OFFERS_FIELD_IDS.total]: lineItems.total,
+      [OFFERS_FIELD_IDS.valid_until]: validUntil,
+      [OFFERS_FIELD_IDS.r2_key]: r2Key,
+      [OFFERS_FIELD_IDS.created_by]: createdBy,
+    });
+
+    console.log(`[OfferService] Created ${offerNumber} (${formatEuro(lineItems.total)})`);
+    return {
+      id: record.id,
+      offerNumber,
+      ...('leadId' in subject ? { leadId: subject.leadId } : { eventRecordId: subject.eventRecordId }),
+      version,
+      lineItems,
+      total: lineItems.total,
+      validUntil,
+      r2Key,
+      createdBy,
+      createdAt: now.toISOString(),
+    };
+  }
+
+  /**
+   * New offer version for a lead from a Deal Builder configuration
+   */
+  async createOfferForLead(leadId: string, dealConfig: DealConfig, createdBy: string, dealType?: DealType): Promise<Offer> {
+    const lead = await this.airtable.getLeadById(leadId);
+    const lineItems = getDealLineItems(dealConfig, dealType, lead.estimatedChildren);
+    if (!lineItems) {
+      throw new Error('Deal configuration has no line items');
+    }
+
+    const einrichtung = lead.einrichtungId ? await this.airtable.getEinrichtungById(lead.einrichtungId) : null;
+    const recipient = buildDocumentRecipient(einrichtung, {
+      name: lead.schoolName,
+      contactPerson: lead.contactPerson,
+      address: lead.address,
+      postalCode: lead.postalCode,
+      city: lead.city,
+    });
+
+    return this.createOffer({ leadId }, recipient, lineItems, createdBy);
+  }
+
+  /**
+   * New offer version for an event from its saved Deal Builder configuration
+   */
+  async createOfferForEvent(eventId: string, createdBy: string): Promise<Offer> {
+    const event = await this.airtable.getEventByEventId(eventId);
+    if (!event) {
+      throw new Error(`Event ${eventId} not found`);
+    }
+    if (!event.deal_config) {
+      throw new Error('Event has no Deal Builder configuration');
+    }
+
+    const lineItems = getDealLineItems(event.deal_config, event.deal_type, event.estimated_children);
+    if (!lineItems) {
+      throw new Error('Deal configuration has no line items');
+    }
+
+    const booking = event.simplybook_booking?.[0]
+      ? await this.airtable.getSchoolBookingById(event.simplybook_booking[0])
+      : null;
+    const einrichtungId = booking?.einrichtung?.[0];
+    const einrichtung = einrichtungId ? await this.airtable.getEinrichtungById(einrichtungId) : null;
+    const recipient = buildDocumentRecipient(einrichtung, {
+      name: booking?.schoolName || event.school_name,
+      contactPerson: booking?.schoolContactName,
+      address: booking?.schoolAddress || event.school_address,
+      postalCode: booking?.schoolPostalCode,
+      city: booking?.city,
+    });
+
+    return this.createOffer({ eventRecordId: event.id }, recipient, lineItems, createdBy);
+  }
+
+  async getDownloadUrl(offer: Offer): Promise<string> {
+    return this.r2.generateSignedUrl(offer.r2Key, DOWNLOAD_URL_EXPIRY_SECONDS, `${offer.offerNumber}.pdf`);
+  }
+
+  /**
+   * Greeting details for the offer email, from the lead or the event booking
+   */
+  private async getEmailDetails(offer: Offer): Promise<{ contactPerson: string; schoolName: string; staffName: string }> {
+    if (offer.leadId) {
+      const lead = await this.airtable.getLeadById(offer.leadId);
+      return {
+        contactPerson: lead.contactPerson,
+        schoolName: lead.schoolName,
+        staffName: lead.assignedStaffName || DEFAULT_STAFF_NAME,
+      };
+    }
+
+    const event = offer.eventRecordId ? await this.airtable.getEventById(offer.eventRecordId) : null;
+    const booking = event?.simplybook_booking?.[0]
+      ? await this.airtable.getSchoolBookingById(event.simplybook_booking[0])
+      : null;
+    return {
+      contactPerson: booking?.schoolContactName || '',
+      schoolName: booking?.schoolName || event?.school_name || '',
+      staffName: DEFAULT_STAFF_NAME,
+    };
+  }
+
+  /**
+   * Email the offer PDF and remember when and to whom it went
+   */
+  async sendOffer(offer: Offer, to: string): Promise<void> {
+    const pdf = await this.r2.getFileBuffer(offer.r2Key);
+    if (!pdf) {
+      throw new Error(`Offer PDF ${offer.r2Key} not found`);
+    }
+
+    const details = await this.getEmailDetails(offer);
+    const result = await sendOfferEmail(
+      to,
+      {
+        contactPerson: details.contactPerson,
+        schoolName: details.schoolName,
+        offerNumber: offer.offerNumber,
+        total: formatEuro(offer.total),
+        validUntil: offer.validUntil,
+        staffName: details.staffName,
+      },
+      { filename: `Angebot-${offer.offerNumber}.pdf`, content: pdf }
+    );
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to send offer email');
+    }
+    if (result.messageId === 'disabled') {
+      throw new Error('The "Angebot" email template is disabled');
+    }
+
+    await this.table.update(offer.id, {
+      [OFFERS_FIELD_IDS.sent_at]: new Date().toISOString(),
+      [OFFERS_FIELD_IDS.sent_to]: to,
+    });
+  }
+}
+
+// Export singleton instance
+let offerServiceInstance: OfferService | null = null;
+
+export function getOfferService(): OfferService {
+  if (!offerServiceInstance) {
+    offerServiceInstance = new OfferService();
+  }
+  return offerServiceInstance;
+}
+
+export default OfferService;
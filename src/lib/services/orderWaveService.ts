@@ -12,16 +12,24 @@ import { getAirtableService } from './airtableService';
 import {
   ORDERS_TABLE_ID,
   ORDERS_FIELD_IDS,
+  EVENTS_TABLE_ID,
   EVENTS_FIELD_IDS,
-  ShopifyOrderLineItem,
+  OrderRefundLineItem,
 } from '@/lib/types/airtable';
 import type { ShipmentWave } from '@/lib/types/tasks';
 import {
   classifyVariant,
   computeShipmentWave,
+  getWaveShipDate,
   type VariantCategory,
 } from '@/lib/config/variantClassification';
 import { buildClassToEventMap, resolveOrderEventId } from '@/lib/utils/orderEventResolver';
+import type { EventRefundSummary } from '@/lib/types/analytics';
+import {
+  getNetOrderLineItems,
+  getOrderRefundLineItems,
+  summarizeRefundedProducts,
+} from '@/lib/utils/orderRefunds';
 
 // ---------------------------------------------------------------------------
 // Types
@@ -117,16 +125,6 @@ function buildItemSummary(orders: WaveOrder[]): Record<string, number> {
   return summary;
 }
 
-/**
- * Calculate a deadline date by adding an offset (in days) to a base date.
- * Returns an ISO date string (YYYY-MM-DD).
- */
-function calculateWaveDeadline(eventDate: string, offsetDays: number): string {
-  const date = new Date(eventDate);
-  date.setDate(date.getDate() + offsetDays);
-  return date.toISOString().split('T')[0];
-}
-
 // ---------------------------------------------------------------------------
 // Service
 // ---------------------------------------------------------------------------
@@ -218,6 +216,43 @@ class OrderWaveService {
     );
   }
 
+  /**
+   * Refunded items per event, keyed by event_id, for the analytics page.
+   */
+  async getEventRefundSummaries(): Promise<Record<string, EventRefundSummary>> {
+    const base = this.airtable.getBase();
+
+    const [allOrders, events, classToEvent] = await Promise.all([
+      base(ORDERS_TABLE_ID).select({ returnFieldsByFieldId: true }).all(),
+      base(EVENTS_TABLE_ID)
+        .select({ fields: [EVENTS_FIELD_IDS.event_id], returnFieldsByFieldId: true })
+        .all(),
+      buildClassToEventMap(base),
+    ]);
+
+    const eventIdByRecordId = new Map(
+      events.map((event) => [event.id, event.get(EVENTS_FIELD_IDS.event_id) as string]),
+    );
+
+    const refundsByEvent = new Map<string, OrderRefundLineItem[]>();
+    for (const order of allOrders) {
+      const refundLineItems = getOrderRefundLineItems(order);
+      if (refundLineItems.length === 0) continue;
+
+      const eventRecordId = resolveOrderEventId(order, classToEvent);
+      const eventId = eventRecordId ? eventIdByRecordId.get(eventRecordId) : undefined;
+      if (!eventId) continue;
+
+      refundsByEvent.set(eventId, [...(refundsByEvent.get(eventId) || []), ...refundLineItems]);
+    }
+
+    const summaries: Record<string, EventRefundSummary> = {};
+    for (const [eventId, refundLineItems] of refundsByEvent.entries()) {
+      summaries[eventId] = summarizeRefundedProducts(refundLineItems);
+    }
+    return summaries;
+  }
+
   /**
    * Override the shipment_wave field on a specific order record.
    */
@@ -302,8 +337,8 @@ class OrderWaveService {
     }
 
     // Deadlines: Welle 1 = eventDate - 9 days, Welle 2 = eventDate + 14 days
-    const welle1Deadline = calculateWaveDeadline(eventDate, -9);
-    const welle2Deadline = calculateWaveDeadline(eventDate, 14);
+    const welle1Deadline = getWaveShipDate(eventDate, 'Welle 1');
+    const welle2Deadline = getWaveShipDate(eventDate, 'Welle 2');
 
     return {
       eventRecordId,
@@ -329,7 +364,8 @@ class OrderWaveService {
 
   /**
    * Transform an Airtable order record into a WaveOrder.
-   * Returns null if the order has no shipment_wave set.
+   * Returns null if the order has no shipment_wave set or nothing left
+   * after refunds.
    */
   private transformOrderRecord(
     record: Airtable.Record<Airtable.FieldSet>,
@@ -338,16 +374,9 @@ class OrderWaveService {
     const shipmentWave = record.get(ORDERS_FIELD_IDS.shipment_wave) as ShipmentWave | undefined;
     if (!shipmentWave) return null;
 
-    // Parse line items JSON
-    const lineItemsJson = record.get(ORDERS_FIELD_IDS.line_items) as string;
-    let rawLineItems: ShopifyOrderLineItem[] = [];
-    if (lineItemsJson) {
-      try {
-        rawLineItems = JSON.parse(lineItemsJson);
-      } catch {
-        // Ignore parse errors — treat as empty
-      }
-    }
+    // Refunded items are not shipped
+    const rawLineItems = getNetOrderLineItems(record);
+    if (rawLineItems.length === 0) return null;
 
     const lineItems: OrderLineItem[] = rawLineItems.map((item) => ({
       variantId: item.variant_id,
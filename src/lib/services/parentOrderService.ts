@@ -0,0 +1,266 @@
+// src/lib/services/parentOrderService.ts
+
+/**
+ * Parent Order Service
+ *
+ * Order history for the family portal ("Meine Bestellungen"): a parent's
+ * orders for one event with the wave and expected ship date of every item,
+ * Shopify tracking once shipped, and size exchange requests for clothing.
+ */
+
+import { getAirtableService } from './airtableService';
+import { triggerSizeExchangeNotification } from './notificationService';
+import { resolveEventRecordId } from './ordersHelper';
+import { getRepositories, type StoredRecord } from '@/lib/repositories';
+import {
+  ORDERS_FIELD_IDS,
+  OrderTrackingInfo,
+  ShopifyOrderLineItem,
+  SizeExchangeRequest,
+} from '@/lib/types/airtable';
+import type { ShipmentWave } from '@/lib/types/tasks';
+import { getLineItemWave, getWaveShipDate } from '@/lib/config/variantClassification';
+import {
+  getClothingDetails,
+  getStandardClothingDetails,
+  HOODIE_SIZES,
+  TSHIRT_SIZES,
+  type ClothingType,
+} from '@/lib/config/clothingVariants';
+import { buildClassToEventMap, resolveOrderEventId } from '@/lib/utils/orderEventResolver';
+
+// The order history lists orders in every payment state
+const ALL_PAYMENT_STATUSES = ['pending', 'paid', 'refunded', 'partially_refunded', 'voided'];
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface ParentOrderItem {
+  variantId: string;
+  productTitle: string;
+  variantTitle?: string;
+  quantity: number;
+  total: number;
+  wave: ShipmentWave | null;        // null = not shipped (digital)
+  expectedShipDate?: string;        // YYYY-MM-DD, Welle 1 / Welle 2 only
+  clothing?: {
+    type: ClothingType;
+    size: string;
+    exchangeSizes: string[];        // Sizes the item can be exchanged for
+  };
+  exchangeRequest?: SizeExchangeRequest;
+}
+
+export interface ParentOrder {
+  recordId: string;
+  orderNumber: string;
+  orderDate: string;
+  totalAmount: number;
+  paymentStatus: string;
+  fulfillmentStatus: string;
+  items: ParentOrderItem[];
+  tracking: OrderTrackingInfo[];
+}
+
+export interface SizeExchangeInput {
+  variantId: string;
+  requestedSize: string;
+  note?: string;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function parseJsonArray<T>(raw: unknown): T[] {
+  if (typeof raw !== 'string' || !raw) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+function normalizeVariantId(variantId: string): string {
+  return String(variantId).replace(/^gid:\/\/shopify\/ProductVariant\//, '');
+}
+
+function getClothing(variantId: string): ParentOrderItem['clothing'] | undefined {
+  const details = getClothingDetails(String(variantId)) || getStandardClothingDetails(String(variantId));
+  if (!details) return undefined;
+  const sizes = details.type === 'hoodie' ? HOODIE_SIZES : TSHIRT_SIZES;
+  return {
+    type: details.type,
+    size: details.size,
+    exchangeSizes: sizes.filter((size) => size !== details.size),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Service
+// ---------------------------------------------------------------------------
+
+class ParentOrderService {
+  private airtable = getAirtableService();
+
+  /**
+   * A parent's orders for one event, newest first
+   */
+  async getOrdersForEvent(parentId: string, eventId: string): Promise<ParentOrder[]> {
+    const base = this.airtable.getBase();
+
+    const [records, classToEvent, eventRecordId] = await Promise.all([
+      this.findParentOrders(parentId),
+      buildClassToEventMap(base),
+      resolveEventRecordId(eventId),
+    ]);
+
+    const eventRecords = records.filter((record) => {
+      const bookingId = record.get(ORDERS_FIELD_IDS.booking_id) as string | undefined;
+      if (bookingId && bookingId === eventId) return true;
+      return !!eventRecordId && resolveOrderEventId(record, classToEvent) === eventRecordId;
+    });
+    if (eventRecords.length === 0) return [];
+
+    const event = eventRecordId ? await this.airtable.getEventById(eventRecordId) : null;
+    const orders = eventRecords.map((record) => this.transformOrderRecord(record, event?.event_date));
+
+    return orders.sort((a, b) => b.orderDate.localeCompare(a.orderDate));
+  }
+
+  /**
+   * Record a size exchange for a clothing item of a paid order and notify
+   * the team. Throws with a user-facing message when the request is not
+   * possible.
+   */
+  async requestSizeExchange(
+    parentId: string,
+    orderRecordId: string,
+    input: SizeExchangeInput
+  ): Promise<SizeExchangeRequest> {
+    const [record] = await this.findParentOrders(parentId, orderRecordId);
+    if (!record) {
+      throw new Error('Order not found');
+    }
+
+    if (record.get(ORDERS_FIELD_IDS.payment_status) !== 'paid') {
+      throw new Error('Only paid orders can be exchanged');
+    }
+
+    const lineItems = parseJsonArray<ShopifyOrderLineItem>(record.get(ORDERS_FIELD_IDS.line_items));
+    const lineItem = lineItems.find(
+      (item) => normalizeVariantId(item.variant_id) === normalizeVariantId(input.variantId)
+    );
+    const clothing = lineItem ? getClothing(lineItem.variant_id) : undefined;
+    if (!lineItem || !clothing) {
+      throw new Error('Only clothing can be exchanged');
+    }
+
+    if (!clothing.exchangeSizes.includes(input.requestedSize)) {
+      throw new Error(`Size ${input.requestedSize} is not available for this item`);
+    }
+
+    const requests = parseJsonArray<SizeExchangeRequest>(record.get(ORDERS_FIELD_IDS.exchange_requests));
+    const hasOpenRequest = requests.some(
+      (request) =>
+        request.status === 'open' &&
+        normalizeVariantId(request.variant_id) === normalizeVariantId(lineItem.variant_id)
+    );
+    if (hasOpenRequest) {
+      throw new Error('An exchange for this item has already been requested');
+    }
+
+    const request: SizeExchangeRequest = {
+      variant_id: lineItem.variant_id,
+      product_title: lineItem.product_title,
+      current_size: clothing.size,
+      requested_size: input.requestedSize,
+      ...(input.note?.trim() ? { note: input.note.trim().slice(0, 500) } : {}),
+      requested_at: new Date().toISOString(),
+      status: 'open',
+    };
+
+    await getRepositories().orders.update(record.id, {
+      [ORDERS_FIELD_IDS.exchange_requests]: JSON.stringify([...requests, request]),
+    });
+
+    await triggerSizeExchangeNotification({
+      orderNumber: (record.get(ORDERS_FIELD_IDS.order_number) as string) || '',
+      schoolName: (record.get(ORDERS_FIELD_IDS.school_name) as string) || '',
+      productTitle: request.product_title,
+      currentSize: request.current_size,
+      requestedSize: request.requested_size,
+      note: request.note,
+    });
+
+    return request;
+  }
+
+  // =========================================================================
+  // Private helpers
+  // =========================================================================
+
+  /**
+   * Orders linked to the parent (optionally a single order). The parent is
+   * the session's custom parent ID, resolved to the Parents record by the
+   * orders repository.
+   */
+  private async findParentOrders(parentId: string, orderRecordId?: string): Promise<StoredRecord[]> {
+    const orders = await getRepositories().orders.listForParent(parentId, ALL_PAYMENT_STATUSES);
+    return orderRecordId ? orders.filter((order) => order.id === orderRecordId) : orders;
+  }
+
+  private transformOrderRecord(
+    record: StoredRecord,
+    eventDate: string | undefined
+  ): ParentOrder {
+    const orderWave = record.get(ORDERS_FIELD_IDS.shipment_wave) as ShipmentWave | undefined;
+    const lineItems = parseJsonArray<ShopifyOrderLineItem>(record.get(ORDERS_FIELD_IDS.line_items));
+    const exchangeRequests = parseJsonArray<SizeExchangeRequest>(record.get(ORDERS_FIELD_IDS.exchange_requests));
+
+    const items: ParentOrderItem[] = lineItems.map((item) => {
+      const wave = getLineItemWave(item.variant_id, orderWave);
+      const exchangeRequest = exchangeRequests
+        .filter((request) => normalizeVariantId(request.variant_id) === normalizeVariantId(item.variant_id))
+        .pop();
+      return {
+        variantId: item.variant_id,
+        productTitle: item.product_title,
+        variantTitle: item.variant_title,
+        quantity: item.quantity,
+        total: item.total,
+        wave,
+        expectedShipDate:
+          eventDate && (wave === 'Welle 1' || wave === 'Welle 2') ? getWaveShipDate(eventDate, wave) : undefined,
+        clothing: getClothing(item.variant_id),
+        exchangeRequest,
+      };
+    });
+
+    return {
+      recordId: record.id,
+      orderNumber: (record.get(ORDERS_FIELD_IDS.order_number) as string) || '',
+      orderDate: (record.get(ORDERS_FIELD_IDS.order_date) as string) || '',
+      totalAmount: (record.get(ORDERS_FIELD_IDS.total_amount) as number) || 0,
+      paymentStatus: (record.get(ORDERS_FIELD_IDS.payment_status) as string) || 'pending',
+      fulfillmentStatus: (record.get(ORDERS_FIELD_IDS.fulfillment_status) as string) || 'pending',
+      items,
+      tracking: parseJsonArray<OrderTrackingInfo>(record.get(ORDERS_FIELD_IDS.tracking_info)),
+    };
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Singleton
+// ---------------------------------------------------------------------------
+
+let parentOrderServiceInstance: ParentOrderService | null = null;
+
+export function getParentOrderService(): ParentOrderService {
+  if (!parentOrderServiceInstance) {
+    parentOrderServiceInstance = new ParentOrderService();
+  }
+  return parentOrderServiceInstance;
+}
@@ -55,7 +55,7 @@ export type { TextElementConfig, PrintableItemConfig } from '../config/printable
  * placed on its own line and overflows — admins can fix by widening the box
  * or shortening the text. Whitespace-only inputs return [].
  */
-function wrapTextToWidth(
+export function wrapTextToWidth(
   text: string,
   maxWidth: number,
   fontSize: number,
@@ -260,141 +260,7 @@ class PrintableService {
 
     // Process each item config
     for (const itemConfig of itemConfigs) {
-      const rawType = itemConfig.type;
-      const isPartial = isPartialType(rawType);
-      // Canonical (suffix-stripped) type used by all downstream helpers
-      // (printableIsBack, uploadPrintable, PRINTABLE_CONFIGS, etc.). The
-      // helpers do not know about `-partial`.
-      const type = stripPartialSuffix(rawType) as PrintableType;
-
-      try {
-        // Skip back items with missing QR code
-        if (printableIsBack(type) && !qrCodeBuffer) {
-          console.warn(`[PrintableService] Skipping ${type} - no QR code available`);
-          results.push({
-            success: false,
-            type,
-            error: 'No QR code available for back side',
-          });
-          continue;
-        }
-
-        let pdfDoc: PDFDocument;
-
-        if (isPartial) {
-          // Form-mode items use a shared partial-blank template. For e.g.
-          // flyer1 + flyer1-back this is a single 2-page PDF; we extract page 0
-          // (front) or page 1 (back).
-          const itemBasename = partialBasenameFor(type as PrintableItemType);
-          const partialBuffer = await this.r2Service.getPartialTemplate(itemBasename);
-          if (!partialBuffer) {
-            results.push({
-              success: false,
-              type,
-              error: `Partial template not found: templates/${itemBasename}-partial-template.pdf. Run scripts/upload-printable-templates.ts.`,
-            });
-            continue;
-          }
-          const fullDoc = await PDFDocument.load(partialBuffer);
-          const pageIndex = printableIsBack(type) ? 1 : 0;
-          const newDoc = await PDFDocument.create();
-          const [copiedPage] = await newDoc.copyPages(fullDoc, [pageIndex]);
-          newDoc.addPage(copiedPage);
-          pdfDoc = newDoc;
-        } else {
-          // Legacy path: load per-item template, fall back to blank PDF for
-          // clothing items.
-          const templateBuffer = await this.r2Service.getTemplate(type);
-
-          if (!templateBuffer) {
-            // For clothing items (tshirt/hoodie), generate a blank PDF
-            if (this.isClothingType(type)) {
-              console.log(`[PrintableService] No template for ${type}, generating blank A3 PDF`);
-              const blankPdfBuffer = await this.generateBlankPdf(842, 1191); // A3 dimensions
-              pdfDoc = await PDFDocument.load(blankPdfBuffer);
-            } else {
-              results.push({
-                success: false,
-                type,
-                error: `Template not found: ${type}. Please upload template to R2.`,
-              });
-              continue;
-            }
-          } else {
-            // Load the PDF from template
-            pdfDoc = await PDFDocument.load(templateBuffer);
-          }
-        }
-
-        // Legacy back items have all text baked into the template PDF, so we
-        // only overlay the QR. Partial-mode back items use a partial-blank
-        // template and still need text rendered alongside the QR.
-        if (printableIsBack(type) && !isPartial) {
-          if (qrCodeBuffer && itemConfig.qrPosition) {
-            await this.addQrCodeAtPosition(
-              pdfDoc,
-              qrCodeBuffer,
-              itemConfig.qrPosition,
-              type,
-              qrCodeUrl
-            );
-          }
-        } else {
-          // Front items (legacy or partial) and partial-back items: render
-          // text + QR.
-          for (const textElement of itemConfig.textElements) {
-            await this.addTextElementToPdf(pdfDoc, textElement, type);
-          }
-
-          if (qrCodeBuffer && itemConfig.qrPosition) {
-            await this.addQrCodeAtPosition(
-              pdfDoc,
-              qrCodeBuffer,
-              itemConfig.qrPosition,
-              type,
-              qrCodeUrl
-            );
-          }
-        }
-
-        // Add logo if this type requires it
-        if (printableRequiresLogo(type) && logoBuffer) {
-          const config = PRINTABLE_CONFIGS[type];
-          if (config?.logo) {
-            await this.addImageToPdf(pdfDoc, logoBuffer, config.logo);
-          }
-        }
-
-        // Add bleed margins
-        const bleedMm = this.getBleedForType(type);
-        const finalDoc = await this.addBleedToDocument(pdfDoc, bleedMm);
-
-        // Save and upload
-        const pdfBytes = await finalDoc.save();
-        const buffer = Buffer.from(pdfBytes);
-        const uploadResult = await this.r2Service.uploadPrintable(eventId, type, buffer);
-
-        if (!uploadResult.success) {
-          results.push({
-            success: false,
-            type,
-            error: uploadResult.error || 'Failed to upload printable',
-          });
-        } else {
-          results.push({
-            success: true,
-            type,
-            key: uploadResult.key,
-          });
-        }
-      } catch (error) {
-        console.error(`Error generating ${type}:`, error);
-        results.push({
-          success: false,
-          type,
-          error: error instanceof Error ? error.message : 'Unknown error',
-        });
-      }
+      results.push(await this.renderPrintableWithConfig(eventId, itemConfig, qrCodeBuffer, logoBuffer, qrCodeUrl));
     }
 
     // Generate mockups only if clothing items were included
@@ -424,6 +290,178 @@ class PrintableService {
     };
   }
 
+  /**
+   * Generate a single printable from an editor config and upload it to R2.
+   * Used by the printables job, which renders one item per step.
+   *
+   * @param eventId - The event ID
+   * @param itemConfig - Item config with custom positions from the editor
+   * @param logoBuffer - Optional logo image buffer for minicard/cd-jacket
+   * @param qrCodeUrl - Optional URL for QR code
+   */
+  async generatePrintableWithConfig(
+    eventId: string,
+    itemConfig: PrintableItemConfig,
+    logoBuffer?: Buffer,
+    qrCodeUrl?: string
+  ): Promise<GenerationResult> {
+    let qrCodeBuffer: Buffer | undefined;
+    if (qrCodeUrl) {
+      try {
+        qrCodeBuffer = await this.generateQrCodeBuffer(qrCodeUrl);
+      } catch (error) {
+        console.warn('Failed to generate QR code:', error);
+      }
+    }
+
+    return this.renderPrintableWithConfig(eventId, itemConfig, qrCodeBuffer, logoBuffer, qrCodeUrl);
+  }
+
+  /**
+   * Render one item config onto its template, add bleed and upload.
+   * Never throws - failures are returned as { success: false }.
+   */
+  private async renderPrintableWithConfig(
+    eventId: string,
+    itemConfig: PrintableItemConfig,
+    qrCodeBuffer?: Buffer,
+    logoBuffer?: Buffer,
+    qrCodeUrl?: string
+  ): Promise<GenerationResult> {
+    const rawType = itemConfig.type;
+    const isPartial = isPartialType(rawType);
+    // Canonical (suffix-stripped) type used by all downstream helpers
+    // (printableIsBack, uploadPrintable, PRINTABLE_CONFIGS, etc.). The
+    // helpers do not know about `-partial`.
+    const type = stripPartialSuffix(rawType) as PrintableType;
+
+    try {
+      // Skip back items with missing QR code
+      if (printableIsBack(type) && !qrCodeBuffer) {
+        console.warn(`[PrintableService] Skipping ${type} - no QR code available`);
+        return {
+          success: false,
+          type,
+          error: 'No QR code available for back side',
+        };
+      }
+
+      let pdfDoc: PDFDocument;
+
+      if (isPartial) {
+        // Form-mode items use a shared partial-blank template. For e.g.
+        // flyer1 + flyer1-back this is a single 2-page PDF; we extract page 0
+        // (front) or page 1 (back).
+        const itemBasename = partialBasenameFor(type as PrintableItemType);
+        const partialBuffer = await this.r2Service.getPartialTemplate(itemBasename);
+        if (!partialBuffer) {
+          return {
+            success: false,
+            type,
+            error: `Partial template not found: templates/${itemBasename}-partial-template.pdf. Run scripts/upload-printable-templates.ts.`,
+          };
+        }
+        const fullDoc = await PDFDocument.load(partialBuffer);
+        const pageIndex = printableIsBack(type) ? 1 : 0;
+        const newDoc = await PDFDocument.create();
+        const [copiedPage] = await newDoc.copyPages(fullDoc, [pageIndex]);
+        newDoc.addPage(copiedPage);
+        pdfDoc = newDoc;
+      } else {
+        // Legacy path: load per-item template, fall back to blank PDF for
+        // clothing items.
+        const templateBuffer = await this.r2Service.getTemplate(type);
+
+        if (!templateBuffer) {
+          // For clothing items (tshirt/hoodie), generate a blank PDF
+          if (this.isClothingType(type)) {
+            console.log(`[PrintableService] No template for ${type}, generating blank A3 PDF`);
+            const blankPdfBuffer = await this.generateBlankPdf(842, 1191); // A3 dimensions
+            pdfDoc = await PDFDocument.load(blankPdfBuffer);
+          } else {
+            return {
+              success: false,
+              type,
+              error: `Template not found: ${type}. Please upload template to R2.`,
+            };
+          }
+        } else {
+          // Load the PDF from template
+          pdfDoc = await PDFDocument.load(templateBuffer);
+        }
+      }
+
+      // Legacy back items have all text baked into the template PDF, so we
+      // only overlay the QR. Partial-mode back items use a partial-blank
+      // template and still need text rendered alongside the QR.
+      if (printableIsBack(type) && !isPartial) {
+        if (qrCodeBuffer && itemConfig.qrPosition) {
+          await this.addQrCodeAtPosition(
+            pdfDoc,
+            qrCodeBuffer,
+            itemConfig.qrPosition,
+            type,
+            qrCodeUrl
+          );
+        }
+      } else {
+        // Front items (legacy or partial) and partial-back items: render
+        // text + QR.
+        for (const textElement of itemConfig.textElements) {
+          await this.addTextElementToPdf(pdfDoc, textElement, type);
+        }
+
+        if (qrCodeBuffer && itemConfig.qrPosition) {
+          await this.addQrCodeAtPosition(
+            pdfDoc,
+            qrCodeBuffer,
+            itemConfig.qrPosition,
+            type,
+            qrCodeUrl
+          );
+        }
+      }
+
+      // Add logo if this type requires it
+      if (printableRequiresLogo(type) && logoBuffer) {
+        const config = PRINTABLE_CONFIGS[type];
+        if (config?.logo) {
+          await this.addImageToPdf(pdfDoc, logoBuffer, config.logo);
+        }
+      }
+
+      // Add bleed margins
+      const bleedMm = this.getBleedForType(type);
+      const finalDoc = await this.addBleedToDocument(pdfDoc, bleedMm);
+
+      // Save and upload
+      const pdfBytes = await finalDoc.save();
+      const buffer = Buffer.from(pdfBytes);
+      const uploadResult = await this.r2Service.uploadPrintable(eventId, type, buffer);
+
+      if (!uploadResult.success) {
+        return {
+          success: false,
+          type,
+          error: uploadResult.error || 'Failed to upload printable',
+        };
+      }
+
+      return {
+        success: true,
+        type,
+        key: uploadResult.key,
+      };
+    } catch (error) {
+      console.error(`Error generating ${type}:`, error);
+      return {
+        success: false,
+        type,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
   /**
    * Generate a single printable preview and return the PDF buffer
    * Used by the preview API to let admins download previews before confirming
@@ -8,6 +8,7 @@ import {
   PutBucketCorsCommand,
   CreateMultipartUploadCommand,
   UploadPartCommand,
+  UploadPartCopyCommand,
   CompleteMultipartUploadCommand,
   AbortMultipartUploadCommand,
   ListObjectsV2Command,
@@ -92,6 +93,12 @@ export const R2_PATHS = {
   // Class-level paths
   CLASS_RAW: (eventId: string, classId: string) => `events/${eventId}/classes/${classId}/raw`,
   CLASS_FINAL: (eventId: string, classId: string) => `events/${eventId}/classes/${classId}/final`,
+
+  // Offer PDFs, one folder per lead or event record
+  OFFERS: (subjectRecordId: string) => `offers/${subjectRecordId}`,
+
+  // Issued invoice PDFs, one folder per event record
+  INVOICES: (eventRecordId: string) => `invoices/${eventRecordId}`,
 } as const;
 
 // Printable types that can be generated
@@ -628,6 +635,36 @@ class R2Service {
     return null;
   }
 
+  /**
+   * Resolve the best available R2 key for a final audio file.
+   * Checks in order: mp3R2Key → canonical final path → r2Key
+   */
+  async resolveAudioFileKey(
+    audioFile: { mp3R2Key?: string; r2Key?: string; songId?: string },
+    eventId: string,
+    classId: string
+  ): Promise<string | null> {
+    // 1. Processed MP3
+    if (audioFile.mp3R2Key && await this.fileExists(audioFile.mp3R2Key)) {
+      return audioFile.mp3R2Key;
+    }
+
+    // 2. Canonical path
+    if (audioFile.songId) {
+      const canonicalKey = `recordings/${eventId}/${classId}/${audioFile.songId}/final/final.mp3`;
+      if (await this.fileExists(canonicalKey)) {
+        return canonicalKey;
+      }
+    }
+
+    // 3. Original upload
+    if (audioFile.r2Key && await this.fileExists(audioFile.r2Key)) {
+      return audioFile.r2Key;
+    }
+
+    return null;
+  }
+
   /**
    * Generate a presigned upload URL for any R2 key.
    */
@@ -658,6 +695,20 @@ class R2Service {
     }
   }
 
+  /**
+   * Upload a buffer to an arbitrary key in the recordings bucket
+   */
+  async uploadFile(key: string, buffer: Buffer, contentType: string): Promise<void> {
+    await this.client.send(
+      new PutObjectCommand({
+        Bucket: this.bucketName,
+        Key: key,
+        Body: buffer,
+        ContentType: contentType,
+      })
+    );
+  }
+
   /**
    * Get file metadata
    */
@@ -2230,6 +2281,53 @@ class R2Service {
     return urls;
   }
 
+  /**
+   * Upload one part of a multipart upload from the server.
+   * Every part except the last must be at least 5 MiB.
+   */
+  async uploadPart(
+    key: string,
+    uploadId: string,
+    partNumber: number,
+    body: Buffer
+  ): Promise<{ PartNumber: number; ETag: string }> {
+    const response = await this.client.send(
+      new UploadPartCommand({
+        Bucket: this.bucketName,
+        Key: key,
+        UploadId: uploadId,
+        PartNumber: partNumber,
+        Body: body,
+      })
+    );
+
+    return { PartNumber: partNumber, ETag: response.ETag || '' };
+  }
+
+  /**
+   * Use an existing object as one part of a multipart upload (server-side
+   * copy, the bytes never pass through the function)
+   */
+  async uploadPartCopy(
+    key: string,
+    uploadId: string,
+    partNumber: number,
+    sourceKey: string
+  ): Promise<{ PartNumber: number; ETag: string }> {
+    const encodedSource = sourceKey.split('/').map(encodeURIComponent).join('/');
+    const response = await this.client.send(
+      new UploadPartCopyCommand({
+        Bucket: this.bucketName,
+        Key: key,
+        UploadId: uploadId,
+        PartNumber: partNumber,
+        CopySource: `${this.bucketName}/${encodedSource}`,
+      })
+    );
+
+    return { PartNumber: partNumber, ETag: response.CopyPartResult?.ETag || '' };
+  }
+
   /**
    * Complete a multipart upload — R2 validates all parts and ETags
    */
@@ -2431,40 +2529,54 @@ class R2Service {
    */
   async deleteByPrefix(prefix: string): Promise<{ deleted: number }> {
     try {
-      let totalDeleted = 0;
-      let continuationToken: string | undefined;
+      return { deleted: await this.deleteObjectsByPrefix(this.assetsBucketName, prefix) };
+    } catch (error) {
+      console.error(`[R2Service] Error deleting by prefix ${prefix}:`, error);
+      return { deleted: 0 };
+    }
+  }
 
-      do {
-        const listCommand = new ListObjectsV2Command({
-          Bucket: this.assetsBucketName,
-          Prefix: prefix,
-          ...(continuationToken ? { ContinuationToken: continuationToken } : {}),
-        });
+  /**
+   * Delete all objects under a key prefix in the recordings or assets bucket.
+   * Unlike deleteByPrefix, errors are thrown so the caller can retry instead
+   * of treating the files as gone (data retention).
+   */
+  async purgeByPrefix(bucket: 'recordings' | 'assets', prefix: string): Promise<{ deleted: number }> {
+    const bucketName = bucket === 'recordings' ? this.bucketName : this.assetsBucketName;
+    return { deleted: await this.deleteObjectsByPrefix(bucketName, prefix) };
+  }
 
-        const listResult = await this.client.send(listCommand);
-        const objects = listResult.Contents || [];
+  private async deleteObjectsByPrefix(bucketName: string, prefix: string): Promise<number> {
+    let totalDeleted = 0;
+    let continuationToken: string | undefined;
 
-        if (objects.length > 0) {
-          const deleteCommand = new DeleteObjectsCommand({
-            Bucket: this.assetsBucketName,
-            Delete: {
-              Objects: objects.map(obj => ({ Key: obj.Key })),
-              Quiet: true,
-            },
-          });
+    do {
+      const listCommand = new ListObjectsV2Command({
+        Bucket: bucketName,
+        Prefix: prefix,
+        ...(continuationToken ? { ContinuationToken: continuationToken } : {}),
+      });
 
-          await this.client.send(deleteCommand);
-          totalDeleted += objects.length;
-        }
+      const listResult = await this.client.send(listCommand);
+      const objects = listResult.Contents || [];
 
-        continuationToken = listResult.IsTruncated ? listResult.NextContinuationToken : undefined;
-      } while (continuationToken);
+      if (objects.length > 0) {
+        const deleteCommand = new DeleteObjectsCommand({
+          Bucket: bucketName,
+          Delete: {
+            Objects: objects.map(obj => ({ Key: obj.Key })),
+            Quiet: true,
+          },
+        });
 
-      return { deleted: totalDeleted };
-    } catch (error) {
-      console.error(`[R2Service] Error deleting by prefix ${prefix}:`, error);
-      return { deleted: 0 };
-    }
+        await this.client.send(deleteCommand);
+        totalDeleted += objects.length;
+      }
+
+      continuationToken = listResult.IsTruncated ? listResult.NextContinuationToken : undefined;
+    } while (continuationToken);
+
+    return totalDeleted;
   }
 }
 
@@ -0,0 +1,246 @@
+// src/lib/services/repertoireService.ts
+
+/**
+ * Repertoire Service
+ *
+ * The Repertoire catalogue (known works with composer, lyricist, publisher
+ * and licensing status) and the quarterly music licensing report built
+ * from it. Song titles are free text entered by teachers, so they are
+ * fuzzy-matched against the catalogue (utils/repertoireMatch.ts); an admin
+ * confirms uncertain matches by linking the song to a work.
+ *
+ * Quantities per event: pressed CDs from TaskService.getCdQuantityForEvent,
+ * downloads as the Minicards left after refunds — or, for events whose audio
+ * is free, the registered children.
+ */
+
+import Airtable from 'airtable';
+import { getAirtableService } from './airtableService';
+import { getTaskService } from './taskService';
+import { getTeacherService } from './teacherService';
+import { getRepositories, type StoredRecord } from '@/lib/repositories';
+import {
+  EVENTS_FIELD_IDS,
+  ORDERS_FIELD_IDS,
+  REPERTOIRE_FIELD_IDS,
+  REPERTOIRE_TABLE_ID,
+  SONGS_LINKED_FIELD_IDS,
+  type LicensingStatus,
+  type RepertoireWork,
+} from '@/lib/types/airtable';
+import { getNetOrderLineItems } from '@/lib/utils/orderRefunds';
+import { isMinicardLineItem } from '@/lib/utils/minicardAccess';
+import {
+  buildLicensingRows,
+  getQuarterRange,
+  summarizeByWork,
+  type LicensingReportEvent,
+  type LicensingReportRow,
+  type LicensingWorkSummary,
+} from '@/lib/utils/licensingReport';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type RepertoireWorkInput = Partial<Omit<RepertoireWork, 'id'>> & { title: string };
+
+export interface LicensingReport {
+  quarter: string;
+  from: string;
+  to: string;
+  events: number;
+  rows: LicensingReportRow[];
+  works: LicensingWorkSummary[];
+}
+
+// Orders whose kept items still count (same as Minicard access)
+const COUNTED_PAYMENT_STATUSES = new Set(['paid', 'partially_refunded']);
+
+function toFields(input: Partial<RepertoireWorkInput>): Airtable.FieldSet {
+  const fields: Airtable.FieldSet = {};
+  if (input.title !== undefined) fields[REPERTOIRE_FIELD_IDS.title] = input.title.trim();
+  if (input.alternativeTitles !== undefined) {
+    fields[REPERTOIRE_FIELD_IDS.alternative_titles] = input.alternativeTitles.map((t) => t.trim()).filter(Boolean).join('\n');
+  }
+  if (input.composer !== undefined) fields[REPERTOIRE_FIELD_IDS.composer] = input.composer;
+  if (input.lyricist !== undefined) fields[REPERTOIRE_FIELD_IDS.lyricist] = input.lyricist;
+  if (input.publisher !== undefined) fields[REPERTOIRE_FIELD_IDS.publisher] = input.publisher;
+  if (input.gemaWorkNumber !== undefined) fields[REPERTOIRE_FIELD_IDS.gema_work_number] = input.gemaWorkNumber;
+  if (input.licensingStatus !== undefined) fields[REPERTOIRE_FIELD_IDS.licensing_status] = input.licensingStatus;
+  if (input.notes !== undefined) fields[REPERTOIRE_FIELD_IDS.notes] = input.notes;
+  return fields;
+}
+
+// ---------------------------------------------------------------------------
+// Service
+// ---------------------------------------------------------------------------
+
+class RepertoireService {
+  private airtable = getAirtableService();
+
+  private get table() {
+    return this.airtable.getBase()(REPERTOIRE_TABLE_ID);
+  }
+
+  private transformRecord(record: Airtable.Record<Airtable.FieldSet>): RepertoireWork {
+    const alternativeTitles = (record.get(REPERTOIRE_FIELD_IDS.alternative_titles) as string) || '';
+    return {
+      id: record.id,
+      title: (record.get(REPERTOIRE_FIELD_IDS.title) as string) || '',
+      alternativeTitles: alternativeTitles.split('\n').map((t) => t.trim()).filter(Boolean),
+      composer: (record.get(REPERTOIRE_FIELD_IDS.composer) as string) || undefined,
+      lyricist: (record.get(REPERTOIRE_FIELD_IDS.lyricist) as string) || undefined,
+      publisher: (record.get(REPERTOIRE_FIELD_IDS.publisher) as string) || undefined,
+      gemaWorkNumber: (record.get(REPERTOIRE_FIELD_IDS.gema_work_number) as string) || undefined,
+      licensingStatus: (record.get(REPERTOIRE_FIELD_IDS.licensing_status) as LicensingStatus) || 'unclear',
+      notes: (record.get(REPERTOIRE_FIELD_IDS.notes) as string) || undefined,
+    };
+  }
+
+  // ========================================
+  // Catalogue
+  // ========================================
+
+  /**
+   * All works, by title
+   */
+  async listWorks(): Promise<RepertoireWork[]> {
+    const records = await this.table.select({ returnFieldsByFieldId: true }).all();
+    return records.map((record) => this.transformRecord(record)).sort((a, b) => a.title.localeCompare(b.title, 'de'));
+  }
+
+  async createWork(input: RepertoireWorkInput): Promise<RepertoireWork> {
+    const record = await this.table.create(toFields({ licensingStatus: 'unclear', ...input }));
+    return this.transformRecord(record);
+  }
+
+  async updateWork(workId: string, input: Partial<RepertoireWorkInput>): Promise<RepertoireWork> {
+    const record = await this.table.update(workId, toFields(input));
+    return this.transformRecord(record);
+  }
+
+  /**
+   * Confirm (or with null, clear) the work a song is a recording of
+   */
+  async linkSong(songId: string, workId: string | null): Promise<void> {
+    await getRepositories().songs.update(songId, {
+      [SONGS_LINKED_FIELD_IDS.repertoire_work]: workId ? [workId] : [],
+    });
+  }
+
+  // ========================================
+  // Quarterly report
+  // ========================================
+
+  /**
+   * Every work pressed or downloaded for events dated in the quarter
+   * ("YYYY-Qn"), per event and totalled per work
+   */
+  async buildQuarterlyReport(quarter: string): Promise<LicensingReport> {
+    const range = getQuarterRange(quarter);
+    if (!range) {
+      throw new Error(`Invalid quarter "${quarter}", expected e.g. 2026-Q3`);
+    }
+
+    const repositories = getRepositories();
+    const [eventRecords, works, orders, linkedSongs] = await Promise.all([
+      repositories.events.listBetween(range.from, range.to),
+      this.listWorks(),
+      repositories.orders.list(),
+      repositories.songs.list({
+        filterByFormula: `{${SONGS_LINKED_FIELD_IDS.repertoire_work}} != ''`,
+        fields: [SONGS_LINKED_FIELD_IDS.repertoire_work],
+      }),
+    ]);
+
+    const ordersByEventRecordId = new Map<string, StoredRecord[]>();
+    for (const order of orders) {
+      for (const eventRecordId of (order.get(ORDERS_FIELD_IDS.event_id) as string[] | undefined) || []) {
+        ordersByEventRecordId.set(eventRecordId, [...(ordersByEventRecordId.get(eventRecordId) || []), order]);
+      }
+    }
+
+    const workIdBySongId = new Map<string, string>();
+    for (const song of linkedSongs) {
+      const [workId] = (song.get(SONGS_LINKED_FIELD_IDS.repertoire_work) as string[] | undefined) || [];
+      if (workId) workIdBySongId.set(song.id, workId);
+    }
+
+    const activeEvents = eventRecords.filter(
+      (record) => record.get(EVENTS_FIELD_IDS.status) !== 'Cancelled' && record.get(EVENTS_FIELD_IDS.event_id)
+    );
+
+    const events: LicensingReportEvent[] = [];
+    for (const record of activeEvents) {
+      events.push(await this.loadReportEvent(record, ordersByEventRecordId.get(record.id) || [], workIdBySongId));
+    }
+
+    const rows = buildLicensingRows(events, works);
+    return {
+      ...range,
+      events: new Set(rows.map((row) => row.eventId)).size,
+      rows,
+      works: summarizeByWork(rows),
+    };
+  }
+
+  private async loadReportEvent(
+    record: StoredRecord,
+    eventOrders: StoredRecord[],
+    workIdBySongId: Map<string, string>
+  ): Promise<LicensingReportEvent> {
+    const eventId = record.get(EVENTS_FIELD_IDS.event_id) as string;
+
+    const [cdQuantity, downloadQuantity, albumTracks] = await Promise.all([
+      getTaskService().getCdQuantityForEvent(record.id, eventOrders),
+      record.get(EVENTS_FIELD_IDS.audio_free_without_purchase) === true
+        ? getRepositories().registrations.listForEvent(eventId).then((registrations) => registrations.length)
+        : Promise.resolve(this.countDownloads(eventOrders)),
+      getTeacherService().getAlbumTracksData(eventId),
+    ]);
+
+    return {
+      eventId,
+      schoolName: (record.get(EVENTS_FIELD_IDS.school_name) as string) || '',
+      eventDate: (record.get(EVENTS_FIELD_IDS.event_date) as string) || '',
+      cdQuantity,
+      downloadQuantity,
+      tracks: albumTracks.map((track) => ({
+        songId: track.songId,
+        songTitle: track.songTitle,
+        className: track.isSchulsong ? undefined : track.className,
+        trackNumber: track.albumOrder,
+        isSchulsong: track.isSchulsong,
+        confirmedWorkId: workIdBySongId.get(track.songId),
+      })),
+    };
+  }
+
+  /**
+   * Minicards (download access) kept after refunds
+   */
+  private countDownloads(eventOrders: StoredRecord[]): number {
+    let downloads = 0;
+    for (const order of eventOrders) {
+      if (!COUNTED_PAYMENT_STATUSES.has(order.get(ORDERS_FIELD_IDS.payment_status) as string)) continue;
+      for (const item of getNetOrderLineItems(order)) {
+        if (isMinicardLineItem(item)) downloads += item.quantity;
+      }
+    }
+    return downloads;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Singleton
+// ---------------------------------------------------------------------------
+
+let repertoireServiceInstance: RepertoireService | null = null;
+
+export function getRepertoireService(): RepertoireService {
+  if (!repertoireServiceInstance) {
+    repertoireServiceInstance = new RepertoireService();
+  }
+  return repertoireServiceInstance;
+}
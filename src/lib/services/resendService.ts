@@ -3,13 +3,13 @@
  * Handles teacher magic link emails and admin notification emails via Resend
  */
 
-import { Resend } from 'resend';
 import {
   BookingNotificationData,
   DateChangeNotificationData,
   CancellationNotificationData,
   UnassignedStaffNotificationData,
   SchoolInfoChangedNotificationData,
+  SizeExchangeNotificationData,
 } from '@/lib/types/notification-settings';
 import {
   getTriggerTemplate,
@@ -18,8 +18,11 @@ import {
 } from './triggerTemplateService';
 import { getCampaignEmailTemplate, EmailTemplateOptions } from './emailTemplateWrapper';
 import { generateUnsubscribeUrl } from '@/lib/utils/unsubscribe';
+import { sanitizeString } from '@/lib/utils/validators';
 import { getActivityService } from '@/lib/services/activityService';
+import { sendEmail, isOutboxMessageId } from './emailTransport';
 import type { RegistrationShortfallSlug } from './registrationShortfall';
+import type { EmailAttachment } from '@/lib/types/email';
 
 interface SendEmailResult {
   success: boolean;
@@ -31,19 +34,6 @@ export interface CampaignEmailOptions extends EmailTemplateOptions {
   headers?: Record<string, string>;
 }
 
-// Lazy-initialize Resend client to avoid build-time errors
-let resendInstance: Resend | null = null;
-
-function getResendClient(): Resend {
-  if (!resendInstance) {
-    resendInstance = new Resend(process.env.RESEND_API_KEY);
-  }
-  return resendInstance;
-}
-
-const FROM_EMAIL = process.env.RESEND_FROM_EMAIL || 'noreply@minimusiker.app';
-const FROM_NAME = 'Minimusiker';
-
 /**
  * Send a generic campaign email
  */
@@ -56,40 +46,12 @@ export async function sendCampaignEmail(
   // Wrap the HTML in the branded template
   const wrappedHtml = getCampaignEmailTemplate(html, options);
 
-  // Development fallback - log instead of sending
-  if (!process.env.RESEND_API_KEY) {
-    console.log('========================================');
-    console.log('CAMPAIGN EMAIL (Resend not configured):');
-    console.log('To:', to);
-    console.log('Subject:', subject);
-    console.log('HTML length:', wrappedHtml.length);
-    console.log('========================================');
-    return { success: true, messageId: 'dev-mode' };
-  }
-
-  try {
-    const resend = getResendClient();
-    const { data, error } = await resend.emails.send({
-      from: `${FROM_NAME} <${FROM_EMAIL}>`,
-      to,
-      subject,
-      html: wrappedHtml,
-      headers: options?.headers,
-    });
-
-    if (error) {
-      console.error('Resend campaign email error:', error);
-      return { success: false, error: error.message };
-    }
-
-    return { success: true, messageId: data?.id };
-  } catch (error) {
-    console.error('Resend campaign email error:', error);
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : 'Unknown email error',
-    };
-  }
+  return sendEmail({
+    to,
+    subject,
+    html: wrappedHtml,
+    headers: options?.headers,
+  });
 }
 
 // ============================================================================
@@ -114,14 +76,14 @@ function formatDateGerman(dateString: string): string {
 }
 
 /**
- * Internal helper: render trigger template and send via Resend.
+ * Internal helper: render trigger template and send via the email transport.
  */
 async function sendTriggerEmail(
   to: string | string[],
   slug: string,
   variables: Record<string, string>,
   logLabel: string,
-  options?: { parentEmail?: string; eventRecordId?: string },
+  options?: { parentEmail?: string; eventRecordId?: string; attachments?: EmailAttachment[] },
 ): Promise<SendEmailResult> {
   const trigger = await getTriggerTemplate(slug);
   if (!trigger.active) return { success: true, messageId: 'disabled' };
@@ -143,48 +105,28 @@ async function sendTriggerEmail(
       }
     : undefined;
 
-  if (!process.env.RESEND_API_KEY) {
-    console.log(`[${logLabel}] (dev) To: ${Array.isArray(to) ? to.join(', ') : to}, Subject: ${subject}`);
-    return { success: true, messageId: 'dev-mode' };
+  const result = await sendEmail({ to, subject, html, headers, attachments: options?.attachments });
+  if (!result.success) {
+    console.error(`Resend ${logLabel} error:`, result.error);
+    return result;
   }
-
-  try {
-    const resend = getResendClient();
-    const { data, error } = await resend.emails.send({
-      from: `${FROM_NAME} <${FROM_EMAIL}>`,
-      to,
-      subject,
-      html,
-      headers,
+  if (isOutboxMessageId(result.messageId)) return result;
+
+  console.log(`[Notification] ${logLabel} sent to ${Array.isArray(to) ? to.length + ' recipients' : to}`);
+
+  // Log email_sent activity (fire-and-forget)
+  if (options?.eventRecordId) {
+    getActivityService().logActivity({
+      eventRecordId: options.eventRecordId,
+      activityType: 'email_sent',
+      description: `${logLabel} sent to ${Array.isArray(to) ? to.join(', ') : to}`,
+      actorEmail: 'system@minimusiker.de',
+      actorType: 'system',
+      metadata: { slug, recipient: Array.isArray(to) ? to.join(', ') : to },
     });
-
-    if (error) {
-      console.error(`Resend ${logLabel} error:`, error);
-      return { success: false, error: error.message };
-    }
-
-    console.log(`[Notification] ${logLabel} sent to ${Array.isArray(to) ? to.length + ' recipients' : to}`);
-
-    // Log email_sent activity (fire-and-forget)
-    if (options?.eventRecordId) {
-      getActivityService().logActivity({
-        eventRecordId: options.eventRecordId,
-        activityType: 'email_sent',
-        description: `${logLabel} sent to ${Array.isArray(to) ? to.join(', ') : to}`,
-        actorEmail: 'system@minimusiker.de',
-        actorType: 'system',
-        metadata: { slug, recipient: Array.isArray(to) ? to.join(', ') : to },
-      });
-    }
-
-    return { success: true, messageId: data?.id };
-  } catch (error) {
-    console.error(`Resend ${logLabel} error:`, error);
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : 'Unknown email error',
-    };
   }
+
+  return result;
 }
 
 // ============================================================================
@@ -205,6 +147,36 @@ export async function sendTeacherMagicLinkEmail(
   }, 'Teacher magic link');
 }
 
+/**
+ * Send magic link email to parent for passwordless familie-portal login
+ */
+export async function sendParentMagicLinkEmail(
+  email: string,
+  name: string,
+  magicLinkUrl: string
+): Promise<SendEmailResult> {
+  return sendTriggerEmail(email, 'parent_magic_link', {
+    parentName: name,
+    magicLinkUrl,
+  }, 'Parent magic link');
+}
+
+/**
+ * Send set/reset password link to a Personen account (admin, staff, engineer)
+ */
+export async function sendStaffPasswordResetEmail(
+  email: string,
+  name: string,
+  resetUrl: string,
+  isFirstPassword: boolean
+): Promise<SendEmailResult> {
+  return sendTriggerEmail(email, 'staff_password_reset', {
+    staffName: name,
+    resetUrl,
+    actionText: isFirstPassword ? 'festlegen' : 'zurücksetzen',
+  }, 'Staff password reset');
+}
+
 /**
  * Send new booking notification to configured recipients
  */
@@ -289,6 +261,26 @@ export async function sendSchoolInfoChangedNotification(
   }, 'School info changed notification');
 }
 
+/**
+ * Send size exchange request notification to admin recipients
+ */
+export async function sendSizeExchangeRequestNotification(
+  recipients: string[],
+  data: SizeExchangeNotificationData
+): Promise<SendEmailResult> {
+  if (recipients.length === 0) return { success: true, messageId: 'no-recipients' };
+
+  return sendTriggerEmail(recipients, 'size_exchange_request', {
+    orderNumber: data.orderNumber,
+    schoolName: data.schoolName || 'Nicht angegeben',
+    productTitle: data.productTitle,
+    currentSize: data.currentSize,
+    requestedSize: data.requestedSize,
+    // Free text from the parent
+    note: data.note ? sanitizeString(data.note) : '-',
+  }, 'Size exchange request notification');
+}
+
 /**
  * Send staff event reminder (7 days before event)
  */
@@ -323,6 +315,91 @@ export async function sendStaffEventReminderEmail(
   }, 'Staff event reminder');
 }
 
+/**
+ * Send a staff member their due and overdue lead follow-ups (daily)
+ */
+export interface LeadFollowUpDigestData {
+  staffName: string;
+  count: number;
+  overdueCount: number;
+  leadListHtml: string;
+  leadsUrl: string;
+}
+
+export async function sendLeadFollowUpDigestEmail(
+  email: string,
+  data: LeadFollowUpDigestData
+): Promise<SendEmailResult> {
+  return sendTriggerEmail(email, 'staff_lead_follow_ups', {
+    staffName: data.staffName,
+    count: String(data.count),
+    overdueCount: String(data.overdueCount),
+    leadListHtml: data.leadListHtml,
+    leadsUrl: data.leadsUrl,
+  }, 'Lead follow-up digest');
+}
+
+/**
+ * Send an offer (Angebot) PDF to a lead or booking contact
+ */
+export interface OfferEmailData {
+  contactPerson: string;
+  schoolName: string;
+  offerNumber: string;
+  total: string;
+  validUntil: string;
+  staffName: string;
+}
+
+export async function sendOfferEmail(
+  email: string,
+  data: OfferEmailData,
+  pdf: EmailAttachment
+): Promise<SendEmailResult> {
+  return sendTriggerEmail(email, 'lead_offer', {
+    contactPerson: data.contactPerson,
+    schoolName: data.schoolName,
+    offerNumber: data.offerNumber,
+    total: data.total,
+    validUntil: formatDateGerman(data.validUntil),
+    staffName: data.staffName,
+  }, 'Offer', { attachments: [pdf] });
+}
+
+/**
+ * Send an invoice, Storno or payment reminder with the invoice PDF attached.
+ * The slug picks the template (school_invoice, school_invoice_storno,
+ * school_invoice_reminder, school_invoice_dunning).
+ */
+export interface InvoiceEmailData {
+  contactPerson: string;
+  schoolName: string;
+  invoiceNumber: string;
+  total: string;
+  dueDate?: string;
+  eventDate?: string;
+  cancelledInvoiceNumber?: string;
+  daysOverdue?: number;
+}
+
+export async function sendInvoiceEmail(
+  email: string,
+  slug: string,
+  data: InvoiceEmailData,
+  pdf: EmailAttachment
+): Promise<SendEmailResult> {
+  return sendTriggerEmail(email, slug, {
+    contactPerson: data.contactPerson,
+    schoolName: data.schoolName,
+    invoiceNumber: data.invoiceNumber,
+    total: data.total,
+    dueDate: data.dueDate ? formatDateGerman(data.dueDate) : '',
+    eventDate: data.eventDate ? formatDateGerman(data.eventDate) : '',
+    cancelledInvoiceNumber: data.cancelledInvoiceNumber || '',
+    daysOverdue: data.daysOverdue !== undefined ? String(data.daysOverdue) : '',
+  }, 'Invoice', { attachments: [pdf] });
+}
+
 export interface RegistrationShortfallData {
   teacherName: string;
   schoolName: string;
@@ -6,7 +6,6 @@
  * - Cron auto-fire (fires at scheduled release time)
  */
 
-import { Resend } from 'resend';
 import { getAirtableService } from '@/lib/services/airtableService';
 import { getTeacherRecipientsForEvent, getParentRecipientsForEvent, sleep } from '@/lib/services/emailAutomationService';
 import {
@@ -16,12 +15,11 @@ import {
 } from '@/lib/services/triggerTemplateService';
 import { getRegistryEntry } from '@/lib/config/trigger-email-registry';
 import { generateUnsubscribeUrl } from '@/lib/utils/unsubscribe';
+import { sendEmail } from '@/lib/services/emailTransport';
 import { EventThresholdMatch, CreateEmailLogInput } from '@/lib/types/email-automation';
 import { parseOverrides, getThreshold, EventTimelineOverrides } from '@/lib/utils/eventThresholds';
 
 const SLUG = 'schulsong_audio_release';
-const FROM_EMAIL = process.env.RESEND_FROM_EMAIL || 'noreply@minimusiker.app';
-const FROM_NAME = 'Minimusiker';
 const RATE_LIMIT_DELAY_MS = 500;
 
 /**
@@ -99,29 +97,12 @@ export async function sendSchulsongReleaseEmailForEvent(
     let errorMessage: string | undefined;
     let resendMessageId: string | undefined;
 
-    if (!process.env.RESEND_API_KEY) {
-      console.log(`[SchulsongEmail] (dev) To: ${recipient.email}, Subject: ${subject}`);
-      resendMessageId = 'dev-mode';
+    const result = await sendEmail({ to: recipient.email, subject, html });
+    if (result.success) {
+      resendMessageId = result.messageId;
     } else {
-      try {
-        const resend = new Resend(process.env.RESEND_API_KEY);
-        const { data, error } = await resend.emails.send({
-          from: `${FROM_NAME} <${FROM_EMAIL}>`,
-          to: recipient.email,
-          subject,
-          html,
-        });
-
-        if (error) {
-          sendStatus = 'failed';
-          errorMessage = error.message;
-        } else {
-          resendMessageId = data?.id;
-        }
-      } catch (err) {
-        sendStatus = 'failed';
-        errorMessage = err instanceof Error ? err.message : 'Unknown error';
-      }
+      sendStatus = 'failed';
+      errorMessage = result.error;
     }
 
     // Log to EMAIL_LOGS
@@ -221,7 +202,7 @@ export async function sendSchulsongParentReleaseEmailForEvent(
     isUnder100: event.is_under_100,
   };
 
-  const recipients = await getParentRecipientsForEvent(event.event_id, event.id, eventData);
+  const recipients = await getParentRecipientsForEvent(event.event_id, event.id, eventData, 'schulsong_release');
 
   // Build template variables
   const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'https://minimusiker.app';
@@ -267,33 +248,20 @@ export async function sendSchulsongParentReleaseEmailForEvent(
     let errorMessage: string | undefined;
     let resendMessageId: string | undefined;
 
-    if (!process.env.RESEND_API_KEY) {
-      console.log(`[SchulsongParentEmail] (dev) To: ${recipient.email}, Subject: ${subject}`);
-      resendMessageId = 'dev-mode';
+    const result = await sendEmail({
+      to: recipient.email,
+      subject,
+      html,
+      headers: {
+        'List-Unsubscribe': `<${unsubscribeUrl}>`,
+        'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+      },
+    });
+    if (result.success) {
+      resendMessageId = result.messageId;
     } else {
-      try {
-        const resend = new Resend(process.env.RESEND_API_KEY);
-        const { data, error } = await resend.emails.send({
-          from: `${FROM_NAME} <${FROM_EMAIL}>`,
-          to: recipient.email,
-          subject,
-          html,
-          headers: {
-            'List-Unsubscribe': `<${unsubscribeUrl}>`,
-            'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
-          },
-        });
-
-        if (error) {
-          sendStatus = 'failed';
-          errorMessage = error.message;
-        } else {
-          resendMessageId = data?.id;
-        }
-      } catch (err) {
-        sendStatus = 'failed';
-        errorMessage = err instanceof Error ? err.message : 'Unknown error';
-      }
+      sendStatus = 'failed';
+      errorMessage = result.error;
     }
 
     // Log to EMAIL_LOGS
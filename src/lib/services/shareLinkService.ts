@@ -0,0 +1,430 @@
+// src/lib/services/shareLinkService.ts
+
+/**
+ * Share Link Service
+ *
+ * Family share links: a parent who can download an event's recordings
+ * creates a time-limited link for relatives (/teilen/{token}) instead of
+ * forwarding MP3s or their login. A link is scoped to one event, expires,
+ * allows a fixed number of plays and downloads, and can be revoked.
+ *
+ * Every listing and play re-runs the parent audio gate for the link's
+ * creator (resolveAudioRelease, resolveAudioFreeForAll / Minicard,
+ * shouldEmitDownloads), so a link stops working as soon as the audio is
+ * hidden or the Minicard refunded. Only final, ready, non-schulsong tracks of
+ * visible songs are listed, and only listed tracks are ever signed.
+ *
+ * Counts are read-modify-write on the ShareLinks row, so two plays in the
+ * same instant may count once - good enough for a family link.
+ */
+
+import Airtable from 'airtable';
+import { getAirtableService } from './airtableService';
+import { getTeacherService } from './teacherService';
+import { getR2Service } from './r2Service';
+import { getRepositories } from '@/lib/repositories';
+import { escapeFormulaString } from '@/lib/repositories/formula';
+import {
+  CLASSES_FIELD_IDS,
+  SHARE_LINKS_FIELD_IDS,
+  SHARE_LINKS_TABLE_ID,
+  type Event,
+  type ShareLink,
+  type ShareLinkStatus,
+} from '@/lib/types/airtable';
+import type { AudioFile, Song } from '@/lib/types/teacher';
+import { resolveAudioFreeForAll, resolveAudioRelease, shouldEmitDownloads } from '@/lib/utils/audioAccessGate';
+import { hasMinicardForEvent } from '@/lib/utils/minicardAccess';
+import {
+  MAX_ACTIVE_SHARE_LINKS,
+  SHARE_LINK_PLAY_LIMITS,
+  SHARE_LINK_VALIDITY_DAYS,
+  createShareToken,
+  generateShareUrl,
+  getRemainingPlays,
+  getShareLinkStatus,
+  verifyShareToken,
+} from '@/lib/utils/shareLinks';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface ShareLinkView extends ShareLink {
+  status: ShareLinkStatus;
+  remainingPlays: number;
+  url?: string; // Only while active
+}
+
+export interface CreateShareLinkInput {
+  eventId: string;
+  classId?: string;
+  label: string;
+  validityDays: number;
+  maxPlays: number;
+}
+
+export interface ShareTrack {
+  audioFileId: string;
+  title: string;
+  artist?: string;
+  sectionName: string;
+  order: number;
+  durationSeconds?: number;
+}
+
+type ShareLinkDenied = { status: 'invalid' | 'expired' | 'exhausted' | 'revoked' | 'unavailable' };
+
+export type ShareLinkAccess =
+  | {
+      status: 'active';
+      label: string;
+      schoolName: string;
+      expiresAt: string;
+      remainingPlays: number;
+      tracks: ShareTrack[];
+    }
+  | ShareLinkDenied;
+
+export type ShareLinkPlayResult =
+  | { status: 'active'; url: string; remainingPlays: number }
+  | ShareLinkDenied
+  | { status: 'not_found' };
+
+interface ResolvedTrack {
+  track: ShareTrack;
+  audioFile: AudioFile;
+}
+
+// Signed audio URLs handed out per play
+const STREAM_URL_TTL_SECONDS = 600;
+const LABEL_MAX_LENGTH = 60;
+
+// ---------------------------------------------------------------------------
+// Service
+// ---------------------------------------------------------------------------
+
+class ShareLinkService {
+  private airtable = getAirtableService();
+
+  private get table() {
+    return this.airtable.getBase()(SHARE_LINKS_TABLE_ID);
+  }
+
+  private transformRecord(record: Airtable.Record<Airtable.FieldSet>): ShareLink {
+    const [parentId] = (record.get(SHARE_LINKS_FIELD_IDS.parent) as string[] | undefined) || [];
+    return {
+      id: record.id,
+      label: (record.get(SHARE_LINKS_FIELD_IDS.label) as string) || '',
+      parentId: parentId || '',
+      eventId: (record.get(SHARE_LINKS_FIELD_IDS.event_id) as string) || '',
+      classId: (record.get(SHARE_LINKS_FIELD_IDS.class_id) as string) || undefined,
+      expiresAt: record.get(SHARE_LINKS_FIELD_IDS.expires_at) as string,
+      maxPlays: (record.get(SHARE_LINKS_FIELD_IDS.max_plays) as number) || 0,
+      playCount: (record.get(SHARE_LINKS_FIELD_IDS.play_count) as number) || 0,
+      downloadCount: (record.get(SHARE_LINKS_FIELD_IDS.download_count) as number) || 0,
+      lastPlayedAt: (record.get(SHARE_LINKS_FIELD_IDS.last_played_at) as string) || undefined,
+      revokedAt: (record.get(SHARE_LINKS_FIELD_IDS.revoked_at) as string) || undefined,
+      createdAt: record.get(SHARE_LINKS_FIELD_IDS.created_at) as string,
+    };
+  }
+
+  private toView(link: ShareLink, now: Date = new Date()): ShareLinkView {
+    const status = getShareLinkStatus(link, now);
+    return {
+      ...link,
+      status,
+      remainingPlays: getRemainingPlays(link),
+      url:
+        status === 'active'
+          ? generateShareUrl(createShareToken({ linkId: link.id, eventId: link.eventId, expiresAt: link.expiresAt }))
+          : undefined,
+    };
+  }
+
+  /**
+   * (table.find() returns field names, not IDs)
+   */
+  private async findLink(linkId: string): Promise<ShareLink | null> {
+    const records = await this.table
+      .select({
+        filterByFormula: `RECORD_ID() = '${escapeFormulaString(linkId)}'`,
+        returnFieldsByFieldId: true,
+        maxRecords: 1,
+      })
+      .firstPage();
+    return records[0] ? this.transformRecord(records[0]) : null;
+  }
+
+  // ========================================
+  // Parent portal
+  // ========================================
+
+  /**
+   * The parent's links for an event, newest first. Parent portal methods
+   * take the Parents record ID (resolved from the session's parent ID by
+   * the route), which is what the link's parent field holds.
+   */
+  async listForParent(parentRecordId: string, eventId: string): Promise<ShareLinkView[]> {
+    const records = await this.table
+      .select({
+        filterByFormula: `{${SHARE_LINKS_FIELD_IDS.event_id}} = '${escapeFormulaString(eventId)}'`,
+        returnFieldsByFieldId: true,
+      })
+      .all();
+
+    const now = new Date();
+    return records
+      .map((record) => this.transformRecord(record))
+      .filter((link) => link.parentId === parentRecordId)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .map((link) => this.toView(link, now));
+  }
+
+  /**
+   * Can the parent share this event's recordings right now?
+   */
+  async canShare(parentRecordId: string, eventId: string): Promise<boolean> {
+    return (await this.getShareableEvent(parentRecordId, eventId)) !== null;
+  }
+
+  async createLink(parentRecordId: string, input: CreateShareLinkInput): Promise<ShareLinkView> {
+    const label = input.label.trim().slice(0, LABEL_MAX_LENGTH);
+    if (!label) {
+      throw new Error('label is required');
+    }
+    if (!(SHARE_LINK_VALIDITY_DAYS as readonly number[]).includes(input.validityDays)) {
+      throw new Error(`validityDays must be one of ${SHARE_LINK_VALIDITY_DAYS.join(', ')}`);
+    }
+    if (!(SHARE_LINK_PLAY_LIMITS as readonly number[]).includes(input.maxPlays)) {
+      throw new Error(`maxPlays must be one of ${SHARE_LINK_PLAY_LIMITS.join(', ')}`);
+    }
+
+    if (!(await this.canShare(parentRecordId, input.eventId))) {
+      throw new Error('Recordings of this event cannot be shared yet');
+    }
+
+    const existing = await this.listForParent(parentRecordId, input.eventId);
+    if (existing.filter((link) => link.status === 'active').length >= MAX_ACTIVE_SHARE_LINKS) {
+      throw new Error(`At most ${MAX_ACTIVE_SHARE_LINKS} active links per event`);
+    }
+
+    // Whole minutes, so the expiry signed into the token survives the round
+    // trip through the Airtable date field
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + input.validityDays * 24 * 60 * 60 * 1000);
+    expiresAt.setUTCSeconds(0, 0);
+
+    const link: Omit<ShareLink, 'id'> = {
+      label,
+      parentId: parentRecordId,
+      eventId: input.eventId,
+      classId: input.classId,
+      expiresAt: expiresAt.toISOString(),
+      maxPlays: input.maxPlays,
+      playCount: 0,
+      downloadCount: 0,
+      createdAt: now.toISOString(),
+    };
+    const record = await this.table.create({
+      [SHARE_LINKS_FIELD_IDS.label]: link.label,
+      [SHARE_LINKS_FIELD_IDS.parent]: [parentRecordId],
+      [SHARE_LINKS_FIELD_IDS.event_id]: link.eventId,
+      ...(link.classId && { [SHARE_LINKS_FIELD_IDS.class_id]: link.classId }),
+      [SHARE_LINKS_FIELD_IDS.expires_at]: link.expiresAt,
+      [SHARE_LINKS_FIELD_IDS.max_plays]: link.maxPlays,
+      [SHARE_LINKS_FIELD_IDS.play_count]: 0,
+      [SHARE_LINKS_FIELD_IDS.download_count]: 0,
+      [SHARE_LINKS_FIELD_IDS.created_at]: link.createdAt,
+    });
+
+    return this.toView({ id: record.id, ...link }, now);
+  }
+
+  /**
+   * Revoke one of the parent's links. Null when the link is not theirs.
+   */
+  async revokeLink(parentRecordId: string, linkId: string): Promise<ShareLinkView | null> {
+    const link = await this.findLink(linkId);
+    if (!link || link.parentId !== parentRecordId) return null;
+    if (link.revokedAt) return this.toView(link);
+
+    const revokedAt = new Date().toISOString();
+    await this.table.update(linkId, { [SHARE_LINKS_FIELD_IDS.revoked_at]: revokedAt });
+    return this.toView({ ...link, revokedAt });
+  }
+
+  // ========================================
+  // Public access (/teilen/{token})
+  // ========================================
+
+  /**
+   * What the share page shows: the tracks, never their URLs
+   */
+  async resolve(token: string): Promise<ShareLinkAccess> {
+    const checked = await this.checkToken(token);
+    if ('denied' in checked) return checked.denied;
+
+    const { link, event } = checked;
+    const tracks = await this.loadTracks(link.eventId, link.classId);
+    return {
+      status: 'active',
+      label: link.label,
+      schoolName: event.school_name,
+      expiresAt: link.expiresAt,
+      remainingPlays: getRemainingPlays(link),
+      tracks: tracks.map(({ track }) => track),
+    };
+  }
+
+  /**
+   * Count a play (or download) through the link and sign a short-lived URL
+   * for one of its tracks
+   */
+  async play(token: string, audioFileId: string, download = false): Promise<ShareLinkPlayResult> {
+    const checked = await this.checkToken(token);
+    if ('denied' in checked) return checked.denied;
+
+    const { link } = checked;
+    const resolved = (await this.loadTracks(link.eventId, link.classId)).find(
+      (entry) => entry.track.audioFileId === audioFileId
+    );
+    if (!resolved) return { status: 'not_found' };
+
+    const { track, audioFile } = resolved;
+    const r2 = getR2Service();
+    const key = await r2.resolveAudioFileKey(audioFile, link.eventId, audioFile.classId);
+    if (!key) return { status: 'not_found' };
+
+    const url = download
+      ? await r2.generateSignedUrl(key, STREAM_URL_TTL_SECONDS, `${track.title} - ${track.sectionName}.mp3`)
+      : await r2.generateSignedUrl(key, STREAM_URL_TTL_SECONDS);
+
+    const counted = download
+      ? { ...link, downloadCount: link.downloadCount + 1 }
+      : { ...link, playCount: link.playCount + 1 };
+    await this.table.update(link.id, {
+      [SHARE_LINKS_FIELD_IDS.play_count]: counted.playCount,
+      [SHARE_LINKS_FIELD_IDS.download_count]: counted.downloadCount,
+      [SHARE_LINKS_FIELD_IDS.last_played_at]: new Date().toISOString(),
+    });
+
+    return { status: 'active', url, remainingPlays: getRemainingPlays(counted) };
+  }
+
+  // ========================================
+  // Gate
+  // ========================================
+
+  /**
+   * The link behind a token, if it is active and its event still passes the
+   * audio gate for the link's creator
+   */
+  private async checkToken(
+    token: string
+  ): Promise<{ link: ShareLink; event: Event } | { denied: ShareLinkDenied }> {
+    const payload = verifyShareToken(token);
+    if (!payload) return { denied: { status: 'invalid' } };
+
+    const link = await this.findLink(payload.linkId);
+    if (
+      !link ||
+      link.eventId !== payload.eventId ||
+      new Date(link.expiresAt).getTime() !== new Date(payload.expiresAt).getTime()
+    ) {
+      return { denied: { status: 'invalid' } };
+    }
+
+    const status = getShareLinkStatus(link);
+    if (status !== 'active') return { denied: { status } };
+
+    const event = await this.getShareableEvent(link.parentId, link.eventId);
+    if (!event) return { denied: { status: 'unavailable' } };
+
+    return { link, event };
+  }
+
+  /**
+   * The event when its audio is released and the parent may download it -
+   * the same decision the parent audio-access route makes
+   */
+  private async getShareableEvent(parentRecordId: string, eventId: string): Promise<Event | null> {
+    const event = await this.airtable.getEventByEventId(eventId);
+    if (!event) return null;
+
+    const { isReleased } = resolveAudioRelease(event);
+    const audioFreeForAll = resolveAudioFreeForAll(event);
+    const hasMinicard = audioFreeForAll || await hasMinicardForEvent(parentRecordId, eventId);
+
+    return shouldEmitDownloads(audioFreeForAll, hasMinicard, isReleased) ? event : null;
+  }
+
+  /**
+   * Final, ready, non-schulsong tracks of visible songs (newest file per
+   * song), the creator's class first
+   */
+  private async loadTracks(eventId: string, firstClassId?: string): Promise<ResolvedTrack[]> {
+    const teacherService = getTeacherService();
+    const [songs, audioFiles, classes, groups] = await Promise.all([
+      teacherService.getSongsByEventId(eventId, { excludeHidden: true }),
+      teacherService.getAudioFilesByEventId(eventId),
+      getRepositories().classes.listForEvent(eventId),
+      teacherService.getGroupsByEventId(eventId).catch(() => []),
+    ]);
+
+    const songMap = new Map<string, Song>(songs.map((song) => [song.id, song]));
+    const sectionNames = new Map<string, string>();
+    for (const cls of classes) {
+      sectionNames.set(cls.get(CLASSES_FIELD_IDS.class_id) as string, (cls.get(CLASSES_FIELD_IDS.class_name) as string) || '');
+    }
+    for (const group of groups) {
+      sectionNames.set(group.groupId, group.groupName);
+    }
+
+    // audioFiles is sorted by uploaded_at desc, so the first file per song wins
+    const seenSongIds = new Set<string>();
+    const tracks: ResolvedTrack[] = [];
+    for (const af of audioFiles) {
+      if (af.type !== 'final' || af.status !== 'ready' || af.isSchulsong) continue;
+      if (af.songId) {
+        // Hidden songs are missing from songMap
+        if (!songMap.has(af.songId) || seenSongIds.has(af.songId)) continue;
+        seenSongIds.add(af.songId);
+      }
+
+      const song = af.songId ? songMap.get(af.songId) : undefined;
+      const sectionName = sectionNames.get(af.classId) || '';
+      tracks.push({
+        track: {
+          audioFileId: af.id,
+          title: song?.title || sectionName,
+          artist: song?.artist,
+          sectionName,
+          order: song?.order ?? 0,
+          durationSeconds: af.durationSeconds,
+        },
+        audioFile: af,
+      });
+    }
+
+    return tracks.sort((a, b) => {
+      const aFirst = a.audioFile.classId === firstClassId;
+      const bFirst = b.audioFile.classId === firstClassId;
+      if (aFirst !== bFirst) return aFirst ? -1 : 1;
+      return a.track.sectionName.localeCompare(b.track.sectionName, 'de') || a.track.order - b.track.order;
+    });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Singleton
+// ---------------------------------------------------------------------------
+
+let shareLinkServiceInstance: ShareLinkService | null = null;
+
+export function getShareLinkService(): ShareLinkService {
+  if (!shareLinkServiceInstance) {
+    shareLinkServiceInstance = new ShareLinkService();
+  }
+  return shareLinkServiceInstance;
+}
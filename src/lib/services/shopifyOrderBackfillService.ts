@@ -0,0 +1,189 @@
+/**
+ * Shopify → Airtable order resync
+ *
+ * For every Airtable order with a Shopify GID, fetch the canonical Shopify
+ * state and overwrite the mirrored fields in Airtable. Catches up after
+ * webhook drops (refunds the orders/updated webhook missed, late
+ * cancellations, fulfillment status drift) and backfills is_test for
+ * pre-flag orders.
+ *
+ * Split into a candidate scan and per-batch resync so the
+ * 'orders.shopify_backfill' job can spread large order tables over several
+ * runs. Idempotent: only writes when Shopify and Airtable disagree.
+ */
+
+import type { FieldSet } from 'airtable';
+import { getAirtableService } from './airtableService';
+import { shopifyAdminService } from './shopifyAdminService';
+import { ORDERS_TABLE_ID, ORDERS_FIELD_IDS } from '@/lib/types/airtable';
+import {
+  diffShopifyVsAirtable,
+  type ExistingAirtableOrderFields,
+} from '@/lib/utils/shopifyOrderSync';
+
+const SHOPIFY_NODES_BATCH_SIZE = 50;
+const AIRTABLE_UPDATE_BATCH_SIZE = 10;
+
+export interface BackfillResult {
+  success: boolean;
+  dryRun: boolean;
+  totalAirtableOrders: number;
+  ordersWithGid: number;
+  ordersResolvedFromShopify: number;
+  ordersUpdated: number;
+  ordersUnchanged: number;
+  ordersMissingFromShopify: number;
+  ordersWithoutGid: number;
+  fieldChangeCounts: Record<string, number>;
+  errors: string[];
+}
+
+export interface BackfillCandidate {
+  recordId: string;
+  gid: string;
+  existing: ExistingAirtableOrderFields;
+}
+
+export interface BackfillCandidates {
+  totalAirtableOrders: number;
+  ordersWithoutGid: number;
+  /** Sorted by record ID so batch boundaries are stable between runs */
+  candidates: BackfillCandidate[];
+}
+
+export function createEmptyBackfillResult(dryRun: boolean): BackfillResult {
+  return {
+    success: true,
+    dryRun,
+    totalAirtableOrders: 0,
+    ordersWithGid: 0,
+    ordersResolvedFromShopify: 0,
+    ordersUpdated: 0,
+    ordersUnchanged: 0,
+    ordersMissingFromShopify: 0,
+    ordersWithoutGid: 0,
+    fieldChangeCounts: {},
+    errors: [],
+  };
+}
+
+/**
+ * Add the counts of one batch to a running total
+ */
+export function mergeBackfillResults(total: BackfillResult, batch: Partial<BackfillResult>): BackfillResult {
+  const counters = [
+    'ordersResolvedFromShopify',
+    'ordersUpdated',
+    'ordersUnchanged',
+    'ordersMissingFromShopify',
+  ] as const;
+  for (const key of counters) {
+    total[key] += batch[key] || 0;
+  }
+  for (const [field, count] of Object.entries(batch.fieldChangeCounts || {})) {
+    total.fieldChangeCounts[field] = (total.fieldChangeCounts[field] || 0) + count;
+  }
+  total.errors.push(...(batch.errors || []));
+  return total;
+}
+
+/**
+ * Read all Airtable orders and pick the ones that can be resynced
+ */
+export async function loadBackfillCandidates(): Promise<BackfillCandidates> {
+  const allRecords = await getAirtableService()
+    .getBase()(ORDERS_TABLE_ID)
+    .select({ returnFieldsByFieldId: true })
+    .all();
+
+  let ordersWithoutGid = 0;
+  const candidates: BackfillCandidate[] = [];
+  for (const record of allRecords) {
+    const gid = record.get(ORDERS_FIELD_IDS.order_id) as string | undefined;
+    if (!gid || !gid.startsWith('gid://shopify/Order/')) {
+      ordersWithoutGid++;
+      continue;
+    }
+    candidates.push({
+      recordId: record.id,
+      gid,
+      existing: {
+        payment_status: record.get(ORDERS_FIELD_IDS.payment_status) as string | undefined,
+        fulfillment_status: record.get(ORDERS_FIELD_IDS.fulfillment_status) as string | undefined,
+        refund_amount: record.get(ORDERS_FIELD_IDS.refund_amount) as number | undefined,
+        cancel_reason: record.get(ORDERS_FIELD_IDS.cancel_reason) as string | undefined,
+        is_test: record.get(ORDERS_FIELD_IDS.is_test) === true,
+      },
+    });
+  }
+
+  candidates.sort((a, b) => a.recordId.localeCompare(b.recordId));
+
+  return { totalAirtableOrders: allRecords.length, ordersWithoutGid, candidates };
+}
+
+/**
+ * Resync one slice of candidates: fetch Shopify snapshots, diff, and write
+ * the changed fields (unless dryRun).
+ */
+export async function resyncOrderBatch(
+  candidates: BackfillCandidate[],
+  dryRun: boolean
+): Promise<Partial<BackfillResult>> {
+  const result = createEmptyBackfillResult(dryRun);
+  const updates: Array<{ id: string; fields: Partial<FieldSet> }> = [];
+
+  for (let i = 0; i < candidates.length; i += SHOPIFY_NODES_BATCH_SIZE) {
+    const chunk = candidates.slice(i, i + SHOPIFY_NODES_BATCH_SIZE);
+    const ids = chunk.map((p) => p.gid);
+
+    try {
+      const snapshots = await shopifyAdminService.getOrdersSyncSnapshot(ids);
+
+      for (const item of chunk) {
+        const snap = snapshots.get(item.gid);
+        if (!snap) {
+          result.ordersMissingFromShopify++;
+          continue;
+        }
+        result.ordersResolvedFromShopify++;
+
+        const diff = diffShopifyVsAirtable(snap, item.existing);
+        if (!diff) {
+          result.ordersUnchanged++;
+          continue;
+        }
+        for (const field of diff.changed) {
+          result.fieldChangeCounts[field] =
+            (result.fieldChangeCounts[field] || 0) + 1;
+        }
+        updates.push({
+          id: item.recordId,
+          fields: diff.fields as Partial<FieldSet>,
+        });
+      }
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : 'Unknown error';
+      result.errors.push(`Shopify batch for ${chunk[0].recordId}…${chunk[chunk.length - 1].recordId} failed: ${msg}`);
+    }
+  }
+
+  if (dryRun) {
+    result.ordersUpdated = updates.length;
+    return result;
+  }
+
+  const table = getAirtableService().getBase()(ORDERS_TABLE_ID);
+  for (let i = 0; i < updates.length; i += AIRTABLE_UPDATE_BATCH_SIZE) {
+    const batch = updates.slice(i, i + AIRTABLE_UPDATE_BATCH_SIZE);
+    try {
+      await table.update(batch);
+      result.ordersUpdated += batch.length;
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : 'Unknown error';
+      result.errors.push(`Airtable update for ${batch[0].id}…${batch[batch.length - 1].id} failed: ${msg}`);
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,143 @@
+import Airtable from 'airtable';
+import { getAirtableService } from './airtableService';
+import {
+  SIMPLYBOOK_WEBHOOK_LOG_TABLE_ID,
+  SIMPLYBOOK_WEBHOOK_LOG_FIELD_IDS,
+} from '@/lib/types/airtable';
+import type {
+  SimplybookWebhookPayload,
+  SimplybookWebhookLogEntry,
+  SimplybookWebhookLogStatus,
+} from '@/lib/types/simplybook';
+import {
+  decideSimplybookWebhookAction,
+  type SimplybookWebhookDecision,
+} from '@/lib/utils/simplybookWebhook';
+
+type LogRecord = Airtable.Record<Airtable.FieldSet>;
+
+export type SimplybookWebhookClaim = SimplybookWebhookDecision & { logId: string };
+
+/**
+ * SimplybookWebhookLogService - Persisted log of received SimplyBook notifications
+ *
+ * Every notification gets a row keyed by booking_id + notification_type. The
+ * webhook route claims a row before running a handler and completes it with
+ * the outcome, so redelivered or out-of-order notifications are applied once.
+ */
+class SimplybookWebhookLogService {
+  private airtable = getAirtableService();
+
+  /**
+   * Log a received notification and decide whether it should be applied.
+   * The row is written as 'processing' when the caller should run the handler,
+   * otherwise with the final duplicate/superseded status.
+   */
+  async claim(payload: SimplybookWebhookPayload): Promise<SimplybookWebhookClaim> {
+    const [previous, bookingExists] = await Promise.all([
+      this.getEntriesForBooking(payload.booking_id),
+      payload.notification_type !== 'create' && this.hasSchoolBooking(payload.booking_id),
+    ]);
+    const decision = decideSimplybookWebhookAction(payload.notification_type, previous, bookingExists);
+    const status: SimplybookWebhookLogStatus = decision.action === 'apply' ? 'processing' : decision.action;
+
+    const logId = await this.createEntry(payload, status, decision.action === 'apply' ? undefined : decision.reason);
+    if (decision.action !== 'apply') {
+      return { ...decision, logId };
+    }
+
+    // Airtable has no unique constraint: if a redelivery raced us between the
+    // read and the write, the earliest processing row wins.
+    const competing = (await this.getEntriesForBooking(payload.booking_id)).filter(
+      (entry) => entry.notificationType === payload.notification_type && entry.status === 'processing'
+    );
+    const winner = competing.sort(
+      (a, b) => a.receivedAt.localeCompare(b.receivedAt) || a.id.localeCompare(b.id)
+    )[0];
+    if (winner && winner.id !== logId) {
+      const reason = 'Concurrent delivery already being processed';
+      await this.complete(logId, 'duplicate', reason);
+      return { action: 'duplicate', reason, logId };
+    }
+
+    return { action: 'apply', logId };
+  }
+
+  /**
+   * Record the handler outcome on a claimed row
+   */
+  async complete(logId: string, status: SimplybookWebhookLogStatus, detail?: string): Promise<void> {
+    await this.airtable.getBase()(SIMPLYBOOK_WEBHOOK_LOG_TABLE_ID).update(logId, {
+      [SIMPLYBOOK_WEBHOOK_LOG_FIELD_IDS.status]: status,
+      [SIMPLYBOOK_WEBHOOK_LOG_FIELD_IDS.detail]: detail || '',
+      [SIMPLYBOOK_WEBHOOK_LOG_FIELD_IDS.processed_at]: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Is the booking already in SchoolBookings? Bookings from before the
+   * webhook log have no create entry but are there.
+   */
+  private async hasSchoolBooking(bookingId: string): Promise<boolean> {
+    return (await this.airtable.getSchoolBookingBySimplybookId(bookingId)) !== null;
+  }
+
+  /**
+   * All logged notifications for a booking, oldest first
+   */
+  async getEntriesForBooking(bookingId: string): Promise<SimplybookWebhookLogEntry[]> {
+    const records = await this.airtable
+      .getBase()(SIMPLYBOOK_WEBHOOK_LOG_TABLE_ID)
+      .select({
+        filterByFormula: `{${SIMPLYBOOK_WEBHOOK_LOG_FIELD_IDS.booking_id}} = "${bookingId.replace(/"/g, '\\"')}"`,
+        returnFieldsByFieldId: true,
+        sort: [{ field: SIMPLYBOOK_WEBHOOK_LOG_FIELD_IDS.received_at, direction: 'asc' }],
+      })
+      .all();
+
+    return records.map((record) => this.transformRecord(record));
+  }
+
+  private async createEntry(
+    payload: SimplybookWebhookPayload,
+    status: SimplybookWebhookLogStatus,
+    detail?: string
+  ): Promise<string> {
+    const now = new Date().toISOString();
+    const record = await this.airtable.getBase()(SIMPLYBOOK_WEBHOOK_LOG_TABLE_ID).create({
+      [SIMPLYBOOK_WEBHOOK_LOG_FIELD_IDS.delivery_key]: `${payload.booking_id}:${payload.notification_type}`,
+      [SIMPLYBOOK_WEBHOOK_LOG_FIELD_IDS.booking_id]: payload.booking_id,
+      [SIMPLYBOOK_WEBHOOK_LOG_FIELD_IDS.notification_type]: payload.notification_type,
+      [SIMPLYBOOK_WEBHOOK_LOG_FIELD_IDS.company]: payload.company,
+      [SIMPLYBOOK_WEBHOOK_LOG_FIELD_IDS.status]: status,
+      [SIMPLYBOOK_WEBHOOK_LOG_FIELD_IDS.received_at]: now,
+      ...(status !== 'processing' && {
+        [SIMPLYBOOK_WEBHOOK_LOG_FIELD_IDS.detail]: detail || '',
+        [SIMPLYBOOK_WEBHOOK_LOG_FIELD_IDS.processed_at]: now,
+      }),
+    });
+    return record.id;
+  }
+
+  private transformRecord(record: LogRecord): SimplybookWebhookLogEntry {
+    return {
+      id: record.id,
+      bookingId: (record.get(SIMPLYBOOK_WEBHOOK_LOG_FIELD_IDS.booking_id) as string) || '',
+      notificationType: record.get(
+        SIMPLYBOOK_WEBHOOK_LOG_FIELD_IDS.notification_type
+      ) as SimplybookWebhookLogEntry['notificationType'],
+      status: record.get(SIMPLYBOOK_WEBHOOK_LOG_FIELD_IDS.status) as SimplybookWebhookLogStatus,
+      receivedAt: (record.get(SIMPLYBOOK_WEBHOOK_LOG_FIELD_IDS.received_at) as string) || '',
+    };
+  }
+}
+
+// Singleton instance
+let simplybookWebhookLogServiceInstance: SimplybookWebhookLogService | null = null;
+
+export function getSimplybookWebhookLogService(): SimplybookWebhookLogService {
+  if (!simplybookWebhookLogServiceInstance) {
+    simplybookWebhookLogServiceInstance = new SimplybookWebhookLogService();
+  }
+  return simplybookWebhookLogServiceInstance;
+}
@@ -0,0 +1,145 @@
+import bcrypt from 'bcryptjs';
+import { PERSONEN_FIELD_IDS } from '@/lib/types/airtable';
+import { MAX_FAILED_LOGIN_ATTEMPTS } from '@/lib/types/staff-auth';
+import { base32Encode, generateTotpCode, getTotpStep } from '@/lib/utils/totp';
+
+// In-memory Personen table: select() returns whatever mockRecords holds,
+// update() records the patch so tests can assert on lockout bookkeeping.
+let mockRecords: Array<{ id: string; fields: Record<string, unknown> }> = [];
+const mockUpdate = jest.fn(async (id: string, fields: Record<string, unknown>) => ({ id, fields }));
+
+jest.mock('airtable', () => ({
+  __esModule: true,
+  default: class AirtableStub {
+    static configure() {}
+    static base() {
+      return () => ({
+        select: () => ({ firstPage: async () => mockRecords }),
+        update: mockUpdate,
+      });
+    }
+  },
+}));
+jest.mock('./resendService', () => ({
+  sendStaffPasswordResetEmail: jest.fn(async () => ({ success: true })),
+}));
+
+// Import AFTER all mocks are set up.
+import { getStaffCredentialService, validatePassword } from './staffCredentialService';
+
+// Low cost factor keeps the suite fast; bcrypt.compare reads the rounds from the hash.
+const PASSWORD = 'richtig-gutes-passwort';
+const PASSWORD_HASH = bcrypt.hashSync(PASSWORD, 4);
+const TOTP_SECRET = base32Encode(Buffer.from('12345678901234567890', 'ascii'));
+
+function givenStaff(fields: Record<string, unknown> = {}) {
+  mockRecords = [
+    {
+      id: 'recStaff1',
+      fields: {
+        [PERSONEN_FIELD_IDS.email]: 'anna@minimusiker.de',
+        [PERSONEN_FIELD_IDS.staff_name]: 'Anna',
+        [PERSONEN_FIELD_IDS.password_hash]: PASSWORD_HASH,
+        ...fields,
+      },
+    },
+  ];
+}
+
+describe('StaffCredentialService.verifyLogin', () => {
+  const service = getStaffCredentialService();
+
+  beforeEach(() => {
+    mockUpdate.mockClear();
+  });
+
+  it('accepts the correct password', async () => {
+    givenStaff();
+    const result = await service.verifyLogin('Anna@Minimusiker.de', PASSWORD);
+    expect(result.status).toBe('ok');
+    expect(mockUpdate).not.toHaveBeenCalled();
+  });
+
+  it('rejects the numeric ID that used to be the password', async () => {
+    givenStaff();
+    const result = await service.verifyLogin('anna@minimusiker.de', '42');
+    expect(result).toEqual({ status: 'invalid' });
+    expect(mockUpdate).toHaveBeenCalledWith('recStaff1', {
+      [PERSONEN_FIELD_IDS.failed_login_attempts]: 1,
+    });
+  });
+
+  it('locks the account on the last allowed failure', async () => {
+    givenStaff({ [PERSONEN_FIELD_IDS.failed_login_attempts]: MAX_FAILED_LOGIN_ATTEMPTS - 1 });
+    const result = await service.verifyLogin('anna@minimusiker.de', 'falsch');
+    expect(result).toEqual({ status: 'invalid' });
+    const patch = mockUpdate.mock.calls[0][1];
+    expect(patch[PERSONEN_FIELD_IDS.failed_login_attempts]).toBe(0);
+    expect(typeof patch[PERSONEN_FIELD_IDS.locked_until]).toBe('string');
+  });
+
+  it('refuses even the correct password while locked', async () => {
+    givenStaff({ [PERSONEN_FIELD_IDS.locked_until]: new Date(Date.now() + 60_000).toISOString() });
+    const result = await service.verifyLogin('anna@minimusiker.de', PASSWORD);
+    expect(result.status).toBe('locked');
+  });
+
+  it('does not reveal the lock to a wrong password', async () => {
+    givenStaff({ [PERSONEN_FIELD_IDS.locked_until]: new Date(Date.now() + 60_000).toISOString() });
+    const result = await service.verifyLogin('anna@minimusiker.de', 'falsch');
+    expect(result).toEqual({ status: 'invalid' });
+  });
+
+  it('clears the counter after a successful login', async () => {
+    givenStaff({
+      [PERSONEN_FIELD_IDS.failed_login_attempts]: 2,
+      [PERSONEN_FIELD_IDS.locked_until]: new Date(Date.now() - 60_000).toISOString(),
+    });
+    const result = await service.verifyLogin('anna@minimusiker.de', PASSWORD);
+    expect(result.status).toBe('ok');
+    expect(mockUpdate).toHaveBeenCalledWith('recStaff1', {
+      [PERSONEN_FIELD_IDS.failed_login_attempts]: 0,
+      [PERSONEN_FIELD_IDS.locked_until]: null,
+    });
+  });
+
+  it('answers unknown emails and accounts without a hash like a wrong password', async () => {
+    givenStaff({ [PERSONEN_FIELD_IDS.password_hash]: undefined });
+    expect(await service.verifyLogin('anna@minimusiker.de', 'irgendwas')).toEqual({ status: 'invalid' });
+    mockRecords = [];
+    expect(await service.verifyLogin('niemand@minimusiker.de', PASSWORD)).toEqual({ status: 'invalid' });
+  });
+
+  it('asks for the TOTP code when two-factor is enabled', async () => {
+    givenStaff({
+      [PERSONEN_FIELD_IDS.totp_secret]: TOTP_SECRET,
+      [PERSONEN_FIELD_IDS.totp_enabled]: true,
+    });
+    expect(await service.verifyLogin('anna@minimusiker.de', PASSWORD)).toEqual({ status: 'totp_required' });
+    expect((await service.verifyLogin('anna@minimusiker.de', PASSWORD, '000000')).status).toBe('invalid');
+    const step = getTotpStep();
+    const code = generateTotpCode(TOTP_SECRET, step * 30_000);
+    expect((await service.verifyLogin('anna@minimusiker.de', PASSWORD, code)).status).toBe('ok');
+    expect(mockUpdate).toHaveBeenLastCalledWith('recStaff1', {
+      [PERSONEN_FIELD_IDS.totp_last_used_step]: step,
+    });
+  });
+
+  it('refuses a TOTP code whose time step was already used', async () => {
+    givenStaff({
+      [PERSONEN_FIELD_IDS.totp_secret]: TOTP_SECRET,
+      [PERSONEN_FIELD_IDS.totp_enabled]: true,
+      [PERSONEN_FIELD_IDS.totp_last_used_step]: getTotpStep(),
+    });
+    const code = generateTotpCode(TOTP_SECRET, (getTotpStep() - 1) * 30_000);
+    expect((await service.verifyLogin('anna@minimusiker.de', PASSWORD, code)).status).toBe('invalid');
+  });
+});
+
+describe('validatePassword', () => {
+  it('enforces length and rejects digit-only passwords', () => {
+    expect(validatePassword('kurz')).toMatch(/mindestens/);
+    expect(validatePassword('12345678901')).toMatch(/Ziffern/);
+    expect(validatePassword(PASSWORD)).toBeNull();
+  });
+});
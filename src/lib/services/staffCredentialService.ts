@@ -0,0 +1,345 @@
+import Airtable from 'airtable';
+import bcrypt from 'bcryptjs';
+import crypto from 'crypto';
+import QRCode from 'qrcode';
+import { PERSONEN_TABLE_ID, PERSONEN_FIELD_IDS } from '@/lib/types/airtable';
+import {
+  StaffCredentials,
+  StaffLoginResult,
+  TotpSetup,
+  MAX_FAILED_LOGIN_ATTEMPTS,
+  LOGIN_LOCKOUT_DURATION_MS,
+  PASSWORD_RESET_EXPIRY_MS,
+  MIN_PASSWORD_LENGTH,
+  PASSWORD_HASH_ROUNDS,
+} from '@/lib/types/staff-auth';
+import { generateTotpSecret, findTotpStep, buildOtpauthUrl } from '@/lib/utils/totp';
+import { clearField } from '@/lib/utils/airtableFields';
+import { sendStaffPasswordResetEmail } from './resendService';
+
+const APP_URL = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+
+// Dummy hash compared against when the email is unknown, so response timing
+// does not reveal which emails have accounts (computed lazily, bcrypt is slow)
+let dummyPasswordHash: string | null = null;
+
+async function getDummyPasswordHash(): Promise<string> {
+  if (!dummyPasswordHash) {
+    dummyPasswordHash = await bcrypt.hash('minimusiker-dummy-password', PASSWORD_HASH_ROUNDS);
+  }
+  return dummyPasswordHash;
+}
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Service for Personen login credentials
+ * Handles password hashing, lockout, password reset and the admin TOTP factor.
+ * Shared by the admin, staff and engineer login routes.
+ */
+class StaffCredentialService {
+  private base: Airtable.Base;
+  private static instance: StaffCredentialService;
+
+  private constructor() {
+    Airtable.configure({
+      apiKey: process.env.AIRTABLE_API_KEY!,
+    });
+    this.base = Airtable.base(process.env.AIRTABLE_BASE_ID!);
+  }
+
+  public static getInstance(): StaffCredentialService {
+    if (!StaffCredentialService.instance) {
+      StaffCredentialService.instance = new StaffCredentialService();
+    }
+    return StaffCredentialService.instance;
+  }
+
+  private transformRecord(record: Airtable.Record<Airtable.FieldSet>): StaffCredentials {
+    const fields = record.fields;
+    return {
+      id: record.id,
+      email: (fields[PERSONEN_FIELD_IDS.email] as string) || '',
+      name: (fields[PERSONEN_FIELD_IDS.staff_name] as string) || '',
+      passwordHash: (fields[PERSONEN_FIELD_IDS.password_hash] as string) || undefined,
+      failedLoginAttempts: (fields[PERSONEN_FIELD_IDS.failed_login_attempts] as number) || 0,
+      lockedUntil: (fields[PERSONEN_FIELD_IDS.locked_until] as string) || undefined,
+      totpSecret: (fields[PERSONEN_FIELD_IDS.totp_secret] as string) || undefined,
+      totpEnabled: fields[PERSONEN_FIELD_IDS.totp_enabled] === true,
+      totpLastUsedStep: (fields[PERSONEN_FIELD_IDS.totp_last_used_step] as number) ?? undefined,
+    };
+  }
+
+  /**
+   * Get credential fields for a Personen record by email
+   */
+  async getCredentialsByEmail(email: string): Promise<StaffCredentials | null> {
+    const records = await this.base(PERSONEN_TABLE_ID)
+      .select({
+        filterByFormula: `LOWER({${PERSONEN_FIELD_IDS.email}}) = LOWER('${email.replace(/'/g, "\\'")}')`,
+        maxRecords: 1,
+        returnFieldsByFieldId: true,
+      })
+      .firstPage();
+
+    return records.length > 0 ? this.transformRecord(records[0]) : null;
+  }
+
+  /**
+   * Get credential fields for a Personen record by record ID
+   */
+  async getCredentialsById(staffId: string): Promise<StaffCredentials | null> {
+    const records = await this.base(PERSONEN_TABLE_ID)
+      .select({
+        filterByFormula: `RECORD_ID() = '${staffId.replace(/'/g, "\\'")}'`,
+        maxRecords: 1,
+        returnFieldsByFieldId: true,
+      })
+      .firstPage();
+
+    return records.length > 0 ? this.transformRecord(records[0]) : null;
+  }
+
+  /**
+   * Check email + password (and the TOTP code for accounts that have it enabled).
+   * Failed attempts are counted per account; after MAX_FAILED_LOGIN_ATTEMPTS the
+   * account is locked for LOGIN_LOCKOUT_DURATION_MS. The password is always
+   * checked first, and unknown emails, accounts without a password and wrong
+   * passwords all get the same 'invalid' - only the right password learns more.
+   */
+  async verifyLogin(email: string, password: string, totpCode?: string): Promise<StaffLoginResult> {
+    const staff = await this.getCredentialsByEmail(email.toLowerCase().trim());
+
+    const passwordValid = await bcrypt.compare(
+      password,
+      staff?.passwordHash || (await getDummyPasswordHash())
+    );
+
+    if (!staff?.passwordHash) {
+      return { status: 'invalid' };
+    }
+
+    if (staff.lockedUntil && new Date(staff.lockedUntil).getTime() > Date.now()) {
+      return passwordValid ? { status: 'locked', lockedUntil: staff.lockedUntil } : { status: 'invalid' };
+    }
+
+    if (!passwordValid) {
+      return this.recordFailedAttempt(staff);
+    }
+
+    const updates: Airtable.FieldSet = {};
+
+    if (staff.totpEnabled && staff.totpSecret) {
+      if (!totpCode) {
+        return { status: 'totp_required' };
+      }
+      const step = this.acceptTotpCode(staff, totpCode);
+      if (step === null) {
+        return this.recordFailedAttempt(staff);
+      }
+      updates[PERSONEN_FIELD_IDS.totp_last_used_step] = step;
+    }
+
+    if (staff.failedLoginAttempts > 0 || staff.lockedUntil) {
+      updates[PERSONEN_FIELD_IDS.failed_login_attempts] = 0;
+      updates[PERSONEN_FIELD_IDS.locked_until] = clearField();
+    }
+
+    if (Object.keys(updates).length > 0) {
+      await this.base(PERSONEN_TABLE_ID).update(staff.id, updates);
+    }
+
+    return { status: 'ok', staff };
+  }
+
+  private async recordFailedAttempt(staff: StaffCredentials): Promise<StaffLoginResult> {
+    const attempts = staff.failedLoginAttempts + 1;
+
+    if (attempts >= MAX_FAILED_LOGIN_ATTEMPTS) {
+      const lockedUntil = new Date(Date.now() + LOGIN_LOCKOUT_DURATION_MS).toISOString();
+      await this.base(PERSONEN_TABLE_ID).update(staff.id, {
+        [PERSONEN_FIELD_IDS.failed_login_attempts]: 0,
+        [PERSONEN_FIELD_IDS.locked_until]: lockedUntil,
+      });
+      console.warn(`[StaffCredentialService] Account locked after ${attempts} failed logins: ${staff.email}`);
+      return { status: 'invalid' };
+    }
+
+    await this.base(PERSONEN_TABLE_ID).update(staff.id, {
+      [PERSONEN_FIELD_IDS.failed_login_attempts]: attempts,
+    });
+    return { status: 'invalid' };
+  }
+
+  /**
+   * Time step of a valid TOTP code, or null when the code is wrong or its step
+   * was already used (a code stays valid for the whole drift window, so without
+   * this an intercepted code could be replayed).
+   */
+  private acceptTotpCode(staff: StaffCredentials, code: string): number | null {
+    if (!staff.totpSecret) return null;
+    const step = findTotpStep(staff.totpSecret, code);
+    if (step === null) return null;
+    if (staff.totpLastUsedStep !== undefined && step <= staff.totpLastUsedStep) return null;
+    return step;
+  }
+
+  /**
+   * Start the set/reset password flow: store a one-time token and email the link.
+   * Silently does nothing for unknown emails (the route never reveals which exist).
+   */
+  async requestPasswordReset(email: string): Promise<void> {
+    const staff = await this.getCredentialsByEmail(email.toLowerCase().trim());
+    if (!staff) {
+      console.log(`Password reset requested for unknown email: ${email}`);
+      return;
+    }
+
+    const token = crypto.randomBytes(32).toString('hex');
+    const expiresAt = new Date(Date.now() + PASSWORD_RESET_EXPIRY_MS).toISOString();
+
+    await this.base(PERSONEN_TABLE_ID).update(staff.id, {
+      [PERSONEN_FIELD_IDS.password_reset_token_hash]: hashToken(token),
+      [PERSONEN_FIELD_IDS.password_reset_expires_at]: expiresAt,
+    });
+
+    const resetUrl = `${APP_URL}/passwort-zuruecksetzen?token=${token}`;
+    const result = await sendStaffPasswordResetEmail(staff.email, staff.name, resetUrl, !staff.passwordHash);
+    if (!result.success) {
+      console.error('[StaffCredentialService] Password reset email failed:', result.error);
+    }
+  }
+
+  /**
+   * Complete the set/reset flow. Clears the token and any lockout.
+   * On failure, error is a user-facing (German) message.
+   */
+  async resetPassword(token: string, newPassword: string): Promise<{ success: boolean; error?: string }> {
+    const passwordError = validatePassword(newPassword);
+    if (passwordError) {
+      return { success: false, error: passwordError };
+    }
+
+    if (!/^[a-f0-9]{64}$/.test(token)) {
+      return { success: false, error: 'Der Link ist ungültig oder wurde bereits verwendet.' };
+    }
+
+    const records = await this.base(PERSONEN_TABLE_ID)
+      .select({
+        filterByFormula: `{${PERSONEN_FIELD_IDS.password_reset_token_hash}} = '${hashToken(token)}'`,
+        maxRecords: 1,
+        returnFieldsByFieldId: true,
+      })
+      .firstPage();
+
+    if (records.length === 0) {
+      return { success: false, error: 'Der Link ist ungültig oder wurde bereits verwendet.' };
+    }
+
+    const record = records[0];
+    const expiresAt = record.fields[PERSONEN_FIELD_IDS.password_reset_expires_at] as string | undefined;
+    if (!expiresAt || new Date(expiresAt).getTime() < Date.now()) {
+      await this.base(PERSONEN_TABLE_ID).update(record.id, {
+        [PERSONEN_FIELD_IDS.password_reset_token_hash]: '',
+        [PERSONEN_FIELD_IDS.password_reset_expires_at]: clearField(),
+      });
+      return { success: false, error: 'Der Link ist abgelaufen. Bitte fordere einen neuen an.' };
+    }
+
+    const passwordHash = await bcrypt.hash(newPassword, PASSWORD_HASH_ROUNDS);
+
+    await this.base(PERSONEN_TABLE_ID).update(record.id, {
+      [PERSONEN_FIELD_IDS.password_hash]: passwordHash,
+      [PERSONEN_FIELD_IDS.password_set_at]: new Date().toISOString(),
+      [PERSONEN_FIELD_IDS.password_reset_token_hash]: '',
+      [PERSONEN_FIELD_IDS.password_reset_expires_at]: clearField(),
+      [PERSONEN_FIELD_IDS.failed_login_attempts]: 0,
+      [PERSONEN_FIELD_IDS.locked_until]: clearField(),
+    });
+
+    return { success: true };
+  }
+
+  /**
+   * Start TOTP enrolment: store a fresh (not yet enabled) secret and return
+   * the otpauth URL + QR code for the authenticator app.
+   */
+  async startTotpSetup(staffId: string): Promise<TotpSetup> {
+    const staff = await this.getCredentialsById(staffId);
+    if (!staff) {
+      throw new Error('Staff member not found');
+    }
+    if (staff.totpEnabled) {
+      throw new Error('Two-factor authentication is already enabled');
+    }
+
+    const secret = generateTotpSecret();
+    await this.base(PERSONEN_TABLE_ID).update(staffId, {
+      [PERSONEN_FIELD_IDS.totp_secret]: secret,
+      [PERSONEN_FIELD_IDS.totp_enabled]: false,
+    });
+
+    const otpauthUrl = buildOtpauthUrl(secret, staff.email);
+    const qrCodeDataUrl = await QRCode.toDataURL(otpauthUrl, { width: 240, margin: 1 });
+
+    return { secret, otpauthUrl, qrCodeDataUrl };
+  }
+
+  /**
+   * Confirm enrolment with a code from the app. Returns false if the code is wrong.
+   */
+  async enableTotp(staffId: string, code: string): Promise<boolean> {
+    const staff = await this.getCredentialsById(staffId);
+    const step = staff ? this.acceptTotpCode(staff, code) : null;
+    if (step === null) {
+      return false;
+    }
+
+    await this.base(PERSONEN_TABLE_ID).update(staffId, {
+      [PERSONEN_FIELD_IDS.totp_enabled]: true,
+      [PERSONEN_FIELD_IDS.totp_last_used_step]: step,
+    });
+    return true;
+  }
+
+  /**
+   * Turn the second factor off. Requires a current code so a hijacked session
+   * alone cannot remove it. Returns false if the code is wrong.
+   */
+  async disableTotp(staffId: string, code: string): Promise<boolean> {
+    const staff = await this.getCredentialsById(staffId);
+    const step = staff?.totpEnabled ? this.acceptTotpCode(staff, code) : null;
+    if (step === null) {
+      return false;
+    }
+
+    await this.base(PERSONEN_TABLE_ID).update(staffId, {
+      [PERSONEN_FIELD_IDS.totp_secret]: '',
+      [PERSONEN_FIELD_IDS.totp_enabled]: false,
+      [PERSONEN_FIELD_IDS.totp_last_used_step]: step,
+    });
+    return true;
+  }
+}
+
+/**
+ * Validate a new password against the policy.
+ * @returns A user-facing error message, or null if the password is acceptable
+ */
+export function validatePassword(password: string): string | null {
+  if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+    return `Das Passwort muss mindestens ${MIN_PASSWORD_LENGTH} Zeichen lang sein.`;
+  }
+  if (/^\d+$/.test(password)) {
+    return 'Das Passwort darf nicht nur aus Ziffern bestehen.';
+  }
+  return null;
+}
+
+export function getStaffCredentialService(): StaffCredentialService {
+  return StaffCredentialService.getInstance();
+}
+
+export default StaffCredentialService;
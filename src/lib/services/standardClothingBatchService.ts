@@ -25,8 +25,8 @@ import {
   PARENTS_TABLE_ID,
   PARENTS_FIELD_IDS,
 } from '@/lib/types/airtable';
-import { ShopifyOrderLineItem } from '@/lib/types/airtable';
 import { buildClassToEventMap, resolveOrderEventId } from '@/lib/utils/orderEventResolver';
+import { getNetOrderLineItems } from '@/lib/utils/orderRefunds';
 
 class StandardClothingBatchService {
   private airtable = getAirtableService();
@@ -151,15 +151,9 @@ class StandardClothingBatchService {
       // Skip already-batched orders
       if (alreadyBatched.has(order.id)) continue;
 
-      const lineItemsJson = order.get(ORDERS_FIELD_IDS.line_items) as string;
-      if (!lineItemsJson) continue;
-
-      let lineItems: ShopifyOrderLineItem[];
-      try {
-        lineItems = JSON.parse(lineItemsJson);
-      } catch {
-        continue;
-      }
+      // Refunded items are not ordered from the supplier
+      const lineItems = getNetOrderLineItems(order);
+      if (lineItems.length === 0) continue;
 
       // Check for standard clothing items
       const clothingItems: ClothingItem[] = [];
@@ -367,15 +361,8 @@ class StandardClothingBatchService {
     for (const order of orderRecords) {
       if (!order) continue;
 
-      const lineItemsJson = order.get(ORDERS_FIELD_IDS.line_items) as string;
-      if (!lineItemsJson) continue;
-
-      let lineItems: ShopifyOrderLineItem[];
-      try {
-        lineItems = JSON.parse(lineItemsJson);
-      } catch {
-        continue;
-      }
+      const lineItems = getNetOrderLineItems(order);
+      if (lineItems.length === 0) continue;
 
       let hasStandard = false;
       for (const item of lineItems) {
@@ -495,15 +482,8 @@ class StandardClothingBatchService {
         const order = ordersById.get(orderId);
         if (!order) continue;
 
-        const lineItemsJson = order.get(ORDERS_FIELD_IDS.line_items) as string;
-        if (!lineItemsJson) continue;
-
-        let lineItems: ShopifyOrderLineItem[];
-        try {
-          lineItems = JSON.parse(lineItemsJson);
-        } catch {
-          continue;
-        }
+        const lineItems = getNetOrderLineItems(order);
+        if (lineItems.length === 0) continue;
 
         let hasStandard = false;
         for (const item of lineItems) {
@@ -596,15 +576,8 @@ class StandardClothingBatchService {
     const orderDetails: StandardClothingOrderDetail[] = [];
 
     for (const order of batchOrders) {
-      const lineItemsJson = order.get(ORDERS_FIELD_IDS.line_items) as string;
-      if (!lineItemsJson) continue;
-
-      let lineItems: ShopifyOrderLineItem[];
-      try {
-        lineItems = JSON.parse(lineItemsJson);
-      } catch {
-        continue;
-      }
+      const lineItems = getNetOrderLineItems(order);
+      if (lineItems.length === 0) continue;
 
       // Filter to standard clothing items only
       const clothingItems: ClothingItem[] = [];
@@ -1,7 +1,10 @@
 import Airtable from 'airtable';
 import { getAirtableService } from './airtableService';
 import { getR2Service } from './r2Service';
-import { getFulfillmentService, type WelleFulfillmentSummary } from './fulfillmentService';
+import type { WelleFulfillmentSummary } from './fulfillmentService';
+import { getJobService } from './jobService';
+import { getWelleFulfillmentDedupKey, type WelleFulfillmentJobPayload } from './jobHandlers';
+import { getStockService } from './stockService';
 import {
   Task,
   TaskWithEventDetails,
@@ -17,14 +20,18 @@ import {
   TaskMatrixRow,
   TaskMatrixCell,
   TaskCellStatus,
+  CdImageAttachment,
 } from '@/lib/types/tasks';
 import type { Event } from '@/lib/types/airtable';
 import {
-  TASK_TIMELINE,
   calculateDeadline as calculateDeadlineV2,
+  diffTimeline,
   getTimelineEntry,
   type TaskPrefix,
   type TaskCompletionType,
+  type TaskTimelineEntry,
+  type TimelineDiff,
+  type TimelineTemplate,
 } from '@/lib/config/taskTimeline';
 import { calculateUrgencyScore } from '@/lib/utils/taskUrgency';
 import { withRetry } from '@/lib/utils/withRetry';
@@ -41,6 +48,7 @@ import { getOrdersByEventRecordId } from './ordersHelper';
 import { computeNewDeadline } from './deadlineHelper';
 import { uniqueLinkedRecordIds } from './taskBatchHelpers';
 import { classifyVariant } from '@/lib/config/variantClassification';
+import { getTaskTimelineService } from './taskTimelineService';
 
 // Re-export normalizeCompletionType from its dedicated module so the service
 // stays the single import point for downstream code, while unit tests can
@@ -63,6 +71,16 @@ type EnrichmentMaps = {
   gos: Map<string, { id: string; get: (field: string) => unknown }>;
 };
 
+/**
+ * An event's tasks compared with the current timeline template
+ */
+export interface TimelineRecompute {
+  template: Pick<TimelineTemplate, 'id' | 'key' | 'name' | 'version'>;
+  /** Version the event is pinned to (undefined = follows the current template) */
+  pinnedTemplateId?: string;
+  diff: TimelineDiff;
+}
+
 /**
  * TaskService - Handles task generation, retrieval, and completion
  */
@@ -329,7 +347,9 @@ class TaskService {
   /**
    * Handle orchestrated completion for Welle 1 / Welle 2 shipment tasks.
    *
-   * Calls the FulfillmentService to batch-fulfill Shopify orders, then:
+   * Runs the 'fulfillment.welle' job inline, under the same dedup key as the
+   * fulfill route, so a wave the UI is already fulfilling is not fulfilled a
+   * second time (already fulfilled orders are skipped when the job plans), then:
    * - If ALL orders succeeded: marks the task as completed with the summary
    * - If ANY orders failed: throws an error with the summary so the UI can display it
    */
@@ -345,8 +365,24 @@ class TaskService {
     const welle: 'Welle 1' | 'Welle 2' =
       task.template_id === 'shipment_welle_1' ? 'Welle 1' : 'Welle 2';
 
-    const fulfillmentService = getFulfillmentService();
-    const summary = await fulfillmentService.fulfillWelle(task.event_id, welle);
+    const jobService = getJobService();
+    const payload: WelleFulfillmentJobPayload = { eventRecordId: task.event_id, welle };
+    const queued = await jobService.enqueue<WelleFulfillmentJobPayload>('fulfillment.welle', payload, {
+      label: `${welle} fulfillment – ${task.event_id}`,
+      createdBy: adminEmail,
+      maxAttempts: 1,
+      runInline: true,
+      dedupKey: getWelleFulfillmentDedupKey(payload),
+    });
+    const job = await jobService.runJob(queued.id, { ignoreRunAfter: true });
+    const summary = job?.result as WelleFulfillmentSummary | undefined;
+
+    if (!summary) {
+      throw new Error(
+        job?.lastError ||
+          `${welle} fulfillment is already running (job ${queued.id}) - complete the task once it has finished`,
+      );
+    }
 
     // If any orders failed, throw with the summary attached so the UI can display details
     if (summary.failed > 0) {
@@ -467,7 +503,7 @@ class TaskService {
   }
 
   /**
-   * Create a task record from TASK_TIMELINE config and immediately skip it.
+   * Create a task record from the event's timeline and immediately skip it.
    * Used for virtual cells that have no Airtable record yet.
    */
   async createAndSkipTask(
@@ -475,11 +511,11 @@ class TaskService {
     templateId: string,
     adminEmail: string,
   ): Promise<Task> {
-    const entry = TASK_TIMELINE.find((e) => e.id === templateId);
-    if (!entry) throw new Error(`Unknown template: ${templateId}`);
+    if (!getTimelineEntry(templateId)) throw new Error(`Unknown template: ${templateId}`);
 
     const event = await this.airtable.getEventById(eventId);
     if (!event) throw new Error(`Event not found: ${eventId}`);
+    const entry = await this.getEventTimelineEntry(event, templateId);
 
     // Check for existing task record (race condition guard)
     const base = this.airtable.getBase();
@@ -513,7 +549,7 @@ class TaskService {
   }
 
   /**
-   * Create a task record from TASK_TIMELINE config and immediately partially complete it.
+   * Create a task record from the event's timeline and immediately partially complete it.
    * Used for virtual cells that have no Airtable record yet.
    */
   async createAndPartialTask(
@@ -522,11 +558,11 @@ class TaskService {
     completionData: TaskCompletionData,
     adminEmail: string,
   ): Promise<Task> {
-    const entry = TASK_TIMELINE.find((e) => e.id === templateId);
-    if (!entry) throw new Error(`Unknown template: ${templateId}`);
+    if (!getTimelineEntry(templateId)) throw new Error(`Unknown template: ${templateId}`);
 
     const event = await this.airtable.getEventById(eventId);
     if (!event) throw new Error(`Event not found: ${eventId}`);
+    const entry = await this.getEventTimelineEntry(event, templateId);
 
     // Check for existing task record (race condition guard)
     const base = this.airtable.getBase();
@@ -684,17 +720,49 @@ class TaskService {
 
   /**
    * Mark a GuesstimateOrder as arrived (sets date_completed to today)
+   * and book its contents into stock. Already-arrived orders are returned
+   * unchanged so stock is never incremented twice.
    */
   async markGuesstimateOrderArrived(goId: string): Promise<GuesstimateOrder> {
     const base = this.airtable.getBase();
     const table = base(GUESSTIMATE_ORDERS_TABLE_ID);
 
+    const existing = this.transformGuesstimateOrderRecord(await this.findGoRecord(table, goId));
+    if (existing.date_completed) {
+      return existing;
+    }
+
     await table.update(goId, {
       [GUESSTIMATE_ORDERS_FIELD_IDS.date_completed]: new Date().toISOString().split('T')[0],
     });
 
     const updatedRecord = await this.findGoRecord(table, goId);
-    return this.transformGuesstimateOrderRecord(updatedRecord);
+    const updatedOrder = this.transformGuesstimateOrderRecord(updatedRecord);
+
+    try {
+      await getStockService().recordGuesstimateOrderArrival(updatedOrder);
+    } catch (error) {
+      // Arrival is already recorded on the GO; stock can be corrected manually
+      console.error(`[TaskService] Failed to book ${updatedOrder.go_id} into stock:`, error);
+    }
+
+    return updatedOrder;
+  }
+
+  /**
+   * Store the CD image built for an audio_master_cd task
+   */
+  async attachCdImage(taskId: string, attachment: CdImageAttachment): Promise<Task> {
+    const table = this.airtable.getBase()(TASKS_TABLE_ID);
+
+    await withRetry(() =>
+      table.update(taskId, {
+        [TASKS_FIELD_IDS.cd_image]: JSON.stringify(attachment),
+      } as Partial<Airtable.FieldSet>),
+    );
+
+    const updatedRecord = await this.findTaskRecord(table, taskId);
+    return this.transformTaskRecord(updatedRecord);
   }
 
   /**
@@ -731,7 +799,9 @@ class TaskService {
   }
 
   /**
-   * Generate all 11 tasks for an event using the canonical TASK_TIMELINE config.
+   * Generate the tasks for an event from its timeline template (the current
+   * template matching the event, unless it is already pinned to a version).
+   * Pins the event to that version so later template edits leave it alone.
    * Called when a SimplyBook booking is confirmed.
    */
   async generateTasksForEventV2(eventId: string): Promise<Task[]> {
@@ -741,33 +811,97 @@ class TaskService {
       throw new Error(`Event not found: ${eventId}`);
     }
 
-    const eventDate = new Date(event.event_date);
+    const timelineService = getTaskTimelineService();
+    const { template, entries } = await timelineService.getTimelineForEvent(event);
     const createdTasks: Task[] = [];
 
-    for (const entry of TASK_TIMELINE) {
-      const deadline = calculateDeadlineV2(eventDate, entry.offset);
-
-      const taskInput: CreateTaskInput = {
-        event_id: eventId,
-        template_id: entry.id,
-        task_type: this.mapPrefixToTaskType(entry.prefix, entry.id),
-        task_name: entry.displayName,
-        description: entry.description,
-        completion_type: entry.completion,
-        timeline_offset: entry.offset,
-        deadline: deadline.toISOString(),
-        status: 'pending',
-      };
-
-      const task = await this.createTask(taskInput);
+    for (const entry of entries) {
+      const task = await this.createTask(this.buildTimelineTaskInput(eventId, event.event_date, entry));
       createdTasks.push(task);
     }
 
+    await timelineService.pinEvent(eventId, template.id);
+
     return createdTasks;
   }
 
   /**
-   * Create a task record from TASK_TIMELINE config and immediately complete it.
+   * Compare an event's tasks with the current timeline template for the
+   * event, without changing anything.
+   */
+  async getTimelineRecompute(eventRecordId: string): Promise<TimelineRecompute> {
+    const event = await this.airtable.getEventById(eventRecordId);
+    if (!event) {
+      throw new Error(`Event not found: ${eventRecordId}`);
+    }
+
+    const [{ template, entries }, tasks] = await Promise.all([
+      getTaskTimelineService().getCurrentTimelineForEvent(event),
+      this.getEventTaskRecords(event),
+    ]);
+
+    return {
+      template: { id: template.id, key: template.key, name: template.name, version: template.version },
+      pinnedTemplateId: event.timeline_template,
+      diff: diffTimeline(tasks, entries),
+    };
+  }
+
+  /**
+   * Bring an event's tasks in line with the current timeline template:
+   * create missing tasks, move and cancel pending ones, then pin the event to
+   * the template version. Completed, skipped and partial tasks stay as they are.
+   */
+  async applyTimelineRecompute(eventRecordId: string): Promise<TimelineRecompute> {
+    const event = await this.airtable.getEventById(eventRecordId);
+    if (!event) {
+      throw new Error(`Event not found: ${eventRecordId}`);
+    }
+
+    const timelineService = getTaskTimelineService();
+    const [{ template, entries }, tasks] = await Promise.all([
+      timelineService.getCurrentTimelineForEvent(event),
+      this.getEventTaskRecords(event),
+    ]);
+    const diff = diffTimeline(tasks, entries);
+    const table = this.airtable.getBase()(TASKS_TABLE_ID);
+
+    for (const entry of diff.add) {
+      await this.createTask(this.buildTimelineTaskInput(eventRecordId, event.event_date, entry));
+    }
+
+    const updates: Array<{ id: string; fields: Partial<Airtable.FieldSet> }> = [
+      ...diff.reschedule.map((change) => ({
+        id: change.taskId,
+        fields: {
+          [TASKS_FIELD_IDS.timeline_offset]: change.toOffset,
+          [TASKS_FIELD_IDS.deadline]: calculateDeadlineV2(event.event_date, change.toOffset).toISOString().split('T')[0],
+        },
+      })),
+      ...diff.cancel.map((change) => ({
+        id: change.taskId,
+        fields: { [TASKS_FIELD_IDS.status]: 'cancelled' },
+      })),
+    ];
+
+    // Airtable accepts up to 10 records per update call
+    const BATCH_SIZE = 10;
+    for (let i = 0; i < updates.length; i += BATCH_SIZE) {
+      const chunk = updates.slice(i, i + BATCH_SIZE);
+      await withRetry(() => table.update(chunk));
+    }
+
+    await timelineService.pinEvent(eventRecordId, template.id);
+
+    return {
+      template: { id: template.id, key: template.key, name: template.name, version: template.version },
+      pinnedTemplateId: template.id,
+      diff,
+    };
+  }
+
+  /**
+   * Create a task record from the event's timeline and immediately complete it.
    * Used for virtual cells that have no Airtable record yet.
    */
   async createAndCompleteTask(
@@ -776,17 +910,17 @@ class TaskService {
     completionData: TaskCompletionData,
     adminEmail: string,
   ): Promise<{ task: Task; goId?: string }> {
-    // Find the TASK_TIMELINE entry
-    const entry = TASK_TIMELINE.find((e) => e.id === templateId);
-    if (!entry) {
+    // Check the template exists in the task catalog
+    if (!getTimelineEntry(templateId)) {
       throw new Error(`Unknown template: ${templateId}`);
     }
 
-    // Fetch event to compute deadline
+    // Fetch event to compute deadline from its timeline
     const event = await this.airtable.getEventById(eventId);
     if (!event) {
       throw new Error(`Event not found: ${eventId}`);
     }
+    const entry = await this.getEventTimelineEntry(event, templateId);
 
     // Check for existing task record (race condition guard)
     const base = this.airtable.getBase();
@@ -829,7 +963,8 @@ class TaskService {
   /**
    * Get a task matrix: one row per Confirmed event, one cell per timeline task.
    * Event-driven: shows ALL confirmed events with virtual cells computed from
-   * TASK_TIMELINE, overlaying any real task records on top.
+   * each event's timeline template, overlaying any real task records on top.
+   * Tasks outside an event's timeline have no cell.
    */
   async getTaskMatrix(filters?: {
     dateFrom?: string;
@@ -851,6 +986,7 @@ class TaskService {
           .all(),
       ),
     ]);
+    const timelines = await getTaskTimelineService().getTimelines(confirmedEvents);
 
     // 2. Index tasks by event_id → template_id for O(1) lookup
     const taskIndex = new Map<string, Map<string, Task>>();
@@ -882,7 +1018,7 @@ class TaskService {
       const eventTaskMap = taskIndex.get(event.id);
       const cells: Record<string, TaskMatrixCell> = {};
 
-      for (const entry of TASK_TIMELINE) {
+      for (const entry of this.getMatrixEntries(timelines.get(event.id)?.entries, eventTaskMap)) {
         const realTask = eventTaskMap?.get(entry.id);
 
         if (realTask) {
@@ -917,7 +1053,7 @@ class TaskService {
             completedAt: realTask.completed_at,
           };
         } else {
-          // Virtual cell — compute from TASK_TIMELINE config
+          // Virtual cell — compute from the event's timeline
           const deadline = calculateDeadlineV2(event.event_date, entry.offset);
           deadline.setHours(0, 0, 0, 0);
           const diffMs = deadline.getTime() - now.getTime();
@@ -1002,8 +1138,8 @@ class TaskService {
 
   /**
    * Get pending tasks grouped by deadline date within a date range.
-   * Event-driven: computes virtual tasks from TASK_TIMELINE for all Confirmed
-   * events, overlaying real task records on top.
+   * Event-driven: computes virtual tasks from each event's timeline for all
+   * Confirmed events, overlaying real task records on top.
    */
   async getTasksByDate(
     dateFrom: string,
@@ -1022,6 +1158,7 @@ class TaskService {
         })
         .all(),
     ]);
+    const timelines = await getTaskTimelineService().getTimelines(confirmedEvents);
 
     // 2. Index tasks by event_id → template_id
     const taskIndex = new Map<string, Map<string, Task>>();
@@ -1052,7 +1189,7 @@ class TaskService {
 
       const eventTaskMap = taskIndex.get(event.id);
 
-      for (const entry of TASK_TIMELINE) {
+      for (const entry of this.getMatrixEntries(timelines.get(event.id)?.entries, eventTaskMap)) {
         const deadline = calculateDeadlineV2(event.event_date, entry.offset);
         deadline.setHours(0, 0, 0, 0);
 
@@ -1082,7 +1219,7 @@ class TaskService {
             is_overdue: isOverdue,
           };
         } else {
-          // Virtual task — construct from TASK_TIMELINE config
+          // Virtual task — construct from the event's timeline
           taskDetails = {
             id: `virtual_${event.id}_${entry.id}`,
             task_id: `virtual_${event.id}_${entry.id}`,
@@ -1119,6 +1256,66 @@ class TaskService {
   // Private helper methods
   // ============================================================
 
+  private buildTimelineTaskInput(eventId: string, eventDate: string, entry: TaskTimelineEntry): CreateTaskInput {
+    return {
+      event_id: eventId,
+      template_id: entry.id,
+      task_type: this.mapPrefixToTaskType(entry.prefix, entry.id),
+      task_name: entry.displayName,
+      description: entry.description,
+      completion_type: entry.completion,
+      timeline_offset: entry.offset,
+      deadline: calculateDeadlineV2(eventDate, entry.offset).toISOString(),
+      status: 'pending',
+    };
+  }
+
+  /**
+   * A catalog task with the offset from the event's timeline. Tasks outside
+   * the timeline keep their catalog offset.
+   */
+  private async getEventTimelineEntry(event: Event, templateId: string): Promise<TaskTimelineEntry> {
+    const { entries } = await getTaskTimelineService().getTimelineForEvent(event);
+    const entry = entries.find((e) => e.id === templateId) || getTimelineEntry(templateId);
+    if (!entry) throw new Error(`Unknown template: ${templateId}`);
+    return entry;
+  }
+
+  /**
+   * The entries shown for an event: its timeline (all catalog tasks when
+   * unknown), plus real tasks the timeline no longer contains so worked-on
+   * tasks don't disappear.
+   */
+  private getMatrixEntries(
+    timeline: TaskTimelineEntry[] | undefined,
+    eventTaskMap: Map<string, Task> | undefined,
+  ): TaskTimelineEntry[] {
+    const entries = timeline ? [...timeline] : [];
+    for (const task of Array.from(eventTaskMap?.values() ?? [])) {
+      const catalogEntry = getTimelineEntry(task.template_id);
+      if (catalogEntry && !entries.some((e) => e.id === task.template_id)) {
+        entries.push({ ...catalogEntry, offset: task.timeline_offset });
+      }
+    }
+    return entries;
+  }
+
+  /**
+   * All task records of an event (including cancelled ones)
+   */
+  private async getEventTaskRecords(event: Event): Promise<Task[]> {
+    const records = await withRetry(() =>
+      this.airtable
+        .getBase()(TASKS_TABLE_ID)
+        .select({
+          returnFieldsByFieldId: true,
+          filterByFormula: `{${TASKS_FIELD_IDS.event_id}} = '${event.event_id}'`,
+        })
+        .all(),
+    );
+    return records.map((record) => this.transformTaskRecord(record));
+  }
+
   private transformTaskRecord(record: { id: string; fields: Record<string, unknown> } | { id: string; get: (field: string) => unknown }): Task {
     // Handle both raw record and Airtable record formats
     const get = (field: string) => {
@@ -1152,6 +1349,7 @@ class TaskService {
       completion_data: get(TASKS_FIELD_IDS.completion_data) as string | undefined,
       go_id: goIds?.[0],
       order_ids: get(TASKS_FIELD_IDS.order_ids) as string | undefined,
+      cd_image: get(TASKS_FIELD_IDS.cd_image) as string | undefined,
       created_at: (get(TASKS_FIELD_IDS.created_at) as string) || '',
     };
   }
@@ -1332,18 +1530,22 @@ class TaskService {
         .all(),
     );
 
-    // Build the update set first. Prefer the canonical offset from the v2 timeline
-    // (looked up via template_id) so the timeline config is the single source of
-    // truth; fall back to the stored timeline_offset for legacy templates that are
-    // not in the v2 timeline. Uses the UTC-safe v2 calculator to avoid DST/TZ
+    // Build the update set first. Prefer the offset from the event's timeline
+    // template (looked up via template_id) so the template is the single source
+    // of truth; fall back to the stored timeline_offset for legacy templates that
+    // are not in the timeline. Uses the UTC-safe v2 calculator to avoid DST/TZ
     // off-by-one bugs.
+    const event = await this.airtable.getEventById(eventRecordId);
+    const timeline = event
+      ? (await getTaskTimelineService().getTimelineForEvent(event)).entries
+      : undefined;
     const updates: Array<{ id: string; fields: Partial<Airtable.FieldSet> }> = [];
 
     for (const record of records) {
       const templateId = record.get(TASKS_FIELD_IDS.template_id) as string | undefined;
       const storedOffset = record.get(TASKS_FIELD_IDS.timeline_offset) as number | undefined;
 
-      const newDeadline = computeNewDeadline(eventDate, templateId, storedOffset);
+      const newDeadline = computeNewDeadline(eventDate, templateId, storedOffset, timeline);
 
       // Skip tasks without an offset (e.g., manually created tasks)
       if (newDeadline === null) {
@@ -1384,9 +1586,13 @@ class TaskService {
    *
    * Fetches all orders linked to the event, parses their line_items JSON,
    * and sums quantities of items classified as 'audio' (CD variants).
+   * Reports over many events pass the event's orders from a single fetch.
    */
-  async getCdQuantityForEvent(eventRecordId: string): Promise<number> {
-    const orders = await getOrdersByEventRecordId(eventRecordId);
+  async getCdQuantityForEvent(
+    eventRecordId: string,
+    eventOrders?: Array<{ id: string; get(field: string): unknown }>
+  ): Promise<number> {
+    const orders = eventOrders ?? (await getOrdersByEventRecordId(eventRecordId));
 
     let totalCdQuantity = 0;
 
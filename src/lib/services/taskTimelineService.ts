@@ -0,0 +1,240 @@
+import Airtable from 'airtable';
+import { getAirtableService } from './airtableService';
+import { getEventTier } from './emailAutomationService';
+import {
+  TASK_TIMELINE_TEMPLATES_TABLE_ID,
+  TASK_TIMELINE_TEMPLATES_FIELD_IDS,
+  type Event,
+} from '@/lib/types/airtable';
+import {
+  BUILTIN_TIMELINE_TEMPLATE,
+  BUILTIN_TIMELINE_TEMPLATE_ID,
+  resolveTimelineEntries,
+  selectTimelineTemplate,
+  validateTimelineTemplateInput,
+  type TaskTimelineEntry,
+  type TimelineConditions,
+  type TimelineEventFacts,
+  type TimelineTemplate,
+  type TimelineTemplateInput,
+  type TimelineTemplateStatus,
+  type TimelineTemplateTask,
+} from '@/lib/config/taskTimeline';
+import { withRetry } from '@/lib/utils/withRetry';
+
+type TemplateRecord = Airtable.Record<Airtable.FieldSet>;
+
+export interface EventTimeline {
+  template: TimelineTemplate;
+  entries: TaskTimelineEntry[];
+}
+
+function parseJson<T>(value: unknown, fallback: T): T {
+  if (typeof value !== 'string' || value === '') return fallback;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return fallback;
+  }
+}
+
+function slugify(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/ä/g, 'ae')
+    .replace(/ö/g, 'oe')
+    .replace(/ü/g, 'ue')
+    .replace(/ß/g, 'ss')
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+}
+
+/**
+ * The event properties timeline templates are matched on
+ */
+export function getTimelineEventFacts(event: Event): TimelineEventFacts {
+  return {
+    tier: getEventTier({
+      isPlus: event.is_plus,
+      isMinimusikertag: event.is_minimusikertag,
+      isSchulsong: event.is_schulsong,
+      eventId: event.event_id,
+      schoolName: event.school_name,
+    }),
+    isSchulsong: event.is_schulsong === true,
+    isScs: event.scs_shirts_included === true,
+    children: event.estimated_children,
+  };
+}
+
+/**
+ * TaskTimelineService - Versioned task timeline templates
+ *
+ * Every save writes a new version record and marks the previous one
+ * superseded, so events pinned to an older version (Events.timeline_template)
+ * keep generating the same tasks. Unpinned events follow the current template
+ * matching their tier, schulsong/SCS flags and child count.
+ */
+class TaskTimelineService {
+  private airtable = getAirtableService();
+
+  private get table() {
+    return this.airtable.getBase()(TASK_TIMELINE_TEMPLATES_TABLE_ID);
+  }
+
+  /**
+   * All template versions, newest first
+   */
+  async listTemplates(): Promise<TimelineTemplate[]> {
+    const records = await withRetry(() =>
+      this.table
+        .select({
+          returnFieldsByFieldId: true,
+          sort: [{ field: TASK_TIMELINE_TEMPLATES_FIELD_IDS.version, direction: 'desc' }],
+        })
+        .all()
+    );
+    return records.map((record) => this.transformTemplateRecord(record));
+  }
+
+  /**
+   * The timeline of each event, keyed by event record ID. Loads the
+   * templates once for all events.
+   */
+  async getTimelines(events: Event[]): Promise<Map<string, EventTimeline>> {
+    const templates = await this.listTemplates();
+    const timelines = new Map<string, EventTimeline>();
+    for (const event of events) {
+      timelines.set(event.id, this.resolveEventTimeline(event, templates));
+    }
+    return timelines;
+  }
+
+  async getTimelineForEvent(event: Event): Promise<EventTimeline> {
+    return this.resolveEventTimeline(event, await this.listTemplates());
+  }
+
+  /**
+   * The current template for an event, ignoring the version it is pinned to
+   * (what a recompute compares against)
+   */
+  async getCurrentTimelineForEvent(event: Event): Promise<EventTimeline> {
+    const template = selectTimelineTemplate(await this.listTemplates(), getTimelineEventFacts(event));
+    return { template, entries: resolveTimelineEntries(template) };
+  }
+
+  /**
+   * Pin an event to the template version its tasks were generated from
+   */
+  async pinEvent(eventRecordId: string, templateId: string): Promise<void> {
+    await this.airtable.updateEventFields(eventRecordId, { timeline_template: templateId });
+  }
+
+  async createTemplate(input: TimelineTemplateInput, adminEmail: string): Promise<TimelineTemplate> {
+    const error = validateTimelineTemplateInput(input);
+    if (error) throw new Error(error);
+
+    const templates = await this.listTemplates();
+    const baseKey = slugify(input.name) || 'template';
+    let key = baseKey;
+    for (let n = 2; key === BUILTIN_TIMELINE_TEMPLATE_ID || templates.some((t) => t.key === key); n++) {
+      key = `${baseKey}_${n}`;
+    }
+
+    return this.createVersion(key, 1, input, adminEmail);
+  }
+
+  /**
+   * Save a new version of a template. The previous version stays readable
+   * for events pinned to it.
+   */
+  async updateTemplate(key: string, input: TimelineTemplateInput, adminEmail: string): Promise<TimelineTemplate> {
+    const error = validateTimelineTemplateInput(input);
+    if (error) throw new Error(error);
+
+    const current = await this.getCurrentVersion(key);
+    const created = await this.createVersion(key, current.version + 1, input, adminEmail);
+    await this.table.update(current.id, {
+      [TASK_TIMELINE_TEMPLATES_FIELD_IDS.status]: 'superseded',
+    });
+    return created;
+  }
+
+  /**
+   * Stop matching new events. Pinned events keep their version.
+   */
+  async archiveTemplate(key: string): Promise<void> {
+    const current = await this.getCurrentVersion(key);
+    await this.table.update(current.id, {
+      [TASK_TIMELINE_TEMPLATES_FIELD_IDS.status]: 'archived',
+    });
+  }
+
+  // ============================================================
+  // Private helper methods
+  // ============================================================
+
+  private resolveEventTimeline(event: Event, templates: TimelineTemplate[]): EventTimeline {
+    const pinned = event.timeline_template
+      ? event.timeline_template === BUILTIN_TIMELINE_TEMPLATE_ID
+        ? BUILTIN_TIMELINE_TEMPLATE
+        : templates.find((template) => template.id === event.timeline_template)
+      : undefined;
+    const template = pinned || selectTimelineTemplate(templates, getTimelineEventFacts(event));
+    return { template, entries: resolveTimelineEntries(template) };
+  }
+
+  private async getCurrentVersion(key: string): Promise<TimelineTemplate> {
+    const current = (await this.listTemplates()).find(
+      (template) => template.key === key && template.status === 'current'
+    );
+    if (!current) throw new Error(`Template not found: ${key}`);
+    return current;
+  }
+
+  private async createVersion(
+    key: string,
+    version: number,
+    input: TimelineTemplateInput,
+    adminEmail: string
+  ): Promise<TimelineTemplate> {
+    const record = await this.table.create({
+      [TASK_TIMELINE_TEMPLATES_FIELD_IDS.name]: input.name.trim(),
+      [TASK_TIMELINE_TEMPLATES_FIELD_IDS.template_key]: key,
+      [TASK_TIMELINE_TEMPLATES_FIELD_IDS.version]: version,
+      [TASK_TIMELINE_TEMPLATES_FIELD_IDS.status]: 'current',
+      [TASK_TIMELINE_TEMPLATES_FIELD_IDS.priority]: input.priority,
+      [TASK_TIMELINE_TEMPLATES_FIELD_IDS.conditions]: JSON.stringify(input.conditions || {}),
+      [TASK_TIMELINE_TEMPLATES_FIELD_IDS.tasks]: JSON.stringify(input.tasks),
+      [TASK_TIMELINE_TEMPLATES_FIELD_IDS.created_by]: adminEmail,
+      [TASK_TIMELINE_TEMPLATES_FIELD_IDS.created_at]: new Date().toISOString(),
+    });
+    return this.transformTemplateRecord(record);
+  }
+
+  private transformTemplateRecord(record: TemplateRecord): TimelineTemplate {
+    const get = (field: string) => record.get(field);
+    return {
+      id: record.id,
+      key: (get(TASK_TIMELINE_TEMPLATES_FIELD_IDS.template_key) as string) || record.id,
+      name: (get(TASK_TIMELINE_TEMPLATES_FIELD_IDS.name) as string) || '',
+      version: (get(TASK_TIMELINE_TEMPLATES_FIELD_IDS.version) as number) || 1,
+      priority: (get(TASK_TIMELINE_TEMPLATES_FIELD_IDS.priority) as number) || 0,
+      conditions: parseJson<TimelineConditions>(get(TASK_TIMELINE_TEMPLATES_FIELD_IDS.conditions), {}),
+      tasks: parseJson<TimelineTemplateTask[]>(get(TASK_TIMELINE_TEMPLATES_FIELD_IDS.tasks), []),
+      status: (get(TASK_TIMELINE_TEMPLATES_FIELD_IDS.status) as TimelineTemplateStatus) || 'current',
+      createdBy: get(TASK_TIMELINE_TEMPLATES_FIELD_IDS.created_by) as string | undefined,
+      createdAt: get(TASK_TIMELINE_TEMPLATES_FIELD_IDS.created_at) as string | undefined,
+    };
+  }
+}
+
+// Singleton instance
+let taskTimelineServiceInstance: TaskTimelineService | null = null;
+
+export function getTaskTimelineService(): TaskTimelineService {
+  if (!taskTimelineServiceInstance) {
+    taskTimelineServiceInstance = new TaskTimelineService();
+  }
+  return taskTimelineServiceInstance;
+}
@@ -3,6 +3,7 @@ import crypto from 'crypto';
 import { generateClassId } from '@/lib/utils/eventIdentifiers';
 import { dedupeClassViews } from '@/lib/utils/eventAggregation';
 import { assertReadyEligible } from '@/lib/utils/audioFileInvariants';
+import type { AudioAnalysis } from '@/lib/utils/audioAnalysis';
 import { isSchulsongOnlyEvent } from '@/lib/utils/eventTier';
 import {
   Teacher,
@@ -915,6 +916,20 @@ class TeacherService {
       previewR2Key: record.fields.preview_r2_key || record.fields[AUDIO_FILES_FIELD_IDS.preview_r2_key],
       mp3R2Key: record.fields.mp3_r2_key || record.fields[AUDIO_FILES_FIELD_IDS.mp3_r2_key],
       schulsongVersion: record.fields.schulsong_version || record.fields[AUDIO_FILES_FIELD_IDS.schulsong_version],
+      // Loudness normalization
+      loudnessLufs: record.fields.loudness_lufs ?? record.fields[AUDIO_FILES_FIELD_IDS.loudness_lufs],
+      truePeakDbtp: record.fields.true_peak_dbtp ?? record.fields[AUDIO_FILES_FIELD_IDS.true_peak_dbtp],
+      masteringPreset: record.fields.mastering_preset || record.fields[AUDIO_FILES_FIELD_IDS.mastering_preset],
+      // Upload analysis
+      sampleRate: record.fields.sample_rate ?? record.fields[AUDIO_FILES_FIELD_IDS.sample_rate],
+      channels: record.fields.channels ?? record.fields[AUDIO_FILES_FIELD_IDS.channels],
+      peakDbfs: record.fields.peak_dbfs ?? record.fields[AUDIO_FILES_FIELD_IDS.peak_dbfs],
+      clippingPercent: record.fields.clipping_percent ?? record.fields[AUDIO_FILES_FIELD_IDS.clipping_percent],
+      leadingSilenceSeconds:
+        record.fields.leading_silence_seconds ?? record.fields[AUDIO_FILES_FIELD_IDS.leading_silence_seconds],
+      trailingSilenceSeconds:
+        record.fields.trailing_silence_seconds ?? record.fields[AUDIO_FILES_FIELD_IDS.trailing_silence_seconds],
+      analyzedAt: record.fields.analyzed_at || record.fields[AUDIO_FILES_FIELD_IDS.analyzed_at],
     };
   }
 
@@ -1307,6 +1322,9 @@ class TeacherService {
       previewR2Key?: string;
       mp3R2Key?: string;
       schulsongVersion?: number;
+      loudnessLufs?: number;
+      truePeakDbtp?: number;
+      masteringPreset?: string;
     }
   ): Promise<AudioFile> {
     try {
@@ -1333,6 +1351,9 @@ class TeacherService {
       if (data.previewR2Key !== undefined) updateData.preview_r2_key = data.previewR2Key;
       if (data.mp3R2Key !== undefined) updateData.mp3_r2_key = data.mp3R2Key;
       if (data.schulsongVersion !== undefined) updateData.schulsong_version = data.schulsongVersion;
+      if (data.loudnessLufs !== undefined) updateData.loudness_lufs = data.loudnessLufs;
+      if (data.truePeakDbtp !== undefined) updateData.true_peak_dbtp = data.truePeakDbtp;
+      if (data.masteringPreset !== undefined) updateData.mastering_preset = data.masteringPreset;
       // Update uploaded_at timestamp
       updateData.uploaded_at = new Date().toISOString();
 
@@ -1344,6 +1365,30 @@ class TeacherService {
     }
   }
 
+  /**
+   * Store the upload analysis of an audio file. Unlike updateAudioFile this
+   * leaves uploaded_at alone, the analysis runs after the upload.
+   */
+  async updateAudioFileAnalysis(audioFileId: string, analysis: AudioAnalysis): Promise<AudioFile> {
+    try {
+      const record = await this.base(AUDIO_FILES_TABLE).update(audioFileId, {
+        duration_seconds: Math.round(analysis.durationSeconds),
+        sample_rate: analysis.sampleRate,
+        channels: analysis.channels || undefined,
+        // Digital silence has no finite peak
+        peak_dbfs: Number.isFinite(analysis.peakDbfs) ? analysis.peakDbfs : undefined,
+        clipping_percent: analysis.clippingPercent,
+        leading_silence_seconds: analysis.leadingSilenceSeconds,
+        trailing_silence_seconds: analysis.trailingSilenceSeconds,
+        analyzed_at: new Date().toISOString(),
+      });
+      return this.transformAudioFileRecord(record);
+    } catch (error) {
+      console.error('Error storing audio analysis:', error);
+      throw new Error(`Failed to store audio analysis: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   /**
    * Update audio file approval status
    * Used by admin to approve or reject final audio tracks
@@ -30,7 +30,7 @@ jest.mock('@/lib/config/trigger-email-registry', () => {
       recipientType: 'teacher',
       defaultSubject: 's',
       defaultBodyHtml: 'b',
-      availableVariables: [],
+      availableVariables: ['parentName', 'childName'],
     },
     {
       slug: 'test_default_inactive',
@@ -58,6 +58,7 @@ import {
   seedMissingTriggerTemplates,
   renderTriggerTemplate,
   getSampleVariables,
+  validateTriggerTemplateVariables,
 } from './triggerTemplateService';
 
 describe('defaultActive plumbing', () => {
@@ -158,6 +159,31 @@ describe('renderTriggerTemplate variable resolution', () => {
   });
 });
 
+describe('renderTriggerTemplate conditional sections', () => {
+  it('resolves {{#if}} under both naming conventions', () => {
+    const template = '{{#if childName}}Für {{childName}}.{{/if}}{{#if school_name}} An der {{school_name}}.{{/if}}';
+    expect(renderTriggerTemplate(template, { childName: 'Max', schoolName: 'GS' })).toBe('Für Max. An der GS.');
+    expect(renderTriggerTemplate(template, { childName: '' })).toBe('');
+  });
+});
+
+describe('validateTriggerTemplateVariables', () => {
+  it('accepts registry variables and their snake_case aliases', () => {
+    expect(
+      validateTriggerTemplateVariables('test_default_active', {
+        subject: 'Hallo {{parentName}}',
+        bodyHtml: '{{#if child_name}}{{{childName}}}{{/if}}',
+      })
+    ).toBeNull();
+  });
+
+  it('rejects variables the trigger does not provide', () => {
+    expect(
+      validateTriggerTemplateVariables('test_default_active', { bodyHtml: 'Hallo {{teacherName}}' })
+    ).toBe('Unbekannte Variable: {{teacherName}}');
+  });
+});
+
 describe('getSampleVariables for mix-ready trigger templates', () => {
   it.each([
     'parent_mix_ready_audio_buyer',
@@ -9,7 +9,12 @@ import { getAirtableService } from './airtableService';
 import { getCampaignEmailTemplate, EmailTemplateOptions } from './emailTemplateWrapper';
 import { TRIGGER_EMAIL_REGISTRY, getRegistryEntry } from '@/lib/config/trigger-email-registry';
 import { getTriggerEvent } from '@/lib/config/trigger-event-catalog';
-import { TriggerEmailTemplate } from '@/lib/types/email-automation';
+import { TriggerEmailTemplate, EmailBlock } from '@/lib/types/email-automation';
+import {
+  applyConditionalSections,
+  findUnknownVariables,
+  formatUnknownVariablesError,
+} from '@/lib/utils/emailBlocks';
 
 // ─── In-memory cache (60s TTL) ────────────────────────────────────────
 interface CacheEntry {
@@ -149,6 +154,32 @@ export async function getTriggerTemplate(slug: string): Promise<TriggerTemplateR
   };
 }
 
+function toSnakeAlias(key: string): string {
+  return key.replace(/([A-Z])/g, '_$1').toLowerCase();
+}
+
+/**
+ * Variables a trigger template may use: the registry's camelCase names and
+ * their snake_case aliases (see renderTriggerTemplate)
+ */
+export function getTriggerTemplateVariables(slug: string): string[] {
+  const entry = getRegistryEntry(slug);
+  if (!entry) return [];
+  return [...new Set(entry.availableVariables.flatMap((v) => [v, toSnakeAlias(v)]))];
+}
+
+/**
+ * Check that a trigger template only uses its registry variables. Returns
+ * an error message or null.
+ */
+export function validateTriggerTemplateVariables(
+  slug: string,
+  content: { subject?: string; bodyHtml?: string }
+): string | null {
+  const text = [content.subject, content.bodyHtml].filter(Boolean).join('\n');
+  return formatUnknownVariablesError(findUnknownVariables(text, getTriggerTemplateVariables(slug)));
+}
+
 /**
  * Substitute {{variable}} placeholders in a template string.
  *
@@ -172,13 +203,14 @@ export function renderTriggerTemplate(
   for (const [key, value] of Object.entries(variables)) {
     if (value === undefined || value === null) continue;
     resolved[key] = value;
-    const snakeAlias = key.replace(/([A-Z])/g, '_$1').toLowerCase();
+    const snakeAlias = toSnakeAlias(key);
     if (snakeAlias !== key && resolved[snakeAlias] === undefined) {
       resolved[snakeAlias] = value;
     }
   }
 
-  let result = template;
+  // {{#if key}}...{{/if}} sections from conditional builder blocks
+  let result = applyConditionalSections(template, (key) => !!resolved[key]);
   for (const [key, value] of Object.entries(resolved)) {
     // Handle triple braces first ({{{key}}} — Mustache-style unescaped HTML), then
     // double braces. Use the function replacer so `$` sequences in the value (e.g.
@@ -301,6 +333,7 @@ export async function getAllTriggerTemplates(): Promise<TriggerEmailTemplate[]>
         recipientType: entry.recipientType,
         subject: record?.subject ?? entry.defaultSubject,
         bodyHtml: record?.bodyHtml ?? entry.defaultBodyHtml,
+        bodyBlocks: record?.bodyBlocks,
         active: record?.active ?? (entry.defaultActive ?? true),
         availableVariables: entry.availableVariables,
         isCustomized,
@@ -367,6 +400,7 @@ export async function getTriggerTemplateBySlug(slug: string): Promise<TriggerEma
       recipientType: entry.recipientType,
       subject: record?.subject ?? entry.defaultSubject,
       bodyHtml: record?.bodyHtml ?? entry.defaultBodyHtml,
+      bodyBlocks: record?.bodyBlocks,
       active: record?.active ?? (entry.defaultActive ?? true),
       availableVariables: entry.availableVariables,
       isCustomized,
@@ -405,7 +439,7 @@ export async function getTriggerTemplateBySlug(slug: string): Promise<TriggerEma
  */
 export async function updateTriggerTemplate(
   slug: string,
-  updates: { subject?: string; bodyHtml?: string; active?: boolean }
+  updates: { subject?: string; bodyHtml?: string; bodyBlocks?: EmailBlock[]; active?: boolean }
 ): Promise<TriggerEmailTemplate | null> {
   const entry = getRegistryEntry(slug);
   if (!entry) return null;
@@ -446,6 +480,7 @@ export async function resetTriggerTemplate(slug: string): Promise<TriggerEmailTe
   return updateTriggerTemplate(slug, {
     subject: entry.defaultSubject,
     bodyHtml: entry.defaultBodyHtml,
+    bodyBlocks: [],
   });
 }
 
@@ -458,6 +493,15 @@ export function getSampleVariables(slug: string): Record<string, string> {
       teacherName: 'Frau Müller',
       magicLinkUrl: 'https://minimusiker.app/lehrer/login?token=sample-token-123',
     },
+    parent_magic_link: {
+      parentName: 'Anna',
+      magicLinkUrl: 'https://minimusiker.app/familie-login?token=sample-token-123',
+    },
+    staff_password_reset: {
+      staffName: 'Thomas',
+      resetUrl: 'https://minimusiker.app/passwort-zuruecksetzen?token=sample-token-123',
+      actionText: 'zurücksetzen',
+    },
     new_booking_notification: {
       schoolName: 'Grundschule Sonnenschein',
       eventDate: 'Montag, 15. März 2025',
@@ -578,6 +622,14 @@ export function getSampleVariables(slug: string): Record<string, string> {
       unitId: '42',
       reason: 'Kein Mitarbeiter mit Provider ID 42 gefunden, Region-Fallback ebenfalls fehlgeschlagen',
     },
+    size_exchange_request: {
+      orderNumber: '#1042',
+      schoolName: 'Grundschule Sonnenschein',
+      productTitle: 'T-Shirt (Personalisiert)',
+      currentSize: '110/116',
+      requestedSize: '122/128',
+      note: 'Leider zu klein, bitte eine Nummer größer.',
+    },
     event_readiness_no_staff: {
       count: '3',
       eventListHtml: '<table><tr><td>Grundschule Sonnenschein — 15.03.2025 — Köln/Bonn</td></tr></table>',
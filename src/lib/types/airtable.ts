@@ -37,6 +37,16 @@ export const PERSONEN_FIELD_IDS = {
   // New fields for teacher portal representative cards
   bio: 'fldTKYnqcGgBZrKK9', // Long text - Personal introduction shown to teachers
   profile_photo: 'fldcSWJFKy1DW8pXA', // R2 key - e.g., mm-staff-pictures/cassy.jpg
+  // Login credentials (run scripts/create-staff-credential-fields.ts to patch IDs)
+  password_hash: 'fldSTAFFPWHASH00000',            // bcrypt hash
+  password_set_at: 'fldSTAFFPWSETAT0000',          // ISO timestamp of last set/reset
+  password_reset_token_hash: 'fldSTAFFRESETHASH00', // SHA-256 of pending reset token
+  password_reset_expires_at: 'fldSTAFFRESETEXP000',
+  failed_login_attempts: 'fldSTAFFFAILCOUNT00', // Consecutive failures since last success
+  locked_until: 'fldSTAFFLOCKEDUNTIL',          // ISO timestamp, login refused until then
+  totp_secret: 'fldSTAFFTOTPSECRET0',           // Base32 secret (admins only)
+  totp_enabled: 'fldSTAFFTOTPENABLED',          // Checkbox - second factor required at login
+  totp_last_used_step: 'fldSTAFFTOTPLASTSTEP', // Time step of the last accepted code (replay guard)
 } as const;
 
 // SchoolBookings table (SimplyBook integration)
@@ -76,6 +86,21 @@ export const SCHOOL_BOOKINGS_FIELD_IDS = {
   secondary_contacts: 'fldwmGkwY7W7DzngT',
 } as const;
 
+// SimplyBook Webhook Log table - one row per received notification
+// (run scripts/create-simplybook-webhook-log-table.ts to patch IDs)
+export const SIMPLYBOOK_WEBHOOK_LOG_TABLE_ID = 'tblSBWEBHOOKLOG0000';
+
+export const SIMPLYBOOK_WEBHOOK_LOG_FIELD_IDS = {
+  delivery_key: 'fldSBWHKEY000000000',       // Single line text (Primary) - "<booking_id>:<notification_type>"
+  booking_id: 'fldSBWHBOOKINGID000',         // Single line text
+  notification_type: 'fldSBWHTYPE00000000',  // Single select: create, change, cancel
+  company: 'fldSBWHCOMPANY00000',            // Single line text
+  status: 'fldSBWHSTATUS000000',             // Single select: SimplybookWebhookLogStatus
+  detail: 'fldSBWHDETAIL000000',             // Long text - skip reason or error message
+  received_at: 'fldSBWHRECEIVEDAT00',        // Date/time
+  processed_at: 'fldSBWHPROCESSEDAT0',       // Date/time
+} as const;
+
 // Secondary contact for school bookings
 export interface SecondaryContact {
   name: string;
@@ -291,6 +316,18 @@ export interface ParentSession {
   loginTimestamp: number;
 }
 
+/**
+ * Parent magic link token expiration time (30 minutes in milliseconds).
+ * Shorter than the teacher link because parent logins expose children's data.
+ */
+export const PARENT_MAGIC_LINK_EXPIRY_MS = 30 * 60 * 1000;
+
+// Result of redeeming a parent magic link token
+export type ParentMagicLinkResult =
+  | { status: 'valid'; email: string }
+  | { status: 'invalid' }
+  | { status: 'expired' };
+
 // Event and class details for registration
 export interface EventClassDetails {
   schoolName: string;
@@ -587,6 +624,12 @@ export const EVENTS_FIELD_IDS = {
   tracklist_finalized_at: 'fldAAcT2sIrFJ2Jq2',    // DateTime - when teacher finalized album order
   schulsong_tracklist_title: 'fld1A7YBxEuvp7tGZ',  // Text - custom schulsong title for CD booklet
   schulsong_tracklist_class: 'fldGaMcbL72bq2WXm',  // Text - custom class/school name for schulsong on CD booklet
+  // Loudness normalization (run scripts/create-audio-mastering-fields.ts to patch IDs)
+  mastering_preset: 'fldEVMASTERPRESET00',  // Single Select - MasteringPresetId picked by the engineer (empty = default)
+  // Task timeline (run scripts/create-task-timeline-templates-table.ts to patch IDs)
+  timeline_template: 'fldEVTIMELINETPL000', // Single line text - TaskTimelineTemplates version record ID the tasks were generated from
+  // Data retention (run scripts/create-event-data-purged-field.ts to patch ID)
+  data_purged_at: 'fldEVDATAPURGEDAT0',     // DateTime - child names and raw audio purged by the retention job
 } as const;
 
 // Classes Table - 1 row per class
@@ -630,6 +673,11 @@ export const PARENTS_FIELD_IDS = {
   parent_telephone: 'fldG9NgGysXmZcQcu',
   email_campaigns: 'flddJfUYApbFbXbjy',
   created_at: 'fld3lXrbHzVyyomC5',
+  // Passwordless login (run scripts/create-parent-magic-link-fields.ts to patch IDs)
+  magic_link_token_hash: 'fldPARENTMAGICHASH0',  // SHA-256 of the one-time login token
+  magic_link_expires_at: 'fldPARENTMAGICEXP00',  // ISO timestamp after which the token is rejected
+  // Email preference center (run scripts/create-parent-email-preference-fields.ts to patch IDs)
+  email_opt_outs: 'fldPARENTOPTOUTS000',         // Multiple select of ParentEmailCategory values
 } as const;
 
 // Registrations Table - 1 row per child registration
@@ -648,12 +696,15 @@ export const REGISTRATIONS_FIELD_IDS = {
   registration_date: 'fldXlB5zyf1FXwxo9',
   registration_status: 'fldFx38yx2wrlvUeG',
   notes: 'fldVF6VpiV5cCxUnK',
+  // Parental consent (run scripts/create-registration-consent-field.ts to patch IDs)
+  consent_history: 'fldREGCONSENTHIST0', // JSON ChildConsentChange[], appended on every consent choice
 } as const;
 
 // Songs Table - New linked record fields (existing table)
 export const SONGS_LINKED_FIELD_IDS = {
   class_link: 'fldMPAHLnyNralsLS',      // Linked record → Classes
   event_link: 'fldygKERszsLFRBaS',      // Linked record → Events
+  repertoire_work: 'fldSONGREPWORK0000', // Linked record → Repertoire (confirmed GEMA match)
 } as const;
 
 // AudioFiles Table - New linked record fields (existing table)
@@ -689,6 +740,11 @@ export const ORDERS_FIELD_IDS = {
   cancel_reason: 'fld768qHuCqNujx8c',      // Shopify cancel reason
   shipment_wave: 'fldW8dHkHV4lB8YW0',
   is_test: 'fldX58K3ahfzF1Tu2',            // Checkbox — true if Shopify order.test === true
+  // Parent order history (run scripts/create-order-tracking-fields.ts to patch IDs)
+  tracking_info: 'fldORDTRACKINGINFO0',    // Long text (JSON OrderTrackingInfo[]) - from orders/fulfilled
+  exchange_requests: 'fldORDEXCHANGEREQS0', // Long text (JSON SizeExchangeRequest[]) - parent size exchanges
+  // Line-level refunds (run scripts/create-order-refund-items-field.ts to patch ID)
+  refund_line_items: 'fldORDREFUNDITEMS00', // Long text (JSON OrderRefundLineItem[]) - from orders/updated
 } as const;
 
 // SchulClothingOrders Table — SCS t-shirt size tracking (one order per event)
@@ -869,6 +925,10 @@ export interface Event {
   tracklist_finalized_at?: string;                   // ISO datetime when teacher finalized tracklist
   schulsong_tracklist_title?: string;                 // Custom schulsong title for CD booklet
   schulsong_tracklist_class?: string;                  // Custom class/school name for schulsong on CD booklet
+  // Loudness normalization
+  mastering_preset?: string;                           // MasteringPresetId finals are normalized to (empty = default preset)
+  // Task timeline
+  timeline_template?: string;                          // Timeline template version the event's tasks follow (empty = current matching template)
 }
 
 /**
@@ -916,9 +976,21 @@ export interface Parent {
   parent_first_name: string;
   parent_telephone: string;
   email_campaigns?: 'yes' | 'no';
+  email_opt_outs?: ParentEmailCategory[];  // Categories turned off in the preference center
   created_at: string;
 }
 
+/**
+ * Campaign email categories parents can turn on and off individually.
+ * Transactional mail (order confirmations, login links) has no category
+ * and is always sent.
+ */
+export type ParentEmailCategory =
+  | 'event_reminders'
+  | 'shop_promotions'
+  | 'audio_ready'
+  | 'schulsong_release';
+
 /**
  * Registration record - One row per child registration
  */
@@ -936,6 +1008,22 @@ export interface Registration {
   registration_date?: string;           // ISO date string
   registration_status?: string;
   notes?: string;
+  consent_history?: ChildConsentChange[];
+}
+
+/**
+ * What a parent can consent to for their child: being recorded, the name on
+ * printed material (CD jacket, name lists) and the class tracks in the
+ * downloadable album
+ */
+export type ConsentScope = 'audio_recording' | 'name_on_print' | 'album_download';
+
+export interface ChildConsentChange {
+  scope: ConsentScope;
+  granted: boolean;
+  at: string;                           // ISO timestamp of the parent's choice
+  version: string;                      // Version of the consent text shown (config/consentTexts.ts)
+  source: 'registration' | 'parent_portal';
 }
 
 // ======================================================================
@@ -954,6 +1042,42 @@ export interface ShopifyOrderLineItem {
   total: number;
 }
 
+/**
+ * Refunded (part of a) line item, taken from the Shopify refund
+ */
+export interface OrderRefundLineItem {
+  refund_id: string;                             // Shopify refund ID
+  variant_id: string;                            // gid://shopify/ProductVariant/...
+  product_title: string;
+  variant_title?: string;
+  quantity: number;                              // Refunded quantity
+  subtotal: number;                              // Refunded amount for the line (EUR)
+  refunded_at: string;                           // ISO datetime
+}
+
+/**
+ * Shipment of (part of) an order, taken from the Shopify fulfillment
+ */
+export interface OrderTrackingInfo {
+  company?: string;                              // Carrier, e.g. "DHL"
+  number?: string;
+  url?: string;
+  shippedAt: string;                             // ISO datetime
+}
+
+/**
+ * Size exchange a parent requested for a clothing line item
+ */
+export interface SizeExchangeRequest {
+  variant_id: string;                            // Line item being exchanged
+  product_title: string;
+  current_size: string;
+  requested_size: string;
+  note?: string;
+  requested_at: string;                          // ISO datetime
+  status: 'open' | 'done';
+}
+
 /**
  * Shopify order record stored in Airtable
  */
@@ -975,8 +1099,11 @@ export interface ShopifyOrder {
   payment_status: 'pending' | 'paid' | 'partially_refunded' | 'refunded' | 'voided';
   digital_delivered: boolean;                    // Has digital content been delivered?
   refund_amount?: number;                        // Amount refunded (EUR)
+  refund_line_items?: OrderRefundLineItem[];     // Parsed JSON, one entry per refunded line
   cancel_reason?: string;                        // Shopify cancel reason
   shipment_wave?: 'Welle 1' | 'Welle 2' | 'Both' | 'Rolling';
+  tracking_info?: OrderTrackingInfo[];           // Parsed JSON, one entry per Shopify fulfillment
+  exchange_requests?: SizeExchangeRequest[];     // Parsed JSON
   created_at: string;                            // Record creation timestamp
   updated_at: string;                            // Last update timestamp
 }
@@ -1028,6 +1155,8 @@ export const TASKS_FIELD_IDS = {
   order_ids: 'fldqilVgYKVAQsTpr',            // Long text (comma-separated)
   parent_task_id: 'fldN73QVTWRGYbaVJ',       // Linked record → Tasks (for shipping tasks)
   created_at: 'fldt32Ff4DXY8ax47',           // Date
+  // CD image (run scripts/create-cd-image-field.ts to patch IDs)
+  cd_image: 'fldTASKCDIMAGE00000',           // Long text (JSON CdImageAttachment, audio_master_cd only)
 } as const;
 
 // ======================================================================
@@ -1047,6 +1176,87 @@ export const GUESSTIMATE_ORDERS_FIELD_IDS = {
   created_at: 'fldNyOb6nXRoJ7CsX',           // Date
 } as const;
 
+// ======================================================================
+// STOCK ITEMS TABLE - Warehouse inventory (one row per STOCK_ITEMS entry + size)
+// ======================================================================
+
+export const STOCK_ITEMS_TABLE_ID = 'tblSTOCKITEMS000000';
+
+export const STOCK_ITEMS_FIELD_IDS = {
+  stock_key: 'fldSTOCKKEY00000000',          // Single line text (Primary) - "T-Shirt|98/104", "CD"
+  item: 'fldSTOCKITEM0000000',               // Single select: STOCK_ITEMS
+  size: 'fldSTOCKSIZE0000000',               // Single line text (empty for unsized items)
+  on_hand: 'fldSTOCKONHAND00000',            // Number - running total of all movements
+  base_cost: 'fldSTOCKBASECOST000',          // Number (Currency EUR)
+  cost_override: 'fldSTOCKCOSTOVERRID',      // Number (Currency EUR), empty = use base_cost
+  last_updated: 'fldSTOCKLASTUPDATED',       // Date/time
+  lock_token: 'fldSTOCKLOCKTOKEN00',         // Single line text - holder of the on-hand lock
+  locked_until: 'fldSTOCKLOCKEDUNTIL',       // Date/time - lock expiry (stale locks are ignored)
+} as const;
+
+// ======================================================================
+// STOCK MOVEMENTS TABLE - Audit trail of every on-hand change
+// ======================================================================
+
+export const STOCK_MOVEMENTS_TABLE_ID = 'tblSTOCKMOVEMENTS00';
+
+export const STOCK_MOVEMENTS_FIELD_IDS = {
+  movement_id: 'fldSTOCKMOVEID00000',        // Single line text (Primary) - "-2 T-Shirt|98/104"
+  stock_item: 'fldSTOCKMOVEITEM000',         // Linked record → Stock Items
+  quantity: 'fldSTOCKMOVEQTY0000',           // Number (signed: + arrival, - fulfilment)
+  reason: 'fldSTOCKMOVEREASON0',             // Single select: supplier_arrival, fulfillment, manual_correction
+  reference: 'fldSTOCKMOVEREF0000',          // Single line text (GO-0001, #1234 Welle 1)
+  note: 'fldSTOCKMOVENOTE000',               // Long text (required for manual corrections)
+  created_by: 'fldSTOCKMOVEBY00000',         // Single line text (admin email or "system")
+  created_at: 'fldSTOCKMOVEAT00000',         // Date/time
+} as const;
+
+// ======================================================================
+// JOBS TABLE - Background job queue (run scripts/create-jobs-table.ts to patch IDs)
+// ======================================================================
+
+export const JOBS_TABLE_ID = 'tblJOBS000000000000';
+
+export const JOBS_FIELD_IDS = {
+  label: 'fldJOBLABEL00000000',              // Single line text (Primary) - human readable
+  type: 'fldJOBTYPE000000000',               // Single select: JobType
+  status: 'fldJOBSTATUS0000000',             // Single select: queued, running, succeeded, failed
+  payload: 'fldJOBPAYLOAD000000',            // Long text (JSON)
+  steps: 'fldJOBSTEPS00000000',              // Long text (JSON JobStep[])
+  result: 'fldJOBRESULT0000000',             // Long text (JSON)
+  attempts: 'fldJOBATTEMPTS00000',           // Number - failed runs so far
+  max_attempts: 'fldJOBMAXATTEMPTS00',       // Number
+  run_after: 'fldJOBRUNAFTER00000',          // Date/time - earliest next run
+  locked_until: 'fldJOBLOCKEDUNTIL00',       // Date/time - runner lock expiry
+  lock_token: 'fldJOBLOCKTOKEN0000',         // Single line text - identifies the runner holding the lock
+  last_error: 'fldJOBLASTERROR0000',         // Long text
+  logs: 'fldJOBLOGS000000000',               // Long text - one "[ISO] message" per line
+  created_by: 'fldJOBCREATEDBY0000',         // Single line text (admin/engineer email or "system")
+  created_at: 'fldJOBCREATEDAT0000',         // Date/time
+  started_at: 'fldJOBSTARTEDAT0000',         // Date/time - first claim
+  finished_at: 'fldJOBFINISHEDAT000',        // Date/time
+  dedup_key: 'fldJOBDEDUPKEY00000',          // Single line text - same work, e.g. "fulfillment.welle:rec…:Welle 1"
+} as const;
+
+// ======================================================================
+// TASK TIMELINE TEMPLATES TABLE - Versioned task timelines per event kind
+// (run scripts/create-task-timeline-templates-table.ts to patch IDs)
+// ======================================================================
+
+export const TASK_TIMELINE_TEMPLATES_TABLE_ID = 'tblTIMELINETPL00000';
+
+export const TASK_TIMELINE_TEMPLATES_FIELD_IDS = {
+  name: 'fldTLTNAME000000000',               // Single line text (Primary)
+  template_key: 'fldTLTKEY0000000000',       // Single line text - shared by all versions
+  version: 'fldTLTVERSION000000',            // Number
+  status: 'fldTLTSTATUS0000000',             // Single select: current, superseded, archived
+  priority: 'fldTLTPRIORITY00000',           // Number - higher wins when several match
+  conditions: 'fldTLTCONDITIONS000',         // Long text (JSON TimelineConditions)
+  tasks: 'fldTLTTASKS00000000',              // Long text (JSON TimelineTemplateTask[])
+  created_by: 'fldTLTCREATEDBY0000',         // Single line text (admin email)
+  created_at: 'fldTLTCREATEDAT0000',         // Date/time
+} as const;
+
 // ======================================================================
 // EVENT MANUAL COSTS TABLE - Manual cost entries for Analytics
 // ======================================================================
@@ -1193,6 +1403,9 @@ export const LEADS_FIELD_IDS = {
   estimated_date: 'fld4EiwK640xIhWU7',
   estimated_month: 'fldghsrNWoplr1oc4',
   converted_booking_id: 'fldfd3b0ilM8STAGG',
+  // Pipeline automation (run scripts/create-lead-automation-fields.ts to patch IDs)
+  stage_history: 'fldLEADSTAGEHIST00',     // JSON LeadStageChange[], appended on every stage change
+  nurture_paused: 'fldLEADNURTUREOFF0',    // Checkbox: no automated nurture emails for this lead
 } as const;
 
 export type LeadStage = 'New' | 'Contacted' | 'In Discussion' | 'Won' | 'Lost';
@@ -1205,6 +1418,11 @@ export interface CallNote {
   notes: string;
 }
 
+export interface LeadStageChange {
+  stage: LeadStage;
+  at: string;                           // ISO timestamp the lead entered the stage
+}
+
 export interface Lead {
   id: string;
   schoolName: string;
@@ -1230,10 +1448,201 @@ export interface Lead {
   estimatedDate?: string;
   estimatedMonth?: string;
   convertedBookingId?: string;
+  stageHistory: LeadStageChange[];
+  nurturePaused?: boolean;
   createdAt: string;
   updatedAt: string;
 }
 
+// ==================== OFFERS (Angebote) ====================
+// One row per generated offer PDF. Regenerating for the same lead or event
+// adds a new version; older versions stay downloadable.
+// (run scripts/create-offers-table.ts to patch IDs)
+export const OFFERS_TABLE_ID = 'tblOFFERS000000000';
+
+export const OFFERS_FIELD_IDS = {
+  offer_number: 'fldOFFERNUMBER0000',      // Primary field, e.g. ANG-2026-4F2KQ-2
+  lead: 'fldOFFERLEAD000000',              // Link → Leads
+  event: 'fldOFFEREVENT00000',             // Link → Events
+  version: 'fldOFFERVERSION000',           // 1, 2, ... per lead/event
+  line_items: 'fldOFFERITEMS00000',        // JSON FeeBreakdown the PDF was rendered from
+  total: 'fldOFFERTOTAL00000',             // Currency
+  valid_until: 'fldOFFERVALID00000',       // Date
+  r2_key: 'fldOFFERR2KEY00000',            // PDF in the main R2 bucket
+  created_by: 'fldOFFERCREATEDBY0',        // Admin email
+  sent_at: 'fldOFFERSENTAT0000',           // Last time the PDF was emailed
+  sent_to: 'fldOFFERSENTTO0000',
+} as const;
+
+export interface Offer {
+  id: string;
+  offerNumber: string;
+  leadId?: string;
+  eventRecordId?: string;
+  version: number;
+  lineItems: { base: number; items: { label: string; amount: number }[]; total: number };
+  total: number;
+  validUntil: string;                   // YYYY-MM-DD
+  r2Key: string;
+  createdBy?: string;
+  sentAt?: string;
+  sentTo?: string;
+  createdAt: string;
+}
+
+// ==================== INVOICES (Rechnungen) ====================
+// One row per invoice or cancellation invoice (Stornorechnung). Numbers are
+// assigned when a draft is issued, so deleting drafts leaves no gaps.
+// (run scripts/create-invoices-table.ts to patch IDs)
+export const INVOICES_TABLE_ID = 'tblINVOICES0000000';
+
+export const INVOICES_FIELD_IDS = {
+  invoice_number: 'fldINVNUMBER000000',    // Primary field, e.g. RE-2026-0007 (empty while draft)
+  event: 'fldINVEVENT0000000',             // Link → Events
+  event_id: 'fldINVEVENTID00000',          // Event ID text, joins with analytics rows
+  invoice_type: 'fldINVTYPE00000000',      // Single select: invoice, storno
+  status: 'fldINVSTATUS000000',            // Single select: draft, sent, paid, overdue, cancelled
+  recipient: 'fldINVRECIPIENT000',         // JSON address block, frozen on creation
+  line_items: 'fldINVITEMS0000000',        // JSON InvoiceLineItem[]
+  vat_rate: 'fldINVVATRATE00000',          // Percent, e.g. 19
+  net_amount: 'fldINVNET000000000',        // Currency
+  vat_amount: 'fldINVVAT000000000',        // Currency
+  gross_amount: 'fldINVGROSS0000000',      // Currency
+  service_date: 'fldINVSERVICEDATE0',      // Leistungsdatum (event date)
+  issue_date: 'fldINVISSUEDATE000',        // Set on issue
+  due_date: 'fldINVDUEDATE00000',          // Set on issue
+  r2_key: 'fldINVR2KEY0000000',            // PDF in the main R2 bucket, set on issue
+  sent_at: 'fldINVSENTAT000000',
+  sent_to: 'fldINVSENTTO000000',
+  paid_at: 'fldINVPAIDAT000000',           // Date
+  cancels: 'fldINVCANCELS00000',           // Link → Invoices (Storno → original)
+  cancellation_reason: 'fldINVCANCELREASON',
+  dunning_level: 'fldINVDUNNINGLEVEL',     // 0 = none, 1 = Zahlungserinnerung, 2 = Mahnung
+  last_dunning_at: 'fldINVLASTDUNNING0',
+  created_by: 'fldINVCREATEDBY000',        // Admin email
+  issue_token: 'fldINVISSUETOKEN00',       // Single line text - holder of the issue lock (issuing a draft, cancelling an invoice)
+  issue_locked_until: 'fldINVISSUEUNTIL00', // Date/time - issue lock expiry (stale locks are ignored)
+} as const;
+
+export type InvoiceType = 'invoice' | 'storno';
+
+export type InvoiceStatus = 'draft' | 'sent' | 'paid' | 'overdue' | 'cancelled';
+
+export type InvoiceDunningLevel = 0 | 1 | 2;
+
+export interface InvoiceLineItem {
+  label: string;
+  amount: number;                       // As entered in the Deal Builder (gross)
+}
+
+export interface Invoice {
+  id: string;
+  invoiceNumber?: string;               // Unset while draft
+  eventRecordId?: string;
+  eventId?: string;
+  invoiceType: InvoiceType;
+  status: InvoiceStatus;
+  recipient: { name: string; contactPerson?: string; addressLines: string[] };
+  lineItems: InvoiceLineItem[];
+  vatRate: number;
+  netAmount: number;
+  vatAmount: number;
+  grossAmount: number;
+  serviceDate?: string;                 // YYYY-MM-DD
+  issueDate?: string;                   // YYYY-MM-DD
+  dueDate?: string;                     // YYYY-MM-DD
+  r2Key?: string;
+  sentAt?: string;
+  sentTo?: string;
+  paidAt?: string;                      // YYYY-MM-DD
+  cancelsInvoiceId?: string;            // Storno only
+  cancellationReason?: string;
+  dunningLevel: InvoiceDunningLevel;
+  lastDunningAt?: string;
+  createdBy?: string;
+  createdAt: string;
+}
+
+// ==================== REPERTOIRE (GEMA) ====================
+// Catalogue of known works that teacher-entered song titles are matched
+// against for the quarterly music licensing report.
+// (run scripts/create-repertoire-table.ts to patch IDs)
+export const REPERTOIRE_TABLE_ID = 'tblREPERTOIRE00000';
+
+export const REPERTOIRE_FIELD_IDS = {
+  title: 'fldREPTITLE0000000',              // Primary field
+  alternative_titles: 'fldREPALTTITLES000', // One per line
+  composer: 'fldREPCOMPOSER0000',
+  lyricist: 'fldREPLYRICIST0000',
+  publisher: 'fldREPPUBLISHER000',
+  gema_work_number: 'fldREPGEMANUMBER00',
+  licensing_status: 'fldREPSTATUS000000',   // Single select, see LicensingStatus
+  notes: 'fldREPNOTES0000000',
+} as const;
+
+// gema = registered GEMA work, direct_license = licensed from the rights
+// holder outside GEMA, unclear = still to be researched
+export type LicensingStatus = 'gema' | 'public_domain' | 'own_work' | 'direct_license' | 'unclear';
+
+export const LICENSING_STATUSES: LicensingStatus[] = ['gema', 'public_domain', 'own_work', 'direct_license', 'unclear'];
+
+export const LICENSING_STATUS_LABELS: Record<LicensingStatus, string> = {
+  gema: 'GEMA',
+  public_domain: 'Public domain',
+  own_work: 'Own work',
+  direct_license: 'Direct license',
+  unclear: 'Unclear',
+};
+
+export interface RepertoireWork {
+  id: string;
+  title: string;
+  alternativeTitles: string[];
+  composer?: string;
+  lyricist?: string;
+  publisher?: string;
+  gemaWorkNumber?: string;
+  licensingStatus: LicensingStatus;
+  notes?: string;
+}
+
+// ==================== SHARE LINKS ====================
+// Time-limited links a parent creates in the family portal so relatives can
+// listen to one event's released recordings without a login.
+// (run scripts/create-share-links-table.ts to patch IDs)
+export const SHARE_LINKS_TABLE_ID = 'tblSHARELINKS00000';
+
+export const SHARE_LINKS_FIELD_IDS = {
+  label: 'fldSHLLABEL0000000',              // Primary field, e.g. "Oma & Opa"
+  parent: 'fldSHLPARENT000000',             // Linked record → Parents (creator)
+  event_id: 'fldSHLEVENTID00000',           // Canonical event_id the link is scoped to
+  class_id: 'fldSHLCLASSID00000',           // Creator's class, listed first
+  expires_at: 'fldSHLEXPIRESAT000',
+  max_plays: 'fldSHLMAXPLAYS0000',          // Limit on plays + downloads together
+  play_count: 'fldSHLPLAYCOUNT000',
+  download_count: 'fldSHLDOWNLOADS000',
+  last_played_at: 'fldSHLLASTPLAYED00',
+  revoked_at: 'fldSHLREVOKEDAT000',
+  created_at: 'fldSHLCREATEDAT000',
+} as const;
+
+export type ShareLinkStatus = 'active' | 'expired' | 'exhausted' | 'revoked';
+
+export interface ShareLink {
+  id: string;
+  label: string;
+  parentId: string;                         // Parents record ID
+  eventId: string;
+  classId?: string;
+  expiresAt: string;
+  maxPlays: number;
+  playCount: number;
+  downloadCount: number;
+  lastPlayedAt?: string;
+  revokedAt?: string;
+  createdAt: string;
+}
+
 // ==================== SCHULSONG ====================
 export const SCHULSONG_TABLE_ID = 'tbl87zlzyGXrs1qSu';
 
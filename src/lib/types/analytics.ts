@@ -35,9 +35,30 @@ export interface ProductRevenue {
   totalRevenue: number;
 }
 
+// Refunded items from Shopify refunds, shown as negative revenue
+export interface RefundedProductRevenue {
+  label: string;          // "Product - Variant"
+  quantity: number;
+  amount: number;         // Refunded amount (positive)
+}
+
+export interface EventRefundSummary {
+  products: RefundedProductRevenue[];
+  total: number;
+}
+
 export interface EventRevenue {
   products: ProductRevenue[];
-  totalRevenue: number;
+  refunds: RefundedProductRevenue[];
+  refundTotal: number;
+  totalRevenue: number;   // Product revenue minus refunds
+}
+
+// School fees from issued invoices (Rechnungen), net of VAT and cancellations
+export interface SchoolFeeRevenue {
+  net: number;
+  open: number;                // Gross amount of sent/overdue invoices
+  openInvoiceCount: number;
 }
 
 // Manual cost entry (stored in Airtable per event)
@@ -79,8 +100,8 @@ export interface EventAnalyticsRow {
   eventName: string;           // School name + date for display
   schoolName: string;
   eventDate: string;
-  totalRevenue: number;        // Filler data for now (Shopify integration coming)
-  aov: number;                 // Average Order Value (totalRevenue / registeredChildren)
+  totalRevenue: number;        // Shop revenue + school fees
+  aov: number;                 // Average Order Value (shop revenue / registeredChildren)
   incurredCost: number;        // Calculated from fixed + variable + manual costs
   profit: number;              // totalRevenue - incurredCost
   status: EventStatus;
@@ -88,6 +109,7 @@ export interface EventAnalyticsRow {
   totalChildren: number;
   registeredChildren: number;
   revenue: EventRevenue;       // Detailed revenue breakdown by product/size
+  schoolFees: SchoolFeeRevenue;
   costs: EventCosts;
 }
 
@@ -224,6 +246,8 @@ export function generateFillerRevenueBreakdown(): EventRevenue {
 
   return {
     products,
+    refunds: [],
+    refundTotal: 0,
     totalRevenue: products.reduce((sum, p) => sum + p.totalRevenue, 0),
   };
 }
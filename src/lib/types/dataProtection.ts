@@ -0,0 +1,65 @@
+// Data Subject (DSGVO) Type Definitions
+
+/**
+ * Everything stored about one email address, by source table. Records are
+ * keyed by field name; JSON text fields are parsed.
+ */
+export interface DataSubjectExport {
+  email: string;
+  generatedAt: string;
+  parent: Record<string, unknown> | null;
+  children: Array<Record<string, unknown>>;
+  orders: Array<Record<string, unknown>>;
+  emailLogs: Array<Record<string, unknown>>;
+  /** Rows of the legacy parent_journey_table */
+  legacyRecords: Array<Record<string, unknown>>;
+}
+
+/**
+ * Records an erasure anonymises, resolved before the job is queued so the
+ * job payload holds record IDs only, never the email address
+ */
+export interface ErasureTargets {
+  parentIds: string[];
+  registrationIds: string[];
+  legacyRecordIds: string[];
+  emailLogIds: string[];
+  /** Orders keep their financials; counted for the report only */
+  orderCount: number;
+}
+
+export type ErasureTargetKind = 'parents' | 'registrations' | 'legacyRecords' | 'emailLogs';
+
+/**
+ * Result of a 'privacy.erasure' job. Identifies the data subject by hash
+ * only, so the report itself holds no personal data.
+ */
+export interface ErasureReport {
+  subjectHash: string;
+  anonymised: Record<ErasureTargetKind, number>;
+  ordersKept: number;
+  failed: Array<{ step: string; error: string }>;
+}
+
+export interface EventPurgeResult {
+  eventId: string;
+  eventDate: string;
+  childNames: number;
+  legacyRecords: number;
+  /** R2 key prefixes of the event's raw recordings */
+  rawPrefixes: string[];
+  rawFilesDeleted: number;
+  rawAudioRecords: number;
+}
+
+/**
+ * Result of a 'privacy.retention' job
+ */
+export interface RetentionReport {
+  retentionMonths: number;
+  cutoffDate: string;
+  dryRun: boolean;
+  events: EventPurgeResult[];
+  totals: Pick<EventPurgeResult, 'childNames' | 'legacyRecords' | 'rawFilesDeleted' | 'rawAudioRecords'>;
+  failed: Array<{ eventId: string; error: string }>;
+}
@@ -5,6 +5,8 @@
  * emails to teachers and parents based on event dates.
  */
 
+import type { ParentEmailCategory } from '@/lib/types/airtable';
+
 // =============================================================================
 // Table IDs - Update these after creating tables in Airtable
 // =============================================================================
@@ -32,6 +34,12 @@ export const EMAIL_TEMPLATES_FIELD_IDS = {
   trigger_slug: 'fldBJsRxe1PxvTXoL',              // Single line text
   trigger_description: 'fldibypBMULVBtcIH',        // Long text
   only_under_100: 'fld5822FIA25rLMdn',          // Checkbox - when true, only send to <100 kid events
+  // A/B variants (run scripts/create-email-variant-fields.ts to patch IDs)
+  variants: 'fldETVARIANTS000000',                // Long text (JSON EmailTemplateVariant[], variants B, C, ...)
+  // Block builder source (run scripts/create-email-block-fields.ts to patch IDs)
+  body_blocks: 'fldETBODYBLOCKS0000',             // Long text (JSON EmailBlock[]; email_body_html is rendered from it)
+  // Preference center category (run scripts/create-parent-email-preference-fields.ts to patch ID)
+  email_category: 'fldETEMAILCATEGORY0',          // Single select of ParentEmailCategory values
 } as const;
 
 // =============================================================================
@@ -42,11 +50,36 @@ export const EMAIL_LOGS_FIELD_IDS = {
   template_name: 'fldcNHa3GTYmp1mzp',            // Single line text
   event_id: 'fldejWMhTGwxz4Dr8',                 // Linked record to Events
   recipient_email: 'fldsg3jsbFjCtCj4O',          // Email
-  recipient_type: 'fldP4i5NjOFb8n711',           // Single select: teacher, parent
+  recipient_type: 'fldP4i5NjOFb8n711',           // Single select: teacher, parent, non-buyer, lead
   sent_at: 'fldHi7daVcCWpjrFj',                  // Date/time
   status: 'fld0HyrvPQtWQDGTj',                   // Single select: sent, failed, skipped
   error_message: 'fldObgfIAwwOjVWJC',            // Long text
   resend_message_id: 'fldlxL1Dav8yx3NoI',        // Single line text
+  // Delivery tracking from the Resend webhook
+  // (run scripts/create-email-suppressions-table.ts to patch IDs)
+  delivery_status: 'fldELDELIVERYSTATUS',        // Single select: delivered, delayed, bounced, complained
+  delivery_updated_at: 'fldELDELIVERYUPDATE',    // Date/time of the last delivery event
+  opened_at: 'fldELOPENEDAT000000',              // Date/time of the first open
+  delivery_detail: 'fldELDELIVERYDETAIL',        // Long text (bounce message)
+  // A/B variants and click tracking (run scripts/create-email-variant-fields.ts to patch IDs)
+  variant: 'fldELVARIANT0000000',                // Single line text - variant key (A, B, ...)
+  clicked_at: 'fldELCLICKEDAT00000',             // Date/time of the first click
+  shop_clicked_at: 'fldELSHOPCLICKEDAT0',        // Date/time of the first click on a tagged shop link
+} as const;
+
+// =============================================================================
+// Email Suppressions - addresses we no longer send to
+// (run scripts/create-email-suppressions-table.ts to patch IDs)
+// =============================================================================
+
+export const EMAIL_SUPPRESSIONS_TABLE_ID = 'tblEMAILSUPPRESSION';
+
+export const EMAIL_SUPPRESSIONS_FIELD_IDS = {
+  email: 'fldESEMAIL000000000',                   // Email (lowercase)
+  reason: 'fldESREASON00000000',                  // Single select: bounce, complaint, manual
+  detail: 'fldESDETAIL00000000',                  // Long text (bounce message, admin note)
+  resend_message_id: 'fldESMESSAGEID00000',       // Single line text - message that caused it
+  created_at: 'fldESCREATEDAT00000',              // Date/time
 } as const;
 
 // =============================================================================
@@ -82,6 +115,20 @@ export interface EmailTemplate {
   triggerSlug?: string;                          // Unique slug for trigger templates
   triggerDescription?: string;                   // Description of when trigger fires
   only_under_100: boolean;                        // When true, only send to events with <100 kids
+  variants?: EmailTemplateVariant[];             // A/B alternatives; subject/bodyHtml above are variant A
+  bodyBlocks?: EmailBlock[];                     // Builder source when bodyHtml was built from blocks
+  emailCategory?: ParentEmailCategory;           // Opt-out category for parent recipients (unset = event_reminders)
+}
+
+/**
+ * Alternative subject/body of a timeline template for A/B tests. Variant A
+ * is the template's own subject/body and gets the share the others leave.
+ */
+export interface EmailTemplateVariant {
+  key: string;                                   // 'B', 'C', ...
+  subject: string;                               // Email subject with {{variables}}
+  bodyHtml: string;                              // HTML body with {{variables}}
+  weight: number;                                // Share of recipients in percent (1-99)
 }
 
 /**
@@ -103,21 +150,117 @@ export interface TriggerEmailTemplate {
   triggerEventName?: string;                     // Resolved display name from catalog
   triggerEventDescription?: string;              // Resolved description from catalog
   hasSendNow?: boolean;                          // true if this trigger supports manual "Send Now"
+  bodyBlocks?: EmailBlock[];                     // Builder source when bodyHtml was built from blocks
+}
+
+// =============================================================================
+// Block Builder
+// =============================================================================
+
+export type EmailBlockType = 'heading' | 'text' | 'button' | 'image' | 'divider' | 'conditional';
+
+export interface EmailHeadingBlock {
+  id: string;
+  type: 'heading';
+  text: string;
+}
+
+/**
+ * Plain text; blank lines start a new paragraph, **text** is bold
+ */
+export interface EmailTextBlock {
+  id: string;
+  type: 'text';
+  text: string;
+}
+
+export interface EmailButtonBlock {
+  id: string;
+  type: 'button';
+  label: string;
+  url: string;                                   // https://... or a {{variable}} link
+}
+
+export interface EmailImageBlock {
+  id: string;
+  type: 'image';
+  src: string;                                   // https:// image URL
+  alt: string;
+  href?: string;                                 // Optional link around the image
+}
+
+export interface EmailDividerBlock {
+  id: string;
+  type: 'divider';
 }
 
+/**
+ * Inner blocks are only sent when the variable has a value
+ */
+export interface EmailConditionalBlock {
+  id: string;
+  type: 'conditional';
+  variable: string;
+  blocks: EmailBlock[];                          // No nested conditionals
+}
+
+export type EmailBlock =
+  | EmailHeadingBlock
+  | EmailTextBlock
+  | EmailButtonBlock
+  | EmailImageBlock
+  | EmailDividerBlock
+  | EmailConditionalBlock;
+
+/**
+ * Who an email log row was sent to. 'lead' rows are Leads CRM nurture emails
+ * and are kept out of event email stats.
+ */
+export type EmailLogRecipientType = 'teacher' | 'parent' | 'non-buyer' | 'lead';
+
 /**
  * Email log entry stored in Airtable
  */
 export interface EmailLog {
   id: string;                                    // Airtable record ID
   templateName: string;                          // Name of template used
-  eventId: string;                               // Event identifier (or linked record ID)
+  eventId: string;                               // Event identifier (or linked record ID; lead:<record ID> for nurture emails)
   recipientEmail: string;                        // Email address sent to
-  recipientType: 'teacher' | 'parent' | 'non-buyer'; // Type of recipient
+  recipientType: EmailLogRecipientType;          // Type of recipient
   sentAt: string;                                // ISO timestamp
   status: 'sent' | 'failed' | 'skipped';         // Send status
   errorMessage?: string;                         // Error details if failed
   resendMessageId?: string;                      // Resend tracking ID
+  deliveryStatus?: EmailDeliveryStatus;          // Last delivery event from Resend
+  deliveryUpdatedAt?: string;                    // ISO timestamp of that event
+  openedAt?: string;                             // ISO timestamp of the first open
+  deliveryDetail?: string;                       // Bounce message
+  variant?: string;                              // A/B variant key the recipient got
+  clickedAt?: string;                            // ISO timestamp of the first click
+  shopClickedAt?: string;                        // ISO timestamp of the first shop link click
+}
+
+export type EmailDeliveryStatus = 'delivered' | 'delayed' | 'bounced' | 'complained';
+
+/**
+ * Email log fields written by the Resend webhook
+ */
+export type EmailLogDeliveryUpdate = Partial<
+  Pick<EmailLog, 'deliveryStatus' | 'deliveryUpdatedAt' | 'openedAt' | 'deliveryDetail' | 'clickedAt' | 'shopClickedAt'>
+>;
+
+export type EmailSuppressionReason = 'bounce' | 'complaint' | 'manual';
+
+/**
+ * Address on the suppression list - skipped by the recipient lookups
+ */
+export interface EmailSuppression {
+  id: string;                                    // Airtable record ID
+  email: string;                                 // Lowercase
+  reason: EmailSuppressionReason;
+  detail?: string;
+  resendMessageId?: string;
+  createdAt: string;                             // ISO timestamp
 }
 
 // =============================================================================
@@ -143,6 +286,9 @@ export interface CreateEmailTemplateInput {
   triggerSlug?: string;
   triggerDescription?: string;
   only_under_100?: boolean;
+  variants?: EmailTemplateVariant[];
+  bodyBlocks?: EmailBlock[];
+  emailCategory?: ParentEmailCategory;
 }
 
 /**
@@ -164,6 +310,9 @@ export interface UpdateEmailTemplateInput {
   triggerSlug?: string;
   triggerDescription?: string;
   only_under_100?: boolean;
+  variants?: EmailTemplateVariant[];
+  bodyBlocks?: EmailBlock[];
+  emailCategory?: ParentEmailCategory;
 }
 
 /**
@@ -173,10 +322,11 @@ export interface CreateEmailLogInput {
   templateName: string;
   eventId: string;
   recipientEmail: string;
-  recipientType: 'teacher' | 'parent' | 'non-buyer';
+  recipientType: EmailLogRecipientType;
   status: 'sent' | 'failed' | 'skipped';
   errorMessage?: string;
   resendMessageId?: string;
+  variant?: string;
 }
 
 // =============================================================================
@@ -220,6 +370,28 @@ export interface TemplateData {
   [key: string]: string | undefined;
 }
 
+/**
+ * TemplateData variables timeline templates may use ({{event_date±N}} date
+ * math aside). getPreviewTemplateData fills all of them.
+ */
+export const TEMPLATE_DATA_VARIABLES = [
+  'school_name',
+  'event_date',
+  'event_link',
+  'event_type',
+  'teacher_name',
+  'teacher_first_name',
+  'teacher_portal_link',
+  'parent_name',
+  'parent_first_name',
+  'child_name',
+  'parent_portal_link',
+  'access_code',
+  'class_name',
+  'class_time',
+  'order_link',
+] as const;
+
 // =============================================================================
 // Recipient Types
 // =============================================================================
@@ -251,6 +423,7 @@ export interface EmailSendResult {
   recipientType: 'teacher' | 'parent' | 'non-buyer';
   eventId: string;
   templateName: string;
+  variant?: string;
   success: boolean;
   messageId?: string;
   error?: string;
@@ -1,5 +1,5 @@
 /**
- * Email types for Brevo integration
+ * Email types for the email transports (Resend, Brevo, local outbox)
  */
 
 export interface EmailRecipient {
@@ -22,6 +22,59 @@ export interface SendEmailResult {
   error?: string;
 }
 
+export type EmailTransportName = 'resend' | 'brevo' | 'outbox';
+
+/**
+ * A message handed to an EmailTransport. Either rendered content
+ * (subject + html) or a Brevo template (templateId + params).
+ */
+export interface OutgoingEmail {
+  to: string | EmailRecipient | Array<string | EmailRecipient>;
+  subject?: string;
+  html?: string;
+  templateId?: number;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  params?: Record<string, any>;
+  headers?: Record<string, string>;
+  tags?: string[];
+  scheduledAt?: Date;
+  attachments?: EmailAttachment[];
+}
+
+export interface EmailAttachment {
+  filename: string;
+  content: Buffer;
+}
+
+export interface EmailTransport {
+  readonly name: EmailTransportName;
+  send(message: OutgoingEmail): Promise<SendEmailResult>;
+}
+
+/**
+ * A message written to the local outbox instead of being sent
+ */
+export interface OutboxMessage {
+  id: string;
+  createdAt: string;
+  /** Provider the message would have gone out through */
+  provider: Exclude<EmailTransportName, 'outbox'>;
+  from: EmailRecipient;
+  to: EmailRecipient[];
+  subject?: string;
+  html?: string;
+  templateId?: number;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  params?: Record<string, any>;
+  headers?: Record<string, string>;
+  tags?: string[];
+  scheduledAt?: string;
+  /** Attachment names and sizes; the content is not kept */
+  attachments?: Array<{ filename: string; size: number }>;
+}
+
+export type OutboxMessageSummary = Omit<OutboxMessage, 'html' | 'params' | 'headers'>;
+
 // Template parameter interfaces
 export interface MagicLinkParams {
   teacherName: string;
@@ -2,6 +2,8 @@
 // For audio engineers who mix raw recordings into final/preview versions
 
 import { AudioFile } from './teacher';
+import type { MasteringPresetId } from '@/lib/config/audioMastering';
+import type { AudioQualityWarning } from '@/lib/utils/audioAnalysis';
 
 // =============================================================================
 // ENGINEER SESSION (for JWT authentication)
@@ -65,6 +67,7 @@ export interface EngineerSongView {
   previewFile?: AudioFileWithUrl;
   finalMp3File?: AudioFileWithUrl;
   finalWavFile?: AudioFileWithUrl;
+  qualityWarnings?: AudioQualityWarning[]; // From the upload analysis of the final vs. its raw
 }
 
 /**
@@ -102,6 +105,7 @@ export interface EngineerEventDetail {
   isSchulsong?: boolean;
   schulsongClass?: EngineerClassView;
   audioPipelineStage?: 'not_started' | 'staff_uploaded' | 'finals_submitted';
+  masteringPreset?: MasteringPresetId;
   assignedStaff?: { name: string; phone?: string };
   logicProjects?: LogicProjectInfo[];
 }
@@ -0,0 +1,97 @@
+// Background Job Type Definitions
+
+/**
+ * Long-running operations that run through the job queue instead of inside
+ * a single request (see jobService.ts)
+ */
+export type JobType =
+  | 'printables.generate'
+  | 'audio.process'
+  | 'audio.analyze'
+  | 'audio.tag'
+  | 'fulfillment.welle'
+  | 'orders.shopify_backfill'
+  | 'cd.image'
+  | 'privacy.erasure'
+  | 'privacy.retention';
+
+export const JOB_TYPE_LABELS: Record<JobType, string> = {
+  'printables.generate': 'Printables generation',
+  'audio.process': 'Audio processing',
+  'audio.analyze': 'Audio analysis',
+  'audio.tag': 'ID3 tagging',
+  'fulfillment.welle': 'Welle fulfillment',
+  'orders.shopify_backfill': 'Shopify order resync',
+  'cd.image': 'CD image build',
+  'privacy.erasure': 'Data erasure',
+  'privacy.retention': 'Data retention',
+};
+
+/**
+ * - queued:    waiting for the runner (new, continued after a time slice, or retry scheduled)
+ * - running:   claimed by a runner (lock expires after JOB_LOCK_MS)
+ * - succeeded: all steps done
+ * - failed:    a step kept failing after the last attempt
+ */
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+export type JobStepStatus = 'pending' | 'done' | 'failed';
+
+/**
+ * One unit of work. Steps are planned once on the first run and persisted
+ * after every step, so a job cut off by the function timeout resumes where
+ * it stopped instead of starting over.
+ */
+export interface JobStep {
+  key: string;
+  label: string;
+  status: JobStepStatus;
+  /** Small, JSON-serialisable input the handler needs for this step */
+  data?: Record<string, unknown>;
+  /** Handler output, used to build the job result */
+  result?: unknown;
+  error?: string;
+}
+
+export interface Job<TPayload = Record<string, unknown>, TResult = unknown> {
+  id: string;              // Airtable record ID
+  type: JobType;
+  label: string;           // e.g. "Printables generation – Grundschule Musterstadt"
+  status: JobStatus;
+  payload: TPayload;
+  steps: JobStep[];
+  result?: TResult;
+  attempts: number;        // Failed runs so far
+  maxAttempts: number;
+  runAfter: string;        // ISO - not picked up by the runner before this
+  lockedUntil?: string;
+  lastError?: string;
+  logs: string[];
+  dedupKey?: string;       // Active jobs with the same key are not queued twice
+  createdBy: string;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+}
+
+/**
+ * How far a job got - computed from its steps
+ */
+export function getJobProgress(job: Pick<Job, 'steps'>): { done: number; failed: number; total: number } {
+  return {
+    done: job.steps.filter((s) => s.status === 'done').length,
+    failed: job.steps.filter((s) => s.status === 'failed').length,
+    total: job.steps.length,
+  };
+}
+
+// Job lock duration - longer than the 300s function limit so a live runner
+// never loses its lock, short enough that a killed runner's job is picked up again
+export const JOB_LOCK_MS = 6 * 60 * 1000;
+
+// Job-level retry delay after a failed run: 1 min, 2 min, 4 min, ... capped at 1 h
+export const JOB_RETRY_BASE_DELAY_MS = 60 * 1000;
+export const JOB_RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
+
+// Keep the persisted log below Airtable's long text limit
+export const JOB_MAX_LOG_LINES = 200;
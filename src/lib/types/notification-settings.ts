@@ -4,7 +4,7 @@
  */
 
 // Notification types that can be configured
-export type NotificationType = 'new_booking' | 'date_change' | 'cancellation' | 'schulsong_teacher_approved' | 'unassigned_staff' | 'event_readiness' | 'school_info_changed';
+export type NotificationType = 'new_booking' | 'date_change' | 'cancellation' | 'schulsong_teacher_approved' | 'unassigned_staff' | 'event_readiness' | 'school_info_changed' | 'size_exchange';
 
 // Notification setting record from Airtable
 export interface NotificationSetting {
@@ -87,6 +87,16 @@ export interface SchoolInfoChangedNotificationData {
   newPhone?: string;
 }
 
+// Size exchange requested by a parent in the family portal
+export interface SizeExchangeNotificationData {
+  orderNumber: string;
+  schoolName: string;
+  productTitle: string;
+  currentSize: string;
+  requestedSize: string;
+  note?: string;
+}
+
 // Airtable table and field IDs for NotificationSettings
 export const NOTIFICATION_SETTINGS_TABLE_ID = 'tbld82JxKX4Ju1XHP';
 
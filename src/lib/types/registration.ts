@@ -3,6 +3,7 @@
  */
 
 import { ParentSession } from './airtable';
+import type { ConsentChoices } from '../utils/childConsent';
 
 /**
  * Data for a single child being registered
@@ -27,6 +28,9 @@ export interface RegistrationData {
 
   // Children to register
   children: ChildRegistrationData[];
+
+  // Parental consent, applied to every child in this registration
+  consents?: ConsentChoices;
 }
 
 /**
@@ -42,7 +46,8 @@ export interface RegistrationRequest extends RegistrationData {
 export interface RegistrationResponse {
   success: true;
   data: {
-    session: ParentSession;
+    session?: ParentSession;    // Only set for new parents (logged in directly)
+    magicLinkSent?: boolean;    // Existing email: a login link was emailed instead
     redirectUrl: string;
   };
   message: string;
@@ -11,6 +11,36 @@ export interface SimplybookWebhookPayload {
   notification_type: 'create' | 'change' | 'cancel';
 }
 
+/**
+ * Outcome of a received webhook notification, as stored in the webhook log
+ * - processing: claimed, handler running (or crashed mid-way)
+ * - applied:    handler ran and changed our data
+ * - skipped:    handler ran but found nothing to do (e.g. booking not in Airtable yet)
+ * - duplicate:  redelivery of a notification that was already applied
+ * - superseded: arrived after a later state (e.g. change after cancel)
+ * - deferred:   change/cancel that arrived before its create was applied; SimplyBook redelivers it
+ * - failed:     handler errored; a redelivery will be applied again
+ */
+export type SimplybookWebhookLogStatus =
+  | 'processing'
+  | 'applied'
+  | 'skipped'
+  | 'duplicate'
+  | 'superseded'
+  | 'deferred'
+  | 'failed';
+
+/**
+ * One row of the SimplyBook Webhook Log table
+ */
+export interface SimplybookWebhookLogEntry {
+  id: string;
+  bookingId: string;
+  notificationType: SimplybookWebhookPayload['notification_type'];
+  status: SimplybookWebhookLogStatus;
+  receivedAt: string;
+}
+
 /**
  * SimplyBook intake form field
  * Note: The API returns an array with field_title/field_name properties
@@ -0,0 +1,66 @@
+// Staff Credential Type Definitions
+// Password + optional TOTP login for Personen accounts (admin, staff, engineer portals)
+
+// =============================================================================
+// POLICY CONSTANTS
+// =============================================================================
+
+/** Consecutive failed logins before the account is locked */
+export const MAX_FAILED_LOGIN_ATTEMPTS = 5;
+
+/** How long a locked account refuses logins (15 minutes in milliseconds) */
+export const LOGIN_LOCKOUT_DURATION_MS = 15 * 60 * 1000;
+
+/** Password reset link expiration time (1 hour in milliseconds) */
+export const PASSWORD_RESET_EXPIRY_MS = 60 * 60 * 1000;
+
+/** Minimum password length accepted by the set/reset flow */
+export const MIN_PASSWORD_LENGTH = 10;
+
+/** bcrypt cost factor */
+export const PASSWORD_HASH_ROUNDS = 12;
+
+// =============================================================================
+// CREDENTIAL RECORD
+// =============================================================================
+
+/**
+ * Credential fields of a Personen record
+ */
+export interface StaffCredentials {
+  id: string;              // Airtable record ID from Personen table
+  email: string;
+  name: string;
+  passwordHash?: string;
+  failedLoginAttempts: number;
+  lockedUntil?: string;    // ISO timestamp
+  totpSecret?: string;     // Base32
+  totpEnabled: boolean;
+  totpLastUsedStep?: number; // Codes from this step or earlier are refused
+}
+
+// =============================================================================
+// LOGIN RESULTS
+// =============================================================================
+
+/**
+ * Outcome of a password (+ optional TOTP) check.
+ * - invalid: unknown email, no password set yet, wrong password, or a wrong or reused
+ *   TOTP code - deliberately one status, so the response never reveals which emails exist
+ * - locked: too many failures, retry after lockedUntil (only reported with the correct password)
+ * - totp_required: password correct, but the account has TOTP enabled and no code was sent
+ */
+export type StaffLoginResult =
+  | { status: 'ok'; staff: StaffCredentials }
+  | { status: 'invalid' }
+  | { status: 'locked'; lockedUntil: string }
+  | { status: 'totp_required' };
+
+/**
+ * Result of starting TOTP enrolment
+ */
+export interface TotpSetup {
+  secret: string;
+  otpauthUrl: string;
+  qrCodeDataUrl: string;
+}
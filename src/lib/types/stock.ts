@@ -42,18 +42,63 @@ export const HOODIE_SIZES = [
 
 export type HoodieSize = (typeof HOODIE_SIZES)[number];
 
+// Sizes tracked in the warehouse - same keys as CLOTHING_VARIANTS / STANDARD_CLOTHING_VARIANTS
+export const STOCK_ITEM_SIZES: Record<'T-Shirt' | 'Hoodie', readonly string[]> = {
+  'T-Shirt': ['98/104', '110/116', '122/128', '134/146', '152/164'],
+  Hoodie: ['116', '128', '140', '152', '164'],
+};
+
+// Unit cost used when a stock row is first created (editable per row afterwards)
+export const DEFAULT_STOCK_UNIT_COSTS: Record<StockItemType, number> = {
+  'T-Shirt': 8.5,
+  Hoodie: 18.0,
+  Mug: 6.5,
+  'Sport Bag': 12.0,
+  CD: 3.5,
+  Minicard: 1.5,
+};
+
 // Stock inventory item
 export interface StockItem {
-  id: string;
+  id: string; // Airtable record ID
   item: StockItemType;
-  size?: ClothingSize; // Only for T-Shirt and Hoodie
-  inStock: number;
-  costPerUnit: number; // Current effective cost (API price or override)
-  baseCost: number; // Original cost from API
-  costOverride?: number; // Admin override (null = use API price)
+  size?: string; // Only for T-Shirt and Hoodie (see STOCK_ITEM_SIZES)
+  onHand: number; // Physically in the warehouse
+  reserved: number; // Paid customer orders not yet fulfilled
+  available: number; // onHand - reserved (can go negative when oversold)
+  costPerUnit: number; // Current effective cost (base cost or override)
+  baseCost: number; // Default cost for the item
+  costOverride?: number; // Admin override (null = use base cost)
   lastUpdated: string; // ISO timestamp
 }
 
+// Why on-hand changed
+export type StockMovementReason = 'supplier_arrival' | 'fulfillment' | 'manual_correction';
+
+// One change to a stock item's on-hand count
+export interface StockMovement {
+  id: string;
+  stockItemId: string;
+  quantity: number; // Signed delta
+  reason: StockMovementReason;
+  reference?: string; // GO-0001, "#1234 Welle 1"
+  note?: string; // Required for manual corrections
+  createdBy?: string;
+  createdAt: string;
+}
+
+// A quantity of one stock row, resolved from a Shopify variant or GO line
+export interface StockLine {
+  item: StockItemType;
+  size?: string;
+  quantity: number;
+}
+
+// Stable key for a stock row ("T-Shirt|98/104", "CD")
+export function getStockKey(item: StockItemType, size?: string): string {
+  return size ? `${item}|${size}` : item;
+}
+
 // Order status
 export type OrderStatus = 'pending' | 'placed' | 'completed' | 'failed';
 
@@ -117,77 +162,6 @@ export function formatLastUpdated(dateString: string): string {
   });
 }
 
-// Generate mock inventory data
-export function generateMockInventory(): StockItem[] {
-  const inventory: StockItem[] = [];
-  let id = 1;
-
-  // T-Shirts with all sizes
-  for (const size of CLOTHING_SIZES) {
-    inventory.push({
-      id: String(id++),
-      item: 'T-Shirt',
-      size,
-      inStock: Math.floor(Math.random() * 20) + 5,
-      costPerUnit: 8.5,
-      baseCost: 8.5,
-      lastUpdated: new Date().toISOString(),
-    });
-  }
-
-  // Hoodies with all sizes
-  for (const size of CLOTHING_SIZES) {
-    inventory.push({
-      id: String(id++),
-      item: 'Hoodie',
-      size,
-      inStock: Math.floor(Math.random() * 10) + 2,
-      costPerUnit: 18.0,
-      baseCost: 18.0,
-      lastUpdated: new Date().toISOString(),
-    });
-  }
-
-  // Other items without sizes
-  inventory.push({
-    id: String(id++),
-    item: 'Mug',
-    inStock: Math.floor(Math.random() * 30) + 10,
-    costPerUnit: 6.5,
-    baseCost: 6.5,
-    lastUpdated: new Date().toISOString(),
-  });
-
-  inventory.push({
-    id: String(id++),
-    item: 'Sport Bag',
-    inStock: Math.floor(Math.random() * 20) + 5,
-    costPerUnit: 12.0,
-    baseCost: 12.0,
-    lastUpdated: new Date().toISOString(),
-  });
-
-  inventory.push({
-    id: String(id++),
-    item: 'CD',
-    inStock: Math.floor(Math.random() * 50) + 20,
-    costPerUnit: 3.5,
-    baseCost: 3.5,
-    lastUpdated: new Date().toISOString(),
-  });
-
-  inventory.push({
-    id: String(id++),
-    item: 'Minicard',
-    inStock: Math.floor(Math.random() * 100) + 50,
-    costPerUnit: 1.5,
-    baseCost: 1.5,
-    lastUpdated: new Date().toISOString(),
-  });
-
-  return inventory;
-}
-
 // Generate mock orders data
 export function generateMockOrders(): StockOrder[] {
   const orders: StockOrder[] = [];
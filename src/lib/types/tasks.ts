@@ -38,6 +38,7 @@ export interface Task {
   completion_data?: string; // JSON string of TaskCompletionData
   go_id?: string; // Linked GuesstimateOrder record ID
   order_ids?: string; // Comma-separated Shopify order IDs
+  cd_image?: string; // JSON string of CdImageAttachment (audio_master_cd only)
   created_at: string;
 }
 
@@ -62,6 +63,18 @@ export interface TaskCompletionData {
   notes?: string; // Optional notes
 }
 
+// Red Book CD image built from the Master CD tracklist (WAV + CUE in R2).
+// Kept separately from completion_data so it survives reverting the task.
+export interface CdImageAttachment {
+  wav_r2_key: string;
+  cue_r2_key: string;
+  track_count: number;
+  total_seconds: number;
+  built_at: string; // ISO
+  built_by: string; // Admin email
+  job_id: string;
+}
+
 // GuesstimateOrder interface (internal supplier order tracking)
 export interface GuesstimateOrder {
   id: string; // Airtable record ID
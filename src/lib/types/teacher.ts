@@ -67,6 +67,18 @@ export const AUDIO_FILES_FIELD_IDS = {
   preview_r2_key: 'fldpnarwGzEyVjmpC', // R2 key for the 30-second preview snippet
   mp3_r2_key: 'fldzADPZjKEZbfy2i', // R2 key for the encoded MP3 (when original is WAV)
   schulsong_version: 'fldZdmNUQ3kUx1q7H', // Version number for schulsong (incremented on each re-upload)
+  // Loudness normalization (run scripts/create-audio-mastering-fields.ts to patch IDs)
+  loudness_lufs: 'fldAFLOUDNESSLUFS00', // Number - integrated loudness of the processed MP3 (LUFS)
+  true_peak_dbtp: 'fldAFTRUEPEAKDBTP00', // Number - true peak of the processed MP3 (dBTP)
+  mastering_preset: 'fldAFMASTERPRESET00', // Text - MasteringPresetId the track was normalized to
+  // Upload analysis (run scripts/create-audio-analysis-fields.ts to patch IDs)
+  sample_rate: 'fldAFSAMPLERATE0000', // Number - sample rate of the uploaded file (Hz)
+  channels: 'fldAFCHANNELS000000', // Number - channel count of the uploaded file
+  peak_dbfs: 'fldAFPEAKDBFS000000', // Number - sample peak (dBFS)
+  clipping_percent: 'fldAFCLIPPINGPCT000', // Number - share of samples at full scale (%)
+  leading_silence_seconds: 'fldAFLEADSILENCE000', // Number - silence before the first sound (s)
+  trailing_silence_seconds: 'fldAFTRAILSILENCE00', // Number - silence after the last sound (s)
+  analyzed_at: 'fldAFANALYZEDAT0000', // Date/time - when the analysis ran
 } as const;
 
 export const TEACHER_INVITES_FIELD_IDS = {
@@ -171,6 +183,18 @@ export interface AudioFile {
   previewR2Key?: string; // R2 key for the 30-second preview snippet
   mp3R2Key?: string; // R2 key for the encoded MP3 (when original is WAV)
   schulsongVersion?: number; // Version number for schulsong (incremented on each re-upload)
+  // Loudness normalization
+  loudnessLufs?: number; // Integrated loudness of the processed MP3 (LUFS)
+  truePeakDbtp?: number; // True peak of the processed MP3 (dBTP)
+  masteringPreset?: string; // MasteringPresetId the track was normalized to
+  // Upload analysis
+  sampleRate?: number; // Sample rate of the uploaded file (Hz)
+  channels?: number; // Channel count of the uploaded file
+  peakDbfs?: number; // Sample peak (dBFS)
+  clippingPercent?: number; // Share of samples at full scale (%)
+  leadingSilenceSeconds?: number; // Silence before the first sound
+  trailingSilenceSeconds?: number; // Silence after the last sound
+  analyzedAt?: string; // ISO datetime when the analysis ran
 }
 
 /**
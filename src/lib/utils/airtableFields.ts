@@ -0,0 +1,14 @@
+/**
+ * Airtable field value helpers
+ */
+
+import type { FieldSet } from 'airtable';
+
+/**
+ * Value that clears a field in a create/update. Airtable empties a field
+ * written as null, but the SDK's FieldSet type does not allow null - this is
+ * the one place that cast lives.
+ */
+export function clearField(): FieldSet[string] {
+  return null as unknown as FieldSet[string];
+}
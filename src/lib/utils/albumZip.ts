@@ -0,0 +1,67 @@
+/**
+ * Album ZIP helpers
+ *
+ * Shared by the teacher and staff audio ZIP downloads: which final belongs
+ * to which album track, and the "01. Title - Class.mp3" entry names.
+ */
+
+import type { AlbumTrack } from '@/lib/services/teacherService';
+
+interface FinalAudio {
+  songId?: string;
+  classId: string;
+  isSchulsong?: boolean;
+}
+
+/**
+ * Album tracks in album order, each with its final. The first final per
+ * song wins (callers pass newest first); finals without a song link belong
+ * to the only song of their class. Tracks without a final are left out.
+ */
+export function matchAlbumTracksToFinals<T extends FinalAudio>(
+  albumTracks: AlbumTrack[],
+  finals: T[]
+): Array<{ track: AlbumTrack; audio: T }> {
+  const audioBySongId = new Map<string, T>();
+  let schulsongAudio: T | undefined;
+
+  for (const af of finals) {
+    if (af.isSchulsong) {
+      if (!schulsongAudio) schulsongAudio = af;
+    } else if (af.songId && !audioBySongId.has(af.songId)) {
+      audioBySongId.set(af.songId, af);
+    }
+  }
+
+  const songIdsByClassId = new Map<string, string[]>();
+  for (const track of albumTracks) {
+    if (track.isSchulsong) continue;
+    const songIds = songIdsByClassId.get(track.classId) || [];
+    songIds.push(track.songId);
+    songIdsByClassId.set(track.classId, songIds);
+  }
+
+  for (const af of finals) {
+    if (af.isSchulsong || af.songId) continue;
+    const classSongIds = songIdsByClassId.get(af.classId);
+    if (classSongIds?.length === 1 && !audioBySongId.has(classSongIds[0])) {
+      audioBySongId.set(classSongIds[0], af);
+    }
+  }
+
+  const matched: Array<{ track: AlbumTrack; audio: T }> = [];
+  for (const track of [...albumTracks].sort((a, b) => a.albumOrder - b.albumOrder)) {
+    const audio = track.isSchulsong ? schulsongAudio : audioBySongId.get(track.songId);
+    if (audio) matched.push({ track, audio });
+  }
+  return matched;
+}
+
+/**
+ * "01. Schulsong.mp3" / "02. Song - Class.mp3"
+ */
+export function getAlbumZipName(track: AlbumTrack): string {
+  const padded = String(track.albumOrder).padStart(2, '0');
+  const displayName = track.isSchulsong ? track.songTitle : `${track.songTitle} - ${track.className}`;
+  return `${padded}. ${displayName}.mp3`;
+}
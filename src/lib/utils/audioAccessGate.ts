@@ -3,9 +3,19 @@
  * (src/app/api/parent/audio-access/route.ts).
  *
  * These are deliberately dependency-free so the gate logic can be unit-tested
- * without mocking Airtable / R2 / sessions.
+ * without mocking Airtable / R2 / sessions. Family share links
+ * (shareLinkService) run every play through the same helpers.
  */
 
+import { parseOverrides, getThreshold } from './eventThresholds';
+
+export interface AudioReleaseState {
+  previewDate: Date | null;
+  releaseDate: Date | null;
+  hasPreviewsAvailable: boolean;
+  isReleased: boolean;
+}
+
 /**
  * Does this event grant audio downloads to every parent without a Minicard purchase?
  *
@@ -39,3 +49,47 @@ export function shouldEmitDownloads(
 ): boolean {
   return (audioFreeForAll || hasMinicard) && isReleased;
 }
+
+/**
+ * Where is the event in its audio release? Purely time-based (event date plus the
+ * preview / full release thresholds, with per-event overrides), folded together with
+ * the audio_hidden kill-switch and the schulsong gate. An event without a date is
+ * neither previewable nor released.
+ */
+export function resolveAudioRelease(
+  event: {
+    event_date?: string;
+    timeline_overrides?: string;
+    is_schulsong?: boolean;
+    schulsong_released_at?: string;
+  } | null | undefined,
+  now: Date = new Date()
+): AudioReleaseState {
+  const eventDate = event?.event_date ? new Date(event.event_date) : null;
+  const overrides = parseOverrides(event?.timeline_overrides);
+  const previewDays = getThreshold('preview_available_days', overrides);
+  const releaseDays = getThreshold('full_release_days', overrides);
+
+  const previewDate = eventDate ? new Date(eventDate) : null;
+  if (previewDate) previewDate.setDate(previewDate.getDate() + previewDays);
+
+  const releaseDate = eventDate ? new Date(eventDate) : null;
+  if (releaseDate) releaseDate.setDate(releaseDate.getDate() + releaseDays);
+
+  // Audio visibility kill-switch: stored in timeline_overrides.audio_hidden.
+  // Default (absent) = visible. Admin can toggle audio_hidden=true to block parent access.
+  const audioHidden = overrides?.audio_hidden === true;
+
+  // Schulsong gate: if event has schulsong, also require schulsong_released_at to have passed
+  // This holds class audio release until schulsong is approved (creating unified "moment")
+  const schulsongGatePassed = event?.is_schulsong
+    ? !!(event.schulsong_released_at && new Date(event.schulsong_released_at) <= now)
+    : true; // Non-schulsong events: no gate
+
+  return {
+    previewDate,
+    releaseDate,
+    hasPreviewsAvailable: previewDate ? now >= previewDate && !audioHidden : false,
+    isReleased: releaseDate ? now >= releaseDate && !audioHidden && schulsongGatePassed : false,
+  };
+}
@@ -0,0 +1,136 @@
+/**
+ * Technical analysis of uploaded audio from one ffmpeg pass
+ * (`-af silencedetect,volumedetect -f null -`).
+ *
+ * ffmpeg prints the stream info, the silence ranges and the volume histogram
+ * to stderr; parseAudioAnalysis() turns that into the numbers stored on the
+ * AudioFile, getAudioQualityWarnings() into what the engineer UI flags.
+ */
+
+// Anything quieter than this for at least ANALYSIS_SILENCE_MIN_SECONDS counts as silence
+export const ANALYSIS_SILENCE_THRESHOLD_DB = -50;
+export const ANALYSIS_SILENCE_MIN_SECONDS = 0.5;
+
+// Share of samples at full scale above which a final counts as clipped
+export const CLIPPING_WARN_PERCENT = 0.01;
+
+// A final shorter than this share of its raw recording (silence trimmed) is
+// probably cut off
+export const SHORT_FINAL_RATIO = 0.6;
+
+export interface AudioAnalysis {
+  durationSeconds: number;
+  sampleRate: number;
+  channels: number;              // 0 = unknown layout
+  peakDbfs: number;
+  clippingPercent: number;       // Share of samples at 0 dBFS
+  leadingSilenceSeconds: number;
+  trailingSilenceSeconds: number;
+}
+
+export type AudioQualityWarning =
+  | { kind: 'clipping'; clippingPercent: number }
+  | { kind: 'mono' }
+  | { kind: 'short'; finalSeconds: number; rawSeconds: number };
+
+type AnalyzedFile = Partial<Pick<AudioAnalysis, 'durationSeconds' | 'channels' | 'clippingPercent' | 'leadingSilenceSeconds' | 'trailingSilenceSeconds'>>;
+
+export function buildAnalysisFilter(): string {
+  return `silencedetect=noise=${ANALYSIS_SILENCE_THRESHOLD_DB}dB:d=${ANALYSIS_SILENCE_MIN_SECONDS},volumedetect`;
+}
+
+const CHANNEL_LAYOUTS: Record<string, number> = { mono: 1, stereo: 2, quad: 4 };
+
+function parseChannelLayout(layout: string): number {
+  const name = layout.trim().replace(/\(.*\)$/, '');
+  if (CHANNEL_LAYOUTS[name]) return CHANNEL_LAYOUTS[name];
+  const count = name.match(/^(\d+) channels?$/);
+  if (count) return Number(count[1]);
+  const surround = name.match(/^(\d)\.(\d)$/);
+  if (surround) return Number(surround[1]) + Number(surround[2]);
+  return 0;
+}
+
+function parseTimestamp(hours: string, minutes: string, seconds: string): number {
+  return Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds);
+}
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Parse the stderr of an analysis run. Returns null when ffmpeg found no
+ * audio stream or produced no volume statistics.
+ */
+export function parseAudioAnalysis(stderr: string): AudioAnalysis | null {
+  const stream = stderr.match(/Stream #\d+:\d+.*?: Audio: [^,]+, (\d+) Hz, ([^,\n]+)/);
+  const nSamples = stderr.match(/n_samples: (\d+)/);
+  const maxVolume = stderr.match(/max_volume: (-?[\d.]+|-inf) dB/);
+  if (!stream || !nSamples || !maxVolume) return null;
+
+  // Container duration, or the decoded length when the header has none
+  const header = stderr.match(/Duration: (\d+):(\d+):(\d+(?:\.\d+)?)/);
+  const progress = Array.from(stderr.matchAll(/time=(\d+):(\d+):(\d+(?:\.\d+)?)/g)).pop();
+  const durationSeconds = header
+    ? parseTimestamp(header[1], header[2], header[3])
+    : progress
+      ? parseTimestamp(progress[1], progress[2], progress[3])
+      : 0;
+
+  const samples = Number(nSamples[1]);
+  const fullScale = Number(stderr.match(/histogram_0db: (\d+)/)?.[1] ?? 0);
+
+  // Silence ranges in order; the last one may have no end (silent to EOF)
+  const ranges: Array<{ start: number; end?: number }> = [];
+  for (const match of Array.from(stderr.matchAll(/silence_(start|end): (-?[\d.]+)/g))) {
+    const value = Math.max(0, Number(match[2]));
+    if (match[1] === 'start') {
+      ranges.push({ start: value });
+    } else if (ranges.length > 0) {
+      ranges[ranges.length - 1].end = value;
+    }
+  }
+
+  const first = ranges[0];
+  const last = ranges[ranges.length - 1];
+  const leadingSilenceSeconds = first && first.start <= 0.05 ? (first.end ?? durationSeconds) : 0;
+  const trailingSilenceSeconds =
+    last && (last.end === undefined || last.end >= durationSeconds - 0.05) ? durationSeconds - last.start : 0;
+
+  return {
+    durationSeconds: round(durationSeconds, 2),
+    sampleRate: Number(stream[1]),
+    channels: parseChannelLayout(stream[2]),
+    peakDbfs: maxVolume[1] === '-inf' ? -Infinity : Number(maxVolume[1]),
+    clippingPercent: samples > 0 ? round((fullScale / samples) * 100, 3) : 0,
+    leadingSilenceSeconds: round(leadingSilenceSeconds, 2),
+    trailingSilenceSeconds: round(Math.max(0, trailingSilenceSeconds), 2),
+  };
+}
+
+/**
+ * Problems with an analyzed final worth a second look before it goes to
+ * parents: clipped, mono by mistake, or much shorter than the raw recording
+ */
+export function getAudioQualityWarnings(final: AnalyzedFile, raw?: AnalyzedFile): AudioQualityWarning[] {
+  const warnings: AudioQualityWarning[] = [];
+
+  if (final.clippingPercent !== undefined && final.clippingPercent > CLIPPING_WARN_PERCENT) {
+    warnings.push({ kind: 'clipping', clippingPercent: final.clippingPercent });
+  }
+
+  if (final.channels === 1) {
+    warnings.push({ kind: 'mono' });
+  }
+
+  if (final.durationSeconds && raw?.durationSeconds) {
+    const rawSeconds = raw.durationSeconds - (raw.leadingSilenceSeconds || 0) - (raw.trailingSilenceSeconds || 0);
+    if (rawSeconds > 0 && final.durationSeconds < rawSeconds * SHORT_FINAL_RATIO) {
+      warnings.push({ kind: 'short', finalSeconds: final.durationSeconds, rawSeconds: round(rawSeconds, 1) });
+    }
+  }
+
+  return warnings;
+}
@@ -1,6 +1,6 @@
-import { getAirtableService } from '@/lib/services/airtableService';
+import { getRepositories } from '@/lib/repositories';
 import {
-  ORDERS_TABLE_ID,
+  EVENTS_FIELD_IDS,
   ORDERS_FIELD_IDS,
   ShopifyOrderLineItem,
 } from '@/lib/types/airtable';
@@ -43,22 +43,11 @@ export function classifyLineItemsAsAudioPurchase(
  * around event matching (booking_id and event_id link) stays consistent.
  */
 export async function hasAudioPurchaseForEvent(
-  parentRecordId: string,
+  parentId: string,
   eventId: string
 ): Promise<boolean> {
-  const airtable = getAirtableService();
-  const base = airtable.getBase();
-  const ordersTable = base(ORDERS_TABLE_ID);
-
-  const orders = await ordersTable
-    .select({
-      filterByFormula: `AND(
-        {${ORDERS_FIELD_IDS.payment_status}} = 'paid',
-        FIND('${parentRecordId}', ARRAYJOIN({${ORDERS_FIELD_IDS.parent_id}}, ','))
-      )`,
-      returnFieldsByFieldId: true,
-    })
-    .all();
+  const { orders: ordersRepository, events } = getRepositories();
+  const orders = await ordersRepository.listForParent(parentId, ['paid']);
 
   if (orders.length === 0) return false;
 
@@ -71,8 +60,8 @@ export async function hasAudioPurchaseForEvent(
     if (!isForEvent && eventIds) {
       try {
         for (const eventRecId of eventIds) {
-          const eventRecord = await base('Events').find(eventRecId);
-          const canonicalEventId = eventRecord.get('event_id') as string | undefined;
+          const eventRecord = await events.findById(eventRecId);
+          const canonicalEventId = eventRecord?.get(EVENTS_FIELD_IDS.event_id) as string | undefined;
           if (canonicalEventId === eventId) { isForEvent = true; break; }
         }
       } catch {
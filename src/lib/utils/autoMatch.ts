@@ -54,7 +54,7 @@ function cleanFilename(filename: string): string {
 /**
  * Convert Fuse.js score to confidence level
  */
-function scoreToConfidence(score: number, config: AutoMatchConfig): MatchConfidence {
+export function scoreToConfidence(score: number, config: AutoMatchConfig = DEFAULT_CONFIG): MatchConfidence {
   if (score <= config.highConfidenceThreshold) {
     return 'high';
   } else if (score <= config.mediumConfidenceThreshold) {
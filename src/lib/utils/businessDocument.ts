@@ -0,0 +1,96 @@
+/**
+ * Business Document Helpers
+ *
+ * Pure helpers shared by offers and invoices: which line items a deal
+ * produces, the recipient address block, money formatting and text
+ * clean-up for the standard PDF fonts.
+ */
+
+import type { DealConfig, DealType, Einrichtung } from '@/lib/types/airtable';
+import { calculateDealFee, type FeeBreakdown } from '@/lib/utils/dealCalculator';
+
+export interface DocumentRecipient {
+  name: string;
+  contactPerson?: string;
+  addressLines: string[];
+}
+
+/**
+ * Line items for a deal. The Deal Builder stores the breakdown it showed
+ * on save; configs saved before that are recalculated from the deal type.
+ */
+export function getDealLineItems(
+  dealConfig: DealConfig,
+  dealType?: DealType,
+  estimatedChildren?: number
+): FeeBreakdown | null {
+  if (dealConfig.fee_breakdown && dealConfig.fee_breakdown.items.length + dealConfig.fee_breakdown.base !== 0) {
+    return dealConfig.fee_breakdown;
+  }
+  if (!dealType) return null;
+  return calculateDealFee(dealType, dealConfig, estimatedChildren);
+}
+
+/**
+ * Address block from the Einrichtung, falling back to what the lead or
+ * booking has on file
+ */
+export function buildDocumentRecipient(
+  einrichtung: Pick<Einrichtung, 'customerName' | 'address' | 'plz' | 'ort'> | null,
+  fallback: { name: string; contactPerson?: string; address?: string; postalCode?: string; city?: string }
+): DocumentRecipient {
+  const address = einrichtung?.address || fallback.address;
+  const postalCode = einrichtung?.plz || fallback.postalCode;
+  const city = einrichtung?.ort || fallback.city;
+  const cityLine = [postalCode, city].filter(Boolean).join(' ');
+  return {
+    name: einrichtung?.customerName || fallback.name,
+    contactPerson: fallback.contactPerson,
+    addressLines: [address, cityLine].filter((line): line is string => !!line),
+  };
+}
+
+/**
+ * YYYY-MM-DD, the given number of days after `from`
+ */
+export function addDaysToDate(days: number, from: Date = new Date()): string {
+  const date = new Date(from);
+  date.setDate(date.getDate() + days);
+  return date.toISOString().split('T')[0];
+}
+
+export function formatEuro(amount: number): string {
+  return new Intl.NumberFormat('de-DE', { style: 'currency', currency: 'EUR' }).format(amount);
+}
+
+const PDF_REPLACEMENTS: Record<string, string> = {
+  '\u2264': '<=',   // ≤
+  '\u2265': '>=',   // ≥
+  '\u2192': '->',   // →
+  '\u2013': '-',    // en dash
+  '\u2014': '-',    // em dash
+  '\u202f': ' ',    // narrow no-break space (Intl currency output)
+  '\u201e': '"',    // „
+  '\u201c': '"',    // “
+  '\u201d': '"',    // ”
+  '\u2018': "'",    // ‘
+  '\u2019': "'",    // ’
+};
+
+/**
+ * Text the standard PDF fonts (WinAnsi) can encode. Umlauts, ß and € are
+ * kept; symbols from deal labels are spelled out; anything else is dropped
+ * so one odd character can't fail the whole PDF.
+ */
+export function toPdfSafeText(text: string): string {
+  return Array.from(text)
+    .map((ch) => {
+      if (PDF_REPLACEMENTS[ch] !== undefined) return PDF_REPLACEMENTS[ch];
+      const code = ch.charCodeAt(0);
+      if (code === 0x20ac) return ch;
+      if (code >= 0x20 && code <= 0x7e) return ch;
+      if (code >= 0xa0 && code <= 0xff) return ch;
+      return '';
+    })
+    .join('');
+}
@@ -0,0 +1,119 @@
+/**
+ * Red Book audio CD image helpers: WAV header, sector alignment and CUE sheet.
+ *
+ * The image is one 44.1kHz/16-bit stereo WAV holding all tracks back to back.
+ * Each track is padded with silence to a full CD sector (2352 bytes = 1/75 s)
+ * so the CUE INDEX positions (MM:SS:FF, 75 frames per second) are exact.
+ */
+
+export const CD_SAMPLE_RATE = 44100;
+export const CD_CHANNELS = 2;
+export const CD_BITS_PER_SAMPLE = 16;
+export const CD_FRAMES_PER_SECOND = 75;
+export const CD_BYTES_PER_FRAME = 2352;
+export const CD_BYTES_PER_SECOND = CD_FRAMES_PER_SECOND * CD_BYTES_PER_FRAME;
+
+// 80-minute CD-R. Red Book also caps a disc at 99 tracks.
+export const CD_MAX_SECONDS = 80 * 60;
+export const CD_MAX_FRAMES = CD_MAX_SECONDS * CD_FRAMES_PER_SECOND;
+export const CD_MAX_TRACKS = 99;
+
+// CD-Text fields hold at most 80 characters
+const CD_TEXT_MAX_LENGTH = 80;
+
+export interface CueTrack {
+  title: string;
+  performer: string;
+  startFrame: number;
+}
+
+/**
+ * Byte length of a track after padding to a whole number of CD frames
+ */
+export function padToFrame(byteLength: number): number {
+  return Math.ceil(byteLength / CD_BYTES_PER_FRAME) * CD_BYTES_PER_FRAME;
+}
+
+/**
+ * CUE timestamp for a frame offset: MM:SS:FF (minutes may exceed 59)
+ */
+export function formatCueTime(frames: number): string {
+  const minutes = Math.floor(frames / (60 * CD_FRAMES_PER_SECOND));
+  const seconds = Math.floor(frames / CD_FRAMES_PER_SECOND) % 60;
+  const rest = frames % CD_FRAMES_PER_SECOND;
+  return [minutes, seconds, rest].map((n) => String(n).padStart(2, '0')).join(':');
+}
+
+/**
+ * 44-byte RIFF/WAVE header for `dataBytes` of CD-format PCM
+ */
+export function buildWavHeader(dataBytes: number): Buffer {
+  const blockAlign = (CD_CHANNELS * CD_BITS_PER_SAMPLE) / 8;
+  const header = Buffer.alloc(44);
+  header.write('RIFF', 0, 'ascii');
+  header.writeUInt32LE(36 + dataBytes, 4);
+  header.write('WAVE', 8, 'ascii');
+  header.write('fmt ', 12, 'ascii');
+  header.writeUInt32LE(16, 16);                           // fmt chunk size
+  header.writeUInt16LE(1, 20);                            // PCM
+  header.writeUInt16LE(CD_CHANNELS, 22);
+  header.writeUInt32LE(CD_SAMPLE_RATE, 24);
+  header.writeUInt32LE(CD_SAMPLE_RATE * blockAlign, 28);  // byte rate
+  header.writeUInt16LE(blockAlign, 32);
+  header.writeUInt16LE(CD_BITS_PER_SAMPLE, 34);
+  header.write('data', 36, 'ascii');
+  header.writeUInt32LE(dataBytes, 40);
+  return header;
+}
+
+function cueString(value: string): string {
+  const clean = value.replace(/["\r\n]+/g, ' ').replace(/\s+/g, ' ').trim();
+  return `"${clean.slice(0, CD_TEXT_MAX_LENGTH)}"`;
+}
+
+/**
+ * CUE sheet for a single-file image. The disc PERFORMER is the school,
+ * each track's PERFORMER the class.
+ */
+export function buildCueSheet(options: {
+  title: string;
+  performer: string;
+  wavFilename: string;
+  tracks: CueTrack[];
+}): string {
+  const lines = [
+    `PERFORMER ${cueString(options.performer)}`,
+    `TITLE ${cueString(options.title)}`,
+    `FILE ${cueString(options.wavFilename)} WAVE`,
+  ];
+
+  options.tracks.forEach((track, index) => {
+    lines.push(
+      `  TRACK ${String(index + 1).padStart(2, '0')} AUDIO`,
+      `    TITLE ${cueString(track.title)}`,
+      `    PERFORMER ${cueString(track.performer)}`,
+      `    INDEX 01 ${formatCueTime(track.startFrame)}`
+    );
+  });
+
+  return lines.join('\r\n') + '\r\n';
+}
+
+/**
+ * Why a tracklist does not fit on one CD, or null if it does
+ */
+export function getCdCapacityError(totalSeconds: number, trackCount: number): string | null {
+  if (trackCount === 0) {
+    return 'The tracklist is empty';
+  }
+  if (trackCount > CD_MAX_TRACKS) {
+    return `${trackCount} tracks exceed the CD limit of ${CD_MAX_TRACKS}`;
+  }
+  if (totalSeconds > CD_MAX_SECONDS) {
+    const over = Math.ceil(totalSeconds - CD_MAX_SECONDS);
+    const seconds = Math.floor(totalSeconds);
+    const length = `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+    return `Total length ${length} exceeds 80 minutes by ${over}s`;
+  }
+  return null;
+}
@@ -0,0 +1,113 @@
+/**
+ * Child Consent
+ *
+ * Parental consent per child registration, kept as an append-only history
+ * of choices (Registrations.consent_history) so every change stays on
+ * record with its timestamp and text version. The current state of a scope
+ * is its latest entry; a child without any entry for a scope has not
+ * consented — name lists and other printables leave them out.
+ *
+ * Browser-safe: the registration form and parent portal use the helpers.
+ */
+
+import type { ChildConsentChange, ConsentScope } from '@/lib/types/airtable';
+import { CONSENT_SCOPES, CURRENT_CONSENT_VERSION } from '@/lib/config/consentTexts';
+
+export type ConsentChoices = Partial<Record<ConsentScope, boolean>>;
+
+/** Latest choice per scope, null where the parent never chose */
+export type ChildConsents = Record<ConsentScope, ChildConsentChange | null>;
+
+export type ConsentStatus = 'granted' | 'declined' | 'missing';
+
+export function isConsentScope(value: unknown): value is ConsentScope {
+  return typeof value === 'string' && (CONSENT_SCOPES as string[]).includes(value);
+}
+
+/**
+ * Read the consent_history JSON stored on a registration record
+ */
+export function parseConsentHistory(raw: unknown): ChildConsentChange[] {
+  if (typeof raw !== 'string' || !raw.trim()) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed)
+      ? parsed.filter(
+          (c) => c && isConsentScope(c.scope) && typeof c.granted === 'boolean' && typeof c.at === 'string'
+        )
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+export function getCurrentConsents(history: ChildConsentChange[]): ChildConsents {
+  const consents: ChildConsents = { audio_recording: null, name_on_print: null, album_download: null };
+  for (const change of history) {
+    consents[change.scope] = change;
+  }
+  return consents;
+}
+
+export function getConsentStatus(history: ChildConsentChange[], scope: ConsentScope): ConsentStatus {
+  const current = getCurrentConsents(history)[scope];
+  if (!current) return 'missing';
+  return current.granted ? 'granted' : 'declined';
+}
+
+export function hasConsent(history: ChildConsentChange[], scope: ConsentScope): boolean {
+  return getConsentStatus(history, scope) === 'granted';
+}
+
+/**
+ * History with the given choices appended. A scope only gets a new entry
+ * when its choice changes or it was last given under an older text version.
+ */
+export function appendConsentChoices(
+  history: ChildConsentChange[],
+  choices: ConsentChoices,
+  source: ChildConsentChange['source'],
+  at: string = new Date().toISOString(),
+  version: string = CURRENT_CONSENT_VERSION
+): ChildConsentChange[] {
+  const current = getCurrentConsents(history);
+  const changes: ChildConsentChange[] = [];
+
+  for (const scope of CONSENT_SCOPES) {
+    const granted = choices[scope];
+    if (granted === undefined) continue;
+    const previous = current[scope];
+    if (previous && previous.granted === granted && previous.version === version) continue;
+    changes.push({ scope, granted, at, version, source });
+  }
+
+  return changes.length > 0 ? [...history, ...changes] : history;
+}
+
+/**
+ * Consent choices from a request body, null when anything but known scopes
+ * with boolean values is sent. With `requireAll` every scope must be chosen.
+ */
+export function parseConsentChoices(input: unknown, requireAll = false): ConsentChoices | null {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) return null;
+
+  const choices: ConsentChoices = {};
+  for (const [scope, granted] of Object.entries(input)) {
+    if (!isConsentScope(scope) || typeof granted !== 'boolean') return null;
+    choices[scope] = granted;
+  }
+
+  if (requireAll && CONSENT_SCOPES.some((scope) => choices[scope] === undefined)) return null;
+  return choices;
+}
+
+/**
+ * The children whose names may be printed, in name order
+ */
+export function filterPrintableChildren<T extends { childName: string; consentHistory: ChildConsentChange[] }>(
+  children: T[]
+): T[] {
+  return children
+    .filter((child) => child.childName && hasConsent(child.consentHistory, 'name_on_print'))
+    .sort((a, b) => a.childName.localeCompare(b.childName, 'de'));
+}
@@ -0,0 +1,128 @@
+/**
+ * Data Protection Helpers
+ *
+ * Pure helpers for the DSGVO data subject tooling (dataProtectionService):
+ * the export archive layout, the values erased records are overwritten
+ * with, the retention cutoff and which R2 prefixes hold an event's raw
+ * recordings.
+ */
+
+import crypto from 'crypto';
+import type { DataSubjectExport } from '@/lib/types/dataProtection';
+
+// Replaces parent and child names on erasure and retention
+export const ANONYMISED_NAME = 'Anonymisiert';
+
+const ANONYMISED_EMAIL_DOMAIN = 'anonymisiert.invalid';
+
+/**
+ * Stable pseudonym for an email address, used in reports and job labels
+ * instead of the address itself
+ */
+export function hashDataSubject(email: string): string {
+  return crypto.createHash('sha256').update(email.trim().toLowerCase(), 'utf8').digest('hex');
+}
+
+/**
+ * Undeliverable replacement address. Keeps erased parents distinct (the
+ * Parents table is deduplicated by email) without storing the original.
+ */
+export function getAnonymisedEmail(subjectHash: string): string {
+  return `geloescht-${subjectHash.slice(0, 16)}@${ANONYMISED_EMAIL_DOMAIN}`;
+}
+
+export function isAnonymisedEmail(email: string): boolean {
+  return email.toLowerCase().endsWith(`@${ANONYMISED_EMAIL_DOMAIN}`);
+}
+
+/**
+ * Last event date (exclusive, YYYY-MM-DD) whose data is still kept: events
+ * dated before it are due for purging. Month ends are clamped, so 31 March
+ * minus one month is 28/29 February.
+ */
+export function getRetentionCutoffDate(months: number, now: Date = new Date()): string {
+  const monthIndex = now.getUTCFullYear() * 12 + now.getUTCMonth() - months;
+  const year = Math.floor(monthIndex / 12);
+  const month = monthIndex - year * 12;
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(year, month, Math.min(now.getUTCDate(), lastDay))).toISOString().slice(0, 10);
+}
+
+/**
+ * R2 folders holding an event's raw recordings, from the r2_key of its raw
+ * AudioFiles ("…/raw/" included). Keys outside the event's own folders are
+ * ignored so a misfiled record can never widen the purge.
+ */
+export function getRawAudioPrefixes(eventId: string, r2Keys: string[]): string[] {
+  const prefixes = new Set<string>();
+  for (const key of r2Keys) {
+    if (!key.startsWith(`recordings/${eventId}/`) && !key.startsWith(`events/${eventId}/`)) continue;
+    const index = key.indexOf('/raw/');
+    if (index > 0) prefixes.add(key.slice(0, index + '/raw/'.length));
+  }
+  return [...prefixes].sort();
+}
+
+/**
+ * Bucket a raw audio prefix lives in: recordings/… in the recordings
+ * bucket, the per-event folders (events/…) in the assets bucket
+ */
+export function getPrefixBucket(prefix: string): 'recordings' | 'assets' {
+  return prefix.startsWith('recordings/') ? 'recordings' : 'assets';
+}
+
+/**
+ * A record's non-empty fields keyed by field name instead of field ID
+ */
+export function toNamedFields(
+  record: { get(fieldId: string): unknown },
+  fieldIds: Record<string, string>,
+  options: { omit?: string[]; json?: string[] } = {}
+): Record<string, unknown> {
+  const named: Record<string, unknown> = {};
+  for (const [name, fieldId] of Object.entries(fieldIds)) {
+    if (options.omit?.includes(name)) continue;
+    const value = record.get(fieldId);
+    if (value === undefined || value === null || value === '') continue;
+    named[name] = options.json?.includes(name) ? parseJsonValue(value) : value;
+  }
+  return named;
+}
+
+function parseJsonValue(value: unknown): unknown {
+  if (typeof value !== 'string') return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Files of the export archive: one JSON file per source plus a manifest
+ * with the counts, so the archive documents its own contents
+ */
+export function buildExportArchiveFiles(
+  data: DataSubjectExport,
+  generatedBy: string
+): Array<{ name: string; content: string }> {
+  const sources = [
+    { name: 'parent.json', records: data.parent ? [data.parent] : [], content: data.parent },
+    { name: 'children.json', records: data.children, content: data.children },
+    { name: 'orders.json', records: data.orders, content: data.orders },
+    { name: 'email-logs.json', records: data.emailLogs, content: data.emailLogs },
+    { name: 'legacy-parent-journey.json', records: data.legacyRecords, content: data.legacyRecords },
+  ];
+
+  const manifest = {
+    email: data.email,
+    generatedAt: data.generatedAt,
+    generatedBy,
+    files: sources.map(({ name, records }) => ({ name, records: records.length })),
+  };
+
+  return [
+    { name: 'manifest.json', content: JSON.stringify(manifest, null, 2) },
+    ...sources.map(({ name, content }) => ({ name, content: JSON.stringify(content, null, 2) })),
+  ];
+}
@@ -0,0 +1,238 @@
+import type { EmailBlock, EmailBlockType } from '@/lib/types/email-automation';
+
+/**
+ * Block-Based Email Builder
+ *
+ * Templates built in the admin block editor are stored as a block list and
+ * rendered to the same {{variable}} HTML the send paths already substitute,
+ * so the cron and trigger senders never see blocks. Conditional blocks
+ * render as {{#if variable}}...{{/if}} sections, which both
+ * substituteTemplateVariables and renderTriggerTemplate resolve.
+ *
+ * Browser-safe: the builder renders locally for the editor, the API renders
+ * again on save so stored HTML always matches the stored blocks.
+ */
+
+export const EMAIL_BLOCK_LABELS: Record<EmailBlockType, string> = {
+  heading: 'Überschrift',
+  text: 'Text',
+  button: 'Button',
+  image: 'Bild',
+  divider: 'Trennlinie',
+  conditional: 'Bedingter Block',
+};
+
+// Inline styles match the hand-written trigger templates
+const HEADING_STYLE = 'margin: 0 0 16px 0; color: #2F4858; font-size: 22px; font-weight: 600;';
+const PARAGRAPH_STYLE = 'margin: 0 0 16px 0; color: #4a5568; font-size: 16px; line-height: 1.6;';
+const BUTTON_STYLE =
+  'display: inline-block; background-color: #d85a6a; color: #ffffff; text-decoration: none; padding: 16px 40px; border-radius: 8px; font-size: 16px; font-weight: 600;';
+const IMAGE_STYLE = 'display: block; max-width: 100%; height: auto; margin: 0 auto; border-radius: 8px;';
+const DIVIDER_STYLE = 'border: none; border-top: 1px solid #e8e8e8; margin: 24px 0;';
+
+const VARIABLE_PATTERN = /\{\{\{?\s*([^}]+?)\s*\}\}\}?/g;
+const CONDITIONAL_PATTERN = /\{\{#if\s+([\w]+)\s*\}\}([\s\S]*?)\{\{\/if\}\}/g;
+const DATE_MATH_PATTERN = /^(\w+)[+-]\d+$/;
+
+function newBlockId(): string {
+  return Math.random().toString(36).slice(2, 10);
+}
+
+/**
+ * A new block of the given type with empty content
+ */
+export function createEmailBlock(type: EmailBlockType): EmailBlock {
+  const id = newBlockId();
+  switch (type) {
+    case 'heading':
+      return { id, type, text: '' };
+    case 'text':
+      return { id, type, text: '' };
+    case 'button':
+      return { id, type, label: '', url: '' };
+    case 'image':
+      return { id, type, src: '', alt: '' };
+    case 'divider':
+      return { id, type };
+    case 'conditional':
+      return { id, type, variable: '', blocks: [] };
+  }
+}
+
+/**
+ * Escape text for interpolation into email HTML
+ */
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function renderText(text: string): string {
+  return text
+    .trim()
+    .split(/\n\s*\n/)
+    .map((paragraph) => {
+      const html = escapeHtml(paragraph.trim())
+        .replace(/\*\*(.+?)\*\*/g, '<strong>$1</strong>')
+        .replace(/\n/g, '<br>\n');
+      return `<p style="${PARAGRAPH_STYLE}">\n  ${html}\n</p>`;
+    })
+    .join('\n\n');
+}
+
+function renderBlock(block: EmailBlock): string {
+  switch (block.type) {
+    case 'heading':
+      return `<h2 style="${HEADING_STYLE}">\n  ${escapeHtml(block.text.trim())}\n</h2>`;
+    case 'text':
+      return renderText(block.text);
+    case 'button':
+      return `<table role="presentation" width="100%" cellspacing="0" cellpadding="0">
+  <tr>
+    <td align="center" style="padding: 8px 0 32px 0;">
+      <a href="${escapeHtml(block.url.trim())}"
+         style="${BUTTON_STYLE}">
+        ${escapeHtml(block.label.trim())}
+      </a>
+    </td>
+  </tr>
+</table>`;
+    case 'image': {
+      const img = `<img src="${escapeHtml(block.src.trim())}" alt="${escapeHtml(block.alt.trim())}" width="520" style="${IMAGE_STYLE}">`;
+      const content = block.href?.trim() ? `<a href="${escapeHtml(block.href.trim())}">${img}</a>` : img;
+      return `<p style="margin: 0 0 16px 0; text-align: center;">\n  ${content}\n</p>`;
+    }
+    case 'divider':
+      return `<hr style="${DIVIDER_STYLE}">`;
+    case 'conditional':
+      return `{{#if ${block.variable}}}\n${renderEmailBlocks(block.blocks)}\n{{/if}}`;
+  }
+}
+
+/**
+ * Render blocks to template HTML with {{variables}} left in place
+ */
+export function renderEmailBlocks(blocks: EmailBlock[]): string {
+  return blocks.map(renderBlock).join('\n\n');
+}
+
+/**
+ * Read the blocks JSON stored on a template record. Anything that doesn't
+ * parse means the template is edited as raw HTML.
+ */
+export function parseEmailBlocks(raw: unknown): EmailBlock[] | undefined {
+  if (typeof raw !== 'string' || !raw.trim()) return undefined;
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) && validateEmailBlocks(parsed) === null ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function isLinkTarget(value: string): boolean {
+  return /^(https?:\/\/|mailto:)\S+$/.test(value) || /^\{\{\s*\w+\s*\}\}$/.test(value);
+}
+
+/**
+ * Check blocks coming from the admin editor. Returns an error message or
+ * null when valid.
+ */
+export function validateEmailBlocks(blocks: unknown, nested = false): string | null {
+  if (!Array.isArray(blocks)) return 'bodyBlocks must be an array';
+
+  for (const block of blocks) {
+    if (!block || typeof block !== 'object' || typeof block.id !== 'string') return 'Ungültiger Block';
+    const label = EMAIL_BLOCK_LABELS[block.type as EmailBlockType];
+    switch (block.type) {
+      case 'heading':
+      case 'text':
+        if (typeof block.text !== 'string' || !block.text.trim()) return `${label}: Text fehlt`;
+        break;
+      case 'button':
+        if (typeof block.label !== 'string' || !block.label.trim()) return `${label}: Beschriftung fehlt`;
+        if (typeof block.url !== 'string' || !isLinkTarget(block.url.trim())) {
+          return `${label}: Link muss eine https://-Adresse oder eine {{variable}} sein`;
+        }
+        break;
+      case 'image':
+        if (typeof block.src !== 'string' || !/^https:\/\/\S+$/.test(block.src.trim())) {
+          return `${label}: Bild muss eine https://-Adresse sein`;
+        }
+        if (typeof block.alt !== 'string') return `${label}: Alternativtext fehlt`;
+        if (block.href !== undefined) {
+          if (typeof block.href !== 'string') return `${label}: Ungültiger Link`;
+          if (block.href.trim() && !isLinkTarget(block.href.trim())) {
+            return `${label}: Link muss eine https://-Adresse oder eine {{variable}} sein`;
+          }
+        }
+        break;
+      case 'divider':
+        break;
+      case 'conditional': {
+        if (nested) return `${label}: Bedingte Blöcke können nicht verschachtelt werden`;
+        if (typeof block.variable !== 'string' || !/^\w+$/.test(block.variable)) {
+          return `${label}: Variable auswählen`;
+        }
+        if (!Array.isArray(block.blocks) || block.blocks.length === 0) return `${label}: Mindestens einen Block hinzufügen`;
+        const innerError = validateEmailBlocks(block.blocks, true);
+        if (innerError) return innerError;
+        break;
+      }
+      default:
+        return `Unbekannter Blocktyp: ${String(block.type)}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Resolve {{#if variable}}...{{/if}} sections: keep the content when the
+ * variable is set, drop it otherwise
+ */
+export function applyConditionalSections(template: string, isSet: (variable: string) => boolean): string {
+  return template.replace(CONDITIONAL_PATTERN, (_match, variable: string, content: string) =>
+    isSet(variable) ? content : ''
+  );
+}
+
+/**
+ * Variable names used in a template, including {{#if}} conditions
+ */
+export function findTemplateVariables(content: string): string[] {
+  const names = new Set<string>();
+  for (const match of content.matchAll(VARIABLE_PATTERN)) {
+    const token = match[1];
+    if (token === '/if') continue;
+    names.add(token.startsWith('#if ') ? token.slice(4).trim() : token);
+  }
+  return [...names];
+}
+
+/**
+ * Variables in the content that the send path won't fill. With dateMath,
+ * {{event_date+7}} style offsets of an allowed variable are accepted.
+ */
+export function findUnknownVariables(
+  content: string,
+  allowed: string[],
+  options: { dateMath?: boolean } = {}
+): string[] {
+  const allowedSet = new Set(allowed);
+  return findTemplateVariables(content).filter((name) => {
+    if (allowedSet.has(name)) return false;
+    const dateMath = options.dateMath ? DATE_MATH_PATTERN.exec(name) : null;
+    return !(dateMath && allowedSet.has(dateMath[1]));
+  });
+}
+
+/**
+ * Error message for unknown variables, or null when there are none
+ */
+export function formatUnknownVariablesError(unknown: string[]): string | null {
+  if (unknown.length === 0) return null;
+  return `Unbekannte Variable${unknown.length === 1 ? '' : 'n'}: ${unknown.map((v) => `{{${v}}}`).join(', ')}`;
+}
@@ -0,0 +1,88 @@
+import type { Parent, ParentEmailCategory } from '@/lib/types/airtable';
+
+/**
+ * Parent Email Preferences
+ *
+ * `email_campaigns` stays the master switch: the one-click unsubscribe
+ * (List-Unsubscribe-Post) sets it to 'no' and nothing campaign-related is sent.
+ * The preference center additionally stores the categories a parent turned
+ * off in `email_opt_outs`, and sets `email_campaigns` back to 'yes' as long as
+ * at least one category is on.
+ *
+ * Browser-safe: the preference center page uses the labels.
+ */
+
+export const PARENT_EMAIL_CATEGORIES: ParentEmailCategory[] = [
+  'event_reminders',
+  'shop_promotions',
+  'audio_ready',
+  'schulsong_release',
+];
+
+export const PARENT_EMAIL_CATEGORY_LABELS: Record<ParentEmailCategory, { label: string; description: string }> = {
+  event_reminders: {
+    label: 'Erinnerungen zum Minimusikertag',
+    description: 'Hinweise vor und nach dem Aufnahmetag eurer Schule oder Kita.',
+  },
+  shop_promotions: {
+    label: 'Angebote aus dem Shop',
+    description: 'Frühbucher-Aktionen, Merch-Fristen und Produktneuheiten.',
+  },
+  audio_ready: {
+    label: 'Aufnahme ist fertig',
+    description: 'Nachricht, sobald die Aufnahme eures Kindes angehört werden kann.',
+  },
+  schulsong_release: {
+    label: 'Schulsong-Veröffentlichung',
+    description: 'Nachricht, wenn der Schulsong eurer Schule freigegeben wird.',
+  },
+};
+
+export type ParentEmailPreferences = Record<ParentEmailCategory, boolean>;
+
+export function isParentEmailCategory(value: unknown): value is ParentEmailCategory {
+  return typeof value === 'string' && (PARENT_EMAIL_CATEGORIES as string[]).includes(value);
+}
+
+/**
+ * Read the opt-outs multiple select from a Parents record
+ */
+export function parseEmailOptOuts(raw: unknown): ParentEmailCategory[] {
+  return Array.isArray(raw) ? raw.filter(isParentEmailCategory) : [];
+}
+
+/**
+ * Whether campaign mail of this category may be sent to the parent
+ */
+export function isParentSubscribedTo(
+  parent: Pick<Parent, 'email_campaigns' | 'email_opt_outs'>,
+  category: ParentEmailCategory
+): boolean {
+  if (parent.email_campaigns === 'no') return false;
+  return !(parent.email_opt_outs ?? []).includes(category);
+}
+
+/**
+ * Current on/off state of every category for the preference center
+ */
+export function getParentEmailPreferences(
+  parent: Pick<Parent, 'email_campaigns' | 'email_opt_outs'>
+): ParentEmailPreferences {
+  return Object.fromEntries(
+    PARENT_EMAIL_CATEGORIES.map((category) => [category, isParentSubscribedTo(parent, category)])
+  ) as ParentEmailPreferences;
+}
+
+/**
+ * Parent fields that store the given preferences. Categories missing from
+ * `preferences` count as off.
+ */
+export function toParentPreferenceFields(
+  preferences: Partial<ParentEmailPreferences>
+): Required<Pick<Parent, 'email_campaigns' | 'email_opt_outs'>> {
+  const optOuts = PARENT_EMAIL_CATEGORIES.filter((category) => !preferences[category]);
+  return {
+    email_campaigns: optOuts.length === PARENT_EMAIL_CATEGORIES.length ? 'no' : 'yes',
+    email_opt_outs: optOuts,
+  };
+}
@@ -0,0 +1,179 @@
+import type {
+  EmailTemplate,
+  EmailTemplateVariant,
+  TemplateData,
+} from '@/lib/types/email-automation';
+
+/**
+ * A/B Variants for Timeline Email Templates
+ *
+ * A template's own subject/body is variant A; `variants` holds the
+ * alternatives (B, C, ...) with their share of recipients in percent and A
+ * gets the rest. Each recipient lands in a stable bucket derived from the
+ * template name and their email, so re-runs and catch-up sends never flip
+ * someone to another variant.
+ *
+ * Shop links in the template data are tagged with UTM parameters naming
+ * the template and variant. Resend click events on tagged links count as
+ * shop clicks in the email stats.
+ */
+
+export const CONTROL_VARIANT_KEY = 'A';
+
+// A/B/C/D is plenty for our volumes; more splits never reach significance
+export const MAX_EXTRA_VARIANTS = 3;
+
+// Template variables that link to the family shop
+export const SHOP_LINK_VARIABLES = ['event_link', 'order_link', 'parent_portal_link'] as const;
+
+const UTM_SOURCE = 'minimusiker-automation';
+
+/**
+ * Read the variants JSON stored on a template record. Malformed entries are
+ * dropped so a bad edit in Airtable can't break the cron.
+ */
+export function parseTemplateVariants(raw: unknown): EmailTemplateVariant[] {
+  if (typeof raw !== 'string' || !raw.trim()) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return [];
+    return parsed.filter(
+      (v): v is EmailTemplateVariant =>
+        !!v &&
+        typeof v.key === 'string' &&
+        typeof v.subject === 'string' &&
+        typeof v.bodyHtml === 'string' &&
+        typeof v.weight === 'number'
+    );
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Check variants coming from the admin editor. Returns an error message or
+ * null when valid.
+ */
+export function validateTemplateVariants(variants: unknown): string | null {
+  if (!Array.isArray(variants)) return 'variants must be an array';
+  if (variants.length > MAX_EXTRA_VARIANTS) {
+    return `At most ${MAX_EXTRA_VARIANTS} variants besides A are supported`;
+  }
+
+  const keys = new Set<string>();
+  let totalWeight = 0;
+  for (const variant of variants) {
+    if (!variant || typeof variant !== 'object') return 'Invalid variant';
+    const { key, subject, bodyHtml, weight } = variant as Partial<EmailTemplateVariant>;
+    if (typeof key !== 'string' || !/^[B-Z]$/.test(key)) {
+      return 'Variant keys must be single letters from B to Z';
+    }
+    if (keys.has(key)) return `Variant ${key} is defined twice`;
+    keys.add(key);
+    if (typeof subject !== 'string' || !subject.trim()) return `Variant ${key} needs a subject`;
+    if (typeof bodyHtml !== 'string' || !bodyHtml.trim()) return `Variant ${key} needs a body`;
+    if (typeof weight !== 'number' || !Number.isInteger(weight) || weight < 1 || weight > 99) {
+      return `Variant ${key} needs a share between 1 and 99 %`;
+    }
+    totalWeight += weight;
+  }
+
+  if (totalWeight > 99) return 'Variant A must keep at least 1 % of recipients';
+  return null;
+}
+
+/**
+ * All variants of a template, A first, with A's share filled in
+ */
+export function getTemplateVariants(
+  template: Pick<EmailTemplate, 'subject' | 'bodyHtml' | 'variants'>
+): EmailTemplateVariant[] {
+  const extra = template.variants ?? [];
+  const extraWeight = extra.reduce((sum, v) => sum + v.weight, 0);
+  return [
+    {
+      key: CONTROL_VARIANT_KEY,
+      subject: template.subject,
+      bodyHtml: template.bodyHtml,
+      weight: Math.max(100 - extraWeight, 0),
+    },
+    ...extra,
+  ];
+}
+
+/**
+ * Stable bucket 0-99 for a seed (32-bit FNV-1a; runs in the browser too)
+ */
+export function variantBucket(seed: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) % 100;
+}
+
+/**
+ * The variant a recipient gets for a template. Seeded with the template name
+ * so the same parent isn't in the B group of every test.
+ */
+export function assignTemplateVariant(
+  template: Pick<EmailTemplate, 'name' | 'subject' | 'bodyHtml' | 'variants'>,
+  email: string
+): EmailTemplateVariant {
+  const variants = getTemplateVariants(template);
+  if (variants.length === 1) return variants[0];
+
+  const bucket = variantBucket(`${template.name}:${email.trim().toLowerCase()}`);
+  let threshold = 0;
+  for (const variant of variants) {
+    threshold += variant.weight;
+    if (bucket < threshold) return variant;
+  }
+  return variants[0];
+}
+
+function campaignSlug(templateName: string): string {
+  return templateName
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Copy of the template data with the shop links tagged for click stats
+ */
+export function tagShopLinks<T extends Partial<TemplateData>>(
+  data: T,
+  templateName: string,
+  variantKey: string
+): T {
+  const tagged: Partial<TemplateData> = { ...data };
+  for (const key of SHOP_LINK_VARIABLES) {
+    const value = data[key];
+    if (!value) continue;
+    try {
+      const url = new URL(value);
+      url.searchParams.set('utm_source', UTM_SOURCE);
+      url.searchParams.set('utm_medium', 'email');
+      url.searchParams.set('utm_campaign', campaignSlug(templateName));
+      url.searchParams.set('utm_content', variantKey);
+      tagged[key] = url.toString();
+    } catch {
+      // Not an absolute URL - leave as is
+    }
+  }
+  return tagged as T;
+}
+
+/**
+ * Whether a clicked link is one of our tagged shop links
+ */
+export function isTaggedShopLink(link: string | undefined): boolean {
+  if (!link) return false;
+  try {
+    return new URL(link).searchParams.get('utm_source') === UTM_SOURCE;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,124 @@
+/**
+ * ID3 Tags
+ *
+ * Builds the ID3v2.3 tag written into every released final MP3 so phones
+ * and media players show song, class, album and cover art instead of a bare
+ * filename. v2.3 with UTF-16 text is what iOS, Android and Windows all read;
+ * any tag already at the start of the file (ffmpeg writes its own) is
+ * replaced.
+ */
+
+export interface Id3Tags {
+  title: string;
+  artist?: string;
+  album?: string;
+  trackNumber?: number;
+  trackTotal?: number;
+  year?: string;
+}
+
+export interface CoverArt {
+  data: Buffer;
+  mimeType: 'image/jpeg' | 'image/png';
+}
+
+const HEADER_BYTES = 10;
+const FRAME_HEADER_BYTES = 10;
+// APIC picture type 3 = "Cover (front)"
+const FRONT_COVER = 0x03;
+
+/**
+ * Tags for one album track: title from the song, artist = class name,
+ * album = "<school> <event year>", track number from album_order
+ */
+export function buildTrackTags(
+  track: { title: string; className?: string; trackNumber?: number },
+  album: { schoolName: string; eventDate?: string; trackTotal?: number }
+): Id3Tags {
+  const year = album.eventDate?.slice(0, 4);
+  const hasYear = !!year && /^\d{4}$/.test(year);
+
+  return {
+    title: track.title,
+    artist: track.className || undefined,
+    album: hasYear ? `${album.schoolName} ${year}` : album.schoolName,
+    trackNumber: track.trackNumber && track.trackNumber > 0 ? track.trackNumber : undefined,
+    trackTotal: track.trackNumber && album.trackTotal ? album.trackTotal : undefined,
+    year: hasYear ? year : undefined,
+  };
+}
+
+/**
+ * Cover art MIME type from an image key or filename, null for anything
+ * that cannot be embedded
+ */
+export function getCoverMimeType(key: string): CoverArt['mimeType'] | null {
+  const extension = key.split('.').pop()?.toLowerCase();
+  if (extension === 'jpg' || extension === 'jpeg') return 'image/jpeg';
+  if (extension === 'png') return 'image/png';
+  return null;
+}
+
+function syncsafe(size: number): Buffer {
+  return Buffer.from([(size >> 21) & 0x7f, (size >> 14) & 0x7f, (size >> 7) & 0x7f, size & 0x7f]);
+}
+
+function frame(id: string, body: Buffer): Buffer {
+  const header = Buffer.alloc(FRAME_HEADER_BYTES);
+  header.write(id, 0, 'latin1');
+  header.writeUInt32BE(body.length, 4);
+  return Buffer.concat([header, body]);
+}
+
+function textFrame(id: string, text: string): Buffer {
+  // Encoding 0x01 = UTF-16 with BOM
+  return frame(id, Buffer.concat([Buffer.from([0x01, 0xff, 0xfe]), Buffer.from(text, 'utf16le')]));
+}
+
+function pictureFrame(cover: CoverArt): Buffer {
+  return frame(
+    'APIC',
+    Buffer.concat([
+      Buffer.from([0x00]),
+      Buffer.from(`${cover.mimeType}\0`, 'latin1'),
+      Buffer.from([FRONT_COVER, 0x00]), // picture type, empty description
+      cover.data,
+    ])
+  );
+}
+
+/**
+ * Complete ID3v2.3 tag (header + frames)
+ */
+export function buildId3Tag(tags: Id3Tags, cover?: CoverArt | null): Buffer {
+  const frames: Buffer[] = [textFrame('TIT2', tags.title)];
+  if (tags.artist) frames.push(textFrame('TPE1', tags.artist));
+  if (tags.album) frames.push(textFrame('TALB', tags.album));
+  if (tags.trackNumber) {
+    frames.push(textFrame('TRCK', tags.trackTotal ? `${tags.trackNumber}/${tags.trackTotal}` : String(tags.trackNumber)));
+  }
+  if (tags.year) frames.push(textFrame('TYER', tags.year));
+  if (cover) frames.push(pictureFrame(cover));
+
+  const body = Buffer.concat(frames);
+  const header = Buffer.concat([Buffer.from('ID3', 'latin1'), Buffer.from([0x03, 0x00, 0x00]), syncsafe(body.length)]);
+  return Buffer.concat([header, body]);
+}
+
+/**
+ * Length of the ID3v2 tag at the start of the file (0 when there is none)
+ */
+export function getId3TagLength(mp3: Buffer): number {
+  if (mp3.length < HEADER_BYTES || mp3.toString('latin1', 0, 3) !== 'ID3') return 0;
+  const size = (mp3[6] << 21) | (mp3[7] << 14) | (mp3[8] << 7) | mp3[9];
+  // v2.4 footer flag adds a 10-byte footer
+  const footer = mp3[3] === 4 && (mp3[5] & 0x10) !== 0 ? HEADER_BYTES : 0;
+  return Math.min(HEADER_BYTES + size + footer, mp3.length);
+}
+
+/**
+ * The MP3 with its leading ID3v2 tag replaced by one built from `tags`
+ */
+export function writeId3Tag(mp3: Buffer, tags: Id3Tags, cover?: CoverArt | null): Buffer {
+  return Buffer.concat([buildId3Tag(tags, cover), mp3.subarray(getId3TagLength(mp3))]);
+}
@@ -0,0 +1,144 @@
+/**
+ * Invoice Document Helpers
+ *
+ * Pure helpers behind invoiceService: VAT totals, sequential numbering,
+ * overdue/dunning state and the school fee figures for analytics.
+ */
+
+import type { Invoice, InvoiceLineItem, InvoiceStatus } from '@/lib/types/airtable';
+import type { InvoiceDunningStep } from '@/lib/config/businessDocuments';
+
+export interface InvoiceTotals {
+  netAmount: number;
+  vatAmount: number;
+  grossAmount: number;
+}
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Net, VAT and gross for the line items. VAT is calculated once on the sum,
+ * not per line, so the three figures always add up.
+ */
+export function calculateInvoiceTotals(
+  lineItems: InvoiceLineItem[],
+  vatRate: number,
+  pricesIncludeVat: boolean
+): InvoiceTotals {
+  const sum = roundCents(lineItems.reduce((total, item) => total + item.amount, 0));
+  if (pricesIncludeVat) {
+    const netAmount = roundCents(sum / (1 + vatRate / 100));
+    return { netAmount, vatAmount: roundCents(sum - netAmount), grossAmount: sum };
+  }
+  const vatAmount = roundCents(sum * (vatRate / 100));
+  return { netAmount: sum, vatAmount, grossAmount: roundCents(sum + vatAmount) };
+}
+
+const INVOICE_NUMBER_PATTERN = /^RE-(\d{4})-(\d+)$/;
+
+/**
+ * Next number in the yearly sequence, e.g. RE-2026-0008. Invoices and
+ * cancellation invoices share one sequence.
+ */
+export function getNextInvoiceNumber(existingNumbers: string[], year: number): string {
+  const highest = existingNumbers.reduce((max, number) => {
+    const match = INVOICE_NUMBER_PATTERN.exec(number);
+    if (!match || Number(match[1]) !== year) return max;
+    return Math.max(max, Number(match[2]));
+  }, 0);
+  return `RE-${year}-${String(highest + 1).padStart(4, '0')}`;
+}
+
+/**
+ * Whole days past the due date (0 when not yet due)
+ */
+export function getDaysOverdue(dueDate: string | undefined, today: string): number {
+  if (!dueDate) return 0;
+  const days = Math.floor((Date.parse(today) - Date.parse(dueDate)) / (24 * 60 * 60 * 1000));
+  return Math.max(0, days);
+}
+
+/**
+ * Status to show and act on: a sent invoice past its due date is overdue
+ * even before the daily cron has updated the record.
+ */
+export function getEffectiveInvoiceStatus(
+  invoice: Pick<Invoice, 'status' | 'dueDate'>,
+  today: string
+): InvoiceStatus {
+  if (invoice.status === 'sent' && getDaysOverdue(invoice.dueDate, today) > 0) {
+    return 'overdue';
+  }
+  return invoice.status;
+}
+
+/**
+ * The next reminder an unpaid invoice is due for, if any. Steps are sent
+ * in order, one per run.
+ */
+export function getDueDunningStep(
+  invoice: Pick<Invoice, 'invoiceType' | 'status' | 'dueDate' | 'dunningLevel'>,
+  steps: InvoiceDunningStep[],
+  today: string
+): InvoiceDunningStep | null {
+  if (invoice.invoiceType !== 'invoice') return null;
+  const status = getEffectiveInvoiceStatus(invoice, today);
+  if (status !== 'overdue') return null;
+
+  const daysOverdue = getDaysOverdue(invoice.dueDate, today);
+  return (
+    [...steps]
+      .sort((a, b) => a.level - b.level)
+      .find((step) => step.level > invoice.dunningLevel && daysOverdue >= step.daysOverdue) || null
+  );
+}
+
+/**
+ * A cancellation invoice repeats the original items with negated amounts
+ */
+export function buildStornoLineItems(original: Pick<Invoice, 'lineItems'>): InvoiceLineItem[] {
+  return original.lineItems.map((item) => ({ label: item.label, amount: -item.amount }));
+}
+
+export interface SchoolFeeSummary {
+  /** Net revenue after cancellations (for profit) */
+  netRevenue: number;
+  grossInvoiced: number;
+  grossPaid: number;
+  grossOpen: number;
+  openInvoiceCount: number;
+}
+
+/**
+ * School fee figures per event ID. Drafts are ignored; a cancelled invoice
+ * and its Storno cancel each other out.
+ */
+export function summarizeSchoolFees(
+  invoices: Pick<Invoice, 'eventId' | 'status' | 'dueDate' | 'netAmount' | 'grossAmount'>[],
+  today: string
+): Record<string, SchoolFeeSummary> {
+  const byEvent: Record<string, SchoolFeeSummary> = {};
+
+  for (const invoice of invoices) {
+    if (!invoice.eventId || invoice.status === 'draft') continue;
+    if (!byEvent[invoice.eventId]) {
+      byEvent[invoice.eventId] = { netRevenue: 0, grossInvoiced: 0, grossPaid: 0, grossOpen: 0, openInvoiceCount: 0 };
+    }
+    const summary = byEvent[invoice.eventId];
+
+    summary.netRevenue = roundCents(summary.netRevenue + invoice.netAmount);
+    summary.grossInvoiced = roundCents(summary.grossInvoiced + invoice.grossAmount);
+
+    const status = getEffectiveInvoiceStatus(invoice, today);
+    if (status === 'paid') {
+      summary.grossPaid = roundCents(summary.grossPaid + invoice.grossAmount);
+    } else if (status === 'sent' || status === 'overdue') {
+      summary.grossOpen = roundCents(summary.grossOpen + invoice.grossAmount);
+      summary.openInvoiceCount += 1;
+    }
+  }
+
+  return byEvent;
+}
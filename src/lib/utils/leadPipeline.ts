@@ -0,0 +1,249 @@
+/**
+ * Lead Pipeline Utilities
+ *
+ * Pure helpers behind the lead automation cron and the funnel report on
+ * /admin/leads: which follow-ups are due, which nurture emails a lead should
+ * get next, and conversion/time-in-stage numbers. No Airtable access here.
+ */
+
+import type { Lead, LeadStage, LeadStageChange, EventTypeInterest } from '@/lib/types/airtable';
+import type { LeadNurtureStep } from '@/lib/config/leadNurture';
+
+export const OPEN_LEAD_STAGES: LeadStage[] = ['New', 'Contacted', 'In Discussion'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function isOpenLead(lead: Pick<Lead, 'stage'>): boolean {
+  return OPEN_LEAD_STAGES.includes(lead.stage);
+}
+
+/**
+ * Read the stage_history JSON stored on a lead record
+ */
+export function parseStageHistory(raw: unknown): LeadStageChange[] {
+  if (typeof raw !== 'string' || !raw.trim()) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed)
+      ? parsed.filter((c) => c && typeof c.stage === 'string' && typeof c.at === 'string')
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * History with the new stage appended, or unchanged if the lead is already in it
+ */
+export function appendStageChange(
+  history: LeadStageChange[],
+  stage: LeadStage,
+  at: string = new Date().toISOString()
+): LeadStageChange[] {
+  if (history.length > 0 && history[history.length - 1].stage === stage) return history;
+  return [...history, { stage, at }];
+}
+
+/**
+ * When the lead entered its current stage. Leads created before stage
+ * history was tracked fall back to their creation date.
+ */
+export function getCurrentStageSince(lead: Pick<Lead, 'stage' | 'stageHistory' | 'createdAt'>): string {
+  const last = lead.stageHistory[lead.stageHistory.length - 1];
+  return last && last.stage === lead.stage ? last.at : lead.createdAt;
+}
+
+export function daysBetweenDates(from: string, to: Date): number {
+  return Math.floor((to.getTime() - new Date(from).getTime()) / DAY_MS);
+}
+
+// =============================================================================
+// Follow-ups
+// =============================================================================
+
+export interface DueFollowUps {
+  staffId: string;
+  overdue: Lead[];
+  dueToday: Lead[];
+}
+
+/**
+ * Open leads with a follow-up date today or earlier, grouped by assigned
+ * staff member. Unassigned leads are not included.
+ * @param today - YYYY-MM-DD
+ */
+export function getDueFollowUps(leads: Lead[], today: string): DueFollowUps[] {
+  const byStaff = new Map<string, DueFollowUps>();
+
+  for (const lead of leads) {
+    if (!isOpenLead(lead) || !lead.assignedStaffId || !lead.nextFollowUp) continue;
+    const followUp = lead.nextFollowUp.split('T')[0];
+    if (followUp > today) continue;
+
+    let entry = byStaff.get(lead.assignedStaffId);
+    if (!entry) {
+      entry = { staffId: lead.assignedStaffId, overdue: [], dueToday: [] };
+      byStaff.set(lead.assignedStaffId, entry);
+    }
+    if (followUp < today) entry.overdue.push(lead);
+    else entry.dueToday.push(lead);
+  }
+
+  for (const entry of byStaff.values()) {
+    entry.overdue.sort((a, b) => (a.nextFollowUp || '').localeCompare(b.nextFollowUp || ''));
+  }
+  return [...byStaff.values()];
+}
+
+// =============================================================================
+// Nurture sequences
+// =============================================================================
+
+/**
+ * Nurture steps the lead has reached in its current stage. The caller skips
+ * steps already sent (email log dedup).
+ */
+export function getDueNurtureSteps(
+  lead: Lead,
+  steps: LeadNurtureStep[],
+  now: Date = new Date()
+): LeadNurtureStep[] {
+  if (!isOpenLead(lead) || lead.nurturePaused || !lead.contactEmail) return [];
+
+  const daysInStage = daysBetweenDates(getCurrentStageSince(lead), now);
+  return steps.filter(
+    (step) =>
+      step.stage === lead.stage &&
+      (!step.sources || (!!lead.leadSource && step.sources.includes(lead.leadSource))) &&
+      daysInStage >= step.daysInStage
+  );
+}
+
+// =============================================================================
+// Funnel report
+// =============================================================================
+
+export interface LeadFunnelRow {
+  key: string;
+  label: string;
+  total: number;
+  won: number;
+  lost: number;
+  open: number;
+  conversionRate: number;                 // won / total, 0-1
+}
+
+export interface LeadStageDuration {
+  stage: LeadStage;
+  averageDays: number | null;             // null when no lead has left the stage yet
+  completedStays: number;
+  currentlyInStage: number;
+}
+
+export interface LeadFunnelReport {
+  totals: LeadFunnelRow;
+  bySource: LeadFunnelRow[];
+  byRegion: LeadFunnelRow[];
+  byEventType: LeadFunnelRow[];
+  timeInStage: LeadStageDuration[];
+  lostReasons: Array<{ reason: string; count: number }>;
+}
+
+function emptyRow(key: string, label: string): LeadFunnelRow {
+  return { key, label, total: 0, won: 0, lost: 0, open: 0, conversionRate: 0 };
+}
+
+function addToRow(row: LeadFunnelRow, lead: Lead): void {
+  row.total++;
+  if (lead.stage === 'Won') row.won++;
+  else if (lead.stage === 'Lost') row.lost++;
+  else row.open++;
+  row.conversionRate = row.won / row.total;
+}
+
+function groupRows(
+  leads: Lead[],
+  keysOf: (lead: Lead) => string[],
+  labelOf: (key: string) => string
+): LeadFunnelRow[] {
+  const rows = new Map<string, LeadFunnelRow>();
+  for (const lead of leads) {
+    for (const key of keysOf(lead)) {
+      if (!rows.has(key)) rows.set(key, emptyRow(key, labelOf(key)));
+      addToRow(rows.get(key)!, lead);
+    }
+  }
+  return [...rows.values()].sort((a, b) => b.total - a.total);
+}
+
+const UNKNOWN_KEY = '';
+
+/**
+ * New→Won conversion by source, region and event type interest, average
+ * time spent in each open stage, and why leads were lost.
+ * Leads interested in several event types count towards each of them.
+ */
+export function buildLeadFunnelReport(
+  leads: Lead[],
+  regions: Array<{ id: string; name: string }>
+): LeadFunnelReport {
+  const totals = emptyRow('all', 'All leads');
+  leads.forEach((lead) => addToRow(totals, lead));
+
+  const regionNames = new Map(regions.map((r) => [r.id, r.name]));
+
+  const bySource = groupRows(
+    leads,
+    (lead) => [lead.leadSource || UNKNOWN_KEY],
+    (key) => key || 'No source'
+  );
+  const byRegion = groupRows(
+    leads,
+    (lead) => [lead.regionId || UNKNOWN_KEY],
+    (key) => (key ? regionNames.get(key) || 'Unknown region' : 'No region')
+  );
+  const byEventType = groupRows(
+    leads,
+    (lead) => (lead.eventTypeInterest?.length ? lead.eventTypeInterest : [UNKNOWN_KEY]),
+    (key) => (key as EventTypeInterest) || 'No interest set'
+  );
+
+  const timeInStage: LeadStageDuration[] = OPEN_LEAD_STAGES.map((stage) => {
+    let totalDays = 0;
+    let completedStays = 0;
+    for (const lead of leads) {
+      lead.stageHistory.forEach((change, i) => {
+        const next = lead.stageHistory[i + 1];
+        if (change.stage !== stage || !next) return;
+        totalDays += Math.max(0, (new Date(next.at).getTime() - new Date(change.at).getTime()) / DAY_MS);
+        completedStays++;
+      });
+    }
+    return {
+      stage,
+      averageDays: completedStays > 0 ? Math.round((totalDays / completedStays) * 10) / 10 : null,
+      completedStays,
+      currentlyInStage: leads.filter((lead) => lead.stage === stage).length,
+    };
+  });
+
+  // Lost reasons are free text; group case-insensitively, keep the first spelling
+  const reasons = new Map<string, { reason: string; count: number }>();
+  for (const lead of leads) {
+    if (lead.stage !== 'Lost') continue;
+    const reason = lead.lostReason?.trim() || 'No reason given';
+    const key = reason.toLowerCase();
+    const entry = reasons.get(key) ?? { reason, count: 0 };
+    entry.count++;
+    reasons.set(key, entry);
+  }
+
+  return {
+    totals,
+    bySource,
+    byRegion,
+    byEventType,
+    timeInStage,
+    lostReasons: [...reasons.values()].sort((a, b) => b.count - a.count),
+  };
+}
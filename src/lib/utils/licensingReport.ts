@@ -0,0 +1,266 @@
+/**
+ * Licensing Report
+ *
+ * Quarterly music licensing (GEMA) report: every work on the album of an
+ * event in the quarter, with the event's pressed CDs and downloads. Works
+ * come from the Repertoire catalogue — a confirmed link on the song, else a
+ * high-confidence fuzzy match of its title (see repertoireMatch.ts). Lower
+ * confidence matches are listed for review instead of being counted as the
+ * suggested work.
+ */
+
+import type { LicensingStatus, RepertoireWork } from '@/lib/types/airtable';
+import { createRepertoireIndex, matchSongTitle, normalizeSongTitle } from './repertoireMatch';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface QuarterRange {
+  quarter: string; // e.g. 2026-Q3
+  from: string; // YYYY-MM-DD, first day
+  to: string; // YYYY-MM-DD, last day
+}
+
+export interface LicensingReportTrack {
+  songId: string;
+  songTitle: string;
+  className?: string;
+  trackNumber: number;
+  isSchulsong?: boolean;
+  confirmedWorkId?: string;
+}
+
+export interface LicensingReportEvent {
+  eventId: string;
+  schoolName: string;
+  eventDate: string;
+  cdQuantity: number;
+  downloadQuantity: number;
+  tracks: LicensingReportTrack[];
+}
+
+/**
+ * confirmed = linked by an admin, auto = high-confidence title match,
+ * review = lower confidence suggestion, schulsong = unmatched Schulsong
+ * (written for the school, reported as own work)
+ */
+export type LicensingMatch = 'confirmed' | 'auto' | 'review' | 'schulsong' | 'unmatched';
+
+export interface LicensingReportRow {
+  eventId: string;
+  schoolName: string;
+  eventDate: string;
+  trackNumber: number;
+  songId: string;
+  songTitle: string;
+  className?: string;
+  match: LicensingMatch;
+  workId: string | null;
+  workTitle: string | null; // Suggested work for 'review'
+  composer?: string;
+  lyricist?: string;
+  publisher?: string;
+  gemaWorkNumber?: string;
+  licensingStatus: LicensingStatus | null;
+  cdQuantity: number;
+  downloadQuantity: number;
+}
+
+export interface LicensingWorkSummary {
+  workId: string | null;
+  title: string;
+  composer?: string;
+  lyricist?: string;
+  publisher?: string;
+  gemaWorkNumber?: string;
+  licensingStatus: LicensingStatus | null;
+  match: LicensingMatch;
+  events: number;
+  cdQuantity: number;
+  downloadQuantity: number;
+}
+
+// ---------------------------------------------------------------------------
+// Quarters
+// ---------------------------------------------------------------------------
+
+const QUARTER_PATTERN = /^(\d{4})-Q([1-4])$/;
+
+/**
+ * Date range of a "YYYY-Qn" quarter, null when the string is malformed
+ */
+export function getQuarterRange(quarter: string): QuarterRange | null {
+  const match = QUARTER_PATTERN.exec(quarter);
+  if (!match) return null;
+
+  const year = Number(match[1]);
+  const firstMonth = (Number(match[2]) - 1) * 3;
+  const lastDay = new Date(Date.UTC(year, firstMonth + 3, 0));
+
+  return {
+    quarter,
+    from: new Date(Date.UTC(year, firstMonth, 1)).toISOString().split('T')[0],
+    to: lastDay.toISOString().split('T')[0],
+  };
+}
+
+/**
+ * The last completed quarter, the one the accountant reports on
+ */
+export function getPreviousQuarter(now: Date = new Date()): string {
+  const currentQuarter = Math.floor(now.getUTCMonth() / 3) + 1;
+  return currentQuarter === 1 ? `${now.getUTCFullYear() - 1}-Q4` : `${now.getUTCFullYear()}-Q${currentQuarter - 1}`;
+}
+
+// ---------------------------------------------------------------------------
+// Report
+// ---------------------------------------------------------------------------
+
+/**
+ * One row per album track of every event that pressed CDs or sold downloads
+ */
+export function buildLicensingRows(events: LicensingReportEvent[], works: RepertoireWork[]): LicensingReportRow[] {
+  const worksById = new Map(works.map((work) => [work.id, work]));
+  const index = createRepertoireIndex(works);
+  const rows: LicensingReportRow[] = [];
+
+  for (const event of events) {
+    if (event.cdQuantity === 0 && event.downloadQuantity === 0) continue;
+
+    for (const track of [...event.tracks].sort((a, b) => a.trackNumber - b.trackNumber)) {
+      let work = track.confirmedWorkId ? worksById.get(track.confirmedWorkId) : undefined;
+      let match: LicensingMatch = 'confirmed';
+
+      if (!work) {
+        const suggestion = matchSongTitle(track.songTitle, index);
+        work = suggestion.workId ? worksById.get(suggestion.workId) : undefined;
+        if (work && suggestion.confidence === 'high') {
+          match = 'auto';
+        } else if (work && suggestion.confidence !== 'none') {
+          match = 'review';
+        } else {
+          work = undefined;
+          match = track.isSchulsong ? 'schulsong' : 'unmatched';
+        }
+      }
+
+      const counted = match === 'confirmed' || match === 'auto';
+      rows.push({
+        eventId: event.eventId,
+        schoolName: event.schoolName,
+        eventDate: event.eventDate,
+        trackNumber: track.trackNumber,
+        songId: track.songId,
+        songTitle: track.songTitle,
+        className: track.className,
+        match,
+        workId: work?.id || null,
+        workTitle: work?.title || null,
+        ...(counted && {
+          composer: work?.composer,
+          lyricist: work?.lyricist,
+          publisher: work?.publisher,
+          gemaWorkNumber: work?.gemaWorkNumber,
+        }),
+        licensingStatus: counted ? work?.licensingStatus || null : match === 'schulsong' ? 'own_work' : null,
+        cdQuantity: event.cdQuantity,
+        downloadQuantity: event.downloadQuantity,
+      });
+    }
+  }
+
+  return rows;
+}
+
+/**
+ * Totals per work. Rows without a counted work are grouped by their
+ * normalized title so each open title shows up once.
+ */
+export function summarizeByWork(rows: LicensingReportRow[]): LicensingWorkSummary[] {
+  const byKey = new Map<string, LicensingWorkSummary & { eventIds: Set<string> }>();
+
+  for (const row of rows) {
+    const counted = row.match === 'confirmed' || row.match === 'auto';
+    const key = counted ? `work:${row.workId}` : `title:${row.match}:${normalizeSongTitle(row.songTitle)}`;
+
+    let summary = byKey.get(key);
+    if (!summary) {
+      summary = {
+        workId: counted ? row.workId : null,
+        title: counted && row.workTitle ? row.workTitle : row.songTitle,
+        composer: row.composer,
+        lyricist: row.lyricist,
+        publisher: row.publisher,
+        gemaWorkNumber: row.gemaWorkNumber,
+        licensingStatus: row.licensingStatus,
+        match: counted ? 'confirmed' : row.match,
+        events: 0,
+        cdQuantity: 0,
+        downloadQuantity: 0,
+        eventIds: new Set(),
+      };
+      byKey.set(key, summary);
+    }
+
+    // A work sung by two classes of one event is still pressed once per CD
+    if (!summary.eventIds.has(row.eventId)) {
+      summary.eventIds.add(row.eventId);
+      summary.events++;
+      summary.cdQuantity += row.cdQuantity;
+      summary.downloadQuantity += row.downloadQuantity;
+    }
+  }
+
+  return Array.from(byKey.values())
+    .map(({ eventIds: _eventIds, ...summary }) => summary)
+    .sort((a, b) => b.cdQuantity + b.downloadQuantity - (a.cdQuantity + a.downloadQuantity) || a.title.localeCompare(b.title));
+}
+
+function toCsvCell(value: string | number | null | undefined): string {
+  const cell = value === null || value === undefined ? '' : String(value);
+  return /[",\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+}
+
+/**
+ * CSV export, one line per event and album track
+ */
+export function toLicensingCsv(rows: LicensingReportRow[]): string {
+  const headers = [
+    'Event ID',
+    'School',
+    'Event Date',
+    'Track',
+    'Song Title',
+    'Class',
+    'Work',
+    'Composer',
+    'Lyricist',
+    'Publisher',
+    'GEMA Work Number',
+    'Licensing Status',
+    'Match',
+    'CDs',
+    'Downloads',
+  ];
+
+  const lines = rows.map((row) => [
+    row.eventId,
+    row.schoolName,
+    row.eventDate,
+    row.trackNumber,
+    row.songTitle,
+    row.className,
+    row.match === 'confirmed' || row.match === 'auto' ? row.workTitle : '',
+    row.composer,
+    row.lyricist,
+    row.publisher,
+    row.gemaWorkNumber,
+    row.licensingStatus,
+    row.match,
+    row.cdQuantity,
+    row.downloadQuantity,
+  ]);
+
+  return [headers, ...lines].map((line) => line.map(toCsvCell).join(',')).join('\n');
+}
@@ -0,0 +1,103 @@
+/**
+ * Helpers for ffmpeg's two-pass loudnorm (EBU R128) normalization.
+ *
+ * Pass 1 measures the source (`print_format=json`), pass 2 feeds the
+ * measurement back with `linear=true` so the whole track gets one gain
+ * change instead of dynamic compression. Both passes print a JSON block to
+ * stderr, which parseLoudnormStats() extracts.
+ */
+
+import { LOUDNESS_TOLERANCE_LU, type MasteringPreset } from '@/lib/config/audioMastering';
+
+export interface LoudnormStats {
+  inputI: number;        // Integrated loudness of the input (LUFS)
+  inputTp: number;       // True peak of the input (dBTP)
+  inputLra: number;      // Loudness range of the input (LU)
+  inputThresh: number;
+  outputI: number;       // Integrated loudness after the filter (LUFS)
+  outputTp: number;      // True peak after the filter (dBTP)
+  targetOffset: number;
+}
+
+export type LoudnessWarning =
+  | { kind: 'too_quiet' | 'too_loud'; deviationLu: number }
+  | { kind: 'clipping'; truePeakDbtp: number }
+  | { kind: 'unmeasured' };
+
+/**
+ * Build the loudnorm filter for a preset. Pass the pass-1 measurement to get
+ * the linear second-pass filter.
+ */
+export function buildLoudnormFilter(preset: MasteringPreset, measured?: LoudnormStats): string {
+  const parts = [
+    `I=${preset.targetLufs}`,
+    `TP=${preset.truePeakDbtp}`,
+    `LRA=${preset.loudnessRange}`,
+  ];
+  if (measured) {
+    parts.push(
+      `measured_I=${measured.inputI}`,
+      `measured_TP=${measured.inputTp}`,
+      `measured_LRA=${measured.inputLra}`,
+      `measured_thresh=${measured.inputThresh}`,
+      `offset=${measured.targetOffset}`,
+      'linear=true'
+    );
+  }
+  parts.push('print_format=json');
+  return `loudnorm=${parts.join(':')}`;
+}
+
+/**
+ * Extract the loudnorm JSON block from ffmpeg stderr.
+ * Returns null when the block is missing or a value is not finite
+ * (silent input reports "-inf").
+ */
+export function parseLoudnormStats(stderr: string): LoudnormStats | null {
+  const start = stderr.lastIndexOf('{');
+  const end = stderr.lastIndexOf('}');
+  if (start === -1 || end < start) return null;
+
+  let raw: Record<string, string>;
+  try {
+    raw = JSON.parse(stderr.slice(start, end + 1));
+  } catch {
+    return null;
+  }
+
+  const stats: LoudnormStats = {
+    inputI: Number(raw.input_i),
+    inputTp: Number(raw.input_tp),
+    inputLra: Number(raw.input_lra),
+    inputThresh: Number(raw.input_thresh),
+    outputI: Number(raw.output_i),
+    outputTp: Number(raw.output_tp),
+    targetOffset: Number(raw.target_offset),
+  };
+
+  return Object.values(stats).every(Number.isFinite) ? stats : null;
+}
+
+/**
+ * Compare a processed track's measured loudness against the preset.
+ * Returns null when the track is on target.
+ */
+export function getLoudnessWarning(
+  measured: { loudnessLufs?: number; truePeakDbtp?: number },
+  preset: MasteringPreset
+): LoudnessWarning | null {
+  if (measured.loudnessLufs === undefined) {
+    return { kind: 'unmeasured' };
+  }
+
+  const deviationLu = Math.round((measured.loudnessLufs - preset.targetLufs) * 10) / 10;
+  if (deviationLu > LOUDNESS_TOLERANCE_LU) return { kind: 'too_loud', deviationLu };
+  if (deviationLu < -LOUDNESS_TOLERANCE_LU) return { kind: 'too_quiet', deviationLu };
+
+  // Small overshoot is normal for MP3 encoding; only flag audible clipping
+  if (measured.truePeakDbtp !== undefined && measured.truePeakDbtp > 0) {
+    return { kind: 'clipping', truePeakDbtp: measured.truePeakDbtp };
+  }
+
+  return null;
+}
@@ -1,55 +1,47 @@
-import { getAirtableService } from '@/lib/services/airtableService';
-import {
-  ORDERS_TABLE_ID,
-  ORDERS_FIELD_IDS,
-  ShopifyOrderLineItem,
-} from '@/lib/types/airtable';
-import { buildClassToEventMap, resolveOrderEventId } from '@/lib/utils/orderEventResolver';
+import { getRepositories } from '@/lib/repositories';
+import { EVENTS_FIELD_IDS, ORDERS_FIELD_IDS, type ShopifyOrderLineItem } from '@/lib/types/airtable';
+import { getNetOrderLineItems } from '@/lib/utils/orderRefunds';
 import { MINICARD_VARIANT_IDS } from '@/lib/config/shopProfiles';
 
+/**
+ * Does this line item grant download access? Known minicard variant IDs,
+ * falling back to the product title for access-granting products.
+ */
+export function isMinicardLineItem(item: Pick<ShopifyOrderLineItem, 'variant_id' | 'product_title'>): boolean {
+  const variantIdNumeric = item.variant_id?.replace('gid://shopify/ProductVariant/', '') || '';
+  if (MINICARD_VARIANT_IDS.has(variantIdNumeric)) return true;
+
+  const title = (item.product_title || '').toLowerCase();
+  return title.includes('minicard') || title.includes('tonie') || title.includes('kinderliederbox');
+}
+
 /**
  * Check if a parent has purchased a Minicard (or Minicard-containing product)
- * for a specific event.
+ * for a specific event. The parent is given by record ID or by the custom
+ * parent ID (PAR-…) from the parent session.
  *
  * Checks:
- * 1. Query Orders table for paid orders linked to the parent
- * 2. Resolve each order's event (using orderEventResolver pattern)
- * 3. Filter to orders matching the target event
- * 4. Check if any line item's variant_id matches a known minicard variant ID
- *    OR product_title contains "minicard" (case-insensitive)
+ * 1. Load paid (or partially refunded) orders linked to the parent
+ * 2. Filter to orders matching the target event (booking_id or event link)
+ * 3. Check if any line item that was not refunded has a known minicard
+ *    variant ID OR product_title contains "minicard" (case-insensitive)
  */
 export async function hasMinicardForEvent(
-  parentRecordId: string,
+  parentId: string,
   eventId: string
 ): Promise<boolean> {
-  const airtable = getAirtableService();
-  const base = airtable.getBase();
-  const ordersTable = base(ORDERS_TABLE_ID);
+  const { orders: ordersRepository, events } = getRepositories();
 
-  // 1. Query orders linked to this parent with payment_status = 'paid'
-  const orders = await ordersTable
-    .select({
-      filterByFormula: `AND(
-        {${ORDERS_FIELD_IDS.payment_status}} = 'paid',
-        FIND('${parentRecordId}', ARRAYJOIN({${ORDERS_FIELD_IDS.parent_id}}, ','))
-      )`,
-      returnFieldsByFieldId: true,
-    })
-    .all();
+  // 1. Orders linked to this parent that are paid; partially refunded
+  //    orders still count for the items that were kept
+  const orders = await ordersRepository.listForParent(parentId, ['paid', 'partially_refunded']);
 
   if (orders.length === 0) return false;
 
-  // 2. Build class→event map for resolving order events
-  const classToEvent = await buildClassToEventMap(base);
-
-  // 3. For each order, check if it's for this event and contains a minicard
+  // 2. For each order, check if it's for this event and contains a minicard
   for (const order of orders) {
-    // Resolve the event record ID for this order
-    const orderEventRecordId = resolveOrderEventId(order, classToEvent);
-
-    // We need to compare event record ID with eventId
     // The eventId from the parent session is the canonical event_id (e.g., evt_...)
-    // but resolveOrderEventId returns the Airtable record ID of the event.
+    // while the order links the event's Airtable record ID.
     // We need to check both: direct event_id linked field AND text-based event matching.
 
     // Check if this order is for the target event
@@ -76,8 +68,8 @@ export async function hasMinicardForEvent(
       // Look up the event to get its canonical event_id
       try {
         for (const eventRecId of eventIds) {
-          const eventRecord = await base('Events').find(eventRecId);
-          const canonicalEventId = eventRecord.get('event_id') as string | undefined;
+          const eventRecord = await events.findById(eventRecId);
+          const canonicalEventId = eventRecord?.get(EVENTS_FIELD_IDS.event_id) as string | undefined;
           if (canonicalEventId === eventId) {
             isForEvent = true;
             break;
@@ -90,29 +82,9 @@ export async function hasMinicardForEvent(
 
     if (!isForEvent) continue;
 
-    // 4. Parse line_items and check for minicard variants
-    const lineItemsRaw = order.get(ORDERS_FIELD_IDS.line_items) as string | undefined;
-    if (!lineItemsRaw) continue;
-
-    let lineItems: ShopifyOrderLineItem[];
-    try {
-      lineItems = typeof lineItemsRaw === 'string' ? JSON.parse(lineItemsRaw) : lineItemsRaw;
-    } catch {
-      continue;
-    }
-
-    for (const item of lineItems) {
-      // Check variant_id against known minicard variants
-      const variantIdNumeric = item.variant_id?.replace('gid://shopify/ProductVariant/', '') || '';
-      if (MINICARD_VARIANT_IDS.has(variantIdNumeric)) {
-        return true;
-      }
-
-      // Fallback: check product_title for access-granting products
-      const title = (item.product_title || '').toLowerCase();
-      if (title.includes('minicard') || title.includes('tonie') || title.includes('kinderliederbox')) {
-        return true;
-      }
+    // 3. Check the line items left after refunds for minicard variants
+    if (getNetOrderLineItems(order).some(isMinicardLineItem)) {
+      return true;
     }
   }
 
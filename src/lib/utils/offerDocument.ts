@@ -0,0 +1,20 @@
+/**
+ * Offer Document Helpers
+ *
+ * How offers (Angebote) are numbered and versioned. Shared document helpers
+ * live in businessDocument.ts.
+ */
+
+import type { Offer } from '@/lib/types/airtable';
+
+export function getNextOfferVersion(existing: Pick<Offer, 'version'>[]): number {
+  return existing.reduce((max, offer) => Math.max(max, offer.version), 0) + 1;
+}
+
+/**
+ * e.g. ANG-2026-4F2KQ-2 — year, the end of the lead/event record ID, version
+ */
+export function buildOfferNumber(subjectRecordId: string, version: number, date: Date = new Date()): string {
+  const subject = subjectRecordId.replace(/^rec/, '').slice(-5).toUpperCase();
+  return `ANG-${date.getFullYear()}-${subject}-${version}`;
+}
@@ -31,7 +31,7 @@ export async function buildClassToEventMap(
  * falling back to class_id -> event_id lookup.
  */
 export function resolveOrderEventId(
-  order: Airtable.Record<Airtable.FieldSet>,
+  order: { get(fieldId: string): unknown },
   classToEvent: Map<string, string>
 ): string | undefined {
   // Path 1: Direct event_id linked field
@@ -0,0 +1,124 @@
+/**
+ * Order Refund Helpers
+ *
+ * Shopify refunds are stored per order as refund line items. Everything that
+ * counts ordered items (Welle aggregation, supplier batches, Minicard
+ * access) works on the net line items: what was ordered minus what was
+ * refunded.
+ */
+
+import {
+  ORDERS_FIELD_IDS,
+  type OrderRefundLineItem,
+  type ShopifyOrderLineItem,
+} from '@/lib/types/airtable';
+import type { EventRefundSummary, RefundedProductRevenue } from '@/lib/types/analytics';
+import type { ShopifyWebhookRefund } from './shopifyWebhook';
+
+// Orders where nothing is left to ship, whatever the line items say
+const FULLY_REVERSED_PAYMENT_STATUSES = new Set(['refunded', 'voided']);
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function normalizeVariantId(variantId: string | number): string {
+  return String(variantId).replace(/^gid:\/\/shopify\/ProductVariant\//, '');
+}
+
+function parseJsonArray<T>(raw: unknown): T[] {
+  if (typeof raw !== 'string' || !raw) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Flatten the refunds of a Shopify order payload into refund line items.
+ * Refunds without line items (shipping or goodwill refunds) only show up in
+ * refund_amount.
+ */
+export function parseShopifyRefunds(refunds: ShopifyWebhookRefund[] | undefined): OrderRefundLineItem[] {
+  return (refunds || []).flatMap((refund) =>
+    refund.refund_line_items
+      .filter((item) => item.quantity > 0)
+      .map((item) => ({
+        refund_id: String(refund.id),
+        variant_id: `gid://shopify/ProductVariant/${item.line_item.variant_id}`,
+        product_title: item.line_item.title,
+        ...(item.line_item.variant_title && { variant_title: item.line_item.variant_title }),
+        quantity: item.quantity,
+        subtotal: roundCents(Number(item.subtotal) || 0),
+        refunded_at: refund.processed_at || refund.created_at,
+      }))
+  );
+}
+
+/**
+ * Line items minus refunded quantities. Refunds are matched by variant, and
+ * a line's total shrinks in proportion to the quantity left.
+ */
+export function subtractRefundedItems(
+  lineItems: ShopifyOrderLineItem[],
+  refundLineItems: OrderRefundLineItem[]
+): ShopifyOrderLineItem[] {
+  const refunded = new Map<string, number>();
+  for (const refund of refundLineItems) {
+    const variant = normalizeVariantId(refund.variant_id);
+    refunded.set(variant, (refunded.get(variant) || 0) + refund.quantity);
+  }
+
+  const net: ShopifyOrderLineItem[] = [];
+  for (const item of lineItems) {
+    const variant = normalizeVariantId(item.variant_id);
+    const refundedQuantity = Math.min(refunded.get(variant) || 0, item.quantity);
+    refunded.set(variant, (refunded.get(variant) || 0) - refundedQuantity);
+
+    const quantity = item.quantity - refundedQuantity;
+    if (quantity <= 0) continue;
+    net.push(
+      refundedQuantity > 0
+        ? { ...item, quantity, total: roundCents((item.total * quantity) / item.quantity) }
+        : item
+    );
+  }
+  return net;
+}
+
+/**
+ * Net line items of an Airtable order record. Fully refunded and voided
+ * orders have none.
+ */
+export function getNetOrderLineItems(record: { get(field: string): unknown }): ShopifyOrderLineItem[] {
+  const paymentStatus = record.get(ORDERS_FIELD_IDS.payment_status) as string | undefined;
+  if (paymentStatus && FULLY_REVERSED_PAYMENT_STATUSES.has(paymentStatus)) return [];
+
+  return subtractRefundedItems(
+    parseJsonArray<ShopifyOrderLineItem>(record.get(ORDERS_FIELD_IDS.line_items)),
+    getOrderRefundLineItems(record)
+  );
+}
+
+export function getOrderRefundLineItems(record: { get(field: string): unknown }): OrderRefundLineItem[] {
+  return parseJsonArray<OrderRefundLineItem>(record.get(ORDERS_FIELD_IDS.refund_line_items));
+}
+
+/**
+ * Refund line items grouped by product and variant, largest refund first
+ */
+export function summarizeRefundedProducts(refundLineItems: OrderRefundLineItem[]): EventRefundSummary {
+  const byLabel = new Map<string, RefundedProductRevenue>();
+  for (const item of refundLineItems) {
+    const label = item.variant_title ? `${item.product_title} - ${item.variant_title}` : item.product_title;
+    const product = byLabel.get(label) || { label, quantity: 0, amount: 0 };
+    product.quantity += item.quantity;
+    product.amount = roundCents(product.amount + item.subtotal);
+    byLabel.set(label, product);
+  }
+
+  const products = Array.from(byLabel.values()).sort((a, b) => b.amount - a.amount);
+  return { products, total: roundCents(products.reduce((sum, product) => sum + product.amount, 0)) };
+}
@@ -0,0 +1,100 @@
+/**
+ * Repertoire Matching
+ *
+ * Fuzzy-matches teacher-entered song titles against the Repertoire
+ * catalogue, the same Fuse.js approach and confidence levels as the batch
+ * upload auto-matching (utils/autoMatch.ts). Only high-confidence matches
+ * count without an admin confirming them.
+ */
+
+import Fuse from 'fuse.js';
+import { LICENSING_STATUSES, type LicensingStatus, type RepertoireWork } from '@/lib/types/airtable';
+import { scoreToConfidence, type MatchConfidence } from './autoMatch';
+
+export interface RepertoireMatch {
+  workId: string | null;
+  workTitle: string | null;
+  confidence: MatchConfidence;
+  score: number; // Fuse.js score, lower is better
+  alternatives: Array<{ workId: string; workTitle: string; confidence: MatchConfidence; score: number }>;
+}
+
+const MAX_ALTERNATIVES = 3;
+
+const NO_MATCH: RepertoireMatch = { workId: null, workTitle: null, confidence: 'none', score: 1, alternatives: [] };
+
+/**
+ * Lowercase, without punctuation, brackets and the "(Refrain)" style
+ * annotations teachers add
+ */
+export function normalizeSongTitle(title: string): string {
+  return title
+    .replace(/\([^)]*\)|\[[^\]]*\]/g, ' ')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toLowerCase();
+}
+
+/**
+ * Fuse index over the catalogue; build once per request and pass it to
+ * matchSongTitle for every song
+ */
+export function createRepertoireIndex(works: RepertoireWork[]): Fuse<RepertoireWork & { searchTitles: string[] }> {
+  const items = works.map((work) => ({
+    ...work,
+    searchTitles: [work.title, ...work.alternativeTitles].map(normalizeSongTitle),
+  }));
+
+  return new Fuse(items, {
+    keys: ['searchTitles'],
+    includeScore: true,
+    threshold: 0.6,
+    ignoreLocation: true,
+    minMatchCharLength: 2,
+  });
+}
+
+/**
+ * Best catalogue match for a song title, with up to three alternatives
+ */
+export function matchSongTitle(title: string, index: ReturnType<typeof createRepertoireIndex>): RepertoireMatch {
+  const query = normalizeSongTitle(title);
+  if (!query) return NO_MATCH;
+
+  const results = index.search(query);
+  if (results.length === 0) return NO_MATCH;
+
+  const [best, ...rest] = results.map((result) => ({
+    workId: result.item.id,
+    workTitle: result.item.title,
+    confidence: scoreToConfidence(result.score ?? 1),
+    score: result.score ?? 1,
+  }));
+
+  return {
+    ...best,
+    alternatives: rest.slice(0, MAX_ALTERNATIVES),
+  };
+}
+
+/**
+ * Catalogue fields from an admin request body. Unknown or mistyped fields
+ * are dropped; a blank title comes back as '' so callers can reject it.
+ */
+export function parseRepertoireWorkInput(body: Record<string, unknown>): Partial<Omit<RepertoireWork, 'id'>> {
+  const input: Partial<Omit<RepertoireWork, 'id'>> = {};
+  const text = (key: string) => (typeof body[key] === 'string' ? (body[key] as string).trim() : undefined);
+
+  if (text('title') !== undefined) input.title = text('title');
+  if (Array.isArray(body.alternativeTitles)) {
+    input.alternativeTitles = body.alternativeTitles.filter((t): t is string => typeof t === 'string');
+  }
+  for (const key of ['composer', 'lyricist', 'publisher', 'gemaWorkNumber', 'notes'] as const) {
+    if (text(key) !== undefined) input[key] = text(key);
+  }
+  if (LICENSING_STATUSES.includes(body.licensingStatus as LicensingStatus)) {
+    input.licensingStatus = body.licensingStatus as LicensingStatus;
+  }
+  return input;
+}
@@ -0,0 +1,157 @@
+import crypto from 'crypto';
+import type { WebhookEventPayload } from 'resend';
+import type {
+  EmailDeliveryStatus,
+  EmailLog,
+  EmailLogDeliveryUpdate,
+  EmailSuppressionReason,
+} from '@/lib/types/email-automation';
+import { isTaggedShopLink } from '@/lib/utils/emailVariants';
+
+/**
+ * Resend Webhook Utilities
+ *
+ * Resend signs webhooks the Svix way: an HMAC-SHA256 over
+ * "<svix-id>.<svix-timestamp>.<body>" with the base64 part of the
+ * whsec_ signing secret, sent as one or more "v1,<base64>" signatures.
+ */
+
+// Reject deliveries older (or newer) than this to stop replays
+const TIMESTAMP_TOLERANCE_SECONDS = 5 * 60;
+
+// Later events never downgrade a log: a "delivered" arriving after a bounce
+// (retries, out-of-order delivery) keeps the bounce
+const DELIVERY_STATUS_RANK: Record<EmailDeliveryStatus, number> = {
+  delayed: 1,
+  delivered: 2,
+  bounced: 3,
+  complained: 4,
+};
+
+/**
+ * Verify the Svix signature headers of a Resend webhook
+ *
+ * @param rawBody - The raw request body as a string
+ * @param headers - The request headers (svix-id, svix-timestamp, svix-signature)
+ * @returns true if one of the signatures matches and the timestamp is fresh
+ */
+export function verifyResendWebhook(rawBody: string, headers: Headers, now: Date = new Date()): boolean {
+  const id = headers.get('svix-id');
+  const timestamp = headers.get('svix-timestamp');
+  const signatures = headers.get('svix-signature');
+  if (!id || !timestamp || !signatures) {
+    console.error('[ResendWebhook] Missing signature headers');
+    return false;
+  }
+
+  const webhookSecret = process.env.RESEND_WEBHOOK_SECRET;
+  if (!webhookSecret) {
+    console.error('[ResendWebhook] RESEND_WEBHOOK_SECRET not configured');
+    return false;
+  }
+
+  const sentAt = Number(timestamp);
+  if (!Number.isFinite(sentAt) || Math.abs(now.getTime() / 1000 - sentAt) > TIMESTAMP_TOLERANCE_SECONDS) {
+    console.error('[ResendWebhook] Timestamp outside tolerance');
+    return false;
+  }
+
+  const expected = crypto
+    .createHmac('sha256', Buffer.from(webhookSecret.replace(/^whsec_/, ''), 'base64'))
+    .update(`${id}.${timestamp}.${rawBody}`, 'utf8')
+    .digest();
+
+  // Header holds space-separated "<version>,<signature>" pairs
+  return signatures.split(' ').some((entry) => {
+    const [version, signature] = entry.split(',');
+    if (version !== 'v1' || !signature) return false;
+    const received = Buffer.from(signature, 'base64');
+    return received.length === expected.length && crypto.timingSafeEqual(received, expected);
+  });
+}
+
+/**
+ * The Resend message ID an email event refers to, or null for
+ * contact/domain events we don't track
+ */
+export function getWebhookMessageId(event: WebhookEventPayload): string | null {
+  if (!event.type.startsWith('email.')) return null;
+  const data = event.data as { email_id?: string };
+  return data.email_id || null;
+}
+
+/**
+ * Fields to write to an email log for a delivery event. Returns null when
+ * the event changes nothing (unknown type, status downgrade, repeat open
+ * or click).
+ */
+export function getDeliveryLogUpdate(
+  log: Partial<Pick<EmailLog, 'deliveryStatus' | 'openedAt' | 'clickedAt' | 'shopClickedAt'>>,
+  event: WebhookEventPayload
+): EmailLogDeliveryUpdate | null {
+  if (event.type === 'email.opened') {
+    return log.openedAt ? null : { openedAt: event.created_at };
+  }
+
+  if (event.type === 'email.clicked') {
+    // A click implies an open even when the tracking pixel was blocked
+    const update: EmailLogDeliveryUpdate = {};
+    if (!log.openedAt) update.openedAt = event.created_at;
+    if (!log.clickedAt) update.clickedAt = event.created_at;
+    if (!log.shopClickedAt && isTaggedShopLink(event.data.click?.link)) {
+      update.shopClickedAt = event.created_at;
+    }
+    return Object.keys(update).length > 0 ? update : null;
+  }
+
+  let status: EmailDeliveryStatus;
+  let detail: string | undefined;
+  switch (event.type) {
+    case 'email.delivered':
+      status = 'delivered';
+      break;
+    case 'email.delivery_delayed':
+      status = 'delayed';
+      break;
+    case 'email.bounced':
+      status = 'bounced';
+      detail = [event.data.bounce?.type, event.data.bounce?.message].filter(Boolean).join(': ');
+      break;
+    case 'email.complained':
+      status = 'complained';
+      break;
+    default:
+      return null;
+  }
+
+  if (log.deliveryStatus && DELIVERY_STATUS_RANK[log.deliveryStatus] >= DELIVERY_STATUS_RANK[status]) {
+    return null;
+  }
+
+  return {
+    deliveryStatus: status,
+    deliveryUpdatedAt: event.created_at,
+    ...(detail ? { deliveryDetail: detail } : {}),
+  };
+}
+
+/**
+ * Addresses to put on the suppression list for an event: hard bounces,
+ * spam complaints and addresses Resend itself refused to send to.
+ * Soft (transient) bounces are not suppressed.
+ */
+export function getSuppressionFromEvent(
+  event: WebhookEventPayload
+): { emails: string[]; reason: EmailSuppressionReason; detail?: string } | null {
+  switch (event.type) {
+    case 'email.bounced':
+      if (event.data.bounce?.type !== 'Permanent') return null;
+      return { emails: event.data.to, reason: 'bounce', detail: event.data.bounce.message };
+    case 'email.suppressed':
+      return { emails: event.data.to, reason: 'bounce', detail: event.data.suppressed?.message };
+    case 'email.complained':
+      return { emails: event.data.to, reason: 'complaint' };
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,111 @@
+/**
+ * Family Share Link Utility
+ *
+ * Signed tokens for the links parents share so relatives can listen to an
+ * event's released recordings (/teilen/{token}). The token carries the
+ * ShareLinks record ID, the event it is scoped to and the expiry, signed with
+ * SHARE_LINK_SECRET - so it is never stored and can be rebuilt from the
+ * record. Follows the same crypto pattern as unsubscribe.ts.
+ */
+
+import crypto from 'crypto';
+import type { ShareLink, ShareLinkStatus } from '@/lib/types/airtable';
+
+const BASE_URL = process.env.NEXT_PUBLIC_APP_URL || 'https://minimusiker.app';
+
+// Choices offered in the family portal
+export const SHARE_LINK_VALIDITY_DAYS = [7, 30, 90] as const;
+export const SHARE_LINK_PLAY_LIMITS = [20, 50, 100] as const;
+
+// Active links per parent and event
+export const MAX_ACTIVE_SHARE_LINKS = 10;
+
+// Why a link was denied -> HTTP status: 410 when it can never work again,
+// 403 while the recordings are not (or no longer) released
+export const SHARE_LINK_DENIED_STATUS_CODES = {
+  invalid: 404,
+  not_found: 404,
+  expired: 410,
+  revoked: 410,
+  exhausted: 410,
+  unavailable: 403,
+} as const;
+
+export interface ShareTokenPayload {
+  linkId: string;
+  eventId: string;
+  expiresAt: string;
+}
+
+function getSecret(): string {
+  const secret = process.env.SHARE_LINK_SECRET;
+  if (!secret) {
+    throw new Error('SHARE_LINK_SECRET environment variable not configured');
+  }
+  return secret;
+}
+
+function sign(body: string): string {
+  return crypto.createHmac('sha256', getSecret()).update(body, 'utf8').digest('base64url');
+}
+
+/**
+ * Build the token for a share link.
+ */
+export function createShareToken(payload: ShareTokenPayload): string {
+  const body = Buffer.from(
+    JSON.stringify({ l: payload.linkId, e: payload.eventId, x: payload.expiresAt }),
+    'utf8'
+  ).toString('base64url');
+  return `${body}.${sign(body)}`;
+}
+
+/**
+ * Verify a token's signature and read its payload. Expiry is checked against
+ * the record (getShareLinkStatus), so an expired link can say so.
+ */
+export function verifyShareToken(token: string): ShareTokenPayload | null {
+  try {
+    const [body, sig, ...rest] = token.split('.');
+    if (!body || !sig || rest.length > 0) return null;
+
+    const expected = Buffer.from(sign(body));
+    const actual = Buffer.from(sig);
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+      return null;
+    }
+
+    const { l, e, x } = JSON.parse(Buffer.from(body, 'base64url').toString('utf8'));
+    if (typeof l !== 'string' || typeof e !== 'string' || typeof x !== 'string') return null;
+    return { linkId: l, eventId: e, expiresAt: x };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Public URL of a share link.
+ */
+export function generateShareUrl(token: string): string {
+  return `${BASE_URL}/teilen/${token}`;
+}
+
+/**
+ * Plays and downloads left on a link.
+ */
+export function getRemainingPlays(link: Pick<ShareLink, 'maxPlays' | 'playCount' | 'downloadCount'>): number {
+  return Math.max(0, link.maxPlays - link.playCount - link.downloadCount);
+}
+
+/**
+ * A revoked link stays revoked; otherwise expiry wins over a used-up limit.
+ */
+export function getShareLinkStatus(
+  link: Pick<ShareLink, 'expiresAt' | 'maxPlays' | 'playCount' | 'downloadCount' | 'revokedAt'>,
+  now: Date = new Date()
+): ShareLinkStatus {
+  if (link.revokedAt) return 'revoked';
+  if (new Date(link.expiresAt) <= now) return 'expired';
+  if (getRemainingPlays(link) === 0) return 'exhausted';
+  return 'active';
+}
@@ -6,6 +6,7 @@
  */
 
 import crypto from 'crypto';
+import type { OrderTrackingInfo } from '@/lib/types/airtable';
 
 /**
  * Verify Shopify webhook signature
@@ -108,6 +109,21 @@ export function hasDigitalProducts(order: ShopifyWebhookOrder): boolean {
   return false;
 }
 
+/**
+ * Tracking details of every successful fulfillment on an order
+ * (one per shipment, e.g. Welle 1 and Welle 2)
+ */
+export function extractTrackingInfo(order: ShopifyWebhookOrder): OrderTrackingInfo[] {
+  return (order.fulfillments || [])
+    .filter((fulfillment) => fulfillment.status === 'success')
+    .map((fulfillment) => ({
+      company: fulfillment.tracking_company || undefined,
+      number: fulfillment.tracking_number || fulfillment.tracking_numbers?.[0] || undefined,
+      url: fulfillment.tracking_url || fulfillment.tracking_urls?.[0] || undefined,
+      shippedAt: fulfillment.created_at,
+    }));
+}
+
 /**
  * Common response for successful webhook processing
  */
@@ -159,6 +175,24 @@ export interface ShopifyWebhookLineItem {
   product_type: string;
 }
 
+export interface ShopifyWebhookRefundLineItem {
+  id: number;
+  line_item_id: number;
+  quantity: number;
+  restock_type: string;
+  subtotal: number;
+  total_tax: number;
+  line_item: ShopifyWebhookLineItem;
+}
+
+export interface ShopifyWebhookRefund {
+  id: number;
+  created_at: string;
+  processed_at: string | null;
+  note: string | null;
+  refund_line_items: ShopifyWebhookRefundLineItem[];
+}
+
 export interface ShopifyWebhookOrder {
   id: number;
   admin_graphql_api_id: string;
@@ -248,4 +282,17 @@ export interface ShopifyWebhookOrder {
     country: string;
     zip: string;
   };
+  fulfillments?: ShopifyWebhookFulfillment[];
+  refunds?: ShopifyWebhookRefund[];
+}
+
+export interface ShopifyWebhookFulfillment {
+  id: number;
+  status: 'pending' | 'open' | 'success' | 'cancelled' | 'error' | 'failure';
+  created_at: string;
+  tracking_company: string | null;
+  tracking_number: string | null;
+  tracking_numbers?: string[];
+  tracking_url: string | null;
+  tracking_urls?: string[];
 }
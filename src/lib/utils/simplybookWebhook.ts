@@ -0,0 +1,177 @@
+/**
+ * SimplyBook Webhook Utilities
+ *
+ * SimplyBook's callback URL setting cannot sign requests, so the shared secret
+ * is either embedded in the callback URL (`?token=...`) or, when a relay sits
+ * in front of us, sent as an HMAC-SHA256 of the raw body in
+ * X-Simplybook-Signature. Both are checked against SIMPLYBOOK_WEBHOOK_SECRET.
+ */
+
+import crypto from 'crypto';
+import type {
+  SimplybookWebhookPayload,
+  SimplybookWebhookLogEntry,
+  SimplybookWebhookLogStatus,
+} from '@/lib/types/simplybook';
+
+export const SIMPLYBOOK_SIGNATURE_HEADER = 'X-Simplybook-Signature';
+
+const NOTIFICATION_TYPES: SimplybookWebhookPayload['notification_type'][] = ['create', 'change', 'cancel'];
+
+function safeEqual(a: string, b: string): boolean {
+  const bufA = Buffer.from(a);
+  const bufB = Buffer.from(b);
+  return bufA.length === bufB.length && crypto.timingSafeEqual(bufA, bufB);
+}
+
+/**
+ * Verify SimplyBook webhook origin
+ *
+ * @param rawBody - The raw request body as a string
+ * @param signatureHeader - The X-Simplybook-Signature header value (hex or base64)
+ * @param urlToken - The `token` query parameter of the callback URL
+ * @returns true if either the signature or the URL token matches the secret
+ */
+export function verifySimplybookWebhook(
+  rawBody: string,
+  signatureHeader: string | null,
+  urlToken: string | null
+): boolean {
+  const webhookSecret = process.env.SIMPLYBOOK_WEBHOOK_SECRET;
+  if (!webhookSecret) {
+    console.error('[SimplyBook Webhook] SIMPLYBOOK_WEBHOOK_SECRET not configured');
+    return false;
+  }
+
+  if (signatureHeader) {
+    const hmac = crypto.createHmac('sha256', webhookSecret).update(rawBody, 'utf8').digest();
+    const signature = signatureHeader.trim().replace(/^sha256=/, '');
+    return safeEqual(hmac.toString('hex'), signature.toLowerCase()) || safeEqual(hmac.toString('base64'), signature);
+  }
+
+  if (urlToken) {
+    return safeEqual(webhookSecret, urlToken);
+  }
+
+  console.error('[SimplyBook Webhook] Missing signature header and URL token');
+  return false;
+}
+
+/**
+ * Check the payload's `company` against our SimplyBook account login
+ * (SIMPLY_BOOK_ACCOUNT_NAME, the same value the API client authenticates with)
+ */
+export function isExpectedSimplybookCompany(company: string | undefined): boolean {
+  const expected = process.env.SIMPLY_BOOK_ACCOUNT_NAME;
+  if (!expected) {
+    console.error('[SimplyBook Webhook] SIMPLY_BOOK_ACCOUNT_NAME not configured');
+    return false;
+  }
+  return !!company && company.trim().toLowerCase() === expected.trim().toLowerCase();
+}
+
+/**
+ * Parse and shape-check a webhook body. Returns null for anything that is not
+ * a create/change/cancel notification with a booking_id.
+ */
+export function parseSimplybookWebhookPayload(rawBody: string): SimplybookWebhookPayload | null {
+  let data: unknown;
+  try {
+    data = JSON.parse(rawBody);
+  } catch {
+    return null;
+  }
+
+  if (!data || typeof data !== 'object') return null;
+  const payload = data as Record<string, unknown>;
+
+  const bookingId = payload.booking_id;
+  if ((typeof bookingId !== 'string' && typeof bookingId !== 'number') || String(bookingId) === '') return null;
+  if (!NOTIFICATION_TYPES.includes(payload.notification_type as SimplybookWebhookPayload['notification_type'])) {
+    return null;
+  }
+
+  return {
+    booking_id: String(bookingId),
+    booking_hash: typeof payload.booking_hash === 'string' ? payload.booking_hash : '',
+    company: typeof payload.company === 'string' ? payload.company : '',
+    notification_type: payload.notification_type as SimplybookWebhookPayload['notification_type'],
+  };
+}
+
+export type SimplybookWebhookDecision =
+  | { action: 'apply' }
+  | { action: 'duplicate' | 'superseded' | 'deferred'; reason: string };
+
+// Entries that count as "this notification has been handled".
+// failed entries are ignored so a redelivery gets another chance.
+const HANDLED_STATUSES: SimplybookWebhookLogStatus[] = ['applied', 'skipped'];
+
+// A processing row older than this belongs to a handler that died mid-way
+// (function timeout), so it no longer blocks redeliveries.
+export const SIMPLYBOOK_PROCESSING_TIMEOUT_MS = 10 * 60 * 1000;
+
+// How long change/cancel keep being deferred while neither the create nor a
+// SchoolBookings record has shown up. After that they are applied anyway (the
+// handlers skip bookings that are not in Airtable).
+export const SIMPLYBOOK_DEFER_LIMIT_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Decide what to do with a notification given everything already logged for
+ * the same booking. Booking state only moves forward: create -> change* -> cancel.
+ *
+ * - create is applied once; if the cancel already arrived, the booking is never created
+ * - change re-syncs from the SimplyBook API, so repeats are harmless unless one is
+ *   still running; once cancelled, changes are stale
+ * - cancel is applied once
+ * - change and cancel are deferred (the route answers non-2xx so SimplyBook
+ *   redelivers) while the create is still running, or while it has not
+ *   arrived and there is no SchoolBookings record for the booking yet, for at
+ *   most SIMPLYBOOK_DEFER_LIMIT_MS. An existing record counts as created:
+ *   bookings made before the webhook log existed have no create entry.
+ */
+export function decideSimplybookWebhookAction(
+  notificationType: SimplybookWebhookPayload['notification_type'],
+  previous: Pick<SimplybookWebhookLogEntry, 'notificationType' | 'status' | 'receivedAt'>[],
+  bookingExists: boolean,
+  now: Date = new Date()
+): SimplybookWebhookDecision {
+  const inProgress = (entry: (typeof previous)[number]) =>
+    entry.status === 'processing' &&
+    now.getTime() - new Date(entry.receivedAt).getTime() < SIMPLYBOOK_PROCESSING_TIMEOUT_MS;
+  const handled = (type: SimplybookWebhookPayload['notification_type']) =>
+    previous.some(
+      (e) => e.notificationType === type && (HANDLED_STATUSES.includes(e.status) || inProgress(e))
+    );
+  const waitForCreate = (): SimplybookWebhookDecision | null => {
+    if (previous.some((e) => e.notificationType === 'create' && inProgress(e))) {
+      return { action: 'deferred', reason: 'Create still being processed' };
+    }
+    if (bookingExists || previous.some((e) => e.notificationType === 'create' && HANDLED_STATUSES.includes(e.status))) {
+      return null;
+    }
+    const firstDeferred = previous.find((e) => e.notificationType === notificationType && e.status === 'deferred');
+    if (firstDeferred && now.getTime() - new Date(firstDeferred.receivedAt).getTime() >= SIMPLYBOOK_DEFER_LIMIT_MS) {
+      return null;
+    }
+    return { action: 'deferred', reason: 'Create not applied yet' };
+  };
+
+  switch (notificationType) {
+    case 'create':
+      if (handled('create')) return { action: 'duplicate', reason: 'Create already received' };
+      if (handled('cancel')) return { action: 'superseded', reason: 'Booking was cancelled before create arrived' };
+      return { action: 'apply' };
+
+    case 'change':
+      if (handled('cancel')) return { action: 'superseded', reason: 'Booking already cancelled' };
+      if (previous.some((e) => e.notificationType === 'change' && inProgress(e))) {
+        return { action: 'duplicate', reason: 'Change already being processed' };
+      }
+      return waitForCreate() ?? { action: 'apply' };
+
+    case 'cancel':
+      if (handled('cancel')) return { action: 'duplicate', reason: 'Cancel already received' };
+      return waitForCreate() ?? { action: 'apply' };
+  }
+}
@@ -0,0 +1,100 @@
+/**
+ * Tests for the admin TOTP helper.
+ *
+ * Reference values are the SHA-1 test vectors from RFC 6238 Appendix B
+ * (secret "12345678901234567890"), truncated to the 6 digits authenticator
+ * apps display.
+ */
+
+import {
+  base32Encode,
+  base32Decode,
+  generateTotpSecret,
+  generateTotpCode,
+  verifyTotpCode,
+  findTotpStep,
+  getTotpStep,
+  buildOtpauthUrl,
+} from './totp';
+
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890', 'ascii'));
+
+describe('base32', () => {
+  it('encodes the RFC secret to the well-known string', () => {
+    expect(RFC_SECRET).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+  });
+
+  it('round-trips random bytes', () => {
+    const bytes = Buffer.from([0, 1, 2, 250, 251, 252, 253, 254, 255]);
+    expect(base32Decode(base32Encode(bytes))).toEqual(bytes);
+  });
+
+  it('rejects characters outside the alphabet', () => {
+    expect(() => base32Decode('ABC1')).toThrow('Invalid base32 character');
+  });
+});
+
+describe('generateTotpCode', () => {
+  it.each([
+    [59, '287082'],
+    [1111111109, '081804'],
+    [1234567890, '005924'],
+    [2000000000, '279037'],
+  ])('matches RFC 6238 at t=%i', (seconds, expected) => {
+    expect(generateTotpCode(RFC_SECRET, seconds * 1000)).toBe(expected);
+  });
+});
+
+describe('verifyTotpCode', () => {
+  const now = 1234567890 * 1000;
+
+  it('accepts the current code', () => {
+    expect(verifyTotpCode(RFC_SECRET, '005924', { timestampMs: now })).toBe(true);
+  });
+
+  it('accepts codes from the adjacent period (clock drift)', () => {
+    const previous = generateTotpCode(RFC_SECRET, now - 30_000);
+    const next = generateTotpCode(RFC_SECRET, now + 30_000);
+    expect(verifyTotpCode(RFC_SECRET, previous, { timestampMs: now })).toBe(true);
+    expect(verifyTotpCode(RFC_SECRET, next, { timestampMs: now })).toBe(true);
+  });
+
+  it('rejects codes outside the window', () => {
+    const old = generateTotpCode(RFC_SECRET, now - 90_000);
+    expect(verifyTotpCode(RFC_SECRET, old, { timestampMs: now })).toBe(false);
+  });
+
+  it('ignores whitespace and rejects malformed input', () => {
+    expect(verifyTotpCode(RFC_SECRET, '005 924', { timestampMs: now })).toBe(true);
+    expect(verifyTotpCode(RFC_SECRET, '5924', { timestampMs: now })).toBe(false);
+    expect(verifyTotpCode(RFC_SECRET, 'abcdef', { timestampMs: now })).toBe(false);
+  });
+});
+
+describe('findTotpStep', () => {
+  const now = 1234567890 * 1000;
+
+  it('returns the step the code was generated for', () => {
+    const previous = generateTotpCode(RFC_SECRET, now - 30_000);
+    expect(findTotpStep(RFC_SECRET, '005924', { timestampMs: now })).toBe(getTotpStep(now));
+    expect(findTotpStep(RFC_SECRET, previous, { timestampMs: now })).toBe(getTotpStep(now) - 1);
+    expect(findTotpStep(RFC_SECRET, '000000', { timestampMs: now })).toBeNull();
+  });
+});
+
+describe('generateTotpSecret', () => {
+  it('produces a 32 character base32 secret (160 bits)', () => {
+    const secret = generateTotpSecret();
+    expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+    expect(base32Decode(secret)).toHaveLength(20);
+  });
+});
+
+describe('buildOtpauthUrl', () => {
+  it('includes issuer, label and secret', () => {
+    const url = buildOtpauthUrl('ABC', 'admin@minimusiker.de');
+    expect(url.startsWith('otpauth://totp/Minimusiker%20Admin%3Aadmin%40minimusiker.de?')).toBe(true);
+    expect(url).toContain('secret=ABC');
+    expect(url).toContain('issuer=Minimusiker+Admin');
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * Time-based one-time passwords (RFC 6238) for the admin second factor.
+ *
+ * Compatible with Google Authenticator, 1Password, Authy etc.:
+ * HMAC-SHA1, 6 digits, 30 second period, Base32 secrets.
+ */
+
+import crypto from 'crypto';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const TOTP_PERIOD_SECONDS = 30;
+const TOTP_DIGITS = 6;
+
+export function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+export function base32Decode(input: string): Buffer {
+  const cleaned = input.toUpperCase().replace(/=+$/, '').replace(/\s/g, '');
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error(`Invalid base32 character: ${char}`);
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+/**
+ * Generate a new random Base32 secret (160 bits, as recommended by RFC 4226)
+ */
+export function generateTotpSecret(): string {
+  return base32Encode(crypto.randomBytes(20));
+}
+
+/**
+ * Compute the TOTP code for a secret at a given time
+ */
+export function generateTotpCode(secret: string, timestampMs: number = Date.now()): string {
+  const counter = getTotpStep(timestampMs);
+  const counterBuffer = Buffer.alloc(8);
+  counterBuffer.writeBigUInt64BE(BigInt(counter));
+
+  const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(counterBuffer).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const binary =
+    ((hmac[offset] & 0x7f) << 24) |
+    (hmac[offset + 1] << 16) |
+    (hmac[offset + 2] << 8) |
+    hmac[offset + 3];
+
+  return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, '0');
+}
+
+/**
+ * Time step (30 second counter) of a timestamp
+ */
+export function getTotpStep(timestampMs: number = Date.now()): number {
+  return Math.floor(timestampMs / 1000 / TOTP_PERIOD_SECONDS);
+}
+
+/**
+ * Find the time step a user-entered code belongs to, allowing +/- `window`
+ * periods of clock drift. Null when the code matches none of them.
+ * Callers store the step so the same code cannot be used twice.
+ */
+export function findTotpStep(
+  secret: string,
+  code: string,
+  options: { window?: number; timestampMs?: number } = {}
+): number | null {
+  const { window = 1, timestampMs = Date.now() } = options;
+  const normalized = code.replace(/\s/g, '');
+  if (!/^\d{6}$/.test(normalized)) return null;
+
+  for (let step = -window; step <= window; step++) {
+    const stepTimestampMs = timestampMs + step * TOTP_PERIOD_SECONDS * 1000;
+    const expected = generateTotpCode(secret, stepTimestampMs);
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) {
+      return getTotpStep(stepTimestampMs);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Check a user-entered code, allowing +/- `window` periods of clock drift
+ */
+export function verifyTotpCode(
+  secret: string,
+  code: string,
+  options: { window?: number; timestampMs?: number } = {}
+): boolean {
+  return findTotpStep(secret, code, options) !== null;
+}
+
+/**
+ * Build the otpauth:// URL that authenticator apps read from the QR code
+ */
+export function buildOtpauthUrl(secret: string, accountEmail: string, issuer: string = 'Minimusiker Admin'): string {
+  const label = encodeURIComponent(`${issuer}:${accountEmail}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
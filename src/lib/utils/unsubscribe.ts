@@ -1,7 +1,8 @@
 /**
  * Unsubscribe URL Utility
  *
- * HMAC-signed unsubscribe URLs for parent email opt-out.
+ * HMAC-signed unsubscribe and preference center URLs for parent email opt-out.
+ * Both carry the same signature, so links in emails already sent keep working.
  * Follows the same crypto pattern as shopifyWebhook.ts.
  */
 
@@ -17,18 +18,28 @@ function getSecret(): string {
   return secret;
 }
 
-/**
- * Generate a signed unsubscribe URL for a parent email.
- */
-export function generateUnsubscribeUrl(email: string): string {
+function signedParams(email: string): URLSearchParams {
   const normalizedEmail = email.toLowerCase();
   const sig = crypto
     .createHmac('sha256', getSecret())
     .update(normalizedEmail, 'utf8')
     .digest('hex');
 
-  const params = new URLSearchParams({ email: normalizedEmail, sig });
-  return `${BASE_URL}/api/email/unsubscribe?${params.toString()}`;
+  return new URLSearchParams({ email: normalizedEmail, sig });
+}
+
+/**
+ * Generate a signed unsubscribe URL for a parent email.
+ */
+export function generateUnsubscribeUrl(email: string): string {
+  return `${BASE_URL}/api/email/unsubscribe?${signedParams(email).toString()}`;
+}
+
+/**
+ * Generate a signed URL to the email preference center for a parent email.
+ */
+export function generatePreferenceCenterUrl(email: string): string {
+  return `${BASE_URL}/email-einstellungen?${signedParams(email).toString()}`;
 }
 
 /**
@@ -13,6 +13,7 @@ import {
   isValidEventId,
   isValidClassId,
 } from '../utils/validators';
+import { parseConsentChoices } from '../utils/childConsent';
 
 /**
  * Validates parent's first name
@@ -258,6 +259,11 @@ export function validateRegistrationData(
     }
   }
 
+  // Validate consent choices (if sent, every scope must be answered)
+  if (data.consents !== undefined && !parseConsentChoices(data.consents, true)) {
+    errors.push('Invalid consent choices');
+  }
+
   return {
     valid: errors.length === 0,
     errors: errors.length > 0 ? errors : undefined,
@@ -282,5 +288,6 @@ export function sanitizeRegistrationData(
         ? sanitizeString(child.gradeLevel)
         : undefined,
     })),
+    consents: data.consents ? parseConsentChoices(data.consents) || undefined : undefined,
   };
 }
@@ -0,0 +1,169 @@
+/**
+ * Parent share link routes with a session-shaped parent ID (PAR-…): links
+ * are stored against the Parents record and found again for listing and
+ * revoking. Parents and orders come from the in-memory repositories, the
+ * ShareLinks table from a small fake.
+ */
+
+import type { NextRequest } from 'next/server';
+import { SHARE_LINKS_TABLE_ID, SHARE_LINKS_FIELD_IDS, type ParentSession } from '@/lib/types/airtable';
+
+jest.mock('airtable', () => jest.fn());
+
+// jsdom has no Request/Response; the routes only need json() and nextUrl
+jest.mock('next/server', () => ({
+  NextResponse: {
+    json: (body: unknown, init?: { status?: number }) => ({ status: init?.status ?? 200, json: async () => body }),
+  },
+}));
+
+type Fields = Record<string, unknown>;
+
+const shareLinkRows = new Map<string, Fields>();
+let nextLinkId = 1;
+
+function rec(id: string) {
+  return { id, get: (field: string) => shareLinkRows.get(id)![field] };
+}
+
+const shareLinksTable = {
+  create: jest.fn(async (fields: Fields) => {
+    const id = `recSHL${String(nextLinkId++).padStart(11, '0')}`;
+    shareLinkRows.set(id, { ...fields });
+    return rec(id);
+  }),
+  update: jest.fn(async (id: string, fields: Fields) => {
+    Object.assign(shareLinkRows.get(id)!, fields);
+    return rec(id);
+  }),
+  select: jest.fn((opts: { filterByFormula: string }) => {
+    const byId = opts.filterByFormula.match(/^RECORD_ID\(\) = '(.+)'$/);
+    const byEvent = opts.filterByFormula.match(/^\{(.+)\} = '(.+)'$/);
+    const records = Array.from(shareLinkRows)
+      .filter(([id, fields]) => (byId ? id === byId[1] : !!byEvent && fields[byEvent[1]] === byEvent[2]))
+      .map(([id]) => rec(id));
+    return { firstPage: async () => records, all: async () => records };
+  }),
+};
+
+jest.mock('@/lib/services/airtableService', () => ({
+  getAirtableService: () => ({
+    getBase: () => (tableId: string) => {
+      if (tableId !== SHARE_LINKS_TABLE_ID) throw new Error(`unexpected table ${tableId}`);
+      return shareLinksTable;
+    },
+    getEventByEventId: async (eventId: string) => ({ event_id: eventId, event_date: '2025-03-12' }),
+  }),
+}));
+
+jest.mock('@/lib/services/teacherService', () => ({ getTeacherService: jest.fn() }));
+jest.mock('@/lib/services/r2Service', () => ({ getR2Service: jest.fn() }));
+
+let session: ParentSession | null = null;
+jest.mock('@/lib/auth/verifyParentSession', () => ({
+  verifyParentSession: () => session,
+}));
+
+// Import AFTER all mocks are set up.
+import { createInMemoryRepositories, setRepositories } from '@/lib/repositories';
+import { InMemoryBase } from '@/lib/repositories/inMemoryBase';
+import { MINICARD_VARIANT_IDS } from '@/lib/config/shopProfiles';
+import { GET, POST } from '@/app/api/parent/share-links/route';
+import { DELETE } from '@/app/api/parent/share-links/[linkId]/route';
+
+const EVENT_ID = 'evt_gs_nord';
+const PARENT_ID = 'PAR-3f2a9c1e';
+
+function sessionFor(parentId: string): ParentSession {
+  return {
+    parentId,
+    email: 'anna@example.de',
+    firstName: 'Anna',
+    children: [{ name: 'Mia', eventId: EVENT_ID, classId: 'cls_1a', bookingId: EVENT_ID }],
+    loginTimestamp: Date.now(),
+  } as unknown as ParentSession;
+}
+
+function request(url: string, body?: unknown): NextRequest {
+  return { nextUrl: new URL(url), json: async () => body } as unknown as NextRequest;
+}
+
+function createLink(body: Record<string, unknown>) {
+  return POST(request('http://localhost/api/parent/share-links', { eventId: EVENT_ID, validityDays: 7, maxPlays: 20, ...body }));
+}
+
+function revoke(linkId: string) {
+  return DELETE(request(`http://localhost/api/parent/share-links/${linkId}`), {
+    params: Promise.resolve({ linkId }),
+  });
+}
+
+describe('parent share link routes', () => {
+  const originalSecret = process.env.SHARE_LINK_SECRET;
+  let parentRecordId: string;
+
+  beforeEach(async () => {
+    process.env.SHARE_LINK_SECRET = 'test-secret';
+    shareLinkRows.clear();
+    nextLinkId = 1;
+
+    const base = new InMemoryBase();
+    setRepositories(createInMemoryRepositories(base));
+    const [parent] = await base.seed('Parents', [
+      { fields: { parents_id: 7, parent_id: PARENT_ID, parent_email: 'anna@example.de' } },
+      { fields: { parents_id: 8, parent_id: 'PAR-00000000', parent_email: 'ben@example.de' } },
+    ]);
+    parentRecordId = parent.id;
+    await base.seed('Orders', [
+      {
+        fields: {
+          order_id: 'o1',
+          parent_id: [parent.id],
+          booking_id: EVENT_ID,
+          payment_status: 'paid',
+          line_items: JSON.stringify([
+            {
+              variant_id: `gid://shopify/ProductVariant/${Array.from(MINICARD_VARIANT_IDS)[0]}`,
+              product_title: 'Minicard',
+              quantity: 1,
+              price: 15,
+              total: 15,
+            },
+          ]),
+        },
+      },
+    ]);
+    session = sessionFor(PARENT_ID);
+  });
+
+  afterAll(() => {
+    setRepositories(null);
+    if (originalSecret === undefined) delete process.env.SHARE_LINK_SECRET;
+    else process.env.SHARE_LINK_SECRET = originalSecret;
+  });
+
+  it('creates, lists and revokes links against the Parents record', async () => {
+    const created = await createLink({ classId: 'cls_1a', label: 'Oma & Opa' });
+    const createdBody = await created.json();
+    expect(created.status).toBe(200);
+    const linkId = createdBody.data.link.id;
+    expect(shareLinkRows.get(linkId)![SHARE_LINKS_FIELD_IDS.parent]).toEqual([parentRecordId]);
+
+    const listed = await (await GET(request(`http://localhost/api/parent/share-links?eventId=${EVENT_ID}`))).json();
+    expect(listed.data.canShare).toBe(true);
+    expect(listed.data.links.map((link: { id: string }) => link.id)).toEqual([linkId]);
+
+    const revoked = await revoke(linkId);
+    expect(revoked.status).toBe(200);
+    expect((await revoked.json()).data.link.status).toBe('revoked');
+  });
+
+  it('does not let another parent revoke the link', async () => {
+    const created = await createLink({ label: 'Tante' });
+    const linkId = (await created.json()).data.link.id;
+
+    session = sessionFor('PAR-00000000');
+    expect((await revoke(linkId)).status).toBe(404);
+    expect(shareLinkRows.get(linkId)![SHARE_LINKS_FIELD_IDS.revoked_at]).toBeUndefined();
+  });
+});
@@ -4,7 +4,7 @@
 // These encode the revenue-leak regression directly: an event with the
 // audio_free_without_purchase checkbox UNSET (Airtable omits unchecked checkboxes,
 // so the field arrives undefined) must NOT grant free downloads — purchase required.
-import { resolveAudioFreeForAll, shouldEmitDownloads } from '@/lib/utils/audioAccessGate';
+import { resolveAudioFreeForAll, resolveAudioRelease, shouldEmitDownloads } from '@/lib/utils/audioAccessGate';
 
 describe('resolveAudioFreeForAll', () => {
   it('returns false when the flag is absent (unticked checkbox => undefined) — the leak guard', () => {
@@ -51,3 +51,42 @@ describe('shouldEmitDownloads', () => {
     expect(shouldEmitDownloads(false, false, false)).toBe(false);
   });
 });
+
+describe('resolveAudioRelease', () => {
+  const event = { event_date: '2026-10-01' };
+
+  it('previews after 7 days and releases after 14 by default', () => {
+    expect(resolveAudioRelease(event, new Date('2026-10-05T12:00:00Z'))).toMatchObject({
+      hasPreviewsAvailable: false,
+      isReleased: false,
+    });
+    expect(resolveAudioRelease(event, new Date('2026-10-09T12:00:00Z'))).toMatchObject({
+      hasPreviewsAvailable: true,
+      isReleased: false,
+    });
+    expect(resolveAudioRelease(event, new Date('2026-10-16T12:00:00Z'))).toMatchObject({
+      hasPreviewsAvailable: true,
+      isReleased: true,
+    });
+  });
+
+  it('holds everything back while audio_hidden is set', () => {
+    const hidden = { ...event, timeline_overrides: JSON.stringify({ audio_hidden: true }) };
+    expect(resolveAudioRelease(hidden, new Date('2026-11-01T12:00:00Z'))).toMatchObject({
+      hasPreviewsAvailable: false,
+      isReleased: false,
+    });
+  });
+
+  it('holds the release of a schulsong event until the schulsong is released', () => {
+    const schulsong = { ...event, is_schulsong: true };
+    const now = new Date('2026-11-01T12:00:00Z');
+    expect(resolveAudioRelease(schulsong, now).isReleased).toBe(false);
+    expect(resolveAudioRelease({ ...schulsong, schulsong_released_at: '2026-10-20T08:00:00Z' }, now).isReleased).toBe(true);
+  });
+
+  it('never releases an event without a date (lookup miss => fail-closed)', () => {
+    expect(resolveAudioRelease(null).isReleased).toBe(false);
+    expect(resolveAudioRelease({}).hasPreviewsAvailable).toBe(false);
+  });
+});
@@ -0,0 +1,54 @@
+import {
+  getStockLinesForVariant,
+  getStockLineForGuesstimateItem,
+} from '@/lib/config/stockItemVariants';
+import { STOCK_ITEM_SIZES } from '@/lib/types/stock';
+import { CLOTHING_VARIANTS, STANDARD_CLOTHING_VARIANTS } from '@/lib/config/clothingVariants';
+
+describe('getStockLinesForVariant', () => {
+  it('maps personalised and standard clothing to the same sized stock row', () => {
+    expect(getStockLinesForVariant('53328502194522', 2)).toEqual([
+      { item: 'T-Shirt', size: '98/104', quantity: 2 },
+    ]);
+    expect(getStockLinesForVariant('gid://shopify/ProductVariant/53328491512154', 1)).toEqual([
+      { item: 'T-Shirt', size: '98/104', quantity: 1 },
+    ]);
+  });
+
+  it('splits a Minicard+CD bundle into both stock rows', () => {
+    expect(getStockLinesForVariant('53327238824282', 3)).toEqual([
+      { item: 'Minicard', quantity: 3 },
+      { item: 'CD', quantity: 3 },
+    ]);
+  });
+
+  it('ignores variants without warehouse stock', () => {
+    expect(getStockLinesForVariant('53265570824538', 1)).toEqual([]); // Kinderliederbox
+    expect(getStockLinesForVariant('999', 1)).toEqual([]);
+  });
+
+  it('only produces sizes that have a stock row', () => {
+    const allVariants = { ...CLOTHING_VARIANTS, ...STANDARD_CLOTHING_VARIANTS };
+    for (const variantId of Object.keys(allVariants)) {
+      const [line] = getStockLinesForVariant(variantId, 1);
+      const sizes = STOCK_ITEM_SIZES[line.item as keyof typeof STOCK_ITEM_SIZES];
+      expect(sizes).toContain(line.size);
+    }
+  });
+});
+
+describe('getStockLineForGuesstimateItem', () => {
+  it('parses the SKUs written by the clothing order services', () => {
+    expect(getStockLineForGuesstimateItem({ sku: 'tshirt-122/128', name: 'T-Shirt (122/128)', quantity: 4 }))
+      .toEqual({ item: 'T-Shirt', size: '122/128', quantity: 4 });
+    expect(getStockLineForGuesstimateItem({ sku: 'std-hoodie-140', name: 'Standard Hoodie (140)', quantity: 2 }))
+      .toEqual({ item: 'Hoodie', size: '140', quantity: 2 });
+  });
+
+  it('maps unsized SKUs and skips unknown or empty lines', () => {
+    expect(getStockLineForGuesstimateItem({ sku: 'CD', name: 'CD', quantity: 50 }))
+      .toEqual({ item: 'CD', quantity: 50 });
+    expect(getStockLineForGuesstimateItem({ sku: 'flyer', name: 'Flyer', quantity: 100 })).toBeNull();
+    expect(getStockLineForGuesstimateItem({ sku: 'tshirt-98/104', name: 'T-Shirt', quantity: 0 })).toBeNull();
+  });
+});
@@ -1,4 +1,14 @@
-import { calculateDeadline } from '@/lib/config/taskTimeline';
+import {
+  BUILTIN_TIMELINE_TEMPLATE,
+  calculateDeadline,
+  diffTimeline,
+  matchesTimelineConditions,
+  resolveTimelineEntries,
+  selectTimelineTemplate,
+  validateTimelineTemplateInput,
+  type TimelineEventFacts,
+  type TimelineTemplate,
+} from '@/lib/config/taskTimeline';
 
 describe('calculateDeadline', () => {
   // Use ISO date strings that should produce predictable dates regardless of host TZ
@@ -32,3 +42,172 @@ describe('calculateDeadline', () => {
     expect(result.toISOString()).toBe('2025-06-15T00:00:00.000Z');
   });
 });
+
+function template(overrides: Partial<TimelineTemplate>): TimelineTemplate {
+  return {
+    id: 'recTPL',
+    key: 'tpl',
+    name: 'Template',
+    version: 1,
+    priority: 0,
+    conditions: {},
+    tasks: [{ taskId: 'ship_poster', offset: -45 }],
+    status: 'current',
+    ...overrides,
+  };
+}
+
+const MINIMUSIKERTAG: TimelineEventFacts = { tier: 'minimusikertag', isSchulsong: false, isScs: true, children: 120 };
+const SCHULSONG_ONLY: TimelineEventFacts = { tier: 'schulsong', isSchulsong: true, isScs: false };
+
+describe('matchesTimelineConditions', () => {
+  it('matches everything without conditions', () => {
+    expect(matchesTimelineConditions({}, MINIMUSIKERTAG)).toBe(true);
+    expect(matchesTimelineConditions({}, SCHULSONG_ONLY)).toBe(true);
+  });
+
+  it('checks tier and flags', () => {
+    expect(matchesTimelineConditions({ tiers: ['plus', 'minimusikertag'] }, MINIMUSIKERTAG)).toBe(true);
+    expect(matchesTimelineConditions({ tiers: ['schulsong'] }, MINIMUSIKERTAG)).toBe(false);
+    expect(matchesTimelineConditions({ isScs: true }, MINIMUSIKERTAG)).toBe(true);
+    expect(matchesTimelineConditions({ isSchulsong: true }, MINIMUSIKERTAG)).toBe(false);
+  });
+
+  it('checks the child count range inclusively', () => {
+    expect(matchesTimelineConditions({ minChildren: 120, maxChildren: 200 }, MINIMUSIKERTAG)).toBe(true);
+    expect(matchesTimelineConditions({ maxChildren: 119 }, MINIMUSIKERTAG)).toBe(false);
+  });
+
+  it('never matches a child condition when the count is unknown', () => {
+    expect(matchesTimelineConditions({ maxChildren: 500 }, SCHULSONG_ONLY)).toBe(false);
+  });
+});
+
+describe('selectTimelineTemplate', () => {
+  it('falls back to the built-in template', () => {
+    expect(selectTimelineTemplate([], MINIMUSIKERTAG)).toBe(BUILTIN_TIMELINE_TEMPLATE);
+    expect(
+      selectTimelineTemplate([template({ conditions: { tiers: ['schulsong'] } })], MINIMUSIKERTAG)
+    ).toBe(BUILTIN_TIMELINE_TEMPLATE);
+  });
+
+  it('prefers priority, then the more specific template', () => {
+    const general = template({ id: 'recGeneral', name: 'General' });
+    const scs = template({ id: 'recScs', name: 'SCS', conditions: { isScs: true } });
+    const urgent = template({ id: 'recUrgent', name: 'Urgent', priority: 5 });
+
+    expect(selectTimelineTemplate([general, scs], MINIMUSIKERTAG).id).toBe('recScs');
+    expect(selectTimelineTemplate([general, scs, urgent], MINIMUSIKERTAG).id).toBe('recUrgent');
+  });
+
+  it('ignores superseded and archived versions', () => {
+    const templates = [
+      template({ id: 'recOld', priority: 9, status: 'superseded' }),
+      template({ id: 'recArchived', priority: 9, status: 'archived' }),
+      template({ id: 'recCurrent', version: 2 }),
+    ];
+    expect(selectTimelineTemplate(templates, MINIMUSIKERTAG).id).toBe('recCurrent');
+  });
+});
+
+describe('resolveTimelineEntries', () => {
+  it('uses the template offsets in chronological order', () => {
+    const entries = resolveTimelineEntries(
+      template({
+        tasks: [
+          { taskId: 'shipment_welle_1', offset: -9 },
+          { taskId: 'ship_poster', offset: -30 },
+          { taskId: 'removed_task', offset: -20 },
+        ],
+      })
+    );
+
+    expect(entries.map((e) => [e.id, e.offset])).toEqual([
+      ['ship_poster', -30],
+      ['shipment_welle_1', -9],
+    ]);
+    expect(entries[0].displayName).toBe('Ship: Poster');
+  });
+
+  it('reproduces the catalog for the built-in template', () => {
+    expect(resolveTimelineEntries(BUILTIN_TIMELINE_TEMPLATE).map((e) => e.id)).toHaveLength(11);
+  });
+});
+
+describe('validateTimelineTemplateInput', () => {
+  const valid = { name: 'Schulsong only', priority: 10, conditions: {}, tasks: [{ taskId: 'ship_poster', offset: -30 }] };
+
+  it('accepts a valid template', () => {
+    expect(validateTimelineTemplateInput(valid)).toBeNull();
+  });
+
+  it('rejects unknown or duplicate tasks and bad offsets', () => {
+    expect(validateTimelineTemplateInput({ ...valid, tasks: [] })).toMatch(/at least one task/);
+    expect(validateTimelineTemplateInput({ ...valid, tasks: [{ taskId: 'nope', offset: 0 }] })).toMatch(/Unknown task/);
+    expect(
+      validateTimelineTemplateInput({ ...valid, tasks: [...valid.tasks, { taskId: 'ship_poster', offset: -20 }] })
+    ).toMatch(/twice/);
+    expect(validateTimelineTemplateInput({ ...valid, tasks: [{ taskId: 'ship_poster', offset: 1.5 }] })).toMatch(
+      /whole number/
+    );
+  });
+
+  it('rejects an inverted child range', () => {
+    expect(validateTimelineTemplateInput({ ...valid, conditions: { minChildren: 200, maxChildren: 100 } })).toMatch(
+      /larger than maximum/
+    );
+  });
+});
+
+describe('diffTimeline', () => {
+  const entries = resolveTimelineEntries(
+    template({
+      tasks: [
+        { taskId: 'ship_poster', offset: -30 },
+        { taskId: 'ship_flyer_1', offset: -43 },
+        { taskId: 'shipment_welle_1', offset: -9 },
+      ],
+    })
+  );
+
+  it('adds missing tasks, reschedules and cancels pending ones', () => {
+    const diff = diffTimeline(
+      [
+        { id: 'recPoster', template_id: 'ship_poster', status: 'pending', timeline_offset: -45 },
+        { id: 'recFlyer', template_id: 'ship_flyer_1', status: 'pending', timeline_offset: -43 },
+        { id: 'recFlyer3', template_id: 'ship_flyer_3', status: 'pending', timeline_offset: -10 },
+      ],
+      entries
+    );
+
+    expect(diff.add.map((e) => e.id)).toEqual(['shipment_welle_1']);
+    expect(diff.reschedule).toEqual([
+      { taskId: 'recPoster', templateId: 'ship_poster', fromOffset: -45, toOffset: -30 },
+    ]);
+    expect(diff.cancel).toEqual([{ taskId: 'recFlyer3', templateId: 'ship_flyer_3' }]);
+    expect(diff.keep).toEqual([]);
+  });
+
+  it('leaves started and completed tasks alone', () => {
+    const diff = diffTimeline(
+      [
+        { id: 'recPoster', template_id: 'ship_poster', status: 'completed', timeline_offset: -45 },
+        { id: 'recClothing', template_id: 'order_schul_clothing', status: 'partial', timeline_offset: -18 },
+      ],
+      entries
+    );
+
+    expect(diff.reschedule).toEqual([]);
+    expect(diff.cancel).toEqual([]);
+    expect(diff.keep).toEqual([{ taskId: 'recClothing', templateId: 'order_schul_clothing', status: 'partial' }]);
+  });
+
+  it('re-adds tasks that were cancelled', () => {
+    const diff = diffTimeline(
+      [{ id: 'recPoster', template_id: 'ship_poster', status: 'cancelled', timeline_offset: -45 }],
+      entries
+    );
+
+    expect(diff.add.map((e) => e.id)).toEqual(['ship_flyer_1', 'ship_poster', 'shipment_welle_1']);
+  });
+});
@@ -0,0 +1,32 @@
+import { getLineItemWave, getWaveShipDate } from '@/lib/config/variantClassification';
+
+const TSHIRT = '53328502227290';
+const CD = '53258098639194';
+const DIGITAL = '99999999999999';
+
+describe('getWaveShipDate', () => {
+  it('ships Welle 1 nine days before the event', () => {
+    expect(getWaveShipDate('2025-06-15', 'Welle 1')).toBe('2025-06-06');
+  });
+
+  it('ships Welle 2 two weeks after the event', () => {
+    expect(getWaveShipDate('2025-06-25', 'Welle 2')).toBe('2025-07-09');
+  });
+});
+
+describe('getLineItemWave', () => {
+  it('uses the order wave for single-wave orders', () => {
+    expect(getLineItemWave(TSHIRT, 'Welle 1')).toBe('Welle 1');
+    expect(getLineItemWave(`gid://shopify/ProductVariant/${CD}`, 'Welle 2')).toBe('Welle 2');
+  });
+
+  it('splits Both orders into clothing and audio waves', () => {
+    expect(getLineItemWave(TSHIRT, 'Both')).toBe('Welle 1');
+    expect(getLineItemWave(CD, 'Both')).toBe('Welle 2');
+  });
+
+  it('returns null for digital items and orders without a wave', () => {
+    expect(getLineItemWave(DIGITAL, 'Welle 2')).toBeNull();
+    expect(getLineItemWave(TSHIRT, null)).toBeNull();
+  });
+});
@@ -0,0 +1,83 @@
+import { compileFormula, escapeFormulaString, FormulaError } from '@/lib/repositories/formula';
+
+function matches(formula: string, fields: Record<string, unknown> = {}, recordId = 'recAAAAAAAAAAAAAA1') {
+  return compileFormula(formula)({
+    recordId,
+    createdTime: '2026-01-01T00:00:00.000Z',
+    getField: (reference) => fields[reference],
+  });
+}
+
+describe('compileFormula', () => {
+  it('matches text equality and treats blank as empty string', () => {
+    expect(matches(`{status} = 'paid'`, { status: 'paid' })).toBe(true);
+    expect(matches(`{status} = 'paid'`, { status: 'pending' })).toBe(false);
+    expect(matches(`{order_number} = ''`, {})).toBe(true);
+    expect(matches(`NOT({order_number} = '')`, { order_number: '#1001' })).toBe(true);
+  });
+
+  it('compares numbers and treats blank as 0', () => {
+    expect(matches(`{access_code} = 1562`, { access_code: 1562 })).toBe(true);
+    expect(matches(`{total} > 10`, { total: 12.5 })).toBe(true);
+    expect(matches(`{total} = 0`, {})).toBe(true);
+  });
+
+  it('supports AND, OR, NOT and IF', () => {
+    const fields = { status: 'paid', is_test: true };
+    expect(matches(`AND({status} = 'paid', {is_test})`, fields)).toBe(true);
+    expect(matches(`AND({status} = 'paid', NOT({is_test}))`, fields)).toBe(false);
+    expect(matches(`OR({status} = 'refunded', {status} = 'paid')`, fields)).toBe(true);
+    expect(matches(`IF({is_test}, FALSE(), TRUE())`, fields)).toBe(false);
+  });
+
+  it('matches RECORD_ID()', () => {
+    expect(matches(`RECORD_ID() = 'recAAAAAAAAAAAAAA1'`)).toBe(true);
+    expect(matches(`RECORD_ID() = 'recBBBBBBBBBBBBBB2'`)).toBe(false);
+  });
+
+  it('compares emails case-insensitively with LOWER', () => {
+    const formula = `LOWER({email}) = LOWER('${escapeFormulaString('Anna.Berg@Example.de')}')`;
+    expect(matches(formula, { email: 'anna.berg@example.de' })).toBe(true);
+  });
+
+  it('joins arrays for ARRAYJOIN and comparisons', () => {
+    const fields = { rollen: ['Team', 'Engineer'] };
+    expect(matches(`FIND('Engineer', ARRAYJOIN({rollen}))`, fields)).toBe(true);
+    expect(matches(`FIND('Admin', ARRAYJOIN({rollen}))`, fields)).toBe(false);
+    expect(matches(`{rollen} = 'Team, Engineer'`, fields)).toBe(true);
+  });
+
+  it('uses delimiters to match whole linked values only', () => {
+    const formula = `FIND(',12,', ',' & ARRAYJOIN({parent_id}, ',') & ',')`;
+    expect(matches(formula, { parent_id: [123] })).toBe(false);
+    expect(matches(formula, { parent_id: [7, 12] })).toBe(true);
+    expect(matches(formula, {})).toBe(false);
+  });
+
+  it('returns 0 from FIND and blank from SEARCH when nothing is found', () => {
+    expect(matches(`FIND('x', 'abc') = 0`)).toBe(true);
+    expect(matches(`SEARCH('x', 'abc') = BLANK()`)).toBe(true);
+    expect(matches(`SEARCH(LOWER('Mia'), LOWER({child}))`, { child: 'Mia Schulz' })).toBe(true);
+  });
+
+  it('compares dates with IS_AFTER, IS_BEFORE and DATEADD', () => {
+    const fields = { event_date: '2026-03-10' };
+    expect(matches(`IS_AFTER({event_date}, '2026-03-09')`, fields)).toBe(true);
+    expect(matches(`IS_BEFORE({event_date}, DATEADD('2026-03-10', 1, 'days'))`, fields)).toBe(true);
+    expect(matches(`IS_AFTER({event_date}, DATEADD('2026-03-10', 1, 'weeks'))`, fields)).toBe(false);
+    expect(matches(`IS_AFTER({event_date}, '2026-01-01')`, {})).toBe(false);
+  });
+
+  it('unescapes quotes in string literals', () => {
+    const name = "Grundschule am Kinder'garten";
+    expect(matches(`{school_name} = '${escapeFormulaString(name)}'`, { school_name: name })).toBe(true);
+  });
+
+  it('throws on unsupported functions and syntax errors', () => {
+    expect(() => compileFormula(`REGEX_MATCH({a}, 'x')`)({ recordId: 'r', createdTime: '', getField: () => 'x' })).toThrow(
+      FormulaError
+    );
+    expect(() => compileFormula(`AND({a} = 'x'`)).toThrow(FormulaError);
+    expect(() => compileFormula(`{a} = 'x`)).toThrow(FormulaError);
+  });
+});
@@ -0,0 +1,109 @@
+import { InMemoryBase } from '@/lib/repositories/inMemoryBase';
+import {
+  CLASSES_TABLE_ID,
+  CLASSES_FIELD_IDS,
+  EVENTS_FIELD_IDS,
+  ORDERS_FIELD_IDS,
+  PARENTS_FIELD_IDS,
+} from '@/lib/types/airtable';
+import { buildClassToEventMap } from '@/lib/utils/orderEventResolver';
+
+describe('InMemoryBase', () => {
+  it('stores fields by ID, accepts names on write and drops empty values', async () => {
+    const base = new InMemoryBase();
+    const events = base.table('Events');
+    const created = await events.create({ event_id: 'evt_1', school_name: 'GS Nord', audio_published: false });
+
+    expect(created.id).toMatch(/^recMEM\d{11}$/);
+    expect(created.get(EVENTS_FIELD_IDS.event_id)).toBe('evt_1');
+    expect(created.fields).not.toHaveProperty(EVENTS_FIELD_IDS.audio_published);
+
+    const updated = await events.update(created.id, { [EVENTS_FIELD_IDS.school_name]: null });
+    expect(updated.get(EVENTS_FIELD_IDS.school_name)).toBeUndefined();
+    expect(updated.get(EVENTS_FIELD_IDS.event_id)).toBe('evt_1');
+  });
+
+  it('rejects unknown fields and non-array linked values', async () => {
+    const base = new InMemoryBase();
+    await expect(base.table('Events').create({ no_such_field: 'x' })).rejects.toThrow('Unknown field');
+    await expect(base.table('Classes').create({ event_id: 'recX' })).rejects.toThrow('array of record IDs');
+  });
+
+  it('returns null from find and copies from reads', async () => {
+    const base = new InMemoryBase();
+    const table = base.table('Classes');
+    const [cls] = await base.seed('Classes', [{ fields: { class_id: 'cls_1', event_id: ['recEvent'] } }]);
+
+    expect(await table.find('recMissing')).toBeNull();
+    (cls.get(CLASSES_FIELD_IDS.event_id) as string[]).push('recOther');
+    expect((await table.find(cls.id))?.get(CLASSES_FIELD_IDS.event_id)).toEqual(['recEvent']);
+  });
+
+  it('evaluates linked fields as the linked records\' primary values', async () => {
+    const base = new InMemoryBase();
+    const [event] = await base.seed('Events', [{ fields: { event_id: 'evt_1' } }]);
+    await base.seed('Classes', [
+      { fields: { class_id: 'cls_1', event_id: [event.id] } },
+      { fields: { class_id: 'cls_2' } },
+    ]);
+
+    const byPrimary = await base.table('Classes').select({ filterByFormula: `{event_id} = 'evt_1'` });
+    const byRecordId = await base.table('Classes').select({ filterByFormula: `{event_id} = '${event.id}'` });
+    expect(byPrimary.map((record) => record.get(CLASSES_FIELD_IDS.class_id))).toEqual(['cls_1']);
+    expect(byRecordId).toEqual([]);
+  });
+
+  it('sorts, limits and projects selects', async () => {
+    const base = new InMemoryBase();
+    await base.seed('Events', [
+      { fields: { event_id: 'evt_b', event_date: '2026-05-02' } },
+      { fields: { event_id: 'evt_a', event_date: '2026-05-01' } },
+      { fields: { event_id: 'evt_c', event_date: '2026-05-03' } },
+    ]);
+
+    const records = await base.table('Events').select({
+      sort: [{ field: 'event_date', direction: 'desc' }],
+      maxRecords: 2,
+      fields: [EVENTS_FIELD_IDS.event_id],
+    });
+    expect(records.map((record) => record.fields)).toEqual([
+      { [EVENTS_FIELD_IDS.event_id]: 'evt_c' },
+      { [EVENTS_FIELD_IDS.event_id]: 'evt_b' },
+    ]);
+  });
+
+  describe('toAirtableBase', () => {
+    it('keys select results by field ID only with returnFieldsByFieldId', async () => {
+      const base = new InMemoryBase();
+      await base.seed('Parents', [{ fields: { parents_id: 1, parent_email: 'a@example.de' } }]);
+      const airtableBase = base.toAirtableBase();
+
+      const [byId] = await airtableBase('Parents').select({ returnFieldsByFieldId: true }).all();
+      const [byName] = await airtableBase('Parents').select().all();
+      expect(byId.get(PARENTS_FIELD_IDS.parent_email)).toBe('a@example.de');
+      expect(byName.get('parent_email')).toBe('a@example.de');
+      expect(byName.get(PARENTS_FIELD_IDS.parent_email)).toBeUndefined();
+    });
+
+    it('keys find, create and update responses by field name', async () => {
+      const airtableBase = new InMemoryBase().toAirtableBase();
+      const created = await airtableBase('Orders').create({ [ORDERS_FIELD_IDS.order_id]: 'gid://shopify/Order/1' });
+      const updated = await airtableBase('Orders').update(created.id, { payment_status: 'paid' });
+      const found = await airtableBase('Orders').find(created.id);
+
+      expect(created.get('order_id')).toBe('gid://shopify/Order/1');
+      expect(updated.get('payment_status')).toBe('paid');
+      expect(found.get('payment_status')).toBe('paid');
+      await expect(airtableBase('Orders').find('recMissing')).rejects.toMatchObject({ statusCode: 404 });
+    });
+
+    it('runs services that take an Airtable base', async () => {
+      const base = new InMemoryBase();
+      const [event] = await base.seed('Events', [{ fields: { event_id: 'evt_1' } }]);
+      const [cls] = await base.seed(CLASSES_TABLE_ID, [{ fields: { class_id: 'cls_1', event_id: [event.id] } }]);
+
+      const map = await buildClassToEventMap(base.toAirtableBase());
+      expect(map.get(cls.id)).toBe(event.id);
+    });
+  });
+});
@@ -0,0 +1,222 @@
+// Importing the repositories pulls in airtableService, which loads the `airtable`
+// package. Only the in-memory store is exercised here.
+jest.mock('airtable', () => jest.fn());
+
+import { createInMemoryRepositories, setRepositories, type Repositories } from '@/lib/repositories';
+import { InMemoryBase } from '@/lib/repositories/inMemoryBase';
+import { MINICARD_VARIANT_IDS } from '@/lib/config/shopProfiles';
+import { CLASSES_FIELD_IDS, ORDERS_FIELD_IDS, TASKS_FIELD_IDS } from '@/lib/types/airtable';
+import { hasMinicardForEvent } from '@/lib/utils/minicardAccess';
+
+const MINICARD_VARIANT = `gid://shopify/ProductVariant/${Array.from(MINICARD_VARIANT_IDS)[0]}`;
+
+async function seedEvent(base: InMemoryBase) {
+  const [event, otherEvent] = await base.seed('Events', [
+    { fields: { event_id: 'evt_gs_nord', event_date: '2026-05-04', access_code: 1562 } },
+    { fields: { event_id: 'evt_gs_sued', event_date: '2026-06-10', legacy_booking_id: '98765' } },
+  ]);
+  const classes = await base.seed('Classes', [
+    { fields: { class_id: 'cls_1a', event_id: [event.id] } },
+    { fields: { class_id: 'cls_2b', event_id: [event.id] } },
+    { fields: { class_id: 'cls_other', event_id: [otherEvent.id] } },
+  ]);
+  const [parent, otherParent] = await base.seed('Parents', [
+    { fields: { parents_id: 12, parent_id: 'par_12', parent_email: 'anna@example.de' } },
+    { fields: { parents_id: 123, parent_id: 'par_123', parent_email: 'ben@example.de' } },
+  ]);
+  return { event, otherEvent, classes, parent, otherParent };
+}
+
+function lineItems(variantId: string, title: string) {
+  return JSON.stringify([{ variant_id: variantId, product_title: title, quantity: 1, price: 15, total: 15 }]);
+}
+
+describe('repositories (in-memory)', () => {
+  let base: InMemoryBase;
+  let repos: Repositories;
+
+  beforeEach(() => {
+    base = new InMemoryBase();
+    repos = createInMemoryRepositories(base);
+  });
+
+  it('finds events by event_id, legacy booking ID and access code', async () => {
+    const { event, otherEvent } = await seedEvent(base);
+
+    expect((await repos.events.findByEventId('evt_gs_nord'))?.id).toBe(event.id);
+    expect((await repos.events.findByEventId('98765'))?.id).toBe(otherEvent.id);
+    expect((await repos.events.findByAccessCode(1562))?.id).toBe(event.id);
+    expect(await repos.events.findByEventId("evt'; x")).toBeNull();
+  });
+
+  it('lists events in an inclusive date range', async () => {
+    await seedEvent(base);
+    const events = await repos.events.listBetween('2026-05-04', '2026-06-09');
+    expect(events.map((record) => record.get('fldcNaHZyr6E5khDe'))).toEqual(['evt_gs_nord']);
+  });
+
+  it('lists classes and registrations by the linked event', async () => {
+    const { event, classes, parent } = await seedEvent(base);
+    await base.seed('Registrations', [
+      { fields: { Id: 1, event_id: [event.id], class_id: [classes[0].id], parent_id: [parent.id] } },
+      { fields: { Id: 2, event_id: [event.id], class_id: [classes[1].id], parent_id: [parent.id] } },
+    ]);
+
+    const eventClasses = await repos.classes.listForEvent('evt_gs_nord');
+    expect(eventClasses.map((record) => record.get(CLASSES_FIELD_IDS.class_id))).toEqual(['cls_1a', 'cls_2b']);
+    expect(await repos.registrations.listForClass('cls_1a')).toHaveLength(1);
+    expect(await repos.registrations.listForEvent('evt_gs_nord')).toHaveLength(2);
+    expect(await repos.registrations.listForParent(12)).toHaveLength(2);
+    expect(await repos.registrations.listForParent(123)).toHaveLength(0);
+
+    const classToEvent = await repos.classes.mapToEvents();
+    expect(classToEvent.get(classes[0].id)).toBe(event.id);
+  });
+
+  it('finds parents by email case-insensitively', async () => {
+    const { parent } = await seedEvent(base);
+    expect((await repos.parents.findByEmail(' Anna@Example.DE '))?.id).toBe(parent.id);
+    expect((await repos.parents.findByParentId('par_123'))?.get('fldnnzCB0aesXJdxu')).toBe('par_123');
+  });
+
+  it('lists orders for a parent without matching parents with a longer ID', async () => {
+    const { event, parent, otherParent } = await seedEvent(base);
+    await base.seed('Orders', [
+      { fields: { order_id: 'o1', parent_id: [parent.id], event_id: [event.id], payment_status: 'paid' } },
+      { fields: { order_id: 'o2', parent_id: [otherParent.id], event_id: [event.id], payment_status: 'paid' } },
+      { fields: { order_id: 'o3', parent_id: [parent.id], payment_status: 'refunded' } },
+    ]);
+
+    const paid = await repos.orders.listForParent(parent.id);
+    expect(paid.map((order) => order.get(ORDERS_FIELD_IDS.order_id))).toEqual(['o1']);
+    expect(await repos.orders.listForParent(parent.id, ['paid', 'refunded'])).toHaveLength(2);
+    expect(await repos.orders.listForParent('recMissing')).toEqual([]);
+    expect((await repos.orders.findByShopifyOrderId('o2'))?.get(ORDERS_FIELD_IDS.parent_id)).toEqual([otherParent.id]);
+  });
+
+  it('lists tasks for an event by deadline and by status', async () => {
+    const { event } = await seedEvent(base);
+    await base.seed('Tasks', [
+      { fields: { task_id: 2, event_id: [event.id], deadline: '2026-04-20', status: 'pending' } },
+      { fields: { task_id: 1, event_id: [event.id], deadline: '2026-04-01', status: 'completed' } },
+    ]);
+
+    const tasks = await repos.tasks.listForEvent('evt_gs_nord');
+    expect(tasks.map((task) => task.get(TASKS_FIELD_IDS.task_id))).toEqual([1, 2]);
+    expect(await repos.tasks.listByStatus('pending')).toHaveLength(1);
+  });
+
+  it('lists songs and audio files by class and event', async () => {
+    const [song] = await base.seed('Songs', [
+      { fields: { title: 'Alle meine Entchen', class_id: 'cls_1a', event_id: 'evt_gs_nord', order: 2 } },
+      { fields: { title: 'Hänschen klein', class_id: 'cls_1a', event_id: 'evt_gs_nord', order: 1 } },
+    ]);
+    await base.seed('AudioFiles', [
+      { fields: { filename: 'a.wav', event_id: 'evt_gs_nord', class_id: 'cls_1a', song_id: song.id, type: 'final' } },
+      { fields: { filename: 'b.wav', event_id: 'evt_gs_nord', class_id: 'cls_1a', type: 'raw' } },
+    ]);
+
+    const songs = await repos.songs.listForClass('cls_1a');
+    expect(songs.map((record) => record.get('fldLjwkTwckDqT3Xl'))).toEqual(['Hänschen klein', 'Alle meine Entchen']);
+    expect(await repos.songs.listForEvent('evt_gs_nord')).toHaveLength(2);
+    expect(await repos.audioFiles.listForEvent('evt_gs_nord')).toHaveLength(2);
+    expect(await repos.audioFiles.listForClass('cls_1a', 'final')).toHaveLength(1);
+    expect(await repos.audioFiles.listForSong(song.id)).toHaveLength(1);
+  });
+});
+
+describe('hasMinicardForEvent (offline)', () => {
+  let base: InMemoryBase;
+
+  beforeEach(() => {
+    base = new InMemoryBase();
+    setRepositories(createInMemoryRepositories(base));
+  });
+
+  afterEach(() => {
+    setRepositories(null);
+  });
+
+  it('grants access for a paid minicard order linked to the event', async () => {
+    const { event, parent } = await seedEvent(base);
+    await base.seed('Orders', [
+      {
+        fields: {
+          order_id: 'o1',
+          parent_id: [parent.id],
+          event_id: [event.id],
+          payment_status: 'paid',
+          line_items: lineItems(MINICARD_VARIANT, 'Minicard'),
+        },
+      },
+    ]);
+
+    expect(await hasMinicardForEvent(parent.id, 'evt_gs_nord')).toBe(true);
+    expect(await hasMinicardForEvent(parent.id, 'evt_gs_sued')).toBe(false);
+  });
+
+  it('resolves the session parent ID (PAR-…) to the parent record', async () => {
+    const { event } = await seedEvent(base);
+    const [sessionParent] = await base.seed('Parents', [
+      { fields: { parents_id: 7, parent_id: 'PAR-3f2a9c1e', parent_email: 'carla@example.de' } },
+    ]);
+    await base.seed('Orders', [
+      {
+        fields: {
+          order_id: 'o1',
+          parent_id: [sessionParent.id],
+          event_id: [event.id],
+          payment_status: 'paid',
+          line_items: lineItems(MINICARD_VARIANT, 'Minicard'),
+        },
+      },
+    ]);
+
+    expect(await hasMinicardForEvent('PAR-3f2a9c1e', 'evt_gs_nord')).toBe(true);
+    expect(await hasMinicardForEvent('PAR-00000000', 'evt_gs_nord')).toBe(false);
+  });
+
+  it('matches orders by booking_id and ignores other parents\' orders', async () => {
+    const { parent, otherParent } = await seedEvent(base);
+    await base.seed('Orders', [
+      {
+        fields: {
+          order_id: 'o1',
+          parent_id: [otherParent.id],
+          booking_id: 'evt_gs_nord',
+          payment_status: 'paid',
+          line_items: lineItems(MINICARD_VARIANT, 'Minicard'),
+        },
+      },
+    ]);
+
+    expect(await hasMinicardForEvent(otherParent.id, 'evt_gs_nord')).toBe(true);
+    expect(await hasMinicardForEvent(parent.id, 'evt_gs_nord')).toBe(false);
+  });
+
+  it('denies access when the minicard was refunded or only clothing was bought', async () => {
+    const { event, parent } = await seedEvent(base);
+    await base.seed('Orders', [
+      {
+        fields: {
+          order_id: 'o1',
+          parent_id: [parent.id],
+          event_id: [event.id],
+          payment_status: 'refunded',
+          line_items: lineItems(MINICARD_VARIANT, 'Minicard'),
+        },
+      },
+      {
+        fields: {
+          order_id: 'o2',
+          parent_id: [parent.id],
+          event_id: [event.id],
+          payment_status: 'paid',
+          line_items: lineItems('gid://shopify/ProductVariant/1', 'T-Shirt'),
+        },
+      },
+    ]);
+
+    expect(await hasMinicardForEvent(parent.id, 'evt_gs_nord')).toBe(false);
+  });
+});
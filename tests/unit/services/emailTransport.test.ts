@@ -0,0 +1,164 @@
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+
+const mockResendSend = jest.fn();
+jest.mock('resend', () => ({
+  Resend: jest.fn().mockImplementation(() => ({ emails: { send: mockResendSend } })),
+}));
+
+const mockBrevoSend = jest.fn();
+jest.mock('@getbrevo/brevo', () => ({
+  TransactionalEmailsApi: jest.fn().mockImplementation(() => ({
+    setApiKey: jest.fn(),
+    sendTransacEmail: mockBrevoSend,
+  })),
+  TransactionalEmailsApiApiKeys: { apiKey: 0 },
+  SendSmtpEmail: jest.fn().mockImplementation(() => ({})),
+}));
+
+import {
+  OutboxTransport,
+  getEmailTransport,
+  isOutboxMessageId,
+  sendEmail,
+} from '@/lib/services/emailTransport';
+
+const ENV_KEYS = ['EMAIL_TRANSPORT', 'RESEND_API_KEY', 'BREVO_API_KEY', 'RESEND_FROM_EMAIL'] as const;
+
+describe('getEmailTransport', () => {
+  const originalEnv = Object.fromEntries(ENV_KEYS.map((k) => [k, process.env[k]]));
+
+  afterEach(() => {
+    for (const key of ENV_KEYS) {
+      if (originalEnv[key] === undefined) delete process.env[key];
+      else process.env[key] = originalEnv[key];
+    }
+  });
+
+  it('sends rendered mail through Resend and templates through Brevo when configured', () => {
+    process.env.RESEND_API_KEY = 're_test';
+    process.env.BREVO_API_KEY = 'xkeysib-test';
+
+    expect(getEmailTransport({ to: 'a@b.de', subject: 'Hi', html: '<p>Hi</p>' }).name).toBe('resend');
+    expect(getEmailTransport({ to: { email: 'a@b.de' }, templateId: 3 }).name).toBe('brevo');
+  });
+
+  it('falls back to the outbox for a provider without an API key', () => {
+    process.env.RESEND_API_KEY = 're_test';
+    delete process.env.BREVO_API_KEY;
+
+    expect(getEmailTransport({ to: 'a@b.de', subject: 'Hi', html: '<p>Hi</p>' }).name).toBe('resend');
+    expect(getEmailTransport({ to: 'a@b.de', templateId: 3 }).name).toBe('outbox');
+  });
+
+  it('forces all mail into the outbox with EMAIL_TRANSPORT=outbox', () => {
+    process.env.RESEND_API_KEY = 're_test';
+    process.env.BREVO_API_KEY = 'xkeysib-test';
+    process.env.EMAIL_TRANSPORT = 'outbox';
+
+    expect(getEmailTransport({ to: 'a@b.de', subject: 'Hi', html: '<p>Hi</p>' }).name).toBe('outbox');
+    expect(getEmailTransport({ to: 'a@b.de', templateId: 3 }).name).toBe('outbox');
+  });
+
+  it('passes Resend errors back as a failed result', async () => {
+    process.env.RESEND_API_KEY = 're_test';
+    process.env.RESEND_FROM_EMAIL = 'info@minimusiker.de';
+    mockResendSend.mockResolvedValueOnce({ data: null, error: { message: 'Domain not verified' } });
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    const result = await sendEmail({ to: ['a@b.de', 'c@d.de'], subject: 'Hi', html: '<p>Hi</p>' });
+
+    expect(result).toEqual({ success: false, error: 'Domain not verified' });
+    expect(mockResendSend).toHaveBeenCalledWith(
+      expect.objectContaining({ from: 'Minimusiker <info@minimusiker.de>', to: ['a@b.de', 'c@d.de'] })
+    );
+    jest.restoreAllMocks();
+  });
+});
+
+describe('OutboxTransport', () => {
+  let dir: string;
+  let outbox: OutboxTransport;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'outbox-'));
+    outbox = new OutboxTransport(dir);
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('writes the message and its HTML to disk', async () => {
+    const result = await outbox.send({
+      to: 'eltern@example.de',
+      subject: 'Eure Aufnahme ist fertig',
+      html: '<p>Hallo</p>',
+      headers: { 'List-Unsubscribe': '<https://example.de/u>' },
+    });
+
+    expect(result.success).toBe(true);
+    expect(isOutboxMessageId(result.messageId)).toBe(true);
+    expect(await fs.readFile(path.join(dir, `${result.messageId}.html`), 'utf8')).toBe('<p>Hallo</p>');
+
+    const stored = await outbox.get(result.messageId!);
+    expect(stored).toMatchObject({
+      provider: 'resend',
+      to: [{ email: 'eltern@example.de' }],
+      subject: 'Eure Aufnahme ist fertig',
+      headers: { 'List-Unsubscribe': '<https://example.de/u>' },
+    });
+  });
+
+  it('keeps Brevo template params since there is no HTML to render', async () => {
+    const result = await outbox.send({ to: { email: 'a@b.de', name: 'A' }, templateId: 4, params: { childName: 'Mia' } });
+    expect(await outbox.get(result.messageId!)).toMatchObject({
+      provider: 'brevo',
+      templateId: 4,
+      params: { childName: 'Mia' },
+    });
+  });
+
+  it('records attachment names and sizes but not their content', async () => {
+    const result = await outbox.send({
+      to: 'schule@example.de',
+      subject: 'Euer Angebot',
+      html: '<p>Anbei</p>',
+      attachments: [{ filename: 'Angebot-ANG-2026-ABCDE-1.pdf', content: Buffer.from('%PDF-1.7') }],
+    });
+    expect((await outbox.get(result.messageId!))?.attachments).toEqual([
+      { filename: 'Angebot-ANG-2026-ABCDE-1.pdf', size: 8 },
+    ]);
+  });
+
+  it('lists newest first without bodies and clears', async () => {
+    // Only the clock is faked; fs callbacks still need real timers
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate', 'setTimeout', 'queueMicrotask'] });
+    jest.setSystemTime(new Date('2026-03-01T10:00:00.000Z'));
+    await outbox.send({ to: 'a@b.de', subject: 'First', html: '<p>1</p>' });
+    jest.setSystemTime(new Date('2026-03-01T10:00:01.000Z'));
+    await outbox.send({ to: 'a@b.de', subject: 'Second', html: '<p>2</p>' });
+    jest.useRealTimers();
+
+    const list = await outbox.list();
+    expect(list.map((m) => m.subject)).toEqual(['Second', 'First']);
+    expect(list[0].createdAt).toBe('2026-03-01T10:00:01.000Z');
+    expect(list[0]).not.toHaveProperty('html');
+
+    expect(await outbox.clear()).toBe(2);
+    expect(await outbox.list()).toEqual([]);
+  });
+
+  it('rejects IDs that could escape the outbox directory', async () => {
+    expect(await outbox.get('../secrets')).toBeNull();
+  });
+
+  it('treats a missing directory as an empty outbox', async () => {
+    const missing = new OutboxTransport(path.join(dir, 'missing'));
+    expect(await missing.list()).toEqual([]);
+    expect(await missing.clear()).toBe(0);
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * invoiceService: number allocation, the issue lock under concurrent
+ * requests and Storno cleanup, against an in-memory Airtable table.
+ */
+
+import { INVOICES_TABLE_ID, INVOICES_FIELD_IDS, type Invoice } from '@/lib/types/airtable';
+
+type Fields = Record<string, unknown>;
+
+const rows = new Map<string, Fields>();
+let nextId = 1;
+
+function rec(id: string) {
+  return {
+    id,
+    get: (field: string) => rows.get(id)![field],
+    _rawJson: { createdTime: `2026-10-19T10:00:0${id.slice(-1)}.000Z` },
+  };
+}
+
+function matches(fields: Fields, id: string, formula?: string): boolean {
+  if (!formula) return true;
+  const byId = formula.match(/^RECORD_ID\(\) = '(.+)'$/);
+  if (byId) return id === byId[1];
+  const byPrefix = formula.match(/^FIND\('(.+)', \{(.+)\}\) = 1$/);
+  if (byPrefix) return String(fields[byPrefix[2]] ?? '').startsWith(byPrefix[1]);
+  const byValue = formula.match(/^\{(.+)\} = '(.*)'$/);
+  if (byValue) return fields[byValue[1]] === byValue[2];
+  throw new Error(`unsupported formula ${formula}`);
+}
+
+const table = {
+  create: jest.fn(async (fields: Fields) => {
+    const id = `rec${String(nextId++).padStart(14, '0')}`;
+    rows.set(id, { ...fields });
+    return rec(id);
+  }),
+  update: jest.fn(async (id: string, fields: Fields) => {
+    const row = rows.get(id)!;
+    for (const [key, value] of Object.entries(fields)) {
+      if (value === null) delete row[key];
+      else row[key] = value;
+    }
+    return rec(id);
+  }),
+  destroy: jest.fn(async (id: string) => {
+    rows.delete(id);
+    return { id };
+  }),
+  select: jest.fn((opts: { filterByFormula?: string }) => {
+    const records = Array.from(rows)
+      .filter(([id, fields]) => matches(fields, id, opts.filterByFormula))
+      .map(([id]) => rec(id));
+    return { firstPage: async () => records, all: async () => records };
+  }),
+};
+
+jest.mock('@/lib/services/airtableService', () => ({
+  getAirtableService: () => ({
+    getBase: () => (tableId: string) => {
+      if (tableId !== INVOICES_TABLE_ID) throw new Error(`unexpected table ${tableId}`);
+      return table;
+    },
+  }),
+}));
+
+const uploadFile = jest.fn(async (): Promise<void> => undefined);
+jest.mock('@/lib/services/r2Service', () => ({
+  getR2Service: () => ({ uploadFile: () => uploadFile() }),
+  R2_PATHS: { INVOICES: (eventRecordId: string) => `invoices/${eventRecordId}` },
+}));
+
+jest.mock('@/lib/services/businessDocumentPdf', () => ({
+  formatDocumentDate: (date: string) => date,
+  renderBusinessDocumentPdf: jest.fn(async () => Buffer.from('%PDF')),
+}));
+
+jest.mock('@/lib/services/resendService', () => ({
+  sendInvoiceEmail: jest.fn(),
+}));
+
+// Import AFTER all mocks are set up.
+import { getInvoiceService } from '@/lib/services/invoiceService';
+
+async function createDraft(): Promise<Invoice> {
+  const record = await table.create({
+    [INVOICES_FIELD_IDS.event_id]: 'evt_1',
+    [INVOICES_FIELD_IDS.invoice_type]: 'invoice',
+    [INVOICES_FIELD_IDS.status]: 'draft',
+    [INVOICES_FIELD_IDS.line_items]: JSON.stringify([{ label: 'Pauschale', amount: 500 }]),
+  });
+  return (await getInvoiceService().getInvoice(record.id))!;
+}
+
+describe('InvoiceService issuing', () => {
+  const service = getInvoiceService();
+  const year = new Date().getFullYear();
+
+  beforeEach(() => {
+    rows.clear();
+    nextId = 1;
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('gives concurrently issued drafts distinct consecutive numbers', async () => {
+    const drafts = await Promise.all([createDraft(), createDraft(), createDraft()]);
+
+    const issued = await Promise.all(drafts.map((draft) => service.issueInvoice(draft)));
+
+    const numbers = issued.map((invoice) => invoice.invoiceNumber).sort();
+    expect(numbers).toEqual([1, 2, 3].map((n) => `RE-${year}-000${n}`));
+    for (const invoice of issued) {
+      const row = rows.get(invoice.id)!;
+      expect(row[INVOICES_FIELD_IDS.invoice_number]).toBe(invoice.invoiceNumber);
+      expect(row[INVOICES_FIELD_IDS.status]).toBe('sent');
+      expect(row[INVOICES_FIELD_IDS.issue_token]).toBe('');
+    }
+  }, 20000);
+
+  it('refuses to issue the same draft twice', async () => {
+    const draft = await createDraft();
+
+    const results = await Promise.allSettled([service.issueInvoice(draft), service.issueInvoice(draft)]);
+
+    expect(results.filter((result) => result.status === 'fulfilled')).toHaveLength(1);
+    expect(results.filter((result) => result.status === 'rejected')).toHaveLength(1);
+    expect(rows.get(draft.id)![INVOICES_FIELD_IDS.invoice_number]).toBe(`RE-${year}-0001`);
+    await expect(service.issueInvoice(draft)).rejects.toThrow('already been issued');
+  });
+
+  it('removes a failed Storno and leaves the original open for another attempt', async () => {
+    const invoice = await service.issueInvoice(await createDraft());
+    uploadFile.mockRejectedValueOnce(new Error('R2 unavailable'));
+
+    await expect(service.cancelInvoice(invoice, 'Doppelt', 'admin@minimusiker.de')).rejects.toThrow('R2 unavailable');
+    expect(Array.from(rows.keys())).toEqual([invoice.id]);
+    expect(rows.get(invoice.id)![INVOICES_FIELD_IDS.status]).toBe('sent');
+    expect(rows.get(invoice.id)![INVOICES_FIELD_IDS.issue_token]).toBe('');
+
+    const storno = await service.cancelInvoice(invoice, 'Doppelt', 'admin@minimusiker.de');
+    expect(storno.invoiceNumber).toBe(`RE-${year}-0002`);
+    expect(rows.get(storno.id)![INVOICES_FIELD_IDS.status]).toBe('cancelled');
+    expect(rows.get(invoice.id)![INVOICES_FIELD_IDS.status]).toBe('cancelled');
+  });
+
+  it('creates one Storno when an invoice is cancelled twice at once', async () => {
+    const invoice = await service.issueInvoice(await createDraft());
+
+    const results = await Promise.allSettled([
+      service.cancelInvoice(invoice, 'Doppelt', 'admin@minimusiker.de'),
+      service.cancelInvoice(invoice, 'Doppelt', 'admin@minimusiker.de'),
+    ]);
+
+    expect(results.filter((result) => result.status === 'fulfilled')).toHaveLength(1);
+    expect(rows.size).toBe(2);
+  });
+});
@@ -0,0 +1,297 @@
+/**
+ * jobService: step planning, per-step persistence, retry scheduling,
+ * time-slice continuation and re-runs, against an in-memory Jobs table.
+ */
+
+import { JOBS_FIELD_IDS } from '@/lib/types/airtable';
+import { JOB_RETRY_BASE_DELAY_MS, JOB_RETRY_MAX_DELAY_MS } from '@/lib/types/jobs';
+
+type Fields = Record<string, unknown>;
+
+const rows = new Map<string, Fields>();
+let nextId = 1;
+
+function rec(id: string) {
+  const fields = rows.get(id)!;
+  return { id, get: (field: string) => fields[field] };
+}
+
+const fakeTable = {
+  create: jest.fn(async (fields: Fields) => {
+    const id = `recJob${nextId++}`;
+    rows.set(id, { ...fields });
+    // like Airtable, create() returns fields by name, so nothing by field ID
+    return { id, get: () => undefined };
+  }),
+  update: jest.fn(async (id: string, fields: Fields) => {
+    const row = rows.get(id)!;
+    for (const [key, value] of Object.entries(fields)) {
+      if (value === null) delete row[key];
+      else row[key] = value;
+    }
+    return rec(id);
+  }),
+  select: jest.fn((opts: { filterByFormula?: string }) => {
+    const match = opts.filterByFormula?.match(/^RECORD_ID\(\) = '(.+)'$/);
+    const ids = match ? [match[1]].filter((id) => rows.has(id)) : Array.from(rows.keys());
+    const records = ids.map(rec);
+    return { firstPage: async () => records, all: async () => records };
+  }),
+};
+
+jest.mock('@/lib/services/airtableService', () => ({
+  getAirtableService: () => ({ getBase: () => () => fakeTable }),
+}));
+
+const plan = jest.fn();
+const runStep = jest.fn();
+const finish = jest.fn();
+
+jest.mock('@/lib/services/jobHandlers', () => {
+  const handler = {
+    plan: (...args: unknown[]) => plan(...args),
+    runStep: (...args: unknown[]) => runStep(...args),
+    finish: (...args: unknown[]) => finish(...args),
+  };
+  return {
+    JOB_HANDLERS: {
+      'printables.generate': handler,
+      'audio.process': handler,
+      'fulfillment.welle': handler,
+      'orders.shopify_backfill': handler,
+    },
+  };
+});
+
+import { getJobService, getJobRetryDelayMs, isTransientError } from '@/lib/services/jobService';
+
+const THREE_STEPS = [
+  { key: 'a', label: 'A' },
+  { key: 'b', label: 'B' },
+  { key: 'c', label: 'C' },
+];
+
+async function enqueue(maxAttempts = 3) {
+  return getJobService().enqueue('printables.generate', { eventId: 'evt_1' }, {
+    createdBy: 'admin@minimusiker.de',
+    maxAttempts,
+    runInline: true,
+  });
+}
+
+beforeEach(() => {
+  rows.clear();
+  jest.clearAllMocks();
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+  plan.mockResolvedValue(THREE_STEPS);
+  runStep.mockImplementation(async (_payload, step) => `${step.key}-ok`);
+  finish.mockImplementation(async (_payload, steps) => steps.map((s: { result: unknown }) => s.result));
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('getJobRetryDelayMs', () => {
+  it('doubles per failed attempt', () => {
+    expect(getJobRetryDelayMs(1)).toBe(JOB_RETRY_BASE_DELAY_MS);
+    expect(getJobRetryDelayMs(2)).toBe(JOB_RETRY_BASE_DELAY_MS * 2);
+    expect(getJobRetryDelayMs(3)).toBe(JOB_RETRY_BASE_DELAY_MS * 4);
+  });
+
+  it('is capped', () => {
+    expect(getJobRetryDelayMs(20)).toBe(JOB_RETRY_MAX_DELAY_MS);
+  });
+});
+
+describe('isTransientError', () => {
+  it('retries rate limits, server errors and network drops', () => {
+    expect(isTransientError({ statusCode: 429 })).toBe(true);
+    expect(isTransientError({ status: 503 })).toBe(true);
+    expect(isTransientError({ code: 'ECONNRESET' })).toBe(true);
+    expect(isTransientError(new Error('fetch failed'))).toBe(true);
+  });
+
+  it('does not retry client errors', () => {
+    expect(isTransientError({ statusCode: 422 })).toBe(false);
+    expect(isTransientError(new Error('Missing template'))).toBe(false);
+  });
+});
+
+describe('JobService.enqueue', () => {
+  it('returns the stored job', async () => {
+    const queued = await enqueue();
+
+    expect(queued).toMatchObject({
+      type: 'printables.generate',
+      status: 'queued',
+      payload: { eventId: 'evt_1' },
+      maxAttempts: 3,
+      createdBy: 'admin@minimusiker.de',
+    });
+  });
+});
+
+describe('JobService.runJob', () => {
+  it('plans steps, runs them and stores the result', async () => {
+    const queued = await enqueue();
+    const job = await getJobService().runJob(queued.id, { ignoreRunAfter: true });
+
+    expect(job?.status).toBe('succeeded');
+    expect(job?.steps.map((s) => s.status)).toEqual(['done', 'done', 'done']);
+    expect(job?.result).toEqual(['a-ok', 'b-ok', 'c-ok']);
+    expect(plan).toHaveBeenCalledTimes(1);
+
+    const row = rows.get(queued.id)!;
+    expect(row[JOBS_FIELD_IDS.status]).toBe('succeeded');
+    expect(JSON.parse(row[JOBS_FIELD_IDS.result] as string)).toEqual(['a-ok', 'b-ok', 'c-ok']);
+    expect(row[JOBS_FIELD_IDS.locked_until]).toBeUndefined();
+  });
+
+  it('does not pick up an inline job before its grace period', async () => {
+    const queued = await enqueue();
+    expect(await getJobService().runJob(queued.id)).toBeNull();
+  });
+
+  it('persists progress after every step', async () => {
+    const queued = await enqueue();
+    await getJobService().runJob(queued.id, { ignoreRunAfter: true });
+
+    const stepWrites = fakeTable.update.mock.calls
+      .map(([, fields]) => fields[JOBS_FIELD_IDS.steps])
+      .filter(Boolean)
+      .map((steps) => JSON.parse(steps as string).filter((s: { status: string }) => s.status === 'done').length);
+    // plan (0 done), then one write per step, then the final release
+    expect(stepWrites).toEqual([0, 1, 2, 3, 3]);
+  });
+
+  it('schedules a retry of only the failed steps', async () => {
+    runStep.mockImplementation(async (_payload, step) => {
+      if (step.key === 'b') throw new Error('Template missing');
+      return `${step.key}-ok`;
+    });
+
+    const queued = await enqueue();
+    const before = Date.now();
+    const job = await getJobService().runJob(queued.id, { ignoreRunAfter: true });
+
+    expect(job?.status).toBe('queued');
+    expect(job?.attempts).toBe(1);
+    expect(job?.lastError).toContain('B: Template missing');
+    expect(job?.steps.map((s) => s.status)).toEqual(['done', 'pending', 'done']);
+    expect(Date.parse(job!.runAfter)).toBeGreaterThanOrEqual(before + JOB_RETRY_BASE_DELAY_MS);
+
+    // Second run only touches the failed step
+    runStep.mockClear();
+    runStep.mockImplementation(async (_payload, step) => `${step.key}-ok`);
+    const retried = await getJobService().runJob(queued.id, { ignoreRunAfter: true });
+
+    expect(retried?.status).toBe('succeeded');
+    expect(runStep).toHaveBeenCalledTimes(1);
+    expect(runStep.mock.calls[0][1].key).toBe('b');
+    expect(plan).toHaveBeenCalledTimes(1);
+  });
+
+  it('fails the job with a partial result after the last attempt', async () => {
+    runStep.mockImplementation(async (_payload, step) => {
+      if (step.key === 'c') throw new Error('Shopify rejected');
+      return `${step.key}-ok`;
+    });
+
+    const queued = await enqueue(1);
+    const job = await getJobService().runJob(queued.id, { ignoreRunAfter: true });
+
+    expect(job?.status).toBe('failed');
+    expect(job?.finishedAt).toBeDefined();
+    expect(finish).toHaveBeenCalledTimes(1);
+    expect(job?.steps[2]).toMatchObject({ status: 'failed', error: 'Shopify rejected' });
+  });
+
+  it('re-queues without counting an attempt when the time budget runs out', async () => {
+    const queued = await enqueue();
+    const deadline = Date.now() + 60_000;
+    runStep.mockImplementation(async (_payload, step) => {
+      if (step.key === 'a') jest.spyOn(Date, 'now').mockReturnValue(deadline + 1);
+      return `${step.key}-ok`;
+    });
+
+    const job = await getJobService().runJob(queued.id, { deadline, ignoreRunAfter: true });
+
+    expect(job?.status).toBe('queued');
+    expect(job?.attempts).toBe(0);
+    expect(job?.steps.map((s) => s.status)).toEqual(['done', 'pending', 'pending']);
+    expect(rows.get(queued.id)![JOBS_FIELD_IDS.locked_until]).toBeUndefined();
+  });
+
+  it('does not claim a job another runner holds', async () => {
+    const queued = await enqueue();
+    rows.get(queued.id)![JOBS_FIELD_IDS.locked_until] = new Date(Date.now() + 60_000).toISOString();
+
+    expect(await getJobService().runJob(queued.id, { ignoreRunAfter: true })).toBeNull();
+    expect(runStep).not.toHaveBeenCalled();
+  });
+
+  it('stops after the current step when another runner took the lock over', async () => {
+    const queued = await enqueue();
+    runStep.mockImplementation(async (_payload, step) => {
+      // a second runner claimed the job while step a was running
+      if (step.key === 'a') rows.get(queued.id)![JOBS_FIELD_IDS.lock_token] = 'other-runner';
+      return `${step.key}-ok`;
+    });
+
+    expect(await getJobService().runJob(queued.id, { ignoreRunAfter: true })).toBeNull();
+    expect(runStep).toHaveBeenCalledTimes(1);
+    const row = rows.get(queued.id)!;
+    expect(row[JOBS_FIELD_IDS.lock_token]).toBe('other-runner');
+    expect(row[JOBS_FIELD_IDS.status]).toBe('running');
+  });
+});
+
+describe('JobService.rerunJob', () => {
+  it('resets failed steps and attempts, keeping done steps', async () => {
+    runStep.mockImplementation(async (_payload, step) => {
+      if (step.key === 'a') throw new Error('boom');
+      return `${step.key}-ok`;
+    });
+    const queued = await enqueue(1);
+    await getJobService().runJob(queued.id, { ignoreRunAfter: true });
+
+    const job = await getJobService().rerunJob(queued.id, 'staff@minimusiker.de');
+
+    expect(job?.status).toBe('queued');
+    expect(job?.attempts).toBe(0);
+    expect(job?.steps.map((s) => s.status)).toEqual(['pending', 'done', 'done']);
+    expect(job?.steps[0].error).toBeUndefined();
+    expect(job?.finishedAt).toBeUndefined();
+    expect(job?.logs[job.logs.length - 1]).toContain('Re-run requested by staff@minimusiker.de');
+  });
+
+  it('leaves running jobs alone', async () => {
+    const queued = await enqueue();
+    rows.get(queued.id)![JOBS_FIELD_IDS.status] = 'running';
+
+    const job = await getJobService().rerunJob(queued.id, 'staff@minimusiker.de');
+    expect(job?.status).toBe('running');
+  });
+});
+
+describe('JobService.enqueue dedupKey', () => {
+  const options = { createdBy: 'admin@minimusiker.de', runInline: true, dedupKey: 'fulfillment.welle:recEvt:Welle 1' };
+
+  it('returns the active job with the same key instead of queuing another', async () => {
+    const first = await getJobService().enqueue('fulfillment.welle', { eventRecordId: 'recEvt' }, options);
+    const second = await getJobService().enqueue('fulfillment.welle', { eventRecordId: 'recEvt' }, options);
+
+    expect(second.id).toBe(first.id);
+    expect(fakeTable.create).toHaveBeenCalledTimes(1);
+  });
+
+  it('queues a new job once the previous one has finished', async () => {
+    const first = await getJobService().enqueue('fulfillment.welle', { eventRecordId: 'recEvt' }, options);
+    await getJobService().runJob(first.id, { ignoreRunAfter: true });
+    const second = await getJobService().enqueue('fulfillment.welle', { eventRecordId: 'recEvt' }, options);
+
+    expect(second.id).not.toBe(first.id);
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * parentOrderService: order history and size exchanges for a parent session
+ * (PAR-… parent ID), against the in-memory base.
+ */
+
+jest.mock('airtable', () => jest.fn());
+
+import { InMemoryBase } from '@/lib/repositories/inMemoryBase';
+import { ORDERS_FIELD_IDS } from '@/lib/types/airtable';
+
+let base: InMemoryBase;
+
+jest.mock('@/lib/services/airtableService', () => ({
+  getAirtableService: () => ({
+    getBase: () => base.toAirtableBase(),
+    getEventById: async () => ({ event_date: '2026-05-04' }),
+  }),
+}));
+
+let eventRecordId: string | null = null;
+jest.mock('@/lib/services/ordersHelper', () => ({
+  resolveEventRecordId: async () => eventRecordId,
+}));
+
+jest.mock('@/lib/services/notificationService', () => ({
+  triggerSizeExchangeNotification: jest.fn(async () => undefined),
+}));
+
+// Import AFTER all mocks are set up.
+import { createInMemoryRepositories, setRepositories } from '@/lib/repositories';
+import { getParentOrderService } from '@/lib/services/parentOrderService';
+
+const PARENT_ID = 'PAR-3f2a9c1e';
+const TSHIRT_122 = 'gid://shopify/ProductVariant/53328502260058';
+
+describe('ParentOrderService', () => {
+  const service = getParentOrderService();
+  let orderId: string;
+
+  beforeEach(async () => {
+    base = new InMemoryBase();
+    setRepositories(createInMemoryRepositories(base));
+
+    const [event] = await base.seed('Events', [{ fields: { event_id: 'evt_gs_nord', event_date: '2026-05-04' } }]);
+    eventRecordId = event.id;
+    const [parent, otherParent] = await base.seed('Parents', [
+      { fields: { parents_id: 7, parent_id: PARENT_ID, parent_email: 'anna@example.de' } },
+      { fields: { parents_id: 8, parent_id: 'PAR-00000000', parent_email: 'ben@example.de' } },
+    ]);
+    const orders = await base.seed('Orders', [
+      {
+        fields: {
+          order_id: 'o1',
+          order_number: '#1001',
+          order_date: '2026-04-20',
+          parent_id: [parent.id],
+          event_id: [event.id],
+          payment_status: 'paid',
+          line_items: JSON.stringify([
+            { variant_id: TSHIRT_122, product_title: 'T-Shirt', quantity: 1, price: 15, total: 15 },
+          ]),
+        },
+      },
+      {
+        fields: {
+          order_id: 'o2',
+          order_number: '#1002',
+          parent_id: [otherParent.id],
+          event_id: [event.id],
+          payment_status: 'paid',
+        },
+      },
+    ]);
+    orderId = orders[0].id;
+  });
+
+  afterAll(() => {
+    setRepositories(null);
+  });
+
+  it('lists the orders of the session parent for the event', async () => {
+    const orders = await service.getOrdersForEvent(PARENT_ID, 'evt_gs_nord');
+
+    expect(orders.map((order) => order.orderNumber)).toEqual(['#1001']);
+    expect(orders[0].items[0].clothing?.size).toBe('122/128');
+  });
+
+  it('records a size exchange on the session parent\'s order only', async () => {
+    const request = await service.requestSizeExchange(PARENT_ID, orderId, {
+      variantId: TSHIRT_122,
+      requestedSize: '134/146',
+    });
+
+    expect(request.status).toBe('open');
+    const stored = await createInMemoryRepositories(base).orders.findById(orderId);
+    expect(JSON.parse(stored!.get(ORDERS_FIELD_IDS.exchange_requests) as string)).toHaveLength(1);
+
+    await expect(
+      service.requestSizeExchange('PAR-00000000', orderId, { variantId: TSHIRT_122, requestedSize: '110/116' })
+    ).rejects.toThrow('Order not found');
+  });
+});
@@ -52,3 +52,17 @@ describe('computeNewDeadline', () => {
     );
   });
 });
+
+describe('computeNewDeadline with an event timeline', () => {
+  const timeline = [
+    { id: 'ship_poster', prefix: 'Ship', name: 'Poster', displayName: 'Ship: Poster', description: '', offset: -30, completion: 'monetary', creates_go_id: true },
+  ] as const;
+
+  it('uses the offset from the event timeline', () => {
+    expect(computeNewDeadline(new Date('2025-06-15T00:00:00Z'), 'ship_poster', -45, timeline)).toBe('2025-05-16');
+  });
+
+  it('falls back to the stored offset for tasks outside the event timeline', () => {
+    expect(computeNewDeadline(new Date('2025-06-15T00:00:00Z'), 'ship_flyer_3', -12, timeline)).toBe('2025-06-03');
+  });
+});
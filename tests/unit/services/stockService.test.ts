@@ -0,0 +1,142 @@
+/**
+ * stockService: read-only inventory with defaults for missing rows, explicit
+ * row creation, on-hand adjustments under the row lock and reconciliation
+ * against the movements, against in-memory Airtable tables.
+ */
+
+import {
+  STOCK_ITEMS_TABLE_ID,
+  STOCK_ITEMS_FIELD_IDS,
+  STOCK_MOVEMENTS_TABLE_ID,
+  STOCK_MOVEMENTS_FIELD_IDS,
+} from '@/lib/types/airtable';
+
+type Fields = Record<string, unknown>;
+
+const tables = new Map<string, Map<string, Fields>>();
+let nextId = 1;
+
+function fakeTable(tableId: string) {
+  if (!tables.has(tableId)) tables.set(tableId, new Map());
+  const rows = tables.get(tableId)!;
+  const rec = (id: string) => ({ id, get: (field: string) => rows.get(id)![field] });
+  const insert = (fields: Fields) => {
+    const id = `rec${nextId++}`;
+    rows.set(id, { ...fields });
+    return rec(id);
+  };
+
+  return {
+    create: jest.fn(async (input: Fields | Array<{ fields: Fields }>) =>
+      Array.isArray(input) ? input.map(({ fields }) => insert(fields)) : insert(input)
+    ),
+    update: jest.fn(async (id: string, fields: Fields) => {
+      const row = rows.get(id)!;
+      for (const [key, value] of Object.entries(fields)) {
+        if (value === null) delete row[key];
+        else row[key] = value;
+      }
+      return rec(id);
+    }),
+    select: jest.fn((opts: { filterByFormula?: string }) => {
+      const match = opts.filterByFormula?.match(/^RECORD_ID\(\) = '(.+)'$/);
+      const ids = match ? [match[1]].filter((id) => rows.has(id)) : Array.from(rows.keys());
+      const records = ids.map(rec);
+      return { firstPage: async () => records, all: async () => records };
+    }),
+  };
+}
+
+const tableInstances = new Map<string, ReturnType<typeof fakeTable>>();
+function getTable(tableId: string) {
+  if (!tableInstances.has(tableId)) tableInstances.set(tableId, fakeTable(tableId));
+  return tableInstances.get(tableId)!;
+}
+
+jest.mock('@/lib/services/airtableService', () => ({
+  getAirtableService: () => ({ getBase: () => (tableId: string) => getTable(tableId) }),
+}));
+
+// Import AFTER all mocks are set up.
+import { getStockService } from '@/lib/services/stockService';
+
+function stockRows() {
+  return tables.get(STOCK_ITEMS_TABLE_ID) ?? new Map<string, Fields>();
+}
+
+function findRowId(stockKey: string): string {
+  const entry = Array.from(stockRows()).find(([, f]) => f[STOCK_ITEMS_FIELD_IDS.stock_key] === stockKey);
+  if (!entry) throw new Error(`no row for ${stockKey}`);
+  return entry[0];
+}
+
+describe('StockService', () => {
+  const service = getStockService();
+
+  beforeEach(() => {
+    tables.clear();
+    tableInstances.clear();
+    nextId = 1;
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('lists missing catalogue rows with zero stock without creating them', async () => {
+    const inventory = await service.getInventory();
+
+    expect(inventory.length).toBeGreaterThan(0);
+    expect(inventory.every((item) => item.id === '' && item.onHand === 0)).toBe(true);
+    expect(getTable(STOCK_ITEMS_TABLE_ID).create).not.toHaveBeenCalled();
+  });
+
+  it('creates missing rows only once', async () => {
+    const created = await service.createMissingStockRows();
+    expect(created).toBe((await service.getInventory()).length);
+    expect(await service.createMissingStockRows()).toBe(0);
+    expect((await service.getInventory()).every((item) => item.id !== '')).toBe(true);
+  });
+
+  it('does not lose concurrent adjustments to the same row', async () => {
+    await service.createMissingStockRows();
+    const cdId = findRowId('CD');
+
+    await Promise.all([
+      service.correctOnHand(cdId, 10, 'Inventur', 'admin@minimusiker.de'),
+      service.recordGuesstimateOrderArrival({
+        go_id: 'GO-1',
+        contains: JSON.stringify([{ sku: 'cd', name: 'CD', quantity: 5 }]),
+      } as never),
+    ]);
+
+    const row = stockRows().get(cdId)!;
+    const movements = Array.from(tables.get(STOCK_MOVEMENTS_TABLE_ID)!.values());
+    const booked = movements.reduce((sum, m) => sum + (m[STOCK_MOVEMENTS_FIELD_IDS.quantity] as number), 0);
+
+    expect(row[STOCK_ITEMS_FIELD_IDS.on_hand]).toBe(booked);
+    expect(row[STOCK_ITEMS_FIELD_IDS.lock_token]).toBe('');
+    expect(row[STOCK_ITEMS_FIELD_IDS.locked_until]).toBeUndefined();
+  });
+
+  it('resets on-hand to the movements after a lost update', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    await service.createMissingStockRows();
+    const cdId = findRowId('CD');
+    await service.correctOnHand(cdId, 10, 'Inventur', 'admin@minimusiker.de');
+    // a second adjustment slipped past the lock and its on-hand write was overwritten
+    await getTable(STOCK_MOVEMENTS_TABLE_ID).create({
+      [STOCK_MOVEMENTS_FIELD_IDS.stock_item]: [cdId],
+      [STOCK_MOVEMENTS_FIELD_IDS.quantity]: 5,
+    });
+
+    const dryRun = await service.reconcileOnHand(true);
+    expect(dryRun.corrected).toEqual([{ stockKey: 'CD', onHand: 10, ledger: 15 }]);
+    expect(stockRows().get(cdId)![STOCK_ITEMS_FIELD_IDS.on_hand]).toBe(10);
+
+    const result = await service.reconcileOnHand();
+    expect(result.corrected).toEqual([{ stockKey: 'CD', onHand: 10, ledger: 15 }]);
+    expect(stockRows().get(cdId)![STOCK_ITEMS_FIELD_IDS.on_hand]).toBe(15);
+    expect((await service.reconcileOnHand()).corrected).toEqual([]);
+  });
+});
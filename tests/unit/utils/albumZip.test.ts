@@ -0,0 +1,63 @@
+import { getAlbumZipName, matchAlbumTracksToFinals } from '@/lib/utils/albumZip';
+import type { AlbumTrack } from '@/lib/services/teacherService';
+
+function track(overrides: Partial<AlbumTrack>): AlbumTrack {
+  return {
+    songId: 'song-1',
+    songTitle: 'Song',
+    classId: 'class-1',
+    className: 'Klasse 1a',
+    classType: 'regular',
+    albumOrder: 1,
+    originalTitle: 'Song',
+    originalClassName: 'Klasse 1a',
+    ...overrides,
+  } as AlbumTrack;
+}
+
+const albumTracks = [
+  track({ songId: 'song-b', songTitle: 'Zweites Lied', classId: 'class-2', className: 'Klasse 2b', albumOrder: 3 }),
+  track({ songId: '__schulsong__', songTitle: 'Schulsong', isSchulsong: true, albumOrder: 1 }),
+  track({ songId: 'song-a', songTitle: 'Erstes Lied', classId: 'class-1', albumOrder: 2 }),
+];
+
+describe('matchAlbumTracksToFinals', () => {
+  it('returns tracks in album order with their finals', () => {
+    const finals = [
+      { id: 'af-a', songId: 'song-a', classId: 'class-1' },
+      { id: 'af-s', classId: 'class-1', isSchulsong: true },
+      { id: 'af-b', songId: 'song-b', classId: 'class-2' },
+    ];
+    expect(matchAlbumTracksToFinals(albumTracks, finals).map(({ track, audio }) => [track.albumOrder, audio.id])).toEqual([
+      [1, 'af-s'],
+      [2, 'af-a'],
+      [3, 'af-b'],
+    ]);
+  });
+
+  it('keeps the first final per song', () => {
+    const finals = [
+      { id: 'newest', songId: 'song-a', classId: 'class-1' },
+      { id: 'older', songId: 'song-a', classId: 'class-1' },
+    ];
+    expect(matchAlbumTracksToFinals(albumTracks, finals).map(({ audio }) => audio.id)).toEqual(['newest']);
+  });
+
+  it('matches finals without a song to the only song of their class', () => {
+    const finals = [{ id: 'legacy', classId: 'class-2' }];
+    const [match] = matchAlbumTracksToFinals(albumTracks, finals);
+    expect(match.track.songId).toBe('song-b');
+  });
+
+  it('does not guess when the class has several songs', () => {
+    const tracks = [...albumTracks, track({ songId: 'song-c', classId: 'class-2', albumOrder: 4 })];
+    expect(matchAlbumTracksToFinals(tracks, [{ id: 'legacy', classId: 'class-2' }])).toEqual([]);
+  });
+});
+
+describe('getAlbumZipName', () => {
+  it('pads the track number and names the class for class songs', () => {
+    expect(getAlbumZipName(albumTracks[1])).toBe('01. Schulsong.mp3');
+    expect(getAlbumZipName(albumTracks[0])).toBe('03. Zweites Lied - Klasse 2b.mp3');
+  });
+});
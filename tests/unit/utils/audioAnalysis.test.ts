@@ -0,0 +1,120 @@
+import {
+  buildAnalysisFilter,
+  getAudioQualityWarnings,
+  parseAudioAnalysis,
+} from '@/lib/utils/audioAnalysis';
+
+function stderrFor(options: {
+  duration?: string;
+  stream?: string;
+  silence?: string[];
+  nSamples?: number;
+  maxVolume?: string;
+  histogram0db?: number;
+}): string {
+  return [
+    "Input #0, wav, from 'https://r2.example.com/raw.wav':",
+    options.duration !== undefined ? `  Duration: ${options.duration}, bitrate: 1411 kb/s` : '  Duration: N/A, bitrate: N/A',
+    `  Stream #0:0: Audio: pcm_s16le ([1][0][0][0] / 0x0001), ${options.stream ?? '48000 Hz, stereo, s16, 1536 kb/s'}`,
+    ...(options.silence ?? []),
+    'size=N/A time=00:03:00.00 bitrate=N/A speed= 412x',
+    `[Parsed_volumedetect_1 @ 0x5580] n_samples: ${options.nSamples ?? 17280000}`,
+    '[Parsed_volumedetect_1 @ 0x5580] mean_volume: -21.4 dB',
+    `[Parsed_volumedetect_1 @ 0x5580] max_volume: ${options.maxVolume ?? '-0.3'} dB`,
+    ...(options.histogram0db !== undefined ? [`[Parsed_volumedetect_1 @ 0x5580] histogram_0db: ${options.histogram0db}`] : []),
+  ].join('\n');
+}
+
+describe('buildAnalysisFilter', () => {
+  it('chains silence and volume detection', () => {
+    expect(buildAnalysisFilter()).toBe('silencedetect=noise=-50dB:d=0.5,volumedetect');
+  });
+});
+
+describe('parseAudioAnalysis', () => {
+  it('reads format, level and silence at both ends', () => {
+    const analysis = parseAudioAnalysis(
+      stderrFor({
+        duration: '00:03:00.00',
+        silence: [
+          '[silencedetect @ 0x5581] silence_start: 0',
+          '[silencedetect @ 0x5581] silence_end: 2.4 | silence_duration: 2.4',
+          '[silencedetect @ 0x5581] silence_start: 91.2',
+          '[silencedetect @ 0x5581] silence_end: 92.1 | silence_duration: 0.9',
+          '[silencedetect @ 0x5581] silence_start: 174.75',
+        ],
+        histogram0db: 3456,
+      })
+    );
+
+    expect(analysis).toEqual({
+      durationSeconds: 180,
+      sampleRate: 48000,
+      channels: 2,
+      peakDbfs: -0.3,
+      clippingPercent: 0.02,
+      leadingSilenceSeconds: 2.4,
+      trailingSilenceSeconds: 5.25,
+    });
+  });
+
+  it('counts trailing silence that ffmpeg closes at end of stream', () => {
+    const analysis = parseAudioAnalysis(
+      stderrFor({
+        duration: '00:03:00.00',
+        silence: [
+          '[silencedetect @ 0x5581] silence_start: 177',
+          '[silencedetect @ 0x5581] silence_end: 180 | silence_duration: 3',
+        ],
+      })
+    );
+
+    expect(analysis?.leadingSilenceSeconds).toBe(0);
+    expect(analysis?.trailingSilenceSeconds).toBe(3);
+    expect(analysis?.clippingPercent).toBe(0);
+  });
+
+  it('falls back to the decoded length and understands channel counts', () => {
+    const analysis = parseAudioAnalysis(stderrFor({ stream: '44100 Hz, 1 channels, s16, 705 kb/s' }));
+
+    expect(analysis?.durationSeconds).toBe(180);
+    expect(analysis?.sampleRate).toBe(44100);
+    expect(analysis?.channels).toBe(1);
+  });
+
+  it('maps mono and surround layouts', () => {
+    expect(parseAudioAnalysis(stderrFor({ stream: '44100 Hz, mono, fltp, 128 kb/s' }))?.channels).toBe(1);
+    expect(parseAudioAnalysis(stderrFor({ stream: '48000 Hz, 5.1(side), s32' }))?.channels).toBe(6);
+  });
+
+  it('returns null without volume statistics', () => {
+    expect(parseAudioAnalysis('Input #0, wav\nInvalid data found when processing input')).toBeNull();
+  });
+});
+
+describe('getAudioQualityWarnings', () => {
+  it('flags clipping above the threshold', () => {
+    expect(getAudioQualityWarnings({ clippingPercent: 0.5, channels: 2 })).toEqual([
+      { kind: 'clipping', clippingPercent: 0.5 },
+    ]);
+    expect(getAudioQualityWarnings({ clippingPercent: 0.005, channels: 2 })).toEqual([]);
+  });
+
+  it('flags mono finals', () => {
+    expect(getAudioQualityWarnings({ channels: 1 })).toEqual([{ kind: 'mono' }]);
+  });
+
+  it('compares against the raw length without its silence', () => {
+    const raw = { durationSeconds: 240, leadingSilenceSeconds: 20, trailingSilenceSeconds: 20 };
+
+    expect(getAudioQualityWarnings({ durationSeconds: 150 }, raw)).toEqual([]);
+    expect(getAudioQualityWarnings({ durationSeconds: 90 }, raw)).toEqual([
+      { kind: 'short', finalSeconds: 90, rawSeconds: 200 },
+    ]);
+  });
+
+  it('skips the length check without an analyzed raw', () => {
+    expect(getAudioQualityWarnings({ durationSeconds: 10 })).toEqual([]);
+    expect(getAudioQualityWarnings({ durationSeconds: 10 }, {})).toEqual([]);
+  });
+});
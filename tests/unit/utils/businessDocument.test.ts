@@ -0,0 +1,61 @@
+import {
+  addDaysToDate,
+  buildDocumentRecipient,
+  getDealLineItems,
+  toPdfSafeText,
+} from '@/lib/utils/businessDocument';
+
+describe('getDealLineItems', () => {
+  it('uses the breakdown the Deal Builder saved', () => {
+    const breakdown = { base: 0, items: [{ label: 'Pauschale', amount: 450 }], total: 450 };
+    expect(getDealLineItems({ fee_breakdown: breakdown }, 'mimu', 120)).toBe(breakdown);
+  });
+
+  it('recalculates older configs from the deal type', () => {
+    const items = getDealLineItems({}, 'mimu', 120);
+    expect(items).not.toBeNull();
+    expect(items!.total).toBe(items!.base + items!.items.reduce((sum, item) => sum + item.amount, 0));
+  });
+
+  it('returns null when there is nothing to offer', () => {
+    expect(getDealLineItems({ fee_breakdown: { base: 0, items: [], total: 0 } })).toBeNull();
+  });
+});
+
+describe('buildDocumentRecipient', () => {
+  it('prefers the Einrichtung address over the lead', () => {
+    const recipient = buildDocumentRecipient(
+      { customerName: 'Grundschule am Park', address: 'Parkweg 1', plz: '10115', ort: 'Berlin' },
+      { name: 'GS Park', contactPerson: 'Frau Meier', address: 'Alt 2', city: 'Potsdam' }
+    );
+    expect(recipient).toEqual({
+      name: 'Grundschule am Park',
+      contactPerson: 'Frau Meier',
+      addressLines: ['Parkweg 1', '10115 Berlin'],
+    });
+  });
+
+  it('skips address lines that are unknown', () => {
+    expect(buildDocumentRecipient(null, { name: 'GS Park', city: 'Potsdam' }).addressLines).toEqual(['Potsdam']);
+  });
+});
+
+describe('addDaysToDate', () => {
+  it('returns the date the given number of days later', () => {
+    expect(addDaysToDate(30, new Date('2026-01-15T10:00:00Z'))).toBe('2026-02-14');
+  });
+});
+
+describe('toPdfSafeText', () => {
+  it('keeps umlauts, ß and the euro sign', () => {
+    expect(toPdfSafeText('Größe: 12 €')).toBe('Größe: 12 €');
+  });
+
+  it('spells out symbols the standard fonts cannot encode', () => {
+    expect(toPdfSafeText('≤ 100 Kinder – „Schulsong“')).toBe('<= 100 Kinder - "Schulsong"');
+  });
+
+  it('drops anything else', () => {
+    expect(toPdfSafeText('Danke 🎵!')).toBe('Danke !');
+  });
+});
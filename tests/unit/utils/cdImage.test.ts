@@ -0,0 +1,89 @@
+import {
+  CD_BYTES_PER_FRAME,
+  CD_MAX_SECONDS,
+  buildCueSheet,
+  buildWavHeader,
+  formatCueTime,
+  getCdCapacityError,
+  padToFrame,
+} from '@/lib/utils/cdImage';
+
+describe('padToFrame', () => {
+  it('rounds up to whole CD frames', () => {
+    expect(padToFrame(0)).toBe(0);
+    expect(padToFrame(1)).toBe(CD_BYTES_PER_FRAME);
+    expect(padToFrame(CD_BYTES_PER_FRAME)).toBe(CD_BYTES_PER_FRAME);
+    expect(padToFrame(CD_BYTES_PER_FRAME * 10 + 4)).toBe(CD_BYTES_PER_FRAME * 11);
+  });
+});
+
+describe('formatCueTime', () => {
+  it('formats MM:SS:FF with 75 frames per second', () => {
+    expect(formatCueTime(0)).toBe('00:00:00');
+    expect(formatCueTime(74)).toBe('00:00:74');
+    expect(formatCueTime(75 * 61 + 3)).toBe('01:01:03');
+  });
+
+  it('keeps counting minutes past an hour', () => {
+    expect(formatCueTime(75 * 60 * 79)).toBe('79:00:00');
+  });
+});
+
+describe('buildWavHeader', () => {
+  it('describes 44.1kHz/16-bit stereo PCM', () => {
+    const header = buildWavHeader(1000);
+    expect(header.length).toBe(44);
+    expect(header.toString('ascii', 0, 4)).toBe('RIFF');
+    expect(header.readUInt32LE(4)).toBe(1036);
+    expect(header.readUInt16LE(22)).toBe(2);
+    expect(header.readUInt32LE(24)).toBe(44100);
+    expect(header.readUInt32LE(28)).toBe(176400);
+    expect(header.readUInt16LE(34)).toBe(16);
+    expect(header.readUInt32LE(40)).toBe(1000);
+  });
+});
+
+describe('buildCueSheet', () => {
+  it('lists each track with class as performer', () => {
+    const cue = buildCueSheet({
+      title: 'GS Musterstadt',
+      performer: 'GS Musterstadt',
+      wavFilename: 'master-cd.wav',
+      tracks: [
+        { title: 'Alle meine Entchen', performer: 'Klasse 1a', startFrame: 0 },
+        { title: 'Der "Kuckuck"', performer: 'Klasse 2b', startFrame: 75 * 185 + 20 },
+      ],
+    });
+
+    expect(cue.split('\r\n')).toEqual([
+      'PERFORMER "GS Musterstadt"',
+      'TITLE "GS Musterstadt"',
+      'FILE "master-cd.wav" WAVE',
+      '  TRACK 01 AUDIO',
+      '    TITLE "Alle meine Entchen"',
+      '    PERFORMER "Klasse 1a"',
+      '    INDEX 01 00:00:00',
+      '  TRACK 02 AUDIO',
+      '    TITLE "Der Kuckuck"',
+      '    PERFORMER "Klasse 2b"',
+      '    INDEX 01 03:05:20',
+      '',
+    ]);
+  });
+});
+
+describe('getCdCapacityError', () => {
+  it('accepts a full 80-minute disc', () => {
+    expect(getCdCapacityError(CD_MAX_SECONDS, 20)).toBeNull();
+  });
+
+  it('rejects discs over 80 minutes', () => {
+    expect(getCdCapacityError(CD_MAX_SECONDS + 12, 20)).toBe('Total length 80:12 exceeds 80 minutes by 12s');
+    expect(getCdCapacityError(100 * 60 + 5, 20)).toBe('Total length 100:05 exceeds 80 minutes by 1205s');
+  });
+
+  it('rejects empty and over-long tracklists', () => {
+    expect(getCdCapacityError(0, 0)).toBe('The tracklist is empty');
+    expect(getCdCapacityError(600, 100)).toContain('exceed the CD limit of 99');
+  });
+});
@@ -0,0 +1,130 @@
+import {
+  appendConsentChoices,
+  filterPrintableChildren,
+  getConsentStatus,
+  getCurrentConsents,
+  parseConsentChoices,
+  parseConsentHistory,
+} from '@/lib/utils/childConsent';
+import type { ChildConsentChange } from '@/lib/types/airtable';
+
+const AT = '2026-10-01T08:00:00.000Z';
+const LATER = '2026-10-05T17:30:00.000Z';
+
+describe('appendConsentChoices', () => {
+  it('records every choice at registration with timestamp and text version', () => {
+    const history = appendConsentChoices(
+      [],
+      { audio_recording: true, name_on_print: false, album_download: true },
+      'registration',
+      AT,
+      '2026-10'
+    );
+
+    expect(history).toEqual([
+      { scope: 'audio_recording', granted: true, at: AT, version: '2026-10', source: 'registration' },
+      { scope: 'name_on_print', granted: false, at: AT, version: '2026-10', source: 'registration' },
+      { scope: 'album_download', granted: true, at: AT, version: '2026-10', source: 'registration' },
+    ]);
+  });
+
+  it('only appends scopes whose choice changed, keeping the earlier entries', () => {
+    const initial = appendConsentChoices([], { audio_recording: true, name_on_print: false }, 'registration', AT, '2026-10');
+    const updated = appendConsentChoices(
+      initial,
+      { audio_recording: true, name_on_print: true },
+      'parent_portal',
+      LATER,
+      '2026-10'
+    );
+
+    expect(updated).toHaveLength(3);
+    expect(updated.slice(0, 2)).toEqual(initial);
+    expect(updated[2]).toEqual({
+      scope: 'name_on_print',
+      granted: true,
+      at: LATER,
+      version: '2026-10',
+      source: 'parent_portal',
+    });
+  });
+
+  it('returns the same history when nothing changed', () => {
+    const initial = appendConsentChoices([], { album_download: false }, 'registration', AT, '2026-10');
+    expect(appendConsentChoices(initial, { album_download: false }, 'parent_portal', LATER, '2026-10')).toBe(initial);
+  });
+
+  it('re-records an unchanged choice given under a newer text version', () => {
+    const initial = appendConsentChoices([], { audio_recording: true }, 'registration', AT, '2026-10');
+    const updated = appendConsentChoices(initial, { audio_recording: true }, 'parent_portal', LATER, '2027-03');
+    expect(updated).toHaveLength(2);
+    expect(getCurrentConsents(updated).audio_recording?.version).toBe('2027-03');
+  });
+});
+
+describe('consent status', () => {
+  it('treats scopes without any choice as missing, the latest choice otherwise', () => {
+    const history: ChildConsentChange[] = [
+      { scope: 'audio_recording', granted: true, at: AT, version: '2026-10', source: 'registration' },
+      { scope: 'audio_recording', granted: false, at: LATER, version: '2026-10', source: 'parent_portal' },
+      { scope: 'album_download', granted: true, at: AT, version: '2026-10', source: 'registration' },
+    ];
+
+    expect(getConsentStatus(history, 'audio_recording')).toBe('declined');
+    expect(getConsentStatus(history, 'album_download')).toBe('granted');
+    expect(getConsentStatus(history, 'name_on_print')).toBe('missing');
+  });
+});
+
+describe('parseConsentHistory', () => {
+  it('reads the stored JSON and drops malformed entries', () => {
+    const raw = JSON.stringify([
+      { scope: 'name_on_print', granted: true, at: AT, version: '2026-10', source: 'registration' },
+      { scope: 'photo', granted: true, at: AT },
+      { scope: 'audio_recording', granted: 'yes', at: AT },
+    ]);
+    expect(parseConsentHistory(raw)).toHaveLength(1);
+  });
+
+  it('returns an empty history for empty or invalid values', () => {
+    expect(parseConsentHistory(undefined)).toEqual([]);
+    expect(parseConsentHistory('')).toEqual([]);
+    expect(parseConsentHistory('not json')).toEqual([]);
+  });
+});
+
+describe('parseConsentChoices', () => {
+  it('accepts known scopes with boolean choices', () => {
+    expect(parseConsentChoices({ name_on_print: false })).toEqual({ name_on_print: false });
+  });
+
+  it('rejects unknown scopes and non-boolean values', () => {
+    expect(parseConsentChoices({ photo: true })).toBeNull();
+    expect(parseConsentChoices({ audio_recording: 'true' })).toBeNull();
+    expect(parseConsentChoices(null)).toBeNull();
+    expect(parseConsentChoices([true])).toBeNull();
+  });
+
+  it('requires every scope when asked to', () => {
+    expect(parseConsentChoices({ audio_recording: true }, true)).toBeNull();
+    expect(
+      parseConsentChoices({ audio_recording: true, name_on_print: true, album_download: false }, true)
+    ).toEqual({ audio_recording: true, name_on_print: true, album_download: false });
+  });
+});
+
+describe('filterPrintableChildren', () => {
+  it('lists only children with name_on_print consent, by name', () => {
+    const granted = appendConsentChoices([], { name_on_print: true }, 'registration', AT);
+    const declined = appendConsentChoices([], { name_on_print: false }, 'registration', AT);
+
+    const children = [
+      { childName: 'Mila Schulz', consentHistory: granted },
+      { childName: 'Ben Weber', consentHistory: declined },
+      { childName: 'Anna Özdemir', consentHistory: granted },
+      { childName: 'Lea Krause', consentHistory: [] },
+    ];
+
+    expect(filterPrintableChildren(children).map((child) => child.childName)).toEqual(['Anna Özdemir', 'Mila Schulz']);
+  });
+});
@@ -0,0 +1,128 @@
+import {
+  buildExportArchiveFiles,
+  getAnonymisedEmail,
+  getPrefixBucket,
+  getRawAudioPrefixes,
+  getRetentionCutoffDate,
+  hashDataSubject,
+  isAnonymisedEmail,
+  toNamedFields,
+} from '@/lib/utils/dataProtection';
+import type { DataSubjectExport } from '@/lib/types/dataProtection';
+
+describe('hashDataSubject', () => {
+  it('ignores case and surrounding whitespace', () => {
+    expect(hashDataSubject(' Anna.Schulz@Example.de ')).toBe(hashDataSubject('anna.schulz@example.de'));
+    expect(hashDataSubject('anna.schulz@example.de')).toMatch(/^[0-9a-f]{64}$/);
+  });
+});
+
+describe('getAnonymisedEmail', () => {
+  it('builds an undeliverable address from the hash, never the original', () => {
+    const hash = hashDataSubject('anna.schulz@example.de');
+    const email = getAnonymisedEmail(hash);
+    expect(email).toBe(`geloescht-${hash.slice(0, 16)}@anonymisiert.invalid`);
+    expect(email).not.toContain('anna');
+    expect(isAnonymisedEmail(email)).toBe(true);
+    expect(isAnonymisedEmail('anna.schulz@example.de')).toBe(false);
+  });
+});
+
+describe('getRetentionCutoffDate', () => {
+  it('goes back the given number of months', () => {
+    expect(getRetentionCutoffDate(12, new Date('2026-10-19T03:00:00Z'))).toBe('2025-10-19');
+    expect(getRetentionCutoffDate(3, new Date('2026-02-10T03:00:00Z'))).toBe('2025-11-10');
+  });
+
+  it('clamps to the end of shorter months', () => {
+    expect(getRetentionCutoffDate(1, new Date('2026-03-31T03:00:00Z'))).toBe('2026-02-28');
+    expect(getRetentionCutoffDate(25, new Date('2026-03-31T03:00:00Z'))).toBe('2024-02-29');
+  });
+});
+
+describe('getRawAudioPrefixes', () => {
+  it('returns the raw folders of the event, one per class or song', () => {
+    const keys = [
+      'recordings/evt_1/cls_a/raw/1700000000000_take1.wav',
+      'recordings/evt_1/cls_a/raw/1700000000001_take2.wav',
+      'recordings/evt_1/cls_b/song_x/raw/1700000000002_take.wav',
+      'events/evt_1/classes/cls_c/raw/1700000000003_take.mp3',
+    ];
+    expect(getRawAudioPrefixes('evt_1', keys)).toEqual([
+      'events/evt_1/classes/cls_c/raw/',
+      'recordings/evt_1/cls_a/raw/',
+      'recordings/evt_1/cls_b/song_x/raw/',
+    ]);
+  });
+
+  it('ignores keys outside the event and keys without a raw folder', () => {
+    expect(
+      getRawAudioPrefixes('evt_1', [
+        'recordings/evt_2/cls_a/raw/take.wav',
+        'recordings/evt_1/cls_a/final/final.mp3',
+        'evt_1/raw/take.wav',
+        '',
+      ])
+    ).toEqual([]);
+  });
+});
+
+describe('getPrefixBucket', () => {
+  it('maps recordings/ to the recordings bucket and event folders to assets', () => {
+    expect(getPrefixBucket('recordings/evt_1/cls_a/raw/')).toBe('recordings');
+    expect(getPrefixBucket('events/evt_1/classes/cls_a/raw/')).toBe('assets');
+  });
+});
+
+describe('toNamedFields', () => {
+  const fieldIds = { parent_email: 'fldEmail', parent_first_name: 'fldName', token: 'fldToken', history: 'fldHistory' };
+  const fields: Record<string, unknown> = {
+    fldEmail: 'anna@example.de',
+    fldName: '',
+    fldToken: 'secret',
+    fldHistory: '[{"granted":true}]',
+  };
+  const record = { get: (fieldId: string) => fields[fieldId] };
+
+  it('keys non-empty fields by name, skipping omitted ones and parsing JSON fields', () => {
+    expect(toNamedFields(record, fieldIds, { omit: ['token'], json: ['history'] })).toEqual({
+      parent_email: 'anna@example.de',
+      history: [{ granted: true }],
+    });
+  });
+});
+
+describe('buildExportArchiveFiles', () => {
+  it('writes one file per source and a manifest with the counts', () => {
+    const data: DataSubjectExport = {
+      email: 'anna@example.de',
+      generatedAt: '2026-10-19T08:00:00.000Z',
+      parent: { parent_email: 'anna@example.de' },
+      children: [{ registered_child: 'Mila' }, { registered_child: 'Ben' }],
+      orders: [],
+      emailLogs: [{ template_name: 'Welcome' }],
+      legacyRecords: [],
+    };
+
+    const files = buildExportArchiveFiles(data, 'admin@minimusiker.de');
+    expect(files.map((file) => file.name)).toEqual([
+      'manifest.json',
+      'parent.json',
+      'children.json',
+      'orders.json',
+      'email-logs.json',
+      'legacy-parent-journey.json',
+    ]);
+
+    const manifest = JSON.parse(files[0].content);
+    expect(manifest.generatedBy).toBe('admin@minimusiker.de');
+    expect(manifest.files).toEqual([
+      { name: 'parent.json', records: 1 },
+      { name: 'children.json', records: 2 },
+      { name: 'orders.json', records: 0 },
+      { name: 'email-logs.json', records: 1 },
+      { name: 'legacy-parent-journey.json', records: 0 },
+    ]);
+    expect(JSON.parse(files[2].content)).toEqual(data.children);
+  });
+});
@@ -0,0 +1,124 @@
+import {
+  applyConditionalSections,
+  findTemplateVariables,
+  findUnknownVariables,
+  formatUnknownVariablesError,
+  parseEmailBlocks,
+  renderEmailBlocks,
+  validateEmailBlocks,
+} from '@/lib/utils/emailBlocks';
+import type { EmailBlock } from '@/lib/types/email-automation';
+
+const BLOCKS: EmailBlock[] = [
+  { id: 'h', type: 'heading', text: 'Hallo {{parent_first_name}},' },
+  { id: 't', type: 'text', text: 'Das Konzert an der **{{school_name}}** naht.\n\nBis bald <3' },
+  { id: 'b', type: 'button', label: 'Jetzt bestellen', url: '{{event_link}}' },
+  {
+    id: 'c',
+    type: 'conditional',
+    variable: 'child_name',
+    blocks: [{ id: 'i', type: 'image', src: 'https://minimusiker.app/cd.png', alt: 'CD', href: '{{order_link}}' }],
+  },
+  { id: 'd', type: 'divider' },
+];
+
+describe('renderEmailBlocks', () => {
+  const html = renderEmailBlocks(BLOCKS);
+
+  it('renders text with paragraphs, bold and escaping', () => {
+    expect(html).toContain('Hallo {{parent_first_name}},\n</h2>');
+    expect(html).toContain('<strong>{{school_name}}</strong>');
+    expect(html).toContain('Bis bald &lt;3');
+    expect(html.match(/<p style=/g)).toHaveLength(3);
+  });
+
+  it('keeps variables in links and wraps conditional blocks', () => {
+    expect(html).toContain('<a href="{{event_link}}"');
+    expect(html).toContain('<a href="{{order_link}}"><img src="https://minimusiker.app/cd.png" alt="CD"');
+    expect(html).toMatch(/\{\{#if child_name\}\}\n[\s\S]*<img[\s\S]*\n\{\{\/if\}\}/);
+    expect(html).toContain('<hr style=');
+  });
+});
+
+describe('validateEmailBlocks', () => {
+  it('accepts a complete layout', () => {
+    expect(validateEmailBlocks(BLOCKS)).toBeNull();
+    expect(validateEmailBlocks([])).toBeNull();
+  });
+
+  it('rejects empty content and unsafe links', () => {
+    expect(validateEmailBlocks('[]')).toMatch(/array/);
+    expect(validateEmailBlocks([{ id: 'x', type: 'text', text: ' ' }])).toMatch(/Text fehlt/);
+    expect(validateEmailBlocks([{ id: 'x', type: 'button', label: 'Los', url: 'javascript:alert(1)' }])).toMatch(
+      /Link/
+    );
+    expect(validateEmailBlocks([{ id: 'x', type: 'image', src: 'http://example.de/a.png', alt: '' }])).toMatch(
+      /https/
+    );
+    expect(validateEmailBlocks([{ id: 'x', type: 'video' }])).toMatch(/Unbekannter Blocktyp/);
+  });
+
+  it('requires conditions to name a variable and hold flat content', () => {
+    const inner: EmailBlock = { id: 'd', type: 'divider' };
+    expect(validateEmailBlocks([{ id: 'c', type: 'conditional', variable: '', blocks: [inner] }])).toMatch(
+      /Variable/
+    );
+    expect(validateEmailBlocks([{ id: 'c', type: 'conditional', variable: 'child_name', blocks: [] }])).toMatch(
+      /Mindestens/
+    );
+    expect(
+      validateEmailBlocks([
+        {
+          id: 'c',
+          type: 'conditional',
+          variable: 'child_name',
+          blocks: [{ id: 'n', type: 'conditional', variable: 'class_name', blocks: [inner] }],
+        },
+      ])
+    ).toMatch(/verschachtelt/);
+  });
+});
+
+describe('parseEmailBlocks', () => {
+  it('reads stored blocks and ignores anything invalid', () => {
+    expect(parseEmailBlocks(JSON.stringify(BLOCKS))).toEqual(BLOCKS);
+    expect(parseEmailBlocks(undefined)).toBeUndefined();
+    expect(parseEmailBlocks('')).toBeUndefined();
+    expect(parseEmailBlocks('{not json')).toBeUndefined();
+    expect(parseEmailBlocks(JSON.stringify([{ id: 'x', type: 'text', text: '' }]))).toBeUndefined();
+  });
+});
+
+describe('applyConditionalSections', () => {
+  it('keeps sections for set variables only', () => {
+    const template = 'A{{#if x}}B{{/if}}C{{#if y }}D{{/if}}';
+    expect(applyConditionalSections(template, (name) => name === 'x')).toBe('ABC');
+    expect(applyConditionalSections(template, () => true)).toBe('ABCD');
+  });
+});
+
+describe('findUnknownVariables', () => {
+  const content = '{{school_name}} {{{child_name}}} {{#if order_link}}{{event_date+7}}{{/if}} {{shopUrl}}';
+
+  it('lists every variable once, including conditions', () => {
+    expect(findTemplateVariables(`${content} {{school_name}}`)).toEqual([
+      'school_name',
+      'child_name',
+      'order_link',
+      'event_date+7',
+      'shopUrl',
+    ]);
+  });
+
+  it('only accepts date offsets when asked', () => {
+    const allowed = ['school_name', 'child_name', 'order_link', 'event_date'];
+    expect(findUnknownVariables(content, allowed)).toEqual(['event_date+7', 'shopUrl']);
+    expect(findUnknownVariables(content, allowed, { dateMath: true })).toEqual(['shopUrl']);
+  });
+
+  it('formats the error message', () => {
+    expect(formatUnknownVariablesError([])).toBeNull();
+    expect(formatUnknownVariablesError(['a'])).toBe('Unbekannte Variable: {{a}}');
+    expect(formatUnknownVariablesError(['a', 'b'])).toBe('Unbekannte Variablen: {{a}}, {{b}}');
+  });
+});
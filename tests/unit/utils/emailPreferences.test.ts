@@ -0,0 +1,55 @@
+import {
+  getParentEmailPreferences,
+  isParentSubscribedTo,
+  parseEmailOptOuts,
+  toParentPreferenceFields,
+} from '@/lib/utils/emailPreferences';
+
+describe('isParentSubscribedTo', () => {
+  it('sends every category by default', () => {
+    expect(isParentSubscribedTo({}, 'shop_promotions')).toBe(true);
+    expect(isParentSubscribedTo({ email_campaigns: 'yes' }, 'audio_ready')).toBe(true);
+  });
+
+  it('respects the one-click unsubscribe as a master switch', () => {
+    expect(isParentSubscribedTo({ email_campaigns: 'no' }, 'audio_ready')).toBe(false);
+    expect(isParentSubscribedTo({ email_campaigns: 'no', email_opt_outs: [] }, 'event_reminders')).toBe(false);
+  });
+
+  it('skips only the categories the parent turned off', () => {
+    const parent = { email_campaigns: 'yes' as const, email_opt_outs: ['shop_promotions' as const] };
+    expect(isParentSubscribedTo(parent, 'shop_promotions')).toBe(false);
+    expect(isParentSubscribedTo(parent, 'audio_ready')).toBe(true);
+  });
+});
+
+describe('preference center round trip', () => {
+  it('lets a parent who unsubscribed keep audio-ready notices', () => {
+    expect(getParentEmailPreferences({ email_campaigns: 'no' })).toEqual({
+      event_reminders: false,
+      shop_promotions: false,
+      audio_ready: false,
+      schulsong_release: false,
+    });
+
+    const fields = toParentPreferenceFields({ audio_ready: true, schulsong_release: true });
+    expect(fields).toEqual({ email_campaigns: 'yes', email_opt_outs: ['event_reminders', 'shop_promotions'] });
+    expect(getParentEmailPreferences(fields)).toEqual({
+      event_reminders: false,
+      shop_promotions: false,
+      audio_ready: true,
+      schulsong_release: true,
+    });
+  });
+
+  it('turns the master switch off when nothing is left', () => {
+    expect(toParentPreferenceFields({ audio_ready: false })).toMatchObject({ email_campaigns: 'no' });
+  });
+});
+
+describe('parseEmailOptOuts', () => {
+  it('keeps known categories only', () => {
+    expect(parseEmailOptOuts(['shop_promotions', 'newsletter', 3])).toEqual(['shop_promotions']);
+    expect(parseEmailOptOuts(undefined)).toEqual([]);
+  });
+});
@@ -0,0 +1,143 @@
+import {
+  assignTemplateVariant,
+  getTemplateVariants,
+  isTaggedShopLink,
+  parseTemplateVariants,
+  tagShopLinks,
+  validateTemplateVariants,
+} from '@/lib/utils/emailVariants';
+
+const TEMPLATE = {
+  name: 'T-19 Frühbucher',
+  subject: 'Jetzt vorbestellen',
+  bodyHtml: '<p>A</p>',
+};
+
+const VARIANT_B = { key: 'B', subject: 'Nur noch 5 Tage Frühbucherpreis', bodyHtml: '<p>B</p>', weight: 50 };
+
+describe('parseTemplateVariants', () => {
+  it('reads stored JSON and drops malformed entries', () => {
+    const raw = JSON.stringify([VARIANT_B, { key: 'C', subject: 'No body' }, null]);
+    expect(parseTemplateVariants(raw)).toEqual([VARIANT_B]);
+  });
+
+  it('treats empty and invalid values as no variants', () => {
+    expect(parseTemplateVariants(undefined)).toEqual([]);
+    expect(parseTemplateVariants('')).toEqual([]);
+    expect(parseTemplateVariants('{not json')).toEqual([]);
+    expect(parseTemplateVariants('{"key":"B"}')).toEqual([]);
+  });
+});
+
+describe('validateTemplateVariants', () => {
+  it('accepts up to three variants leaving A a share', () => {
+    expect(validateTemplateVariants([])).toBeNull();
+    expect(
+      validateTemplateVariants([
+        { ...VARIANT_B, weight: 33 },
+        { ...VARIANT_B, key: 'C', weight: 33 },
+      ])
+    ).toBeNull();
+  });
+
+  it('rejects bad keys, duplicates, empty content and bad shares', () => {
+    expect(validateTemplateVariants('B')).toMatch(/array/);
+    expect(validateTemplateVariants([{ ...VARIANT_B, key: 'A' }])).toMatch(/B to Z/);
+    expect(validateTemplateVariants([VARIANT_B, { ...VARIANT_B, weight: 10 }])).toMatch(/twice/);
+    expect(validateTemplateVariants([{ ...VARIANT_B, subject: ' ' }])).toMatch(/subject/);
+    expect(validateTemplateVariants([{ ...VARIANT_B, bodyHtml: '' }])).toMatch(/body/);
+    expect(validateTemplateVariants([{ ...VARIANT_B, weight: 12.5 }])).toMatch(/share/);
+    expect(
+      validateTemplateVariants([
+        { ...VARIANT_B, weight: 60 },
+        { ...VARIANT_B, key: 'C', weight: 40 },
+      ])
+    ).toMatch(/Variant A/);
+  });
+
+  it('limits the number of variants', () => {
+    const variants = ['B', 'C', 'D', 'E'].map((key) => ({ ...VARIANT_B, key, weight: 10 }));
+    expect(validateTemplateVariants(variants)).toMatch(/At most 3/);
+  });
+});
+
+describe('getTemplateVariants', () => {
+  it('puts A first with the remaining share', () => {
+    const variants = getTemplateVariants({ ...TEMPLATE, variants: [{ ...VARIANT_B, weight: 30 }] });
+    expect(variants.map((v) => [v.key, v.weight])).toEqual([
+      ['A', 70],
+      ['B', 30],
+    ]);
+    expect(variants[0]).toMatchObject({ subject: TEMPLATE.subject, bodyHtml: TEMPLATE.bodyHtml });
+  });
+
+  it('is only A for templates without a test', () => {
+    expect(getTemplateVariants(TEMPLATE)).toEqual([
+      { key: 'A', subject: TEMPLATE.subject, bodyHtml: TEMPLATE.bodyHtml, weight: 100 },
+    ]);
+  });
+});
+
+describe('assignTemplateVariant', () => {
+  const template = { ...TEMPLATE, variants: [VARIANT_B] };
+  const emails = Array.from({ length: 1000 }, (_, i) => `eltern${i}@example.de`);
+
+  it('always gives a recipient the same variant, regardless of case', () => {
+    for (const email of emails.slice(0, 20)) {
+      const key = assignTemplateVariant(template, email).key;
+      expect(assignTemplateVariant(template, email).key).toBe(key);
+      expect(assignTemplateVariant(template, ` ${email.toUpperCase()} `).key).toBe(key);
+    }
+  });
+
+  it('splits recipients roughly by weight', () => {
+    const countB = emails.filter((email) => assignTemplateVariant(template, email).key === 'B').length;
+    expect(countB).toBeGreaterThan(430);
+    expect(countB).toBeLessThan(570);
+
+    const smallB = { ...TEMPLATE, variants: [{ ...VARIANT_B, weight: 10 }] };
+    const countSmallB = emails.filter((email) => assignTemplateVariant(smallB, email).key === 'B').length;
+    expect(countSmallB).toBeGreaterThan(60);
+    expect(countSmallB).toBeLessThan(140);
+  });
+
+  it('sends A to everyone when there is no test', () => {
+    expect(emails.every((email) => assignTemplateVariant(TEMPLATE, email).key === 'A')).toBe(true);
+  });
+});
+
+describe('tagShopLinks', () => {
+  it('tags shop links with the template and variant', () => {
+    const tagged = tagShopLinks(
+      {
+        event_link: 'https://minimusiker.app/e/64',
+        parent_portal_link: 'https://minimusiker.app/familie?tab=shop',
+        teacher_portal_link: 'https://minimusiker.app/paedagogen',
+      },
+      TEMPLATE.name,
+      'B'
+    );
+
+    const eventLink = new URL(tagged.event_link!);
+    expect(eventLink.searchParams.get('utm_campaign')).toBe('t-19-fr-hbucher');
+    expect(eventLink.searchParams.get('utm_content')).toBe('B');
+    expect(eventLink.searchParams.get('utm_medium')).toBe('email');
+    expect(new URL(tagged.parent_portal_link!).searchParams.get('tab')).toBe('shop');
+    expect(isTaggedShopLink(tagged.event_link)).toBe(true);
+    expect(isTaggedShopLink(tagged.parent_portal_link)).toBe(true);
+    expect(tagged.teacher_portal_link).toBe('https://minimusiker.app/paedagogen');
+  });
+
+  it('leaves relative or missing links alone', () => {
+    expect(tagShopLinks({ event_link: '/e/64' }, TEMPLATE.name, 'A')).toEqual({ event_link: '/e/64' });
+  });
+});
+
+describe('isTaggedShopLink', () => {
+  it('only matches our UTM source', () => {
+    expect(isTaggedShopLink('https://minimusiker.app/e/64')).toBe(false);
+    expect(isTaggedShopLink('https://minimusiker.app/e/64?utm_source=newsletter')).toBe(false);
+    expect(isTaggedShopLink('not a url')).toBe(false);
+    expect(isTaggedShopLink(undefined)).toBe(false);
+  });
+});
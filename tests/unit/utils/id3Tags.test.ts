@@ -0,0 +1,128 @@
+import {
+  buildId3Tag,
+  buildTrackTags,
+  getCoverMimeType,
+  getId3TagLength,
+  writeId3Tag,
+} from '@/lib/utils/id3Tags';
+
+const AUDIO = Buffer.from([0xff, 0xfb, 0x90, 0x64, 0x00, 0x01, 0x02, 0x03]);
+
+function readFrames(tag: Buffer): Map<string, Buffer> {
+  const frames = new Map<string, Buffer>();
+  let offset = 10;
+  while (offset < tag.length) {
+    const id = tag.toString('latin1', offset, offset + 4);
+    const size = tag.readUInt32BE(offset + 4);
+    frames.set(id, tag.subarray(offset + 10, offset + 10 + size));
+    offset += 10 + size;
+  }
+  return frames;
+}
+
+function readText(body: Buffer | undefined): string | undefined {
+  if (!body) return undefined;
+  expect(body[0]).toBe(0x01);
+  return body.subarray(3).toString('utf16le');
+}
+
+describe('buildTrackTags', () => {
+  it('uses the class as artist and school plus event year as album', () => {
+    expect(
+      buildTrackTags(
+        { title: 'Wir sind Kinder', className: 'Klasse 3a', trackNumber: 2 },
+        { schoolName: 'Grundschule Süd', eventDate: '2026-05-14', trackTotal: 5 }
+      )
+    ).toEqual({
+      title: 'Wir sind Kinder',
+      artist: 'Klasse 3a',
+      album: 'Grundschule Süd 2026',
+      trackNumber: 2,
+      trackTotal: 5,
+      year: '2026',
+    });
+  });
+
+  it('leaves out the year and track number when unknown', () => {
+    const tags = buildTrackTags({ title: 'Aufnahme' }, { schoolName: 'Grundschule Süd', trackTotal: 5 });
+    expect(tags.album).toBe('Grundschule Süd');
+    expect(tags.year).toBeUndefined();
+    expect(tags.trackNumber).toBeUndefined();
+    expect(tags.trackTotal).toBeUndefined();
+  });
+});
+
+describe('getCoverMimeType', () => {
+  it('maps image extensions and rejects everything else', () => {
+    expect(getCoverMimeType('logos/recEinrichtung1/logo.JPG')).toBe('image/jpeg');
+    expect(getCoverMimeType('events/e1/logo/logo.png')).toBe('image/png');
+    expect(getCoverMimeType('events/e1/printables/cd-jacket/cd-jacket.pdf')).toBeNull();
+  });
+});
+
+describe('buildId3Tag', () => {
+  const tags = buildTrackTags(
+    { title: 'Schöne Grüße', className: 'Klasse 3a', trackNumber: 2 },
+    { schoolName: 'Grundschule Süd', eventDate: '2026-05-14', trackTotal: 5 }
+  );
+
+  it('writes an ID3v2.3 header with a syncsafe size', () => {
+    const tag = buildId3Tag(tags);
+    expect(tag.toString('latin1', 0, 3)).toBe('ID3');
+    expect([tag[3], tag[4], tag[5]]).toEqual([0x03, 0x00, 0x00]);
+    expect(getId3TagLength(tag)).toBe(tag.length);
+    for (const byte of tag.subarray(6, 10)) {
+      expect(byte & 0x80).toBe(0);
+    }
+  });
+
+  it('writes UTF-16 text frames', () => {
+    const frames = readFrames(buildId3Tag(tags));
+    expect(readText(frames.get('TIT2'))).toBe('Schöne Grüße');
+    expect(readText(frames.get('TPE1'))).toBe('Klasse 3a');
+    expect(readText(frames.get('TALB'))).toBe('Grundschule Süd 2026');
+    expect(readText(frames.get('TRCK'))).toBe('2/5');
+    expect(readText(frames.get('TYER'))).toBe('2026');
+  });
+
+  it('embeds the cover as front cover picture', () => {
+    const image = Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0x01, 0x02]);
+    const apic = readFrames(buildId3Tag(tags, { data: image, mimeType: 'image/jpeg' })).get('APIC');
+    expect(apic).toBeDefined();
+    expect(apic?.toString('latin1', 1, 12)).toBe('image/jpeg\0');
+    expect(apic?.[12]).toBe(0x03);
+    expect(apic?.subarray(14)).toEqual(image);
+  });
+
+  it('omits frames without a value', () => {
+    const frames = readFrames(buildId3Tag({ title: 'Aufnahme' }));
+    expect(Array.from(frames.keys())).toEqual(['TIT2']);
+  });
+});
+
+describe('writeId3Tag', () => {
+  it('prepends a tag to untagged audio', () => {
+    const tagged = writeId3Tag(AUDIO, { title: 'Aufnahme' });
+    expect(tagged.subarray(getId3TagLength(tagged))).toEqual(AUDIO);
+  });
+
+  it('replaces an existing tag, including a v2.4 footer', () => {
+    const oldBody = Buffer.alloc(20, 0x41);
+    const oldTag = Buffer.concat([
+      Buffer.from('ID3', 'latin1'),
+      Buffer.from([0x04, 0x00, 0x10, 0x00, 0x00, 0x00, oldBody.length]),
+      oldBody,
+      Buffer.from('3DI', 'latin1'),
+      Buffer.alloc(7),
+    ]);
+
+    const tagged = writeId3Tag(Buffer.concat([oldTag, AUDIO]), { title: 'Neu' });
+    expect(tagged[3]).toBe(0x03);
+    expect(tagged.subarray(getId3TagLength(tagged))).toEqual(AUDIO);
+  });
+
+  it('is stable when tagging twice', () => {
+    const once = writeId3Tag(AUDIO, { title: 'Aufnahme', trackNumber: 1 });
+    expect(writeId3Tag(once, { title: 'Aufnahme', trackNumber: 1 })).toEqual(once);
+  });
+});
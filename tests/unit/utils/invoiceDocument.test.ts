@@ -0,0 +1,133 @@
+import {
+  buildStornoLineItems,
+  calculateInvoiceTotals,
+  getDaysOverdue,
+  getDueDunningStep,
+  getEffectiveInvoiceStatus,
+  getNextInvoiceNumber,
+  summarizeSchoolFees,
+} from '@/lib/utils/invoiceDocument';
+import { INVOICE_DUNNING_STEPS } from '@/lib/config/businessDocuments';
+
+describe('calculateInvoiceTotals', () => {
+  const items = [
+    { label: 'Pauschale', amount: 450 },
+    { label: 'Zusatzgruppe', amount: 145 },
+  ];
+
+  it('extracts VAT from gross prices', () => {
+    expect(calculateInvoiceTotals(items, 19, true)).toEqual({ netAmount: 500, vatAmount: 95, grossAmount: 595 });
+  });
+
+  it('adds VAT on top of net prices', () => {
+    expect(calculateInvoiceTotals(items, 19, false)).toEqual({ netAmount: 595, vatAmount: 113.05, grossAmount: 708.05 });
+  });
+
+  it('keeps net and VAT adding up to gross after rounding', () => {
+    const totals = calculateInvoiceTotals([{ label: 'Pauschale', amount: 99.99 }], 19, true);
+    expect(totals.netAmount + totals.vatAmount).toBeCloseTo(totals.grossAmount, 10);
+  });
+
+  it('handles negative amounts for cancellation invoices', () => {
+    expect(calculateInvoiceTotals([{ label: 'Pauschale', amount: -595 }], 19, true)).toEqual({
+      netAmount: -500,
+      vatAmount: -95,
+      grossAmount: -595,
+    });
+  });
+});
+
+describe('getNextInvoiceNumber', () => {
+  it('starts each year at 0001', () => {
+    expect(getNextInvoiceNumber([], 2026)).toBe('RE-2026-0001');
+    expect(getNextInvoiceNumber(['RE-2025-0042'], 2026)).toBe('RE-2026-0001');
+  });
+
+  it('continues after the highest number of the year', () => {
+    expect(getNextInvoiceNumber(['RE-2026-0002', 'RE-2026-0007', 'RE-2026-0003'], 2026)).toBe('RE-2026-0008');
+  });
+
+  it('ignores values that are not invoice numbers', () => {
+    expect(getNextInvoiceNumber(['ANG-2026-2XYZ9-2', ''], 2026)).toBe('RE-2026-0001');
+  });
+});
+
+describe('overdue status', () => {
+  it('counts whole days past the due date', () => {
+    expect(getDaysOverdue('2026-03-01', '2026-03-08')).toBe(7);
+    expect(getDaysOverdue('2026-03-10', '2026-03-08')).toBe(0);
+    expect(getDaysOverdue(undefined, '2026-03-08')).toBe(0);
+  });
+
+  it('treats sent invoices past their due date as overdue', () => {
+    expect(getEffectiveInvoiceStatus({ status: 'sent', dueDate: '2026-03-01' }, '2026-03-02')).toBe('overdue');
+    expect(getEffectiveInvoiceStatus({ status: 'sent', dueDate: '2026-03-01' }, '2026-03-01')).toBe('sent');
+    expect(getEffectiveInvoiceStatus({ status: 'paid', dueDate: '2026-03-01' }, '2026-04-01')).toBe('paid');
+  });
+});
+
+describe('getDueDunningStep', () => {
+  const invoice = { invoiceType: 'invoice' as const, status: 'sent' as const, dueDate: '2026-03-01', dunningLevel: 0 as const };
+
+  it('waits until the first reminder is due', () => {
+    expect(getDueDunningStep(invoice, INVOICE_DUNNING_STEPS, '2026-03-05')).toBeNull();
+  });
+
+  it('sends the reminders in order', () => {
+    expect(getDueDunningStep(invoice, INVOICE_DUNNING_STEPS, '2026-03-08')?.level).toBe(1);
+    // First reminder still outstanding, even though the second is already due
+    expect(getDueDunningStep(invoice, INVOICE_DUNNING_STEPS, '2026-03-30')?.level).toBe(1);
+    expect(getDueDunningStep({ ...invoice, dunningLevel: 1 }, INVOICE_DUNNING_STEPS, '2026-03-30')?.level).toBe(2);
+    expect(getDueDunningStep({ ...invoice, dunningLevel: 2 }, INVOICE_DUNNING_STEPS, '2026-06-01')).toBeNull();
+  });
+
+  it('skips paid invoices and cancellation invoices', () => {
+    expect(getDueDunningStep({ ...invoice, status: 'paid' }, INVOICE_DUNNING_STEPS, '2026-04-01')).toBeNull();
+    expect(getDueDunningStep({ ...invoice, invoiceType: 'storno' }, INVOICE_DUNNING_STEPS, '2026-04-01')).toBeNull();
+  });
+});
+
+describe('buildStornoLineItems', () => {
+  it('negates every line item', () => {
+    expect(buildStornoLineItems({ lineItems: [{ label: 'Pauschale', amount: 450 }] })).toEqual([
+      { label: 'Pauschale', amount: -450 },
+    ]);
+  });
+});
+
+describe('summarizeSchoolFees', () => {
+  const today = '2026-04-01';
+
+  it('groups issued invoices by event and splits paid from open', () => {
+    const summaries = summarizeSchoolFees(
+      [
+        { eventId: 'evt_a', status: 'paid', dueDate: '2026-03-01', netAmount: 500, grossAmount: 595 },
+        { eventId: 'evt_a', status: 'sent', dueDate: '2026-03-15', netAmount: 100, grossAmount: 119 },
+        { eventId: 'evt_b', status: 'draft', dueDate: undefined, netAmount: 300, grossAmount: 357 },
+      ],
+      today
+    );
+
+    expect(Object.keys(summaries)).toEqual(['evt_a']);
+    expect(summaries.evt_a).toEqual({
+      netRevenue: 600,
+      grossInvoiced: 714,
+      grossPaid: 595,
+      grossOpen: 119,
+      openInvoiceCount: 1,
+    });
+  });
+
+  it('nets a cancelled invoice against its Storno', () => {
+    const summaries = summarizeSchoolFees(
+      [
+        { eventId: 'evt_a', status: 'cancelled', dueDate: '2026-03-01', netAmount: 500, grossAmount: 595 },
+        { eventId: 'evt_a', status: 'cancelled', dueDate: '2026-03-20', netAmount: -500, grossAmount: -595 },
+      ],
+      today
+    );
+
+    expect(summaries.evt_a.netRevenue).toBe(0);
+    expect(summaries.evt_a.openInvoiceCount).toBe(0);
+  });
+});
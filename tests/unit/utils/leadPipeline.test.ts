@@ -0,0 +1,152 @@
+import {
+  appendStageChange,
+  buildLeadFunnelReport,
+  getCurrentStageSince,
+  getDueFollowUps,
+  getDueNurtureSteps,
+  parseStageHistory,
+} from '@/lib/utils/leadPipeline';
+import type { LeadNurtureStep } from '@/lib/config/leadNurture';
+import type { Lead } from '@/lib/types/airtable';
+
+function makeLead(overrides: Partial<Lead> = {}): Lead {
+  return {
+    id: 'recLead',
+    schoolName: 'GS Sonnenschein',
+    contactPerson: 'Frau Meier',
+    contactEmail: 'meier@schule.de',
+    stage: 'New',
+    callNotes: [],
+    stageHistory: [{ stage: 'New', at: '2026-03-01T09:00:00.000Z' }],
+    createdAt: '2026-03-01T09:00:00.000Z',
+    updatedAt: '',
+    ...overrides,
+  };
+}
+
+describe('stage history', () => {
+  it('ignores malformed JSON and entries', () => {
+    expect(parseStageHistory(undefined)).toEqual([]);
+    expect(parseStageHistory('not json')).toEqual([]);
+    expect(parseStageHistory('[{"stage":"New","at":"2026-03-01"},{"stage":1}]')).toEqual([
+      { stage: 'New', at: '2026-03-01' },
+    ]);
+  });
+
+  it('only appends real stage changes', () => {
+    const history = [{ stage: 'New' as const, at: '2026-03-01' }];
+    expect(appendStageChange(history, 'New', '2026-03-02')).toBe(history);
+    expect(appendStageChange(history, 'Contacted', '2026-03-02')).toEqual([
+      ...history,
+      { stage: 'Contacted', at: '2026-03-02' },
+    ]);
+  });
+
+  it('falls back to createdAt for leads without history', () => {
+    expect(getCurrentStageSince(makeLead({ stage: 'Contacted', stageHistory: [] }))).toBe('2026-03-01T09:00:00.000Z');
+  });
+});
+
+describe('getDueFollowUps', () => {
+  it('groups due and overdue open leads by staff member', () => {
+    const leads = [
+      makeLead({ id: 'a', assignedStaffId: 's1', nextFollowUp: '2026-03-10' }),
+      makeLead({ id: 'b', assignedStaffId: 's1', nextFollowUp: '2026-03-05' }),
+      makeLead({ id: 'c', assignedStaffId: 's2', nextFollowUp: '2026-03-11' }),
+      makeLead({ id: 'd', assignedStaffId: 's2', nextFollowUp: '2026-03-01', stage: 'Won' }),
+      makeLead({ id: 'e', nextFollowUp: '2026-03-01' }),
+    ];
+
+    const due = getDueFollowUps(leads, '2026-03-10');
+
+    expect(due).toHaveLength(1);
+    expect(due[0].staffId).toBe('s1');
+    expect(due[0].overdue.map((l) => l.id)).toEqual(['b']);
+    expect(due[0].dueToday.map((l) => l.id)).toEqual(['a']);
+  });
+});
+
+describe('getDueNurtureSteps', () => {
+  const steps: LeadNurtureStep[] = [
+    { slug: 'new_web', stage: 'New', sources: ['Website'], daysInStage: 2 },
+    { slug: 'contacted', stage: 'Contacted', daysInStage: 7 },
+  ];
+
+  it('returns steps for the current stage once enough days have passed', () => {
+    const lead = makeLead({ leadSource: 'Website' });
+    expect(getDueNurtureSteps(lead, steps, new Date('2026-03-02T12:00:00Z'))).toEqual([]);
+    expect(getDueNurtureSteps(lead, steps, new Date('2026-03-03T12:00:00Z')).map((s) => s.slug)).toEqual(['new_web']);
+  });
+
+  it('respects sources, pause and missing email', () => {
+    const now = new Date('2026-04-01T00:00:00Z');
+    expect(getDueNurtureSteps(makeLead({ leadSource: 'Outbound Call' }), steps, now)).toEqual([]);
+    expect(getDueNurtureSteps(makeLead({ leadSource: 'Website', nurturePaused: true }), steps, now)).toEqual([]);
+    expect(getDueNurtureSteps(makeLead({ leadSource: 'Website', contactEmail: undefined }), steps, now)).toEqual([]);
+  });
+
+  it('counts days from the last stage change', () => {
+    const lead = makeLead({
+      stage: 'Contacted',
+      stageHistory: [
+        { stage: 'New', at: '2026-03-01T00:00:00Z' },
+        { stage: 'Contacted', at: '2026-03-20T00:00:00Z' },
+      ],
+    });
+    expect(getDueNurtureSteps(lead, steps, new Date('2026-03-25T00:00:00Z'))).toEqual([]);
+    expect(getDueNurtureSteps(lead, steps, new Date('2026-03-27T00:00:00Z')).map((s) => s.slug)).toEqual(['contacted']);
+  });
+});
+
+describe('buildLeadFunnelReport', () => {
+  const leads = [
+    makeLead({
+      id: 'won',
+      stage: 'Won',
+      leadSource: 'Website',
+      regionId: 'recBerlin',
+      eventTypeInterest: ['Minimusikertag', 'Schulsong'],
+      stageHistory: [
+        { stage: 'New', at: '2026-03-01T00:00:00Z' },
+        { stage: 'Contacted', at: '2026-03-03T00:00:00Z' },
+        { stage: 'Won', at: '2026-03-13T00:00:00Z' },
+      ],
+    }),
+    makeLead({
+      id: 'lost1',
+      stage: 'Lost',
+      leadSource: 'Website',
+      lostReason: 'Budget',
+      stageHistory: [
+        { stage: 'New', at: '2026-03-01T00:00:00Z' },
+        { stage: 'Lost', at: '2026-03-05T00:00:00Z' },
+      ],
+    }),
+    makeLead({ id: 'lost2', stage: 'Lost', leadSource: 'Referral', lostReason: ' budget ' }),
+    makeLead({ id: 'open', leadSource: 'Referral', regionId: 'recBerlin' }),
+  ];
+
+  const report = buildLeadFunnelReport(leads, [{ id: 'recBerlin', name: 'Berlin' }]);
+
+  it('computes conversion rates per source and region', () => {
+    expect(report.totals).toMatchObject({ total: 4, won: 1, lost: 2, open: 1, conversionRate: 0.25 });
+    expect(report.bySource.find((r) => r.key === 'Website')).toMatchObject({ total: 2, won: 1, conversionRate: 0.5 });
+    expect(report.byRegion.find((r) => r.key === 'recBerlin')).toMatchObject({ label: 'Berlin', total: 2, won: 1 });
+    expect(report.byRegion.find((r) => r.key === '')).toMatchObject({ label: 'No region', total: 2 });
+  });
+
+  it('counts a lead towards every event type it is interested in', () => {
+    expect(report.byEventType.find((r) => r.key === 'Schulsong')).toMatchObject({ total: 1, won: 1 });
+    expect(report.byEventType.find((r) => r.key === '')).toMatchObject({ total: 3 });
+  });
+
+  it('averages completed stays per stage', () => {
+    expect(report.timeInStage.find((s) => s.stage === 'New')).toMatchObject({ averageDays: 3, completedStays: 2 });
+    expect(report.timeInStage.find((s) => s.stage === 'Contacted')).toMatchObject({ averageDays: 10, completedStays: 1 });
+    expect(report.timeInStage.find((s) => s.stage === 'In Discussion')).toMatchObject({ averageDays: null });
+  });
+
+  it('groups lost reasons case-insensitively', () => {
+    expect(report.lostReasons).toEqual([{ reason: 'Budget', count: 2 }]);
+  });
+});
@@ -0,0 +1,167 @@
+import {
+  buildLicensingRows,
+  getPreviousQuarter,
+  getQuarterRange,
+  summarizeByWork,
+  toLicensingCsv,
+  type LicensingReportEvent,
+} from '@/lib/utils/licensingReport';
+import type { RepertoireWork } from '@/lib/types/airtable';
+
+const works: RepertoireWork[] = [
+  {
+    id: 'recAlle',
+    title: 'Alle Kinder lernen lesen',
+    alternativeTitles: [],
+    composer: 'Frederik Vahle',
+    lyricist: 'Frederik Vahle',
+    publisher: 'Aktive Musik',
+    gemaWorkNumber: '1234567-001',
+    licensingStatus: 'gema',
+  },
+  { id: 'recJahr', title: 'Das Jahreszeitenlied', alternativeTitles: [], licensingStatus: 'public_domain' },
+];
+
+function event(overrides: Partial<LicensingReportEvent>): LicensingReportEvent {
+  return {
+    eventId: 'evt_1',
+    schoolName: 'Grundschule Süd',
+    eventDate: '2026-08-20',
+    cdQuantity: 10,
+    downloadQuantity: 4,
+    tracks: [],
+    ...overrides,
+  };
+}
+
+describe('getQuarterRange', () => {
+  it('returns the first and last day of the quarter', () => {
+    expect(getQuarterRange('2026-Q1')).toEqual({ quarter: '2026-Q1', from: '2026-01-01', to: '2026-03-31' });
+    expect(getQuarterRange('2024-Q4')).toEqual({ quarter: '2024-Q4', from: '2024-10-01', to: '2024-12-31' });
+  });
+
+  it('rejects malformed quarters', () => {
+    expect(getQuarterRange('2026-Q5')).toBeNull();
+    expect(getQuarterRange('Q3 2026')).toBeNull();
+  });
+});
+
+describe('getPreviousQuarter', () => {
+  it('returns the last completed quarter', () => {
+    expect(getPreviousQuarter(new Date('2026-10-19T00:00:00Z'))).toBe('2026-Q3');
+    expect(getPreviousQuarter(new Date('2026-02-01T00:00:00Z'))).toBe('2025-Q4');
+  });
+});
+
+describe('buildLicensingRows', () => {
+  it('prefers confirmed links over title matches', () => {
+    const [row] = buildLicensingRows(
+      [event({ tracks: [{ songId: 'recSong1', songTitle: 'Unser Lied', trackNumber: 2, confirmedWorkId: 'recJahr' }] })],
+      works
+    );
+    expect(row).toMatchObject({ match: 'confirmed', workId: 'recJahr', licensingStatus: 'public_domain' });
+  });
+
+  it('counts high-confidence title matches with the work details', () => {
+    const [row] = buildLicensingRows(
+      [event({ tracks: [{ songId: 'recSong1', songTitle: 'alle Kinder lernen Lesen', className: '2a', trackNumber: 2 }] })],
+      works
+    );
+    expect(row).toMatchObject({
+      match: 'auto',
+      workTitle: 'Alle Kinder lernen lesen',
+      composer: 'Frederik Vahle',
+      gemaWorkNumber: '1234567-001',
+      licensingStatus: 'gema',
+      cdQuantity: 10,
+      downloadQuantity: 4,
+    });
+  });
+
+  it('lists uncertain matches for review without the work details', () => {
+    const [row] = buildLicensingRows(
+      [event({ tracks: [{ songId: 'recSong1', songTitle: 'Alle Kinder lesen gern', trackNumber: 2 }] })],
+      works
+    );
+    expect(row.match).toBe('review');
+    expect(row.workId).toBe('recAlle');
+    expect(row.composer).toBeUndefined();
+    expect(row.licensingStatus).toBeNull();
+  });
+
+  it('reports an unmatched Schulsong as own work', () => {
+    const [row] = buildLicensingRows(
+      [event({ tracks: [{ songId: '__schulsong__', songTitle: 'Wir sind die Südschule', trackNumber: 1, isSchulsong: true }] })],
+      works
+    );
+    expect(row).toMatchObject({ match: 'schulsong', workId: null, licensingStatus: 'own_work' });
+  });
+
+  it('skips events without CDs or downloads and sorts by track number', () => {
+    const rows = buildLicensingRows(
+      [
+        event({ eventId: 'evt_none', cdQuantity: 0, downloadQuantity: 0, tracks: [{ songId: 's0', songTitle: 'X', trackNumber: 1 }] }),
+        event({
+          tracks: [
+            { songId: 's2', songTitle: 'Das Jahreszeitenlied', trackNumber: 3 },
+            { songId: 's1', songTitle: 'Alle Kinder lernen lesen', trackNumber: 2 },
+          ],
+        }),
+      ],
+      works
+    );
+    expect(rows.map((row) => [row.eventId, row.songId])).toEqual([
+      ['evt_1', 's1'],
+      ['evt_1', 's2'],
+    ]);
+  });
+});
+
+describe('summarizeByWork', () => {
+  it('totals quantities per work, once per event', () => {
+    const rows = buildLicensingRows(
+      [
+        event({
+          tracks: [
+            { songId: 's1', songTitle: 'Alle Kinder lernen lesen', className: '1a', trackNumber: 2 },
+            { songId: 's2', songTitle: 'Alle Kinder lernen lesen', className: '1b', trackNumber: 3 },
+          ],
+        }),
+        event({
+          eventId: 'evt_2',
+          cdQuantity: 5,
+          downloadQuantity: 1,
+          tracks: [{ songId: 's3', songTitle: 'Alle Kinder lernen lesen', trackNumber: 2 }],
+        }),
+      ],
+      works
+    );
+
+    expect(summarizeByWork(rows)).toEqual([
+      expect.objectContaining({ workId: 'recAlle', events: 2, cdQuantity: 15, downloadQuantity: 5 }),
+    ]);
+  });
+
+  it('groups open titles separately', () => {
+    const rows = buildLicensingRows(
+      [event({ tracks: [{ songId: 's1', songTitle: 'Xylophon Zebra', trackNumber: 2 }] })],
+      works
+    );
+    expect(summarizeByWork(rows)).toEqual([
+      expect.objectContaining({ workId: null, title: 'Xylophon Zebra', match: 'unmatched', events: 1 }),
+    ]);
+  });
+});
+
+describe('toLicensingCsv', () => {
+  it('writes a header and escapes cells', () => {
+    const rows = buildLicensingRows(
+      [event({ schoolName: 'Schule "Am See", Nord', tracks: [{ songId: 's1', songTitle: 'Alle Kinder lernen lesen', trackNumber: 2 }] })],
+      works
+    );
+    const [header, line] = toLicensingCsv(rows).split('\n');
+    expect(header.split(',')).toContain('GEMA Work Number');
+    expect(line).toContain('"Schule ""Am See"", Nord"');
+    expect(line.endsWith(',gema,auto,10,4')).toBe(true);
+  });
+});
@@ -0,0 +1,96 @@
+import {
+  buildLoudnormFilter,
+  getLoudnessWarning,
+  parseLoudnormStats,
+} from '@/lib/utils/loudnorm';
+import {
+  DEFAULT_MASTERING_PRESET,
+  MASTERING_PRESETS,
+  resolveMasteringPreset,
+} from '@/lib/config/audioMastering';
+
+const EBU = MASTERING_PRESETS.ebu_r128;
+
+const PASS_ONE_STDERR = `
+size=N/A time=00:03:12.00 bitrate=N/A speed= 210x
+[Parsed_loudnorm_0 @ 0x7f9c4c004a80]
+{
+	"input_i" : "-16.42",
+	"input_tp" : "0.87",
+	"input_lra" : "6.10",
+	"input_thresh" : "-26.61",
+	"output_i" : "-23.05",
+	"output_tp" : "-5.71",
+	"output_lra" : "5.90",
+	"output_thresh" : "-33.20",
+	"normalization_type" : "dynamic",
+	"target_offset" : "0.05"
+}
+`;
+
+describe('buildLoudnormFilter', () => {
+  it('builds the measuring pass from the preset', () => {
+    expect(buildLoudnormFilter(EBU)).toBe('loudnorm=I=-23:TP=-1:LRA=11:print_format=json');
+  });
+
+  it('feeds the measurement into a linear second pass', () => {
+    const measured = parseLoudnormStats(PASS_ONE_STDERR)!;
+    expect(buildLoudnormFilter(MASTERING_PRESETS.cd_loud, measured)).toBe(
+      'loudnorm=I=-10:TP=-0.5:LRA=7:measured_I=-16.42:measured_TP=0.87:measured_LRA=6.1:' +
+        'measured_thresh=-26.61:offset=0.05:linear=true:print_format=json'
+    );
+  });
+});
+
+describe('parseLoudnormStats', () => {
+  it('reads the JSON block ffmpeg prints to stderr', () => {
+    expect(parseLoudnormStats(PASS_ONE_STDERR)).toEqual({
+      inputI: -16.42,
+      inputTp: 0.87,
+      inputLra: 6.1,
+      inputThresh: -26.61,
+      outputI: -23.05,
+      outputTp: -5.71,
+      targetOffset: 0.05,
+    });
+  });
+
+  it('returns null for silent input', () => {
+    const silent = PASS_ONE_STDERR.replace('"-16.42"', '"-inf"');
+    expect(parseLoudnormStats(silent)).toBeNull();
+  });
+
+  it('returns null without a stats block', () => {
+    expect(parseLoudnormStats('Invalid data found when processing input')).toBeNull();
+  });
+});
+
+describe('getLoudnessWarning', () => {
+  it('accepts tracks within tolerance', () => {
+    expect(getLoudnessWarning({ loudnessLufs: -22.1, truePeakDbtp: -1.2 }, EBU)).toBeNull();
+  });
+
+  it('flags tracks off target', () => {
+    expect(getLoudnessWarning({ loudnessLufs: -14.2 }, EBU)).toEqual({ kind: 'too_loud', deviationLu: 8.8 });
+    expect(getLoudnessWarning({ loudnessLufs: -27 }, EBU)).toEqual({ kind: 'too_quiet', deviationLu: -4 });
+  });
+
+  it('flags clipping on target tracks', () => {
+    expect(getLoudnessWarning({ loudnessLufs: -23, truePeakDbtp: 0.4 }, EBU)).toEqual({
+      kind: 'clipping',
+      truePeakDbtp: 0.4,
+    });
+  });
+
+  it('flags tracks processed before normalization', () => {
+    expect(getLoudnessWarning({}, EBU)).toEqual({ kind: 'unmeasured' });
+  });
+});
+
+describe('resolveMasteringPreset', () => {
+  it('falls back to the default for unset or unknown presets', () => {
+    expect(resolveMasteringPreset(undefined).id).toBe(DEFAULT_MASTERING_PRESET);
+    expect(resolveMasteringPreset('louder').id).toBe(DEFAULT_MASTERING_PRESET);
+    expect(resolveMasteringPreset('streaming').targetLufs).toBe(-14);
+  });
+});
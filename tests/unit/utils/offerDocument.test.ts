@@ -0,0 +1,12 @@
+import { buildOfferNumber, getNextOfferVersion } from '@/lib/utils/offerDocument';
+
+describe('offer numbering', () => {
+  it('continues after the highest existing version', () => {
+    expect(getNextOfferVersion([])).toBe(1);
+    expect(getNextOfferVersion([{ version: 1 }, { version: 3 }, { version: 2 }])).toBe(4);
+  });
+
+  it('builds the number from year, record ID and version', () => {
+    expect(buildOfferNumber('recAbC12xyz9', 2, new Date('2026-05-04T10:00:00Z'))).toBe('ANG-2026-2XYZ9-2');
+  });
+});
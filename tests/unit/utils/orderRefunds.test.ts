@@ -0,0 +1,152 @@
+import {
+  getNetOrderLineItems,
+  parseShopifyRefunds,
+  subtractRefundedItems,
+  summarizeRefundedProducts,
+} from '@/lib/utils/orderRefunds';
+import { ORDERS_FIELD_IDS, type OrderRefundLineItem, type ShopifyOrderLineItem } from '@/lib/types/airtable';
+import type { ShopifyWebhookLineItem, ShopifyWebhookRefund } from '@/lib/utils/shopifyWebhook';
+
+const tshirt: ShopifyOrderLineItem = {
+  variant_id: 'gid://shopify/ProductVariant/111',
+  product_title: 'T-Shirt',
+  variant_title: '116',
+  quantity: 2,
+  price: 20,
+  total: 40,
+};
+const cd: ShopifyOrderLineItem = {
+  variant_id: 'gid://shopify/ProductVariant/222',
+  product_title: 'CD',
+  quantity: 1,
+  price: 15,
+  total: 15,
+};
+
+function refundOf(item: ShopifyOrderLineItem, quantity: number, subtotal: number): OrderRefundLineItem {
+  return {
+    refund_id: '900',
+    variant_id: item.variant_id,
+    product_title: item.product_title,
+    ...(item.variant_title && { variant_title: item.variant_title }),
+    quantity,
+    subtotal,
+    refunded_at: '2026-05-02T10:00:00Z',
+  };
+}
+
+function orderRecord(fields: Record<string, unknown>) {
+  return { get: (field: string) => fields[field] };
+}
+
+describe('parseShopifyRefunds', () => {
+  it('flattens refund line items with variant GIDs', () => {
+    const refunds = [
+      {
+        id: 900,
+        created_at: '2026-05-02T10:00:00Z',
+        processed_at: '2026-05-02T10:05:00Z',
+        note: null,
+        refund_line_items: [
+          {
+            id: 1,
+            line_item_id: 10,
+            quantity: 1,
+            restock_type: 'no_restock',
+            subtotal: 20,
+            total_tax: 3.19,
+            line_item: { variant_id: 111, title: 'T-Shirt', variant_title: '116' } as ShopifyWebhookLineItem,
+          },
+          {
+            id: 2,
+            line_item_id: 11,
+            quantity: 0,
+            restock_type: 'no_restock',
+            subtotal: 0,
+            total_tax: 0,
+            line_item: { variant_id: 222, title: 'CD', variant_title: null } as ShopifyWebhookLineItem,
+          },
+        ],
+      },
+    ] as ShopifyWebhookRefund[];
+
+    expect(parseShopifyRefunds(refunds)).toEqual([
+      {
+        refund_id: '900',
+        variant_id: 'gid://shopify/ProductVariant/111',
+        product_title: 'T-Shirt',
+        variant_title: '116',
+        quantity: 1,
+        subtotal: 20,
+        refunded_at: '2026-05-02T10:05:00Z',
+      },
+    ]);
+  });
+
+  it('handles orders without refunds', () => {
+    expect(parseShopifyRefunds(undefined)).toEqual([]);
+  });
+});
+
+describe('subtractRefundedItems', () => {
+  it('reduces quantity and total of partially refunded lines', () => {
+    expect(subtractRefundedItems([tshirt, cd], [refundOf(tshirt, 1, 20)])).toEqual([
+      { ...tshirt, quantity: 1, total: 20 },
+      cd,
+    ]);
+  });
+
+  it('drops fully refunded lines', () => {
+    expect(subtractRefundedItems([tshirt, cd], [refundOf(cd, 1, 15)])).toEqual([tshirt]);
+  });
+
+  it('matches numeric and GID variant IDs', () => {
+    const refund = { ...refundOf(cd, 1, 15), variant_id: '222' };
+    expect(subtractRefundedItems([cd], [refund])).toEqual([]);
+  });
+
+  it('spreads a refund over several lines of the same variant', () => {
+    const split = [{ ...tshirt, quantity: 1, total: 20 }, { ...tshirt, quantity: 1, total: 20 }];
+    expect(subtractRefundedItems(split, [refundOf(tshirt, 2, 40)])).toEqual([]);
+  });
+});
+
+describe('getNetOrderLineItems', () => {
+  it('subtracts the stored refund line items', () => {
+    const record = orderRecord({
+      [ORDERS_FIELD_IDS.payment_status]: 'partially_refunded',
+      [ORDERS_FIELD_IDS.line_items]: JSON.stringify([tshirt, cd]),
+      [ORDERS_FIELD_IDS.refund_line_items]: JSON.stringify([refundOf(cd, 1, 15)]),
+    });
+    expect(getNetOrderLineItems(record)).toEqual([tshirt]);
+  });
+
+  it('returns nothing for refunded or voided orders', () => {
+    for (const status of ['refunded', 'voided']) {
+      const record = orderRecord({
+        [ORDERS_FIELD_IDS.payment_status]: status,
+        [ORDERS_FIELD_IDS.line_items]: JSON.stringify([tshirt]),
+      });
+      expect(getNetOrderLineItems(record)).toEqual([]);
+    }
+  });
+
+  it('treats missing or broken JSON as no items', () => {
+    expect(getNetOrderLineItems(orderRecord({ [ORDERS_FIELD_IDS.line_items]: '{' }))).toEqual([]);
+    expect(getNetOrderLineItems(orderRecord({}))).toEqual([]);
+  });
+});
+
+describe('summarizeRefundedProducts', () => {
+  it('groups refunds by product and variant', () => {
+    expect(
+      summarizeRefundedProducts([refundOf(tshirt, 1, 20), refundOf(cd, 1, 15), refundOf(tshirt, 1, 20)])
+    ).toEqual({
+      products: [
+        { label: 'T-Shirt - 116', quantity: 2, amount: 40 },
+        { label: 'CD', quantity: 1, amount: 15 },
+      ],
+      total: 55,
+    });
+  });
+});
@@ -0,0 +1,71 @@
+import {
+  createRepertoireIndex,
+  matchSongTitle,
+  normalizeSongTitle,
+  parseRepertoireWorkInput,
+} from '@/lib/utils/repertoireMatch';
+import type { RepertoireWork } from '@/lib/types/airtable';
+
+function work(id: string, title: string, alternativeTitles: string[] = []): RepertoireWork {
+  return { id, title, alternativeTitles, licensingStatus: 'gema' };
+}
+
+const works = [
+  work('recAlle', 'Alle Kinder lernen lesen'),
+  work('recJahr', 'Das Jahreszeitenlied', ['Jahreszeiten-Song']),
+  work('recKuckuck', 'Kuckuck, Kuckuck, ruft’s aus dem Wald'),
+];
+
+describe('normalizeSongTitle', () => {
+  it('drops punctuation, annotations and case', () => {
+    expect(normalizeSongTitle('  Kuckuck, Kuckuck (Refrain) ')).toBe('kuckuck kuckuck');
+    expect(normalizeSongTitle('Grüß Gott! [Klasse 2]')).toBe('grüß gott');
+  });
+});
+
+describe('matchSongTitle', () => {
+  const index = createRepertoireIndex(works);
+
+  it('matches differently written titles with high confidence', () => {
+    const match = matchSongTitle('alle kinder lernen lesen!', index);
+    expect(match.workId).toBe('recAlle');
+    expect(match.confidence).toBe('high');
+  });
+
+  it('matches alternative titles', () => {
+    expect(matchSongTitle('Jahreszeiten Song', index).workId).toBe('recJahr');
+  });
+
+  it('tolerates typos', () => {
+    const match = matchSongTitle('Alle Kinder lerne lesen', index);
+    expect(match.workId).toBe('recAlle');
+    expect(match.confidence).not.toBe('none');
+  });
+
+  it('returns no match for unrelated or empty titles', () => {
+    expect(matchSongTitle('Xylophon Zebra', index).workId).toBeNull();
+    expect(matchSongTitle('!!!', index)).toMatchObject({ workId: null, confidence: 'none' });
+  });
+
+  it('returns no match against an empty catalogue', () => {
+    expect(matchSongTitle('Alle Kinder lernen lesen', createRepertoireIndex([])).workId).toBeNull();
+  });
+});
+
+describe('parseRepertoireWorkInput', () => {
+  it('keeps known fields and drops the rest', () => {
+    expect(
+      parseRepertoireWorkInput({
+        title: ' Alle Kinder ',
+        composer: 'Frederik Vahle',
+        alternativeTitles: ['A', 3],
+        licensingStatus: 'bogus',
+        id: 'recX',
+      })
+    ).toEqual({ title: 'Alle Kinder', composer: 'Frederik Vahle', alternativeTitles: ['A'] });
+  });
+
+  it('accepts valid licensing statuses', () => {
+    expect(parseRepertoireWorkInput({ licensingStatus: 'public_domain' })).toEqual({ licensingStatus: 'public_domain' });
+  });
+});
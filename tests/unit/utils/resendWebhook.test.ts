@@ -0,0 +1,183 @@
+import crypto from 'crypto';
+import type { WebhookEventPayload } from 'resend';
+import {
+  verifyResendWebhook,
+  getWebhookMessageId,
+  getDeliveryLogUpdate,
+  getSuppressionFromEvent,
+} from '@/lib/utils/resendWebhook';
+
+const SECRET_BYTES = Buffer.from('resend-test-signing-secret');
+const SECRET = `whsec_${SECRET_BYTES.toString('base64')}`;
+const BODY = JSON.stringify({ type: 'email.delivered', data: { email_id: 'msg_1' } });
+const NOW = new Date('2026-03-01T10:00:00.000Z');
+const TIMESTAMP = String(Math.floor(NOW.getTime() / 1000));
+
+function sign(id: string, timestamp: string, body: string): string {
+  return crypto.createHmac('sha256', SECRET_BYTES).update(`${id}.${timestamp}.${body}`).digest('base64');
+}
+
+function headers(overrides: Record<string, string> = {}): Headers {
+  return new Headers({
+    'svix-id': 'msg_abc',
+    'svix-timestamp': TIMESTAMP,
+    'svix-signature': `v1,${sign('msg_abc', TIMESTAMP, BODY)}`,
+    ...overrides,
+  });
+}
+
+function restoreEnv(name: string, value: string | undefined) {
+  if (value === undefined) delete process.env[name];
+  else process.env[name] = value;
+}
+
+function emailEvent(type: string, data: Record<string, unknown> = {}): WebhookEventPayload {
+  return {
+    type,
+    created_at: '2026-03-01T10:05:00.000Z',
+    data: {
+      email_id: 'msg_1',
+      created_at: '2026-03-01T10:00:00.000Z',
+      from: 'info@minimusiker.de',
+      to: ['Sekretariat@Schule.de'],
+      subject: 'Euer Minimusikertag',
+      ...data,
+    },
+  } as unknown as WebhookEventPayload;
+}
+
+describe('verifyResendWebhook', () => {
+  const originalSecret = process.env.RESEND_WEBHOOK_SECRET;
+
+  beforeEach(() => {
+    process.env.RESEND_WEBHOOK_SECRET = SECRET;
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    restoreEnv('RESEND_WEBHOOK_SECRET', originalSecret);
+    jest.restoreAllMocks();
+  });
+
+  it('accepts a valid signature', () => {
+    expect(verifyResendWebhook(BODY, headers(), NOW)).toBe(true);
+  });
+
+  it('accepts any matching signature from a rotated secret list', () => {
+    const signature = `v1,${Buffer.from('old').toString('base64')} v1,${sign('msg_abc', TIMESTAMP, BODY)}`;
+    expect(verifyResendWebhook(BODY, headers({ 'svix-signature': signature }), NOW)).toBe(true);
+  });
+
+  it('rejects a tampered body', () => {
+    expect(verifyResendWebhook(BODY.replace('delivered', 'bounced'), headers(), NOW)).toBe(false);
+  });
+
+  it('rejects stale timestamps', () => {
+    const later = new Date(NOW.getTime() + 10 * 60 * 1000);
+    expect(verifyResendWebhook(BODY, headers(), later)).toBe(false);
+  });
+
+  it('rejects missing headers and a missing secret', () => {
+    expect(verifyResendWebhook(BODY, new Headers(), NOW)).toBe(false);
+    delete process.env.RESEND_WEBHOOK_SECRET;
+    expect(verifyResendWebhook(BODY, headers(), NOW)).toBe(false);
+  });
+});
+
+describe('getWebhookMessageId', () => {
+  it('reads the email ID of email events only', () => {
+    expect(getWebhookMessageId(emailEvent('email.delivered'))).toBe('msg_1');
+    expect(
+      getWebhookMessageId({ type: 'contact.created', created_at: '', data: {} } as unknown as WebhookEventPayload)
+    ).toBeNull();
+  });
+});
+
+describe('getDeliveryLogUpdate', () => {
+  it('records delivery status with its time', () => {
+    expect(getDeliveryLogUpdate({}, emailEvent('email.delivered'))).toEqual({
+      deliveryStatus: 'delivered',
+      deliveryUpdatedAt: '2026-03-01T10:05:00.000Z',
+    });
+  });
+
+  it('keeps the bounce message', () => {
+    const event = emailEvent('email.bounced', {
+      bounce: { type: 'Permanent', subType: 'General', message: 'Mailbox does not exist' },
+    });
+    expect(getDeliveryLogUpdate({ deliveryStatus: 'delayed' }, event)).toEqual({
+      deliveryStatus: 'bounced',
+      deliveryUpdatedAt: '2026-03-01T10:05:00.000Z',
+      deliveryDetail: 'Permanent: Mailbox does not exist',
+    });
+  });
+
+  it('never downgrades a status', () => {
+    expect(getDeliveryLogUpdate({ deliveryStatus: 'bounced' }, emailEvent('email.delivered'))).toBeNull();
+    expect(getDeliveryLogUpdate({ deliveryStatus: 'delivered' }, emailEvent('email.delivery_delayed'))).toBeNull();
+    expect(getDeliveryLogUpdate({ deliveryStatus: 'delivered' }, emailEvent('email.complained'))).toMatchObject({
+      deliveryStatus: 'complained',
+    });
+  });
+
+  it('records only the first open', () => {
+    expect(getDeliveryLogUpdate({ deliveryStatus: 'delivered' }, emailEvent('email.opened'))).toEqual({
+      openedAt: '2026-03-01T10:05:00.000Z',
+    });
+    expect(getDeliveryLogUpdate({ openedAt: '2026-03-01T09:00:00.000Z' }, emailEvent('email.opened'))).toBeNull();
+  });
+
+  it('records the first click and counts it as an open', () => {
+    const click = emailEvent('email.clicked', { click: { link: 'https://minimusiker.app/e/64' } });
+    expect(getDeliveryLogUpdate({}, click)).toEqual({
+      openedAt: '2026-03-01T10:05:00.000Z',
+      clickedAt: '2026-03-01T10:05:00.000Z',
+    });
+    expect(
+      getDeliveryLogUpdate({ openedAt: '2026-03-01T09:00:00.000Z', clickedAt: '2026-03-01T09:01:00.000Z' }, click)
+    ).toBeNull();
+  });
+
+  it('records clicks on tagged shop links separately', () => {
+    const shopClick = emailEvent('email.clicked', {
+      click: { link: 'https://minimusiker.app/e/64?utm_source=minimusiker-automation&utm_content=B' },
+    });
+    expect(
+      getDeliveryLogUpdate({ openedAt: '2026-03-01T09:00:00.000Z', clickedAt: '2026-03-01T09:01:00.000Z' }, shopClick)
+    ).toEqual({ shopClickedAt: '2026-03-01T10:05:00.000Z' });
+  });
+
+  it('ignores events without a delivery meaning', () => {
+    expect(getDeliveryLogUpdate({}, emailEvent('email.sent'))).toBeNull();
+  });
+});
+
+describe('getSuppressionFromEvent', () => {
+  it('suppresses hard bounces but not soft ones', () => {
+    expect(
+      getSuppressionFromEvent(
+        emailEvent('email.bounced', { bounce: { type: 'Permanent', subType: 'General', message: 'No such user' } })
+      )
+    ).toEqual({ emails: ['Sekretariat@Schule.de'], reason: 'bounce', detail: 'No such user' });
+    expect(
+      getSuppressionFromEvent(
+        emailEvent('email.bounced', { bounce: { type: 'Transient', subType: 'MailboxFull', message: 'Full' } })
+      )
+    ).toBeNull();
+  });
+
+  it('suppresses complaints and addresses Resend refused', () => {
+    expect(getSuppressionFromEvent(emailEvent('email.complained'))).toEqual({
+      emails: ['Sekretariat@Schule.de'],
+      reason: 'complaint',
+    });
+    expect(
+      getSuppressionFromEvent(emailEvent('email.suppressed', { suppressed: { type: 'bounce', message: 'On list' } }))
+    ).toMatchObject({ reason: 'bounce', detail: 'On list' });
+  });
+
+  it('ignores deliveries and opens', () => {
+    expect(getSuppressionFromEvent(emailEvent('email.delivered'))).toBeNull();
+    expect(getSuppressionFromEvent(emailEvent('email.opened'))).toBeNull();
+  });
+});
@@ -0,0 +1,69 @@
+import {
+  createShareToken,
+  generateShareUrl,
+  getRemainingPlays,
+  getShareLinkStatus,
+  verifyShareToken,
+} from '@/lib/utils/shareLinks';
+
+const payload = { linkId: 'recABCDEFGHIJKLMN', eventId: 'evt_grundschule_1', expiresAt: '2026-11-18T10:00:00.000Z' };
+
+describe('share tokens', () => {
+  const originalSecret = process.env.SHARE_LINK_SECRET;
+
+  beforeEach(() => {
+    process.env.SHARE_LINK_SECRET = 'test-secret';
+  });
+
+  afterAll(() => {
+    if (originalSecret === undefined) delete process.env.SHARE_LINK_SECRET;
+    else process.env.SHARE_LINK_SECRET = originalSecret;
+  });
+
+  it('round-trips the link, event and expiry', () => {
+    const token = createShareToken(payload);
+    expect(token).toMatch(/^[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+$/);
+    expect(verifyShareToken(token)).toEqual(payload);
+    expect(generateShareUrl(token)).toMatch(new RegExp(`/teilen/${token}$`));
+  });
+
+  it('rejects a token whose payload was changed', () => {
+    const [, sig] = createShareToken(payload).split('.');
+    const otherBody = createShareToken({ ...payload, eventId: 'evt_other' }).split('.')[0];
+    expect(verifyShareToken(`${otherBody}.${sig}`)).toBeNull();
+  });
+
+  it('rejects tokens signed with another secret and malformed tokens', () => {
+    const token = createShareToken(payload);
+    process.env.SHARE_LINK_SECRET = 'rotated-secret';
+    expect(verifyShareToken(token)).toBeNull();
+    expect(verifyShareToken('')).toBeNull();
+    expect(verifyShareToken('abc')).toBeNull();
+    expect(verifyShareToken(`${token}.extra`)).toBeNull();
+  });
+});
+
+describe('getShareLinkStatus', () => {
+  const link = {
+    expiresAt: '2026-11-18T10:00:00.000Z',
+    maxPlays: 20,
+    playCount: 12,
+    downloadCount: 3,
+  };
+  const now = new Date('2026-10-19T10:00:00Z');
+
+  it('counts plays and downloads against the limit', () => {
+    expect(getRemainingPlays(link)).toBe(5);
+    expect(getShareLinkStatus(link, now)).toBe('active');
+    expect(getShareLinkStatus({ ...link, playCount: 17 }, now)).toBe('exhausted');
+    expect(getRemainingPlays({ ...link, playCount: 30 })).toBe(0);
+  });
+
+  it('expires at expiresAt and stays revoked once revoked', () => {
+    expect(getShareLinkStatus(link, new Date('2026-11-18T10:00:00Z'))).toBe('expired');
+    expect(getShareLinkStatus({ ...link, revokedAt: '2026-10-18T10:00:00Z' }, now)).toBe('revoked');
+    expect(
+      getShareLinkStatus({ ...link, playCount: 17, revokedAt: '2026-10-18T10:00:00Z' }, new Date('2027-01-01'))
+    ).toBe('revoked');
+  });
+});
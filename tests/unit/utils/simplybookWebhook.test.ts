@@ -0,0 +1,159 @@
+import crypto from 'crypto';
+import {
+  verifySimplybookWebhook,
+  isExpectedSimplybookCompany,
+  parseSimplybookWebhookPayload,
+  decideSimplybookWebhookAction,
+  SIMPLYBOOK_PROCESSING_TIMEOUT_MS,
+  SIMPLYBOOK_DEFER_LIMIT_MS,
+} from '@/lib/utils/simplybookWebhook';
+import type { SimplybookWebhookLogEntry } from '@/lib/types/simplybook';
+
+const SECRET = 'test-webhook-secret';
+const BODY = JSON.stringify({
+  booking_id: '1234',
+  booking_hash: 'abc',
+  company: 'minimusiker',
+  notification_type: 'create',
+});
+
+const NOW = new Date('2026-03-01T10:00:00.000Z');
+
+function entry(
+  notificationType: SimplybookWebhookLogEntry['notificationType'],
+  status: SimplybookWebhookLogEntry['status'],
+  receivedAt = '2026-03-01T09:59:00.000Z'
+) {
+  return { notificationType, status, receivedAt };
+}
+
+function restoreEnv(name: string, value: string | undefined) {
+  if (value === undefined) delete process.env[name];
+  else process.env[name] = value;
+}
+
+describe('verifySimplybookWebhook', () => {
+  const originalSecret = process.env.SIMPLYBOOK_WEBHOOK_SECRET;
+
+  beforeEach(() => {
+    process.env.SIMPLYBOOK_WEBHOOK_SECRET = SECRET;
+  });
+
+  afterAll(() => {
+    restoreEnv('SIMPLYBOOK_WEBHOOK_SECRET', originalSecret);
+  });
+
+  it('accepts the shared secret from the callback URL', () => {
+    expect(verifySimplybookWebhook(BODY, null, SECRET)).toBe(true);
+    expect(verifySimplybookWebhook(BODY, null, 'wrong')).toBe(false);
+  });
+
+  it('accepts a hex or base64 HMAC of the raw body', () => {
+    const hmac = crypto.createHmac('sha256', SECRET).update(BODY, 'utf8');
+    const digest = hmac.digest();
+    expect(verifySimplybookWebhook(BODY, digest.toString('hex'), null)).toBe(true);
+    expect(verifySimplybookWebhook(BODY, `sha256=${digest.toString('base64')}`, null)).toBe(true);
+    expect(verifySimplybookWebhook(BODY + ' ', digest.toString('hex'), null)).toBe(false);
+  });
+
+  it('does not fall back to the URL token when a signature is present', () => {
+    expect(verifySimplybookWebhook(BODY, 'bogus', SECRET)).toBe(false);
+  });
+
+  it('rejects everything when no secret is configured', () => {
+    delete process.env.SIMPLYBOOK_WEBHOOK_SECRET;
+    expect(verifySimplybookWebhook(BODY, null, '')).toBe(false);
+    expect(verifySimplybookWebhook(BODY, null, 'anything')).toBe(false);
+  });
+});
+
+describe('isExpectedSimplybookCompany', () => {
+  const originalAccount = process.env.SIMPLY_BOOK_ACCOUNT_NAME;
+
+  afterAll(() => {
+    restoreEnv('SIMPLY_BOOK_ACCOUNT_NAME', originalAccount);
+  });
+
+  it('matches the configured account login case-insensitively', () => {
+    process.env.SIMPLY_BOOK_ACCOUNT_NAME = 'minimusiker';
+    expect(isExpectedSimplybookCompany('MiniMusiker')).toBe(true);
+    expect(isExpectedSimplybookCompany('othercompany')).toBe(false);
+    expect(isExpectedSimplybookCompany('')).toBe(false);
+  });
+
+  it('rejects when the account is not configured', () => {
+    delete process.env.SIMPLY_BOOK_ACCOUNT_NAME;
+    expect(isExpectedSimplybookCompany('minimusiker')).toBe(false);
+  });
+});
+
+describe('parseSimplybookWebhookPayload', () => {
+  it('normalises a valid payload', () => {
+    expect(
+      parseSimplybookWebhookPayload('{"booking_id":42,"company":"minimusiker","notification_type":"change"}')
+    ).toEqual({ booking_id: '42', booking_hash: '', company: 'minimusiker', notification_type: 'change' });
+  });
+
+  it('returns null for malformed bodies', () => {
+    expect(parseSimplybookWebhookPayload('not json')).toBeNull();
+    expect(parseSimplybookWebhookPayload('{"notification_type":"create"}')).toBeNull();
+    expect(parseSimplybookWebhookPayload('{"booking_id":"1","notification_type":"delete"}')).toBeNull();
+  });
+});
+
+describe('decideSimplybookWebhookAction', () => {
+  it('applies the first create and treats redeliveries as duplicates', () => {
+    expect(decideSimplybookWebhookAction('create', [], false, NOW).action).toBe('apply');
+    expect(decideSimplybookWebhookAction('create', [entry('create', 'applied')], false, NOW).action).toBe('duplicate');
+    expect(decideSimplybookWebhookAction('create', [entry('create', 'processing')], false, NOW).action).toBe('duplicate');
+  });
+
+  it('retries a create that failed or whose handler timed out', () => {
+    expect(decideSimplybookWebhookAction('create', [entry('create', 'failed')], false, NOW).action).toBe('apply');
+    const stale = new Date(NOW.getTime() - SIMPLYBOOK_PROCESSING_TIMEOUT_MS - 1000).toISOString();
+    expect(decideSimplybookWebhookAction('create', [entry('create', 'processing', stale)], false, NOW).action).toBe('apply');
+  });
+
+  it('never creates a booking whose cancel arrived first', () => {
+    const decision = decideSimplybookWebhookAction('create', [entry('cancel', 'skipped')], false, NOW);
+    expect(decision.action).toBe('superseded');
+  });
+
+  it('applies repeated changes but not while one is running or after cancel', () => {
+    expect(decideSimplybookWebhookAction('change', [entry('create', 'applied'), entry('change', 'applied')], false, NOW).action).toBe('apply');
+    expect(decideSimplybookWebhookAction('change', [entry('change', 'processing')], false, NOW).action).toBe('duplicate');
+    expect(decideSimplybookWebhookAction('change', [entry('create', 'applied'), entry('cancel', 'applied')], false, NOW).action).toBe('superseded');
+  });
+
+  it('applies cancel exactly once', () => {
+    expect(decideSimplybookWebhookAction('cancel', [entry('create', 'applied')], false, NOW).action).toBe('apply');
+    expect(decideSimplybookWebhookAction('cancel', [entry('cancel', 'applied')], false, NOW).action).toBe('duplicate');
+  });
+
+  it('defers change and cancel until the create has been applied', () => {
+    // change overtakes the create
+    expect(decideSimplybookWebhookAction('change', [], false, NOW).action).toBe('deferred');
+    // create arrives and is still running when SimplyBook redelivers the change
+    const whileCreating = [entry('change', 'deferred'), entry('create', 'processing')];
+    expect(decideSimplybookWebhookAction('change', whileCreating, false, NOW).action).toBe('deferred');
+    expect(decideSimplybookWebhookAction('cancel', whileCreating, false, NOW).action).toBe('deferred');
+    // create applied: the redelivered change and cancel go through
+    const created = [entry('change', 'deferred'), entry('create', 'applied')];
+    expect(decideSimplybookWebhookAction('change', created, false, NOW).action).toBe('apply');
+    expect(decideSimplybookWebhookAction('cancel', created, false, NOW).action).toBe('apply');
+  });
+
+  it('treats an existing SchoolBookings record as created', () => {
+    // booking made before the webhook log existed: no create entry at all
+    expect(decideSimplybookWebhookAction('cancel', [], true, NOW).action).toBe('apply');
+    expect(decideSimplybookWebhookAction('change', [entry('change', 'applied')], true, NOW).action).toBe('apply');
+    // a create that is still running is waited for regardless
+    expect(decideSimplybookWebhookAction('cancel', [entry('create', 'processing')], true, NOW).action).toBe('deferred');
+  });
+
+  it('stops deferring once the create has been missing for the defer limit', () => {
+    const firstDeferred = new Date(NOW.getTime() - SIMPLYBOOK_DEFER_LIMIT_MS).toISOString();
+    expect(decideSimplybookWebhookAction('cancel', [entry('cancel', 'deferred', firstDeferred)], false, NOW).action).toBe('apply');
+    expect(decideSimplybookWebhookAction('cancel', [entry('change', 'deferred', firstDeferred)], false, NOW).action).toBe('deferred');
+  });
+});